@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getFinanceStore } from '@/lib/finance'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * Removes a recorded entry; a settled milestone or payment goes back to scheduled
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const store = getFinanceStore()
+    const entries = await store.listEntries(context.orgId)
+    if (!entries.some((e) => e.id === params.id)) {
+      return NextResponse.json({ error: 'Cash entry not found' }, { status: 404 })
+    }
+
+    await store.removeEntry(context.orgId, params.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Cash entry error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete cash entry' },
+      { status: 500 }
+    )
+  }
+}
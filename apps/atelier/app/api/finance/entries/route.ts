@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { createEntry, getFinanceStore, parseEntryInput } from '@/lib/finance'
+
+/**
+ * Records cash actually collected or paid. `source` ties the entry to the
+ * scheduled milestone, purchase order or overhead occurrence it settles;
+ * without it the entry is manual.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseEntryInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const entry = createEntry(input, context)
+    await getFinanceStore().saveEntry(entry)
+
+    return NextResponse.json({ success: true, entry }, { status: 201 })
+  } catch (error) {
+    console.error('Cash entries error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record cash entry' },
+      { status: 500 }
+    )
+  }
+}
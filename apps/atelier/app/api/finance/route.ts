@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { buildCashForecast, getFinanceStore, loadLedgerInputs } from '@/lib/finance'
+
+/**
+ * Settings, recorded entries and the 13-week cash forecast, plus the accepted
+ * quotes not yet linked to a project (their balance is billed on an estimate)
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const inputs = await loadLedgerInputs(getFinanceStore(), context.orgId)
+    const forecast = buildCashForecast(inputs)
+    const unlinkedQuotes = inputs.quotes
+      .filter((q) => !inputs.projects.some((p) => p.quoteId === q.id))
+      .map((q) => ({ id: q.id, tier: q.tier, totalPrice: q.totalPrice, decidedAt: q.decidedAt }))
+
+    return NextResponse.json({
+      settings: inputs.settings,
+      entries: inputs.entries,
+      forecast,
+      unlinkedQuotes,
+      projects: inputs.projects.map((p) => ({ id: p.id, name: p.name, quoteId: p.quoteId }))
+    })
+  } catch (error) {
+    console.error('Finance error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load cash forecast' },
+      { status: 500 }
+    )
+  }
+}
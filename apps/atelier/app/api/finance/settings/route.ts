@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { applySettingsInput, getFinanceStore, loadSettings, parseSettingsInput } from '@/lib/finance'
+
+/**
+ * Updates the opening balance, billing and payment terms, and the recurring
+ * overhead list (sent whole)
+ */
+export async function PATCH(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseSettingsInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getFinanceStore()
+    const settings = await loadSettings(store, context.orgId)
+    applySettingsInput(settings, input, context)
+    await store.saveSettings(settings)
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error) {
+    console.error('Finance settings error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update finance settings' },
+      { status: 500 }
+    )
+  }
+}
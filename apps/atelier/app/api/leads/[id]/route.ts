@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { applyLeadInput, getLeadStore, parseLeadInput, recordContact, transitionLead } from '@/lib/leads'
+import { computeLeadSLA, isLeadStatus } from '@/lib/leads/sla'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const lead = await getLeadStore().get(context.orgId, params.id)
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ lead: { ...lead, sla: computeLeadSLA(lead) } })
+  } catch (error) {
+    console.error('Lead error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load lead' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Edits lead fields, moves it to another status (`status`) and/or logs a
+ * contact (`contacted: true`), which stops the first-contact SLA clock
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const store = getLeadStore()
+
+    const lead = await store.get(context.orgId, params.id)
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    const input = parseLeadInput(body)
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if (body.status !== undefined && !isLeadStatus(body.status)) {
+      return NextResponse.json({ error: 'Unknown lead status' }, { status: 400 })
+    }
+
+    if (body.status !== undefined) {
+      const invalid = transitionLead(lead, body.status, context)
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 409 })
+      }
+    }
+
+    if (body.contacted === true) {
+      recordContact(lead)
+      // Logging the first call or email also moves a new lead forward
+      if (lead.status === 'nuevo') transitionLead(lead, 'contactado', context)
+    }
+
+    applyLeadInput(lead, input)
+    await store.save(lead)
+
+    return NextResponse.json({ success: true, lead: { ...lead, sla: computeLeadSLA(lead) } })
+  } catch (error) {
+    console.error('Lead error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update lead' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const store = getLeadStore()
+    const lead = await store.get(context.orgId, params.id)
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    await store.remove(context.orgId, lead.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Lead error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete lead' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { createLead, getLeadStore, parseLeadInput } from '@/lib/leads'
+import { computeLeadSLA, isLeadStatus, summarizeLeadSLA } from '@/lib/leads/sla'
+
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    const all = await getLeadStore().list(context.orgId)
+    const leads = isLeadStatus(status) ? all.filter((l) => l.status === status) : all
+    const now = new Date()
+
+    return NextResponse.json({
+      leads: leads.map((lead) => ({ ...lead, sla: computeLeadSLA(lead, now) })),
+      sla: summarizeLeadSLA(leads, now)
+    })
+  } catch (error) {
+    console.error('Leads error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load leads' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseLeadInput(await request.json(), { requireCompany: true })
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const lead = await createLead(getLeadStore(), context, input)
+
+    return NextResponse.json({ success: true, lead: { ...lead, sla: computeLeadSLA(lead) } }, { status: 201 })
+  } catch (error) {
+    console.error('Leads error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create lead' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getQuoteStore } from '@/lib/quotes'
+import { scorePipeline } from '@/lib/sgp/win-probability'
+
+/**
+ * Win probability and expected value for every open lead and quote, retrained
+ * on the organization's closed deals. `format=markdown` returns the model card report.
+ */
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const [leads, quotes] = await Promise.all([
+      getLeadStore().list(context.orgId),
+      getQuoteStore().list(context.orgId)
+    ])
+    const scores = scorePipeline(leads, quotes)
+
+    const { searchParams } = new URL(request.url)
+    if (searchParams.get('format') === 'markdown') {
+      return new NextResponse(scores.report || `# Model Card: Deal Win Probability\n\n${scores.reason}\n`, {
+        headers: { 'Content-Type': 'text/markdown; charset=utf-8' }
+      })
+    }
+
+    return NextResponse.json({
+      trained: scores.trained,
+      reason: scores.reason,
+      card: scores.card,
+      driftAlerts: scores.driftAlerts,
+      leads: scores.leads,
+      quotes: scores.quotes
+    })
+  } catch (error) {
+    console.error('Lead scores error:', error)
+    return NextResponse.json(
+      { error: 'Failed to score leads' },
+      { status: 500 }
+    )
+  }
+}
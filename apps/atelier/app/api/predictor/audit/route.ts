@@ -1,35 +1,158 @@
 import { NextResponse } from 'next/server'
+import type { AuditAction, AuditEntry, ImpactEstimate, MetricDelta } from '@prime-growth-os/sgp'
+import { getAuditLogger } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import { getOrgContext } from '@/lib/org-context'
 
-// In-memory audit log (in production, use database)
-let auditLog: any[] = []
+const ACTIONS: AuditAction[] = [
+  'view',
+  'accept',
+  'reject',
+  'modify',
+  'defer',
+  'experiment_start',
+  'experiment_complete'
+]
 
+const ENTITY_TYPES: AuditEntry['entityType'][] = ['recommendation', 'experiment', 'spend_plan', 'contract', 'quote', 'project', 'vendor', 'rfq']
+
+const METRIC_KEYS = ['revenue', 'margin', 'velocity', 'risk'] as const
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+function parseMetricDelta(input: unknown): MetricDelta | null {
+  if (!isObject(input)) return null
+  const { baseline, target, delta, deltaPercent, unit } = input
+  if (![baseline, target, delta, deltaPercent].every(isNumber) || typeof unit !== 'string') return null
+  return { baseline, target, delta, deltaPercent, unit } as MetricDelta
+}
+
+/**
+ * Accepts either a full ImpactEstimate or the `{ revenue: number }` shorthand the Strategy page sends
+ */
+function parseImpactEstimate(impact: unknown): ImpactEstimate | string {
+  const invalid = 'expectedImpact must be { revenue: number } or an impact estimate with metric deltas, timeToImpact and sustainabilityMonths'
+  if (!isObject(impact)) return invalid
+
+  if (isNumber(impact.revenue)) {
+    return {
+      revenue: {
+        baseline: 0,
+        target: impact.revenue,
+        delta: impact.revenue,
+        deltaPercent: 0,
+        unit: 'MXN'
+      },
+      timeToImpact: isNumber(impact.timeToImpact) ? impact.timeToImpact : 0,
+      sustainabilityMonths: isNumber(impact.sustainabilityMonths) ? impact.sustainabilityMonths : 12
+    }
+  }
+
+  if (!isNumber(impact.timeToImpact) || !isNumber(impact.sustainabilityMonths)) return invalid
+  const estimate: ImpactEstimate = {
+    timeToImpact: impact.timeToImpact,
+    sustainabilityMonths: impact.sustainabilityMonths
+  }
+
+  for (const key of METRIC_KEYS) {
+    if (impact[key] === undefined) continue
+    const metric = parseMetricDelta(impact[key])
+    if (!metric) return invalid
+    estimate[key] = metric
+  }
+
+  if (impact.customMetrics !== undefined) {
+    if (!isObject(impact.customMetrics)) return invalid
+    const customMetrics: Record<string, MetricDelta> = {}
+    for (const [name, value] of Object.entries(impact.customMetrics)) {
+      const metric = parseMetricDelta(value)
+      if (!metric) return invalid
+      customMetrics[name] = metric
+    }
+    estimate.customMetrics = customMetrics
+  }
+
+  return estimate
+}
+
+type AuditInput = {
+  action: AuditAction
+  entityType: AuditEntry['entityType']
+  entityId?: string
+  entityTitle?: string
+  reasoning?: string
+  modifications?: Record<string, unknown>
+  expectedImpact?: ImpactEstimate
+  tags: string[]
+}
+
+function parseAuditInput(body: unknown): AuditInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  if (!ACTIONS.includes(body.action as AuditAction)) {
+    return `Invalid action. Expected one of: ${ACTIONS.join(', ')}`
+  }
+  if (body.entityType !== undefined && !ENTITY_TYPES.includes(body.entityType as AuditEntry['entityType'])) {
+    return `entityType must be one of ${ENTITY_TYPES.join(', ')}`
+  }
+  for (const field of ['entityId', 'entityTitle', 'reasoning'] as const) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') return `${field} must be a string`
+  }
+  if (body.modifications !== undefined && !isObject(body.modifications)) {
+    return 'modifications must be an object'
+  }
+  if (body.tags !== undefined && !(Array.isArray(body.tags) && body.tags.every((t) => typeof t === 'string'))) {
+    return 'tags must be a list of strings'
+  }
+
+  const expectedImpact = body.expectedImpact === undefined ? undefined : parseImpactEstimate(body.expectedImpact)
+  if (typeof expectedImpact === 'string') return expectedImpact
+
+  return {
+    action: body.action as AuditAction,
+    entityType: (body.entityType as AuditEntry['entityType'] | undefined) || 'recommendation',
+    entityId: body.entityId as string | undefined,
+    entityTitle: body.entityTitle as string | undefined,
+    reasoning: body.reasoning as string | undefined,
+    modifications: body.modifications as Record<string, unknown> | undefined,
+    expectedImpact,
+    tags: (body.tags as string[] | undefined) || []
+  }
+}
+
+/**
+ * Records an action on the organization's audit trail as the signed-in user
+ */
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-
-    const entry = {
-      id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date().toISOString(),
-      userId: body.userId || 'user-001',
-      userName: body.userName || 'Diego Ramos',
-      action: body.action,
-      entityType: body.entityType || 'recommendation',
-      entityId: body.entityId,
-      entityTitle: body.entityTitle,
-      reasoning: body.reasoning,
-      expectedImpact: body.expectedImpact,
-      tags: body.tags || []
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
     }
 
-    auditLog.push(entry)
-
-    // Keep only last 100 entries in memory
-    if (auditLog.length > 100) {
-      auditLog = auditLog.slice(-100)
+    const input = parseAuditInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
     }
 
+    const logger = await getAuditLogger(context.orgId)
+    const entry = logger.logEvent({
+      userId: context.userId,
+      userName: context.userName,
+      action: input.action,
+      entityType: input.entityType,
+      entityId: input.entityId || `entity-${Date.now()}`,
+      entityTitle: input.entityTitle || '',
+      reasoning: input.reasoning,
+      modifications: input.modifications,
+      expectedImpact: input.expectedImpact,
+      tags: input.tags
+    })
+    await logger.flush()
+
     return NextResponse.json({ success: true, entry })
   } catch (error) {
+    console.error('Audit log error:', error)
     return NextResponse.json(
       { error: 'Failed to log audit entry' },
       { status: 500 }
@@ -37,39 +160,57 @@ export async function POST(request: Request) {
   }
 }
 
+/**
+ * The organization's audit trail, as JSON with summary and integrity or as CSV
+ */
 export async function GET(request: Request) {
-  const { searchParams } = new URL(request.url)
-  const format = searchParams.get('format') || 'json'
-  const limit = parseInt(searchParams.get('limit') || '50')
-
-  const entries = auditLog.slice(-limit).reverse()
-
-  if (format === 'csv') {
-    const csv = [
-      'Timestamp,User,Action,Entity,Title,Impact,Reasoning',
-      ...entries.map(e =>
-        `"${e.timestamp}","${e.userName}","${e.action}","${e.entityType}","${e.entityTitle}","${e.expectedImpact?.revenue || 0}","${e.reasoning || ''}"`
-      )
-    ].join('\n')
-
-    return new Response(csv, {
-      headers: {
-        'Content-Type': 'text/csv',
-        'Content-Disposition': `attachment; filename="audit-log-${Date.now()}.csv"`
-      }
-    })
-  }
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
 
-  // Calculate summary stats
-  const summary = {
-    totalDecisions: entries.filter(e => ['accept', 'reject', 'defer'].includes(e.action)).length,
-    acceptanceRate: entries.filter(e => e.action === 'accept').length / Math.max(entries.filter(e => ['accept', 'reject'].includes(e.action)).length, 1),
-    recentEntries: entries.slice(0, 10),
-    byAction: entries.reduce((acc, e) => {
-      acc[e.action] = (acc[e.action] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
-  }
+    const { searchParams } = new URL(request.url)
+    const format = searchParams.get('format') || 'json'
+    const limit = parseInt(searchParams.get('limit') || '50')
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
+    const startDate = start ? new Date(start) : undefined
+    const endDate = end ? new Date(end) : undefined
+
+    const logger = await getAuditLogger(context.orgId)
+
+    if (format === 'csv') {
+      return new Response(logger.exportToCSV(startDate, endDate), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="audit-log-${Date.now()}.csv"`
+        }
+      })
+    }
+
+    // Summary statistics run over the full retained history, not just the returned page
+    const history = logger.getEntries()
+    const summary = logger.getSummary(startDate, endDate)
 
-  return NextResponse.json({ entries, summary })
-}
\ No newline at end of file
+    return NextResponse.json({
+      entries: history.slice(0, limit),
+      summary: {
+        ...summary,
+        battingAverage: Object.fromEntries(summary.battingAverage),
+        recentEntries: history.slice(0, 10),
+        byAction: history.reduce((acc, e) => {
+          acc[e.action] = (acc[e.action] || 0) + 1
+          return acc
+        }, {} as Record<string, number>)
+      },
+      integrity: logger.verifyIntegrity()
+    })
+  } catch (error) {
+    console.error('Audit log error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load audit log' },
+      { status: 500 }
+    )
+  }
+}
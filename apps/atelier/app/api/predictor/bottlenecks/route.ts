@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server'
+import { BottleneckDetector, type ProcessMiningResult, type StageStaffing } from '@prime-growth-os/sgp'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getQuoteStore } from '@/lib/quotes'
+import { getProjectStore } from '@/lib/projects'
+import { mineFunnel } from '@/lib/sgp/process-mining'
+import { parseStaffingRequest } from '@/lib/sgp/staffing'
+
+async function mineOrgFunnel(orgId: string) {
+  const [leads, quotes, projects] = await Promise.all([
+    getLeadStore().list(orgId),
+    getQuoteStore().list(orgId),
+    getProjectStore().list(orgId)
+  ])
+  return mineFunnel(leads, quotes, projects)
+}
+
+function analyze(mining: ProcessMiningResult, staffing: StageStaffing[]) {
+  const detector = new BottleneckDetector(staffing)
+  return {
+    detector,
+    bottlenecks: detector.analyzeProcessFlows([mining.flow]),
+    queues: mining.flow.stages.map((stage) => detector.queueEstimate(stage, mining.flow))
+  }
+}
+
+/**
+ * Bottlenecks of the organization's lead → quote → project funnel, scored on
+ * the flow mined from lead status changes, quote transitions and phase changes
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const mining = await mineOrgFunnel(context.orgId)
+    if (!mining) return NextResponse.json({ mining, bottlenecks: [], queues: [] })
+
+    const { bottlenecks, queues } = analyze(mining, [])
+    return NextResponse.json({ mining, bottlenecks, queues })
+  } catch (error) {
+    console.error('Bottleneck mining error:', error)
+    return NextResponse.json(
+      { error: 'Failed to mine process bottlenecks' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Same analysis with the stages' actual staffing, and optionally what adding
+ * people to one stage does to its queue time, cost of delay and payback
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const input = parseStaffingRequest(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const mining = await mineOrgFunnel(context.orgId)
+    if (!mining) {
+      return NextResponse.json({ error: 'No lead, quote or project history to model yet' }, { status: 409 })
+    }
+
+    const unknown = [...input.staffing.map((s) => s.stageId), ...(input.scenario ? [input.scenario.stageId] : [])]
+      .filter((id) => !mining.flow.stages.some((stage) => stage.id === id))
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Stages without measured history: ${Array.from(new Set(unknown)).join(', ')}` }, { status: 400 })
+    }
+
+    const { detector, bottlenecks, queues } = analyze(mining, input.staffing)
+    const scenario = input.scenario
+      ? detector.simulateStaffingChange(mining.flow, input.scenario.stageId, input.scenario.addServers)
+      : null
+
+    return NextResponse.json({ mining, bottlenecks, queues, scenario })
+  } catch (error) {
+    console.error('Bottleneck staffing error:', error)
+    return NextResponse.json(
+      { error: 'Failed to model stage staffing' },
+      { status: 500 }
+    )
+  }
+}
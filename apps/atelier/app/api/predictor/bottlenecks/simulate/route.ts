@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server'
+import { ProcessSimulator } from '@prime-growth-os/sgp'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getQuoteStore } from '@/lib/quotes'
+import { getProjectStore } from '@/lib/projects'
+import { mineFunnel } from '@/lib/sgp/process-mining'
+import { parseSimulationRequest } from '@/lib/sgp/staffing'
+
+/**
+ * Replays the mined funnel in the discrete-event simulator as it runs today
+ * and with the proposed fix, on the same seed, to test the fix before
+ * committing to it
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const input = parseSimulationRequest(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const [leads, quotes, projects] = await Promise.all([
+      getLeadStore().list(context.orgId),
+      getQuoteStore().list(context.orgId),
+      getProjectStore().list(context.orgId)
+    ])
+    const mining = mineFunnel(leads, quotes, projects)
+    if (!mining) {
+      return NextResponse.json({ error: 'No lead, quote or project history to simulate yet' }, { status: 409 })
+    }
+
+    const unknown = [...input.staffing, ...input.changes]
+      .map((s) => s.stageId)
+      .filter((id) => !mining.flow.stages.some((stage) => stage.id === id))
+    if (unknown.length > 0) {
+      return NextResponse.json({ error: `Stages without measured history: ${Array.from(new Set(unknown)).join(', ')}` }, { status: 400 })
+    }
+
+    const comparison = new ProcessSimulator().compare(mining.flow, input.changes, {
+      staffing: input.staffing,
+      weeks: input.weeks,
+      runs: input.runs,
+      seed: input.seed
+    })
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error('Process simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to simulate the process' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,54 +1,94 @@
 import { NextResponse } from 'next/server'
+import { ExecutiveBriefExporter } from '@prime-growth-os/sgp'
+import { getExperimentManager } from '@/lib/experiments'
+import { getLeadStore } from '@/lib/leads'
+import { getOrgContext } from '@/lib/org-context'
+import { getProjectStore } from '@/lib/projects'
+import { getQuoteStore } from '@/lib/quotes'
+import {
+  buildExecutiveBrief,
+  collectBriefInputs,
+  parseBriefRequest,
+  type BriefRequest,
+  type ExecutiveBrief
+} from '@/lib/sgp/executive-brief'
+
+type BriefFormat = 'json' | 'markdown' | 'html'
+
+function parseFormat(value: unknown): BriefFormat {
+  return value === 'markdown' || value === 'html' ? value : 'json'
+}
 
-export async function POST(request: Request) {
-  try {
-    const body = await request.json()
-    const scenario = body.scenario || 'base'
-
-    // Generate executive brief based on scenario
-    const brief = {
-      bluf: scenario === 'conservative'
-        ? 'Revenue growth limited to 8%. Focus on efficiency over expansion. CPQ bottleneck fix = +$85K/year.'
-        : scenario === 'optimistic'
-        ? 'Revenue growth potential 25%. Aggressive LinkedIn expansion = +60% qualified leads. Full automation = +$200K/year.'
-        : 'Revenue growth constrained by CPQ bottleneck. Fix = +$125K/year. LinkedIn reallocation = +40% qualified leads.',
-
-      situation: 'Cuarzo operates in a competitive architecture market with increasing demand for sustainable designs.',
+/**
+ * Brief from the organization's leads, quotes, projects and completed experiments
+ */
+async function generateBrief(body: BriefRequest, orgId: string): Promise<ExecutiveBrief> {
+  const [leads, quotes, projects, manager] = await Promise.all([
+    getLeadStore().list(orgId),
+    getQuoteStore().list(orgId),
+    getProjectStore().list(orgId),
+    getExperimentManager(orgId)
+  ])
+  const inputs = collectBriefInputs(body, {
+    leads,
+    quotes,
+    projects,
+    experiments: manager.getExperimentsByStatus('completed')
+  })
+  return buildExecutiveBrief(inputs)
+}
 
-      complication: scenario === 'conservative'
-        ? 'Market uncertainty and budget constraints limit growth options.'
-        : 'Current CPQ process takes 72+ hours, losing 30% of hot leads to faster competitors.',
+/**
+ * Renders the brief in the requested format through ExecutiveBriefExporter
+ */
+function respond(brief: ExecutiveBrief, format: BriefFormat) {
+  const { narrative, bluf } = brief
 
-      question: 'How can we accelerate quote delivery while maintaining pricing accuracy?',
+  if (format === 'markdown') {
+    return new Response(ExecutiveBriefExporter.toMarkdown(narrative, bluf), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="strategic-brief-${Date.now()}.md"`
+      }
+    })
+  }
 
-      answer: scenario === 'conservative'
-        ? 'Focus on process optimization and selective automation within current budget.'
-        : scenario === 'optimistic'
-        ? 'Full CPQ automation plus aggressive channel expansion and team scaling.'
-        : 'Implement dynamic pricing engine with pre-approved discount matrices, reducing CPQ to <24 hours.',
+  if (format === 'html') {
+    return new Response(ExecutiveBriefExporter.toPDFHTML(narrative, bluf), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  }
 
-      topActions: [
-        { action: 'Fix CPQ bottleneck', impact: 125000, confidence: 0.85, timeline: '30 days' },
-        { action: 'Reallocate to LinkedIn', impact: 85000, confidence: 0.78, timeline: '7 days' },
-        { action: 'Implement chatbot', impact: 45000, confidence: 0.72, timeline: '45 days' },
-        { action: 'Optimize SEO content', impact: 35000, confidence: 0.68, timeline: '60 days' },
-        { action: 'Launch referral program', impact: 25000, confidence: 0.65, timeline: '14 days' }
-      ],
+  return NextResponse.json({
+    ...brief,
+    // Flattened SCQA fields read by the Strategy page
+    situation: narrative.situation,
+    complication: narrative.complication,
+    question: narrative.question,
+    answer: narrative.answer,
+    confidence: narrative.confidence,
+    period: narrative.period,
+    generatedAt: narrative.generatedAt
+  })
+}
 
-      metrics: {
-        currentRevenue: 850000,
-        projectedRevenue: scenario === 'conservative' ? 920000 : scenario === 'optimistic' ? 1050000 : 985000,
-        currentMargin: 0.28,
-        projectedMargin: scenario === 'conservative' ? 0.30 : scenario === 'optimistic' ? 0.38 : 0.34,
-        confidence: scenario === 'conservative' ? 0.85 : scenario === 'optimistic' ? 0.65 : 0.78
-      },
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
 
-      generatedAt: new Date().toISOString(),
-      model: body.impact > 100000 ? 'opus' : 'sonnet' // LLM router logic
+    const raw: unknown = await request.json()
+    const body = parseBriefRequest(raw)
+    if (typeof body === 'string') {
+      return NextResponse.json({ error: body }, { status: 400 })
     }
 
-    return NextResponse.json(brief)
+    const brief = await generateBrief(body, context.orgId)
+    return respond(brief, parseFormat((raw as { format?: unknown }).format))
   } catch (error) {
+    console.error('Executive brief error:', error)
     return NextResponse.json(
       { error: 'Failed to generate executive brief' },
       { status: 500 }
@@ -57,51 +97,28 @@ export async function POST(request: Request) {
 }
 
 export async function GET(request: Request) {
-  // Export endpoint for PDF/MD
-  const { searchParams } = new URL(request.url)
-  const format = searchParams.get('format') || 'json'
-
-  // Mock brief for export
-  const brief = {
-    title: 'Strategic Growth Brief - Cuarzo Architecture',
-    date: new Date().toLocaleDateString('es-MX'),
-    content: `# Strategic Growth Brief
-
-## BLUF
-Revenue growth constrained by CPQ bottleneck. Fix = +$125K/year. LinkedIn reallocation = +40% qualified leads.
-
-## Situation
-Cuarzo operates in a competitive architecture market with increasing demand for sustainable designs.
-
-## Complication
-Current CPQ process takes 72+ hours, losing 30% of hot leads to faster competitors.
-
-## Question
-How can we accelerate quote delivery while maintaining pricing accuracy?
-
-## Answer
-Implement dynamic pricing engine with pre-approved discount matrices, reducing CPQ to <24 hours.
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
 
-## Top 5 Actions
-1. **Fix CPQ bottleneck** - Impact: $125K/year - Timeline: 30 days
-2. **Reallocate to LinkedIn** - Impact: $85K/year - Timeline: 7 days
-3. **Implement chatbot** - Impact: $45K/year - Timeline: 45 days
-4. **Optimize SEO content** - Impact: $35K/year - Timeline: 60 days
-5. **Launch referral program** - Impact: $25K/year - Timeline: 14 days
+    const { searchParams } = new URL(request.url)
+    const start = searchParams.get('start')
+    const end = searchParams.get('end')
 
----
-Generated: ${new Date().toISOString()}
-Model: Sonnet 3.5 (Cost-optimized)`
-  }
+    const body = parseBriefRequest({ period: start && end ? { start, end } : undefined })
+    if (typeof body === 'string') {
+      return NextResponse.json({ error: body }, { status: 400 })
+    }
 
-  if (format === 'markdown') {
-    return new Response(brief.content, {
-      headers: {
-        'Content-Type': 'text/markdown',
-        'Content-Disposition': `attachment; filename="strategic-brief-${Date.now()}.md"`
-      }
-    })
+    const brief = await generateBrief(body, context.orgId)
+    return respond(brief, parseFormat(searchParams.get('format')))
+  } catch (error) {
+    console.error('Executive brief error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate executive brief' },
+      { status: 500 }
+    )
   }
-
-  return NextResponse.json(brief)
-}
\ No newline at end of file
+}
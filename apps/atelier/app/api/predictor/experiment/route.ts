@@ -1,73 +1,299 @@
 import { NextResponse } from 'next/server'
+import type {
+  ExperimentConfig,
+  ExperimentDesign,
+  ExperimentManager,
+  ExperimentObservations,
+  ExperimentResult,
+  KPIDefinition
+} from '@prime-growth-os/sgp'
+import { getExperimentManager } from '@/lib/experiments'
+import { isObject, type Fields } from '@/lib/fields'
+import { getOrgContext } from '@/lib/org-context'
 
-// In-memory experiments (in production, use database)
-let experiments: any[] = [
-  {
-    id: 'exp-001',
-    name: 'LinkedIn Premium Targeting',
-    status: 'running',
-    hypothesis: 'Architecture decision-makers engage 3x more with case studies',
-    metric: 'CTR',
-    baseline: 0.02,
-    target: 0.06,
-    currentValue: 0.045,
-    sampleSize: 1000,
-    currentSample: 650,
-    confidence: 0.82,
-    startDate: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-    estimatedCompletion: new Date(Date.now() + 8 * 24 * 60 * 60 * 1000).toISOString()
+const DEFAULT_DURATION_DAYS = 14
+const DEFAULT_SAMPLE_SIZE = 1000
+
+const DECISIONS: ExperimentResult['decision'][] = ['roll_out', 'iterate', 'abandon']
+
+function toKey(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+}
+
+const KPI_CATEGORIES: KPIDefinition['category'][] = ['acquisition', 'conversion', 'delivery', 'financial', 'operational']
+const KPI_FORMATS: KPIDefinition['format'][] = ['number', 'percent', 'currency', 'days']
+const KPI_DIRECTIONS: KPIDefinition['direction'][] = ['up', 'down']
+
+const nonEmpty = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+/**
+ * A full KPI definition sent as the metric; key, name, format and direction
+ * are required, the rest default like the string form
+ */
+function parseMetric(input: Fields, target: number): KPIDefinition | string {
+  if (!nonEmpty(input.key) || !nonEmpty(input.name)) return 'metric needs a key and a name'
+  if (!KPI_FORMATS.includes(input.format as KPIDefinition['format'])) {
+    return `metric.format must be one of ${KPI_FORMATS.join(', ')}`
+  }
+  if (!KPI_DIRECTIONS.includes(input.direction as KPIDefinition['direction'])) {
+    return `metric.direction must be one of ${KPI_DIRECTIONS.join(', ')}`
+  }
+  if (input.category !== undefined && !KPI_CATEGORIES.includes(input.category as KPIDefinition['category'])) {
+    return `metric.category must be one of ${KPI_CATEGORIES.join(', ')}`
+  }
+  if (input.unit !== undefined && typeof input.unit !== 'string') return 'metric.unit must be a string'
+  if (input.targetValue !== undefined && !(typeof input.targetValue === 'number' && Number.isFinite(input.targetValue))) {
+    return 'metric.targetValue must be a number'
   }
-]
+
+  return {
+    key: input.key.trim(),
+    name: input.name.trim(),
+    category: (input.category as KPIDefinition['category'] | undefined) || 'operational',
+    unit: input.unit || '',
+    format: input.format as KPIDefinition['format'],
+    direction: input.direction as KPIDefinition['direction'],
+    targetValue: input.targetValue ?? (Number.isFinite(target) ? target : undefined),
+    dataSource: ['experiment']
+  }
+}
+
+/**
+ * Builds the ExperimentDesign from the create payload; the metric is either
+ * a name or a full KPI definition
+ */
+function buildDesign(body: Fields, manager: ExperimentManager): ExperimentDesign | string {
+  const baseline = Number(body.baseline)
+  const target = Number(body.target)
+  const targetDelta = baseline > 0 && Number.isFinite(target) ? (target - baseline) / baseline : 0.1
+
+  let metric: KPIDefinition
+  if (isObject(body.metric)) {
+    const parsed = parseMetric(body.metric, target)
+    if (typeof parsed === 'string') return parsed
+    metric = parsed
+  } else if (body.metric === undefined || typeof body.metric === 'string') {
+    const metricName = body.metric?.trim() || ''
+    metric = {
+      key: toKey(metricName || 'primary_metric'),
+      name: metricName || 'Primary metric',
+      category: 'operational',
+      unit: typeof body.unit === 'string' ? body.unit : '',
+      format: 'number',
+      direction: target < baseline ? 'down' : 'up',
+      targetValue: Number.isFinite(target) ? target : undefined,
+      dataSource: ['experiment']
+    }
+  } else {
+    return 'metric must be a name or a KPI definition'
+  }
+
+  // Size the test from the baseline rate when the metric is a proportion
+  let sampleSize = Number(body.sampleSize) || DEFAULT_SAMPLE_SIZE
+  if (!body.sampleSize && baseline > 0 && baseline < 1 && target > 0 && target < 1 && targetDelta !== 0) {
+    sampleSize = manager.calculateSampleSize(baseline, Math.abs(targetDelta)).required
+  }
+
+  return {
+    hypothesis: String(body.hypothesis),
+    metric,
+    targetDelta,
+    sampleSize,
+    duration: Number(body.duration) || DEFAULT_DURATION_DAYS,
+    controlGroup: typeof body.controlGroup === 'string' && body.controlGroup ? body.controlGroup : 'control',
+    treatmentGroup: typeof body.treatmentGroup === 'string' && body.treatmentGroup ? body.treatmentGroup : 'treatment',
+    successThreshold: targetDelta,
+    statisticalPower: 0.8,
+    confidenceLevel: 0.95
+  }
+}
+
+/**
+ * Optional decision override and learnings sent with `complete`
+ */
+function parseCompletion(body: { decision?: unknown; learnings?: unknown }): Partial<Pick<ExperimentResult, 'decision' | 'learnings'>> | string {
+  const { decision, learnings } = body
+  if (decision !== undefined && !DECISIONS.includes(decision as ExperimentResult['decision'])) {
+    return `decision must be one of ${DECISIONS.join(', ')}`
+  }
+  if (learnings !== undefined && !(Array.isArray(learnings) && learnings.every((l) => typeof l === 'string' && l.trim()))) {
+    return 'learnings must be a list of non-empty strings'
+  }
+
+  return {
+    decision: decision as ExperimentResult['decision'] | undefined,
+    learnings: (learnings as string[] | undefined)?.map((l) => l.trim())
+  }
+}
+
+function parseObservations(input: unknown): ExperimentObservations | null {
+  if (!isObject(input) || !isObject(input.control) || !isObject(input.treatment)) return null
+  const { control, treatment } = input
+
+  const observations = {
+    control: {
+      exposures: Number(control.exposures),
+      conversions: Number(control.conversions)
+    },
+    treatment: {
+      exposures: Number(treatment.exposures),
+      conversions: Number(treatment.conversions)
+    }
+  }
+
+  const valid = [observations.control, observations.treatment].every((group) =>
+    Number.isInteger(group.exposures) &&
+    Number.isInteger(group.conversions) &&
+    group.exposures >= 0 &&
+    group.conversions >= 0 &&
+    group.conversions <= group.exposures
+  )
+
+  return valid ? observations : null
+}
+
+/**
+ * Shape the Strategy page reads: sample so far and confidence from the interim test
+ */
+function toView(experiment: ExperimentConfig, manager: ExperimentManager) {
+  const control = experiment.observations?.control
+  const treatment = experiment.observations?.treatment
+  const interim = control && treatment && control.exposures > 0 && treatment.exposures > 0
+    ? manager.testSignificance(control, treatment, experiment.confidenceLevel)
+    : undefined
+  const significance = experiment.significance || interim
+
+  return {
+    ...experiment,
+    currentSample: (control?.exposures || 0) + (treatment?.exposures || 0),
+    confidence: significance ? 1 - significance.pValue : 0,
+    lift: significance?.lift ?? null,
+    pValue: significance?.pValue ?? null,
+    decision: experiment.result?.decision ?? null
+  }
+}
 
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body: unknown = await request.json()
+    if (!isObject(body)) {
+      return NextResponse.json({ error: 'Request body must be an object' }, { status: 400 })
+    }
+    const { userId, userName } = context
+
+    const manager = await getExperimentManager(context.orgId)
 
     if (body.action === 'create') {
-      const experiment = {
-        id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-        name: body.name,
-        status: 'designed',
-        hypothesis: body.hypothesis,
-        metric: body.metric,
-        baseline: body.baseline,
-        target: body.target,
-        sampleSize: body.sampleSize || 1000,
-        currentSample: 0,
-        confidence: 0,
-        startDate: null,
-        estimatedCompletion: null,
-        recommendationId: body.recommendationId
+      if (!nonEmpty(body.hypothesis) || !nonEmpty(body.recommendationId)) {
+        return NextResponse.json(
+          { error: 'hypothesis and recommendationId are required' },
+          { status: 400 }
+        )
+      }
+
+      const design = buildDesign(body, manager)
+      if (typeof design === 'string') {
+        return NextResponse.json({ error: design }, { status: 400 })
       }
 
-      experiments.push(experiment)
-      return NextResponse.json({ success: true, experiment })
+      const experiment = manager.createFromDesign({
+        recommendationId: body.recommendationId,
+        recommendationTitle: typeof body.recommendationTitle === 'string' ? body.recommendationTitle : undefined,
+        name: typeof body.name === 'string' ? body.name : undefined,
+        design
+      }, userId, userName)
+      await manager.flush()
+
+      return NextResponse.json({ success: true, experiment: toView(experiment, manager) })
+    }
+
+    const experiment = typeof body.experimentId === 'string' ? manager.getExperiment(body.experimentId) : undefined
+    if (!experiment) {
+      return NextResponse.json({ error: 'Experiment not found' }, { status: 404 })
     }
 
     if (body.action === 'start') {
-      const experiment = experiments.find(e => e.id === body.experimentId)
-      if (experiment) {
-        experiment.status = 'running'
-        experiment.startDate = new Date().toISOString()
-        experiment.estimatedCompletion = new Date(Date.now() + 14 * 24 * 60 * 60 * 1000).toISOString()
+      if (experiment.status !== 'designed') {
+        return NextResponse.json(
+          { error: `Cannot start experiment in status ${experiment.status}` },
+          { status: 409 }
+        )
       }
-      return NextResponse.json({ success: true, experiment })
+
+      manager.startExperiment(experiment.id, userId, userName)
+      await manager.flush()
+      return NextResponse.json({ success: true, experiment: toView(experiment, manager) })
+    }
+
+    if (body.action === 'progress') {
+      if (experiment.status !== 'running') {
+        return NextResponse.json({ error: 'Experiment is not running' }, { status: 409 })
+      }
+
+      // Optional new counts are added before progress is evaluated
+      if (body.observations) {
+        const observations = parseObservations(body.observations)
+        if (!observations) {
+          return NextResponse.json(
+            { error: 'observations need integer control/treatment exposures and conversions' },
+            { status: 400 }
+          )
+        }
+        manager.recordObservations(experiment.id, observations)
+        await manager.flush()
+      }
+
+      const progress = manager.getProgress(experiment.id)
+      return NextResponse.json({
+        success: true,
+        experiment: toView(experiment, manager),
+        progress: { ...progress, experiment: undefined }
+      })
     }
 
     if (body.action === 'complete') {
-      const experiment = experiments.find(e => e.id === body.experimentId)
-      if (experiment) {
-        experiment.status = 'completed'
-        experiment.endDate = new Date().toISOString()
-        experiment.result = body.result
-        experiment.decision = body.decision
-        experiment.confidence = body.confidence || 0.94
+      if (experiment.status !== 'running') {
+        return NextResponse.json(
+          { error: `Cannot complete experiment in status ${experiment.status}` },
+          { status: 409 }
+        )
       }
-      return NextResponse.json({ success: true, experiment })
+
+      const completion = parseCompletion(body)
+      if (typeof completion === 'string') {
+        return NextResponse.json({ error: completion }, { status: 400 })
+      }
+
+      // Final counts are optional when they were recorded through progress
+      const observed = body.observations ? parseObservations(body.observations) : undefined
+      const counts = observed || experiment.observations
+      if (observed === null || !counts || counts.control.exposures === 0 || counts.treatment.exposures === 0) {
+        return NextResponse.json(
+          { error: 'Completion needs observed control and treatment counts' },
+          { status: 400 }
+        )
+      }
+
+      const result = manager.completeExperiment(experiment.id, {
+        observed,
+        ...completion
+      }, userId, userName)
+      await manager.flush()
+
+      return NextResponse.json({ success: true, experiment: toView(experiment, manager), result })
     }
 
     return NextResponse.json({ error: 'Invalid action' }, { status: 400 })
   } catch (error) {
+    console.error('Experiment error:', error)
     return NextResponse.json(
       { error: 'Failed to manage experiment' },
       { status: 500 }
@@ -75,26 +301,40 @@ export async function POST(request: Request) {
   }
 }
 
-export async function GET() {
-  // Calculate batting average
-  const completed = experiments.filter(e => e.status === 'completed')
-  const successful = completed.filter(e => e.decision === 'roll_out')
-  const battingAverage = completed.length > 0 ? successful.length / completed.length : 0
-
-  // Calculate time to value
-  const timeToValue = completed
-    .filter(e => e.startDate && e.endDate)
-    .map(e => (new Date(e.endDate).getTime() - new Date(e.startDate).getTime()) / (1000 * 60 * 60 * 24))
-    .reduce((sum, days, _, arr) => sum + days / arr.length, 0)
-
-  return NextResponse.json({
-    experiments,
-    stats: {
-      total: experiments.length,
-      running: experiments.filter(e => e.status === 'running').length,
-      completed: completed.length,
-      battingAverage,
-      timeToValue: Math.round(timeToValue)
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
     }
-  })
-}
\ No newline at end of file
+
+    const { searchParams } = new URL(request.url)
+    const recommendationId = searchParams.get('recommendationId')
+
+    const manager = await getExperimentManager(context.orgId)
+    const experiments = recommendationId
+      ? manager.getExperimentsForRecommendation(recommendationId)
+      : manager.getExperimentsByStatus()
+
+    const battingAverage = manager.calculateBattingAverage()
+    const timeToValue = manager.calculateTimeToValue()
+
+    return NextResponse.json({
+      experiments: experiments.map((experiment) => toView(experiment, manager)),
+      stats: {
+        total: experiments.length,
+        running: experiments.filter((e) => e.status === 'running').length,
+        completed: battingAverage.completed,
+        successful: battingAverage.successful,
+        battingAverage: battingAverage.rate,
+        timeToValue: Math.round(timeToValue.average)
+      }
+    })
+  } catch (error) {
+    console.error('Experiment error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load experiments' },
+      { status: 500 }
+    )
+  }
+}
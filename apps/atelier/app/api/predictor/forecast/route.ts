@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { ForecastEngine, type ForecastResult, type SeriesPoint } from '@prime-growth-os/sgp'
+import { getOrgContext } from '@/lib/org-context'
+import { parseSeed } from '@/lib/sgp/spend-plan'
+
+const engine = new ForecastEngine()
+
+// Longest horizon a forecast is computed for, in days
+const MAX_HORIZON_DAYS = 365
+
+type ForecastRequest = {
+  metric?: string | { key?: string; name?: string }
+  series?: Array<{ date?: string; timestamp?: string; value?: number }>
+  horizonDays?: number
+  seasonLength?: number | null
+  selection?: 'best' | 'weighted'
+  seed?: number
+}
+
+function metricName(metric: ForecastRequest['metric']): string | null {
+  if (typeof metric === 'string') return metric.trim() || null
+  return metric?.name || metric?.key || null
+}
+
+/**
+ * Validates the KPI series; returns an error message or the parsed points
+ */
+function parseSeries(series: ForecastRequest['series']): SeriesPoint[] | string {
+  if (!Array.isArray(series) || series.length === 0) {
+    return 'series must be a non-empty array of { date, value }'
+  }
+
+  const points: SeriesPoint[] = []
+  for (const [index, item] of series.entries()) {
+    const timestamp = new Date(item?.date ?? item?.timestamp ?? '')
+    if (Number.isNaN(timestamp.getTime())) return `series[${index}] has an invalid date`
+    if (typeof item.value !== 'number' || !Number.isFinite(item.value)) {
+      return `series[${index}] has a non-numeric value`
+    }
+    points.push({ timestamp, value: item.value })
+  }
+
+  return points
+}
+
+function serialize(result: ForecastResult) {
+  return {
+    ...result,
+    scenarios: Object.fromEntries(result.scenarios)
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const body: ForecastRequest = await request.json()
+
+    const metric = metricName(body.metric)
+    if (!metric) {
+      return NextResponse.json({ error: 'metric is required' }, { status: 400 })
+    }
+
+    const series = parseSeries(body.series)
+    if (typeof series === 'string') {
+      return NextResponse.json({ error: series }, { status: 400 })
+    }
+
+    if (body.horizonDays !== undefined && !(typeof body.horizonDays === 'number' && body.horizonDays > 0 && body.horizonDays <= MAX_HORIZON_DAYS)) {
+      return NextResponse.json({ error: `horizonDays must be a positive number up to ${MAX_HORIZON_DAYS}` }, { status: 400 })
+    }
+
+    if (body.seasonLength != null && (!Number.isInteger(body.seasonLength) || body.seasonLength < 2)) {
+      return NextResponse.json({ error: 'seasonLength must be an integer of at least 2, or null' }, { status: 400 })
+    }
+
+    if (body.selection !== undefined && body.selection !== 'best' && body.selection !== 'weighted') {
+      return NextResponse.json({ error: "selection must be 'best' or 'weighted'" }, { status: 400 })
+    }
+
+    const result = engine.forecastSeries(series, metric, body.horizonDays, {
+      seasonLength: body.seasonLength,
+      selection: body.selection,
+      seed: parseSeed(body.seed)
+    })
+
+    return NextResponse.json(serialize(result))
+  } catch (error) {
+    console.error('Forecast error:', error)
+    return NextResponse.json({ error: 'Failed to generate forecast' }, { status: 500 })
+  }
+}
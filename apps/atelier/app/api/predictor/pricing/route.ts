@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server'
+import { PricingAdvisor } from '@prime-growth-os/sgp'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getQuoteStore } from '@/lib/quotes'
+import { quoteOutcomes } from '@/lib/sgp/pricing'
+
+/**
+ * Pricing strategy per segment (project type × client budget) from the
+ * organization's won and lost quotes, with the resulting recommendations.
+ * `minSegmentSize` lowers or raises the decided quotes a segment needs.
+ */
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const minSegmentSize = searchParams.get('minSegmentSize')
+    if (minSegmentSize !== null && (!Number.isInteger(Number(minSegmentSize)) || Number(minSegmentSize) < 4)) {
+      return NextResponse.json({ error: 'minSegmentSize must be an integer of at least 4' }, { status: 400 })
+    }
+
+    const [quotes, leads] = await Promise.all([
+      getQuoteStore().list(context.orgId),
+      getLeadStore().list(context.orgId)
+    ])
+
+    const advisor = new PricingAdvisor(minSegmentSize !== null ? { minSegmentSize: Number(minSegmentSize) } : {})
+    const advice = advisor.advise(quoteOutcomes(quotes, leads))
+
+    return NextResponse.json(advice)
+  } catch (error) {
+    console.error('Pricing advisor error:', error)
+    return NextResponse.json(
+      { error: 'Failed to analyze pricing' },
+      { status: 500 }
+    )
+  }
+}
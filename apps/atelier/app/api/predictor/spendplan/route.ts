@@ -1,62 +1,118 @@
 import { NextResponse } from 'next/server'
+import type { GuardrailViolation, SpendPlan } from '@prime-growth-os/sgp'
+import {
+  DEFAULT_MARGIN_RATE,
+  generateSpendPlan,
+  parseSpendPlanRequest
+} from '@/lib/sgp/spend-plan'
+
+type GuardrailKey = 'capacity' | 'rampRate' | 'pacing' | 'minimums' | 'diversity'
+
+const GUARDRAIL_KEYS: Record<GuardrailViolation['type'], GuardrailKey> = {
+  capacity: 'capacity',
+  ramp_rate: 'rampRate',
+  pacing: 'pacing',
+  platform: 'minimums',
+  diversity: 'diversity'
+}
+
+const GUARDRAIL_OK_MESSAGES: Record<GuardrailKey, string> = {
+  capacity: 'Within CPQ, meeting and implementation capacity',
+  rampRate: 'All channel changes within the ramp limit for the period',
+  pacing: 'Monthly pacing on track',
+  minimums: 'All channels meet platform minimums',
+  diversity: 'Channel mix within concentration limits'
+}
+
+function toAmounts(plan: SpendPlan): Record<string, number> {
+  return plan.allocations.reduce<Record<string, number>>((amounts, allocation) => {
+    amounts[allocation.channel.name] = Math.round(allocation.recommendedAmount)
+    return amounts
+  }, {})
+}
+
+/**
+ * Collapses the violation list into one status per guardrail for the Strategy page
+ */
+function summarizeGuardrails(violations: GuardrailViolation[]) {
+  const keys = Object.keys(GUARDRAIL_OK_MESSAGES) as GuardrailKey[]
+
+  return keys.reduce<Record<string, { status: 'ok' | 'warning' | 'error'; message: string }>>((summary, key) => {
+    const matching = violations.filter((v) => GUARDRAIL_KEYS[v.type] === key)
+    const worst = matching.find((v) => v.severity === 'error') || matching[0]
+
+    summary[key] = worst
+      ? { status: worst.severity, message: worst.suggestion }
+      : { status: 'ok', message: GUARDRAIL_OK_MESSAGES[key] }
+    return summary
+  }, {})
+}
+
+/**
+ * Confidence derived from the Monte Carlo ROI intervals: narrower bands, higher confidence
+ */
+function planConfidence(plan: SpendPlan): number {
+  const spend = plan.allocations.reduce((sum, a) => sum + a.recommendedAmount, 0)
+  if (spend <= 0) return 0
+
+  // Spend-weighted relative half-width of each channel's ROI interval
+  const spread = plan.allocations.reduce((sum, a) => {
+    if (a.expectedROI <= 0) return sum
+    const halfWidth = (a.confidenceInterval.upper - a.confidenceInterval.lower) / 2
+    return sum + (halfWidth / a.expectedROI) * (a.recommendedAmount / spend)
+  }, 0)
+
+  return Math.round(Math.max(0, Math.min(1, 1 - spread)) * 100) / 100
+}
 
-// Mock SGP spend optimization (in production, import from @prime-growth-os/sgp)
 export async function POST(request: Request) {
   try {
-    const body = await request.json()
-
-    // Mock response with guardrails and optimization
-    const response = {
-      current: body.current || {
-        'Google Ads': 15000,
-        'LinkedIn': 8000,
-        'Facebook': 12000,
-        'SEO': 5000,
-        'Email': 3000,
-        'Referidos': 7000
-      },
-      recommended: {
-        'Google Ads': 12000,
-        'LinkedIn': 14000,
-        'Facebook': 8000,
-        'SEO': 7000,
-        'Email': 4000,
-        'Referidos': 5000
-      },
-      guardrails: {
-        capacity: { status: 'ok', message: 'Within CPQ capacity (85% utilization)' },
-        rampRate: { status: 'warning', message: 'LinkedIn change exceeds 30% daily limit' },
-        pacing: { status: 'ok', message: 'Monthly pacing on track' },
-        minimums: { status: 'ok', message: 'All channels meet platform minimums' },
-        diversity: { status: 'ok', message: 'Good channel diversification (max 28% concentration)' }
-      },
-      expectedImpact: {
-        revenue: 285000,
-        margin: 85500,
-        leads: 142,
-        roas: 5.7,
-        confidence: 0.78
-      },
-      infeasible: null // or reason if plan can't work
+    const body = parseSpendPlanRequest(await request.json())
+    if (typeof body === 'string') {
+      return NextResponse.json({ error: body }, { status: 400 })
     }
 
-    // Check for infeasibility
-    if (body.forceInfeasible) {
-      response.infeasible = {
-        reason: 'CPQ capacity exceeded by 40%. Cannot process 142 leads/month.',
-        suggestions: [
-          'Reduce lead generation target to 100 leads/month',
-          'Hire additional CPQ specialist (+$60K/year)',
-          'Implement CPQ automation tool (-72h to 24h processing)'
-        ]
-      }
-    }
+    const { channels, plan, adjustedPlan, valid, violations, binding, unspentBudget, certificate, demo } = generateSpendPlan(body)
+
+    // The page shows the plan that can actually be run
+    const finalPlan = adjustedPlan || plan
+    const spend = finalPlan.allocations.reduce((sum, a) => sum + a.recommendedAmount, 0)
+    const revenue = finalPlan.expectedOutcome.revenue
 
-    return NextResponse.json(response)
+    return NextResponse.json({
+      plan,
+      adjustedPlan,
+      violations,
+      valid,
+      binding,
+      unspentBudget: Math.round(unspentBudget),
+      // Sample channel book, not the organization's spend: send `channels` or `current` for a real plan
+      demo,
+      current: Object.fromEntries(channels.map((c) => [c.name, c.currentSpend])),
+      recommended: toAmounts(finalPlan),
+      simulation: { seed: finalPlan.seed, runs: finalPlan.simulationRuns },
+      guardrails: summarizeGuardrails(violations),
+      expectedImpact: {
+        revenue: Math.round(revenue),
+        margin: Math.round(revenue * (body.marginRate ?? DEFAULT_MARGIN_RATE)),
+        leads: finalPlan.expectedOutcome.leads,
+        roas: spend > 0 ? Math.round((revenue / spend) * 10) / 10 : 0,
+        confidence: planConfidence(finalPlan)
+      },
+      // No plan satisfies every guardrail: what clashes and how to relax it
+      infeasible: certificate
+        ? {
+            reason: certificate.reason,
+            suggestions: certificate.binding.map((b) => b.suggestion),
+            binding: certificate.binding
+          }
+        : null
+    })
   } catch (error) {
+    console.error('Spend plan error:', error)
     return NextResponse.json(
       { error: 'Failed to generate spend plan' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+}
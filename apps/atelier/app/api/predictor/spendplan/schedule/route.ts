@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { RampScheduler } from '@prime-growth-os/sgp'
+import {
+  generateRampSchedule,
+  parseConstraints,
+  parseRampScheduleRequest
+} from '@/lib/sgp/spend-plan'
+
+/**
+ * Day-by-day (or week-by-week) transition from current spend to the plan,
+ * within the ramp, stability and pacing guardrails; ?format=csv downloads it
+ * for the media buyers
+ */
+export async function POST(request: Request) {
+  try {
+    const format = new URL(request.url).searchParams.get('format') || 'json'
+    const body = parseRampScheduleRequest(await request.json())
+    if (typeof body === 'string') {
+      return NextResponse.json({ error: body }, { status: 400 })
+    }
+
+    const schedule = generateRampSchedule(body)
+    if (typeof schedule === 'string') {
+      return NextResponse.json({ error: schedule }, { status: 400 })
+    }
+
+    if (format === 'csv') {
+      const csv = new RampScheduler(parseConstraints(body)).toCSV(schedule)
+      return new Response(csv, {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="spend-ramp-${schedule.start.toISOString().slice(0, 10)}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({ schedule })
+  } catch (error) {
+    console.error('Ramp schedule error:', error)
+    return NextResponse.json(
+      { error: 'Failed to build ramp schedule' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getPriceBookStore } from '@/lib/price-book'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const book = await getPriceBookStore().get(context.orgId, params.id)
+    if (!book) {
+      return NextResponse.json({ error: 'Price book not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ priceBook: book })
+  } catch (error) {
+    console.error('Price book error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load price book' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import {
+  createPriceBookVersion,
+  getPriceBookStore,
+  listPriceBooks,
+  parsePriceBookInput,
+  resolvePriceBook
+} from '@/lib/price-book'
+
+/**
+ * The price book in effect (now, or at ?at=ISO date) plus every version
+ */
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const at = new URL(request.url).searchParams.get('at')
+    if (at && Number.isNaN(Date.parse(at))) {
+      return NextResponse.json({ error: 'at must be an ISO date' }, { status: 400 })
+    }
+
+    const books = await listPriceBooks(getPriceBookStore(), context)
+
+    return NextResponse.json({
+      active: resolvePriceBook(books, at ? new Date(at) : new Date()),
+      versions: books
+    })
+  } catch (error) {
+    console.error('Price book error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load price book' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Publishes a new version, effective now or at `effectiveFrom`. Existing
+ * quotes keep the version they were issued under.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parsePriceBookInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getPriceBookStore()
+    const books = await listPriceBooks(store, context)
+    const book = await createPriceBookVersion(store, context, books, input)
+    if (typeof book === 'string') {
+      return NextResponse.json({ error: book }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, priceBook: book }, { status: 201 })
+  } catch (error) {
+    console.error('Price book error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create price book version' },
+      { status: 500 }
+    )
+  }
+}
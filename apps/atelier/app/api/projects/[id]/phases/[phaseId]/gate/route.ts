@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server'
+import { getAuditLogger } from '@/lib/audit'
+import { getOrgContext } from '@/lib/org-context'
+import { getProjectStore, signOffGate } from '@/lib/projects'
+import { gateReview, isGateApprover } from '@/lib/projects/rules'
+
+type RouteParams = { params: { id: string; phaseId: string } }
+
+const DECISIONS = ['aprobada', 'rechazada'] as const
+
+/**
+ * Signs off the phase's gate review (`decision`, with `comments`; required to
+ * reject). Only the phase's named approvers can sign. Every sign-off is
+ * recorded in the audit log.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!DECISIONS.includes(body.decision)) {
+      return NextResponse.json({ error: `decision must be one of ${DECISIONS.join(', ')}` }, { status: 400 })
+    }
+    if (body.comments !== undefined && typeof body.comments !== 'string') {
+      return NextResponse.json({ error: 'comments must be a string' }, { status: 400 })
+    }
+    const comments = (body.comments || '').trim()
+    if (body.decision === 'rechazada' && !comments) {
+      return NextResponse.json({ error: 'comments are required to reject a gate' }, { status: 400 })
+    }
+
+    const store = getProjectStore()
+    const project = await store.get(context.orgId, params.id)
+    const phase = project?.phases.find((p) => p.id === params.phaseId)
+    if (!project || !phase) {
+      return NextResponse.json({ error: project ? 'Phase not found' : 'Project not found' }, { status: 404 })
+    }
+
+    if (!isGateApprover(phase, context.userId)) {
+      return NextResponse.json(
+        { error: `Only the named approvers can sign off this gate: ${phase.approvers.map((a) => a.name).join(', ')}` },
+        { status: 403 }
+      )
+    }
+
+    const round = phase.reviewRound
+    const invalid = signOffGate(project, phase, body.decision, comments, context)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+
+    await store.save(project)
+
+    const logger = await getAuditLogger(context.orgId)
+    logger.logEvent({
+      userId: context.userId,
+      userName: context.userName,
+      action: body.decision === 'aprobada' ? 'accept' : 'reject',
+      entityType: 'project',
+      entityId: project.id,
+      entityTitle: `${project.name} — gate ${phase.name}`,
+      reasoning: comments,
+      modifications: {
+        phaseId: phase.id,
+        round,
+        phaseStatus: phase.status,
+        pendingApprovers: phase.status === 'en_revision' ? gateReview(phase).pending.map((a) => a.name) : []
+      },
+      tags: ['project', 'stage_gate']
+    })
+    await logger.flush()
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Gate review error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record gate sign-off' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server'
+import { getAuditLogger } from '@/lib/audit'
+import { getOrgContext } from '@/lib/org-context'
+import { getProjectStore, parsePhaseInput, updatePhase } from '@/lib/projects'
+
+type RouteParams = { params: { id: string; phaseId: string } }
+
+/**
+ * Updates one phase: checks deliverables off (`deliverables: { id: true }`),
+ * starts it or submits it to its gate (`status`), reports `slippageDays`,
+ * replans `duration`, names `approvers`, or blocks it (`blocked: { reason, owner }`,
+ * null to unblock). Returns the project with its dates and progress recalculated.
+ * Only owners and admins name approvers, never during a gate review, and every
+ * change of approvers is recorded in the audit log.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const input = parsePhaseInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if (input.approvers !== undefined && !['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can change gate approvers' }, { status: 403 })
+    }
+
+    const store = getProjectStore()
+    const project = await store.get(context.orgId, params.id)
+    if (!project || !project.phases.some((p) => p.id === params.phaseId)) {
+      return NextResponse.json({ error: project ? 'Phase not found' : 'Project not found' }, { status: 404 })
+    }
+
+    const previousApprovers = project.phases.find((p) => p.id === params.phaseId)!.approvers
+    const invalid = updatePhase(project, params.phaseId, input, context)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+
+    await store.save(project)
+
+    if (input.approvers !== undefined) {
+      const phase = project.phases.find((p) => p.id === params.phaseId)!
+      const logger = await getAuditLogger(context.orgId)
+      logger.logEvent({
+        userId: context.userId,
+        userName: context.userName,
+        action: 'modify',
+        entityType: 'project',
+        entityId: project.id,
+        entityTitle: `${project.name} — approvers ${phase.name}`,
+        modifications: {
+          phaseId: phase.id,
+          previousApprovers,
+          approvers: phase.approvers
+        },
+        tags: ['project', 'stage_gate', 'approvers']
+      })
+      await logger.flush()
+    }
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Project phase error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update phase' },
+      { status: 500 }
+    )
+  }
+}
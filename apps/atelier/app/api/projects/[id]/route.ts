@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { applyProjectInput, checkQuoteLink, getProjectStore, parseProjectInput } from '@/lib/projects'
+import { refreshProject } from '@/lib/projects/rules'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const project = await getProjectStore().get(context.orgId, params.id)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    refreshProject(project)
+    return NextResponse.json({ project })
+  } catch (error) {
+    console.error('Project error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load project' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Edits project fields; moving `startDate` reschedules every phase that has not
+ * started, and `quoteId` links the accepted quote billed by phase milestones
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const input = parseProjectInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getProjectStore()
+    const project = await store.get(context.orgId, params.id)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    if (input.quoteId) {
+      const invalid = await checkQuoteLink(store, context.orgId, input.quoteId, project.id)
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 409 })
+      }
+    }
+
+    applyProjectInput(project, input)
+    await store.save(project)
+
+    return NextResponse.json({ success: true, project })
+  } catch (error) {
+    console.error('Project error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update project' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const store = getProjectStore()
+    const project = await store.get(context.orgId, params.id)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    await store.remove(context.orgId, project.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Project error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete project' },
+      { status: 500 }
+    )
+  }
+}
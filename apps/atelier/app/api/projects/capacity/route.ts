@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { DEFAULT_PHASES, getProjectStore } from '@/lib/projects'
+import { planCapacity, quoteStartDate } from '@/lib/sgp/capacity'
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Portfolio capacity: each active project's critical path, people and weeks
+ * over capacity, and start shifts for projects that have not started
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const projects = await getProjectStore().list(context.orgId)
+    return NextResponse.json(planCapacity(projects))
+  } catch (error) {
+    console.error('Capacity plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to plan capacity' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Earliest realistic start for a new project (`startDate` wanted, optional
+ * `manager` and `team`). `durationDays` quotes a single delivery window;
+ * otherwise the standard stage-gate phases are used.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const startDate = body.startDate ?? new Date().toISOString().slice(0, 10)
+    if (typeof startDate !== 'string' || !DATE_PATTERN.test(startDate) || isNaN(Date.parse(startDate))) {
+      return NextResponse.json({ error: 'startDate must be a date (YYYY-MM-DD)' }, { status: 400 })
+    }
+    if (body.durationDays !== undefined && (!Number.isInteger(body.durationDays) || body.durationDays <= 0)) {
+      return NextResponse.json({ error: 'durationDays must be a positive whole number' }, { status: 400 })
+    }
+    if (body.manager !== undefined && typeof body.manager !== 'string') {
+      return NextResponse.json({ error: 'manager must be a string' }, { status: 400 })
+    }
+    if (body.team !== undefined && (!Array.isArray(body.team) || body.team.some((m: unknown) => typeof m !== 'string'))) {
+      return NextResponse.json({ error: 'team must be an array of strings' }, { status: 400 })
+    }
+
+    const projects = await getProjectStore().list(context.orgId)
+    const quote = quoteStartDate(
+      {
+        startDate,
+        manager: body.manager?.trim() || undefined,
+        team: (body.team || []).map((m: string) => m.trim()).filter(Boolean),
+        phases: body.durationDays !== undefined ? [{ name: 'Entrega', duration: body.durationDays }] : DEFAULT_PHASES
+      },
+      projects
+    )
+
+    return NextResponse.json(quote)
+  } catch (error) {
+    console.error('Capacity plan error:', error)
+    return NextResponse.json(
+      { error: 'Failed to find a start date' },
+      { status: 500 }
+    )
+  }
+}
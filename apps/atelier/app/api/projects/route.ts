@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server'
+import { isObject } from '@/lib/fields'
+import { getOrgContext } from '@/lib/org-context'
+import { checkQuoteLink, createProject, getProjectStore, parsePhaseDrafts, parseProjectInput } from '@/lib/projects'
+import { refreshProject } from '@/lib/projects/rules'
+
+/**
+ * The organization's projects with phase dates recalculated for today, and the
+ * current member (to tell which gate reviews they can sign off)
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const projects = await getProjectStore().list(context.orgId)
+    const now = new Date()
+    projects.forEach((project) => refreshProject(project, now))
+
+    return NextResponse.json({
+      projects,
+      member: { userId: context.userId, userName: context.userName, role: context.role }
+    })
+  } catch (error) {
+    console.error('Projects error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load projects' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Creates a project; editors and above. `phases` is optional and defaults to
+ * the standard concept → design → documentation gates, each signed off by the
+ * creator. Only owners and admins may name other approvers.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body: unknown = await request.json()
+    const input = parseProjectInput(body, { requireName: true })
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const drafts = isObject(body) && body.phases !== undefined ? parsePhaseDrafts(body.phases) : undefined
+    if (typeof drafts === 'string') {
+      return NextResponse.json({ error: drafts }, { status: 400 })
+    }
+    if (drafts?.some((d) => d.approvers !== undefined) && !['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can name gate approvers' }, { status: 403 })
+    }
+
+    const store = getProjectStore()
+    if (input.quoteId) {
+      const invalid = await checkQuoteLink(store, context.orgId, input.quoteId)
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 409 })
+      }
+    }
+
+    const project = await createProject(store, context, input, drafts)
+    if (typeof project === 'string') {
+      return NextResponse.json({ error: project }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, project }, { status: 201 })
+  } catch (error) {
+    console.error('Projects error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    )
+  }
+}
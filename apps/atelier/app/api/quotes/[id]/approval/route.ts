@@ -0,0 +1,94 @@
+import { NextResponse } from 'next/server'
+import { getAuditLogger } from '@/lib/audit'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { decideApproval, getQuoteStore, priceBookForQuote, syncLeadWithQuote } from '@/lib/quotes'
+import { canApproveDiscount, discountLimit, isQuoteExpired, openApproval } from '@/lib/quotes/rules'
+
+type RouteParams = { params: { id: string } }
+
+const DECISIONS = ['aprobada', 'rechazada'] as const
+
+/**
+ * Approves or rejects the open discount request (`decision`, with the approver's
+ * `reasoning`). Approving sends the quote; rejecting returns it to draft. Every
+ * decision is recorded in the audit log.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    if (!DECISIONS.includes(body.decision)) {
+      return NextResponse.json({ error: `decision must be one of ${DECISIONS.join(', ')}` }, { status: 400 })
+    }
+    if (typeof body.reasoning !== 'string' || !body.reasoning.trim()) {
+      return NextResponse.json({ error: 'reasoning is required' }, { status: 400 })
+    }
+
+    const store = getQuoteStore()
+    const quote = await store.get(context.orgId, params.id)
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    const approval = openApproval(quote)
+    if (!approval) {
+      return NextResponse.json({ error: 'This quote is not waiting for approval' }, { status: 409 })
+    }
+
+    const book = await priceBookForQuote(quote, context)
+    if (!canApproveDiscount(book, context.role, approval.discountPercentage)) {
+      return NextResponse.json(
+        { error: `Your approval limit is ${discountLimit(book, context.role)}%; this quote has a ${approval.discountPercentage}% discount` },
+        { status: 403 }
+      )
+    }
+
+    const reasoning = body.reasoning.trim()
+    const invalid = decideApproval(quote, body.decision, reasoning, context)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+
+    await store.save(quote)
+
+    const leads = getLeadStore()
+    const lead = await leads.get(context.orgId, quote.leadId)
+    if (lead && syncLeadWithQuote(lead, quote, context)) {
+      await leads.save(lead)
+    }
+
+    const logger = await getAuditLogger(context.orgId)
+    logger.logEvent({
+      userId: context.userId,
+      userName: context.userName,
+      action: body.decision === 'aprobada' ? 'accept' : 'reject',
+      entityType: 'quote',
+      entityId: quote.id,
+      entityTitle: `Cotización ${quote.id} v${quote.version}${lead ? ` — ${lead.company || lead.contact}` : ''}`,
+      reasoning,
+      modifications: {
+        discountPercentage: approval.discountPercentage,
+        requestedBy: approval.requestedByName,
+        requesterRole: approval.requesterRole,
+        approverRole: context.role,
+        totalPrice: quote.totalPrice,
+        margin: quote.pricing.margin
+      },
+      tags: ['quote', 'discount_approval']
+    })
+    await logger.flush()
+
+    return NextResponse.json({ success: true, quote: { ...quote, expired: isQuoteExpired(quote) } })
+  } catch (error) {
+    console.error('Quote approval error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record approval decision' },
+      { status: 500 }
+    )
+  }
+}
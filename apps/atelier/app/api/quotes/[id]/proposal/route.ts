@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getQuoteStore, priceBookForQuote } from '@/lib/quotes'
+import { proposalVersion, renderQuoteProposal } from '@/lib/quotes/proposal'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * Print-ready proposal document for the current version, or an earlier one with ?version=N
+ */
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const quote = await getQuoteStore().get(context.orgId, params.id)
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    const requested = new URL(request.url).searchParams.get('version')
+    const version = proposalVersion(quote, requested ? Number(requested) : undefined)
+    if (!version) {
+      return NextResponse.json({ error: 'Quote version not found' }, { status: 404 })
+    }
+
+    const lead = await getLeadStore().get(context.orgId, quote.leadId)
+    const book = await priceBookForQuote(version, context)
+
+    return new Response(renderQuoteProposal(quote, lead, version, book), {
+      headers: { 'Content-Type': 'text/html; charset=utf-8' }
+    })
+  } catch (error) {
+    console.error('Quote proposal error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate proposal' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,150 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import {
+  getQuoteStore,
+  parseQuoteInput,
+  priceBookForQuote,
+  reviseQuote,
+  sendQuote,
+  syncLeadWithQuote,
+  transitionQuote
+} from '@/lib/quotes'
+import { isQuoteExpired, isQuoteStatus } from '@/lib/quotes/rules'
+
+type RouteParams = { params: { id: string } }
+
+const CONFIG_FIELDS = ['tier', 'customizations', 'projectSize', 'urgency', 'discountConditions', 'note', 'reprice']
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const quote = await getQuoteStore().get(context.orgId, params.id)
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ quote: { ...quote, expired: isQuoteExpired(quote) } })
+  } catch (error) {
+    console.error('Quote error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load quote' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Revises the configuration as a new version and/or moves the quote to another
+ * status (`status`, with an optional `reason`). Revisions keep the price book
+ * version the quote was issued under unless `reprice: true` moves it to the one
+ * in effect today. Sending checks the margin floor and routes discounts above
+ * the sender's limit to approval. Sending or accepting a quote also advances its lead.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const store = getQuoteStore()
+
+    const quote = await store.get(context.orgId, params.id)
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    const input = parseQuoteInput(body)
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if (body.status !== undefined && !isQuoteStatus(body.status)) {
+      return NextResponse.json({ error: 'Unknown quote status' }, { status: 400 })
+    }
+    if (body.status === 'pendiente_aprobacion') {
+      return NextResponse.json(
+        { error: 'Send the quote instead; discounts above your limit are routed to approval' },
+        { status: 400 }
+      )
+    }
+    if (body.reason !== undefined && typeof body.reason !== 'string') {
+      return NextResponse.json({ error: 'reason must be a string' }, { status: 400 })
+    }
+
+    const book = await priceBookForQuote(quote, context, { current: body.reprice === true })
+
+    if (CONFIG_FIELDS.some((field) => body[field] !== undefined)) {
+      const invalid = reviseQuote(quote, input, context, book)
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 409 })
+      }
+    }
+
+    if (body.status !== undefined) {
+      const invalid = body.status === 'enviada'
+        ? sendQuote(quote, context, book)
+        : transitionQuote(quote, body.status, context, body.reason?.trim())
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 409 })
+      }
+    }
+
+    await store.save(quote)
+
+    const leads = getLeadStore()
+    const lead = await leads.get(context.orgId, quote.leadId)
+    if (lead && syncLeadWithQuote(lead, quote, context)) {
+      await leads.save(lead)
+    }
+
+    return NextResponse.json({ success: true, quote: { ...quote, expired: isQuoteExpired(quote) } })
+  } catch (error) {
+    console.error('Quote error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update quote' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Only drafts that were never sent can be deleted; sent quotes stay as a record
+ */
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const store = getQuoteStore()
+    const quote = await store.get(context.orgId, params.id)
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+    if (quote.status !== 'borrador' || quote.sentAt) {
+      return NextResponse.json({ error: 'Only unsent drafts can be deleted' }, { status: 409 })
+    }
+
+    await store.remove(context.orgId, quote.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Quote error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete quote' },
+      { status: 500 }
+    )
+  }
+}
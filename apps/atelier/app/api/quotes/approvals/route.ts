@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getPriceBookStore, listPriceBooks, resolvePriceBook } from '@/lib/price-book'
+import { getQuoteStore } from '@/lib/quotes'
+import { canApproveDiscount, discountLimit, openApproval } from '@/lib/quotes/rules'
+
+/**
+ * Approver inbox: quotes waiting for discount approval, oldest request first,
+ * flagged with whether the current member's limit covers each discount
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const [quotes, leads, books] = await Promise.all([
+      getQuoteStore().list(context.orgId),
+      getLeadStore().list(context.orgId),
+      listPriceBooks(getPriceBookStore(), context)
+    ])
+    const active = resolvePriceBook(books)!
+
+    const pending = quotes
+      .filter((quote) => quote.status === 'pendiente_aprobacion')
+      .flatMap((quote) => {
+        const approval = openApproval(quote)
+        if (!approval) return []
+        const book = books.find((b) => b.id === quote.priceBookId) || active
+        const lead = leads.find((l) => l.id === quote.leadId)
+        return [{
+          quote,
+          approval,
+          leadName: lead ? lead.company || lead.contact : null,
+          canApprove: canApproveDiscount(book, context.role, approval.discountPercentage)
+        }]
+      })
+      .sort((a, b) => a.approval.requestedAt.localeCompare(b.approval.requestedAt))
+
+    return NextResponse.json({
+      role: context.role,
+      discountLimit: discountLimit(active, context.role),
+      pending
+    })
+  } catch (error) {
+    console.error('Quote approvals error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load quote approvals' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getLeadStore } from '@/lib/leads'
+import { getActivePriceBook, getPriceBookStore } from '@/lib/price-book'
+import { checkAgainstPriceBook, createQuote, getQuoteStore, parseQuoteInput } from '@/lib/quotes'
+import { isQuoteExpired, isQuoteStatus, summarizeQuotes } from '@/lib/quotes/rules'
+
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const leadId = searchParams.get('leadId')
+    const status = searchParams.get('status')
+
+    const all = await getQuoteStore().list(context.orgId)
+    const quotes = all
+      .filter((q) => !leadId || q.leadId === leadId)
+      .filter((q) => !isQuoteStatus(status) || q.status === status)
+    const now = new Date()
+
+    return NextResponse.json({
+      quotes: quotes.map((quote) => ({ ...quote, expired: isQuoteExpired(quote, now) })),
+      summary: summarizeQuotes(quotes, now)
+    })
+  } catch (error) {
+    console.error('Quotes error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load quotes' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    const input = parseQuoteInput(body)
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if (typeof body.leadId !== 'string' || !body.leadId) {
+      return NextResponse.json({ error: 'leadId is required' }, { status: 400 })
+    }
+    if (!input.tier) {
+      return NextResponse.json({ error: 'tier is required' }, { status: 400 })
+    }
+
+    const lead = await getLeadStore().get(context.orgId, body.leadId)
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead not found' }, { status: 404 })
+    }
+
+    // New quotes are priced with the price book in effect today
+    const book = await getActivePriceBook(getPriceBookStore(), context)
+    const invalid = checkAgainstPriceBook({ tier: input.tier, customizations: input.customizations || [] }, book)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const quote = await createQuote(getQuoteStore(), context, lead.id, { ...input, tier: input.tier }, book)
+
+    return NextResponse.json({ success: true, quote: { ...quote, expired: false } }, { status: 201 })
+  } catch (error) {
+    console.error('Quotes error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create quote' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,96 @@
+import { NextResponse } from 'next/server'
+import { getAuditLogger } from '@/lib/audit'
+import { getOrgContext } from '@/lib/org-context'
+import { getProjectStore } from '@/lib/projects'
+import { awardRfq, getRfqStore, parseAwardInput } from '@/lib/rfqs'
+import { compareResponses } from '@/lib/rfqs/rules'
+import { getVendorStore, refreshVendors, saveVendor } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * Awards the RFQ to a vendor that responded and issues its purchase order.
+ * Owners and admins only. Awarding against the weighted recommendation
+ * requires a `rationale`; the award and the comparison behind it go to the
+ * audit log before the award is saved.
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseAwardInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getRfqStore()
+    const rfq = await store.get(context.orgId, params.id)
+    if (!rfq) {
+      return NextResponse.json({ error: 'RFQ not found' }, { status: 404 })
+    }
+
+    const project = await getProjectStore().get(context.orgId, rfq.projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const vendorStore = getVendorStore()
+    const vendors = await vendorStore.list(context.orgId)
+    await refreshVendors(vendorStore, vendors, context.orgId)
+    const vendor = vendors.find((v) => v.id === input.vendorId)
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    const comparison = compareResponses(rfq, vendors)
+    const award = awardRfq(rfq, project, vendor, input, comparison, context)
+    if (typeof award === 'string') {
+      return NextResponse.json({ error: award }, { status: 409 })
+    }
+
+    const logger = await getAuditLogger(context.orgId)
+    logger.logEvent({
+      userId: context.userId,
+      userName: context.userName,
+      action: award.recommendedVendorId && award.recommendedVendorId !== award.vendorId ? 'modify' : 'accept',
+      entityType: 'rfq',
+      entityId: rfq.id,
+      entityTitle: `${project.name} — ${rfq.lineItem}: ${award.vendorName}`,
+      reasoning: award.rationale,
+      modifications: {
+        projectId: project.id,
+        vendorId: award.vendorId,
+        amount: award.amount,
+        recommendedVendorId: award.recommendedVendorId,
+        purchaseOrderId: award.purchaseOrderId,
+        weights: rfq.weights,
+        comparison: comparison.map((row) => ({
+          vendorId: row.vendorId,
+          amount: row.response.amount,
+          total: row.total,
+          eligible: row.eligible
+        }))
+      },
+      tags: ['rfq', 'vendor', 'award']
+    })
+    // The award only lands once its audit entry is written
+    await logger.flush()
+
+    await saveVendor(vendorStore, vendor, context)
+    await store.save(rfq)
+
+    return NextResponse.json({ success: true, rfq, award })
+  } catch (error) {
+    console.error('RFQ award error:', error)
+    return NextResponse.json(
+      { error: 'Failed to award RFQ' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getRfqStore, parseResponseInput, recordResponse } from '@/lib/rfqs'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * Records an invited vendor's quote (amount, lead time, notes); a second
+ * response from the same vendor replaces the first
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseResponseInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getRfqStore()
+    const rfq = await store.get(context.orgId, params.id)
+    if (!rfq) {
+      return NextResponse.json({ error: 'RFQ not found' }, { status: 404 })
+    }
+
+    const invalid = recordResponse(rfq, input, context)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+    await store.save(rfq)
+
+    return NextResponse.json({ success: true, rfq }, { status: 201 })
+  } catch (error) {
+    console.error('RFQ response error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record RFQ response' },
+      { status: 500 }
+    )
+  }
+}
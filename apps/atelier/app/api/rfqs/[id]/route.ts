@@ -0,0 +1,86 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { applyRfqInput, getRfqStore, parseRfqInput } from '@/lib/rfqs'
+import { compareResponses, recommendAward } from '@/lib/rfqs/rules'
+import { getVendorStore, refreshVendors } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * The RFQ with its responses compared side by side against today's vendor
+ * scorecards, and the weighted award recommendation
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const rfq = await getRfqStore().get(context.orgId, params.id)
+    if (!rfq) {
+      return NextResponse.json({ error: 'RFQ not found' }, { status: 404 })
+    }
+
+    const vendorStore = getVendorStore()
+    const vendors = await vendorStore.list(context.orgId)
+    await refreshVendors(vendorStore, vendors, context.orgId)
+    const comparison = compareResponses(rfq, vendors)
+
+    return NextResponse.json({
+      rfq,
+      comparison,
+      recommendation: recommendAward(comparison),
+      invited: vendors
+        .filter((v) => rfq.invitedVendorIds.includes(v.id))
+        .map((v) => ({ id: v.id, name: v.name, status: v.status }))
+    })
+  } catch (error) {
+    console.error('RFQ error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load RFQ' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Changes the terms of an open RFQ (quantity, date, certifications, weights,
+ * invited vendors) or cancels it with `status: 'cancelada'`
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseRfqInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getRfqStore()
+    const rfq = await store.get(context.orgId, params.id)
+    if (!rfq) {
+      return NextResponse.json({ error: 'RFQ not found' }, { status: 404 })
+    }
+
+    const invalid = applyRfqInput(rfq, input, await getVendorStore().list(context.orgId))
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+    await store.save(rfq)
+
+    return NextResponse.json({ success: true, rfq })
+  } catch (error) {
+    console.error('RFQ error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update RFQ' },
+      { status: 500 }
+    )
+  }
+}
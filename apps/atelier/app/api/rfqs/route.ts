@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getProjectStore } from '@/lib/projects'
+import { createRfq, getRfqStore, parseRfqInput } from '@/lib/rfqs'
+import { getVendorStore } from '@/lib/vendors'
+
+/**
+ * The organization's RFQs, optionally for one project (`?projectId=`)
+ */
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const projectId = new URL(request.url).searchParams.get('projectId')
+    const rfqs = await getRfqStore().list(context.orgId)
+
+    return NextResponse.json({ rfqs: projectId ? rfqs.filter((r) => r.projectId === projectId) : rfqs })
+  } catch (error) {
+    console.error('RFQs error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load RFQs' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Opens an RFQ for a project line item. Without `invitedVendorIds`, every
+ * vendor of the category that is not inactive is invited.
+ */
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseRfqInput(await request.json(), { create: true })
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const project = await getProjectStore().get(context.orgId, input.projectId as string)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+
+    const vendors = await getVendorStore().list(context.orgId)
+    const rfq = await createRfq(getRfqStore(), context, input, vendors)
+    if (typeof rfq === 'string') {
+      return NextResponse.json({ error: rfq }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true, rfq }, { status: 201 })
+  } catch (error) {
+    console.error('RFQs error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create RFQ' },
+      { status: 500 }
+    )
+  }
+}
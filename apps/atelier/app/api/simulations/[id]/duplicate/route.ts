@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { duplicateSimulation, getSimulationStore } from '@/lib/simulations'
+
+export async function POST(_request: Request, { params }: { params: { id: string } }) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const store = getSimulationStore()
+    const source = await store.get(context.orgId, params.id)
+    if (!source) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 })
+    }
+
+    const simulation = await duplicateSimulation(store, context, source)
+    return NextResponse.json({ success: true, simulation }, { status: 201 })
+  } catch (error) {
+    console.error('Simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to duplicate simulation' },
+      { status: 500 }
+    )
+  }
+}
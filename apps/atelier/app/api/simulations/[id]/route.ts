@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import {
+  deleteSimulation,
+  getSimulationStore,
+  isSimulationData,
+  loadComparison,
+  pairSimulations,
+  unpairSimulation,
+  validatePair
+} from '@/lib/simulations'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const comparison = await loadComparison(getSimulationStore(), context.orgId, params.id)
+    if (!comparison) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(comparison)
+  } catch (error) {
+    console.error('Simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load simulation' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Renames, replaces the data, or changes the baseline / to-be pairing
+ * (`pairedWith: null` unpairs)
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+    if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+      return NextResponse.json({ error: 'name must be a non-empty string' }, { status: 400 })
+    }
+    if (body.data !== undefined && !isSimulationData(body.data)) {
+      return NextResponse.json({ error: 'data must include non-negative numbers for steps 1-5, with percentages from 0 to 100' }, { status: 400 })
+    }
+    if (body.pairedWith !== undefined && body.pairedWith !== null && (typeof body.pairedWith !== 'string' || !body.pairedWith)) {
+      return NextResponse.json({ error: 'pairedWith must be a simulation ID or null' }, { status: 400 })
+    }
+
+    const store = getSimulationStore()
+    const simulation = await store.get(context.orgId, params.id)
+    if (!simulation) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 })
+    }
+
+    // The whole request is checked before anything is saved
+    const partner = body.pairedWith ? await store.get(context.orgId, body.pairedWith) : null
+    if (body.pairedWith && !partner) {
+      return NextResponse.json({ error: 'Simulation to pair with not found' }, { status: 404 })
+    }
+    const invalid = partner && validatePair(simulation, partner)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    if (body.name !== undefined) simulation.name = body.name.trim()
+    if (body.data !== undefined) simulation.data = body.data
+    simulation.updatedAt = new Date().toISOString()
+
+    if (partner) {
+      await pairSimulations(store, simulation, partner)
+    } else if (body.pairedWith === null) {
+      await unpairSimulation(store, simulation)
+    } else {
+      await store.save(simulation)
+    }
+
+    return NextResponse.json({ success: true, simulation })
+  } catch (error) {
+    console.error('Simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update simulation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const store = getSimulationStore()
+    const simulation = await store.get(context.orgId, params.id)
+    if (!simulation) {
+      return NextResponse.json({ error: 'Simulation not found' }, { status: 404 })
+    }
+
+    await deleteSimulation(store, simulation)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Simulation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete simulation' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,83 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import {
+  createSimulation,
+  getSimulationStore,
+  isScenarioType,
+  isSimulationData,
+  pairSimulations
+} from '@/lib/simulations'
+
+export async function GET(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+
+    const simulations = await getSimulationStore().list(context.orgId)
+
+    return NextResponse.json({
+      simulations: isScenarioType(type) ? simulations.filter((s) => s.type === type) : simulations
+    })
+  } catch (error) {
+    console.error('Simulations error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load simulations' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const body = await request.json()
+
+    if (!isScenarioType(body.type)) {
+      return NextResponse.json({ error: 'type must be baseline or tobe' }, { status: 400 })
+    }
+    if (!isSimulationData(body.data)) {
+      return NextResponse.json({ error: 'data must include non-negative numbers for steps 1-5, with percentages from 0 to 100' }, { status: 400 })
+    }
+
+    const store = getSimulationStore()
+
+    // Optionally pair the new scenario with an existing counterpart
+    const partner = body.pairWith ? await store.get(context.orgId, body.pairWith) : null
+    if (body.pairWith && !partner) {
+      return NextResponse.json({ error: 'Simulation to pair with not found' }, { status: 404 })
+    }
+    if (partner && partner.type === body.type) {
+      return NextResponse.json({ error: 'Pairs need one baseline and one to-be scenario' }, { status: 400 })
+    }
+
+    const simulation = await createSimulation(store, context, {
+      name: body.name,
+      type: body.type,
+      data: body.data
+    })
+
+    if (partner) {
+      await pairSimulations(store, simulation, partner)
+    }
+
+    return NextResponse.json({ success: true, simulation }, { status: 201 })
+  } catch (error) {
+    console.error('Simulations error:', error)
+    return NextResponse.json(
+      { error: 'Failed to save simulation' },
+      { status: 500 }
+    )
+  }
+}
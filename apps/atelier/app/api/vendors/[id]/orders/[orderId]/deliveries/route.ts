@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getVendorStore, parseDeliveryInput, recordDelivery, saveVendor } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string; orderId: string } }
+
+/**
+ * Records goods received (quantity and defects found on receipt) and
+ * recalculates the vendor's scorecard
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseDeliveryInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor || !vendor.orders.some((o) => o.id === params.orderId)) {
+      return NextResponse.json({ error: vendor ? 'Order not found' : 'Vendor not found' }, { status: 404 })
+    }
+
+    const invalid = recordDelivery(vendor, params.orderId, input, context)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+    await saveVendor(store, vendor, context)
+
+    return NextResponse.json({ success: true, vendor }, { status: 201 })
+  } catch (error) {
+    console.error('Delivery error:', error)
+    return NextResponse.json(
+      { error: 'Failed to record delivery' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { getVendorStore, parseOrderInput, saveVendor, updateOrder } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string; orderId: string } }
+
+/**
+ * Updates an order: the vendor's confirmation (`acknowledgedAt`), the invoiced
+ * amount, a renegotiated promise, or closing/cancelling it
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseOrderInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor || !vendor.orders.some((o) => o.id === params.orderId)) {
+      return NextResponse.json({ error: vendor ? 'Order not found' : 'Vendor not found' }, { status: 404 })
+    }
+
+    const invalid = updateOrder(vendor, params.orderId, input)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 409 })
+    }
+    await saveVendor(store, vendor, context)
+
+    return NextResponse.json({ success: true, vendor })
+  } catch (error) {
+    console.error('Purchase order error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update purchase order' },
+      { status: 500 }
+    )
+  }
+}
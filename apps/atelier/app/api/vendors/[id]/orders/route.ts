@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { addOrder, getVendorStore, parseOrderInput, saveVendor } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string } }
+
+/**
+ * Issues a purchase order: what was quoted, and the quantity and date promised
+ */
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseOrderInput(await request.json(), { create: true })
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+    if (vendor.status === 'inactivo') {
+      return NextResponse.json({ error: 'Cannot issue orders to an inactive vendor' }, { status: 409 })
+    }
+
+    const order = addOrder(vendor, input, context)
+    await saveVendor(store, vendor, context)
+
+    return NextResponse.json({ success: true, order, vendor }, { status: 201 })
+  } catch (error) {
+    console.error('Purchase order error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create purchase order' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { applyVendorInput, getVendorStore, parseVendorInput, refreshVendors, saveVendor } from '@/lib/vendors'
+
+type RouteParams = { params: { id: string } }
+
+export async function GET(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    await refreshVendors(store, [vendor], context.orgId)
+    return NextResponse.json({ vendor })
+  } catch (error) {
+    console.error('Vendor error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load vendor' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * Edits vendor fields; editors and above. Setting `status` by hand (e.g. back
+ * to 'activo' after an evaluation) is for owners and admins and restarts the
+ * period the automatic check looks at.
+ */
+export async function PATCH(request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseVendorInput(await request.json())
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if ((input.status !== undefined || input.statusReason !== undefined) && !['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can change a vendor\'s status' }, { status: 403 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    applyVendorInput(vendor, input)
+    await saveVendor(store, vendor, context)
+
+    return NextResponse.json({ success: true, vendor })
+  } catch (error) {
+    console.error('Vendor error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update vendor' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteParams) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const store = getVendorStore()
+    const vendor = await store.get(context.orgId, params.id)
+    if (!vendor) {
+      return NextResponse.json({ error: 'Vendor not found' }, { status: 404 })
+    }
+
+    await store.remove(context.orgId, vendor.id)
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Vendor error:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete vendor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { getOrgContext } from '@/lib/org-context'
+import { createVendor, getVendorStore, parseVendorInput, refreshVendors } from '@/lib/vendors'
+
+/**
+ * The organization's vendors with scorecards recalculated for today; active
+ * vendors whose scores now breach a threshold are moved to evaluation
+ */
+export async function GET() {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+
+    const store = getVendorStore()
+    const vendors = await store.list(context.orgId)
+    await refreshVendors(store, vendors, context.orgId)
+
+    return NextResponse.json({ vendors })
+  } catch (error) {
+    console.error('Vendors error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load vendors' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const context = await getOrgContext()
+    if (!context) {
+      return NextResponse.json({ error: 'Unauthorized. Please sign in.' }, { status: 401 })
+    }
+    if (!['owner', 'admin', 'editor'].includes(context.role)) {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const input = parseVendorInput(await request.json(), { requireName: true })
+    if (typeof input === 'string') {
+      return NextResponse.json({ error: input }, { status: 400 })
+    }
+    if ((input.status !== undefined || input.statusReason !== undefined) && !['owner', 'admin'].includes(context.role)) {
+      return NextResponse.json({ error: 'Only owners and admins can change a vendor\'s status' }, { status: 403 })
+    }
+
+    const vendor = await createVendor(getVendorStore(), context, input)
+    return NextResponse.json({ success: true, vendor }, { status: 201 })
+  } catch (error) {
+    console.error('Vendors error:', error)
+    return NextResponse.json(
+      { error: 'Failed to create vendor' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,119 @@
+'use client'
+
+import { useState } from 'react'
+import type { CPQQuote, QuoteApproval } from '@prime-growth-os/types'
+import { Check, ShieldCheck, X } from 'lucide-react'
+
+export type PendingApproval = {
+  quote: CPQQuote
+  approval: QuoteApproval
+  leadName: string | null
+  canApprove: boolean
+}
+
+const ROLE_LABELS: Record<QuoteApproval['requesterRole'], string> = {
+  viewer: 'Lector',
+  editor: 'Editor',
+  admin: 'Administrador',
+  owner: 'Propietario'
+}
+
+export default function ApprovalInbox({
+  pending,
+  discountLimit,
+  onDecide
+}: {
+  pending: PendingApproval[]
+  discountLimit: number
+  onDecide: (quoteId: string, decision: 'aprobada' | 'rechazada', reasoning: string) => Promise<string | null>
+}) {
+  const [reasoning, setReasoning] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const decide = async (quoteId: string, decision: 'aprobada' | 'rechazada') => {
+    const text = (reasoning[quoteId] || '').trim()
+    if (!text) {
+      setError('Escribe el motivo de la decisión')
+      return
+    }
+    setSaving(quoteId)
+    setError(null)
+    const failure = await onDecide(quoteId, decision, text)
+    setSaving(null)
+    if (failure) setError(failure)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-card border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-primary-600" />
+          Aprobaciones de Descuento
+        </h2>
+        <span className="text-sm text-gray-600">Tu límite: {discountLimit}%</span>
+      </div>
+
+      {error && <p className="px-6 pt-4 text-sm text-red-600">{error}</p>}
+
+      {pending.length === 0 ? (
+        <p className="px-6 py-6 text-sm text-gray-500">No hay cotizaciones esperando aprobación.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {pending.map(({ quote, approval, leadName, canApprove }) => (
+            <li key={quote.id} className="px-6 py-4 space-y-3">
+              <div className="flex justify-between items-start">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {leadName || quote.leadId} · {quote.id} v{quote.version}
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    Solicitada por {approval.requestedByName} ({ROLE_LABELS[approval.requesterRole]}) el{' '}
+                    {new Date(approval.requestedAt).toLocaleDateString('es-MX')}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-gray-900">${quote.totalPrice.toLocaleString('es-MX')}</p>
+                  <p className="text-xs text-green-700">
+                    -{approval.discountPercentage}% · margen {(quote.pricing.margin * 100).toFixed(0)}%
+                  </p>
+                </div>
+              </div>
+
+              {canApprove ? (
+                <div className="flex items-center space-x-2">
+                  <input
+                    className="flex-1 py-1 px-2 border border-gray-300 rounded-md text-sm"
+                    placeholder="Motivo de la decisión"
+                    value={reasoning[quote.id] || ''}
+                    onChange={(e) => setReasoning((current) => ({ ...current, [quote.id]: e.target.value }))}
+                  />
+                  <button
+                    className="btn-primary text-sm"
+                    disabled={saving === quote.id}
+                    onClick={() => decide(quote.id, 'aprobada')}
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Aprobar
+                  </button>
+                  <button
+                    className="btn-outline text-sm"
+                    disabled={saving === quote.id}
+                    onClick={() => decide(quote.id, 'rechazada')}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Rechazar
+                  </button>
+                </div>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  El descuento supera tu límite; debe aprobarlo un miembro con mayor límite.
+                </p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
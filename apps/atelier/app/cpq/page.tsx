@@ -1,64 +1,157 @@
 'use client'
 
-import { useState } from 'react'
-import { CPQTier, CPQQuote } from '@prime-growth-os/types'
-import { pricingTiers, calculateQuotePrice } from '@prime-growth-os/engine'
+import { useEffect, useState } from 'react'
+import type { CPQQuote, Lead, PriceBook, QuoteDiscountConditions, QuoteUrgency } from '@prime-growth-os/types'
+import type { StartShift } from '@prime-growth-os/sgp'
 import {
   Calculator,
   Check,
   Clock,
   DollarSign,
   Users,
-  Calendar,
   FileText,
   Send,
   Eye,
   Edit,
-  Download
+  Download,
+  Save,
+  X
 } from 'lucide-react'
+import { QUOTE_STATUS_LABELS, QUOTE_VALIDITY_DAYS, deliveryDays, priceQuote, type QuoteSummary } from '@/lib/quotes/rules'
+import ApprovalInbox, { type PendingApproval } from './ApprovalInbox'
 
-// Mock data for quotes
-const mockQuotes: CPQQuote[] = [
-  {
-    id: 'quote-001',
-    leadId: 'lead-001',
-    tier: 'signature',
-    customizations: ['renders_adicionales', 'certificacion_leed'],
-    totalPrice: 275000,
-    createdAt: '2024-01-15T10:30:00Z',
-    status: 'enviada',
-    validUntil: '2024-02-15T23:59:59Z'
-  },
-  {
-    id: 'quote-002',
-    leadId: 'lead-002',
-    tier: 'core',
-    customizations: ['recorrido_virtual'],
-    totalPrice: 110000,
-    createdAt: '2024-01-14T15:20:00Z',
-    status: 'aceptada',
-    validUntil: '2024-02-14T23:59:59Z'
-  },
-  {
-    id: 'quote-003',
-    leadId: 'lead-003',
-    tier: 'masterpiece',
-    customizations: ['recorrido_virtual', 'mobiliario_personalizado'],
-    totalPrice: 415000,
-    createdAt: '2024-01-12T12:45:00Z',
-    status: 'borrador',
-    validUntil: '2024-02-12T23:59:59Z'
+type QuoteRow = CPQQuote & { expired: boolean }
+
+const proposalURL = (quoteId: string, version?: number) =>
+  `/api/quotes/${quoteId}/proposal${version ? `?version=${version}` : ''}`
+
+// Print-ready HTML; the browser's print dialog saves it as PDF
+const printProposal = async (quoteId: string) => {
+  try {
+    const res = await fetch(proposalURL(quoteId))
+    const html = await res.text()
+    const printWindow = window.open('', '_blank')
+    if (printWindow) {
+      printWindow.document.write(html)
+      printWindow.document.close()
+      printWindow.print()
+    }
+  } catch (error) {
+    console.error('Failed to export proposal:', error)
   }
-]
+}
 
 export default function CPQPage() {
-  const [quotes] = useState<CPQQuote[]>(mockQuotes)
+  const [quotes, setQuotes] = useState<QuoteRow[]>([])
+  const [summary, setSummary] = useState<QuoteSummary | null>(null)
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [editing, setEditing] = useState<QuoteRow | null>(null)
+  const [dirty, setDirty] = useState(false)
+  const [rejecting, setRejecting] = useState<{ id: string; reason: string } | null>(null)
+  const [activeBook, setActiveBook] = useState<PriceBook | null>(null)
+  const [quoteBook, setQuoteBook] = useState<PriceBook | null>(null)
+  const [reprice, setReprice] = useState(false)
+  const [approvals, setApprovals] = useState<{ discountLimit: number; pending: PendingApproval[] } | null>(null)
+  const [availableStart, setAvailableStart] = useState<StartShift | null>(null)
+
+  const [leadId, setLeadId] = useState('')
   const [selectedTier, setSelectedTier] = useState<string>('core')
   const [customizations, setCustomizations] = useState<string[]>([])
   const [projectSize, setProjectSize] = useState<number>(1)
-  const [urgency, setUrgency] = useState<'normal' | 'expedito' | 'urgente'>('normal')
+  const [urgency, setUrgency] = useState<QuoteUrgency>('normal')
+  const [discountConditions, setDiscountConditions] = useState<QuoteDiscountConditions>({})
+  const [note, setNote] = useState('')
 
-  const priceCalculation = calculateQuotePrice(selectedTier, customizations, projectSize, urgency)
+  // A quote under revision keeps its own price book unless it is moved to the one in effect
+  const book = editing && !reprice ? quoteBook : activeBook
+  const tier = book?.tiers.find(t => t.id === selectedTier) || null
+  const pricing = book && tier && book.costs.tiers[tier.id] !== undefined
+    ? priceQuote({ tier: selectedTier, customizations, projectSize, urgency, discountConditions }, book)
+    : null
+  const leadNames = new Map(leads.map(l => [l.id, l.company || l.contact]))
+  const belowFloor = !!book && !!pricing && pricing.margin < book.costs.marginFloor
+  const needsApproval = !!approvals && !!pricing && pricing.discountPercentage > approvals.discountLimit
+
+  useEffect(() => {
+    loadQuotes()
+    loadLeads()
+    loadPriceBook()
+    loadApprovals()
+  }, [])
+
+  const delivery = tier ? deliveryDays(tier.deliveryTime, urgency) : 0
+
+  // Realistic start for the delivery window given the projects already in progress
+  useEffect(() => {
+    if (delivery <= 0) return
+    const loadAvailableStart = async () => {
+      try {
+        const res = await fetch('/api/projects/capacity', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ durationDays: delivery })
+        })
+        const data = await res.json()
+        if (res.ok) setAvailableStart(data)
+      } catch (err) {
+        console.error('Failed to load available start:', err)
+      }
+    }
+    loadAvailableStart()
+  }, [delivery])
+
+  const loadPriceBook = async () => {
+    try {
+      const res = await fetch('/api/price-book')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudo cargar la lista de precios')
+        return
+      }
+      setActiveBook(data.active)
+    } catch (err) {
+      console.error('Failed to load price book:', err)
+      setError('No se pudo cargar la lista de precios')
+    }
+  }
+
+  const loadQuotes = async () => {
+    try {
+      const res = await fetch('/api/quotes')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar las cotizaciones')
+        return
+      }
+      setQuotes(data.quotes || [])
+      setSummary(data.summary || null)
+    } catch (err) {
+      console.error('Failed to load quotes:', err)
+      setError('No se pudieron cargar las cotizaciones')
+    }
+  }
+
+  const loadApprovals = async () => {
+    try {
+      const res = await fetch('/api/quotes/approvals')
+      const data = await res.json()
+      if (res.ok) setApprovals({ discountLimit: data.discountLimit, pending: data.pending || [] })
+    } catch (err) {
+      console.error('Failed to load quote approvals:', err)
+    }
+  }
+
+  const loadLeads = async () => {
+    try {
+      const res = await fetch('/api/leads')
+      const data = await res.json()
+      if (res.ok) setLeads(data.leads || [])
+    } catch (err) {
+      console.error('Failed to load leads:', err)
+    }
+  }
 
   const toggleCustomization = (customization: string) => {
     setCustomizations(prev =>
@@ -66,11 +159,149 @@ export default function CPQPage() {
         ? prev.filter(c => c !== customization)
         : [...prev, customization]
     )
+    setDirty(true)
+  }
+
+  const updateDiscount = (changes: Partial<QuoteDiscountConditions>) => {
+    setDiscountConditions(prev => ({ ...prev, ...changes }))
+    setDirty(true)
+  }
+
+  const resetConfigurator = () => {
+    setEditing(null)
+    setQuoteBook(null)
+    setReprice(false)
+    setDirty(false)
+    setLeadId('')
+    setSelectedTier('core')
+    setCustomizations([])
+    setProjectSize(1)
+    setUrgency('normal')
+    setDiscountConditions({})
+    setNote('')
+  }
+
+  const editQuote = async (quote: QuoteRow) => {
+    if (quote.priceBookId !== activeBook?.id) {
+      const res = await fetch(`/api/price-book/${quote.priceBookId}`)
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudo cargar la lista de precios de la cotización')
+        return
+      }
+      setQuoteBook(data.priceBook)
+    } else {
+      setQuoteBook(activeBook)
+    }
+    setEditing(quote)
+    setReprice(false)
+    setDirty(false)
+    setLeadId(quote.leadId)
+    setSelectedTier(quote.tier)
+    setCustomizations(quote.customizations)
+    setProjectSize(quote.projectSize)
+    setUrgency(quote.urgency)
+    setDiscountConditions(quote.discountConditions)
+    setNote('')
+    window.scrollTo({ top: 0, behavior: 'smooth' })
+  }
+
+  const applyQuote = (quote: QuoteRow) => {
+    setQuotes(current =>
+      current.some(q => q.id === quote.id)
+        ? current.map(q => (q.id === quote.id ? quote : q))
+        : [quote, ...current]
+    )
+    setEditing(quote.status === 'aceptada' ? null : quote)
+    if (reprice) setQuoteBook(activeBook)
+    setReprice(false)
+    setDirty(false)
+    setNote('')
+  }
+
+  const request = async (url: string, method: string, body: Record<string, unknown>): Promise<QuoteRow | null> => {
+    setError(null)
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'No se pudo guardar la cotización')
+      return null
+    }
+    return data.quote
   }
 
-  const getQuoteStatusColor = (status: CPQQuote['status']) => {
-    switch (status) {
+  /**
+   * Creates the quote, or revises the one being edited as a new version when the
+   * configuration changed, optionally moving it to another status in the same request
+   */
+  const saveQuote = async (status?: CPQQuote['status']): Promise<QuoteRow | null> => {
+    if (!editing && !leadId) {
+      setError('Selecciona el lead para la cotización')
+      return null
+    }
+
+    const config = { tier: selectedTier, customizations, projectSize, urgency, discountConditions, note, reprice }
+    setSaving(true)
+    try {
+      let quote: QuoteRow | null = editing
+      if (!editing) {
+        quote = await request('/api/quotes', 'POST', { leadId, ...config })
+        if (quote && status) quote = await request(`/api/quotes/${quote.id}`, 'PATCH', { status })
+      } else if (dirty || status) {
+        quote = await request(`/api/quotes/${editing.id}`, 'PATCH', { ...(dirty ? config : {}), status })
+      }
+      if (quote) {
+        applyQuote(quote)
+        // Sending moves the lead to Propuesta, or waits in the approver inbox
+        if (status) loadLeads()
+        loadQuotes()
+        loadApprovals()
+      }
+      return quote
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const downloadProposal = async () => {
+    const quote = editing && !dirty ? editing : await saveQuote()
+    if (quote) printProposal(quote.id)
+  }
+
+  const decideQuote = async (quote: QuoteRow, status: 'aceptada' | 'rechazada', reason = '') => {
+    const updated = await request(`/api/quotes/${quote.id}`, 'PATCH', { status, reason })
+    if (updated) {
+      setRejecting(null)
+      if (editing?.id === quote.id) resetConfigurator()
+      loadQuotes()
+      loadLeads()
+    }
+  }
+
+  const decideApproval = async (quoteId: string, decision: 'aprobada' | 'rechazada', reasoning: string) => {
+    const res = await fetch(`/api/quotes/${quoteId}/approval`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, reasoning })
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo registrar la decisión'
+    if (editing?.id === quoteId) resetConfigurator()
+    loadApprovals()
+    loadQuotes()
+    loadLeads()
+    return null
+  }
+
+  const getQuoteStatusColor = (quote: QuoteRow) => {
+    if (quote.expired) return 'bg-yellow-100 text-yellow-800'
+    switch (quote.status) {
       case 'borrador': return 'bg-gray-100 text-gray-800'
+      case 'pendiente_aprobacion': return 'bg-purple-100 text-purple-800'
       case 'enviada': return 'bg-blue-100 text-blue-800'
       case 'aceptada': return 'bg-green-100 text-green-800'
       case 'rechazada': return 'bg-red-100 text-red-800'
@@ -78,18 +309,7 @@ export default function CPQPage() {
     }
   }
 
-  const customizationOptions = [
-    { id: 'renders_adicionales', name: 'Renders Adicionales', price: 8500 },
-    { id: 'recorrido_virtual', name: 'Recorrido Virtual VR', price: 25000 },
-    { id: 'modelado_avanzado', name: 'Modelado BIM Avanzado', price: 35000 },
-    { id: 'certificacion_leed', name: 'Certificación LEED', price: 45000 },
-    { id: 'diseño_paisajismo', name: 'Diseño de Paisajismo', price: 28000 },
-    { id: 'mobiliario_personalizado', name: 'Mobiliario Personalizado', price: 40000 },
-    { id: 'consultoria_feng_shui', name: 'Consultoría Feng Shui', price: 15000 },
-    { id: 'automatizacion_hogar', name: 'Automatización del Hogar', price: 55000 },
-    { id: 'sistema_seguridad', name: 'Sistema de Seguridad', price: 32000 },
-    { id: 'paneles_solares', name: 'Integración Paneles Solares', price: 18000 }
-  ]
+  const field = 'w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
 
   return (
     <div className="space-y-6">
@@ -101,65 +321,111 @@ export default function CPQPage() {
             Sistema de cotización inteligente para proyectos arquitectónicos
           </p>
         </div>
-        <button className="btn-primary">
+        <button className="btn-primary" onClick={resetConfigurator}>
           <Calculator className="h-4 w-4 mr-2" />
           Nueva Cotización
         </button>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 rounded-md px-4 py-3 text-sm">{error}</div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* CPQ Configuration */}
         <div className="lg:col-span-2 space-y-6">
+          {/* Lead */}
+          <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
+            <h2 className="text-xl font-semibold text-gray-900 mb-4">Cliente</h2>
+            {editing ? (
+              <div>
+                <p className="text-sm text-gray-700">
+                  Revisando <span className="font-medium">{editing.id}</span> (v{editing.version}) para{' '}
+                  <span className="font-medium">{leadNames.get(editing.leadId) || editing.leadId}</span>.
+                  {editing.status !== 'borrador' && ' Guardar cambios crea una nueva versión en borrador que deberá enviarse de nuevo.'}
+                </p>
+                {quoteBook && activeBook && quoteBook.id !== activeBook.id && (
+                  <label className="flex items-center text-sm text-gray-700 mt-3">
+                    <input
+                      type="checkbox"
+                      className="mr-2"
+                      checked={reprice}
+                      onChange={(e) => {
+                        setReprice(e.target.checked)
+                        setDirty(true)
+                      }}
+                    />
+                    Cotizada con la lista de precios v{quoteBook.version}; actualizar a la lista vigente (v{activeBook.version})
+                  </label>
+                )}
+              </div>
+            ) : (
+              <select className={field} value={leadId} onChange={(e) => setLeadId(e.target.value)}>
+                <option value="">Selecciona un lead...</option>
+                {leads
+                  .filter(l => l.status !== 'ganado' && l.status !== 'perdido')
+                  .map(l => (
+                    <option key={l.id} value={l.id}>
+                      {l.company || l.contact} · {l.projectType}
+                    </option>
+                  ))}
+              </select>
+            )}
+          </div>
+
           {/* Pricing Tiers */}
           <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Planes Disponibles</h2>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {pricingTiers.map((tier) => (
+              {book?.tiers.map((option) => (
                 <div
-                  key={tier.id}
+                  key={option.id}
                   className={`border-2 rounded-lg p-4 cursor-pointer transition-all duration-200 ${
-                    selectedTier === tier.id
+                    selectedTier === option.id
                       ? 'border-primary-500 bg-primary-50'
                       : 'border-gray-200 hover:border-gray-300'
                   }`}
-                  onClick={() => setSelectedTier(tier.id)}
+                  onClick={() => {
+                    setSelectedTier(option.id)
+                    setDirty(true)
+                  }}
                 >
                   <div className="flex items-center justify-between mb-3">
-                    <h3 className="text-lg font-semibold text-gray-900">{tier.name}</h3>
-                    {selectedTier === tier.id && (
+                    <h3 className="text-lg font-semibold text-gray-900">{option.name}</h3>
+                    {selectedTier === option.id && (
                       <Check className="h-5 w-5 text-primary-600" />
                     )}
                   </div>
 
-                  <p className="text-sm text-gray-600 mb-4">{tier.description}</p>
+                  <p className="text-sm text-gray-600 mb-4">{option.description}</p>
 
                   <div className="space-y-2 mb-4">
                     <div className="flex items-center text-sm text-gray-600">
                       <DollarSign className="h-4 w-4 mr-2" />
-                      ${tier.basePrice.toLocaleString('es-MX')}
+                      ${option.basePrice.toLocaleString('es-MX')}
                     </div>
                     <div className="flex items-center text-sm text-gray-600">
                       <Clock className="h-4 w-4 mr-2" />
-                      {tier.deliveryTime} días
+                      {option.deliveryTime} días
                     </div>
                     <div className="flex items-center text-sm text-gray-600">
                       <Users className="h-4 w-4 mr-2" />
-                      Equipo de {tier.teamSize}
+                      Equipo de {option.teamSize}
                     </div>
                   </div>
 
                   <div className="border-t pt-3">
                     <p className="text-xs text-gray-500 mb-2">Incluye:</p>
                     <ul className="text-xs text-gray-600 space-y-1">
-                      {tier.features.slice(0, 3).map((feature, index) => (
+                      {option.features.slice(0, 3).map((feature, index) => (
                         <li key={index} className="flex items-center">
                           <Check className="h-3 w-3 text-green-500 mr-1" />
                           {feature}
                         </li>
                       ))}
-                      {tier.features.length > 3 && (
+                      {option.features.length > 3 && (
                         <li className="text-primary-600">
-                          +{tier.features.length - 3} características más
+                          +{option.features.length - 3} características más
                         </li>
                       )}
                     </ul>
@@ -173,7 +439,7 @@ export default function CPQPage() {
           <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Personalizaciones</h2>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              {customizationOptions.map((option) => (
+              {book?.addOns.map((option) => (
                 <div
                   key={option.id}
                   className={`border rounded-lg p-4 cursor-pointer transition-all duration-200 ${
@@ -213,8 +479,11 @@ export default function CPQPage() {
                   max="5"
                   step="0.1"
                   value={projectSize}
-                  onChange={(e) => setProjectSize(parseFloat(e.target.value))}
-                  className="w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  onChange={(e) => {
+                    setProjectSize(parseFloat(e.target.value))
+                    setDirty(true)
+                  }}
+                  className={field}
                 />
                 <p className="text-xs text-gray-500 mt-1">
                   1.0 = Proyecto estándar, 2.0 = Doble tamaño
@@ -227,8 +496,11 @@ export default function CPQPage() {
                 </label>
                 <select
                   value={urgency}
-                  onChange={(e) => setUrgency(e.target.value as 'normal' | 'expedito' | 'urgente')}
-                  className="w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+                  onChange={(e) => {
+                    setUrgency(e.target.value as QuoteUrgency)
+                    setDirty(true)
+                  }}
+                  className={field}
                 >
                   <option value="normal">Normal</option>
                   <option value="expedito">Expedito (+25%)</option>
@@ -241,14 +513,71 @@ export default function CPQPage() {
                   Tiempo de Entrega
                 </label>
                 <div className="py-2 px-3 bg-gray-50 border border-gray-300 rounded-md text-gray-900">
-                  {priceCalculation.tier ? (
-                    urgency === 'urgente'
-                      ? Math.ceil(priceCalculation.tier.deliveryTime * 0.6)
-                      : urgency === 'expedito'
-                      ? Math.ceil(priceCalculation.tier.deliveryTime * 0.8)
-                      : priceCalculation.tier.deliveryTime
-                  ) : 0} días
+                  {delivery} días
                 </div>
+                {availableStart && (
+                  <p className={`mt-1 text-xs ${availableStart.feasible ? 'text-gray-500' : 'text-red-600'}`}>
+                    {availableStart.feasible
+                      ? `Inicio disponible: ${new Date(availableStart.proposedStart).toLocaleDateString('es-MX', { timeZone: 'UTC' })}`
+                      : 'Sin capacidad en las próximas 52 semanas'}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            <h3 className="font-medium text-gray-900 mt-6 mb-4">Condiciones Comerciales</h3>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+              <label className="flex items-center text-sm text-gray-700 md:pt-7">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={!!discountConditions.isReturnClient}
+                  onChange={(e) => updateDiscount({ isReturnClient: e.target.checked })}
+                />
+                Cliente recurrente
+              </label>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Proyectos</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="1"
+                  value={discountConditions.projectCount ?? 0}
+                  onChange={(e) => updateDiscount({ projectCount: Math.max(0, Math.floor(Number(e.target.value))) })}
+                  className={field}
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Términos de Pago</label>
+                <select
+                  value={discountConditions.paymentTerms || ''}
+                  onChange={(e) => updateDiscount({
+                    paymentTerms: (e.target.value || undefined) as QuoteDiscountConditions['paymentTerms']
+                  })}
+                  className={field}
+                >
+                  <option value="">Por definir</option>
+                  <option value="contado">Contado (-8%)</option>
+                  <option value="30_dias">30 días</option>
+                  <option value="60_dias">60 días</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Temporada</label>
+                <select
+                  value={discountConditions.seasonality || 'media'}
+                  onChange={(e) => updateDiscount({
+                    seasonality: e.target.value as QuoteDiscountConditions['seasonality']
+                  })}
+                  className={field}
+                >
+                  <option value="alta">Alta (+5%)</option>
+                  <option value="media">Media</option>
+                  <option value="baja">Baja (-10%)</option>
+                </select>
               </div>
             </div>
           </div>
@@ -259,92 +588,214 @@ export default function CPQPage() {
           <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6 sticky top-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-6">Resumen de Cotización</h2>
 
-            {priceCalculation.tier && (
+            {tier && pricing && (
               <div className="space-y-4">
                 <div className="border-b pb-4">
                   <h3 className="font-medium text-gray-900 mb-2">
-                    Plan {priceCalculation.tier.name}
+                    Plan {tier.name}
                   </h3>
+                  {book && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      Lista de precios v{book.version} · vigente desde{' '}
+                      {new Date(book.effectiveFrom).toLocaleDateString('es-MX')}
+                    </p>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span className="text-gray-600">Precio base:</span>
                     <span className="font-medium">
-                      ${priceCalculation.basePrice.toLocaleString('es-MX')}
+                      ${pricing.basePrice.toLocaleString('es-MX')}
                     </span>
                   </div>
                 </div>
 
-                {priceCalculation.customizationCost > 0 && (
+                {pricing.customizationCost > 0 && (
                   <div className="border-b pb-4">
                     <h4 className="font-medium text-gray-900 mb-2">Personalizaciones</h4>
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Costo adicional:</span>
                       <span className="font-medium">
-                        ${priceCalculation.customizationCost.toLocaleString('es-MX')}
+                        ${pricing.customizationCost.toLocaleString('es-MX')}
                       </span>
                     </div>
                   </div>
                 )}
 
-                {priceCalculation.sizePremium > 0 && (
+                {pricing.sizePremium > 0 && (
                   <div className="border-b pb-4">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Ajuste por tamaño:</span>
                       <span className="font-medium">
-                        ${priceCalculation.sizePremium.toLocaleString('es-MX')}
+                        ${pricing.sizePremium.toLocaleString('es-MX')}
                       </span>
                     </div>
                   </div>
                 )}
 
-                {priceCalculation.urgencyPremium > 0 && (
+                {pricing.urgencyPremium > 0 && (
                   <div className="border-b pb-4">
                     <div className="flex justify-between text-sm">
                       <span className="text-gray-600">Ajuste por urgencia:</span>
                       <span className="font-medium">
-                        ${priceCalculation.urgencyPremium.toLocaleString('es-MX')}
+                        ${pricing.urgencyPremium.toLocaleString('es-MX')}
                       </span>
                     </div>
                   </div>
                 )}
 
+                {pricing.discountAmount > 0 && (
+                  <div className="border-b pb-4">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Descuento ({pricing.discountPercentage}%):</span>
+                      <span className="font-medium text-green-700">
+                        -${pricing.discountAmount.toLocaleString('es-MX')}
+                      </span>
+                    </div>
+                    <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                      {pricing.appliedDiscounts.map((d) => (
+                        <li key={d}>{d}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 <div className="border-t pt-4">
                   <div className="flex justify-between items-center">
                     <span className="text-lg font-semibold text-gray-900">Total:</span>
                     <span className="text-2xl font-bold text-primary-600">
-                      ${priceCalculation.totalPrice.toLocaleString('es-MX')}
+                      ${pricing.totalPrice.toLocaleString('es-MX')}
                     </span>
                   </div>
                   <p className="text-xs text-gray-500 mt-1">
-                    Cotización válida por 30 días
+                    Cotización válida por {QUOTE_VALIDITY_DAYS} días a partir del envío
                   </p>
                 </div>
 
-                <div className="space-y-3 pt-4">
-                  <button className="btn-primary w-full">
+                {book && (
+                  <div className="text-sm space-y-1">
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Costo estimado:</span>
+                      <span className="font-medium">${pricing.estimatedCost.toLocaleString('es-MX')}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Margen:</span>
+                      <span className={`font-medium ${belowFloor ? 'text-red-600' : 'text-gray-900'}`}>
+                        {(pricing.margin * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                    {belowFloor && (
+                      <p className="text-xs text-red-600">
+                        Por debajo del margen mínimo de {(book.costs.marginFloor * 100).toFixed(0)}%; la cotización no puede enviarse.
+                      </p>
+                    )}
+                    {!belowFloor && needsApproval && (
+                      <p className="text-xs text-purple-700">
+                        El descuento supera tu límite de {approvals.discountLimit}%; al enviarla pasará a aprobación.
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Nota de la versión</label>
+                  <input
+                    className={field}
+                    value={note}
+                    placeholder="Ej. ajuste de alcance solicitado por el cliente"
+                    onChange={(e) => {
+                      setNote(e.target.value)
+                      setDirty(true)
+                    }}
+                  />
+                </div>
+
+                <div className="space-y-3 pt-2">
+                  <button
+                    className="btn-primary w-full"
+                    disabled={saving || belowFloor || (!!editing && editing.status !== 'borrador' && !dirty)}
+                    onClick={() => saveQuote('enviada')}
+                  >
                     <Send className="h-4 w-4 mr-2" />
-                    Enviar Cotización
+                    {needsApproval ? 'Solicitar Aprobación' : 'Enviar Cotización'}
+                  </button>
+                  <button
+                    className="btn-outline w-full"
+                    disabled={saving || (!!editing && !dirty)}
+                    onClick={() => saveQuote()}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    {editing ? 'Guardar Nueva Versión' : 'Guardar Borrador'}
                   </button>
-                  <button className="btn-outline w-full">
+                  <button className="btn-outline w-full" disabled={saving} onClick={downloadProposal}>
                     <Download className="h-4 w-4 mr-2" />
                     Descargar PDF
                   </button>
                 </div>
+
+                {editing && editing.versions.length > 1 && (
+                  <div className="border-t pt-4">
+                    <h4 className="font-medium text-gray-900 mb-2">Versiones</h4>
+                    <ul className="text-sm space-y-1">
+                      {[...editing.versions].reverse().map((v) => (
+                        <li key={v.version} className="flex justify-between">
+                          <a
+                            href={proposalURL(editing.id, v.version)}
+                            target="_blank"
+                            rel="noreferrer"
+                            className="text-primary-600 hover:text-primary-900"
+                          >
+                            v{v.version} · {new Date(v.createdAt).toLocaleDateString('es-MX')}
+                          </a>
+                          <span className="text-gray-600">${v.pricing.totalPrice.toLocaleString('es-MX')}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
 
+      {approvals && (approvals.pending.length > 0 || approvals.discountLimit > 0) && (
+        <ApprovalInbox
+          pending={approvals.pending}
+          discountLimit={approvals.discountLimit}
+          onDecide={decideApproval}
+        />
+      )}
+
       {/* Recent Quotes */}
       <div className="bg-white rounded-lg shadow-card border border-gray-200">
-        <div className="px-6 py-4 border-b border-gray-200">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
           <h2 className="text-xl font-semibold text-gray-900">Cotizaciones Recientes</h2>
+          {summary && (
+            <div className="flex gap-6 text-sm text-gray-600">
+              <span>
+                En curso: <span className="font-medium text-gray-900">${summary.openValue.toLocaleString('es-MX')}</span>
+              </span>
+              <span>
+                Aceptación:{' '}
+                <span className="font-medium text-gray-900">
+                  {summary.acceptanceRate !== null ? `${summary.acceptanceRate.toFixed(0)}%` : '—'}
+                </span>
+              </span>
+              <span>
+                Tiempo a envío:{' '}
+                <span className="font-medium text-gray-900">
+                  {summary.avgHoursToSend !== null ? `${summary.avgHoursToSend.toFixed(1)} h` : '—'}
+                </span>
+              </span>
+              {summary.expired > 0 && <span className="text-yellow-700">{summary.expired} vencidas</span>}
+            </div>
+          )}
         </div>
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-gray-200">
             <thead>
               <tr className="table-header">
                 <th className="px-6 py-3 text-left">ID</th>
+                <th className="px-6 py-3 text-left">Cliente</th>
                 <th className="px-6 py-3 text-left">Plan</th>
                 <th className="px-6 py-3 text-left">Total</th>
                 <th className="px-6 py-3 text-left">Estado</th>
@@ -353,14 +804,25 @@ export default function CPQPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
+              {quotes.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-6 py-8 text-center text-sm text-gray-500">
+                    <FileText className="h-6 w-6 mx-auto mb-2 text-gray-400" />
+                    Aún no hay cotizaciones. Configura una arriba y guárdala como borrador.
+                  </td>
+                </tr>
+              )}
               {quotes.map((quote) => (
                 <tr key={quote.id} className="table-row">
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm font-medium text-gray-900">{quote.id}</div>
                     <div className="text-sm text-gray-500">
-                      {new Date(quote.createdAt).toLocaleDateString('es-MX')}
+                      v{quote.version} · {new Date(quote.createdAt).toLocaleDateString('es-MX')}
                     </div>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {leadNames.get(quote.leadId) || quote.leadId}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <div className="text-sm text-gray-900 capitalize">{quote.tier}</div>
                     <div className="text-sm text-gray-500">
@@ -371,27 +833,87 @@ export default function CPQPage() {
                     <div className="text-sm font-medium text-gray-900">
                       ${quote.totalPrice.toLocaleString('es-MX')}
                     </div>
+                    {quote.pricing.discountPercentage > 0 && (
+                      <div className="text-xs text-green-700">-{quote.pricing.discountPercentage}%</div>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`badge ${getQuoteStatusColor(quote.status)} capitalize`}>
-                      {quote.status}
+                    <span className={`badge ${getQuoteStatusColor(quote)}`}>
+                      {quote.expired ? 'Vencida' : QUOTE_STATUS_LABELS[quote.status]}
                     </span>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {new Date(quote.validUntil).toLocaleDateString('es-MX')}
+                    {quote.status === 'borrador' ? '—' : new Date(quote.validUntil).toLocaleDateString('es-MX')}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                    <div className="flex items-center space-x-2">
-                      <button className="text-primary-600 hover:text-primary-900 p-1">
-                        <Eye className="h-4 w-4" />
-                      </button>
-                      <button className="text-primary-600 hover:text-primary-900 p-1">
-                        <Edit className="h-4 w-4" />
-                      </button>
-                      <button className="text-primary-600 hover:text-primary-900 p-1">
-                        <Download className="h-4 w-4" />
-                      </button>
-                    </div>
+                    {rejecting?.id === quote.id ? (
+                      <div className="flex items-center space-x-2">
+                        <input
+                          className="py-1 px-2 border border-gray-300 rounded-md text-sm"
+                          placeholder="Motivo del rechazo"
+                          value={rejecting.reason}
+                          onChange={(e) => setRejecting({ id: quote.id, reason: e.target.value })}
+                        />
+                        <button
+                          className="text-red-600 hover:text-red-900 p-1"
+                          title="Confirmar rechazo"
+                          onClick={() => decideQuote(quote, 'rechazada', rejecting.reason)}
+                        >
+                          <Check className="h-4 w-4" />
+                        </button>
+                        <button className="text-gray-500 hover:text-gray-700 p-1" onClick={() => setRejecting(null)}>
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ) : (
+                      <div className="flex items-center space-x-2">
+                        <a
+                          href={proposalURL(quote.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-primary-600 hover:text-primary-900 p-1"
+                          title="Ver propuesta"
+                        >
+                          <Eye className="h-4 w-4" />
+                        </a>
+                        {quote.status !== 'aceptada' && (
+                          <button
+                            className="text-primary-600 hover:text-primary-900 p-1"
+                            title="Revisar"
+                            onClick={() => editQuote(quote)}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                        <button
+                          className="text-primary-600 hover:text-primary-900 p-1"
+                          title="Descargar PDF"
+                          onClick={() => printProposal(quote.id)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                        {quote.status === 'enviada' && (
+                          <>
+                            {!quote.expired && (
+                              <button
+                                className="text-green-600 hover:text-green-900 p-1"
+                                title="Marcar como aceptada"
+                                onClick={() => decideQuote(quote, 'aceptada')}
+                              >
+                                <Check className="h-4 w-4" />
+                              </button>
+                            )}
+                            <button
+                              className="text-red-600 hover:text-red-900 p-1"
+                              title="Marcar como rechazada"
+                              onClick={() => setRejecting({ id: quote.id, reason: '' })}
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    )}
                   </td>
                 </tr>
               ))}
@@ -401,4 +923,4 @@ export default function CPQPage() {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,97 @@
+'use client'
+
+import { useState } from 'react'
+
+export type CashEntryValues = {
+  date: string
+  description: string
+  amount: number
+  category: string
+}
+
+export default function CashEntryForm({
+  onSubmit,
+  onCancel
+}: {
+  onSubmit: (values: CashEntryValues) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState({
+    date: new Date().toISOString().slice(0, 10),
+    description: '',
+    amount: 0,
+    category: '',
+    type: 'expense' as 'income' | 'expense'
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit({
+      date: values.date,
+      description: values.description,
+      amount: values.type === 'income' ? Math.abs(values.amount) : -Math.abs(values.amount),
+      category: values.category
+    })
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const field = 'w-full py-2 px-3 bg-dark-surface border border-dark-border rounded-lg text-sm text-text-primary focus:ring-gold-500 focus:border-gold-500'
+
+  return (
+    <form onSubmit={handleSubmit} className="px-6 py-4 border-b border-dark-border space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <input
+          type="date"
+          required
+          className={field}
+          value={values.date}
+          onChange={(e) => setValues({ ...values, date: e.target.value })}
+        />
+        <input
+          required
+          className={`${field} md:col-span-2`}
+          placeholder="Descripción"
+          value={values.description}
+          onChange={(e) => setValues({ ...values, description: e.target.value })}
+        />
+        <select
+          className={field}
+          value={values.type}
+          onChange={(e) => setValues({ ...values, type: e.target.value as 'income' | 'expense' })}
+        >
+          <option value="income">Ingreso</option>
+          <option value="expense">Gasto</option>
+        </select>
+        <input
+          type="number"
+          min={1}
+          required
+          className={field}
+          title="Monto (MXN)"
+          value={values.amount}
+          onChange={(e) => setValues({ ...values, amount: Number(e.target.value) })}
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <input
+          className={`${field} max-w-xs`}
+          placeholder="Categoría (opcional)"
+          value={values.category}
+          onChange={(e) => setValues({ ...values, category: e.target.value })}
+        />
+        <div className="flex items-center space-x-3">
+          {error && <p className="text-sm text-danger-500">{error}</p>}
+          <button type="button" className="btn-secondary" onClick={onCancel}>Cancelar</button>
+          <button type="submit" className="btn-primary" disabled={saving}>
+            {saving ? 'Guardando...' : 'Registrar movimiento'}
+          </button>
+        </div>
+      </div>
+    </form>
+  )
+}
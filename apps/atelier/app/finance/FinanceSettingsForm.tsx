@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import type { FinanceSettings, OverheadItem } from '@prime-growth-os/types'
+import { Plus, Trash2 } from 'lucide-react'
+import { OVERHEAD_FREQUENCY_LABELS } from '@/lib/finance/rules'
+
+export type FinanceSettingsValues = Pick<
+  FinanceSettings,
+  'openingBalance' | 'openingDate' | 'advancePercentage' | 'defaultDsoDays' | 'targetDsoDays' | 'vendorPaymentDays' | 'overhead'
+>
+
+const TERM_FIELDS: { key: 'advancePercentage' | 'defaultDsoDays' | 'targetDsoDays' | 'vendorPaymentDays'; label: string }[] = [
+  { key: 'advancePercentage', label: 'Anticipo (%)' },
+  { key: 'defaultDsoDays', label: 'DSO sin historial (días)' },
+  { key: 'targetDsoDays', label: 'DSO objetivo (días)' },
+  { key: 'vendorPaymentDays', label: 'Pago a proveedores (días)' }
+]
+
+export default function FinanceSettingsForm({
+  settings,
+  onSubmit,
+  onCancel
+}: {
+  settings: FinanceSettings
+  onSubmit: (values: FinanceSettingsValues) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState<FinanceSettingsValues>({
+    openingBalance: settings.openingBalance,
+    openingDate: settings.openingDate,
+    advancePercentage: settings.advancePercentage,
+    defaultDsoDays: settings.defaultDsoDays,
+    targetDsoDays: settings.targetDsoDays,
+    vendorPaymentDays: settings.vendorPaymentDays,
+    overhead: settings.overhead
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const updateOverhead = (index: number, changes: Partial<OverheadItem>) =>
+    setValues({ ...values, overhead: values.overhead.map((item, i) => (i === index ? { ...item, ...changes } : item)) })
+
+  const addOverhead = () =>
+    setValues({
+      ...values,
+      overhead: [
+        ...values.overhead,
+        { id: '', description: '', category: 'Gastos fijos', amount: 0, frequency: 'mensual', startDate: values.openingDate }
+      ]
+    })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit(values)
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const field = 'w-full py-2 px-3 bg-dark-surface border border-dark-border rounded-lg text-sm text-text-primary focus:ring-gold-500 focus:border-gold-500'
+
+  return (
+    <form onSubmit={handleSubmit} className="card space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-text-primary">Configuración de Caja</h2>
+        <p className="text-sm text-text-secondary">
+          Saldo en bancos a la fecha de corte; lo facturado o vencido antes de esa fecha ya está en el saldo
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <label className="text-sm text-text-secondary">
+          Saldo inicial (MXN)
+          <input
+            type="number"
+            className={field}
+            value={values.openingBalance}
+            onChange={(e) => setValues({ ...values, openingBalance: Number(e.target.value) })}
+          />
+        </label>
+        <label className="text-sm text-text-secondary">
+          Fecha de corte
+          <input
+            type="date"
+            required
+            className={field}
+            value={values.openingDate}
+            onChange={(e) => setValues({ ...values, openingDate: e.target.value })}
+          />
+        </label>
+        {TERM_FIELDS.map(({ key, label }) => (
+          <label key={key} className="text-sm text-text-secondary">
+            {label}
+            <input
+              type="number"
+              min={0}
+              max={key === 'advancePercentage' ? 100 : undefined}
+              className={field}
+              value={values[key]}
+              onChange={(e) => setValues({ ...values, [key]: Number(e.target.value) })}
+            />
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-text-primary">Gastos fijos recurrentes</h3>
+          <button type="button" className="btn-secondary text-xs px-3 py-1" onClick={addOverhead}>
+            <Plus className="h-3 w-3 mr-1" />
+            Agregar
+          </button>
+        </div>
+        {values.overhead.length === 0 && (
+          <p className="text-sm text-text-tertiary">Sin gastos fijos: agrega nómina, renta y servicios para proyectar la pista.</p>
+        )}
+        <div className="space-y-2">
+          {values.overhead.map((item, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <input
+                required
+                className={`${field} col-span-4`}
+                placeholder="Descripción"
+                value={item.description}
+                onChange={(e) => updateOverhead(index, { description: e.target.value })}
+              />
+              <input
+                className={`${field} col-span-2`}
+                placeholder="Categoría"
+                value={item.category}
+                onChange={(e) => updateOverhead(index, { category: e.target.value })}
+              />
+              <input
+                type="number"
+                min={1}
+                className={`${field} col-span-2`}
+                title="Monto (MXN)"
+                value={item.amount}
+                onChange={(e) => updateOverhead(index, { amount: Number(e.target.value) })}
+              />
+              <select
+                className={`${field} col-span-2`}
+                value={item.frequency}
+                onChange={(e) => updateOverhead(index, { frequency: e.target.value as OverheadItem['frequency'] })}
+              >
+                {(Object.keys(OVERHEAD_FREQUENCY_LABELS) as OverheadItem['frequency'][]).map((frequency) => (
+                  <option key={frequency} value={frequency}>{OVERHEAD_FREQUENCY_LABELS[frequency]}</option>
+                ))}
+              </select>
+              <input
+                type="date"
+                required
+                className={`${field} col-span-1`}
+                title="Primer pago"
+                value={item.startDate}
+                onChange={(e) => updateOverhead(index, { startDate: e.target.value })}
+              />
+              <button
+                type="button"
+                className="col-span-1 p-2 text-text-tertiary hover:text-danger-500"
+                onClick={() => setValues({ ...values, overhead: values.overhead.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-danger-500">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn-secondary" onClick={onCancel}>Cancelar</button>
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Guardando...' : 'Guardar configuración'}
+        </button>
+      </div>
+    </form>
+  )
+}
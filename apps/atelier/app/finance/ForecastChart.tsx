@@ -1,9 +1,8 @@
 'use client'
 
 import { useState } from 'react'
-import { LineChart, TrendingUp, Download, Info } from 'lucide-react'
-
-type Scenario = 'conservative' | 'base' | 'optimistic'
+import { LineChart, Download, Info } from 'lucide-react'
+import type { CashForecast } from '@/lib/finance/rules'
 
 type DataPoint = {
   date: string
@@ -13,72 +12,43 @@ type DataPoint = {
   p95?: number
 }
 
-const generateForecastData = (scenario: Scenario): DataPoint[] => {
-  const today = new Date()
-  const data: DataPoint[] = []
-
-  // Historical data (últimos 6 meses)
-  for (let i = 6; i > 0; i--) {
-    const date = new Date(today)
-    date.setMonth(date.getMonth() - i)
-    data.push({
-      date: date.toISOString().slice(0, 7),
-      actual: 1500000 + Math.random() * 500000
-    })
-  }
-
-  // Mes actual
-  data.push({
-    date: today.toISOString().slice(0, 7),
-    actual: 1850000
-  })
-
-  // Forecast (próximos 3 meses)
-  const growthRates = {
-    conservative: 0.02,
-    base: 0.05,
-    optimistic: 0.08
-  }
-
-  const growth = growthRates[scenario]
-  let baseValue = 1850000
-
-  for (let i = 1; i <= 3; i++) {
-    const date = new Date(today)
-    date.setMonth(date.getMonth() + i)
-    baseValue = baseValue * (1 + growth)
-
-    data.push({
-      date: date.toISOString().slice(0, 7),
-      forecast: baseValue,
-      p5: baseValue * 0.85,  // Percentil 5
-      p95: baseValue * 1.15  // Percentil 95
-    })
-  }
-
-  return data
-}
-
-export default function ForecastChart() {
-  const [scenario, setScenario] = useState<Scenario>('base')
+const VISIBLE_HISTORY = 8
+
+const formatMillions = (value: number) => `$${(value / 1000000).toFixed(1)}M`
+
+// Saldo real de las últimas semanas seguido del cierre proyectado de cada semana
+const toDataPoints = (forecast: CashForecast): DataPoint[] => [
+  ...(forecast.history.length > 0
+    ? forecast.history.slice(-VISIBLE_HISTORY)
+    : [{ weekStart: forecast.weeks[0].weekStart, balance: forecast.balance }]
+  ).map((p) => ({
+    date: p.weekStart,
+    actual: p.balance
+  })),
+  ...forecast.weeks.slice(1).map((w) => ({
+    date: w.weekStart,
+    forecast: w.closingBalance,
+    p5: w.p5,
+    p95: w.p95
+  }))
+]
+
+export default function ForecastChart({ forecast }: { forecast: CashForecast }) {
   const [showTooltip, setShowTooltip] = useState(false)
-  const data = generateForecastData(scenario)
 
-  const todayIndex = data.findIndex(d => d.actual && !d.forecast) || 6
-  const maxValue = Math.max(...data.map(d => d.actual || d.p95 || 0))
-  const minValue = Math.min(...data.filter(d => d.actual || d.p5).map(d => d.actual || d.p5 || Infinity))
+  const data = toDataPoints(forecast)
+  const todayIndex = data.filter((d) => d.actual !== undefined).length - 1
+  const maxValue = Math.max(0, ...data.map(d => d.actual ?? d.p95 ?? 0))
+  const minValue = Math.min(0, ...data.map(d => d.actual ?? d.p5 ?? 0))
 
   const getYPosition = (value: number) => {
-    const range = maxValue - minValue
+    const range = maxValue - minValue || 1
     const percentage = ((maxValue - value) / range) * 80 + 10
     return percentage
   }
 
-  const scenarios = {
-    conservative: { name: 'Conservador', color: 'warning', growth: '+2%/mes' },
-    base: { name: 'Base', color: 'cyan', growth: '+5%/mes' },
-    optimistic: { name: 'Optimista', color: 'success', growth: '+8%/mes' }
-  }
+  const x = (index: number) => 40 + (index * (720 / data.length))
+  const y = (value: number) => getYPosition(value) * 2.4 + 30
 
   const exportPDF = () => {
     window.print()
@@ -90,28 +60,14 @@ export default function ForecastChart() {
         <div className="flex items-center gap-3">
           <LineChart className="h-6 w-6 text-cyan-500" />
           <div>
-            <h2 className="text-xl font-semibold text-text-primary">Forecast de Ingresos</h2>
-            <p className="text-sm text-text-secondary">Proyección a 90 días con bandas de confianza</p>
+            <h2 className="text-xl font-semibold text-text-primary">Forecast de Caja a 13 Semanas</h2>
+            <p className="text-sm text-text-secondary">
+              Saldo semanal con cobranza a {forecast.dsoDays} días de la factura, pagos a proveedores y gastos fijos
+            </p>
           </div>
         </div>
 
         <div className="flex items-center gap-3">
-          <div className="flex items-center gap-2 bg-dark-surface rounded-lg p-1">
-            {(Object.keys(scenarios) as Scenario[]).map((key) => (
-              <button
-                key={key}
-                onClick={() => setScenario(key)}
-                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
-                  scenario === key
-                    ? `bg-${scenarios[key].color}-500/20 text-${scenarios[key].color}-500`
-                    : 'text-text-secondary hover:text-text-primary'
-                }`}
-              >
-                {scenarios[key].name}
-              </button>
-            ))}
-          </div>
-
           <button
             onClick={() => setShowTooltip(!showTooltip)}
             className="p-2 rounded-lg bg-dark-surface text-text-secondary hover:text-text-primary"
@@ -128,26 +84,33 @@ export default function ForecastChart() {
 
       {showTooltip && (
         <div className="mb-4 p-4 bg-violet-500/10 border border-violet-500/20 rounded-lg">
-          <h3 className="text-sm font-medium text-text-primary mb-2">Supuestos del Escenario {scenarios[scenario].name}</h3>
+          <h3 className="text-sm font-medium text-text-primary mb-2">Supuestos del forecast</h3>
           <ul className="text-sm text-text-secondary space-y-1">
-            <li>• Crecimiento mensual: {scenarios[scenario].growth}</li>
+            <li>
+              • DSO: {forecast.dsoDays} días{' '}
+              {forecast.observedDsoDays === null ? '(valor por defecto, aún sin cobros registrados)' : '(medido en cobros registrados)'}
+            </li>
+            <li>• Anticipo al aceptar y saldo por hito de cada fase del proyecto ligado</li>
             <li>• Banda de confianza: P5 - P95 (90% de probabilidad)</li>
-            <li>• Basado en tendencia histórica de 6 meses</li>
-            <li>• Considera estacionalidad y pipeline actual</li>
           </ul>
+          <p className="mt-2 text-xs text-text-tertiary">
+            {forecast.bands
+              ? `${forecast.bands.methodology} (${forecast.bands.observations} semanas de historial)`
+              : 'Sin banda: aún no hay suficientes semanas de saldo registrado.'}
+          </p>
         </div>
       )}
 
       <div className="relative h-80 bg-dark-surface/30 rounded-lg p-6">
         <svg className="w-full h-full" viewBox="0 0 800 300">
           {/* Grid lines */}
-          {[0, 25, 50, 75, 100].map((y) => (
+          {[0, 25, 50, 75, 100].map((line) => (
             <line
-              key={y}
+              key={line}
               x1="40"
-              y1={y * 2.4 + 30}
+              y1={line * 2.4 + 30}
               x2="760"
-              y2={y * 2.4 + 30}
+              y2={line * 2.4 + 30}
               stroke="currentColor"
               strokeWidth="1"
               className="text-dark-border"
@@ -156,42 +119,43 @@ export default function ForecastChart() {
           ))}
 
           {/* Y-axis labels */}
-          {[maxValue, maxValue * 0.75, maxValue * 0.5, maxValue * 0.25, 0].map((val, i) => (
+          {[0, 0.25, 0.5, 0.75, 1].map((share, i) => (
             <text
               key={i}
               x="30"
-              y={30 + i * 60}
+              y={y(maxValue - share * (maxValue - minValue)) + 4}
               className="text-xs fill-text-tertiary"
               textAnchor="end"
             >
-              ${(val / 1000000).toFixed(1)}M
+              {formatMillions(maxValue - share * (maxValue - minValue))}
             </text>
           ))}
 
+          {/* Saldo cero */}
+          {minValue < 0 && (
+            <line x1="40" y1={y(0)} x2="760" y2={y(0)} stroke="currentColor" strokeWidth="1" className="text-danger-500" />
+          )}
+
           {/* Banda P5-P95 (solo forecast) */}
-          {data.slice(todayIndex).length > 1 && (
+          {data.length - todayIndex > 1 && (
             <path
               d={`
-                M ${40 + (todayIndex * (720 / data.length))} ${getYPosition(data[todayIndex].actual || 0) * 2.4 + 30}
-                ${data.slice(todayIndex + 1).map((d, i) =>
-                  `L ${40 + ((todayIndex + 1 + i) * (720 / data.length))} ${getYPosition(d.p95 || 0) * 2.4 + 30}`
-                ).join(' ')}
-                ${data.slice(todayIndex + 1).reverse().map((d, i) =>
-                  `L ${40 + ((todayIndex + data.length - todayIndex - 1 - i) * (720 / data.length))} ${getYPosition(d.p5 || 0) * 2.4 + 30}`
-                ).join(' ')}
+                M ${x(todayIndex)} ${y(data[todayIndex].actual || 0)}
+                ${data.slice(todayIndex + 1).map((d, i) => `L ${x(todayIndex + 1 + i)} ${y(d.p95 || 0)}`).join(' ')}
+                ${data.slice(todayIndex + 1).reverse().map((d, i) => `L ${x(data.length - 1 - i)} ${y(d.p5 || 0)}`).join(' ')}
                 Z
               `}
               fill="currentColor"
-              className={`text-${scenarios[scenario].color}-500`}
+              className="text-cyan-500"
               opacity="0.15"
             />
           )}
 
           {/* Línea actual (histórico) */}
           <path
-            d={`M ${data.slice(0, todayIndex + 1).map((d, i) =>
-              `${i === 0 ? 'M' : 'L'} ${40 + (i * (720 / data.length))} ${getYPosition(d.actual || 0) * 2.4 + 30}`
-            ).join(' ')}`}
+            d={data.slice(0, todayIndex + 1).map((d, i) =>
+              `${i === 0 ? 'M' : 'L'} ${x(i)} ${y(d.actual || 0)}`
+            ).join(' ')}
             stroke="currentColor"
             strokeWidth="3"
             fill="none"
@@ -200,22 +164,20 @@ export default function ForecastChart() {
 
           {/* Línea punteada (forecast) */}
           <path
-            d={`M ${40 + (todayIndex * (720 / data.length))} ${getYPosition(data[todayIndex].actual || 0) * 2.4 + 30}
-              ${data.slice(todayIndex + 1).map((d, i) =>
-                `L ${40 + ((todayIndex + 1 + i) * (720 / data.length))} ${getYPosition(d.forecast || 0) * 2.4 + 30}`
-              ).join(' ')}`}
+            d={`M ${x(todayIndex)} ${y(data[todayIndex].actual || 0)}
+              ${data.slice(todayIndex + 1).map((d, i) => `L ${x(todayIndex + 1 + i)} ${y(d.forecast || 0)}`).join(' ')}`}
             stroke="currentColor"
             strokeWidth="3"
             fill="none"
             strokeDasharray="8 8"
-            className={`text-${scenarios[scenario].color}-500`}
+            className="text-cyan-500"
           />
 
           {/* Línea vertical "HOY" */}
           <line
-            x1={40 + (todayIndex * (720 / data.length))}
+            x1={x(todayIndex)}
             y1="30"
-            x2={40 + (todayIndex * (720 / data.length))}
+            x2={x(todayIndex)}
             y2="270"
             stroke="currentColor"
             strokeWidth="2"
@@ -224,7 +186,7 @@ export default function ForecastChart() {
           />
 
           <text
-            x={40 + (todayIndex * (720 / data.length))}
+            x={x(todayIndex)}
             y="20"
             className="text-xs fill-text-primary font-medium"
             textAnchor="middle"
@@ -237,7 +199,7 @@ export default function ForecastChart() {
             i % 2 === 0 && (
               <text
                 key={i}
-                x={40 + (i * (720 / data.length))}
+                x={x(i)}
                 y="290"
                 className="text-xs fill-text-tertiary"
                 textAnchor="middle"
@@ -251,11 +213,11 @@ export default function ForecastChart() {
           {data.map((d, i) => (
             <circle
               key={i}
-              cx={40 + (i * (720 / data.length))}
-              cy={getYPosition(d.actual || d.forecast || 0) * 2.4 + 30}
+              cx={x(i)}
+              cy={y(d.actual ?? d.forecast ?? 0)}
               r="4"
               fill="currentColor"
-              className={i <= todayIndex ? 'text-gold-500' : `text-${scenarios[scenario].color}-500`}
+              className={i <= todayIndex ? 'text-gold-500' : (d.forecast ?? 0) < 0 ? 'text-danger-500' : 'text-cyan-500'}
             />
           ))}
         </svg>
@@ -265,22 +227,22 @@ export default function ForecastChart() {
         <div className="flex items-center gap-6">
           <div className="flex items-center gap-2">
             <div className="w-8 h-0.5 bg-gold-500"></div>
-            <span className="text-sm text-text-secondary">Real</span>
+            <span className="text-sm text-text-secondary">Saldo real</span>
           </div>
           <div className="flex items-center gap-2">
-            <div className={`w-8 h-0.5 bg-${scenarios[scenario].color}-500`} style={{ backgroundImage: 'repeating-linear-gradient(to right, currentColor 0, currentColor 4px, transparent 4px, transparent 8px)' }}></div>
+            <div className="w-8 h-0.5 bg-cyan-500" style={{ backgroundImage: 'repeating-linear-gradient(to right, currentColor 0, currentColor 4px, transparent 4px, transparent 8px)' }}></div>
             <span className="text-sm text-text-secondary">Proyección</span>
           </div>
           <div className="flex items-center gap-2">
-            <div className={`w-8 h-3 bg-${scenarios[scenario].color}-500 opacity-15`}></div>
+            <div className="w-8 h-3 bg-cyan-500 opacity-15"></div>
             <span className="text-sm text-text-secondary">Banda P5-P95</span>
           </div>
         </div>
 
         <div className="text-sm text-text-secondary">
-          Próxima actualización: {new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toLocaleDateString('es-MX')}
+          Calculado: {new Date(forecast.asOf).toLocaleDateString('es-MX')}
         </div>
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
@@ -1,159 +1,148 @@
 'use client'
 
-import { useState } from 'react'
-import { FinanceMetric, CashFlowItem } from '@prime-growth-os/types'
+import { useEffect, useState } from 'react'
+import type { CashEntry, CashFlowItem, FinanceSettings, Project } from '@prime-growth-os/types'
 import {
   DollarSign,
-  TrendingUp,
   TrendingDown,
   Calendar,
   CreditCard,
-  PieChart,
-  BarChart3,
   ArrowUpRight,
   ArrowDownRight,
   Clock,
   AlertCircle,
-  LineChart
+  Settings,
+  Plus,
+  Trash2
 } from 'lucide-react'
+import type { CashForecast, FinanceAlert } from '@/lib/finance/rules'
 import ForecastChart from './ForecastChart'
+import FinanceSettingsForm, { type FinanceSettingsValues } from './FinanceSettingsForm'
+import CashEntryForm, { type CashEntryValues } from './CashEntryForm'
 
-// Mock data for finance metrics
-const mockFinanceMetrics: FinanceMetric[] = [
-  {
-    id: 'revenue-monthly',
-    name: 'Ingresos Mensuales',
-    value: 1850000,
-    target: 2000000,
-    period: 'Enero 2024',
-    trend: 'up',
-    category: 'revenue'
-  },
-  {
-    id: 'gross-margin',
-    name: 'Margen Bruto',
-    value: 28,
-    target: 35,
-    period: 'Enero 2024',
-    trend: 'down',
-    category: 'margin'
-  },
-  {
-    id: 'operating-cash-flow',
-    name: 'Flujo de Caja Operativo',
-    value: 425000,
-    target: 500000,
-    period: 'Enero 2024',
-    trend: 'up',
-    category: 'cash_flow'
-  },
-  {
-    id: 'accounts-receivable',
-    name: 'Cuentas por Cobrar',
-    value: 1250000,
-    target: 1000000,
-    period: 'Enero 2024',
-    trend: 'up',
-    category: 'cash_flow'
-  },
-  {
-    id: 'project-profitability',
-    name: 'Rentabilidad por Proyecto',
-    value: 22,
-    target: 30,
-    period: 'Enero 2024',
-    trend: 'stable',
-    category: 'efficiency'
-  },
-  {
-    id: 'overhead-ratio',
-    name: 'Ratio de Gastos Generales',
-    value: 18,
-    target: 15,
-    period: 'Enero 2024',
-    trend: 'up',
-    category: 'efficiency'
-  }
-]
+type UnlinkedQuote = { id: string; tier: string; totalPrice: number; decidedAt: string | null }
 
-const mockCashFlow: CashFlowItem[] = [
-  {
-    id: 'cf-001',
-    date: '2024-01-15',
-    description: 'Pago Proyecto Oficinas Reforma',
-    amount: 750000,
-    type: 'income',
-    category: 'Proyectos',
-    projectId: 'proj-001'
-  },
-  {
-    id: 'cf-002',
-    date: '2024-01-14',
-    description: 'Nómina Enero',
-    amount: -285000,
-    type: 'expense',
-    category: 'Personal'
-  },
-  {
-    id: 'cf-003',
-    date: '2024-01-12',
-    description: 'Compra Software Diseño',
-    amount: -45000,
-    type: 'expense',
-    category: 'Tecnología'
-  },
-  {
-    id: 'cf-004',
-    date: '2024-01-10',
-    description: 'Anticipo Casa Santa Fe',
-    amount: 320000,
-    type: 'income',
-    category: 'Proyectos',
-    projectId: 'proj-002'
-  },
-  {
-    id: 'cf-005',
-    date: '2024-01-08',
-    description: 'Renta Oficina',
-    amount: -65000,
-    type: 'expense',
-    category: 'Operación'
-  }
-]
+type FinanceData = {
+  settings: FinanceSettings
+  entries: CashEntry[]
+  forecast: CashForecast
+  unlinkedQuotes: UnlinkedQuote[]
+  projects: Pick<Project, 'id' | 'name' | 'quoteId'>[]
+}
+
+const RECENT_ENTRIES = 20
+
+const ALERT_STYLES: Record<FinanceAlert['severity'], string> = {
+  critical: 'bg-danger-500/10 border-danger-500/20 text-danger-500',
+  warning: 'bg-warning-500/10 border-warning-500/20 text-warning-500',
+  info: 'bg-cyan-500/10 border-cyan-500/20 text-cyan-500'
+}
+
+const formatMoney = (amount: number) => `$${Math.round(amount).toLocaleString('es-MX')}`
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('es-MX')
 
 export default function FinancePage() {
-  const [metrics] = useState<FinanceMetric[]>(mockFinanceMetrics)
-  const [cashFlow] = useState<CashFlowItem[]>(mockCashFlow)
-  const [selectedPeriod, setSelectedPeriod] = useState('month')
-  const [showForecast, setShowForecast] = useState(false)
+  const [data, setData] = useState<FinanceData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showSettings, setShowSettings] = useState(false)
+  const [showEntryForm, setShowEntryForm] = useState(false)
+
+  useEffect(() => {
+    loadFinance()
+  }, [])
 
-  const getTrendIcon = (trend: FinanceMetric['trend']) => {
-    switch (trend) {
-      case 'up':
-        return <TrendingUp className="h-4 w-4 text-success-500" />
-      case 'down':
-        return <TrendingDown className="h-4 w-4 text-danger-500" />
-      default:
-        return <div className="h-4 w-4 bg-text-tertiary rounded-full" />
+  const loadFinance = async () => {
+    try {
+      const res = await fetch('/api/finance')
+      const body = await res.json()
+      if (!res.ok) {
+        setError(body.error || 'No se pudo cargar el flujo de caja')
+        return
+      }
+      setData(body)
+      setError(null)
+    } catch (err) {
+      console.error('Failed to load finance:', err)
+      setError('No se pudo cargar el flujo de caja')
+    } finally {
+      setLoading(false)
     }
   }
 
-  const getMetricColor = (value: number, target: number, category: string) => {
-    const ratio = value / target
-    if (category === 'revenue' || category === 'cash_flow') {
-      if (ratio >= 0.95) return 'text-success-500'
-      if (ratio >= 0.8) return 'text-warning-500'
-      return 'text-danger-500'
-    } else {
-      if (ratio <= 1.05) return 'text-success-500'
-      if (ratio <= 1.2) return 'text-warning-500'
-      return 'text-danger-500'
-    }
+  // Every change moves the forecast, so it is recomputed on the server
+  const send = async (url: string, method: string, body: unknown, fallback: string) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    const result = await res.json()
+    if (!res.ok) return result.error || fallback
+    await loadFinance()
+    return null
+  }
+
+  const saveSettings = async (values: FinanceSettingsValues) => {
+    const failure = await send('/api/finance/settings', 'PATCH', values, 'No se pudo guardar la configuración')
+    if (!failure) setShowSettings(false)
+    return failure
   }
 
-  const totalIncome = cashFlow.filter(item => item.type === 'income').reduce((sum, item) => sum + item.amount, 0)
-  const totalExpenses = cashFlow.filter(item => item.type === 'expense').reduce((sum, item) => sum + Math.abs(item.amount), 0)
-  const netCashFlow = totalIncome - totalExpenses
+  const recordEntry = async (values: CashEntryValues) => {
+    const failure = await send('/api/finance/entries', 'POST', values, 'No se pudo registrar el movimiento')
+    if (!failure) setShowEntryForm(false)
+    return failure
+  }
+
+  const settleItem = async (item: CashFlowItem) => {
+    const failure = await send(
+      '/api/finance/entries',
+      'POST',
+      {
+        date: new Date().toISOString().slice(0, 10),
+        description: item.description,
+        amount: item.amount,
+        category: item.category,
+        projectId: item.projectId,
+        source: item.source
+      },
+      'No se pudo registrar el movimiento'
+    )
+    if (failure) setError(failure)
+  }
+
+  const removeEntry = async (entry: CashEntry) => {
+    const failure = await send(`/api/finance/entries/${entry.id}`, 'DELETE', undefined, 'No se pudo eliminar el movimiento')
+    if (failure) setError(failure)
+  }
+
+  const linkQuote = async (quoteId: string, projectId: string) => {
+    const failure = await send(`/api/projects/${projectId}`, 'PATCH', { quoteId }, 'No se pudo ligar la cotización')
+    if (failure) setError(failure)
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-text-primary">Dashboard Financiero</h1>
+        {loading && <p className="text-sm text-text-secondary">Calculando flujo de caja...</p>}
+        {error && (
+          <div className="p-4 bg-danger-500/10 border border-danger-500/20 rounded-lg text-sm text-danger-500">{error}</div>
+        )}
+      </div>
+    )
+  }
+
+  const { forecast, settings, entries, unlinkedQuotes, projects } = data
+  const today = new Date().toISOString().slice(0, 10)
+  const projectName = (id?: string) => projects.find((p) => p.id === id)?.name
+  const freeProjects = projects.filter((p) => !p.quoteId)
+  const horizonEnd = new Date(Date.parse(forecast.weeks[forecast.weeks.length - 1].weekStart) + 7 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10)
+  const upcoming = forecast.scheduled.filter((item) => item.date < horizonEnd)
 
   return (
     <div className="space-y-6">
@@ -162,183 +151,187 @@ export default function FinancePage() {
         <div>
           <h1 className="text-3xl font-bold text-text-primary">Dashboard Financiero</h1>
           <p className="text-text-secondary mt-2">
-            Análisis completo de métricas financieras y flujo de caja
+            Libro de caja y forecast a 13 semanas • saldo de corte al {formatDate(settings.openingDate)}
           </p>
         </div>
-        <div className="flex items-center space-x-4">
-          <select
-            value={selectedPeriod}
-            onChange={(e) => setSelectedPeriod(e.target.value)}
-            className="py-2 px-3 bg-dark-surface border border-dark-border rounded-lg text-text-primary focus:ring-gold-500 focus:border-gold-500"
-          >
-            <option value="week">Esta Semana</option>
-            <option value="month">Este Mes</option>
-            <option value="quarter">Este Trimestre</option>
-            <option value="year">Este Año</option>
-          </select>
-          <button
-            onClick={() => setShowForecast(!showForecast)}
-            className={showForecast ? "btn-primary" : "btn-secondary"}
-          >
-            <LineChart className="h-4 w-4 mr-2" />
-            Forecast
-          </button>
-          <button className="btn-secondary">
-            <PieChart className="h-4 w-4 mr-2" />
-            Generar Reporte
-          </button>
-        </div>
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={showSettings ? 'btn-primary' : 'btn-secondary'}
+        >
+          <Settings className="h-4 w-4 mr-2" />
+          Configuración
+        </button>
       </div>
 
-      {/* Forecast Chart */}
-      {showForecast && <ForecastChart />}
+      {error && (
+        <div className="p-4 bg-danger-500/10 border border-danger-500/20 rounded-lg text-sm text-danger-500">{error}</div>
+      )}
+
+      {showSettings && (
+        <FinanceSettingsForm settings={settings} onSubmit={saveSettings} onCancel={() => setShowSettings(false)} />
+      )}
+
+      {/* Financial Alerts */}
+      {forecast.alerts.length > 0 && (
+        <div className="space-y-2">
+          {forecast.alerts.map((alert, index) => (
+            <div key={index} className={`flex items-start space-x-3 p-4 border rounded-lg ${ALERT_STYLES[alert.severity]}`}>
+              <AlertCircle className="h-5 w-5 mt-0.5" />
+              <p className="text-sm text-text-primary">{alert.message}</p>
+            </div>
+          ))}
+        </div>
+      )}
 
       {/* Key Metrics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <div className="card border-l-4 border-success-500/50">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 bg-success-500 rounded-md flex items-center justify-center">
-                <ArrowUpRight className="h-4 w-4 text-white" />
-              </div>
-              <h3 className="text-lg font-semibold text-text-primary">Ingresos</h3>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <div className="card border-l-4 border-cyan-500/50">
+          <div className="flex items-center space-x-2 mb-4">
+            <div className="h-8 w-8 bg-cyan-500 rounded-md flex items-center justify-center">
+              <DollarSign className="h-4 w-4 text-white" />
             </div>
-            <TrendingUp className="h-5 w-5 text-success-500" />
+            <h3 className="text-lg font-semibold text-text-primary">Saldo Hoy</h3>
           </div>
-          <div className="space-y-2">
-            <p className="text-3xl font-bold text-text-primary">
-              ${totalIncome.toLocaleString('es-MX')}
-            </p>
-            <p className="text-sm text-text-secondary">+12% vs mes anterior</p>
-            <div className="w-full bg-dark-surface rounded-full h-2">
-              <div className="bg-success-500 h-2 rounded-full" style={{ width: '78%' }}></div>
+          <p className={`text-3xl font-bold ${forecast.balance >= 0 ? 'text-text-primary' : 'text-danger-500'}`}>
+            {formatMoney(forecast.balance)}
+          </p>
+          <p className="text-sm text-text-secondary mt-2">Mínimo proyectado: {formatMoney(forecast.lowestBalance)}</p>
+        </div>
+
+        <div className="card border-l-4 border-success-500/50">
+          <div className="flex items-center space-x-2 mb-4">
+            <div className="h-8 w-8 bg-success-500 rounded-md flex items-center justify-center">
+              <ArrowUpRight className="h-4 w-4 text-white" />
             </div>
+            <h3 className="text-lg font-semibold text-text-primary">Por Cobrar</h3>
           </div>
+          <p className="text-3xl font-bold text-text-primary">{formatMoney(forecast.receivables)}</p>
+          <p className={`text-sm mt-2 ${forecast.dsoDays > forecast.targetDsoDays ? 'text-warning-500' : 'text-text-secondary'}`}>
+            DSO {forecast.dsoDays} días (objetivo {forecast.targetDsoDays})
+          </p>
         </div>
 
         <div className="card border-l-4 border-danger-500/50">
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-2">
-              <div className="h-8 w-8 bg-danger-500 rounded-md flex items-center justify-center">
-                <ArrowDownRight className="h-4 w-4 text-white" />
-              </div>
-              <h3 className="text-lg font-semibold text-text-primary">Gastos</h3>
-            </div>
-            <TrendingDown className="h-5 w-5 text-danger-500" />
-          </div>
-          <div className="space-y-2">
-            <p className="text-3xl font-bold text-text-primary">
-              ${totalExpenses.toLocaleString('es-MX')}
-            </p>
-            <p className="text-sm text-text-secondary">-5% vs mes anterior</p>
-            <div className="w-full bg-dark-surface rounded-full h-2">
-              <div className="bg-danger-500 h-2 rounded-full" style={{ width: '65%' }}></div>
+          <div className="flex items-center space-x-2 mb-4">
+            <div className="h-8 w-8 bg-danger-500 rounded-md flex items-center justify-center">
+              <CreditCard className="h-4 w-4 text-white" />
             </div>
+            <h3 className="text-lg font-semibold text-text-primary">Por Pagar</h3>
           </div>
+          <p className="text-3xl font-bold text-text-primary">{formatMoney(forecast.payables)}</p>
+          <p className="text-sm text-text-secondary mt-2">Gastos fijos: {formatMoney(forecast.monthlyOverhead)}/mes</p>
         </div>
 
-        <div className={`card border-l-4 ${
-          netCashFlow >= 0 ? 'border-cyan-500/50' : 'border-warning-500/50'
-        }`}>
-          <div className="flex items-center justify-between mb-4">
-            <div className="flex items-center space-x-2">
-              <div className={`h-8 w-8 rounded-md flex items-center justify-center ${
-                netCashFlow >= 0 ? 'bg-cyan-500' : 'bg-warning-500'
-              }`}>
-                <DollarSign className="h-4 w-4 text-white" />
-              </div>
-              <h3 className="text-lg font-semibold text-text-primary">Flujo Neto</h3>
-            </div>
-            {netCashFlow >= 0 ?
-              <TrendingUp className="h-5 w-5 text-success-500" /> :
-              <TrendingDown className="h-5 w-5 text-danger-500" />
-            }
-          </div>
-          <div className="space-y-2">
-            <p className={`text-3xl font-bold ${
-              netCashFlow >= 0 ? 'text-text-primary' : 'text-danger-500'
-            }`}>
-              ${netCashFlow.toLocaleString('es-MX')}
-            </p>
-            <p className="text-sm text-text-secondary">
-              {netCashFlow >= 0 ? 'Flujo positivo' : 'Requiere atención'}
-            </p>
-            <div className="w-full bg-dark-surface rounded-full h-2">
-              <div className={`h-2 rounded-full ${
-                netCashFlow >= 0 ? 'bg-cyan-500' : 'bg-warning-500'
-              }`} style={{ width: netCashFlow >= 0 ? '85%' : '45%' }}></div>
+        <div className={`card border-l-4 ${forecast.runwayWeeks === null ? 'border-success-500/50' : 'border-danger-500/50'}`}>
+          <div className="flex items-center space-x-2 mb-4">
+            <div className={`h-8 w-8 rounded-md flex items-center justify-center ${forecast.runwayWeeks === null ? 'bg-success-500' : 'bg-danger-500'}`}>
+              <Calendar className="h-4 w-4 text-white" />
             </div>
+            <h3 className="text-lg font-semibold text-text-primary">Pista</h3>
           </div>
+          <p className={`text-3xl font-bold ${forecast.runwayWeeks === null ? 'text-text-primary' : 'text-danger-500'}`}>
+            {forecast.runwayWeeks === null ? `+${forecast.weeks.length} sem` : `${forecast.runwayWeeks} sem`}
+          </p>
+          <p className="text-sm text-text-secondary mt-2">
+            {forecast.pessimisticRunwayWeeks === null
+              ? 'Sin saldo negativo en P5'
+              : `P5 negativo en ${forecast.pessimisticRunwayWeeks} semanas`}
+          </p>
         </div>
       </div>
 
-      {/* Financial Metrics Grid */}
-      <div>
-        <h2 className="text-xl font-semibold text-text-primary mb-6">Métricas Financieras Detalladas</h2>
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {metrics.map((metric) => (
-            <div key={metric.id} className="card">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-sm font-medium text-text-primary">{metric.name}</h3>
-                <div className="flex items-center space-x-2">
-                  {getTrendIcon(metric.trend)}
-                </div>
-              </div>
+      {/* Forecast Chart */}
+      <ForecastChart forecast={forecast} />
 
-              <div className="mb-4">
-                <div className="flex items-baseline space-x-2">
-                  <span className={`text-2xl font-bold ${
-                    getMetricColor(metric.value, metric.target, metric.category)
-                  }`}>
-                    {metric.category === 'revenue' || metric.category === 'cash_flow' ?
-                      `$${metric.value.toLocaleString('es-MX')}` :
-                      `${metric.value}%`
-                    }
-                  </span>
-                </div>
-                <p className="text-sm text-text-secondary mt-1">{metric.period}</p>
-              </div>
+      {/* 13-week table */}
+      <div className="card overflow-hidden p-0">
+        <div className="px-6 py-4 border-b border-dark-border">
+          <h2 className="text-xl font-semibold text-text-primary">Flujo Semanal</h2>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-dark-border">
+            <thead>
+              <tr className="bg-dark-surface">
+                <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Semana</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">Entradas</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">Salidas</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">Neto</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">Saldo</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">P5 – P95</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-dark-border">
+              {forecast.weeks.map((week) => (
+                <tr key={week.weekStart} className="hover:bg-dark-surface/50 transition-colors">
+                  <td className="px-6 py-3 whitespace-nowrap text-sm text-text-primary">
+                    {formatDate(week.weekStart)}
+                    {week.overdue !== 0 && (
+                      <span className="ml-2 text-xs text-warning-500">incluye vencidos {formatMoney(week.overdue)}</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3 text-right text-sm text-success-500">{formatMoney(week.inflows)}</td>
+                  <td className="px-6 py-3 text-right text-sm text-danger-500">{formatMoney(week.outflows)}</td>
+                  <td className="px-6 py-3 text-right text-sm text-text-primary">{formatMoney(week.net)}</td>
+                  <td className={`px-6 py-3 text-right text-sm font-medium ${week.closingBalance < 0 ? 'text-danger-500' : 'text-text-primary'}`}>
+                    {formatMoney(week.closingBalance)}
+                  </td>
+                  <td className="px-6 py-3 text-right text-xs text-text-secondary">
+                    {forecast.bands ? `${formatMoney(week.p5)} – ${formatMoney(week.p95)}` : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
 
-              <div className="mb-4">
-                <div className="flex justify-between text-xs text-text-secondary mb-1">
-                  <span>Objetivo</span>
-                  <span>
-                    {Math.round((metric.value / metric.target) * 100)}% alcanzado
-                  </span>
-                </div>
-                <div className="w-full bg-dark-surface rounded-full h-2">
-                  <div
-                    className={`h-2 rounded-full transition-all duration-300 ${
-                      metric.value >= metric.target ? 'bg-success-500' :
-                      metric.value >= metric.target * 0.8 ? 'bg-warning-500' : 'bg-danger-500'
-                    }`}
-                    style={{ width: `${Math.min(100, (metric.value / metric.target) * 100)}%` }}
-                  ></div>
-                </div>
+      {/* Scheduled items */}
+      <div className="card overflow-hidden p-0">
+        <div className="px-6 py-4 border-b border-dark-border flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-text-primary">Cobros y Pagos Programados</h2>
+          <div className="flex items-center space-x-2">
+            <Clock className="h-4 w-4 text-text-tertiary" />
+            <span className="text-sm text-text-secondary">Próximas {forecast.weeks.length} semanas</span>
+          </div>
+        </div>
+        <div className="divide-y divide-dark-border">
+          {upcoming.length === 0 && (
+            <p className="px-6 py-4 text-sm text-text-tertiary">Nada programado: acepta cotizaciones, emite órdenes o registra gastos fijos.</p>
+          )}
+          {upcoming.map((item) => (
+            <div key={item.id} className="px-6 py-3 flex items-center justify-between hover:bg-dark-surface/50">
+              <div>
+                <p className="text-sm font-medium text-text-primary">{item.description}</p>
+                <p className="text-xs text-text-tertiary">
+                  {formatDate(item.date)}
+                  {item.date < today && <span className="text-warning-500"> · vencido</span>}
+                  {item.invoiceDate && ` · factura ${formatDate(item.invoiceDate)}`}
+                  {' · '}{item.category}
+                </p>
               </div>
-
-              <div className="text-xs text-text-tertiary">
-                Meta: {metric.category === 'revenue' || metric.category === 'cash_flow' ?
-                  `$${metric.target.toLocaleString('es-MX')}` :
-                  `${metric.target}%`
-                }
+              <div className="flex items-center space-x-4">
+                <span className={`text-sm font-medium ${item.amount > 0 ? 'text-success-500' : 'text-danger-500'}`}>
+                  {item.amount > 0 ? '+' : '-'}{formatMoney(Math.abs(item.amount))}
+                </span>
+                <button className="btn-secondary text-xs px-3 py-1" onClick={() => settleItem(item)}>
+                  {item.amount > 0 ? 'Marcar cobrado' : 'Marcar pagado'}
+                </button>
               </div>
             </div>
           ))}
         </div>
       </div>
 
-      {/* Cash Flow Table */}
+      {/* Recorded entries */}
       <div className="card overflow-hidden p-0">
-        <div className="px-6 py-4 border-b border-dark-border">
-          <div className="flex items-center justify-between">
-            <h2 className="text-xl font-semibold text-text-primary">Flujo de Caja Reciente</h2>
-            <div className="flex items-center space-x-2">
-              <Clock className="h-4 w-4 text-text-tertiary" />
-              <span className="text-sm text-text-secondary">Últimos 7 días</span>
-            </div>
-          </div>
+        <div className="px-6 py-4 border-b border-dark-border flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-text-primary">Movimientos Registrados</h2>
+          <button className="btn-secondary text-sm" onClick={() => setShowEntryForm(!showEntryForm)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Movimiento manual
+          </button>
         </div>
+        {showEntryForm && <CashEntryForm onSubmit={recordEntry} onCancel={() => setShowEntryForm(false)} />}
         <div className="overflow-x-auto">
           <table className="min-w-full divide-y divide-dark-border">
             <thead>
@@ -346,50 +339,41 @@ export default function FinancePage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Fecha</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Descripción</th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Categoría</th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-text-secondary uppercase tracking-wider">Tipo</th>
                 <th className="px-6 py-3 text-right text-xs font-medium text-text-secondary uppercase tracking-wider">Monto</th>
+                <th />
               </tr>
             </thead>
             <tbody className="divide-y divide-dark-border">
-              {cashFlow.map((item) => (
-                <tr key={item.id} className="hover:bg-dark-surface/50 transition-colors">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm text-text-primary">
-                      {new Date(item.date).toLocaleDateString('es-MX')}
-                    </div>
-                  </td>
+              {entries.length === 0 && (
+                <tr>
+                  <td colSpan={5} className="px-6 py-4 text-sm text-text-tertiary">Aún no hay movimientos registrados.</td>
+                </tr>
+              )}
+              {entries.slice(0, RECENT_ENTRIES).map((entry) => (
+                <tr key={entry.id} className="hover:bg-dark-surface/50 transition-colors">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-text-primary">{formatDate(entry.date)}</td>
                   <td className="px-6 py-4">
-                    <div className="text-sm font-medium text-text-primary">{item.description}</div>
-                    {item.projectId && (
-                      <div className="text-xs text-text-tertiary">Proyecto: {item.projectId}</div>
+                    <div className="text-sm font-medium text-text-primary">{entry.description}</div>
+                    {entry.projectId && (
+                      <div className="text-xs text-text-tertiary">Proyecto: {projectName(entry.projectId) || entry.projectId}</div>
                     )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="px-2 py-1 text-xs font-medium rounded-full bg-violet-500/10 text-violet-500">
-                      {item.category}
+                      {entry.category}
                     </span>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      {item.type === 'income' ? (
-                        <ArrowUpRight className="h-4 w-4 text-success-500 mr-1" />
-                      ) : (
-                        <ArrowDownRight className="h-4 w-4 text-danger-500 mr-1" />
-                      )}
-                      <span className={`text-sm font-medium ${
-                        item.type === 'income' ? 'text-success-500' : 'text-danger-500'
-                      }`}>
-                        {item.type === 'income' ? 'Ingreso' : 'Gasto'}
-                      </span>
-                    </div>
-                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right">
-                    <span className={`text-sm font-medium ${
-                      item.type === 'income' ? 'text-success-500' : 'text-danger-500'
-                    }`}>
-                      {item.type === 'income' ? '+' : '-'}${Math.abs(item.amount).toLocaleString('es-MX')}
+                    <span className={`text-sm font-medium inline-flex items-center ${entry.type === 'income' ? 'text-success-500' : 'text-danger-500'}`}>
+                      {entry.type === 'income' ? <ArrowUpRight className="h-4 w-4 mr-1" /> : <ArrowDownRight className="h-4 w-4 mr-1" />}
+                      {formatMoney(Math.abs(entry.amount))}
                     </span>
                   </td>
+                  <td className="px-6 py-4 text-right">
+                    <button className="text-text-tertiary hover:text-danger-500" title="Eliminar" onClick={() => removeEntry(entry)}>
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -397,41 +381,42 @@ export default function FinancePage() {
         </div>
       </div>
 
-      {/* Financial Alerts */}
-      <div className="card">
-        <h2 className="text-xl font-semibold text-text-primary mb-4">Alertas Financieras</h2>
-        <div className="space-y-4">
-          <div className="flex items-start space-x-3 p-4 bg-warning-500/10 border border-warning-500/20 rounded-lg">
-            <AlertCircle className="h-5 w-5 text-warning-500 mt-0.5" />
-            <div>
-              <h4 className="text-sm font-medium text-text-primary">DSO Elevado</h4>
-              <p className="text-sm text-text-secondary">
-                Los días de cobranza están por encima del objetivo. Revisar cuentas por cobrar pendientes.
-              </p>
-            </div>
-          </div>
-
-          <div className="flex items-start space-x-3 p-4 bg-danger-500/10 border border-danger-500/20 rounded-lg">
-            <AlertCircle className="h-5 w-5 text-danger-500 mt-0.5" />
-            <div>
-              <h4 className="text-sm font-medium text-text-primary">Margen Bajo Objetivo</h4>
-              <p className="text-sm text-text-secondary">
-                El margen bruto está 7 puntos porcentuales por debajo del objetivo. Revisar costos de proyectos.
-              </p>
-            </div>
+      {/* Accepted quotes without a project */}
+      {unlinkedQuotes.length > 0 && (
+        <div className="card">
+          <div className="flex items-center space-x-2 mb-4">
+            <TrendingDown className="h-5 w-5 text-warning-500" />
+            <h2 className="text-xl font-semibold text-text-primary">Cotizaciones Aceptadas sin Proyecto</h2>
           </div>
-
-          <div className="flex items-start space-x-3 p-4 bg-cyan-500/10 border border-cyan-500/20 rounded-lg">
-            <DollarSign className="h-5 w-5 text-cyan-500 mt-0.5" />
-            <div>
-              <h4 className="text-sm font-medium text-text-primary">Oportunidad de Inversión</h4>
-              <p className="text-sm text-text-secondary">
-                Flujo de caja positivo permite considerar inversiones en nuevas tecnologías o expansión.
-              </p>
-            </div>
+          <p className="text-sm text-text-secondary mb-4">
+            Liga cada cotización a su proyecto para facturar el saldo por hito de fase en lugar de la estimación.
+          </p>
+          <div className="divide-y divide-dark-border">
+            {unlinkedQuotes.map((quote) => (
+              <div key={quote.id} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-text-primary">{quote.id} · {quote.tier}</p>
+                  <p className="text-xs text-text-tertiary">
+                    {formatMoney(quote.totalPrice)}
+                    {quote.decidedAt && ` · aceptada ${new Date(quote.decidedAt).toLocaleDateString('es-MX')}`}
+                  </p>
+                </div>
+                <select
+                  className="py-2 px-3 bg-dark-surface border border-dark-border rounded-lg text-sm text-text-primary focus:ring-gold-500 focus:border-gold-500"
+                  value=""
+                  disabled={freeProjects.length === 0}
+                  onChange={(e) => e.target.value && linkQuote(quote.id, e.target.value)}
+                >
+                  <option value="">{freeProjects.length === 0 ? 'Sin proyectos libres' : 'Ligar a proyecto...'}</option>
+                  {freeProjects.map((p) => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
           </div>
         </div>
-      </div>
+      )}
     </div>
   )
-}
\ No newline at end of file
+}
@@ -0,0 +1,157 @@
+'use client'
+
+import { useState } from 'react'
+import type { Lead } from '@prime-growth-os/types'
+
+export type NewLeadValues = Pick<
+  Lead,
+  'company' | 'contact' | 'email' | 'phone' | 'projectType' | 'budget' | 'timeline' | 'source' | 'priority' | 'slaHours' | 'notes'
+>
+
+const SOURCES = ['Google Ads', 'Facebook Ads', 'LinkedIn Ads', 'Referido', 'Email Marketing', 'Orgánico', 'Directo']
+
+export default function NewLeadForm({
+  defaultSlaHours,
+  onSubmit,
+  onCancel
+}: {
+  defaultSlaHours: Record<Lead['priority'], number>
+  onSubmit: (values: NewLeadValues) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState<NewLeadValues>({
+    company: '',
+    contact: '',
+    email: '',
+    phone: '',
+    projectType: 'residencial',
+    budget: 0,
+    timeline: '',
+    source: SOURCES[0],
+    priority: 'media',
+    slaHours: defaultSlaHours.media,
+    notes: ''
+  })
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<NewLeadValues>) => setValues((current) => ({ ...current, ...changes }))
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit(values)
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const field = 'w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow-card border border-gray-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Nuevo Lead</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Empresa</label>
+          <input className={field} value={values.company} onChange={(e) => update({ company: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Contacto</label>
+          <input className={field} value={values.contact} onChange={(e) => update({ contact: e.target.value })} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Fuente</label>
+          <select className={field} value={values.source} onChange={(e) => update({ source: e.target.value })}>
+            {SOURCES.map((source) => (
+              <option key={source} value={source}>{source}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input type="email" className={field} value={values.email} onChange={(e) => update({ email: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+          <input className={field} value={values.phone} onChange={(e) => update({ phone: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tipo de proyecto</label>
+          <select
+            className={field}
+            value={values.projectType}
+            onChange={(e) => update({ projectType: e.target.value as Lead['projectType'] })}
+          >
+            <option value="residencial">Residencial</option>
+            <option value="comercial">Comercial</option>
+            <option value="institucional">Institucional</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Presupuesto (MXN)</label>
+          <input
+            type="number"
+            min={0}
+            className={field}
+            value={values.budget}
+            onChange={(e) => update({ budget: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Timeline</label>
+          <input
+            className={field}
+            placeholder="Q3 2025"
+            value={values.timeline}
+            onChange={(e) => update({ timeline: e.target.value })}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Prioridad</label>
+            <select
+              className={field}
+              value={values.priority}
+              onChange={(e) => {
+                const priority = e.target.value as Lead['priority']
+                update({ priority, slaHours: defaultSlaHours[priority] })
+              }}
+            >
+              <option value="alta">Alta</option>
+              <option value="media">Media</option>
+              <option value="baja">Baja</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">SLA (h)</label>
+            <input
+              type="number"
+              min={1}
+              className={field}
+              value={values.slaHours}
+              onChange={(e) => update({ slaHours: Number(e.target.value) })}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notas</label>
+        <textarea className={field} rows={2} value={values.notes} onChange={(e) => update({ notes: e.target.value })} />
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button type="button" className="btn-outline" onClick={onCancel}>
+          Cancelar
+        </button>
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Guardando...' : 'Crear Lead'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -1,115 +1,118 @@
 'use client'
 
-import { useState } from 'react'
-import { Lead } from '@prime-growth-os/types'
+import { useEffect, useState } from 'react'
+import type { Lead, LeadStatus } from '@prime-growth-os/types'
+import type { DealScore } from '@prime-growth-os/sgp'
 import {
   Search,
-  Filter,
   Plus,
   Clock,
   AlertTriangle,
   Phone,
   Mail,
-  MapPin,
   DollarSign,
-  Calendar,
-  User
+  User,
+  LayoutGrid,
+  List
 } from 'lucide-react'
+import {
+  LEAD_STATUSES,
+  LEAD_STATUS_LABELS,
+  DEFAULT_SLA_HOURS,
+  canTransition,
+  computeLeadSLA,
+  summarizeLeadSLA
+} from '@/lib/leads/sla'
+import NewLeadForm, { type NewLeadValues } from './NewLeadForm'
 
-// Mock data for leads
-const mockLeads: Lead[] = [
-  {
-    id: 'lead-001',
-    company: 'Constructora Reforma SA',
-    contact: 'Ana García Mendoza',
-    email: 'ana.garcia@reforma.mx',
-    phone: '+52 55 1234-5678',
-    projectType: 'comercial',
-    budget: 2500000,
-    timeline: 'Q2 2024',
-    source: 'Google Ads',
-    status: 'nuevo',
-    createdAt: '2024-01-15T09:30:00Z',
-    lastContact: '2024-01-15T09:30:00Z',
-    slaHours: 2,
-    priority: 'alta',
-    notes: 'Interesados en oficinas corporativas de 1,200 m2. Requieren certificación LEED.'
-  },
-  {
-    id: 'lead-002',
-    company: 'Familia Rodríguez',
-    contact: 'Carlos Rodríguez',
-    email: 'carlos.rod@gmail.com',
-    phone: '+52 55 9876-5432',
-    projectType: 'residencial',
-    budget: 850000,
-    timeline: 'Q3 2024',
-    source: 'Referido',
-    status: 'contactado',
-    createdAt: '2024-01-14T14:20:00Z',
-    lastContact: '2024-01-15T10:45:00Z',
-    slaHours: 18,
-    priority: 'media',
-    notes: 'Casa unifamiliar 280 m2. Presupuesto confirmado. Terreno ya adquirido en Santa Fe.'
-  },
-  {
-    id: 'lead-003',
-    company: 'Hotel Boutique Polanco',
-    contact: 'María Elena Vázquez',
-    email: 'mvazquez@hotelboutique.mx',
-    phone: '+52 55 2468-1357',
-    projectType: 'comercial',
-    budget: 4200000,
-    timeline: 'Q1 2025',
-    source: 'LinkedIn Ads',
-    status: 'propuesta',
-    createdAt: '2024-01-12T11:15:00Z',
-    lastContact: '2024-01-14T16:30:00Z',
-    slaHours: 72,
-    priority: 'alta',
-    notes: 'Renovación completa de hotel 45 habitaciones. Requieren renders y cronograma detallado.'
-  },
-  {
-    id: 'lead-004',
-    company: 'Universidad Tecnológica',
-    contact: 'Dr. Roberto Hernández',
-    email: 'rhernandez@unitec.edu.mx',
-    phone: '+52 55 3691-2580',
-    projectType: 'institucional',
-    budget: 8500000,
-    timeline: 'Q4 2024',
-    source: 'Email Marketing',
-    status: 'negociacion',
-    createdAt: '2024-01-10T08:45:00Z',
-    lastContact: '2024-01-15T09:00:00Z',
-    slaHours: 120,
-    priority: 'alta',
-    notes: 'Biblioteca central 2,500 m2. Proceso de licitación. Presentación programada para el 25 de enero.'
-  },
-  {
-    id: 'lead-005',
-    company: 'Desarrollo Los Cedros',
-    contact: 'Ing. Patricia Luna',
-    email: 'pluna@loscedros.mx',
-    phone: '+52 55 7410-8529',
-    projectType: 'residencial',
-    budget: 1200000,
-    timeline: 'Q3 2024',
-    source: 'Facebook Ads',
-    status: 'perdido',
-    createdAt: '2024-01-08T13:20:00Z',
-    lastContact: '2024-01-12T11:30:00Z',
-    slaHours: 96,
-    priority: 'baja',
-    notes: 'Desarrollo residencial 15 casas. Se perdió por precio. Competidor ofreció 20% menos.'
-  }
-]
+type View = 'kanban' | 'table'
+type SortOrder = 'recientes' | 'valor_esperado'
+type LeadScores = { trained: boolean; reason: string | null; leads: Record<string, DealScore> }
 
 export default function LeadsPage() {
-  const [leads] = useState<Lead[]>(mockLeads)
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [view, setView] = useState<View>('kanban')
+  const [showForm, setShowForm] = useState(false)
+  const [dragged, setDragged] = useState<Lead | null>(null)
+  const [now, setNow] = useState(() => new Date())
   const [searchTerm, setSearchTerm] = useState('')
   const [statusFilter, setStatusFilter] = useState('all')
   const [priorityFilter, setPriorityFilter] = useState('all')
+  const [sortOrder, setSortOrder] = useState<SortOrder>('recientes')
+  const [scores, setScores] = useState<LeadScores | null>(null)
+
+  useEffect(() => {
+    loadLeads()
+    loadScores()
+    // SLA timers tick every minute
+    const timer = setInterval(() => setNow(new Date()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  const loadLeads = async () => {
+    try {
+      const res = await fetch('/api/leads')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar los leads')
+        return
+      }
+      setLeads(data.leads || [])
+    } catch (err) {
+      console.error('Failed to load leads:', err)
+      setError('No se pudieron cargar los leads')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadScores = async () => {
+    try {
+      const res = await fetch('/api/leads/scores')
+      const data = await res.json()
+      if (res.ok) setScores(data)
+    } catch (err) {
+      console.error('Failed to load lead scores:', err)
+    }
+  }
+
+  const updateLead = async (lead: Lead, changes: Record<string, unknown>) => {
+    setError(null)
+    const res = await fetch(`/api/leads/${lead.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    })
+    const data = await res.json()
+    if (!res.ok) {
+      setError(data.error || 'No se pudo actualizar el lead')
+      return
+    }
+    setLeads((current) => current.map((l) => (l.id === lead.id ? data.lead : l)))
+    // Closing a lead adds a training outcome
+    if (changes.status === 'ganado' || changes.status === 'perdido') loadScores()
+  }
+
+  const createLead = async (values: NewLeadValues) => {
+    const res = await fetch('/api/leads', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo crear el lead'
+
+    setLeads((current) => [data.lead, ...current])
+    setShowForm(false)
+    loadScores()
+    return null
+  }
+
+  const moveLead = (lead: Lead, status: LeadStatus) => {
+    if (lead.status !== status) updateLead(lead, { status })
+  }
 
   const filteredLeads = leads.filter(lead => {
     const matchesSearch = lead.company.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -120,6 +123,14 @@ export default function LeadsPage() {
     return matchesSearch && matchesStatus && matchesPriority
   })
 
+  // Expected value = win probability × budget (or the open quote's total); unscored leads go last
+  const expectedValue = (lead: Lead) => scores?.leads[lead.id]?.expectedValue ?? -1
+  if (sortOrder === 'valor_esperado') {
+    filteredLeads.sort((a, b) => expectedValue(b) - expectedValue(a) || b.budget - a.budget)
+  }
+
+  const slaSummary = summarizeLeadSLA(leads, now)
+
   const getStatusColor = (status: Lead['status']) => {
     switch (status) {
       case 'nuevo': return 'bg-blue-100 text-blue-800'
@@ -141,15 +152,52 @@ export default function LeadsPage() {
     }
   }
 
+  const formatHours = (hours: number) =>
+    Math.abs(hours) < 1 ? `${Math.round(Math.abs(hours) * 60)} min` : `${Math.abs(hours).toFixed(1)} h`
+
   const getSLAStatus = (lead: Lead) => {
-    const hoursElapsed = Math.floor((Date.now() - new Date(lead.lastContact).getTime()) / (1000 * 60 * 60))
-    const remaining = lead.slaHours - hoursElapsed
+    const sla = computeLeadSLA(lead, now)
 
-    if (remaining <= 0) return { status: 'overdue', text: 'Vencido', color: 'text-red-600' }
-    if (remaining <= 4) return { status: 'urgent', text: `${remaining}h restantes`, color: 'text-orange-600' }
-    return { status: 'ok', text: `${remaining}h restantes`, color: 'text-green-600' }
+    switch (sla.state) {
+      case 'met':
+        return { ...sla, text: `Contactado en ${formatHours(sla.hoursToFirstContact!)}`, color: 'text-green-600' }
+      case 'breached':
+        return { ...sla, text: `Contactado tarde (${formatHours(sla.hoursToFirstContact!)})`, color: 'text-red-600' }
+      case 'overdue':
+        return { ...sla, text: `Vencido hace ${formatHours(sla.hoursRemaining!)}`, color: 'text-red-600' }
+      case 'at_risk':
+        return { ...sla, text: `${formatHours(sla.hoursRemaining!)} restantes`, color: 'text-orange-600' }
+      default:
+        return { ...sla, text: `${formatHours(sla.hoursRemaining!)} restantes`, color: 'text-green-600' }
+    }
   }
 
+  const scoreLabel = (score: DealScore) =>
+    score.topFeatures
+      .map((f) => `${f.direction === 'up' ? '▲' : '▼'} ${f.label}`)
+      .join('\n')
+
+  const contactActions = (lead: Lead) => (
+    <div className="flex items-center space-x-2">
+      <a
+        href={lead.phone ? `tel:${lead.phone}` : undefined}
+        onClick={() => updateLead(lead, { contacted: true })}
+        title="Registrar llamada"
+        className="text-primary-600 hover:text-primary-900 p-1 cursor-pointer"
+      >
+        <Phone className="h-4 w-4" />
+      </a>
+      <a
+        href={lead.email ? `mailto:${lead.email}` : undefined}
+        onClick={() => updateLead(lead, { contacted: true })}
+        title="Registrar correo"
+        className="text-primary-600 hover:text-primary-900 p-1 cursor-pointer"
+      >
+        <Mail className="h-4 w-4" />
+      </a>
+    </div>
+  )
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -157,18 +205,30 @@ export default function LeadsPage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Gestión de Leads</h1>
           <p className="text-gray-600 mt-2">
-            {filteredLeads.length} leads activos • {leads.filter(l => l.status === 'nuevo').length} nuevos • {leads.filter(l => getSLAStatus(l).status === 'urgent').length} urgentes
+            {leads.filter(l => l.status !== 'ganado' && l.status !== 'perdido').length} leads activos • {leads.filter(l => l.status === 'nuevo').length} nuevos • {slaSummary.atRisk} urgentes • {slaSummary.breaches} SLA vencidos
           </p>
         </div>
-        <button className="btn-primary">
+        <button className="btn-primary" onClick={() => setShowForm(!showForm)}>
           <Plus className="h-4 w-4 mr-2" />
           Nuevo Lead
         </button>
       </div>
 
+      {showForm && (
+        <NewLeadForm
+          defaultSlaHours={DEFAULT_SLA_HOURS}
+          onSubmit={createLead}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+      )}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Buscar</label>
             <div className="relative">
@@ -214,110 +274,230 @@ export default function LeadsPage() {
             </select>
           </div>
 
-          <div className="flex items-end">
-            <button className="btn-outline w-full">
-              <Filter className="h-4 w-4 mr-2" />
-              Más filtros
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Ordenar por</label>
+            <select
+              className="w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500"
+              value={sortOrder}
+              onChange={(e) => setSortOrder(e.target.value as SortOrder)}
+            >
+              <option value="recientes">Más recientes</option>
+              <option value="valor_esperado" disabled={!scores?.trained}>Valor esperado</option>
+            </select>
+            {scores && !scores.trained && (
+              <p className="text-xs text-gray-500 mt-1">{scores.reason}</p>
+            )}
+          </div>
+
+          <div className="flex items-end gap-2">
+            <button
+              className={`${view === 'kanban' ? 'btn-primary' : 'btn-outline'} flex-1`}
+              onClick={() => setView('kanban')}
+            >
+              <LayoutGrid className="h-4 w-4 mr-2" />
+              Kanban
+            </button>
+            <button
+              className={`${view === 'table' ? 'btn-primary' : 'btn-outline'} flex-1`}
+              onClick={() => setView('table')}
+            >
+              <List className="h-4 w-4 mr-2" />
+              Tabla
             </button>
           </div>
         </div>
       </div>
 
-      {/* Leads Table */}
-      <div className="bg-white rounded-lg shadow-card border border-gray-200 overflow-hidden">
-        <div className="overflow-x-auto">
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead>
-              <tr className="table-header">
-                <th className="px-6 py-3 text-left">Lead</th>
-                <th className="px-6 py-3 text-left">Proyecto</th>
-                <th className="px-6 py-3 text-left">Estado</th>
-                <th className="px-6 py-3 text-left">SLA</th>
-                <th className="px-6 py-3 text-left">Presupuesto</th>
-                <th className="px-6 py-3 text-left">Fuente</th>
-                <th className="px-6 py-3 text-left">Acciones</th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {filteredLeads.map((lead) => {
-                const slaStatus = getSLAStatus(lead)
-                return (
-                  <tr key={lead.id} className="table-row">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <div className="flex-shrink-0 h-10 w-10">
-                          <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center">
-                            <User className="h-5 w-5 text-gray-600" />
-                          </div>
+      {loading && <p className="text-sm text-gray-500">Cargando leads...</p>}
+      {!loading && leads.length === 0 && (
+        <p className="text-sm text-gray-500">Aún no hay leads. Registra el primero con &quot;Nuevo Lead&quot;.</p>
+      )}
+
+      {/* Kanban by status: drag a card to another column to move it */}
+      {view === 'kanban' && (
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {LEAD_STATUSES.map((status) => {
+            const column = filteredLeads.filter((l) => l.status === status)
+            const accepts = dragged !== null && dragged.status !== status && canTransition(dragged.status, status)
+
+            return (
+              <div
+                key={status}
+                onDragOver={(e) => {
+                  if (accepts) e.preventDefault()
+                }}
+                onDrop={() => {
+                  if (dragged && accepts) moveLead(dragged, status)
+                  setDragged(null)
+                }}
+                className={`rounded-lg border p-3 min-h-[12rem] ${
+                  accepts ? 'border-primary-400 bg-primary-50' : 'border-gray-200 bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3">
+                  <span className={`badge ${getStatusColor(status)}`}>{LEAD_STATUS_LABELS[status]}</span>
+                  <span className="text-xs text-gray-500">
+                    {column.length} • ${(column.reduce((sum, l) => sum + l.budget, 0) / 1000000).toFixed(1)}M
+                  </span>
+                </div>
+
+                <div className="space-y-3">
+                  {column.map((lead) => {
+                    const slaStatus = getSLAStatus(lead)
+                    return (
+                      <div
+                        key={lead.id}
+                        draggable
+                        onDragStart={() => setDragged(lead)}
+                        onDragEnd={() => setDragged(null)}
+                        className={`bg-white rounded-md shadow-sm border p-3 cursor-move ${
+                          slaStatus.breached ? 'border-red-300' : 'border-gray-200'
+                        }`}
+                      >
+                        <div className="text-sm font-medium text-gray-900">{lead.company}</div>
+                        <div className="text-xs text-gray-500">{lead.contact}</div>
+                        <div className="flex items-center justify-between mt-2">
+                          <span className={`text-xs font-medium ${getPriorityColor(lead.priority)}`}>
+                            {lead.priority.toUpperCase()}
+                          </span>
+                          <span className="text-xs text-gray-700">${lead.budget.toLocaleString('es-MX')}</span>
                         </div>
-                        <div className="ml-4">
-                          <div className="text-sm font-medium text-gray-900">{lead.company}</div>
-                          <div className="text-sm text-gray-500">{lead.contact}</div>
-                          <div className="flex items-center space-x-2 mt-1">
-                            <Mail className="h-3 w-3 text-gray-400" />
-                            <span className="text-xs text-gray-500">{lead.email}</span>
+                        {scores?.leads[lead.id] && (
+                          <div className="text-xs text-gray-500 mt-1" title={scoreLabel(scores.leads[lead.id])}>
+                            {(scores.leads[lead.id].probability * 100).toFixed(0)}% cierre • VE ${scores.leads[lead.id].expectedValue.toLocaleString('es-MX')}
                           </div>
+                        )}
+                        <div className="flex items-center justify-between mt-2">
+                          <span className={`inline-flex items-center text-xs ${slaStatus.color}`}>
+                            <Clock className="h-3 w-3 mr-1" />
+                            {slaStatus.text}
+                          </span>
+                          {contactActions(lead)}
                         </div>
                       </div>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900 capitalize">{lead.projectType}</div>
-                      <div className="text-sm text-gray-500">{lead.timeline}</div>
-                      <div className={`inline-flex items-center text-xs font-medium ${getPriorityColor(lead.priority)}`}>
-                        <AlertTriangle className="h-3 w-3 mr-1" />
-                        {lead.priority.toUpperCase()}
-                      </div>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`badge ${getStatusColor(lead.status)} capitalize`}>
-                        {lead.status}
-                      </span>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <Clock className="h-4 w-4 text-gray-400 mr-1" />
-                        <span className={`text-sm font-medium ${slaStatus.color}`}>
-                          {slaStatus.text}
-                        </span>
-                      </div>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center">
-                        <DollarSign className="h-4 w-4 text-gray-400 mr-1" />
-                        <span className="text-sm text-gray-900">
-                          ${lead.budget.toLocaleString('es-MX')}
-                        </span>
-                      </div>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="text-sm text-gray-500">{lead.source}</span>
-                    </td>
-
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <div className="flex items-center space-x-2">
-                        <button className="text-primary-600 hover:text-primary-900 p-1">
-                          <Phone className="h-4 w-4" />
-                        </button>
-                        <button className="text-primary-600 hover:text-primary-900 p-1">
-                          <Mail className="h-4 w-4" />
-                        </button>
-                        <button className="text-primary-600 hover:text-primary-900 p-1">
-                          <Calendar className="h-4 w-4" />
-                        </button>
-                      </div>
-                    </td>
-                  </tr>
-                )
-              })}
-            </tbody>
-          </table>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
         </div>
-      </div>
+      )}
+
+      {/* Leads Table */}
+      {view === 'table' && (
+        <div className="bg-white rounded-lg shadow-card border border-gray-200 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr className="table-header">
+                  <th className="px-6 py-3 text-left">Lead</th>
+                  <th className="px-6 py-3 text-left">Proyecto</th>
+                  <th className="px-6 py-3 text-left">Estado</th>
+                  <th className="px-6 py-3 text-left">SLA</th>
+                  <th className="px-6 py-3 text-left">Presupuesto</th>
+                  <th className="px-6 py-3 text-left">Prob. Cierre</th>
+                  <th className="px-6 py-3 text-left">Fuente</th>
+                  <th className="px-6 py-3 text-left">Acciones</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {filteredLeads.map((lead) => {
+                  const slaStatus = getSLAStatus(lead)
+                  return (
+                    <tr key={lead.id} className="table-row">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <div className="flex-shrink-0 h-10 w-10">
+                            <div className="h-10 w-10 rounded-full bg-gray-200 flex items-center justify-center">
+                              <User className="h-5 w-5 text-gray-600" />
+                            </div>
+                          </div>
+                          <div className="ml-4">
+                            <div className="text-sm font-medium text-gray-900">{lead.company}</div>
+                            <div className="text-sm text-gray-500">{lead.contact}</div>
+                            <div className="flex items-center space-x-2 mt-1">
+                              <Mail className="h-3 w-3 text-gray-400" />
+                              <span className="text-xs text-gray-500">{lead.email}</span>
+                            </div>
+                          </div>
+                        </div>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900 capitalize">{lead.projectType}</div>
+                        <div className="text-sm text-gray-500">{lead.timeline}</div>
+                        <div className={`inline-flex items-center text-xs font-medium ${getPriorityColor(lead.priority)}`}>
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          {lead.priority.toUpperCase()}
+                        </div>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <select
+                          value={lead.status}
+                          onChange={(e) => moveLead(lead, e.target.value as LeadStatus)}
+                          className={`badge ${getStatusColor(lead.status)} border-0`}
+                        >
+                          {LEAD_STATUSES.filter((s) => s === lead.status || canTransition(lead.status, s)).map((s) => (
+                            <option key={s} value={s}>{LEAD_STATUS_LABELS[s]}</option>
+                          ))}
+                        </select>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <Clock className="h-4 w-4 text-gray-400 mr-1" />
+                          <span className={`text-sm font-medium ${slaStatus.color}`}>
+                            {slaStatus.text}
+                          </span>
+                        </div>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex items-center">
+                          <DollarSign className="h-4 w-4 text-gray-400 mr-1" />
+                          <span className="text-sm text-gray-900">
+                            ${lead.budget.toLocaleString('es-MX')}
+                          </span>
+                        </div>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {scores?.leads[lead.id] ? (
+                          <div title={scoreLabel(scores.leads[lead.id])}>
+                            <div className="text-sm font-medium text-gray-900">
+                              {(scores.leads[lead.id].probability * 100).toFixed(0)}%
+                            </div>
+                            <div className="text-xs text-gray-500">
+                              VE ${scores.leads[lead.id].expectedValue.toLocaleString('es-MX')}
+                            </div>
+                            {scores.leads[lead.id].topFeatures[0] && (
+                              <div className="text-xs text-gray-400">
+                                {scores.leads[lead.id].topFeatures[0].direction === 'up' ? '▲' : '▼'} {scores.leads[lead.id].topFeatures[0].label}
+                              </div>
+                            )}
+                          </div>
+                        ) : (
+                          <span className="text-sm text-gray-400">—</span>
+                        )}
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="text-sm text-gray-500">{lead.source}</span>
+                      </td>
+
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        {contactActions(lead)}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
 
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
@@ -332,7 +512,7 @@ export default function LeadsPage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Nuevos Esta Semana</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {leads.filter(l => l.status === 'nuevo').length}
+                  {leads.filter(l => now.getTime() - new Date(l.createdAt).getTime() < 7 * 24 * 60 * 60 * 1000).length}
                 </dd>
               </dl>
             </div>
@@ -348,9 +528,14 @@ export default function LeadsPage() {
             </div>
             <div className="ml-5 w-0 flex-1">
               <dl>
-                <dt className="text-sm font-medium text-gray-500 truncate">SLA Crítico</dt>
+                <dt className="text-sm font-medium text-gray-500 truncate">Cumplimiento SLA</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {leads.filter(l => getSLAStatus(l).status === 'urgent').length}
+                  {slaSummary.compliance !== null ? `${Math.round(slaSummary.compliance)}%` : '—'}
+                </dd>
+                <dd className="text-xs text-gray-500">
+                  {slaSummary.avgHoursToFirstContact !== null
+                    ? `Primer contacto promedio: ${formatHours(slaSummary.avgHoursToFirstContact)}`
+                    : 'Sin contactos registrados'}
                 </dd>
               </dl>
             </div>
@@ -386,7 +571,7 @@ export default function LeadsPage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Conversión</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {Math.round((leads.filter(l => l.status === 'ganado').length / leads.length) * 100)}%
+                  {leads.length > 0 ? Math.round((leads.filter(l => l.status === 'ganado').length / leads.length) * 100) : 0}%
                 </dd>
               </dl>
             </div>
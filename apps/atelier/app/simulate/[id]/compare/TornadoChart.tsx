@@ -0,0 +1,141 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { analyzeSensitivity, leverImpact, unmodeledInputs, type SensitivityMetric } from '@prime-growth-os/engine'
+import type { SimulationData } from '@prime-growth-os/types'
+
+const METRIC_LABELS: Record<SensitivityMetric, string> = {
+  revenue: 'ingresos',
+  margin: 'margen',
+  receivables: 'cuentas por cobrar'
+}
+
+const MAX_ROWS = 10
+
+const formatMXN = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString('es-MX', { maximumFractionDigits: 0 })}`
+
+export default function TornadoChart({ data }: { data: SimulationData }) {
+  const [metric, setMetric] = useState<SensitivityMetric>('revenue')
+  const [perturbation, setPerturbation] = useState(0.1)
+
+  const analysis = useMemo(
+    () => analyzeSensitivity(data, { perturbation, rankBy: metric }),
+    [data, perturbation, metric]
+  )
+  const winRatePoint = useMemo(() => leverImpact(data, 'step2.winRate', 1), [data])
+
+  const base = analysis.baseline[metric]
+  const rows = analysis.results
+    .map((result) => ({
+      ...result,
+      lowDelta: result.low[metric] - base,
+      highDelta: result.high[metric] - base
+    }))
+    .filter((row) => row.lowDelta !== 0 || row.highDelta !== 0)
+  const inert = analysis.results.length - rows.length
+  const scale = Math.max(1, ...rows.map((row) => Math.max(Math.abs(row.lowDelta), Math.abs(row.highDelta))))
+  const pct = Math.round(perturbation * 100)
+
+  const bar = (delta: number, color: string) => {
+    const width = (Math.abs(delta) / scale) * 50
+    return (
+      <div
+        className={`absolute top-0 h-full ${color}`}
+        style={delta >= 0 ? { left: '50%', width: `${width}%` } : { right: '50%', width: `${width}%` }}
+      />
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6 mb-8">
+      <div className="flex justify-between items-center mb-4 print:hidden">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Sensibilidad (Tornado)</h2>
+          <p className="text-sm text-gray-600">
+            Cambio en {METRIC_LABELS[metric]} mensual al mover cada entrada ±{pct}% (escenario As-Is)
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={metric}
+            onChange={(e) => setMetric(e.target.value as SensitivityMetric)}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value="revenue">Ingresos</option>
+            <option value="margin">Margen</option>
+            <option value="receivables">Cuentas por cobrar</option>
+          </select>
+          <select
+            value={perturbation}
+            onChange={(e) => setPerturbation(Number(e.target.value))}
+            className="px-3 py-1 border border-gray-300 rounded-md text-sm"
+          >
+            <option value={0.05}>±5%</option>
+            <option value={0.1}>±10%</option>
+            <option value={0.2}>±20%</option>
+          </select>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Captura leads, win rate y tickets para calcular la sensibilidad.</p>
+      ) : (
+        <div className="space-y-2">
+          {rows.slice(0, MAX_ROWS).map((row) => (
+            <div key={row.path} className="grid grid-cols-12 items-center gap-3 text-sm">
+              <span className="col-span-3 text-gray-700 truncate" title={row.label}>{row.label}</span>
+              <span className="col-span-2 text-right text-gray-500">{formatMXN(Math.min(row.lowDelta, row.highDelta))}</span>
+              <div className="col-span-5 relative h-5 bg-gray-50">
+                {bar(row.lowDelta, 'bg-orange-300')}
+                {bar(row.highDelta, 'bg-blue-500')}
+                <div className="absolute top-0 h-full border-l border-gray-400" style={{ left: '50%' }} />
+              </div>
+              <span className="col-span-2 text-gray-500">+{formatMXN(Math.max(row.lowDelta, row.highDelta))}</span>
+            </div>
+          ))}
+          <div className="flex gap-4 pt-2 text-xs text-gray-500">
+            <span><span className="inline-block w-3 h-3 bg-orange-300 mr-1 align-middle" />Entrada -{pct}%</span>
+            <span><span className="inline-block w-3 h-3 bg-blue-500 mr-1 align-middle" />Entrada +{pct}%</span>
+            {inert > 0 && <span>{inert} entradas no mueven {METRIC_LABELS[metric]} en el modelo{metric !== 'receivables' && ' (DSO y anticipo solo mueven las cuentas por cobrar)'}</span>}
+          </div>
+        </div>
+      )}
+
+      <p className="mt-3 text-xs text-gray-500">
+        Fuera del modelo de embudo (no se analizan): {unmodeledInputs.map((input) => input.label).join(', ')}.
+      </p>
+
+      <div className="mt-6 pt-6 border-t border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 mb-3">¿Qué nos compra +1 punto de win rate?</h3>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Proyectos ganados/mes</div>
+            <div className="text-lg font-semibold text-gray-900">+{winRatePoint.delta.wins.toFixed(2)}</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Ingresos/mes</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMXN(winRatePoint.delta.revenue)}</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Margen/mes</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMXN(winRatePoint.delta.margin)}</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Cobranza del mes</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMXN(winRatePoint.delta.cashCollected)}</div>
+          </div>
+          <div className="border border-gray-200 rounded-lg p-3">
+            <div className="text-xs text-gray-500">Ingresos/año</div>
+            <div className="text-lg font-semibold text-gray-900">{formatMXN(winRatePoint.delta.revenue * 12)}</div>
+          </div>
+        </div>
+        {winRatePoint.bindingConstraint === 'delivery' && (
+          <p className="mt-3 text-sm text-orange-700">
+            La capacidad de entrega está saturada: cerrar más propuestas no se convierte en ingresos hasta ampliar el equipo.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
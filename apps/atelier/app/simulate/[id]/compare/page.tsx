@@ -1,115 +1,68 @@
 'use client'
 
 import { useEffect, useState } from 'react'
-import { useParams } from 'next/navigation'
+import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
+import { compareScenarios, type FunnelKPIDelta, type FunnelResult } from '@prime-growth-os/engine'
+import type { Simulation } from '@prime-growth-os/types'
+import TornadoChart from './TornadoChart'
 
-type SimulationData = {
-  id: string
-  type: 'baseline' | 'tobe'
-  data: any
-  createdAt: string
+type Comparison = {
+  simulation: Simulation
+  baseline: Simulation | null
+  tobe: Simulation | null
 }
 
-type KPI = {
-  name: string
-  baseline: number
-  tobe: number
-  unit: string
-  format: 'number' | 'currency' | 'percentage'
-  delta: number
-  deltaPercent: number
+const sumChannels = (values: Record<string, number>) =>
+  Object.values(values).reduce((a, b) => a + b, 0)
+
+const isImprovement = (kpi: FunnelKPIDelta) =>
+  kpi.direction === 'up' ? kpi.delta > 0 : kpi.delta < 0
+
+const formatDeltaPercent = (kpi: FunnelKPIDelta) =>
+  kpi.deltaPercent === null ? 'nuevo' : `${kpi.delta > 0 ? '+' : ''}${kpi.deltaPercent.toFixed(0)}%`
+
+const STAGE_LABELS: Record<string, string> = {
+  demand: 'Demanda (leads)',
+  appointments: 'Agenda de citas',
+  delivery: 'Capacidad de entrega'
 }
 
 export default function ComparePage() {
   const params = useParams()
-  const [simulation, setSimulation] = useState<SimulationData | null>(null)
-  const [kpis, setKpis] = useState<KPI[]>([])
+  const router = useRouter()
+  const [comparison, setComparison] = useState<Comparison | null>(null)
+  const [notFound, setNotFound] = useState(false)
 
   useEffect(() => {
-    const stored = localStorage.getItem(params.id as string)
-    if (stored) {
-      const sim = JSON.parse(stored)
-      setSimulation(sim)
-      calculateKPIs(sim.data)
-    }
+    fetch(`/api/simulations/${params.id}`)
+      .then(async (res) => {
+        if (!res.ok) {
+          setNotFound(true)
+          return
+        }
+        setComparison(await res.json())
+      })
+      .catch((error) => {
+        console.error('Failed to load simulation:', error)
+        setNotFound(true)
+      })
   }, [params.id])
 
-  const calculateKPIs = (data: any) => {
-    const totalLeads = Object.values(data.step1.leadsPerChannel).reduce((a: any, b: any) => a + b, 0) as number
-    const totalAppointments = totalLeads * (data.step1.showRate / 100)
-    const totalProposals = totalAppointments * (data.step2.winRate / 100)
-    const avgTicket = (data.step2.ticketByPackage.basic + data.step2.ticketByPackage.standard + data.step2.ticketByPackage.premium) / 3
-    const revenue = totalProposals * avgTicket
-    const marginAmount = revenue * (data.step4.margin / 100)
-
-    const baselineKPIs: KPI[] = [
-      {
-        name: 'Ingresos Mensuales',
-        baseline: revenue,
-        tobe: revenue * 1.35,
-        unit: 'MXN',
-        format: 'currency',
-        delta: revenue * 0.35,
-        deltaPercent: 35
-      },
-      {
-        name: 'Margen Neto',
-        baseline: data.step4.margin,
-        tobe: data.step4.margin + 8,
-        unit: '%',
-        format: 'percentage',
-        delta: 8,
-        deltaPercent: (8 / data.step4.margin) * 100
-      },
-      {
-        name: 'DSO',
-        baseline: data.step4.dso,
-        tobe: Math.max(data.step4.dso - 15, 30),
-        unit: 'días',
-        format: 'number',
-        delta: -15,
-        deltaPercent: (-15 / data.step4.dso) * 100
-      },
-      {
-        name: 'Capacidad Activa',
-        baseline: data.step3.activeCapacity,
-        tobe: data.step5.maxCapacity,
-        unit: 'proyectos',
-        format: 'number',
-        delta: data.step5.maxCapacity - data.step3.activeCapacity,
-        deltaPercent: ((data.step5.maxCapacity - data.step3.activeCapacity) / data.step3.activeCapacity) * 100
-      },
-      {
-        name: 'Win Rate',
-        baseline: data.step2.winRate,
-        tobe: Math.min(data.step2.winRate + 12, 100),
-        unit: '%',
-        format: 'percentage',
-        delta: 12,
-        deltaPercent: (12 / data.step2.winRate) * 100
-      },
-      {
-        name: 'OTIF',
-        baseline: data.step3.otif,
-        tobe: Math.min(data.step3.otif + 15, 100),
-        unit: '%',
-        format: 'percentage',
-        delta: 15,
-        deltaPercent: (15 / data.step3.otif) * 100
-      },
-      {
-        name: 'Speed-to-Lead',
-        baseline: data.step1.speedToLead,
-        tobe: Math.max(data.step1.speedToLead - 30, 5),
-        unit: 'min',
-        format: 'number',
-        delta: -30,
-        deltaPercent: (-30 / data.step1.speedToLead) * 100
-      }
-    ]
+  const duplicate = async () => {
+    const res = await fetch(`/api/simulations/${params.id}/duplicate`, { method: 'POST' })
+    if (res.ok) {
+      const result = await res.json()
+      router.push(`/simulate/${result.simulation.id}/compare`)
+    }
+  }
 
-    setKpis(baselineKPIs)
+  const remove = async () => {
+    if (!confirm('¿Eliminar esta simulación para todo el equipo?')) return
+    const res = await fetch(`/api/simulations/${params.id}`, { method: 'DELETE' })
+    if (res.ok) {
+      router.push('/simulate')
+    }
   }
 
   const formatValue = (value: number, format: string, unit: string) => {
@@ -119,7 +72,8 @@ export default function ComparePage() {
       case 'percentage':
         return `${value.toFixed(1)}${unit}`
       case 'number':
-        return `${Math.round(value)} ${unit}`
+        // Monthly wins and capacity are often fractional
+        return `${Math.abs(value) < 10 && !Number.isInteger(value) ? value.toFixed(1) : Math.round(value)} ${unit}`.trim()
       default:
         return `${value} ${unit}`
     }
@@ -129,7 +83,16 @@ export default function ComparePage() {
     window.print()
   }
 
-  if (!simulation) {
+  if (notFound) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center gap-4">
+        <div className="text-gray-500">Simulación no encontrada en tu organización</div>
+        <Link href="/simulate" className="text-blue-600 hover:underline">Ver simulaciones</Link>
+      </div>
+    )
+  }
+
+  if (!comparison) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
         <div className="text-gray-500">Cargando simulación...</div>
@@ -137,15 +100,60 @@ export default function ComparePage() {
     )
   }
 
+  const { simulation, baseline, tobe } = comparison
+  const paired = Boolean(baseline && tobe)
+  const baselineData = (baseline || simulation).data
+  const plannedData = (tobe || simulation).data
+  // Without a counterpart the scenario is compared against itself and only one column is shown
+  const result = compareScenarios(baselineData, plannedData)
+  const kpis = result.kpis
+
+  const funnelRows: Array<{ label: string; value: (f: FunnelResult) => number; format: string; unit: string }> = [
+    { label: 'Leads', value: (f) => f.leads, format: 'number', unit: '' },
+    { label: 'Citas realizadas', value: (f) => f.appointments, format: 'number', unit: '' },
+    { label: 'Propuestas', value: (f) => f.proposals, format: 'number', unit: '' },
+    { label: 'Proyectos ganados', value: (f) => f.wins, format: 'number', unit: '' },
+    { label: 'Ingresos', value: (f) => f.revenue, format: 'currency', unit: 'MXN' },
+    { label: 'Margen', value: (f) => f.marginAmount, format: 'currency', unit: 'MXN' },
+    { label: 'Cobranza del mes', value: (f) => f.cashCollected, format: 'currency', unit: 'MXN' }
+  ]
+
   return (
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-7xl mx-auto px-6">
         <div className="mb-8 flex justify-between items-center print:hidden">
           <div>
             <h1 className="text-3xl font-bold text-gray-900">Cuarzo: As-Is vs To-Be</h1>
-            <p className="mt-2 text-gray-600">Comparación de escenarios</p>
+            <p className="mt-2 text-gray-600">
+              {baseline && tobe
+                ? `${baseline.name} vs ${tobe.name}`
+                : `${simulation.name} · sin escenario pareado`}
+            </p>
+            <p className="text-sm text-gray-500">
+              Creada por {simulation.createdByName} el {new Date(simulation.createdAt).toLocaleDateString('es-MX')}
+            </p>
           </div>
           <div className="flex gap-4">
+            {!paired && (
+              <Link
+                href={`/simulate/new?pairWith=${simulation.id}`}
+                className="px-6 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+              >
+                {simulation.type === 'baseline' ? 'Crear To-Be' : 'Crear Baseline'}
+              </Link>
+            )}
+            <button
+              onClick={duplicate}
+              className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Duplicar
+            </button>
+            <button
+              onClick={remove}
+              className="px-6 py-2 border border-red-300 rounded-md text-red-700 hover:bg-red-50"
+            >
+              Eliminar
+            </button>
             <button
               onClick={exportPDF}
               className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
@@ -166,7 +174,7 @@ export default function ComparePage() {
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Cuarzo Hoy (As-Is)</h2>
             <div className="space-y-4">
               {kpis.map((kpi) => (
-                <div key={kpi.name} className="flex justify-between items-center">
+                <div key={kpi.key} className="flex justify-between items-center">
                   <span className="text-gray-600">{kpi.name}</span>
                   <span className="font-semibold text-gray-900">
                     {formatValue(kpi.baseline, kpi.format, kpi.unit)}
@@ -178,66 +186,113 @@ export default function ComparePage() {
 
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-xl font-semibold text-gray-900 mb-4">Cuarzo Meta (To-Be)</h2>
-            <div className="space-y-4">
+            {paired ? (
+              <div className="space-y-4">
+                {kpis.map((kpi) => (
+                  <div key={kpi.key} className="flex justify-between items-center">
+                    <span className="text-gray-600">{kpi.name}</span>
+                    <div className="flex items-center gap-3">
+                      <span className="font-semibold text-gray-900">
+                        {formatValue(kpi.tobe, kpi.format, kpi.unit)}
+                      </span>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${
+                          kpi.delta === 0
+                            ? 'bg-gray-100 text-gray-700'
+                            : isImprovement(kpi)
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {formatDeltaPercent(kpi)}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="text-gray-600 space-y-4">
+                <p>Esta simulación aún no tiene escenario {simulation.type === 'baseline' ? 'To-Be' : 'As-Is'} para comparar.</p>
+                <Link
+                  href={`/simulate/new?pairWith=${simulation.id}`}
+                  className="inline-block px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                >
+                  {simulation.type === 'baseline' ? 'Crear To-Be' : 'Crear Baseline'}
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {paired && (
+          <div className="bg-white rounded-lg shadow p-6 mb-8">
+            <h2 className="text-xl font-semibold text-gray-900 mb-6">Deltas y Mejoras</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               {kpis.map((kpi) => (
-                <div key={kpi.name} className="flex justify-between items-center">
-                  <span className="text-gray-600">{kpi.name}</span>
-                  <div className="flex items-center gap-3">
-                    <span className="font-semibold text-gray-900">
-                      {formatValue(kpi.tobe, kpi.format, kpi.unit)}
+                <div key={kpi.key} className="border border-gray-200 rounded-lg p-4">
+                  <div className="text-sm text-gray-600 mb-2">{kpi.name}</div>
+                  <div className="flex items-baseline gap-2">
+                    <span className={`text-2xl font-bold ${isImprovement(kpi) ? 'text-green-600' : kpi.delta === 0 ? 'text-gray-500' : 'text-red-600'}`}>
+                      {formatDeltaPercent(kpi)}
                     </span>
-                    <span
-                      className={`px-2 py-1 rounded text-xs font-medium ${
-                        kpi.delta > 0
-                          ? 'bg-green-100 text-green-800'
-                          : 'bg-red-100 text-red-800'
-                      }`}
-                    >
-                      {kpi.delta > 0 ? '+' : ''}{kpi.deltaPercent.toFixed(0)}%
+                    <span className="text-sm text-gray-500">
+                      ({kpi.delta > 0 ? '+' : kpi.delta < 0 ? '-' : ''}{formatValue(Math.abs(kpi.delta), kpi.format, kpi.unit)})
                     </span>
                   </div>
                 </div>
               ))}
             </div>
           </div>
-        </div>
+        )}
 
         <div className="bg-white rounded-lg shadow p-6 mb-8">
-          <h2 className="text-xl font-semibold text-gray-900 mb-6">Deltas y Mejoras</h2>
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-            {kpis.map((kpi) => (
-              <div key={kpi.name} className="border border-gray-200 rounded-lg p-4">
-                <div className="text-sm text-gray-600 mb-2">{kpi.name}</div>
-                <div className="flex items-baseline gap-2">
-                  <span className={`text-2xl font-bold ${kpi.delta > 0 ? 'text-green-600' : 'text-red-600'}`}>
-                    {kpi.delta > 0 ? '+' : ''}{kpi.deltaPercent.toFixed(0)}%
-                  </span>
-                  <span className="text-sm text-gray-500">
-                    ({kpi.delta > 0 ? '+' : ''}{formatValue(Math.abs(kpi.delta), kpi.format, kpi.unit)})
-                  </span>
-                </div>
-              </div>
-            ))}
-          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Embudo Mensual</h2>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2">Etapa</th>
+                <th className="py-2 text-right">As-Is</th>
+                {paired && <th className="py-2 text-right">To-Be</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {funnelRows.map((row) => (
+                <tr key={row.label}>
+                  <td className="py-2 text-gray-600">{row.label}</td>
+                  <td className="py-2 text-right font-medium text-gray-900">
+                    {formatValue(row.value(result.baseline), row.format, row.unit)}
+                  </td>
+                  {paired && (
+                    <td className="py-2 text-right font-medium text-gray-900">
+                      {formatValue(row.value(result.tobe), row.format, row.unit)}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
         </div>
 
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-6 mb-8">
-          <h2 className="text-lg font-semibold text-blue-900 mb-3">Alertas de Capacidad</h2>
+          <h2 className="text-lg font-semibold text-blue-900 mb-3">Restricción Activa</h2>
           <div className="space-y-2">
-            {simulation.data.step5.maxCapacity > simulation.data.step3.activeCapacity && (
-              <div className="flex items-start gap-2">
-                <span className="text-blue-600">⚠️</span>
+            {(paired
+              ? [{ label: 'As-Is', funnel: result.baseline }, { label: 'To-Be', funnel: result.tobe }]
+              : [{ label: 'As-Is', funnel: result.baseline }]
+            ).map(({ label, funnel }) => (
+              <div key={label} className="flex items-start gap-2">
+                <span className="text-blue-600">{funnel.bindingConstraint.stage === 'demand' ? '📈' : '⚠️'}</span>
                 <p className="text-sm text-blue-800">
-                  Se requiere aumentar capacidad de {simulation.data.step3.activeCapacity} a {simulation.data.step5.maxCapacity} proyectos
-                  para mantener el compromiso de propuestas en 72h
+                  <span className="font-medium">{label} · {STAGE_LABELS[funnel.bindingConstraint.stage]}:</span>{' '}
+                  {funnel.bindingConstraint.description}
                 </p>
               </div>
-            )}
-            {simulation.data.step2.proposalsUnder72h < 90 && (
+            ))}
+            {baselineData.step2.proposalsUnder72h < 90 && (
               <div className="flex items-start gap-2">
                 <span className="text-blue-600">💡</span>
                 <p className="text-sm text-blue-800">
-                  Actualmente solo {simulation.data.step2.proposalsUnder72h}% de propuestas se entregan en ≤72h.
+                  Actualmente solo {baselineData.step2.proposalsUnder72h}% de propuestas se entregan en ≤72h.
                   Meta: 90%+
                 </p>
               </div>
@@ -245,43 +300,45 @@ export default function ComparePage() {
           </div>
         </div>
 
+        <TornadoChart data={baselineData} />
+
         <div className="bg-white rounded-lg shadow p-6 print:block">
           <h2 className="text-xl font-semibold text-gray-900 mb-4">SpendPlan Recomendado</h2>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="text-sm text-gray-600 mb-1">Meta Ads</div>
               <div className="text-lg font-semibold text-gray-900">
-                ${simulation.data.step5.budgetByChannel.meta.toLocaleString('es-MX')}
+                ${plannedData.step5.budgetByChannel.meta.toLocaleString('es-MX')}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                {simulation.data.step1.leadsPerChannel.meta} leads
+                {plannedData.step1.leadsPerChannel.meta} leads
               </div>
             </div>
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="text-sm text-gray-600 mb-1">Google Ads</div>
               <div className="text-lg font-semibold text-gray-900">
-                ${simulation.data.step5.budgetByChannel.google.toLocaleString('es-MX')}
+                ${plannedData.step5.budgetByChannel.google.toLocaleString('es-MX')}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                {simulation.data.step1.leadsPerChannel.google} leads
+                {plannedData.step1.leadsPerChannel.google} leads
               </div>
             </div>
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="text-sm text-gray-600 mb-1">Referral</div>
               <div className="text-lg font-semibold text-gray-900">
-                ${simulation.data.step5.budgetByChannel.referral.toLocaleString('es-MX')}
+                ${plannedData.step5.budgetByChannel.referral.toLocaleString('es-MX')}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                {simulation.data.step1.leadsPerChannel.referral} leads
+                {plannedData.step1.leadsPerChannel.referral} leads
               </div>
             </div>
             <div className="border border-gray-200 rounded-lg p-4">
               <div className="text-sm text-gray-600 mb-1">Orgánico</div>
               <div className="text-lg font-semibold text-gray-900">
-                ${simulation.data.step5.budgetByChannel.organic.toLocaleString('es-MX')}
+                ${plannedData.step5.budgetByChannel.organic.toLocaleString('es-MX')}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                {simulation.data.step1.leadsPerChannel.organic} leads
+                {plannedData.step1.leadsPerChannel.organic} leads
               </div>
             </div>
           </div>
@@ -289,7 +346,7 @@ export default function ComparePage() {
             <div className="flex justify-between items-center">
               <span className="text-gray-600">Budget Total Mensual</span>
               <span className="text-xl font-bold text-gray-900">
-                ${Object.values(simulation.data.step5.budgetByChannel).reduce((a: any, b: any) => a + b, 0).toLocaleString('es-MX')} MXN
+                ${sumChannels(plannedData.step5.budgetByChannel).toLocaleString('es-MX')} MXN
               </span>
             </div>
           </div>
@@ -1,39 +1,8 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
-
-type SimulationData = {
-  step1: {
-    leadsPerChannel: { meta: number; google: number; referral: number; organic: number }
-    speedToLead: number
-    showRate: number
-    appointmentsPerDay: number
-  }
-  step2: {
-    timeToProposal: number
-    proposalsUnder72h: number
-    winRate: number
-    ticketByPackage: { basic: number; standard: number; premium: number }
-    revisions: number
-  }
-  step3: {
-    activeCapacity: number
-    otif: number
-    rework: number
-    tradesWithPlanB: number
-  }
-  step4: {
-    dso: number
-    margin: number
-    advance: number
-  }
-  step5: {
-    budgetByChannel: { meta: number; google: number; referral: number; organic: number }
-    targetLeads: number
-    maxCapacity: number
-  }
-}
+import type { ScenarioType, SimulationData } from '@prime-growth-os/types'
 
 const initialData: SimulationData = {
   step1: {
@@ -70,9 +39,29 @@ const initialData: SimulationData = {
 export default function NewSimulationPage() {
   const [currentStep, setCurrentStep] = useState(1)
   const [data, setData] = useState<SimulationData>(initialData)
-  const [scenarioType, setScenarioType] = useState<'baseline' | 'tobe'>('baseline')
+  const [scenarioType, setScenarioType] = useState<ScenarioType>('baseline')
+  const [name, setName] = useState('')
+  const [pairWith, setPairWith] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
   const router = useRouter()
 
+  // ?pairWith=<id> starts the counterpart scenario from the saved one's numbers
+  useEffect(() => {
+    const partnerId = new URLSearchParams(window.location.search).get('pairWith')
+    if (!partnerId) return
+
+    fetch(`/api/simulations/${partnerId}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => {
+        if (!result?.simulation) return
+        setPairWith(result.simulation.id)
+        setScenarioType(result.simulation.type === 'baseline' ? 'tobe' : 'baseline')
+        setData(result.simulation.data)
+      })
+      .catch((err) => console.error('Failed to load paired simulation:', err))
+  }, [])
+
   const updateStep = (step: number, values: any) => {
     setData(prev => ({ ...prev, [`step${step}`]: { ...prev[`step${step}` as keyof SimulationData], ...values } }))
   }
@@ -92,18 +81,29 @@ export default function NewSimulationPage() {
   }
 
   const saveSimulation = async () => {
-    const simulationId = `sim-${Date.now()}`
+    setSaving(true)
+    setError(null)
 
-    const simulationData = {
-      id: simulationId,
-      type: scenarioType,
-      data,
-      createdAt: new Date().toISOString()
-    }
+    try {
+      const res = await fetch('/api/simulations', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type: scenarioType, data, pairWith })
+      })
+      const result = await res.json()
 
-    localStorage.setItem(simulationId, JSON.stringify(simulationData))
+      if (!res.ok) {
+        setError(result.error || 'No se pudo guardar la simulación')
+        return
+      }
 
-    router.push(`/simulate/${simulationId}/compare`)
+      router.push(`/simulate/${result.simulation.id}/compare`)
+    } catch (err) {
+      console.error('Failed to save simulation:', err)
+      setError('No se pudo guardar la simulación')
+    } finally {
+      setSaving(false)
+    }
   }
 
   return (
@@ -118,6 +118,31 @@ export default function NewSimulationPage() {
           </p>
         </div>
 
+        <div className="mb-8 bg-white rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+            <input
+              type="text"
+              value={name}
+              placeholder={scenarioType === 'baseline' ? 'Cuarzo Hoy (As-Is)' : 'Cuarzo Meta (To-Be)'}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Escenario</label>
+            <select
+              value={scenarioType}
+              disabled={pairWith !== null}
+              onChange={(e) => setScenarioType(e.target.value as ScenarioType)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md disabled:bg-gray-100"
+            >
+              <option value="baseline">Baseline (As-Is)</option>
+              <option value="tobe">Meta (To-Be)</option>
+            </select>
+          </div>
+        </div>
+
         <div className="mb-8">
           <div className="flex items-center justify-between">
             {[1, 2, 3, 4, 5].map((step) => (
@@ -151,6 +176,12 @@ export default function NewSimulationPage() {
           {currentStep === 4 && <Step4 data={data.step4} onChange={(v) => updateStep(4, v)} />}
           {currentStep === 5 && <Step5 data={data.step5} onChange={(v) => updateStep(5, v)} />}
 
+          {error && (
+            <div className="mt-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
           <div className="mt-8 flex justify-between">
             <button
               onClick={handleBack}
@@ -161,9 +192,10 @@ export default function NewSimulationPage() {
             </button>
             <button
               onClick={handleNext}
-              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+              disabled={saving}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
             >
-              {currentStep === 5 ? 'Finalizar' : 'Siguiente'}
+              {currentStep === 5 ? (saving ? 'Guardando...' : 'Finalizar') : 'Siguiente'}
             </button>
           </div>
         </div>
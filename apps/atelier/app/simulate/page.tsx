@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { Simulation } from '@prime-growth-os/types'
+
+export default function SimulationsPage() {
+  const [simulations, setSimulations] = useState<Simulation[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadSimulations()
+  }, [])
+
+  const loadSimulations = async () => {
+    try {
+      const res = await fetch('/api/simulations')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar las simulaciones')
+        return
+      }
+      setSimulations(data.simulations || [])
+    } catch (err) {
+      console.error('Failed to load simulations:', err)
+      setError('No se pudieron cargar las simulaciones')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const duplicate = async (id: string) => {
+    const res = await fetch(`/api/simulations/${id}/duplicate`, { method: 'POST' })
+    if (res.ok) loadSimulations()
+  }
+
+  const remove = async (simulation: Simulation) => {
+    if (!confirm(`¿Eliminar "${simulation.name}" para todo el equipo?`)) return
+    const res = await fetch(`/api/simulations/${simulation.id}`, { method: 'DELETE' })
+    if (res.ok) loadSimulations()
+  }
+
+  const nameOf = (id: string | null) => simulations.find((s) => s.id === id)?.name
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8">
+      <div className="max-w-7xl mx-auto px-6">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Simulaciones</h1>
+            <p className="mt-2 text-gray-600">Escenarios As-Is / To-Be compartidos con tu organización</p>
+          </div>
+          <Link
+            href="/simulate/new"
+            className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Nueva Simulación
+          </Link>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">
+            {error}
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow overflow-hidden">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Nombre</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Escenario</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Pareada con</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Creada por</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Fecha</th>
+                <th className="px-6 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {loading && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Cargando simulaciones...</td>
+                </tr>
+              )}
+              {!loading && simulations.length === 0 && (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Aún no hay simulaciones guardadas</td>
+                </tr>
+              )}
+              {simulations.map((simulation) => (
+                <tr key={simulation.id}>
+                  <td className="px-6 py-4">
+                    <Link href={`/simulate/${simulation.id}/compare`} className="font-medium text-blue-600 hover:underline">
+                      {simulation.name}
+                    </Link>
+                  </td>
+                  <td className="px-6 py-4">
+                    <span
+                      className={`px-2 py-1 rounded text-xs font-medium ${
+                        simulation.type === 'baseline' ? 'bg-gray-100 text-gray-700' : 'bg-green-100 text-green-800'
+                      }`}
+                    >
+                      {simulation.type === 'baseline' ? 'As-Is' : 'To-Be'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{nameOf(simulation.pairedWith) || '—'}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">{simulation.createdByName}</td>
+                  <td className="px-6 py-4 text-sm text-gray-600">
+                    {new Date(simulation.createdAt).toLocaleDateString('es-MX')}
+                  </td>
+                  <td className="px-6 py-4 text-right text-sm space-x-3 whitespace-nowrap">
+                    {!simulation.pairedWith && (
+                      <Link href={`/simulate/new?pairWith=${simulation.id}`} className="text-blue-600 hover:underline">
+                        Parear
+                      </Link>
+                    )}
+                    <button onClick={() => duplicate(simulation.id)} className="text-gray-600 hover:underline">
+                      Duplicar
+                    </button>
+                    <button onClick={() => remove(simulation)} className="text-red-600 hover:underline">
+                      Eliminar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+'use client'
+
+import { useState } from 'react'
+import type { CapacityPlan, MemberWeekLoad } from '@prime-growth-os/sgp'
+import type { Project } from '@prime-growth-os/types'
+import { AlertTriangle, CalendarClock, CheckCircle, Users } from 'lucide-react'
+
+// Dates arrive as ISO strings from the API
+const formatDay = (value: Date | string) =>
+  new Date(value).toLocaleDateString('es-MX', { timeZone: 'UTC', day: 'numeric', month: 'short', year: 'numeric' })
+
+export default function CapacityPanel({
+  plan,
+  projects,
+  onApplyShift
+}: {
+  plan: CapacityPlan
+  projects: Project[]
+  onApplyShift: (projectId: string, startDate: string) => Promise<string | null>
+}) {
+  const [saving, setSaving] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name || id
+  const overAllocations = plan.requested.overAllocations
+  const byMember = new Map<string, MemberWeekLoad[]>()
+  overAllocations.forEach((load) => byMember.set(load.member, [...(byMember.get(load.member) || []), load]))
+  const shifts = plan.shifts.filter((s) => s.shiftWeeks > 0 || !s.feasible)
+
+  const apply = async (projectId: string, start: Date | string) => {
+    setSaving(projectId)
+    setError(null)
+    const failure = await onApplyShift(projectId, new Date(start).toISOString().slice(0, 10))
+    setSaving(null)
+    if (failure) setError(failure)
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-card border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <Users className="h-5 w-5 mr-2 text-primary-600" />
+          Capacidad del Portafolio
+        </h2>
+        {plan.feasible ? (
+          <span className="badge bg-green-100 text-green-800">
+            <CheckCircle className="h-3 w-3 mr-1 inline" />
+            Factible con los inicios propuestos
+          </span>
+        ) : (
+          <span className="badge bg-red-100 text-red-800">
+            <AlertTriangle className="h-3 w-3 mr-1 inline" />
+            Sobrecarga aun moviendo inicios
+          </span>
+        )}
+      </div>
+
+      <div className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3">Personas sobreasignadas (inicios actuales)</h3>
+          {byMember.size === 0 ? (
+            <p className="text-sm text-gray-500">Nadie supera el 100% en ninguna semana.</p>
+          ) : (
+            <ul className="space-y-3">
+              {Array.from(byMember.entries()).map(([member, weeks]) => {
+                const peak = weeks.reduce((max, w) => (w.load > max.load ? w : max), weeks[0])
+                return (
+                  <li key={member} className="text-sm">
+                    <p className="font-medium text-gray-900">
+                      {member} · {weeks.length} semana{weeks.length === 1 ? '' : 's'} · pico {Math.round(peak.load * 100)}%
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Desde {formatDay(weeks[0].weekStart)} en {peak.projects.map(projectName).join(', ')}
+                    </p>
+                  </li>
+                )
+              })}
+            </ul>
+          )}
+          {plan.requested.portfolioOverloads.length > 0 && (
+            <p className="mt-3 text-sm text-red-700">
+              {plan.requested.portfolioOverloads.length} semana(s) con más de{' '}
+              {plan.requested.portfolioOverloads[0].capacity} proyectos simultáneos.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 mb-3 flex items-center">
+            <CalendarClock className="h-4 w-4 mr-2 text-gray-600" />
+            Inicios propuestos para proyectos sin arrancar
+          </h3>
+          {shifts.length === 0 ? (
+            <p className="text-sm text-gray-500">Todos los proyectos nuevos caben en su fecha de inicio.</p>
+          ) : (
+            <ul className="space-y-3">
+              {shifts.map((shift) => (
+                <li key={shift.projectId} className="text-sm">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-medium text-gray-900">{shift.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {formatDay(shift.requestedStart)} → {formatDay(shift.proposedStart)} (entrega {formatDay(shift.finish)})
+                      </p>
+                      <p className="text-xs text-gray-500">{shift.reason}</p>
+                    </div>
+                    {shift.feasible && (
+                      <button
+                        className="btn-outline text-xs px-3 py-1"
+                        disabled={saving === shift.projectId}
+                        onClick={() => apply(shift.projectId, shift.proposedStart)}
+                      >
+                        Aplicar
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {error && <p className="px-6 pb-4 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
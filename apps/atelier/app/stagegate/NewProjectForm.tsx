@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import type { StartShift } from '@prime-growth-os/sgp'
+import type { Project } from '@prime-growth-os/types'
+
+export type NewProjectValues = Pick<Project, 'name' | 'client' | 'type' | 'budget' | 'startDate' | 'manager' | 'team'>
+
+export default function NewProjectForm({
+  defaultManager,
+  onSubmit,
+  onCheckStart,
+  onCancel
+}: {
+  defaultManager: string
+  onSubmit: (values: NewProjectValues) => Promise<string | null>
+  onCheckStart: (values: NewProjectValues) => Promise<StartShift | string>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState<NewProjectValues>({
+    name: '',
+    client: '',
+    type: 'residencial',
+    budget: 0,
+    startDate: new Date().toISOString().slice(0, 10),
+    manager: defaultManager,
+    team: []
+  })
+  const [team, setTeam] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [suggestion, setSuggestion] = useState<StartShift | null>(null)
+
+  const update = (changes: Partial<NewProjectValues>) => setValues((current) => ({ ...current, ...changes }))
+
+  const currentValues = () => ({ ...values, team: team.split(',').map((m) => m.trim()).filter(Boolean) })
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit(currentValues())
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const checkStart = async () => {
+    setError(null)
+    const result = await onCheckStart(currentValues())
+    if (typeof result === 'string') {
+      setError(result)
+      setSuggestion(null)
+    } else {
+      setSuggestion(result)
+    }
+  }
+
+  // The API returns ISO timestamps; the form works with plain dates
+  const suggestedDate = suggestion ? new Date(suggestion.proposedStart).toISOString().slice(0, 10) : null
+
+  const field = 'w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow-card border border-gray-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Nuevo Proyecto</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+          <input className={field} value={values.name} onChange={(e) => update({ name: e.target.value })} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cliente</label>
+          <input className={field} value={values.client} onChange={(e) => update({ client: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tipo</label>
+          <select className={field} value={values.type} onChange={(e) => update({ type: e.target.value as Project['type'] })}>
+            <option value="residencial">Residencial</option>
+            <option value="comercial">Comercial</option>
+            <option value="institucional">Institucional</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Presupuesto (MXN)</label>
+          <input
+            type="number"
+            min={0}
+            className={field}
+            value={values.budget}
+            onChange={(e) => update({ budget: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Inicio</label>
+          <input
+            type="date"
+            className={field}
+            value={values.startDate}
+            onChange={(e) => update({ startDate: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Manager</label>
+          <input className={field} value={values.manager} onChange={(e) => update({ manager: e.target.value })} />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Equipo (separado por comas)</label>
+        <input className={field} value={team} onChange={(e) => setTeam(e.target.value)} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <button type="button" className="btn-outline text-sm" onClick={checkStart}>
+          Calcular inicio realista
+        </button>
+        {suggestion && suggestedDate && (
+          <>
+            <span className={suggestion.feasible ? 'text-gray-700' : 'text-red-700'}>
+              {suggestion.feasible
+                ? `Inicio con capacidad: ${suggestedDate} · entrega ${new Date(suggestion.finish).toISOString().slice(0, 10)}`
+                : 'No hay capacidad en el horizonte de planeación'}
+              {' '}({suggestion.reason})
+            </span>
+            {suggestion.feasible && suggestedDate !== values.startDate && (
+              <button type="button" className="btn-outline text-xs px-2 py-1" onClick={() => update({ startDate: suggestedDate })}>
+                Usar esta fecha
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Se crean las fases estándar (Concepto → Diseño → Documentación); tú quedas como aprobador de cada gate.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn-outline" onClick={onCancel}>Cancelar</button>
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Guardando...' : 'Crear Proyecto'}
+        </button>
+      </div>
+    </form>
+  )
+}
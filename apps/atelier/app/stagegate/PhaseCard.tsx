@@ -0,0 +1,255 @@
+'use client'
+
+import { useState } from 'react'
+import type { Project, StageGatePhase } from '@prime-growth-os/types'
+import { AlertCircle, Check, CheckCircle, Circle, Lock, Play, Send, ShieldCheck, X } from 'lucide-react'
+import { PHASE_STATUS_LABELS, gateReview, isGateApprover, isPhaseUnlocked } from '@/lib/projects/rules'
+
+export type PhaseChanges = Record<string, unknown>
+
+export default function PhaseCard({
+  project,
+  phase,
+  memberId,
+  onUpdate,
+  onSignOff
+}: {
+  project: Project
+  phase: StageGatePhase
+  memberId: string
+  onUpdate: (changes: PhaseChanges) => Promise<string | null>
+  onSignOff: (decision: 'aprobada' | 'rechazada', comments: string) => Promise<string | null>
+}) {
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [blocking, setBlocking] = useState(false)
+  const [blockReason, setBlockReason] = useState('')
+  const [blockOwner, setBlockOwner] = useState('')
+  const [slippage, setSlippage] = useState(String(phase.slippageDays))
+  const [comments, setComments] = useState('')
+
+  const run = async (action: () => Promise<string | null>) => {
+    setSaving(true)
+    setError(null)
+    const failure = await action()
+    setSaving(false)
+    if (failure) setError(failure)
+    return failure
+  }
+
+  const review = gateReview(phase)
+  const unlocked = isPhaseUnlocked(project, phase)
+  const allDone = phase.deliverables.every((d) => d.done)
+  const canSign = phase.status === 'en_revision' && isGateApprover(phase, memberId) &&
+    review.pending.some((a) => a.userId === memberId)
+  const dependencyNames = phase.dependsOn.map((id) => project.phases.find((p) => p.id === id)?.name || id)
+  const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString('es-MX')
+
+  const block = async () => {
+    if (!blockReason.trim() || !blockOwner.trim()) {
+      setError('Indica el motivo y el responsable del bloqueo')
+      return
+    }
+    const failure = await run(() => onUpdate({ blocked: { reason: blockReason, owner: blockOwner } }))
+    if (!failure) setBlocking(false)
+  }
+
+  const signOff = async (decision: 'aprobada' | 'rechazada') => {
+    if (decision === 'rechazada' && !comments.trim()) {
+      setError('Explica qué falta para aprobar el gate')
+      return
+    }
+    const failure = await run(() => onSignOff(decision, comments))
+    if (!failure) setComments('')
+  }
+
+  return (
+    <div className="bg-gray-50 rounded-lg p-4 space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="text-lg font-medium text-gray-900">{phase.name}</h4>
+          <p className="text-sm text-gray-600">{phase.description}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {formatDate(phase.startDate)} → {formatDate(phase.endDate)} · {phase.duration} días
+            {phase.slippageDays > 0 && <span className="text-orange-700"> + {phase.slippageDays} de retraso</span>}
+            {dependencyNames.length > 0 && <> · después de {dependencyNames.join(', ')}</>}
+          </p>
+        </div>
+        <span className="text-sm text-gray-700 whitespace-nowrap">{PHASE_STATUS_LABELS[phase.status]}</span>
+      </div>
+
+      {phase.blocked && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">
+          <p className="flex items-center font-medium">
+            <AlertCircle className="h-4 w-4 mr-2" />
+            Bloqueada desde {new Date(phase.blocked.since).toLocaleDateString('es-MX')}: {phase.blocked.reason}
+          </p>
+          <p className="mt-1">Responsable: {phase.blocked.owner} · reportado por {phase.blocked.byName}</p>
+        </div>
+      )}
+
+      {/* Deliverables */}
+      <div>
+        <p className="text-sm font-medium text-gray-900 mb-2">
+          Entregables ({phase.deliverables.filter((d) => d.done).length}/{phase.deliverables.length}):
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {phase.deliverables.map((deliverable) => (
+            <label key={deliverable.id} className="flex items-center space-x-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={deliverable.done}
+                disabled={saving || phase.status !== 'en_progreso'}
+                onChange={(e) => run(() => onUpdate({ deliverables: { [deliverable.id]: e.target.checked } }))}
+              />
+              <span className={deliverable.done ? 'line-through text-gray-400' : ''}>{deliverable.name}</span>
+              {deliverable.done && deliverable.completedByName && (
+                <span className="text-xs text-gray-400">({deliverable.completedByName})</span>
+              )}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Gate review */}
+      {phase.approvalRequired && (
+        <div className="p-3 bg-white border border-gray-200 rounded-md space-y-2">
+          <p className="text-sm font-medium text-gray-900 flex items-center">
+            <ShieldCheck className="h-4 w-4 mr-2 text-primary-600" />
+            Gate review{phase.reviewRound > 1 && ` · ronda ${phase.reviewRound}`}
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {phase.approvers.map((approver) => {
+              const approved = review.approved.some((a) => a.userId === approver.userId) || phase.status === 'completada'
+              return (
+                <span
+                  key={approver.userId}
+                  className={`badge ${approved ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  {approved ? <CheckCircle className="h-3 w-3 mr-1 inline" /> : <Circle className="h-3 w-3 mr-1 inline" />}
+                  {approver.name}
+                </span>
+              )
+            })}
+          </div>
+          {phase.reviewRound > 1 && phase.status === 'en_progreso' && (
+            <p className="text-xs text-orange-700">
+              Rechazado en la ronda anterior: {phase.signOffs.filter((s) => s.decision === 'rechazada').slice(-1)[0]?.comments}
+            </p>
+          )}
+          {canSign && (
+            <div className="flex items-center space-x-2">
+              <input
+                className="flex-1 py-1 px-2 border border-gray-300 rounded-md text-sm"
+                placeholder="Comentarios del gate"
+                value={comments}
+                onChange={(e) => setComments(e.target.value)}
+              />
+              <button className="btn-primary text-xs px-3 py-1" disabled={saving} onClick={() => signOff('aprobada')}>
+                <Check className="h-3 w-3 mr-1" />
+                Aprobar
+              </button>
+              <button className="btn-outline text-xs px-3 py-1" disabled={saving} onClick={() => signOff('rechazada')}>
+                <X className="h-3 w-3 mr-1" />
+                Rechazar
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex flex-wrap items-center gap-3">
+        {phase.status === 'pendiente' && (
+          unlocked ? (
+            <button className="btn-primary text-xs px-3 py-1" disabled={saving} onClick={() => run(() => onUpdate({ status: 'en_progreso' }))}>
+              <Play className="h-3 w-3 mr-1" />
+              Iniciar Fase
+            </button>
+          ) : (
+            <span className="text-xs text-gray-500 flex items-center">
+              <Lock className="h-3 w-3 mr-1" />
+              Se desbloquea al pasar el gate de {dependencyNames.join(', ')}
+            </span>
+          )
+        )}
+
+        {phase.status === 'en_progreso' && (
+          <button
+            className="btn-primary text-xs px-3 py-1"
+            disabled={saving || !allDone}
+            title={allDone ? undefined : 'Completa todos los entregables'}
+            onClick={() => run(() => onUpdate({ status: phase.approvalRequired ? 'en_revision' : 'completada' }))}
+          >
+            <Send className="h-3 w-3 mr-1" />
+            {phase.approvalRequired ? 'Enviar a Gate Review' : 'Completar Fase'}
+          </button>
+        )}
+
+        {phase.status === 'bloqueada' && (
+          <button className="btn-outline text-xs px-3 py-1" disabled={saving} onClick={() => run(() => onUpdate({ blocked: null }))}>
+            Desbloquear
+          </button>
+        )}
+
+        {phase.status !== 'completada' && phase.status !== 'bloqueada' && !blocking && (
+          <button className="btn-outline text-xs px-3 py-1" disabled={saving} onClick={() => setBlocking(true)}>
+            Bloquear
+          </button>
+        )}
+
+        {phase.status !== 'completada' && (
+          <div className="flex items-center space-x-2 text-xs text-gray-600">
+            <span>Retraso (días)</span>
+            <input
+              type="number"
+              min={0}
+              className="w-16 py-1 px-2 border border-gray-300 rounded-md"
+              value={slippage}
+              onChange={(e) => setSlippage(e.target.value)}
+            />
+            <button
+              className="btn-outline text-xs px-2 py-1"
+              disabled={saving || Number(slippage) === phase.slippageDays}
+              onClick={() => run(() => onUpdate({ slippageDays: Math.max(0, Math.round(Number(slippage) || 0)) }))}
+            >
+              Reportar
+            </button>
+          </div>
+        )}
+      </div>
+
+      {blocking && (
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            className="flex-1 py-1 px-2 border border-gray-300 rounded-md text-sm"
+            placeholder="Motivo del bloqueo"
+            value={blockReason}
+            onChange={(e) => setBlockReason(e.target.value)}
+          />
+          <input
+            className="w-48 py-1 px-2 border border-gray-300 rounded-md text-sm"
+            placeholder="Responsable"
+            value={blockOwner}
+            onChange={(e) => setBlockOwner(e.target.value)}
+          />
+          <button className="btn-primary text-xs px-3 py-1" disabled={saving} onClick={block}>Bloquear</button>
+          <button className="btn-outline text-xs px-3 py-1" onClick={() => setBlocking(false)}>Cancelar</button>
+        </div>
+      )}
+
+      {phase.approvalRequired && phase.status === 'completada' && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md">
+          <div className="flex items-center">
+            <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
+            <span className="text-sm text-green-800">
+              Gate aprobado{phase.completedAt && ` el ${new Date(phase.completedAt).toLocaleDateString('es-MX')}`}
+            </span>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
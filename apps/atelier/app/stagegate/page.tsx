@@ -1,7 +1,8 @@
 'use client'
 
-import { useState } from 'react'
-import { Project, StageGatePhase } from '@prime-growth-os/types'
+import { useEffect, useState } from 'react'
+import type { Project, StageGatePhase } from '@prime-growth-os/types'
+import type { CapacityPlan } from '@prime-growth-os/sgp'
 import {
   GitBranch,
   CheckCircle,
@@ -9,108 +10,137 @@ import {
   AlertCircle,
   User,
   Calendar,
-  MoreHorizontal,
-  Play,
-  Pause,
-  Flag
+  Flag,
+  ShieldCheck
 } from 'lucide-react'
+import CapacityPanel from './CapacityPanel'
+import NewProjectForm, { type NewProjectValues } from './NewProjectForm'
+import PhaseCard, { type PhaseChanges } from './PhaseCard'
 
-// Mock data for projects
-const mockProjects: Project[] = [
-  {
-    id: 'proj-001',
-    name: 'Oficinas Corporativas Reforma',
-    client: 'Constructora Reforma SA',
-    type: 'comercial',
-    budget: 2500000,
-    startDate: '2024-01-15',
-    endDate: '2024-06-15',
-    status: 'diseno',
-    manager: 'Arq. María González',
-    team: ['Arq. Carlos López', 'Ing. Ana Martínez', 'Dis. Pablo Ruiz'],
-    progress: 35,
-    phases: [
-      {
-        id: 'phase-1',
-        name: 'Planificación y Concepto',
-        description: 'Desarrollo del concepto arquitectónico y planificación inicial',
-        duration: 30,
-        deliverables: ['Brief del proyecto', 'Análisis de sitio', 'Conceptos iniciales', 'Presupuesto preliminar'],
-        approvalRequired: true,
-        status: 'completada'
-      },
-      {
-        id: 'phase-2',
-        name: 'Desarrollo de Diseño',
-        description: 'Diseño detallado y documentación técnica',
-        duration: 45,
-        deliverables: ['Planos arquitectónicos', 'Renders 3D', 'Especificaciones técnicas', 'Planos MEP'],
-        approvalRequired: true,
-        status: 'en_progreso'
-      },
-      {
-        id: 'phase-3',
-        name: 'Documentación y Entrega',
-        description: 'Finalización de documentos ejecutivos y entrega',
-        duration: 30,
-        deliverables: ['Planos ejecutivos', 'Manual de usuario', 'Certificaciones', 'Entrega final'],
-        approvalRequired: true,
-        status: 'pendiente'
-      }
-    ]
-  },
-  {
-    id: 'proj-002',
-    name: 'Casa Unifamiliar Santa Fe',
-    client: 'Familia Rodríguez',
-    type: 'residencial',
-    budget: 850000,
-    startDate: '2024-02-01',
-    endDate: '2024-05-01',
-    status: 'planificacion',
-    manager: 'Arq. Roberto Herrera',
-    team: ['Arq. Laura Jiménez', 'Ing. Miguel Torres'],
-    progress: 15,
-    phases: [
-      {
-        id: 'phase-1',
-        name: 'Planificación y Concepto',
-        description: 'Desarrollo del concepto arquitectónico y planificación inicial',
-        duration: 20,
-        deliverables: ['Brief del proyecto', 'Análisis de sitio', 'Conceptos iniciales'],
-        approvalRequired: true,
-        status: 'en_progreso'
-      },
-      {
-        id: 'phase-2',
-        name: 'Desarrollo de Diseño',
-        description: 'Diseño detallado y documentación técnica',
-        duration: 35,
-        deliverables: ['Planos arquitectónicos', 'Renders 3D', 'Especificaciones técnicas'],
-        approvalRequired: true,
-        status: 'pendiente'
-      },
-      {
-        id: 'phase-3',
-        name: 'Documentación y Entrega',
-        description: 'Finalización de documentos ejecutivos y entrega',
-        duration: 20,
-        deliverables: ['Planos ejecutivos', 'Manual de usuario', 'Entrega final'],
-        approvalRequired: true,
-        status: 'pendiente'
+type Member = { userId: string; userName: string; role: string }
+
+export default function StageGatePage() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [member, setMember] = useState<Member | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [capacity, setCapacity] = useState<CapacityPlan | null>(null)
+
+  useEffect(() => {
+    loadProjects()
+    loadCapacity()
+  }, [])
+
+  const loadProjects = async () => {
+    try {
+      const res = await fetch('/api/projects')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar los proyectos')
+        return
       }
-    ]
+      setProjects(data.projects || [])
+      setMember(data.member)
+      setSelectedId((current) => current || data.projects?.[0]?.id || null)
+    } catch (err) {
+      console.error('Failed to load projects:', err)
+      setError('No se pudieron cargar los proyectos')
+    } finally {
+      setLoading(false)
+    }
   }
-]
 
-export default function StageGatePage() {
-  const [projects] = useState<Project[]>(mockProjects)
-  const [selectedProject, setSelectedProject] = useState<Project | null>(projects[0])
+  const loadCapacity = async () => {
+    try {
+      const res = await fetch('/api/projects/capacity')
+      const data = await res.json()
+      if (res.ok) setCapacity(data)
+    } catch (err) {
+      console.error('Failed to load capacity plan:', err)
+    }
+  }
+
+  // Any schedule change moves the portfolio load
+  const replaceProject = (project: Project) => {
+    setProjects((current) => current.map((p) => (p.id === project.id ? project : p)))
+    loadCapacity()
+  }
+
+  const applyShift = async (projectId: string, startDate: string) => {
+    const res = await fetch(`/api/projects/${projectId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ startDate })
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo mover el inicio del proyecto'
+    replaceProject(data.project)
+    return null
+  }
+
+  const createProject = async (values: NewProjectValues) => {
+    const res = await fetch('/api/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo crear el proyecto'
+
+    setProjects((current) => [data.project, ...current])
+    setSelectedId(data.project.id)
+    setShowForm(false)
+    loadCapacity()
+    return null
+  }
+
+  const checkStart = async (values: NewProjectValues) => {
+    const res = await fetch('/api/projects/capacity', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ startDate: values.startDate, manager: values.manager, team: values.team })
+    })
+    const data = await res.json()
+    return res.ok ? data : data.error || 'No se pudo calcular la fecha de inicio'
+  }
+
+  const updatePhase = async (project: Project, phase: StageGatePhase, changes: PhaseChanges) => {
+    const res = await fetch(`/api/projects/${project.id}/phases/${phase.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(changes)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo actualizar la fase'
+    replaceProject(data.project)
+    return null
+  }
+
+  const signOffGate = async (project: Project, phase: StageGatePhase, decision: 'aprobada' | 'rechazada', comments: string) => {
+    const res = await fetch(`/api/projects/${project.id}/phases/${phase.id}/gate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision, comments })
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo registrar la firma del gate'
+    replaceProject(data.project)
+    return null
+  }
+
+  const selectedProject = projects.find((p) => p.id === selectedId) || null
+  const criticalPath = capacity?.criticalPaths.find((cp) => cp.projectId === selectedId) || null
+  const phaseTiming = (phaseId: string) => criticalPath?.tasks.find((t) => t.id === phaseId) || null
+  const countPhases = (status: StageGatePhase['status']) =>
+    projects.reduce((count, p) => count + p.phases.filter((ph) => ph.status === status).length, 0)
 
   const getPhaseStatusColor = (status: StageGatePhase['status']) => {
     switch (status) {
       case 'completada': return 'bg-green-100 text-green-800'
       case 'en_progreso': return 'bg-blue-100 text-blue-800'
+      case 'en_revision': return 'bg-purple-100 text-purple-800'
       case 'pendiente': return 'bg-gray-100 text-gray-800'
       case 'bloqueada': return 'bg-red-100 text-red-800'
       default: return 'bg-gray-100 text-gray-800'
@@ -121,6 +151,7 @@ export default function StageGatePage() {
     switch (status) {
       case 'completada': return <CheckCircle className="h-5 w-5 text-green-600" />
       case 'en_progreso': return <Clock className="h-5 w-5 text-blue-600" />
+      case 'en_revision': return <ShieldCheck className="h-5 w-5 text-purple-600" />
       case 'pendiente': return <Clock className="h-5 w-5 text-gray-400" />
       case 'bloqueada': return <AlertCircle className="h-5 w-5 text-red-600" />
       default: return <Clock className="h-5 w-5 text-gray-400" />
@@ -148,12 +179,25 @@ export default function StageGatePage() {
             Control de fases y entregables por proyecto arquitectónico
           </p>
         </div>
-        <button className="btn-primary">
+        <button className="btn-primary" onClick={() => setShowForm(true)}>
           <GitBranch className="h-4 w-4 mr-2" />
           Nuevo Proyecto
         </button>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+      )}
+
+      {showForm && (
+        <NewProjectForm
+          defaultManager={member?.userName || ''}
+          onSubmit={createProject}
+          onCheckStart={checkStart}
+          onCancel={() => setShowForm(false)}
+        />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Projects List */}
         <div className="lg:col-span-1">
@@ -162,13 +206,17 @@ export default function StageGatePage() {
               <h2 className="text-lg font-semibold text-gray-900">Proyectos Activos</h2>
             </div>
             <div className="divide-y divide-gray-200">
+              {loading && <p className="p-4 text-sm text-gray-500">Cargando proyectos...</p>}
+              {!loading && projects.length === 0 && (
+                <p className="p-4 text-sm text-gray-500">Aún no hay proyectos. Crea el primero con Nuevo Proyecto.</p>
+              )}
               {projects.map((project) => (
                 <div
                   key={project.id}
                   className={`p-4 cursor-pointer hover:bg-gray-50 transition-colors duration-150 ${
                     selectedProject?.id === project.id ? 'bg-primary-50 border-r-2 border-primary-500' : ''
                   }`}
-                  onClick={() => setSelectedProject(project)}
+                  onClick={() => setSelectedId(project.id)}
                 >
                   <div className="flex items-center justify-between mb-2">
                     <h3 className="font-medium text-gray-900 text-sm">{project.name}</h3>
@@ -178,7 +226,12 @@ export default function StageGatePage() {
                   </div>
                   <p className="text-xs text-gray-600 mb-2">{project.client}</p>
                   <div className="flex items-center justify-between">
-                    <span className="text-xs text-gray-500">{project.progress}% completado</span>
+                    <span className="text-xs text-gray-500">
+                      {project.progress}% completado
+                      {project.phases.some((ph) => ph.status === 'bloqueada') && (
+                        <span className="text-red-600"> · bloqueada</span>
+                      )}
+                    </span>
                     <div className="w-16 bg-gray-200 rounded-full h-1">
                       <div
                         className="bg-primary-500 h-1 rounded-full"
@@ -207,9 +260,6 @@ export default function StageGatePage() {
                     <span className={`badge ${getProjectStatusColor(selectedProject.status)}`}>
                       {selectedProject.status}
                     </span>
-                    <button className="btn-outline">
-                      <MoreHorizontal className="h-4 w-4" />
-                    </button>
                   </div>
                 </div>
 
@@ -220,17 +270,17 @@ export default function StageGatePage() {
                       <span className="text-sm font-medium text-gray-900">Inicio</span>
                     </div>
                     <p className="text-sm text-gray-600 mt-1">
-                      {new Date(selectedProject.startDate).toLocaleDateString('es-MX')}
+                      {new Date(`${selectedProject.startDate}T00:00:00`).toLocaleDateString('es-MX')}
                     </p>
                   </div>
 
                   <div className="bg-gray-50 rounded-lg p-4">
                     <div className="flex items-center space-x-2">
                       <Flag className="h-4 w-4 text-gray-600" />
-                      <span className="text-sm font-medium text-gray-900">Entrega</span>
+                      <span className="text-sm font-medium text-gray-900">Entrega proyectada</span>
                     </div>
                     <p className="text-sm text-gray-600 mt-1">
-                      {new Date(selectedProject.endDate).toLocaleDateString('es-MX')}
+                      {new Date(`${selectedProject.endDate}T00:00:00`).toLocaleDateString('es-MX')}
                     </p>
                   </div>
 
@@ -255,7 +305,7 @@ export default function StageGatePage() {
                 {/* Progress Bar */}
                 <div className="mb-4">
                   <div className="flex justify-between text-sm text-gray-600 mb-2">
-                    <span>Progreso General</span>
+                    <span>Progreso General (entregables completados)</span>
                     <span>{selectedProject.progress}%</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-3">
@@ -270,9 +320,9 @@ export default function StageGatePage() {
                 <div>
                   <p className="text-sm font-medium text-gray-900 mb-2">Equipo del Proyecto</p>
                   <div className="flex flex-wrap gap-2">
-                    {selectedProject.team.map((member, index) => (
+                    {selectedProject.team.map((teamMember, index) => (
                       <span key={index} className="badge bg-blue-100 text-blue-800">
-                        {member}
+                        {teamMember}
                       </span>
                     ))}
                   </div>
@@ -297,73 +347,25 @@ export default function StageGatePage() {
 
                         {/* Phase Content */}
                         <div className="ml-6 flex-1">
-                          <div className="bg-gray-50 rounded-lg p-4">
-                            <div className="flex items-center justify-between mb-3">
-                              <div>
-                                <h4 className="text-lg font-medium text-gray-900">{phase.name}</h4>
-                                <p className="text-sm text-gray-600">{phase.description}</p>
-                              </div>
-                              <div className="flex items-center space-x-3">
-                                <span className={`badge ${getPhaseStatusColor(phase.status)}`}>
-                                  {phase.status.replace('_', ' ')}
-                                </span>
-                                <span className="text-sm text-gray-500">{phase.duration} días</span>
-                              </div>
-                            </div>
-
-                            {/* Deliverables */}
-                            <div className="mb-4">
-                              <p className="text-sm font-medium text-gray-900 mb-2">Entregables:</p>
-                              <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-                                {phase.deliverables.map((deliverable, idx) => (
-                                  <div key={idx} className="flex items-center space-x-2">
-                                    <CheckCircle className="h-4 w-4 text-green-500" />
-                                    <span className="text-sm text-gray-600">{deliverable}</span>
-                                  </div>
-                                ))}
-                              </div>
-                            </div>
-
-                            {/* Actions */}
-                            {phase.status === 'en_progreso' && (
-                              <div className="flex items-center space-x-3">
-                                <button className="btn-primary text-xs px-3 py-1">
-                                  <Play className="h-3 w-3 mr-1" />
-                                  Continuar
-                                </button>
-                                <button className="btn-outline text-xs px-3 py-1">
-                                  <Pause className="h-3 w-3 mr-1" />
-                                  Pausar
-                                </button>
-                                <button className="btn-outline text-xs px-3 py-1">
-                                  Ver Detalles
-                                </button>
-                              </div>
+                          <div className="flex items-center space-x-2 mb-2">
+                            <span className={`badge ${getPhaseStatusColor(phase.status)}`}>
+                              Fase {index + 1}
+                            </span>
+                            {phaseTiming(phase.id)?.critical && (
+                              <span className="badge bg-red-100 text-red-800">Ruta crítica</span>
                             )}
-
-                            {phase.status === 'pendiente' && (
-                              <div className="flex items-center space-x-3">
-                                <button className="btn-primary text-xs px-3 py-1">
-                                  <Play className="h-3 w-3 mr-1" />
-                                  Iniciar Fase
-                                </button>
-                                <button className="btn-outline text-xs px-3 py-1">
-                                  Ver Requisitos
-                                </button>
-                              </div>
-                            )}
-
-                            {phase.approvalRequired && phase.status === 'completada' && (
-                              <div className="mt-3 p-3 bg-green-50 border border-green-200 rounded-md">
-                                <div className="flex items-center">
-                                  <CheckCircle className="h-4 w-4 text-green-600 mr-2" />
-                                  <span className="text-sm text-green-800">
-                                    Fase aprobada por el cliente
-                                  </span>
-                                </div>
-                              </div>
+                            {phaseTiming(phase.id) && !phaseTiming(phase.id)!.critical && phase.status !== 'completada' && (
+                              <span className="text-xs text-gray-500">Holgura {Math.round(phaseTiming(phase.id)!.slackDays)} días</span>
                             )}
                           </div>
+                          <PhaseCard
+                            key={`${phase.id}-${phase.slippageDays}`}
+                            project={selectedProject}
+                            phase={phase}
+                            memberId={member?.userId || ''}
+                            onUpdate={(changes) => updatePhase(selectedProject, phase, changes)}
+                            onSignOff={(decision, comments) => signOffGate(selectedProject, phase, decision, comments)}
+                          />
                         </div>
                       </div>
                     ))}
@@ -375,6 +377,8 @@ export default function StageGatePage() {
         </div>
       </div>
 
+      {capacity && <CapacityPanel plan={capacity} projects={projects} onApplyShift={applyShift} />}
+
       {/* Quick Stats */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
@@ -404,7 +408,7 @@ export default function StageGatePage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Fases en Progreso</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {projects.reduce((count, p) => count + p.phases.filter(ph => ph.status === 'en_progreso').length, 0)}
+                  {countPhases('en_progreso')}
                 </dd>
               </dl>
             </div>
@@ -422,7 +426,7 @@ export default function StageGatePage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Fases Completadas</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {projects.reduce((count, p) => count + p.phases.filter(ph => ph.status === 'completada').length, 0)}
+                  {countPhases('completada')}
                 </dd>
               </dl>
             </div>
@@ -440,7 +444,7 @@ export default function StageGatePage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Fases Bloqueadas</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {projects.reduce((count, p) => count + p.phases.filter(ph => ph.status === 'bloqueada').length, 0)}
+                  {countPhases('bloqueada')}
                 </dd>
               </dl>
             </div>
@@ -26,6 +26,10 @@ export default function StrategyClient() {
   const [executiveBrief, setExecutiveBrief] = useState<any>(null)
   const [experiments, setExperiments] = useState<any[]>([])
   const [auditLog, setAuditLog] = useState<any[]>([])
+  const [pricing, setPricing] = useState<any>(null)
+  const [bottlenecks, setBottlenecks] = useState<any[]>([])
+  const [mining, setMining] = useState<any>(null)
+  const [simulations, setSimulations] = useState<Record<string, any>>({})
   const [scenario, setScenario] = useState<'conservative' | 'base' | 'optimistic'>('base')
 
   // Check feature flag
@@ -38,15 +42,18 @@ export default function StrategyClient() {
       loadExecutiveBrief()
       loadExperiments()
       loadAuditLog()
+      loadPricing()
+      loadBottlenecks()
     }
   }, [sgpEnabled, scenario])
 
   const loadSpendPlan = async () => {
     try {
+      // No channel data of the organization yet: the route plans the sample book and flags it as demo
       const res = await fetch('/api/predictor/spendplan', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ scenario })
+        body: JSON.stringify({})
       })
       const data = await res.json()
       setSpendPlan(data)
@@ -55,12 +62,21 @@ export default function StrategyClient() {
     }
   }
 
+  // Briefs cover the current calendar month
+  const briefPeriod = () => {
+    const now = new Date()
+    return {
+      start: new Date(now.getFullYear(), now.getMonth(), 1).toISOString(),
+      end: new Date(now.getFullYear(), now.getMonth() + 1, 0, 23, 59, 59).toISOString()
+    }
+  }
+
   const loadExecutiveBrief = async () => {
     try {
       const res = await fetch('/api/predictor/executive', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ scenario, impact: 125000 })
+        body: JSON.stringify({ period: briefPeriod() })
       })
       const data = await res.json()
       setExecutiveBrief(data)
@@ -89,15 +105,107 @@ export default function StrategyClient() {
     }
   }
 
+  const loadPricing = async () => {
+    try {
+      const res = await fetch('/api/predictor/pricing')
+      const data = await res.json()
+      if (res.ok) setPricing(data)
+    } catch (error) {
+      console.error('Failed to load pricing advice:', error)
+    }
+  }
+
+  // Detector output on the mined funnel, shaped for the bottleneck cards
+  const loadBottlenecks = async () => {
+    try {
+      const res = await fetch('/api/predictor/bottlenecks')
+      const data = await res.json()
+      if (!res.ok) return
+      setMining(data.mining)
+      setBottlenecks(data.bottlenecks.map((b: any) => ({
+        id: b.id,
+        stageId: b.stage.id,
+        stage: b.stage.name,
+        score: b.stage.bottleneckScore,
+        impact: b.severity.charAt(0).toUpperCase() + b.severity.slice(1),
+        waitTime: Math.round(b.stage.waitTime * 24),
+        recommendation: b.recommendedFixes[0]?.title || b.rootCauses[0] || 'Review stage capacity',
+        detail: b.recommendedFixes[0]?.executiveSummary || '',
+        potentialGain: `$${Math.round(b.costOfDelay * 365).toLocaleString('en-US')}/year`
+      })))
+    } catch (error) {
+      console.error('Failed to load bottlenecks:', error)
+    }
+  }
+
+  // Replays the funnel with one more person at the stage before committing to the hire
+  const simulateFix = async (bottleneck: any) => {
+    try {
+      const res = await fetch('/api/predictor/bottlenecks/simulate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ changes: [{ stageId: bottleneck.stageId, addServers: 1 }] })
+      })
+      const data = await res.json()
+      setSimulations((current) => ({ ...current, [bottleneck.stageId]: res.ok ? data : { error: data.error } }))
+    } catch (error) {
+      console.error('Failed to simulate fix:', error)
+    }
+  }
+
+  const acceptPricingRecommendation = async (analysis: any) => {
+    const { recommendation, strategy } = analysis
+    try {
+      await fetch('/api/predictor/audit', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'accept',
+          entityType: 'recommendation',
+          entityId: recommendation.id,
+          entityTitle: recommendation.title,
+          reasoning: recommendation.executiveSummary,
+          expectedImpact: recommendation.expectedImpact,
+          tags: ['pricing', strategy.segment.id]
+        })
+      })
+
+      // Test the new price point on won revenue per decided quote
+      const baseline = Math.round(strategy.basePrice * analysis.winRate)
+      await fetch('/api/predictor/experiment', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action: 'create',
+          name: `Test: ${recommendation.title}`,
+          hypothesis: recommendation.executiveSummary,
+          metric: 'Won revenue per quote',
+          baseline,
+          target: Math.round(baseline * (1 + strategy.expectedImpact.revenueChange / 100)),
+          recommendationId: recommendation.id,
+          recommendationTitle: recommendation.title
+        })
+      })
+
+      loadAuditLog()
+      loadExperiments()
+      alert('Pricing recommendation accepted and experiment created!')
+    } catch (error) {
+      console.error('Failed to accept pricing recommendation:', error)
+    }
+  }
+
   const acceptRecommendation = async (recommendation: any) => {
     try {
+      const recommendationId = recommendation.id || `rec-${Date.now()}`
+
       // Log to audit
       await fetch('/api/predictor/audit', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           action: 'accept',
-          entityId: recommendation.id || `rec-${Date.now()}`,
+          entityId: recommendationId,
           entityTitle: recommendation.stage,
           reasoning: 'High impact, low risk',
           expectedImpact: { revenue: parseInt(recommendation.potentialGain.replace(/\D/g, '')) },
@@ -116,7 +224,8 @@ export default function StrategyClient() {
           metric: 'Processing Time',
           baseline: recommendation.waitTime,
           target: recommendation.waitTime * 0.5,
-          recommendationId: recommendation.id
+          recommendationId,
+          recommendationTitle: recommendation.stage
         })
       })
 
@@ -131,7 +240,14 @@ export default function StrategyClient() {
 
   const exportBrief = async (format: 'pdf' | 'markdown') => {
     try {
-      const res = await fetch(`/api/predictor/executive?format=${format}`)
+      const res = await fetch('/api/predictor/executive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          period: briefPeriod(),
+          format: format === 'pdf' ? 'html' : 'markdown'
+        })
+      })
 
       if (format === 'markdown') {
         const text = await res.text()
@@ -142,14 +258,40 @@ export default function StrategyClient() {
         a.download = `strategic-brief-${Date.now()}.md`
         a.click()
       } else {
-        // For PDF, would need a PDF library
-        alert('PDF export would be implemented with a PDF library')
+        // Print-ready HTML; the browser's print dialog saves it as PDF
+        const html = await res.text()
+        const printWindow = window.open('', '_blank')
+        if (printWindow) {
+          printWindow.document.write(html)
+          printWindow.document.close()
+          printWindow.print()
+        }
       }
     } catch (error) {
       console.error('Failed to export brief:', error)
     }
   }
 
+  const exportRampSchedule = async () => {
+    try {
+      const res = await fetch('/api/predictor/spendplan/schedule?format=csv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ granularity: 'day' })
+      })
+      if (!res.ok) throw new Error((await res.json()).error)
+      const text = await res.text()
+      const blob = new Blob([text], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `spend-ramp-${Date.now()}.csv`
+      a.click()
+    } catch (error) {
+      console.error('Failed to export ramp schedule:', error)
+    }
+  }
+
   const exportAudit = async () => {
     try {
       const res = await fetch('/api/predictor/audit?format=csv')
@@ -177,34 +319,6 @@ export default function StrategyClient() {
     )
   }
 
-  // Mock data for bottlenecks (would come from real SGP)
-  const bottlenecks = [
-    {
-      stage: 'CPQ Generation',
-      score: 0.85,
-      impact: 'Critical',
-      waitTime: 48,
-      recommendation: 'Automate quote generation with dynamic pricing engine',
-      potentialGain: '$125,000/year'
-    },
-    {
-      stage: 'Lead Response',
-      score: 0.72,
-      impact: 'High',
-      waitTime: 18,
-      recommendation: 'Implement auto-assignment and instant chatbot response',
-      potentialGain: '$85,000/year'
-    },
-    {
-      stage: 'Contract Review',
-      score: 0.65,
-      impact: 'Medium',
-      waitTime: 72,
-      recommendation: 'Use Mexican contract validator for compliance checks',
-      potentialGain: '$45,000/year'
-    }
-  ]
-
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -256,6 +370,7 @@ export default function StrategyClient() {
               { id: 'overview', label: 'Executive Summary', icon: FileText },
               { id: 'bottlenecks', label: 'Drivers & Bottlenecks', icon: AlertTriangle },
               { id: 'spend', label: 'Spend Plan', icon: DollarSign },
+              { id: 'pricing', label: 'Pricing & Bundles', icon: Target },
               { id: 'audit', label: 'Audit & Experiments', icon: TestTube }
             ].map((tab) => {
               const Icon = tab.icon
@@ -297,13 +412,22 @@ export default function StrategyClient() {
                     </p>
                   </div>
                 </div>
-                <button
-                  onClick={() => exportBrief('markdown')}
-                  className="flex items-center space-x-2 px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
-                >
-                  <Download className="h-4 w-4" />
-                  <span>Export</span>
-                </button>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => exportBrief('markdown')}
+                    className="flex items-center space-x-2 px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+                  >
+                    <Download className="h-4 w-4" />
+                    <span>Markdown</span>
+                  </button>
+                  <button
+                    onClick={() => exportBrief('pdf')}
+                    className="flex items-center space-x-2 px-3 py-1 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700"
+                  >
+                    <FileText className="h-4 w-4" />
+                    <span>PDF</span>
+                  </button>
+                </div>
               </div>
             </div>
 
@@ -359,10 +483,13 @@ export default function StrategyClient() {
               </div>
             )}
 
-            {/* Model Used */}
-            <div className="text-sm text-gray-500 text-right">
-              Model: {executiveBrief.model === 'opus' ? 'Claude Opus (High Impact)' : 'Claude Sonnet (Cost-Optimized)'}
-            </div>
+            {/* Sources behind the brief */}
+            {executiveBrief.sources && (
+              <div className="text-sm text-gray-500 text-right">
+                Based on {executiveBrief.sources.kpis} KPIs, {executiveBrief.sources.insights} insights,{' '}
+                {executiveBrief.sources.recommendations} recommendations and {executiveBrief.sources.spendPlans} spend plans
+              </div>
+            )}
           </div>
         )}
 
@@ -370,7 +497,20 @@ export default function StrategyClient() {
         {activeTab === 'bottlenecks' && (
           <div className="space-y-6">
             <div className="bg-white shadow rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Process Bottlenecks (Theory of Constraints)</h3>
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Process Bottlenecks (Theory of Constraints)</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Mined from {mining?.cases ?? 0} leads through quotes and project phases: {mining?.completedCases ?? 0} completed, {mining?.droppedCases ?? 0} dropped, {mining?.openCases ?? 0} open
+              </p>
+
+              {mining && bottlenecks.length === 0 && (
+                <p className="text-sm text-gray-500">No stage of the funnel scores as a bottleneck yet.</p>
+              )}
+              {!mining && (
+                <p className="text-sm text-gray-500">
+                  No funnel history yet. Lead status changes, quote transitions and phase changes feed this analysis.
+                </p>
+              )}
+
               <div className="space-y-4">
                 {bottlenecks.map((bottleneck, index) => (
                   <div
@@ -412,17 +552,47 @@ export default function StrategyClient() {
                           <div>
                             <p className="text-sm font-medium text-gray-700">Recommendation</p>
                             <p className="text-sm text-gray-600 mt-1">{bottleneck.recommendation}</p>
+                            {bottleneck.detail && <p className="text-sm text-gray-500 mt-1">{bottleneck.detail}</p>}
                           </div>
                           <div>
                             <p className="text-sm font-medium text-gray-700">Potential Annual Gain</p>
                             <p className="text-lg font-semibold text-green-600">{bottleneck.potentialGain}</p>
                           </div>
-                          <button
-                            onClick={() => acceptRecommendation(bottleneck)}
-                            className="btn-primary btn-sm"
-                          >
-                            Accept & Create Experiment
-                          </button>
+                          {simulations[bottleneck.stageId] && (
+                            <div className="text-sm text-gray-600">
+                              {simulations[bottleneck.stageId].error ? (
+                                <p className="text-red-600">{simulations[bottleneck.stageId].error}</p>
+                              ) : (
+                                <>
+                                  <p className="font-medium text-gray-700">
+                                    Simulated {simulations[bottleneck.stageId].baseline.weeks} weeks with one more person
+                                  </p>
+                                  <p>
+                                    Cycle time P50 {simulations[bottleneck.stageId].baseline.cycleTime.p50} → {simulations[bottleneck.stageId].proposal.cycleTime.p50} days,
+                                    P95 {simulations[bottleneck.stageId].baseline.cycleTime.p95} → {simulations[bottleneck.stageId].proposal.cycleTime.p95} days
+                                  </p>
+                                  <p>
+                                    Throughput {simulations[bottleneck.stageId].baseline.throughputPerWeek} → {simulations[bottleneck.stageId].proposal.throughputPerWeek} per week,
+                                    average WIP {simulations[bottleneck.stageId].baseline.wip.average} → {simulations[bottleneck.stageId].proposal.wip.average}
+                                  </p>
+                                </>
+                              )}
+                            </div>
+                          )}
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={(e) => { e.stopPropagation(); simulateFix(bottleneck) }}
+                              className="btn-secondary btn-sm"
+                            >
+                              Simulate Fix
+                            </button>
+                            <button
+                              onClick={() => acceptRecommendation(bottleneck)}
+                              className="btn-primary btn-sm"
+                            >
+                              Accept & Create Experiment
+                            </button>
+                          </div>
                         </div>
                       </div>
                     )}
@@ -433,11 +603,133 @@ export default function StrategyClient() {
           </div>
         )}
 
+        {/* Pricing Tab */}
+        {activeTab === 'pricing' && (
+          <div className="space-y-6">
+            <div className="bg-white shadow rounded-lg p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-1">Pricing & Scope Advisor</h3>
+              <p className="text-sm text-gray-600 mb-4">
+                Segments by project type and client budget, fitted on {pricing?.totalQuotes ?? 0} won and lost quotes
+              </p>
+
+              {pricing && pricing.analyses.length === 0 && (
+                <p className="text-sm text-gray-500">
+                  Not enough decided quotes per segment yet. Accepted, rejected and expired quotes feed this analysis.
+                </p>
+              )}
+
+              <div className="space-y-4">
+                {pricing?.analyses.map((analysis: any) => {
+                  const { strategy, recommendation } = analysis
+                  const { segment } = strategy
+                  return (
+                    <div key={strategy.id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <h4 className="font-medium text-gray-900 capitalize">{segment.name}</h4>
+                          <p className="text-sm text-gray-500">
+                            {analysis.sampleSize} quotes · win rate {(analysis.winRate * 100).toFixed(0)}% · {strategy.pricingModel.replace('_', ' ')}
+                          </p>
+                        </div>
+                        <div className="flex items-center space-x-6 text-right">
+                          <div>
+                            <p className="text-sm text-gray-500">Current</p>
+                            <p className="font-medium text-gray-900">${strategy.basePrice.toLocaleString()}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-500">Recommended</p>
+                            <p className="font-medium text-primary-600">${strategy.recommendedPrice.toLocaleString()}</p>
+                          </div>
+                          <div>
+                            <p className="text-sm text-gray-500">Elasticity</p>
+                            <p className="font-medium text-gray-900">{segment.priceElasticity.toFixed(2)}</p>
+                          </div>
+                        </div>
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 text-sm">
+                        <div>
+                          <p className="font-medium text-gray-700">Willingness to pay</p>
+                          <p className="text-gray-600">
+                            p10 ${segment.willingnessToPay.p10.toLocaleString()} · p50 ${segment.willingnessToPay.p50.toLocaleString()} · p90 ${segment.willingnessToPay.p90.toLocaleString()}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-700">Expected impact</p>
+                          <p className="text-gray-600">
+                            Revenue {strategy.expectedImpact.revenueChange > 0 ? '+' : ''}{strategy.expectedImpact.revenueChange}% · volume {strategy.expectedImpact.volumeChange > 0 ? '+' : ''}{strategy.expectedImpact.volumeChange}% · margin {strategy.expectedImpact.marginChange > 0 ? '+' : ''}{strategy.expectedImpact.marginChange} pp
+                          </p>
+                        </div>
+                        <div>
+                          <p className="font-medium text-gray-700">Bundles</p>
+                          {analysis.bundles.length === 0 ? (
+                            <p className="text-gray-500">No combination wins more often</p>
+                          ) : (
+                            <ul className="text-gray-600">
+                              {analysis.bundles.map((bundle: any) => (
+                                <li key={bundle.components.join('+')}>
+                                  {bundle.components.join(' + ')} · {(bundle.winRate * 100).toFixed(0)}% wins ({bundle.lift}×)
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
+                      </div>
+
+                      {recommendation && (
+                        <div className="mt-4 pt-4 border-t border-gray-200 flex items-start justify-between gap-4">
+                          <div>
+                            <p className="text-sm text-gray-900">{recommendation.executiveSummary}</p>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {recommendation.rationale} Confidence {(recommendation.confidence * 100).toFixed(0)}%.
+                            </p>
+                          </div>
+                          <button
+                            onClick={() => acceptPricingRecommendation(analysis)}
+                            className="btn-primary btn-sm whitespace-nowrap"
+                          >
+                            Accept & Create Experiment
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  )
+                })}
+              </div>
+
+              {pricing && pricing.insufficient.length > 0 && (
+                <p className="text-xs text-gray-500 mt-4">
+                  Waiting for more decided quotes: {pricing.insufficient.map((s: any) => `${s.name} (${s.sampleSize})`).join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Spend Plan Tab */}
         {activeTab === 'spend' && spendPlan && (
           <div className="space-y-6">
             <div className="bg-white shadow rounded-lg p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Marketing Spend Optimization</h3>
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center space-x-2">
+                  <h3 className="text-lg font-semibold text-gray-900">Marketing Spend Optimization</h3>
+                  {spendPlan.demo && (
+                    <span
+                      className="px-2 py-0.5 text-xs font-medium bg-yellow-100 text-yellow-800 rounded-full"
+                      title="Planned on sample channel spend and performance, not your organization's data"
+                    >
+                      Demo data
+                    </span>
+                  )}
+                </div>
+                <button
+                  onClick={exportRampSchedule}
+                  className="flex items-center space-x-2 px-3 py-1 bg-gray-600 text-white rounded-md text-sm hover:bg-gray-700"
+                >
+                  <Download className="h-4 w-4" />
+                  <span>Export Ramp Schedule</span>
+                </button>
+              </div>
 
               {/* Guardrails Status */}
               <div className="mb-6 flex flex-wrap gap-2">
@@ -460,6 +752,11 @@ export default function StrategyClient() {
                 <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
                   <h4 className="font-medium text-red-900 mb-2">Infeasibility Detected</h4>
                   <p className="text-red-700 mb-3">{spendPlan.infeasible.reason}</p>
+                  {spendPlan.adjustedPlan && (
+                    <p className="text-sm text-red-700 mb-3">
+                      The amounts below are the closest plan within platform minimums and the concentration cap.
+                    </p>
+                  )}
                   <div className="space-y-2">
                     <p className="text-sm font-medium text-red-900">Suggested Solutions:</p>
                     {spendPlan.infeasible.suggestions.map((suggestion: string, index: number) => (
@@ -537,6 +834,11 @@ export default function StrategyClient() {
                   </div>
                   <div className="mt-2 text-sm text-green-700">
                     Confidence: {(spendPlan.expectedImpact.confidence * 100).toFixed(0)}%
+                    {spendPlan.simulation && (
+                      <span className="text-green-600">
+                        {' '}· {spendPlan.simulation.runs} Monte Carlo runs, seed {spendPlan.simulation.seed}
+                      </span>
+                    )}
                   </div>
                 </div>
               )}
@@ -582,7 +884,9 @@ export default function StrategyClient() {
                     )}
                     {experiment.status === 'completed' && (
                       <div className="flex items-center justify-between text-sm">
-                        <span className="text-gray-500">Result: {experiment.result || 'Completed'}</span>
+                        <span className="text-gray-500">
+                          Result: {experiment.lift !== null ? `${experiment.lift > 0 ? '+' : ''}${experiment.lift.toFixed(1)}% lift (p=${experiment.pValue.toFixed(3)})` : 'Completed'}
+                        </span>
                         <span className="text-gray-500">Decision: {experiment.decision || 'Pending'}</span>
                       </div>
                     )}
@@ -647,7 +951,7 @@ export default function StrategyClient() {
                           {entry.entityTitle}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                          {entry.expectedImpact?.revenue ? `$${(entry.expectedImpact.revenue / 1000).toFixed(0)}K` : '-'}
+                          {entry.expectedImpact?.revenue?.delta ? `$${(entry.expectedImpact.revenue.delta / 1000).toFixed(0)}K` : '-'}
                         </td>
                       </tr>
                     ))}
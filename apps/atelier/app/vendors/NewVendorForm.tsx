@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import type { Vendor } from '@prime-growth-os/types'
+
+export type NewVendorValues = Pick<Vendor, 'name' | 'category' | 'contactPerson' | 'email' | 'phone' | 'certifications'>
+
+export const VENDOR_CATEGORIES = [
+  'Construcción General',
+  'Materiales de Construcción',
+  'MEP (Mecánico, Eléctrico, Plomería)',
+  'Acabados y Revestimientos'
+]
+
+export default function NewVendorForm({
+  onSubmit,
+  onCancel
+}: {
+  onSubmit: (values: NewVendorValues) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState<Omit<NewVendorValues, 'certifications'>>({
+    name: '',
+    category: VENDOR_CATEGORIES[0],
+    contactPerson: '',
+    email: '',
+    phone: ''
+  })
+  const [certifications, setCertifications] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<NewVendorValues>) => setValues((current) => ({ ...current, ...changes }))
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit({
+      ...values,
+      certifications: certifications.split(',').map((c) => c.trim()).filter(Boolean)
+    })
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const field = 'w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow-card border border-gray-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Nuevo Proveedor</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Nombre</label>
+          <input className={field} value={values.name} onChange={(e) => update({ name: e.target.value })} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Categoría</label>
+          <select className={field} value={values.category} onChange={(e) => update({ category: e.target.value })}>
+            {VENDOR_CATEGORIES.map((category) => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Contacto</label>
+          <input className={field} value={values.contactPerson} onChange={(e) => update({ contactPerson: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+          <input type="email" className={field} value={values.email} onChange={(e) => update({ email: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Teléfono</label>
+          <input className={field} value={values.phone} onChange={(e) => update({ phone: e.target.value })} />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Certificaciones (separadas por comas)</label>
+          <input className={field} value={certifications} onChange={(e) => setCertifications(e.target.value)} />
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        OTIF, calidad, costo y tiempo de respuesta se calculan con las órdenes de compra y entregas que registres.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn-outline" onClick={onCancel}>Cancelar</button>
+        <button type="submit" className="btn-primary" disabled={saving}>
+          {saving ? 'Guardando...' : 'Crear Proveedor'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,274 @@
+'use client'
+
+import { useState } from 'react'
+import type { Project, PurchaseOrder, Vendor } from '@prime-growth-os/types'
+import { ORDER_STATUS_LABELS, deliveredQuantity, orderOutcome } from '@/lib/vendors/rules'
+
+export type NewOrderValues = Pick<PurchaseOrder, 'description' | 'quotedAmount' | 'promisedDate' | 'promisedQuantity'> & { projectId: string }
+export type OrderChanges = Partial<Pick<PurchaseOrder, 'acknowledgedAt' | 'invoicedAmount' | 'status'>>
+export type DeliveryValues = { deliveredAt: string; quantity: number; defects: number; notes: string }
+
+const today = () => new Date().toISOString().slice(0, 10)
+
+const formatMonth = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString('es-MX', { timeZone: 'UTC', month: 'short', year: '2-digit' })
+
+const formatScore = (value: number | null, suffix = '') => (value === null ? '—' : `${value}${suffix}`)
+
+function outcomeBadge(order: PurchaseOrder) {
+  if (order.status === 'cancelada') return { label: 'Cancelada', color: 'bg-gray-100 text-gray-600' }
+  if (order.promisedDate >= today() && deliveredQuantity(order) < order.promisedQuantity) {
+    return { label: 'En tiempo', color: 'bg-blue-100 text-blue-800' }
+  }
+  const outcome = orderOutcome(order)
+  if (outcome.otif) return { label: 'OTIF', color: 'bg-green-100 text-green-800' }
+  if (!outcome.onTime) return { label: 'Tarde', color: 'bg-red-100 text-red-800' }
+  return { label: 'Incompleta', color: 'bg-yellow-100 text-yellow-800' }
+}
+
+export default function VendorOrders({
+  vendor,
+  projects,
+  showNewOrder,
+  onCreateOrder,
+  onUpdateOrder,
+  onRecordDelivery,
+  onCloseNewOrder
+}: {
+  vendor: Vendor
+  projects: Project[]
+  showNewOrder: boolean
+  onCreateOrder: (values: NewOrderValues) => Promise<string | null>
+  onUpdateOrder: (orderId: string, changes: OrderChanges) => Promise<string | null>
+  onRecordDelivery: (orderId: string, values: DeliveryValues) => Promise<string | null>
+  onCloseNewOrder: () => void
+}) {
+  const [order, setOrder] = useState<NewOrderValues>({
+    description: '',
+    projectId: '',
+    quotedAmount: 0,
+    promisedDate: today(),
+    promisedQuantity: 1
+  })
+  const [delivery, setDelivery] = useState<DeliveryValues & { orderId: string } | null>(null)
+  const [invoice, setInvoice] = useState<{ orderId: string; amount: string } | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<string | null>, onDone?: () => void) => {
+    setSaving(true)
+    setError(null)
+    const failure = await action()
+    setSaving(false)
+    if (failure) {
+      setError(failure)
+    } else if (onDone) {
+      onDone()
+    }
+  }
+
+  const projectName = (id?: string) => (id ? projects.find((p) => p.id === id)?.name || id : null)
+  const field = 'w-full py-1 px-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="border-t border-gray-200 pt-4 mt-4 space-y-4">
+      {/* Trend: one rolling window per month */}
+      <div>
+        <p className="text-xs font-medium text-gray-600 mb-2">
+          Tendencia (ventana móvil de {vendor.scorecard.windowDays} días al cierre de cada mes)
+        </p>
+        <table className="w-full text-xs text-gray-700">
+          <thead>
+            <tr className="text-gray-500">
+              <th className="text-left font-medium">Mes</th>
+              <th className="text-right font-medium">Órdenes</th>
+              <th className="text-right font-medium">OTIF</th>
+              <th className="text-right font-medium">Defectos</th>
+              <th className="text-right font-medium">Costo vs cotizado</th>
+              <th className="text-right font-medium">Respuesta</th>
+            </tr>
+          </thead>
+          <tbody>
+            {vendor.history.map((point) => (
+              <tr key={point.asOf}>
+                <td>{formatMonth(point.asOf)}</td>
+                <td className="text-right">{point.orders}</td>
+                <td className="text-right">{formatScore(point.otifScore, '%')}</td>
+                <td className="text-right">{formatScore(point.defectRate, '%')}</td>
+                <td className="text-right">{point.costVariance === null ? '—' : `${point.costVariance > 0 ? '+' : ''}${point.costVariance}%`}</td>
+                <td className="text-right">{formatScore(point.responseTime, 'h')}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {showNewOrder && (
+        <form
+          className="bg-gray-50 rounded-lg p-3 space-y-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            run(() => onCreateOrder(order), onCloseNewOrder)
+          }}
+        >
+          <p className="text-sm font-medium text-gray-900">Nueva orden de compra</p>
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              className={`${field} col-span-2`}
+              placeholder="Descripción"
+              value={order.description}
+              onChange={(e) => setOrder({ ...order, description: e.target.value })}
+              required
+            />
+            <select className={field} value={order.projectId} onChange={(e) => setOrder({ ...order, projectId: e.target.value })}>
+              <option value="">Sin proyecto</option>
+              {projects.map((p) => (
+                <option key={p.id} value={p.id}>{p.name}</option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min={0}
+              className={field}
+              title="Monto cotizado (MXN)"
+              value={order.quotedAmount}
+              onChange={(e) => setOrder({ ...order, quotedAmount: Number(e.target.value) })}
+            />
+            <input
+              type="date"
+              className={field}
+              title="Fecha prometida"
+              value={order.promisedDate}
+              onChange={(e) => setOrder({ ...order, promisedDate: e.target.value })}
+              required
+            />
+            <input
+              type="number"
+              min={1}
+              className={field}
+              title="Cantidad prometida"
+              value={order.promisedQuantity}
+              onChange={(e) => setOrder({ ...order, promisedQuantity: Number(e.target.value) })}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <button type="button" className="btn-outline text-xs px-3 py-1" onClick={onCloseNewOrder}>Cancelar</button>
+            <button type="submit" className="btn-primary text-xs px-3 py-1" disabled={saving}>Emitir orden</button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {vendor.orders.length === 0 ? (
+        <p className="text-sm text-gray-500">Sin órdenes de compra registradas.</p>
+      ) : (
+        <ul className="space-y-3">
+          {vendor.orders.map((po) => {
+            const badge = outcomeBadge(po)
+            return (
+              <li key={po.id} className="text-sm border border-gray-200 rounded-md p-3">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="font-medium text-gray-900">{po.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {projectName(po.projectId) && `${projectName(po.projectId)} · `}
+                      Prometido {po.promisedQuantity} para {po.promisedDate} · recibido {deliveredQuantity(po)} ·{' '}
+                      {ORDER_STATUS_LABELS[po.status]}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      Cotizado ${po.quotedAmount.toLocaleString('es-MX')}
+                      {po.invoicedAmount !== undefined && ` · facturado $${po.invoicedAmount.toLocaleString('es-MX')}`}
+                      {po.acknowledgedAt
+                        ? ` · confirmada ${new Date(po.acknowledgedAt).toLocaleDateString('es-MX')}`
+                        : ' · sin confirmar'}
+                    </p>
+                  </div>
+                  <span className={`badge ${badge.color}`}>{badge.label}</span>
+                </div>
+
+                {po.deliveries.length > 0 && (
+                  <ul className="mt-2 text-xs text-gray-600">
+                    {po.deliveries.map((d) => (
+                      <li key={d.id}>
+                        {d.deliveredAt}: {d.quantity} recibidos{d.defects > 0 && `, ${d.defects} con defecto`}
+                        {d.notes && ` — ${d.notes}`}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                {po.status !== 'cancelada' && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {!po.acknowledgedAt && (
+                      <button
+                        className="btn-outline text-xs px-2 py-1"
+                        disabled={saving}
+                        onClick={() => run(() => onUpdateOrder(po.id, { acknowledgedAt: new Date().toISOString() }))}
+                      >
+                        Proveedor confirmó
+                      </button>
+                    )}
+                    {po.status === 'abierta' && (
+                      <button
+                        className="btn-outline text-xs px-2 py-1"
+                        onClick={() => setDelivery({ orderId: po.id, deliveredAt: today(), quantity: po.promisedQuantity - deliveredQuantity(po), defects: 0, notes: '' })}
+                      >
+                        Registrar entrega
+                      </button>
+                    )}
+                    <button
+                      className="btn-outline text-xs px-2 py-1"
+                      onClick={() => setInvoice({ orderId: po.id, amount: String(po.invoicedAmount ?? po.quotedAmount) })}
+                    >
+                      {po.invoicedAmount === undefined ? 'Registrar factura' : 'Corregir factura'}
+                    </button>
+                    {po.status === 'abierta' && po.deliveries.length === 0 && (
+                      <button
+                        className="btn-outline text-xs px-2 py-1"
+                        disabled={saving}
+                        onClick={() => run(() => onUpdateOrder(po.id, { status: 'cancelada' }))}
+                      >
+                        Cancelar orden
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {delivery?.orderId === po.id && (
+                  <form
+                    className="mt-2 grid grid-cols-4 gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      const { orderId, ...values } = delivery
+                      run(() => onRecordDelivery(orderId, values), () => setDelivery(null))
+                    }}
+                  >
+                    <input type="date" className={field} value={delivery.deliveredAt} onChange={(e) => setDelivery({ ...delivery, deliveredAt: e.target.value })} />
+                    <input type="number" min={1} className={field} title="Cantidad recibida" value={delivery.quantity} onChange={(e) => setDelivery({ ...delivery, quantity: Number(e.target.value) })} />
+                    <input type="number" min={0} className={field} title="Unidades con defecto" value={delivery.defects} onChange={(e) => setDelivery({ ...delivery, defects: Number(e.target.value) })} />
+                    <button type="submit" className="btn-primary text-xs px-2 py-1" disabled={saving}>Guardar</button>
+                    <input className={`${field} col-span-4`} placeholder="Notas de recepción" value={delivery.notes} onChange={(e) => setDelivery({ ...delivery, notes: e.target.value })} />
+                  </form>
+                )}
+
+                {invoice?.orderId === po.id && (
+                  <form
+                    className="mt-2 flex gap-2"
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      run(() => onUpdateOrder(po.id, { invoicedAmount: Number(invoice.amount) }), () => setInvoice(null))
+                    }}
+                  >
+                    <input type="number" min={0} className={field} title="Monto facturado (MXN)" value={invoice.amount} onChange={(e) => setInvoice({ ...invoice, amount: e.target.value })} />
+                    <button type="submit" className="btn-primary text-xs px-2 py-1" disabled={saving}>Guardar</button>
+                  </form>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
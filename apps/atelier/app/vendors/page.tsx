@@ -1,7 +1,8 @@
 'use client'
 
-import { useState } from 'react'
-import { Vendor } from '@prime-growth-os/types'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { Project, Vendor } from '@prime-growth-os/types'
 import {
   Truck,
   Star,
@@ -12,89 +13,111 @@ import {
   Mail,
   Search,
   Filter,
-  MoreHorizontal,
   TrendingUp,
-  TrendingDown
+  TrendingDown,
+  ClipboardList
 } from 'lucide-react'
+import { SCORECARD_WINDOW_DAYS, VENDOR_STATUS_LABELS, VENDOR_THRESHOLDS } from '@/lib/vendors/rules'
+import NewVendorForm, { VENDOR_CATEGORIES, type NewVendorValues } from './NewVendorForm'
+import VendorOrders, { type DeliveryValues, type NewOrderValues, type OrderChanges } from './VendorOrders'
 
-// Mock data for vendors
-const mockVendors: Vendor[] = [
-  {
-    id: 'vendor-001',
-    name: 'Construcciones Elite SA',
-    category: 'Construcción General',
-    contactPerson: 'Ing. Fernando López',
-    email: 'flopez@elite.mx',
-    phone: '+52 55 1234-5678',
-    otifScore: 94,
-    qualityRating: 4.8,
-    costRating: 4.2,
-    responseTime: 4.5,
-    certifications: ['ISO 9001', 'LEED AP', 'OSHA'],
-    status: 'activo',
-    lastDelivery: '2024-01-10',
-    totalOrders: 45,
-    averageOrderValue: 185000
-  },
-  {
-    id: 'vendor-002',
-    name: 'Materiales Premium',
-    category: 'Materiales de Construcción',
-    contactPerson: 'Lic. Ana García',
-    email: 'ventas@premium.mx',
-    phone: '+52 55 9876-5432',
-    otifScore: 88,
-    qualityRating: 4.5,
-    costRating: 3.8,
-    responseTime: 6.2,
-    certifications: ['ISO 14001', 'NOM-008'],
-    status: 'activo',
-    lastDelivery: '2024-01-12',
-    totalOrders: 78,
-    averageOrderValue: 95000
-  },
-  {
-    id: 'vendor-003',
-    name: 'Instalaciones Especializadas',
-    category: 'MEP (Mecánico, Eléctrico, Plomería)',
-    contactPerson: 'Ing. Carlos Mendoza',
-    email: 'cmendoza@instalaciones.mx',
-    phone: '+52 55 2468-1357',
-    otifScore: 91,
-    qualityRating: 4.6,
-    costRating: 4.0,
-    responseTime: 5.1,
-    certifications: ['NFPA', 'IEEE', 'ASHRAE'],
-    status: 'activo',
-    lastDelivery: '2024-01-08',
-    totalOrders: 32,
-    averageOrderValue: 245000
-  },
-  {
-    id: 'vendor-004',
-    name: 'Acabados de Lujo',
-    category: 'Acabados y Revestimientos',
-    contactPerson: 'Arq. Patricia Luna',
-    email: 'pluna@acabados.mx',
-    phone: '+52 55 7410-8529',
-    otifScore: 76,
-    qualityRating: 4.9,
-    costRating: 3.2,
-    responseTime: 8.7,
-    certifications: ['GREENGUARD', 'LEED'],
-    status: 'en_evaluacion',
-    lastDelivery: '2024-01-05',
-    totalOrders: 18,
-    averageOrderValue: 320000
-  }
-]
+// Active vendors first, then by OTIF, so project managers see the reliable ones on top
+const STATUS_ORDER: Vendor['status'][] = ['activo', 'en_evaluacion', 'inactivo']
+const byReliability = (a: Vendor, b: Vendor) =>
+  STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || (b.otifScore ?? -1) - (a.otifScore ?? -1)
+
+function average(values: (number | null)[]): number | null {
+  const known = values.filter((v): v is number => v !== null)
+  return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : null
+}
 
 export default function VendorsPage() {
-  const [vendors] = useState<Vendor[]>(mockVendors)
+  const [vendors, setVendors] = useState<Vendor[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+  const [expanded, setExpanded] = useState<{ vendorId: string; newOrder: boolean } | null>(null)
   const [searchTerm, setSearchTerm] = useState('')
   const [categoryFilter, setCategoryFilter] = useState('all')
   const [statusFilter, setStatusFilter] = useState('all')
 
+  useEffect(() => {
+    loadVendors()
+    loadProjects()
+  }, [])
+
+  const loadVendors = async () => {
+    try {
+      const res = await fetch('/api/vendors')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar los proveedores')
+        return
+      }
+      setVendors(data.vendors || [])
+    } catch (err) {
+      console.error('Failed to load vendors:', err)
+      setError('No se pudieron cargar los proveedores')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Purchase orders can be charged to a project
+  const loadProjects = async () => {
+    try {
+      const res = await fetch('/api/projects')
+      const data = await res.json()
+      if (res.ok) setProjects(data.projects || [])
+    } catch (err) {
+      console.error('Failed to load projects:', err)
+    }
+  }
+
+  const replaceVendor = (vendor: Vendor) =>
+    setVendors((current) => current.map((v) => (v.id === vendor.id ? vendor : v)))
+
+  const send = async (url: string, method: string, body: unknown, fallback: string) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || fallback
+    replaceVendor(data.vendor)
+    return null
+  }
+
+  const createVendor = async (values: NewVendorValues) => {
+    const res = await fetch('/api/vendors', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo crear el proveedor'
+
+    setVendors((current) => [data.vendor, ...current])
+    setShowForm(false)
+    return null
+  }
+
+  const changeStatus = (vendor: Vendor, status: Vendor['status']) =>
+    send(`/api/vendors/${vendor.id}`, 'PATCH', { status }, 'No se pudo cambiar el estado').then((failure) => {
+      if (failure) setError(failure)
+    })
+
+  const createOrder = (vendor: Vendor, values: NewOrderValues) =>
+    send(`/api/vendors/${vendor.id}/orders`, 'POST', values, 'No se pudo emitir la orden')
+
+  const updateOrder = (vendor: Vendor, orderId: string, changes: OrderChanges) =>
+    send(`/api/vendors/${vendor.id}/orders/${orderId}`, 'PATCH', changes, 'No se pudo actualizar la orden')
+
+  const recordDelivery = (vendor: Vendor, orderId: string, values: DeliveryValues) =>
+    send(`/api/vendors/${vendor.id}/orders/${orderId}/deliveries`, 'POST', values, 'No se pudo registrar la entrega')
+
   const filteredVendors = vendors.filter(vendor => {
     const matchesSearch = vendor.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          vendor.contactPerson.toLowerCase().includes(searchTerm.toLowerCase())
@@ -102,11 +125,23 @@ export default function VendorsPage() {
     const matchesStatus = statusFilter === 'all' || vendor.status === statusFilter
 
     return matchesSearch && matchesCategory && matchesStatus
-  })
+  }).sort(byReliability)
+
+  const averageOtif = average(vendors.map((v) => v.otifScore))
+  const averageResponse = average(vendors.map((v) => v.responseTime))
+  const averageOrder = average(vendors.filter((v) => v.totalOrders > 0).map((v) => v.averageOrderValue))
 
-  const getOTIFColor = (score: number) => {
+  // Month-over-month direction of the rolling OTIF
+  const otifTrend = (vendor: Vendor) => {
+    const previous = vendor.history[vendor.history.length - 2]?.otifScore ?? null
+    if (vendor.otifScore === null || previous === null || vendor.otifScore === previous) return null
+    return vendor.otifScore > previous ? 'up' : 'down'
+  }
+
+  const getOTIFColor = (score: number | null) => {
+    if (score === null) return 'text-gray-400'
     if (score >= 95) return 'text-green-600'
-    if (score >= 85) return 'text-yellow-600'
+    if (score >= VENDOR_THRESHOLDS.otifScore) return 'text-yellow-600'
     return 'text-red-600'
   }
 
@@ -119,12 +154,12 @@ export default function VendorsPage() {
     }
   }
 
-  const renderStars = (rating: number) => {
+  const renderStars = (rating: number | null) => {
     return Array.from({ length: 5 }, (_, i) => (
       <Star
         key={i}
         className={`h-4 w-4 ${
-          i < Math.floor(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'
+          rating !== null && i < Math.floor(rating) ? 'text-yellow-400 fill-current' : 'text-gray-300'
         }`}
       />
     ))
@@ -137,15 +172,28 @@ export default function VendorsPage() {
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Gestión de Proveedores</h1>
           <p className="text-gray-600 mt-2">
-            {filteredVendors.length} proveedores registrados • OTIF promedio: {Math.round(vendors.reduce((sum, v) => sum + v.otifScore, 0) / vendors.length)}%
+            {filteredVendors.length} proveedores registrados • OTIF promedio: {averageOtif === null ? '—' : `${Math.round(averageOtif)}%`}
+            {' '}• ventana móvil de {SCORECARD_WINDOW_DAYS} días
           </p>
         </div>
-        <button className="btn-primary">
-          <Truck className="h-4 w-4 mr-2" />
-          Nuevo Proveedor
-        </button>
+        <div className="flex space-x-3">
+          <Link href="/vendors/rfqs" className="btn-outline">
+            <ClipboardList className="h-4 w-4 mr-2" />
+            Solicitudes de Cotización
+          </Link>
+          <button className="btn-primary" onClick={() => setShowForm(true)}>
+            <Truck className="h-4 w-4 mr-2" />
+            Nuevo Proveedor
+          </button>
+        </div>
       </div>
 
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+      )}
+
+      {showForm && <NewVendorForm onSubmit={createVendor} onCancel={() => setShowForm(false)} />}
+
       {/* Filters */}
       <div className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
@@ -171,10 +219,9 @@ export default function VendorsPage() {
               onChange={(e) => setCategoryFilter(e.target.value)}
             >
               <option value="all">Todas las categorías</option>
-              <option value="Construcción General">Construcción General</option>
-              <option value="Materiales de Construcción">Materiales</option>
-              <option value="MEP (Mecánico, Eléctrico, Plomería)">MEP</option>
-              <option value="Acabados y Revestimientos">Acabados</option>
+              {VENDOR_CATEGORIES.map((category) => (
+                <option key={category} value={category}>{category}</option>
+              ))}
             </select>
           </div>
 
@@ -186,9 +233,9 @@ export default function VendorsPage() {
               onChange={(e) => setStatusFilter(e.target.value)}
             >
               <option value="all">Todos los estados</option>
-              <option value="activo">Activo</option>
-              <option value="inactivo">Inactivo</option>
-              <option value="en_evaluacion">En Evaluación</option>
+              {Object.entries(VENDOR_STATUS_LABELS).map(([status, label]) => (
+                <option key={status} value={status}>{label}</option>
+              ))}
             </select>
           </div>
 
@@ -202,6 +249,10 @@ export default function VendorsPage() {
       </div>
 
       {/* Vendors Grid */}
+      {loading && <p className="text-sm text-gray-500">Cargando proveedores...</p>}
+      {!loading && vendors.length === 0 && (
+        <p className="text-sm text-gray-500">Aún no hay proveedores. Registra el primero con Nuevo Proveedor.</p>
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {filteredVendors.map((vendor) => (
           <div key={vendor.id} className="bg-white rounded-lg shadow-card border border-gray-200 p-6">
@@ -213,14 +264,27 @@ export default function VendorsPage() {
               </div>
               <div className="flex items-center space-x-2">
                 <span className={`badge ${getStatusColor(vendor.status)}`}>
-                  {vendor.status.replace('_', ' ')}
+                  {VENDOR_STATUS_LABELS[vendor.status]}
                 </span>
-                <button className="text-gray-400 hover:text-gray-600">
-                  <MoreHorizontal className="h-4 w-4" />
-                </button>
               </div>
             </div>
 
+            {vendor.status !== 'activo' && (
+              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                {vendor.statusReason && <p>{vendor.statusReason}</p>}
+                <div className="mt-2 flex space-x-2">
+                  <button className="btn-outline text-xs px-2 py-1" onClick={() => changeStatus(vendor, 'activo')}>
+                    Reactivar
+                  </button>
+                  {vendor.status === 'en_evaluacion' && (
+                    <button className="btn-outline text-xs px-2 py-1" onClick={() => changeStatus(vendor, 'inactivo')}>
+                      Desactivar
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
             {/* Contact Info */}
             <div className="mb-4">
               <p className="text-sm font-medium text-gray-900 mb-1">{vendor.contactPerson}</p>
@@ -241,17 +305,21 @@ export default function VendorsPage() {
               <div className="bg-gray-50 rounded-lg p-3">
                 <div className="flex items-center justify-between">
                   <span className="text-xs font-medium text-gray-600">OTIF Score</span>
-                  {vendor.otifScore >= 95 ? <TrendingUp className="h-3 w-3 text-green-500" /> : <TrendingDown className="h-3 w-3 text-red-500" />}
+                  {otifTrend(vendor) === 'up' && <TrendingUp className="h-3 w-3 text-green-500" />}
+                  {otifTrend(vendor) === 'down' && <TrendingDown className="h-3 w-3 text-red-500" />}
                 </div>
                 <p className={`text-lg font-bold ${getOTIFColor(vendor.otifScore)}`}>
-                  {vendor.otifScore}%
+                  {vendor.otifScore === null ? '—' : `${vendor.otifScore}%`}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {vendor.scorecard.orders} órdenes vencidas · a tiempo {vendor.scorecard.onTimeRate ?? '—'}% · completas {vendor.scorecard.inFullRate ?? '—'}%
                 </p>
               </div>
 
               <div className="bg-gray-50 rounded-lg p-3">
                 <span className="text-xs font-medium text-gray-600">Tiempo Respuesta</span>
                 <p className="text-lg font-bold text-gray-900">
-                  {vendor.responseTime}h
+                  {vendor.responseTime === null ? '—' : `${vendor.responseTime}h`}
                 </p>
               </div>
 
@@ -259,7 +327,7 @@ export default function VendorsPage() {
                 <span className="text-xs font-medium text-gray-600">Calidad</span>
                 <div className="flex items-center space-x-1">
                   {renderStars(vendor.qualityRating)}
-                  <span className="text-sm text-gray-600 ml-1">{vendor.qualityRating}</span>
+                  <span className="text-sm text-gray-600 ml-1">{vendor.qualityRating ?? '—'}</span>
                 </div>
               </div>
 
@@ -267,7 +335,7 @@ export default function VendorsPage() {
                 <span className="text-xs font-medium text-gray-600">Costo</span>
                 <div className="flex items-center space-x-1">
                   {renderStars(vendor.costRating)}
-                  <span className="text-sm text-gray-600 ml-1">{vendor.costRating}</span>
+                  <span className="text-sm text-gray-600 ml-1">{vendor.costRating ?? '—'}</span>
                 </div>
               </div>
             </div>
@@ -276,7 +344,9 @@ export default function VendorsPage() {
             <div className="flex justify-between items-center text-sm text-gray-600 mb-4">
               <span>{vendor.totalOrders} órdenes</span>
               <span>Promedio: ${vendor.averageOrderValue.toLocaleString('es-MX')}</span>
-              <span>Última entrega: {new Date(vendor.lastDelivery).toLocaleDateString('es-MX')}</span>
+              <span>
+                Última entrega: {vendor.lastDelivery ? new Date(`${vendor.lastDelivery}T00:00:00Z`).toLocaleDateString('es-MX', { timeZone: 'UTC' }) : '—'}
+              </span>
             </div>
 
             {/* Certifications */}
@@ -294,13 +364,32 @@ export default function VendorsPage() {
 
             {/* Actions */}
             <div className="flex space-x-2">
-              <button className="btn-primary text-sm flex-1">
+              <button
+                className="btn-primary text-sm flex-1"
+                disabled={vendor.status === 'inactivo'}
+                onClick={() => setExpanded({ vendorId: vendor.id, newOrder: true })}
+              >
                 Nueva Orden
               </button>
-              <button className="btn-outline text-sm flex-1">
-                Ver Historial
+              <button
+                className="btn-outline text-sm flex-1"
+                onClick={() => setExpanded(expanded?.vendorId === vendor.id ? null : { vendorId: vendor.id, newOrder: false })}
+              >
+                {expanded?.vendorId === vendor.id ? 'Ocultar Historial' : 'Ver Historial'}
               </button>
             </div>
+
+            {expanded?.vendorId === vendor.id && (
+              <VendorOrders
+                vendor={vendor}
+                projects={projects}
+                showNewOrder={expanded.newOrder}
+                onCreateOrder={(values) => createOrder(vendor, values)}
+                onUpdateOrder={(orderId, changes) => updateOrder(vendor, orderId, changes)}
+                onRecordDelivery={(orderId, values) => recordDelivery(vendor, orderId, values)}
+                onCloseNewOrder={() => setExpanded({ vendorId: vendor.id, newOrder: false })}
+              />
+            )}
           </div>
         ))}
       </div>
@@ -336,7 +425,7 @@ export default function VendorsPage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">OTIF Promedio</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {Math.round(vendors.reduce((sum, v) => sum + v.otifScore, 0) / vendors.length)}%
+                  {averageOtif === null ? '—' : `${Math.round(averageOtif)}%`}
                 </dd>
               </dl>
             </div>
@@ -354,7 +443,7 @@ export default function VendorsPage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Tiempo Respuesta</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  {Math.round(vendors.reduce((sum, v) => sum + v.responseTime, 0) / vendors.length * 10) / 10}h
+                  {averageResponse === null ? '—' : `${Math.round(averageResponse * 10) / 10}h`}
                 </dd>
               </dl>
             </div>
@@ -372,7 +461,7 @@ export default function VendorsPage() {
               <dl>
                 <dt className="text-sm font-medium text-gray-500 truncate">Valor Promedio</dt>
                 <dd className="text-lg font-medium text-gray-900">
-                  ${Math.round(vendors.reduce((sum, v) => sum + v.averageOrderValue, 0) / vendors.length).toLocaleString('es-MX')}
+                  {averageOrder === null ? '—' : `$${Math.round(averageOrder).toLocaleString('es-MX')}`}
                 </dd>
               </dl>
             </div>
@@ -0,0 +1,118 @@
+'use client'
+
+import { useState } from 'react'
+import type { Project, Rfq } from '@prime-growth-os/types'
+import { VENDOR_CATEGORIES } from '../NewVendorForm'
+
+export type NewRfqValues = Pick<Rfq, 'projectId' | 'lineItem' | 'category' | 'quantity' | 'neededBy' | 'requiredCertifications'>
+
+export default function NewRfqForm({
+  projects,
+  onSubmit,
+  onCancel
+}: {
+  projects: Project[]
+  onSubmit: (values: NewRfqValues) => Promise<string | null>
+  onCancel: () => void
+}) {
+  const [values, setValues] = useState<Omit<NewRfqValues, 'requiredCertifications'>>({
+    projectId: projects[0]?.id || '',
+    lineItem: '',
+    category: VENDOR_CATEGORIES[0],
+    quantity: 1,
+    neededBy: new Date().toISOString().slice(0, 10)
+  })
+  const [certifications, setCertifications] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (changes: Partial<NewRfqValues>) => setValues((current) => ({ ...current, ...changes }))
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError(null)
+    const failure = await onSubmit({
+      ...values,
+      requiredCertifications: certifications.split(',').map((c) => c.trim()).filter(Boolean)
+    })
+    setSaving(false)
+    if (failure) setError(failure)
+  }
+
+  const field = 'w-full py-2 px-3 border border-gray-300 rounded-md focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <form onSubmit={submit} className="bg-white rounded-lg shadow-card border border-gray-200 p-6 space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Nueva Solicitud de Cotización</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Proyecto</label>
+          <select className={field} value={values.projectId} onChange={(e) => update({ projectId: e.target.value })} required>
+            {projects.length === 0 && <option value="">Sin proyectos</option>}
+            {projects.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-sm font-medium text-gray-700 mb-1">Partida</label>
+          <input
+            className={field}
+            placeholder="p. ej. Instalación eléctrica nivel 2"
+            value={values.lineItem}
+            onChange={(e) => update({ lineItem: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Categoría de proveedor</label>
+          <select className={field} value={values.category} onChange={(e) => update({ category: e.target.value })}>
+            {VENDOR_CATEGORIES.map((category) => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Cantidad</label>
+          <input
+            type="number"
+            min={1}
+            className={field}
+            value={values.quantity}
+            onChange={(e) => update({ quantity: Number(e.target.value) })}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Se necesita para</label>
+          <input
+            type="date"
+            className={field}
+            value={values.neededBy}
+            onChange={(e) => update({ neededBy: e.target.value })}
+            required
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Certificaciones requeridas (separadas por comas)</label>
+        <input className={field} value={certifications} onChange={(e) => setCertifications(e.target.value)} />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Se invita a todos los proveedores activos o en evaluación de la categoría.
+      </p>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end space-x-3">
+        <button type="button" className="btn-outline" onClick={onCancel}>Cancelar</button>
+        <button type="submit" className="btn-primary" disabled={saving || projects.length === 0}>
+          {saving ? 'Guardando...' : 'Enviar Solicitud'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,251 @@
+'use client'
+
+import { useState } from 'react'
+import type { Rfq, RfqWeights, Vendor } from '@prime-growth-os/types'
+import { Award, CheckCircle, AlertTriangle } from 'lucide-react'
+import { RFQ_STATUS_LABELS, type RfqComparisonRow, type RfqRecommendation } from '@/lib/rfqs/rules'
+import { VENDOR_STATUS_LABELS } from '@/lib/vendors/rules'
+
+export type RfqDetails = {
+  rfq: Rfq
+  comparison: RfqComparisonRow[]
+  recommendation: RfqRecommendation | null
+  invited: Pick<Vendor, 'id' | 'name' | 'status'>[]
+}
+
+export type ResponseValues = { vendorId: string; amount: number; leadTimeDays: number; notes: string }
+
+const WEIGHT_LABELS: Record<keyof RfqWeights, string> = {
+  price: 'Precio',
+  otif: 'OTIF',
+  quality: 'Calidad',
+  certifications: 'Certificaciones'
+}
+
+export default function RfqDetail({
+  details,
+  projectName,
+  onRecordResponse,
+  onUpdate,
+  onAward
+}: {
+  details: RfqDetails
+  projectName: string
+  onRecordResponse: (values: ResponseValues) => Promise<string | null>
+  onUpdate: (changes: { weights?: RfqWeights; status?: 'cancelada' }) => Promise<string | null>
+  onAward: (vendorId: string, rationale: string) => Promise<string | null>
+}) {
+  const { rfq, comparison, recommendation, invited } = details
+  const open = rfq.status === 'abierta'
+  const [response, setResponse] = useState<ResponseValues>({ vendorId: invited[0]?.id || '', amount: 0, leadTimeDays: 0, notes: '' })
+  const [weights, setWeights] = useState<RfqWeights>(rfq.weights)
+  const [awarding, setAwarding] = useState<string | null>(null)
+  const [rationale, setRationale] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<string | null>, onDone?: () => void) => {
+    setSaving(true)
+    setError(null)
+    const failure = await action()
+    setSaving(false)
+    if (failure) {
+      setError(failure)
+    } else if (onDone) {
+      onDone()
+    }
+  }
+
+  const pending = invited.filter((v) => !rfq.responses.some((r) => r.vendorId === v.id))
+  const field = 'w-full py-1 px-2 border border-gray-300 rounded-md text-sm focus:ring-primary-500 focus:border-primary-500'
+
+  return (
+    <div className="bg-white rounded-lg shadow-card border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-start">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">{rfq.lineItem}</h2>
+          <p className="text-sm text-gray-600">
+            {projectName} · {rfq.category} · {rfq.quantity} unidad{rfq.quantity === 1 ? '' : 'es'} · para {rfq.neededBy}
+          </p>
+          {rfq.requiredCertifications.length > 0 && (
+            <p className="text-xs text-gray-500">Requiere: {rfq.requiredCertifications.join(', ')}</p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          <span className="badge bg-gray-100 text-gray-800">{RFQ_STATUS_LABELS[rfq.status]}</span>
+          {open && (
+            <button className="btn-outline text-xs px-2 py-1" disabled={saving} onClick={() => run(() => onUpdate({ status: 'cancelada' }))}>
+              Cancelar RFQ
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {rfq.award && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-md text-sm text-green-900">
+            <p className="font-medium flex items-center">
+              <Award className="h-4 w-4 mr-2" />
+              Adjudicada a {rfq.award.vendorName} por ${rfq.award.amount.toLocaleString('es-MX')}
+              {rfq.award.score !== null && ` (puntaje ${rfq.award.score})`}
+            </p>
+            <p className="mt-1">{rfq.award.rationale}</p>
+            <p className="mt-1 text-xs text-green-700">
+              {rfq.award.awardedByName} · {new Date(rfq.award.awardedAt).toLocaleDateString('es-MX')} · orden {rfq.award.purchaseOrderId}
+            </p>
+          </div>
+        )}
+
+        {open && recommendation && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-900">
+            <p className="font-medium flex items-center">
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Recomendado: {recommendation.vendorName} ({recommendation.total})
+            </p>
+            <p className="mt-1">{recommendation.rationale}</p>
+          </div>
+        )}
+        {open && !recommendation && comparison.length > 0 && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-900 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Ningún proveedor activo entrega a tiempo; adjudicar requiere justificación.
+          </div>
+        )}
+
+        {/* Side-by-side comparison */}
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 border-b border-gray-200">
+                <th className="text-left font-medium py-2">Proveedor</th>
+                <th className="text-right font-medium">Monto</th>
+                <th className="text-right font-medium">Entrega</th>
+                <th className="text-right font-medium">Precio</th>
+                <th className="text-right font-medium">OTIF</th>
+                <th className="text-right font-medium">Calidad</th>
+                <th className="text-right font-medium">Certif.</th>
+                <th className="text-right font-medium">Total</th>
+                {open && <th />}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {comparison.map((row) => (
+                <tr key={row.vendorId} className={row.eligible ? '' : 'text-gray-400'}>
+                  <td className="py-2">
+                    <p className="font-medium">{row.vendorName}</p>
+                    <p className="text-xs">
+                      {row.vendorStatus && row.vendorStatus !== 'activo' && `${VENDOR_STATUS_LABELS[row.vendorStatus]} · `}
+                      {!row.meetsDeadline && 'no llega a la fecha · '}
+                      {row.missingCertifications.length > 0 && `sin ${row.missingCertifications.join(', ')} · `}
+                      {row.response.notes}
+                    </p>
+                  </td>
+                  <td className="text-right">${row.response.amount.toLocaleString('es-MX')}</td>
+                  <td className="text-right">{row.response.leadTimeDays} d</td>
+                  <td className="text-right">{row.priceScore}</td>
+                  <td className="text-right">{row.otifScore}</td>
+                  <td className="text-right">{row.qualityScore}</td>
+                  <td className="text-right">{row.certificationScore}</td>
+                  <td className="text-right font-semibold">{row.total}</td>
+                  {open && (
+                    <td className="text-right pl-2">
+                      <button className="btn-outline text-xs px-2 py-1" onClick={() => setAwarding(row.vendorId)}>
+                        Adjudicar
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {comparison.length === 0 && <p className="text-sm text-gray-500 mt-2">Aún no hay respuestas.</p>}
+        </div>
+
+        {awarding && (
+          <form
+            className="bg-gray-50 rounded-lg p-3 space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault()
+              run(() => onAward(awarding, rationale), () => setAwarding(null))
+            }}
+          >
+            <p className="text-sm font-medium text-gray-900">
+              Adjudicar a {comparison.find((row) => row.vendorId === awarding)?.vendorName}
+            </p>
+            <textarea
+              className={field}
+              rows={2}
+              placeholder={
+                recommendation?.vendorId === awarding
+                  ? 'Comentario (opcional)'
+                  : 'Justificación (obligatoria al adjudicar contra la recomendación)'
+              }
+              value={rationale}
+              onChange={(e) => setRationale(e.target.value)}
+            />
+            <div className="flex justify-end space-x-2">
+              <button type="button" className="btn-outline text-xs px-3 py-1" onClick={() => setAwarding(null)}>Cancelar</button>
+              <button type="submit" className="btn-primary text-xs px-3 py-1" disabled={saving}>Adjudicar y emitir orden</button>
+            </div>
+          </form>
+        )}
+
+        {open && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                run(() => onRecordResponse(response))
+              }}
+            >
+              <p className="text-sm font-medium text-gray-900">Registrar respuesta</p>
+              <select className={field} value={response.vendorId} onChange={(e) => setResponse({ ...response, vendorId: e.target.value })}>
+                {invited.map((v) => (
+                  <option key={v.id} value={v.id}>{v.name}</option>
+                ))}
+              </select>
+              <div className="grid grid-cols-2 gap-2">
+                <input type="number" min={0} className={field} title="Monto cotizado (MXN)" value={response.amount} onChange={(e) => setResponse({ ...response, amount: Number(e.target.value) })} />
+                <input type="number" min={0} className={field} title="Días de entrega" value={response.leadTimeDays} onChange={(e) => setResponse({ ...response, leadTimeDays: Number(e.target.value) })} />
+              </div>
+              <input className={field} placeholder="Notas" value={response.notes} onChange={(e) => setResponse({ ...response, notes: e.target.value })} />
+              <button type="submit" className="btn-primary text-xs px-3 py-1" disabled={saving || invited.length === 0}>Guardar respuesta</button>
+              {pending.length > 0 && (
+                <p className="text-xs text-gray-500">Sin responder: {pending.map((v) => v.name).join(', ')}</p>
+              )}
+            </form>
+
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault()
+                run(() => onUpdate({ weights }))
+              }}
+            >
+              <p className="text-sm font-medium text-gray-900">Pesos de la comparación</p>
+              <div className="grid grid-cols-2 gap-2">
+                {(Object.keys(WEIGHT_LABELS) as (keyof RfqWeights)[]).map((key) => (
+                  <label key={key} className="text-xs text-gray-600">
+                    {WEIGHT_LABELS[key]}
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      className={field}
+                      value={weights[key]}
+                      onChange={(e) => setWeights({ ...weights, [key]: Number(e.target.value) })}
+                    />
+                  </label>
+                ))}
+              </div>
+              <button type="submit" className="btn-outline text-xs px-3 py-1" disabled={saving}>Aplicar pesos</button>
+            </form>
+          </div>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import type { Project, Rfq, RfqWeights } from '@prime-growth-os/types'
+import { ClipboardList } from 'lucide-react'
+import { RFQ_STATUS_LABELS } from '@/lib/rfqs/rules'
+import NewRfqForm, { type NewRfqValues } from './NewRfqForm'
+import RfqDetail, { type RfqDetails, type ResponseValues } from './RfqDetail'
+
+export default function RfqsPage() {
+  const [rfqs, setRfqs] = useState<Rfq[]>([])
+  const [projects, setProjects] = useState<Project[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [details, setDetails] = useState<RfqDetails | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [showForm, setShowForm] = useState(false)
+
+  useEffect(() => {
+    loadRfqs()
+    loadProjects()
+  }, [])
+
+  useEffect(() => {
+    if (selectedId) loadDetails(selectedId)
+  }, [selectedId])
+
+  const loadRfqs = async () => {
+    try {
+      const res = await fetch('/api/rfqs')
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudieron cargar las solicitudes')
+        return
+      }
+      setRfqs(data.rfqs || [])
+      setSelectedId((current) => current || data.rfqs?.[0]?.id || null)
+    } catch (err) {
+      console.error('Failed to load RFQs:', err)
+      setError('No se pudieron cargar las solicitudes')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadProjects = async () => {
+    try {
+      const res = await fetch('/api/projects')
+      const data = await res.json()
+      if (res.ok) setProjects(data.projects || [])
+    } catch (err) {
+      console.error('Failed to load projects:', err)
+    }
+  }
+
+  // The comparison depends on today's vendor scorecards, so it comes from the server
+  const loadDetails = async (id: string) => {
+    try {
+      const res = await fetch(`/api/rfqs/${id}`)
+      const data = await res.json()
+      if (!res.ok) {
+        setError(data.error || 'No se pudo cargar la solicitud')
+        return
+      }
+      setDetails(data)
+    } catch (err) {
+      console.error('Failed to load RFQ:', err)
+    }
+  }
+
+  const send = async (url: string, method: string, body: unknown, fallback: string) => {
+    const res = await fetch(url, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || fallback
+    setRfqs((current) => current.map((r) => (r.id === data.rfq.id ? data.rfq : r)))
+    await loadDetails(data.rfq.id)
+    return null
+  }
+
+  const createRfq = async (values: NewRfqValues) => {
+    const res = await fetch('/api/rfqs', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(values)
+    })
+    const data = await res.json()
+    if (!res.ok) return data.error || 'No se pudo crear la solicitud'
+
+    setRfqs((current) => [data.rfq, ...current])
+    setSelectedId(data.rfq.id)
+    setShowForm(false)
+    return null
+  }
+
+  const recordResponse = (rfq: Rfq, values: ResponseValues) =>
+    send(`/api/rfqs/${rfq.id}/responses`, 'POST', values, 'No se pudo registrar la respuesta')
+
+  const updateRfq = (rfq: Rfq, changes: { weights?: RfqWeights; status?: 'cancelada' }) =>
+    send(`/api/rfqs/${rfq.id}`, 'PATCH', changes, 'No se pudo actualizar la solicitud')
+
+  const award = (rfq: Rfq, vendorId: string, rationale: string) =>
+    send(`/api/rfqs/${rfq.id}/award`, 'POST', { vendorId, rationale }, 'No se pudo adjudicar la solicitud')
+
+  const projectName = (id: string) => projects.find((p) => p.id === id)?.name || id
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Solicitudes de Cotización</h1>
+          <p className="text-gray-600 mt-2">
+            Compara respuestas de proveedores por precio, OTIF, calidad y certificaciones •{' '}
+            <Link href="/vendors" className="text-primary-600 hover:underline">Volver a proveedores</Link>
+          </p>
+        </div>
+        <button className="btn-primary" onClick={() => setShowForm(true)}>
+          <ClipboardList className="h-4 w-4 mr-2" />
+          Nueva RFQ
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+      )}
+
+      {showForm && <NewRfqForm projects={projects} onSubmit={createRfq} onCancel={() => setShowForm(false)} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        <div className="lg:col-span-1">
+          <div className="bg-white rounded-lg shadow-card border border-gray-200">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-lg font-semibold text-gray-900">Solicitudes</h2>
+            </div>
+            <div className="divide-y divide-gray-200">
+              {loading && <p className="p-4 text-sm text-gray-500">Cargando solicitudes...</p>}
+              {!loading && rfqs.length === 0 && (
+                <p className="p-4 text-sm text-gray-500">Aún no hay solicitudes. Crea la primera con Nueva RFQ.</p>
+              )}
+              {rfqs.map((rfq) => (
+                <div
+                  key={rfq.id}
+                  className={`p-4 cursor-pointer hover:bg-gray-50 ${selectedId === rfq.id ? 'bg-primary-50 border-r-2 border-primary-500' : ''}`}
+                  onClick={() => setSelectedId(rfq.id)}
+                >
+                  <h3 className="font-medium text-gray-900">{rfq.lineItem}</h3>
+                  <p className="text-sm text-gray-600">{projectName(rfq.projectId)}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {RFQ_STATUS_LABELS[rfq.status]} · {rfq.responses.length}/{rfq.invitedVendorIds.length} respuestas
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="lg:col-span-3">
+          {details && details.rfq.id === selectedId && (
+            <RfqDetail
+              key={`${details.rfq.id}-${details.rfq.updatedAt}`}
+              details={details}
+              projectName={projectName(details.rfq.projectId)}
+              onRecordResponse={(values) => recordResponse(details.rfq, values)}
+              onUpdate={(changes) => updateRfq(details.rfq, changes)}
+              onAward={(vendorId, rationale) => award(details.rfq, vendorId, rationale)}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
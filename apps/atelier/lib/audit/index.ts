@@ -0,0 +1,71 @@
+/**
+ * Server-side SGP audit logger
+ * Chooses the audit store from AUDIT_STORE (supabase | file | memory)
+ */
+
+import path from 'path'
+import {
+  AuditLogger,
+  FileAuditStore,
+  MemoryAuditStore,
+  type AuditStore
+} from '@prime-growth-os/sgp'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { SupabaseAuditStore } from './supabase-store'
+
+// Each organization has its own chain
+const loggers = new Map<string, AuditLogger>()
+
+export type StoreMode = 'supabase' | 'file' | 'memory'
+
+/**
+ * Backend for SGP state, defaults to Supabase when the service key is configured
+ */
+export function getStoreMode(): StoreMode {
+  const configured = process.env.AUDIT_STORE
+  if (configured === 'supabase' || configured === 'file' || configured === 'memory') {
+    return configured
+  }
+
+  const hasSupabase = Boolean(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY)
+  return hasSupabase ? 'supabase' : 'file'
+}
+
+// Factory function to create the configured store for an organization's chain
+export function createAuditStore(orgId: string): AuditStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseAuditStore(createAdminClient(), orgId)
+    case 'memory':
+      return new MemoryAuditStore()
+    case 'file':
+      return new FileAuditStore(
+        process.env.AUDIT_STORE_PATH || path.join(process.cwd(), '.data', 'audit-log.jsonl'),
+        orgId
+      )
+  }
+}
+
+/**
+ * The organization's logger, hydrated from the configured store. Supabase is
+ * shared by every server instance, so each request reloads the chain instead
+ * of trusting a cached copy.
+ */
+export async function getAuditLogger(orgId: string): Promise<AuditLogger> {
+  const store = createAuditStore(orgId)
+
+  if (store instanceof SupabaseAuditStore) {
+    const requestLogger = new AuditLogger({ store, orgId })
+    await requestLogger.hydrate()
+    return requestLogger
+  }
+
+  let logger = loggers.get(orgId)
+  if (!logger) {
+    logger = new AuditLogger({ store, orgId })
+    loggers.set(orgId, logger)
+  }
+
+  await logger.hydrate()
+  return logger
+}
@@ -0,0 +1,87 @@
+/**
+ * Supabase Audit Store
+ * Persists one organization's hash-chained SGP audit entries in the
+ * sgp_audit_entries table
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  AuditChainConflictError,
+  reviveAuditEntry,
+  type AuditEntry,
+  type AuditStore
+} from '@prime-growth-os/sgp'
+
+const TABLE = 'sgp_audit_entries'
+
+// Raised by append_sgp_audit_entry and the (org_id, previous_hash) index when the chain moved
+const UNIQUE_VIOLATION = '23505'
+
+export class SupabaseAuditStore implements AuditStore {
+  private client: SupabaseClient
+  private orgId: string
+
+  constructor(client: SupabaseClient, orgId: string) {
+    this.client = client
+    this.orgId = orgId
+  }
+
+  async load(since?: Date): Promise<AuditEntry[]> {
+    let query = this.client
+      .from(TABLE)
+      .select('entry')
+      .eq('org_id', this.orgId)
+      .order('seq', { ascending: true })
+
+    if (since) {
+      query = query.gte('created_at', since.toISOString())
+    }
+
+    const { data, error } = await query
+    if (error) {
+      throw new Error(`Failed to load audit entries: ${error.message}`)
+    }
+
+    return (data || []).map((row) => reviveAuditEntry(row.entry))
+  }
+
+  /**
+   * Inserts through append_sgp_audit_entry, which locks the organization's
+   * chain and only accepts the entry if its previous_hash is the current tail
+   */
+  async append(entry: AuditEntry): Promise<void> {
+    const { error } = await this.client.rpc('append_sgp_audit_entry', {
+      p_id: entry.id,
+      p_org_id: this.orgId,
+      p_created_at: entry.timestamp.toISOString(),
+      p_user_id: entry.userId,
+      p_action: entry.action,
+      p_entity_type: entry.entityType,
+      p_entity_id: entry.entityId,
+      p_previous_hash: entry.previousHash,
+      p_hash: entry.hash,
+      p_entry: entry
+    })
+
+    if (error?.code === UNIQUE_VIOLATION) {
+      throw new AuditChainConflictError(entry.id)
+    }
+    if (error) {
+      throw new Error(`Failed to append audit entry: ${error.message}`)
+    }
+  }
+
+  async prune(before: Date): Promise<number> {
+    const { count, error } = await this.client
+      .from(TABLE)
+      .delete({ count: 'exact' })
+      .eq('org_id', this.orgId)
+      .lt('created_at', before.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to prune audit entries: ${error.message}`)
+    }
+
+    return count || 0
+  }
+}
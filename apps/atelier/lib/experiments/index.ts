@@ -0,0 +1,55 @@
+/**
+ * Server-side SGP experiment manager
+ * Uses the same backend as the audit log (AUDIT_STORE)
+ */
+
+import path from 'path'
+import {
+  ExperimentManager,
+  FileExperimentStore,
+  MemoryExperimentStore,
+  type ExperimentStore
+} from '@prime-growth-os/sgp'
+import { getAuditLogger, getStoreMode } from '@/lib/audit'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { SupabaseExperimentStore } from './supabase-store'
+
+// Each organization has its own experiments
+const managers = new Map<string, ExperimentManager>()
+
+// Factory function to create the configured store for an organization
+export function createExperimentStore(orgId: string): ExperimentStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseExperimentStore(createAdminClient(), orgId)
+    case 'memory':
+      return new MemoryExperimentStore()
+    case 'file':
+      return new FileExperimentStore(path.join(process.cwd(), '.data', 'experiments.json'), orgId)
+  }
+}
+
+/**
+ * The organization's manager, hydrated from the configured store and logging
+ * to the persistent audit trail
+ */
+export async function getExperimentManager(orgId: string): Promise<ExperimentManager> {
+  const store = createExperimentStore(orgId)
+  const auditLogger = await getAuditLogger(orgId)
+
+  // Supabase is shared by every server instance, so reload per request
+  if (store instanceof SupabaseExperimentStore) {
+    const requestManager = new ExperimentManager({ store, auditLogger })
+    await requestManager.hydrate()
+    return requestManager
+  }
+
+  let manager = managers.get(orgId)
+  if (!manager) {
+    manager = new ExperimentManager({ store, auditLogger })
+    managers.set(orgId, manager)
+  }
+
+  await manager.hydrate()
+  return manager
+}
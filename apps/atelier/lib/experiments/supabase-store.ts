@@ -0,0 +1,48 @@
+/**
+ * Supabase Experiment Store
+ * Persists one organization's ExperimentManager state in the sgp_experiments table
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { reviveExperiment, type ExperimentConfig, type ExperimentStore } from '@prime-growth-os/sgp'
+
+const TABLE = 'sgp_experiments'
+
+export class SupabaseExperimentStore implements ExperimentStore {
+  private client: SupabaseClient
+  private orgId: string
+
+  constructor(client: SupabaseClient, orgId: string) {
+    this.client = client
+    this.orgId = orgId
+  }
+
+  async load(): Promise<ExperimentConfig[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('experiment')
+      .eq('org_id', this.orgId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to load experiments: ${error.message}`)
+    }
+
+    return (data || []).map((row) => reviveExperiment(row.experiment))
+  }
+
+  async save(experiment: ExperimentConfig): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: experiment.id,
+      org_id: this.orgId,
+      recommendation_id: experiment.recommendationId,
+      status: experiment.status,
+      updated_at: new Date().toISOString(),
+      experiment: { ...experiment, orgId: this.orgId }
+    })
+
+    if (error) {
+      throw new Error(`Failed to save experiment: ${error.message}`)
+    }
+  }
+}
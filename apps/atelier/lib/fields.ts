@@ -0,0 +1,9 @@
+/**
+ * Request body guards
+ * Input parsers receive the JSON body as `unknown` and narrow it with these
+ */
+
+export type Fields = Record<string, unknown>
+
+export const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value)
+
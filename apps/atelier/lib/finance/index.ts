@@ -0,0 +1,336 @@
+/**
+ * Server-side finance library
+ * Org-scoped cash ledger: settings, recorded entries and the 13-week cash
+ * forecast built from accepted quotes, vendor purchase orders and overhead
+ */
+
+import path from 'path'
+import { ForecastEngine } from '@prime-growth-os/sgp'
+import type { CashEntry, CashFlowSource, FinanceSettings, OverheadItem } from '@prime-growth-os/types'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { getProjectStore } from '@/lib/projects'
+import { getQuoteStore } from '@/lib/quotes'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { getVendorStore } from '@/lib/vendors'
+import {
+  FORECAST_WEEKS,
+  UNLINKED_BILLING_DAYS,
+  balanceHistory,
+  cashBalance,
+  defaultFinanceSettings,
+  monthlyOverhead,
+  scheduleLedger,
+  weeklyCashFlow,
+  type CashForecast,
+  type CashForecastWeek,
+  type FinanceAlert,
+  type LedgerInputs
+} from './rules'
+import { MemoryFinanceStore, FileFinanceStore, type FinanceStore } from './store'
+import { SupabaseFinanceStore } from './supabase-store'
+
+export type { FinanceStore } from './store'
+
+let memoryStore: MemoryFinanceStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getFinanceStore(): FinanceStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseFinanceStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryFinanceStore()
+      return memoryStore
+    case 'file':
+      return new FileFinanceStore(path.join(process.cwd(), '.data', 'finance.json'))
+  }
+}
+
+export type SettingsInput = Partial<Pick<
+  FinanceSettings,
+  'openingBalance' | 'openingDate' | 'advancePercentage' | 'defaultDsoDays' | 'targetDsoDays' | 'vendorPaymentDays' | 'overhead'
+>>
+
+export type EntryInput = Pick<CashEntry, 'date' | 'description' | 'amount' | 'category' | 'projectId' | 'source'>
+
+const DAY_FIELDS = ['defaultDsoDays', 'targetDsoDays', 'vendorPaymentDays'] as const
+const FREQUENCIES: OverheadItem['frequency'][] = ['semanal', 'quincenal', 'mensual']
+const SOURCE_KINDS: CashFlowSource['kind'][] = ['anticipo', 'hito', 'orden_compra', 'gasto_fijo', 'manual']
+const INCOME_SOURCES: CashFlowSource['kind'][] = ['anticipo', 'hito']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+// Weekly balances needed before the ForecastEngine can measure volatility
+const MIN_BAND_WEEKS = 2
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+}
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function formatMoney(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('es-MX')}`
+}
+
+function parseOverhead(value: unknown): OverheadItem[] | string {
+  if (!Array.isArray(value)) return 'overhead must be an array'
+
+  const items: OverheadItem[] = []
+  for (const [index, item] of value.entries()) {
+    if (!item || typeof item !== 'object') return `overhead[${index}] must be an object`
+    if (typeof item.description !== 'string' || !item.description.trim()) return `overhead[${index}].description is required`
+    if (item.category !== undefined && typeof item.category !== 'string') return `overhead[${index}].category must be a string`
+    if (!isNumber(item.amount) || item.amount <= 0) return `overhead[${index}].amount must be a positive number`
+    if (!FREQUENCIES.includes(item.frequency)) return `overhead[${index}].frequency must be one of ${FREQUENCIES.join(', ')}`
+    if (!isDate(item.startDate)) return `overhead[${index}].startDate must be a date (YYYY-MM-DD)`
+
+    items.push({
+      id: typeof item.id === 'string' && item.id ? item.id : `oh-${Date.now()}-${index}`,
+      description: item.description.trim(),
+      category: item.category?.trim() || 'Gastos fijos',
+      amount: item.amount,
+      frequency: item.frequency,
+      startDate: item.startDate
+    })
+  }
+
+  return items
+}
+
+/**
+ * Validates finance settings; returns an error message or the input
+ */
+export function parseSettingsInput(body: unknown): SettingsInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: SettingsInput = {}
+
+  if (body.openingBalance !== undefined) {
+    if (!isNumber(body.openingBalance)) return 'openingBalance must be a number'
+    input.openingBalance = body.openingBalance
+  }
+
+  if (body.openingDate !== undefined) {
+    if (!isDate(body.openingDate)) return 'openingDate must be a date (YYYY-MM-DD)'
+    input.openingDate = body.openingDate
+  }
+
+  if (body.advancePercentage !== undefined) {
+    if (!isNumber(body.advancePercentage) || body.advancePercentage < 0 || body.advancePercentage > 100) {
+      return 'advancePercentage must be between 0 and 100'
+    }
+    input.advancePercentage = body.advancePercentage
+  }
+
+  for (const field of DAY_FIELDS) {
+    const days = body[field]
+    if (days === undefined) continue
+    if (typeof days !== 'number' || !Number.isInteger(days) || days < 0) return `${field} must be a non-negative whole number of days`
+    input[field] = days
+  }
+
+  if (body.overhead !== undefined) {
+    const overhead = parseOverhead(body.overhead)
+    if (typeof overhead === 'string') return overhead
+    input.overhead = overhead
+  }
+
+  return input
+}
+
+/**
+ * Validates a recorded entry. Collections of quote milestones are positive
+ * and payments of orders and overhead negative; manual entries may be either.
+ */
+export function parseEntryInput(body: unknown): EntryInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  if (!isDate(body.date)) return 'date must be a date (YYYY-MM-DD)'
+  if (typeof body.description !== 'string' || !body.description.trim()) return 'description is required'
+  if (!isNumber(body.amount) || body.amount === 0) return 'amount must be a non-zero number'
+  if (body.category !== undefined && typeof body.category !== 'string') return 'category must be a string'
+  if (body.projectId !== undefined && typeof body.projectId !== 'string') return 'projectId must be a string'
+
+  const source = body.source ?? { kind: 'manual', refId: '' }
+  if (!isObject(source) || !SOURCE_KINDS.includes(source.kind as CashFlowSource['kind'])) {
+    return `source.kind must be one of ${SOURCE_KINDS.join(', ')}`
+  }
+  const kind = source.kind as CashFlowSource['kind']
+  const refId = typeof source.refId === 'string' ? source.refId : ''
+  if (kind !== 'manual' && !refId) {
+    return 'source.refId is required for scheduled items'
+  }
+  if (kind !== 'manual' && INCOME_SOURCES.includes(kind) !== body.amount > 0) {
+    return INCOME_SOURCES.includes(kind)
+      ? 'Collections must have a positive amount'
+      : 'Payments must have a negative amount'
+  }
+
+  return {
+    date: body.date,
+    description: body.description.trim(),
+    amount: body.amount,
+    category: body.category?.trim() || (body.amount > 0 ? 'Ingresos' : 'Gastos'),
+    projectId: body.projectId || undefined,
+    source: { kind, refId: kind === 'manual' ? '' : refId }
+  }
+}
+
+export async function loadSettings(store: FinanceStore, orgId: string): Promise<FinanceSettings> {
+  return (await store.getSettings(orgId)) || defaultFinanceSettings(orgId)
+}
+
+export function applySettingsInput(settings: FinanceSettings, input: SettingsInput, context: OrgContext): void {
+  Object.assign(settings, input)
+  settings.updatedAt = new Date().toISOString()
+  settings.updatedBy = context.userName
+}
+
+export function createEntry(input: EntryInput, context: OrgContext): CashEntry {
+  return {
+    ...input,
+    id: `cash-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    orgId: context.orgId,
+    type: input.amount > 0 ? 'income' : 'expense',
+    status: 'registrado',
+    createdAt: new Date().toISOString(),
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+}
+
+/**
+ * Everything the ledger is built from, read from each module's store
+ */
+export async function loadLedgerInputs(store: FinanceStore, orgId: string): Promise<LedgerInputs> {
+  const [settings, entries, quotes, projects, vendors] = await Promise.all([
+    loadSettings(store, orgId),
+    store.listEntries(orgId),
+    getQuoteStore().list(orgId),
+    getProjectStore().list(orgId),
+    getVendorStore().list(orgId)
+  ])
+  return { settings, entries, quotes: quotes.filter((q) => q.status === 'aceptada'), projects, vendors }
+}
+
+function forecastAlerts(forecast: Omit<CashForecast, 'alerts'>, unlinkedQuotes: number, now: Date): FinanceAlert[] {
+  const alerts: FinanceAlert[] = []
+  const today = now.toISOString().slice(0, 10)
+  const weekOf = (index: number) => forecast.weeks[index].weekStart
+
+  if (forecast.runwayWeeks !== null) {
+    alerts.push({
+      severity: 'critical',
+      message: `El saldo proyectado queda en negativo la semana del ${weekOf(forecast.runwayWeeks)} (${forecast.runwayWeeks} semanas de pista)`
+    })
+  } else if (forecast.pessimisticRunwayWeeks !== null) {
+    alerts.push({
+      severity: 'warning',
+      message: `En el escenario P5 el saldo queda en negativo la semana del ${weekOf(forecast.pessimisticRunwayWeeks)}`
+    })
+  }
+
+  if (forecast.dsoDays > forecast.targetDsoDays) {
+    alerts.push({
+      severity: 'warning',
+      message: `DSO de ${forecast.dsoDays} días, por encima del objetivo de ${forecast.targetDsoDays}`
+    })
+  }
+
+  const overdue = forecast.scheduled.filter((item) => item.date < today)
+  const overdueIn = overdue.filter((item) => item.amount > 0).reduce((sum, item) => sum + item.amount, 0)
+  const overdueOut = overdue.filter((item) => item.amount < 0).reduce((sum, item) => sum - item.amount, 0)
+  if (overdueIn > 0) {
+    alerts.push({ severity: 'warning', message: `${formatMoney(overdueIn)} de cobranza vencida sin registrar` })
+  }
+  if (overdueOut > 0) {
+    alerts.push({ severity: 'warning', message: `${formatMoney(overdueOut)} de pagos vencidos sin registrar` })
+  }
+
+  if (unlinkedQuotes > 0) {
+    alerts.push({
+      severity: 'info',
+      message: `${unlinkedQuotes} cotización${unlinkedQuotes === 1 ? '' : 'es'} aceptada${unlinkedQuotes === 1 ? '' : 's'} sin proyecto ligado: el saldo se estima a ${UNLINKED_BILLING_DAYS} días de la aceptación`
+    })
+  }
+
+  if (!forecast.bands) {
+    alerts.push({
+      severity: 'info',
+      message: `Las bandas P5/P95 aparecen con al menos ${MIN_BAND_WEEKS} semanas de movimientos registrados`
+    })
+  }
+
+  return alerts
+}
+
+/**
+ * 13-week rolling cash forecast. The weekly closing balances come from the
+ * schedule; the P5/P95 band is the ForecastEngine's spread on the weekly
+ * balance history, seeded by the week so it stays put between Monday reviews.
+ */
+export function buildCashForecast(inputs: LedgerInputs, now: Date = new Date()): CashForecast {
+  const { settings, entries, quotes, projects } = inputs
+  const { scheduled, dsoDays, observedDsoDays, receivables } = scheduleLedger(inputs, now)
+  const balance = cashBalance(settings, entries, now)
+  const cashWeeks = weeklyCashFlow(scheduled, balance, now)
+  const history = balanceHistory(settings, entries, now)
+
+  let bands: CashForecast['bands'] = null
+  let weeks: CashForecastWeek[] = cashWeeks.map((week) => ({ ...week, p5: week.closingBalance, p95: week.closingBalance }))
+
+  if (history.length >= MIN_BAND_WEEKS) {
+    const firstWeek = Date.parse(cashWeeks[0].weekStart)
+    const result = new ForecastEngine().forecastSeries(
+      history.map((h) => ({ timestamp: new Date(h.weekStart), value: h.balance })),
+      'Saldo de caja',
+      FORECAST_WEEKS * 7,
+      { seed: Math.round(firstWeek / DAY_MS) }
+    )
+
+    weeks = cashWeeks.map((week, index) => {
+      const target = firstWeek + (index + 1) * 7 * DAY_MS
+      const point = result.projected.reduce((best, p) =>
+        Math.abs(p.date.getTime() - target) < Math.abs(best.date.getTime() - target) ? p : best
+      )
+      return {
+        ...week,
+        p5: Math.round(week.closingBalance + point.confidence.p5 - point.confidence.p50),
+        p95: Math.round(week.closingBalance + point.confidence.p95 - point.confidence.p50)
+      }
+    })
+    bands = { methodology: result.methodology, observations: history.length }
+  }
+
+  const negativeWeek = (values: number[]) => {
+    const index = values.findIndex((value) => value < 0)
+    return index >= 0 ? index : null
+  }
+
+  const forecast: Omit<CashForecast, 'alerts'> = {
+    asOf: now.toISOString(),
+    balance: Math.round(balance),
+    history,
+    weeks,
+    scheduled,
+    receivables: Math.round(receivables),
+    payables: Math.round(scheduled.filter((i) => i.source.kind === 'orden_compra').reduce((sum, i) => sum - i.amount, 0)),
+    monthlyOverhead: monthlyOverhead(settings.overhead),
+    dsoDays,
+    observedDsoDays,
+    targetDsoDays: settings.targetDsoDays,
+    lowestBalance: Math.min(balance, ...weeks.map((w) => w.closingBalance)),
+    runwayWeeks: negativeWeek(weeks.map((w) => w.closingBalance)),
+    pessimisticRunwayWeeks: negativeWeek(weeks.map((w) => w.p5)),
+    bands
+  }
+
+  const unlinked = quotes.filter((q) => !projects.some((p) => p.quoteId === q.id)).length
+  return { ...forecast, alerts: forecastAlerts(forecast, unlinked, now) }
+}
@@ -0,0 +1,403 @@
+/**
+ * Cash ledger rules
+ * What the business expects to collect and pay: the advance and phase
+ * milestones of accepted quotes (collected DSO days after invoicing), vendor
+ * purchase orders and recurring overhead, netted against the entries already
+ * recorded and bucketed into weeks. Shared by the finance API and the
+ * /finance page (no server dependencies).
+ */
+
+import type {
+  CashEntry,
+  CashFlowItem,
+  CPQQuote,
+  FinanceSettings,
+  OverheadItem,
+  Project,
+  Vendor
+} from '@prime-growth-os/types'
+
+export const FORECAST_WEEKS = 13
+
+// A quote without a linked project bills its balance when the standard
+// concept → design → documentation phases would end
+export const UNLINKED_BILLING_DAYS = 105
+
+export const OVERHEAD_FREQUENCY_LABELS: Record<OverheadItem['frequency'], string> = {
+  semanal: 'Semanal',
+  quincenal: 'Quincenal',
+  mensual: 'Mensual'
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// Amounts under a peso are rounding, not an open balance
+const SETTLED_TOLERANCE = 1
+
+export type BillingMilestone = {
+  id: string
+  kind: 'anticipo' | 'hito'
+  quoteId: string
+  projectId?: string
+  description: string
+  amount: number
+  invoiceDate: string
+}
+
+export type CashWeek = {
+  weekStart: string
+  inflows: number
+  outflows: number
+  net: number
+  closingBalance: number
+  // Scheduled items already past their date, carried into the first week
+  overdue: number
+}
+
+export type BalancePoint = {
+  weekStart: string
+  balance: number
+}
+
+export type CashForecastWeek = CashWeek & {
+  // Closing balance band from the ForecastEngine spread around the schedule
+  p5: number
+  p95: number
+}
+
+export type FinanceAlert = {
+  severity: 'critical' | 'warning' | 'info'
+  message: string
+}
+
+export type CashForecast = {
+  asOf: string
+  balance: number
+  // Recorded closing balance of each week since the opening date
+  history: BalancePoint[]
+  weeks: CashForecastWeek[]
+  scheduled: CashFlowItem[]
+  receivables: number
+  payables: number
+  monthlyOverhead: number
+  dsoDays: number
+  observedDsoDays: number | null
+  targetDsoDays: number
+  lowestBalance: number
+  // Weeks until the closing balance turns negative (null when it never does)
+  runwayWeeks: number | null
+  pessimisticRunwayWeeks: number | null
+  // How the P5/P95 band was produced; null while the history is too short
+  bands: { methodology: string; observations: number } | null
+  alerts: FinanceAlert[]
+}
+
+export type LedgerInputs = {
+  settings: FinanceSettings
+  entries: CashEntry[]
+  quotes: CPQQuote[]
+  projects: Project[]
+  vendors: Vendor[]
+}
+
+export type LedgerSchedule = {
+  scheduled: CashFlowItem[]
+  dsoDays: number
+  // Measured from recorded collections; null until there are any
+  observedDsoDays: number | null
+  // Invoiced to clients and not yet collected
+  receivables: number
+}
+
+function toDay(value: string | Date): number {
+  const date = new Date(value)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+function addDays(value: string, days: number): string {
+  return formatDay(toDay(value) + days * DAY_MS)
+}
+
+function weekStart(day: number): number {
+  return day - ((new Date(day).getUTCDay() + 6) % 7) * DAY_MS
+}
+
+export function defaultFinanceSettings(orgId: string, now: Date = new Date()): FinanceSettings {
+  return {
+    orgId,
+    openingBalance: 0,
+    openingDate: formatDay(toDay(now)),
+    advancePercentage: 30,
+    defaultDsoDays: 45,
+    targetDsoDays: 45,
+    vendorPaymentDays: 30,
+    overhead: [],
+    updatedAt: now.toISOString(),
+    updatedBy: ''
+  }
+}
+
+const MONTHLY_OCCURRENCES: Record<OverheadItem['frequency'], number> = {
+  semanal: 52 / 12,
+  quincenal: 26 / 12,
+  mensual: 1
+}
+
+export function monthlyOverhead(items: OverheadItem[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.amount * MONTHLY_OCCURRENCES[item.frequency], 0))
+}
+
+/**
+ * Invoices for an accepted quote: the advance on acceptance, then the
+ * balance split across the linked project's phases by duration, invoiced
+ * when each phase completes (or is scheduled to)
+ */
+export function billingMilestones(quote: CPQQuote, project: Project | null, advancePercentage: number): BillingMilestone[] {
+  if (quote.status !== 'aceptada') return []
+
+  const accepted = (quote.decidedAt || quote.updatedAt).slice(0, 10)
+  const advance = Math.round(quote.totalPrice * advancePercentage) / 100
+  const balance = quote.totalPrice - advance
+  const milestones: BillingMilestone[] = []
+
+  if (advance > 0) {
+    milestones.push({
+      id: `${quote.id}:anticipo`,
+      kind: 'anticipo',
+      quoteId: quote.id,
+      projectId: project?.id,
+      description: `Anticipo ${advancePercentage}% — ${project?.name || `cotización ${quote.id}`}`,
+      amount: advance,
+      invoiceDate: accepted
+    })
+  }
+
+  if (balance <= 0) return milestones
+
+  const phases = project?.phases.filter((p) => p.duration > 0) || []
+  if (!project || phases.length === 0) {
+    milestones.push({
+      id: `${quote.id}:saldo`,
+      kind: 'hito',
+      quoteId: quote.id,
+      projectId: project?.id,
+      description: `Saldo — cotización ${quote.id} (sin proyecto ligado)`,
+      amount: balance,
+      invoiceDate: addDays(accepted, UNLINKED_BILLING_DAYS)
+    })
+    return milestones
+  }
+
+  const totalDuration = phases.reduce((sum, p) => sum + p.duration, 0)
+  phases.forEach((phase) => {
+    milestones.push({
+      id: `${quote.id}:${phase.id}`,
+      kind: 'hito',
+      quoteId: quote.id,
+      projectId: project.id,
+      description: `${project.name} — ${phase.name}`,
+      amount: Math.round((balance * phase.duration * 100) / totalDuration) / 100,
+      invoiceDate: phase.status === 'completada' && phase.completedAt ? phase.completedAt.slice(0, 10) : phase.endDate
+    })
+  })
+  return milestones
+}
+
+function recordedFor(entries: CashEntry[], refId: string): CashEntry[] {
+  return entries.filter((e) => e.source.refId === refId && e.source.kind !== 'manual')
+}
+
+/**
+ * Amount-weighted days from invoice to collection over the recorded
+ * collections of billing milestones
+ */
+export function observedDso(entries: CashEntry[], milestones: BillingMilestone[]): number | null {
+  let weighted = 0
+  let collected = 0
+  milestones.forEach((milestone) => {
+    recordedFor(entries, milestone.id).forEach((entry) => {
+      const days = Math.max(0, (toDay(entry.date) - toDay(milestone.invoiceDate)) / DAY_MS)
+      weighted += days * entry.amount
+      collected += entry.amount
+    })
+  })
+  return collected > 0 ? Math.round(weighted / collected) : null
+}
+
+/**
+ * Dates of an overhead item from `from` through `to`; monthly items keep
+ * their day of the month (or the month's last day)
+ */
+export function overheadDates(item: OverheadItem, from: string, to: string): string[] {
+  const start = toDay(item.startDate)
+  const first = toDay(from)
+  const last = toDay(to)
+  const dates: string[] = []
+
+  if (item.frequency === 'mensual') {
+    const startDate = new Date(start)
+    for (let month = 0; ; month++) {
+      const y = startDate.getUTCFullYear()
+      const m = startDate.getUTCMonth() + month
+      const lastOfMonth = new Date(Date.UTC(y, m + 1, 0)).getUTCDate()
+      const day = Date.UTC(y, m, Math.min(startDate.getUTCDate(), lastOfMonth))
+      if (day > last) break
+      if (day >= first) dates.push(formatDay(day))
+    }
+    return dates
+  }
+
+  const step = (item.frequency === 'semanal' ? 7 : 14) * DAY_MS
+  for (let day = start; day <= last; day += step) {
+    if (day >= first) dates.push(formatDay(day))
+  }
+  return dates
+}
+
+/**
+ * Everything still expected to move cash. Items invoiced or due before the
+ * opening date are part of the opening balance; partially recorded items
+ * keep only their open amount.
+ */
+export function scheduleLedger(inputs: LedgerInputs, now: Date = new Date(), weeks: number = FORECAST_WEEKS): LedgerSchedule {
+  const { settings, entries, quotes, projects, vendors } = inputs
+  const opening = toDay(settings.openingDate)
+  const horizon = formatDay(weekStart(toDay(now)) + weeks * 7 * DAY_MS - DAY_MS)
+  const scheduled: CashFlowItem[] = []
+
+  const open = (refId: string, amount: number) =>
+    amount - recordedFor(entries, refId).reduce((sum, e) => sum + Math.abs(e.amount), 0)
+
+  // Client billing
+  const milestones = quotes.flatMap((quote) =>
+    billingMilestones(quote, projects.find((p) => p.quoteId === quote.id) || null, settings.advancePercentage)
+  )
+  const observedDsoDays = observedDso(entries, milestones)
+  const dsoDays = observedDsoDays ?? settings.defaultDsoDays
+  let receivables = 0
+
+  milestones
+    .filter((m) => toDay(m.invoiceDate) >= opening)
+    .forEach((milestone) => {
+      const amount = open(milestone.id, milestone.amount)
+      if (amount <= SETTLED_TOLERANCE) return
+      if (toDay(milestone.invoiceDate) <= toDay(now)) receivables += amount
+      scheduled.push({
+        id: `sched-${milestone.id}`,
+        date: addDays(milestone.invoiceDate, dsoDays),
+        description: milestone.description,
+        amount,
+        type: 'income',
+        category: 'Proyectos',
+        projectId: milestone.projectId,
+        status: 'programado',
+        source: { kind: milestone.kind, refId: milestone.id },
+        invoiceDate: milestone.invoiceDate
+      })
+    })
+
+  // Vendor payables, due a fixed term after delivery (or the promised date)
+  vendors.forEach((vendor) => {
+    vendor.orders
+      .filter((po) => po.status !== 'cancelada')
+      .forEach((po) => {
+        const delivered = po.deliveries.map((d) => d.deliveredAt).sort()
+        const due = addDays(delivered[delivered.length - 1] || po.promisedDate, settings.vendorPaymentDays)
+        if (toDay(due) < opening) return
+        const amount = open(po.id, po.invoicedAmount ?? po.quotedAmount)
+        if (amount <= SETTLED_TOLERANCE) return
+        scheduled.push({
+          id: `sched-${po.id}`,
+          date: due,
+          description: `${vendor.name} — ${po.description}`,
+          amount: -amount,
+          type: 'expense',
+          category: 'Proveedores',
+          projectId: po.projectId,
+          status: 'programado',
+          source: { kind: 'orden_compra', refId: po.id }
+        })
+      })
+  })
+
+  // Recurring overhead
+  settings.overhead.forEach((item) => {
+    overheadDates(item, settings.openingDate, horizon).forEach((date) => {
+      const refId = `${item.id}@${date}`
+      const amount = open(refId, item.amount)
+      if (amount <= SETTLED_TOLERANCE) return
+      scheduled.push({
+        id: `sched-${refId}`,
+        date,
+        description: item.description,
+        amount: -amount,
+        type: 'expense',
+        category: item.category,
+        status: 'programado',
+        source: { kind: 'gasto_fijo', refId }
+      })
+    })
+  })
+
+  scheduled.sort((a, b) => a.date.localeCompare(b.date))
+  return { scheduled, dsoDays, observedDsoDays, receivables }
+}
+
+/**
+ * Bank balance on a day: the opening balance plus every entry recorded since
+ */
+export function cashBalance(settings: FinanceSettings, entries: CashEntry[], asOf: Date = new Date()): number {
+  const opening = toDay(settings.openingDate)
+  const end = toDay(asOf)
+  return entries
+    .filter((e) => toDay(e.date) >= opening && toDay(e.date) <= end)
+    .reduce((sum, e) => sum + e.amount, settings.openingBalance)
+}
+
+/**
+ * Closing balance of every week from the opening date through the current week
+ */
+export function balanceHistory(settings: FinanceSettings, entries: CashEntry[], now: Date = new Date()): BalancePoint[] {
+  const history: BalancePoint[] = []
+  const today = toDay(now)
+  for (let week = weekStart(toDay(settings.openingDate)); week <= today; week += 7 * DAY_MS) {
+    const end = Math.min(week + 6 * DAY_MS, today)
+    history.push({ weekStart: formatDay(week), balance: cashBalance(settings, entries, new Date(end)) })
+  }
+  return history
+}
+
+/**
+ * Weekly inflows, outflows and closing balance from the current week on.
+ * Scheduled items already past their date land in the first week.
+ */
+export function weeklyCashFlow(scheduled: CashFlowItem[], balance: number, now: Date = new Date(), weeks: number = FORECAST_WEEKS): CashWeek[] {
+  const first = weekStart(toDay(now))
+  const today = toDay(now)
+  let running = balance
+
+  return Array.from({ length: weeks }, (_, index) => {
+    const start = first + index * 7 * DAY_MS
+    const end = start + 7 * DAY_MS
+    const items = scheduled.filter((item) => {
+      const day = Math.max(toDay(item.date), index === 0 ? 0 : today)
+      return index === 0 ? day < end : day >= start && day < end
+    })
+    const inflows = items.filter((i) => i.amount > 0).reduce((sum, i) => sum + i.amount, 0)
+    const outflows = items.filter((i) => i.amount < 0).reduce((sum, i) => sum - i.amount, 0)
+    running += inflows - outflows
+
+    return {
+      weekStart: formatDay(start),
+      inflows: Math.round(inflows),
+      outflows: Math.round(outflows),
+      net: Math.round(inflows - outflows),
+      closingBalance: Math.round(running),
+      overdue: index === 0 ? Math.round(items.filter((i) => toDay(i.date) < today).reduce((sum, i) => sum + i.amount, 0)) : 0
+    }
+  })
+}
@@ -0,0 +1,109 @@
+/**
+ * Finance Storage
+ * Org-scoped persistence for finance settings and recorded cash entries
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { CashEntry, FinanceSettings } from '@prime-growth-os/types'
+
+export interface FinanceStore {
+  /** The organization's settings, or null until they are first saved */
+  getSettings(orgId: string): Promise<FinanceSettings | null>
+  saveSettings(settings: FinanceSettings): Promise<void>
+  /** Every recorded entry of the organization, newest first */
+  listEntries(orgId: string): Promise<CashEntry[]>
+  /** Insert or replace an entry by ID */
+  saveEntry(entry: CashEntry): Promise<void>
+  removeEntry(orgId: string, id: string): Promise<void>
+}
+
+const newestFirst = (a: CashEntry, b: CashEntry) =>
+  b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt)
+
+export class MemoryFinanceStore implements FinanceStore {
+  private settings: Map<string, FinanceSettings> = new Map()
+  private entries: Map<string, CashEntry> = new Map()
+
+  async getSettings(orgId: string): Promise<FinanceSettings | null> {
+    return this.settings.get(orgId) || null
+  }
+
+  async saveSettings(settings: FinanceSettings): Promise<void> {
+    this.settings.set(settings.orgId, settings)
+  }
+
+  async listEntries(orgId: string): Promise<CashEntry[]> {
+    return Array.from(this.entries.values())
+      .filter((e) => e.orgId === orgId)
+      .sort(newestFirst)
+  }
+
+  async saveEntry(entry: CashEntry): Promise<void> {
+    this.entries.set(entry.id, entry)
+  }
+
+  async removeEntry(orgId: string, id: string): Promise<void> {
+    if (this.entries.get(id)?.orgId === orgId) {
+      this.entries.delete(id)
+    }
+  }
+}
+
+type FinanceDocument = { settings: FinanceSettings[]; entries: CashEntry[] }
+
+/**
+ * Single JSON document for local development and single-node deployments
+ */
+export class FileFinanceStore implements FinanceStore {
+  constructor(private readonly filePath: string) {}
+
+  async getSettings(orgId: string): Promise<FinanceSettings | null> {
+    const { settings } = await this.readAll()
+    return settings.find((s) => s.orgId === orgId) || null
+  }
+
+  async saveSettings(settings: FinanceSettings): Promise<void> {
+    const document = await this.readAll()
+    document.settings = [...document.settings.filter((s) => s.orgId !== settings.orgId), settings]
+    await this.writeAll(document)
+  }
+
+  async listEntries(orgId: string): Promise<CashEntry[]> {
+    const { entries } = await this.readAll()
+    return entries.filter((e) => e.orgId === orgId).sort(newestFirst)
+  }
+
+  async saveEntry(entry: CashEntry): Promise<void> {
+    const document = await this.readAll()
+    const index = document.entries.findIndex((e) => e.id === entry.id)
+
+    if (index >= 0) {
+      document.entries[index] = entry
+    } else {
+      document.entries.push(entry)
+    }
+
+    await this.writeAll(document)
+  }
+
+  async removeEntry(orgId: string, id: string): Promise<void> {
+    const document = await this.readAll()
+    document.entries = document.entries.filter((e) => !(e.id === id && e.orgId === orgId))
+    await this.writeAll(document)
+  }
+
+  private async readAll(): Promise<FinanceDocument> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return { settings: [], entries: [] }
+      throw error
+    }
+  }
+
+  private async writeAll(document: FinanceDocument): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify(document, null, 2), 'utf8')
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Supabase Finance Store
+ * Settings live one row per organization in finance_settings (overhead items
+ * as a JSONB column); recorded entries in cash_entries, always filtered by
+ * org_id.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CashEntry, FinanceSettings } from '@prime-growth-os/types'
+import type { FinanceStore } from './store'
+
+const SETTINGS_TABLE = 'finance_settings'
+const ENTRIES_TABLE = 'cash_entries'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+type SettingsRow = {
+  org_id: string
+  opening_balance: number | string
+  opening_date: string
+  advance_percentage: number | string
+  default_dso_days: number | string
+  target_dso_days: number | string
+  vendor_payment_days: number | string
+  overhead: FinanceSettings['overhead'] | null
+  updated_at: string
+  updated_by: string
+}
+
+type EntryRow = {
+  id: string
+  org_id: string
+  date: string
+  description: string
+  amount: number | string
+  type: CashEntry['type']
+  category: string
+  project_id: string | null
+  source_kind: CashEntry['source']['kind']
+  source_ref_id: string
+  invoice_date: string | null
+  created_at: string
+  created_by: string
+  created_by_name: string
+}
+
+function settingsFromRow(row: SettingsRow): FinanceSettings {
+  return {
+    orgId: row.org_id,
+    openingBalance: Number(row.opening_balance),
+    openingDate: row.opening_date,
+    advancePercentage: Number(row.advance_percentage),
+    defaultDsoDays: Number(row.default_dso_days),
+    targetDsoDays: Number(row.target_dso_days),
+    vendorPaymentDays: Number(row.vendor_payment_days),
+    overhead: row.overhead || [],
+    updatedAt: row.updated_at,
+    updatedBy: row.updated_by
+  }
+}
+
+function entryFromRow(row: EntryRow): CashEntry {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    date: row.date,
+    description: row.description,
+    amount: Number(row.amount),
+    type: row.type,
+    category: row.category,
+    projectId: row.project_id || undefined,
+    status: 'registrado',
+    source: { kind: row.source_kind, refId: row.source_ref_id },
+    invoiceDate: row.invoice_date || undefined,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name
+  }
+}
+
+export class SupabaseFinanceStore implements FinanceStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async getSettings(orgId: string): Promise<FinanceSettings | null> {
+    const { data, error } = await this.client
+      .from(SETTINGS_TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load finance settings: ${error.message}`)
+    }
+
+    return data ? settingsFromRow(data) : null
+  }
+
+  async saveSettings(settings: FinanceSettings): Promise<void> {
+    const { error } = await this.client.from(SETTINGS_TABLE).upsert({
+      org_id: settings.orgId,
+      opening_balance: settings.openingBalance,
+      opening_date: settings.openingDate,
+      advance_percentage: settings.advancePercentage,
+      default_dso_days: settings.defaultDsoDays,
+      target_dso_days: settings.targetDsoDays,
+      vendor_payment_days: settings.vendorPaymentDays,
+      overhead: settings.overhead,
+      updated_at: settings.updatedAt,
+      updated_by: settings.updatedBy
+    })
+
+    if (error) {
+      throw new Error(`Failed to save finance settings: ${error.message}`)
+    }
+  }
+
+  async listEntries(orgId: string): Promise<CashEntry[]> {
+    const { data, error } = await this.client
+      .from(ENTRIES_TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('date', { ascending: false })
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load cash entries: ${error.message}`)
+    }
+
+    return (data || []).map(entryFromRow)
+  }
+
+  async saveEntry(entry: CashEntry): Promise<void> {
+    const { error } = await this.client.from(ENTRIES_TABLE).upsert({
+      id: entry.id,
+      org_id: entry.orgId,
+      date: entry.date,
+      description: entry.description,
+      amount: entry.amount,
+      type: entry.type,
+      category: entry.category,
+      project_id: entry.projectId || null,
+      source_kind: entry.source.kind,
+      source_ref_id: entry.source.refId,
+      invoice_date: entry.invoiceDate || null,
+      created_at: entry.createdAt,
+      created_by: entry.createdBy,
+      created_by_name: entry.createdByName
+    })
+
+    if (error) {
+      throw new Error(`Failed to save cash entry: ${error.message}`)
+    }
+  }
+
+  async removeEntry(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(ENTRIES_TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete cash entry: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Server-side lead library
+ * Org-scoped pipeline with timestamped status transitions and first-contact SLA
+ */
+
+import path from 'path'
+import type { Lead, LeadStatus } from '@prime-growth-os/types'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { canTransition, DEFAULT_SLA_HOURS, LEAD_STATUS_LABELS, allowedTransitions } from './sla'
+import { MemoryLeadStore, FileLeadStore, type LeadStore } from './store'
+import { SupabaseLeadStore } from './supabase-store'
+
+export type { LeadStore } from './store'
+
+let memoryStore: MemoryLeadStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getLeadStore(): LeadStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseLeadStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryLeadStore()
+      return memoryStore
+    case 'file':
+      return new FileLeadStore(path.join(process.cwd(), '.data', 'leads.json'))
+  }
+}
+
+// Fields the client may set on create or update
+export type LeadInput = Partial<
+  Pick<Lead, 'company' | 'contact' | 'email' | 'phone' | 'projectType' | 'budget' | 'timeline' | 'source' | 'priority' | 'slaHours' | 'notes'>
+>
+
+const PROJECT_TYPES: Lead['projectType'][] = ['residencial', 'comercial', 'institucional']
+const PRIORITIES: Lead['priority'][] = ['alta', 'media', 'baja']
+const TEXT_FIELDS = ['company', 'contact', 'email', 'phone', 'timeline', 'source', 'notes'] as const
+
+/**
+ * Validates the editable fields of a request body; returns an error message or the input
+ */
+export function parseLeadInput(body: unknown, options: { requireCompany?: boolean } = {}): LeadInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: LeadInput = {}
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string') return `${field} must be a string`
+    input[field] = body[field].trim()
+  }
+
+  if (options.requireCompany && !input.company && !input.contact) {
+    return 'company or contact is required'
+  }
+
+  if (body.projectType !== undefined) {
+    if (!PROJECT_TYPES.includes(body.projectType as Lead['projectType'])) return `projectType must be one of ${PROJECT_TYPES.join(', ')}`
+    input.projectType = body.projectType as Lead['projectType']
+  }
+
+  if (body.priority !== undefined) {
+    if (!PRIORITIES.includes(body.priority as Lead['priority'])) return `priority must be one of ${PRIORITIES.join(', ')}`
+    input.priority = body.priority as Lead['priority']
+  }
+
+  if (body.budget !== undefined) {
+    if (typeof body.budget !== 'number' || !Number.isFinite(body.budget) || body.budget < 0) {
+      return 'budget must be a non-negative number'
+    }
+    input.budget = body.budget
+  }
+
+  if (body.slaHours !== undefined) {
+    if (typeof body.slaHours !== 'number' || !Number.isFinite(body.slaHours) || body.slaHours <= 0) {
+      return 'slaHours must be a positive number'
+    }
+    input.slaHours = body.slaHours
+  }
+
+  return input
+}
+
+function newLeadId(): string {
+  return `lead-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export async function createLead(store: LeadStore, context: OrgContext, input: LeadInput): Promise<Lead> {
+  const now = new Date().toISOString()
+  const priority = input.priority || 'media'
+
+  const lead: Lead = {
+    id: newLeadId(),
+    orgId: context.orgId,
+    company: input.company || input.contact || '',
+    contact: input.contact || '',
+    email: input.email || '',
+    phone: input.phone || '',
+    projectType: input.projectType || 'residencial',
+    budget: input.budget ?? 0,
+    timeline: input.timeline || '',
+    source: input.source || 'Directo',
+    status: 'nuevo',
+    createdAt: now,
+    updatedAt: now,
+    lastContact: now,
+    firstContactAt: null,
+    statusChangedAt: now,
+    statusHistory: [{ from: null, to: 'nuevo', at: now, by: context.userId, byName: context.userName }],
+    slaHours: input.slaHours ?? DEFAULT_SLA_HOURS[priority],
+    priority,
+    notes: input.notes || ''
+  }
+
+  await store.save(lead)
+  return lead
+}
+
+/**
+ * Records a touch with the lead; the first one stops the SLA clock
+ */
+export function recordContact(lead: Lead, at: string = new Date().toISOString()): void {
+  lead.lastContact = at
+  if (!lead.firstContactAt) lead.firstContactAt = at
+}
+
+/**
+ * Moves the lead to a new status, recording who and when. Reaching 'contactado'
+ * counts as the first contact. Returns an error message for disallowed moves.
+ */
+export function transitionLead(lead: Lead, to: LeadStatus, context: OrgContext): string | null {
+  if (lead.status === to) return null
+
+  if (!canTransition(lead.status, to)) {
+    const allowed = allowedTransitions(lead.status).map((s) => LEAD_STATUS_LABELS[s])
+    return allowed.length > 0
+      ? `Cannot move a lead from ${LEAD_STATUS_LABELS[lead.status]} to ${LEAD_STATUS_LABELS[to]}; allowed: ${allowed.join(', ')}`
+      : `${LEAD_STATUS_LABELS[lead.status]} leads are closed`
+  }
+
+  const now = new Date().toISOString()
+  lead.statusHistory = [
+    ...lead.statusHistory,
+    { from: lead.status, to, at: now, by: context.userId, byName: context.userName }
+  ]
+  lead.status = to
+  lead.statusChangedAt = now
+  if (to === 'contactado') recordContact(lead, now)
+
+  return null
+}
+
+export function applyLeadInput(lead: Lead, input: LeadInput): void {
+  Object.assign(lead, input)
+  lead.updatedAt = new Date().toISOString()
+}
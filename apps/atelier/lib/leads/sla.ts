@@ -0,0 +1,123 @@
+/**
+ * Lead SLA and status rules
+ * Shared by the leads API and the /leads page (no server dependencies)
+ */
+
+import type { Lead, LeadStatus } from '@prime-growth-os/types'
+
+export const LEAD_STATUSES: LeadStatus[] = ['nuevo', 'contactado', 'propuesta', 'negociacion', 'ganado', 'perdido']
+
+export const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  nuevo: 'Nuevo',
+  contactado: 'Contactado',
+  propuesta: 'Propuesta',
+  negociacion: 'Negociación',
+  ganado: 'Ganado',
+  perdido: 'Perdido'
+}
+
+// Forward through the pipeline, one step back, or lost; lost leads can be reopened
+const TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  nuevo: ['contactado', 'perdido'],
+  contactado: ['propuesta', 'perdido'],
+  propuesta: ['negociacion', 'ganado', 'perdido', 'contactado'],
+  negociacion: ['ganado', 'perdido', 'propuesta'],
+  ganado: [],
+  perdido: ['nuevo', 'contactado']
+}
+
+// Default hours to first contact by priority
+export const DEFAULT_SLA_HOURS: Record<Lead['priority'], number> = {
+  alta: 2,
+  media: 24,
+  baja: 72
+}
+
+// Hours left at which an open SLA is flagged as at risk
+const AT_RISK_HOURS = 4
+
+const HOUR_MS = 1000 * 60 * 60
+
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return LEAD_STATUSES.includes(value as LeadStatus)
+}
+
+export function allowedTransitions(status: LeadStatus): LeadStatus[] {
+  return TRANSITIONS[status]
+}
+
+export function canTransition(from: LeadStatus, to: LeadStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+export type LeadSLAState = 'met' | 'breached' | 'on_track' | 'at_risk' | 'overdue'
+
+export type LeadSLA = {
+  state: LeadSLAState
+  breached: boolean
+  deadline: string
+  hoursToFirstContact: number | null  // null mientras no haya contacto
+  hoursRemaining: number | null  // null una vez contactado
+}
+
+/**
+ * Time to first contact against slaHours. Leads closed without a contact only
+ * count as breached if the deadline passed before they were closed.
+ */
+export function computeLeadSLA(lead: Lead, now: Date = new Date()): LeadSLA {
+  const created = new Date(lead.createdAt).getTime()
+  const deadline = created + lead.slaHours * HOUR_MS
+
+  if (lead.firstContactAt) {
+    const hoursToFirstContact = (new Date(lead.firstContactAt).getTime() - created) / HOUR_MS
+    const breached = hoursToFirstContact > lead.slaHours
+    return {
+      state: breached ? 'breached' : 'met',
+      breached,
+      deadline: new Date(deadline).toISOString(),
+      hoursToFirstContact,
+      hoursRemaining: null
+    }
+  }
+
+  const closed = lead.status === 'ganado' || lead.status === 'perdido'
+  const reference = closed ? new Date(lead.statusChangedAt).getTime() : now.getTime()
+  const hoursRemaining = (deadline - reference) / HOUR_MS
+  const state: LeadSLAState = hoursRemaining <= 0 ? 'overdue' : hoursRemaining <= AT_RISK_HOURS ? 'at_risk' : 'on_track'
+
+  return {
+    state,
+    breached: state === 'overdue',
+    deadline: new Date(deadline).toISOString(),
+    hoursToFirstContact: null,
+    hoursRemaining
+  }
+}
+
+export type LeadSLASummary = {
+  total: number
+  contacted: number
+  breaches: number
+  atRisk: number
+  avgHoursToFirstContact: number | null
+  compliance: number | null  // % de leads contactados dentro del SLA
+}
+
+export function summarizeLeadSLA(leads: Lead[], now: Date = new Date()): LeadSLASummary {
+  const slas = leads.map((lead) => computeLeadSLA(lead, now))
+  const contactTimes = slas
+    .map((sla) => sla.hoursToFirstContact)
+    .filter((hours): hours is number => hours !== null)
+  const met = slas.filter((sla) => sla.state === 'met').length
+
+  return {
+    total: leads.length,
+    contacted: contactTimes.length,
+    breaches: slas.filter((sla) => sla.breached).length,
+    atRisk: slas.filter((sla) => sla.state === 'at_risk').length,
+    avgHoursToFirstContact: contactTimes.length > 0
+      ? contactTimes.reduce((sum, hours) => sum + hours, 0) / contactTimes.length
+      : null,
+    compliance: contactTimes.length > 0 ? (met / contactTimes.length) * 100 : null
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Lead Storage
+ * Org-scoped persistence for the SDR pipeline
+ */
+
+import type { Lead } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type LeadStore = OrgStore<Lead>
+
+export class MemoryLeadStore extends MemoryOrgStore<Lead> {}
+
+export class FileLeadStore extends FileOrgStore<Lead> {}
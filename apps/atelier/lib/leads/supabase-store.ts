@@ -0,0 +1,137 @@
+/**
+ * Supabase Lead Store
+ * Persists the pipeline in the leads table, always filtered by org_id
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Lead } from '@prime-growth-os/types'
+import type { LeadStore } from './store'
+
+const TABLE = 'leads'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+type LeadRow = {
+  id: string
+  org_id: string
+  company: string
+  contact: string
+  email: string
+  phone: string
+  project_type: Lead['projectType']
+  budget: number | string
+  timeline: string
+  source: string
+  status: Lead['status']
+  created_at: string
+  updated_at: string
+  last_contact: string
+  first_contact_at: string | null
+  status_changed_at: string
+  status_history: Lead['statusHistory'] | null
+  sla_hours: number | string
+  priority: Lead['priority']
+  notes: string
+}
+
+function fromRow(row: LeadRow): Lead {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    company: row.company,
+    contact: row.contact,
+    email: row.email,
+    phone: row.phone,
+    projectType: row.project_type,
+    budget: Number(row.budget),
+    timeline: row.timeline,
+    source: row.source,
+    status: row.status,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastContact: row.last_contact,
+    firstContactAt: row.first_contact_at,
+    statusChangedAt: row.status_changed_at,
+    statusHistory: row.status_history || [],
+    slaHours: Number(row.sla_hours),
+    priority: row.priority,
+    notes: row.notes
+  }
+}
+
+export class SupabaseLeadStore implements LeadStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<Lead[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load leads: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<Lead | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load lead: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(lead: Lead): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: lead.id,
+      org_id: lead.orgId,
+      company: lead.company,
+      contact: lead.contact,
+      email: lead.email,
+      phone: lead.phone,
+      project_type: lead.projectType,
+      budget: lead.budget,
+      timeline: lead.timeline,
+      source: lead.source,
+      status: lead.status,
+      created_at: lead.createdAt,
+      updated_at: lead.updatedAt,
+      last_contact: lead.lastContact,
+      first_contact_at: lead.firstContactAt,
+      status_changed_at: lead.statusChangedAt,
+      status_history: lead.statusHistory,
+      sla_hours: lead.slaHours,
+      priority: lead.priority,
+      notes: lead.notes
+    })
+
+    if (error) {
+      throw new Error(`Failed to save lead: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete lead: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { canUseAuth } from '@/lib/auth-status'
+import { createClient } from '@/lib/supabase/server'
+
+export type MembershipRole = 'owner' | 'admin' | 'editor' | 'viewer'
+
+export type OrgContext = {
+  orgId: string
+  userId: string
+  userName: string
+  role: MembershipRole
+}
+
+// Single-tenant context used when authentication is off (local development, demos)
+const LOCAL_CONTEXT: OrgContext = {
+  orgId: process.env.DEFAULT_ORG_ID || 'org-local',
+  userId: 'user-001',
+  userName: 'Diego Ramos',
+  role: 'owner'
+}
+
+/**
+ * Resolves the signed-in user's organization from their membership.
+ * Returns null when auth is on and there is no session or membership.
+ */
+export async function getOrgContext(): Promise<OrgContext | null> {
+  if (!canUseAuth()) {
+    return LOCAL_CONTEXT
+  }
+
+  const supabase = await createClient()
+  const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+  if (authError || !user) {
+    return null
+  }
+
+  const { data: membership, error: membershipError } = await supabase
+    .from('memberships')
+    .select('org_id, role')
+    .eq('user_id', user.id)
+    .single()
+
+  if (membershipError || !membership) {
+    return null
+  }
+
+  return {
+    orgId: membership.org_id,
+    userId: user.id,
+    userName: user.user_metadata?.full_name || user.email || user.id,
+    role: membership.role
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Org-scoped Record Storage
+ * Memory and JSON file stores shared by leads, quotes, projects, vendors,
+ * RFQs and simulations; the Supabase stores live next to each domain
+ */
+
+import { readFileIfExists, serializeFileWrite, writeFileAtomic } from '@prime-growth-os/sgp'
+
+export type OrgRecord = {
+  id: string
+  orgId: string
+  createdAt: string
+}
+
+export interface OrgStore<T extends OrgRecord> {
+  /** Every record of the organization, newest first */
+  list(orgId: string): Promise<T[]>
+  get(orgId: string, id: string): Promise<T | null>
+  /** Insert or replace a record by ID */
+  save(record: T): Promise<void>
+  remove(orgId: string, id: string): Promise<void>
+}
+
+const newestFirst = (a: OrgRecord, b: OrgRecord) => b.createdAt.localeCompare(a.createdAt)
+
+/**
+ * Process-local store; `revive` fills fields that older records lack. Records
+ * are copied in and out, so a change only lands when it is saved, as with
+ * the file and Supabase stores.
+ */
+export class MemoryOrgStore<T extends OrgRecord> implements OrgStore<T> {
+  private records: Map<string, T> = new Map()
+
+  constructor(private readonly revive: (record: T) => T = (record) => record) {}
+
+  async list(orgId: string): Promise<T[]> {
+    return Array.from(this.records.values())
+      .filter((r) => r.orgId === orgId)
+      .map((r) => this.revive(structuredClone(r)))
+      .sort(newestFirst)
+  }
+
+  async get(orgId: string, id: string): Promise<T | null> {
+    const record = this.records.get(id)
+    return record && record.orgId === orgId ? this.revive(structuredClone(record)) : null
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, structuredClone(record))
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    if (this.records.get(id)?.orgId === orgId) {
+      this.records.delete(id)
+    }
+  }
+}
+
+/**
+ * Single JSON document for local development and single-node deployments.
+ * Writes replace the file atomically, so readers never see a partial document.
+ */
+export class FileOrgStore<T extends OrgRecord> implements OrgStore<T> {
+  constructor(
+    private readonly filePath: string,
+    private readonly revive: (record: T) => T = (record) => record
+  ) {}
+
+  async list(orgId: string): Promise<T[]> {
+    const records = await this.readAll()
+    return records.filter((r) => r.orgId === orgId).sort(newestFirst)
+  }
+
+  async get(orgId: string, id: string): Promise<T | null> {
+    const records = await this.readAll()
+    return records.find((r) => r.id === id && r.orgId === orgId) || null
+  }
+
+  save(record: T): Promise<void> {
+    return this.update((records) => {
+      const index = records.findIndex((r) => r.id === record.id)
+      return index >= 0
+        ? records.map((r, i) => (i === index ? record : r))
+        : [...records, record]
+    })
+  }
+
+  remove(orgId: string, id: string): Promise<void> {
+    return this.update((records) => records.filter((r) => !(r.id === id && r.orgId === orgId)))
+  }
+
+  // Read-modify-write cycles share the file's write queue with every other store instance
+  private update(change: (records: T[]) => T[]): Promise<void> {
+    return serializeFileWrite(this.filePath, async () => {
+      const records = change(await this.readAll())
+      await writeFileAtomic(this.filePath, JSON.stringify(records, null, 2))
+    })
+  }
+
+  private async readAll(): Promise<T[]> {
+    const content = await readFileIfExists(this.filePath)
+    return content ? (JSON.parse(content) as T[]).map(this.revive) : []
+  }
+}
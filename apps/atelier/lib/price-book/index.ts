@@ -0,0 +1,329 @@
+/**
+ * Server-side price book library
+ * Versioned, per-organization tiers, add-ons, premiums and discount rules with
+ * effective dates. Quotes record the version they were priced with.
+ */
+
+import path from 'path'
+import type {
+  CPQTier,
+  DiscountApprovalLimits,
+  DiscountRules,
+  PriceBook,
+  PriceBookAddOn,
+  PriceBookCosts,
+  PriceBookRates,
+  QuoteUrgency
+} from '@prime-growth-os/types'
+import { defaultPriceBook } from '@prime-growth-os/engine'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { MemoryPriceBookStore, FilePriceBookStore, type PriceBookStore } from './store'
+import { SupabasePriceBookStore } from './supabase-store'
+
+export type { PriceBookStore } from './store'
+
+let memoryStore: MemoryPriceBookStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getPriceBookStore(): PriceBookStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabasePriceBookStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryPriceBookStore()
+      return memoryStore
+    case 'file':
+      return new FilePriceBookStore(path.join(process.cwd(), '.data', 'price-books.json'))
+  }
+}
+
+function newPriceBookId(): string {
+  return `pricebook-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * The highest version already in effect at `at`; before the first effective
+ * date, the oldest version applies
+ */
+export function resolvePriceBook(books: PriceBook[], at: Date = new Date()): PriceBook | null {
+  const sorted = [...books].sort((a, b) => b.version - a.version)
+  return sorted.find((b) => new Date(b.effectiveFrom).getTime() <= at.getTime()) || sorted[sorted.length - 1] || null
+}
+
+/**
+ * Every version of the organization's price book, newest first. An organization
+ * without one starts from the engine's standard price book as version 1.
+ */
+export async function listPriceBooks(store: PriceBookStore, context: OrgContext): Promise<PriceBook[]> {
+  const books = await store.list(context.orgId)
+  if (books.length > 0) return books
+
+  const now = new Date().toISOString()
+  const seed: PriceBook = {
+    id: newPriceBookId(),
+    orgId: context.orgId,
+    version: 1,
+    effectiveFrom: now,
+    notes: 'Lista de precios estándar',
+    ...structuredClone(defaultPriceBook),
+    createdAt: now,
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+  await store.save(seed)
+  return [seed]
+}
+
+export async function getActivePriceBook(
+  store: PriceBookStore,
+  context: OrgContext,
+  at: Date = new Date()
+): Promise<PriceBook> {
+  const books = await listPriceBooks(store, context)
+  return resolvePriceBook(books, at) as PriceBook
+}
+
+// Changes for a new version; anything omitted is carried over from the base version
+export type PriceBookInput = Partial<Omit<PriceBookRates, 'costs'>> & {
+  costs?: Partial<PriceBookCosts>
+  effectiveFrom?: string
+  notes?: string
+}
+
+const URGENCIES: QuoteUrgency[] = ['normal', 'expedito', 'urgente']
+const DISCOUNT_RULES: (keyof DiscountRules)[] = [
+  'returnClient',
+  'volumePerProject',
+  'volumeMax',
+  'cashPayment',
+  'lowSeason',
+  'highSeasonSurcharge',
+  'maxDiscount'
+]
+const APPROVAL_ROLES: (keyof DiscountApprovalLimits)[] = ['viewer', 'editor', 'admin', 'owner']
+
+const isNumberAtLeast = (value: unknown, min: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min
+
+const isFraction = (value: unknown): value is number => isNumberAtLeast(value, 0) && (value as number) <= 1
+
+function hasUniqueIds(items: Array<{ id: string }>): boolean {
+  return new Set(items.map((item) => item.id)).size === items.length
+}
+
+function parseTier(value: unknown, index: number): CPQTier | string {
+  const label = `tiers[${index}]`
+  if (!isObject(value)) return `${label} must be an object`
+  if (typeof value.id !== 'string' || !value.id.trim()) return `${label}.id must be a non-empty string`
+  if (typeof value.name !== 'string' || !value.name.trim()) return `${label}.name must be a non-empty string`
+  if (typeof value.description !== 'string') return `${label}.description must be a string`
+  if (!Array.isArray(value.features) || value.features.some((f: unknown) => typeof f !== 'string')) {
+    return `${label}.features must be an array of strings`
+  }
+  if (!isNumberAtLeast(value.basePrice, 0)) return `${label}.basePrice must be a non-negative number`
+  if (!isNumberAtLeast(value.deliveryTime, 1)) return `${label}.deliveryTime must be at least 1 day`
+  if (!isNumberAtLeast(value.revisions, 0) || !Number.isInteger(value.revisions)) return `${label}.revisions must be a non-negative integer`
+  if (!isNumberAtLeast(value.teamSize, 1) || !Number.isInteger(value.teamSize)) return `${label}.teamSize must be a positive integer`
+
+  return {
+    id: value.id.trim(),
+    name: value.name.trim(),
+    description: value.description.trim(),
+    basePrice: value.basePrice,
+    features: value.features,
+    deliveryTime: value.deliveryTime,
+    revisions: value.revisions,
+    teamSize: value.teamSize
+  }
+}
+
+function parseAddOn(value: unknown, index: number): PriceBookAddOn | string {
+  const label = `addOns[${index}]`
+  if (!isObject(value)) return `${label} must be an object`
+  if (typeof value.id !== 'string' || !value.id.trim()) return `${label}.id must be a non-empty string`
+  if (typeof value.name !== 'string' || !value.name.trim()) return `${label}.name must be a non-empty string`
+  if (!isNumberAtLeast(value.price, 0)) return `${label}.price must be a non-negative number`
+
+  return { id: value.id.trim(), name: value.name.trim(), price: value.price }
+}
+
+function parseCosts(value: unknown): Partial<PriceBookCosts> | string {
+  if (!isObject(value)) return 'costs must be an object'
+
+  const costs: Partial<PriceBookCosts> = {}
+  if (value.tiers !== undefined) {
+    if (!isObject(value.tiers)) return 'costs.tiers must be an object'
+    for (const [id, cost] of Object.entries(value.tiers)) {
+      if (!isNumberAtLeast(cost, 0)) return `costs.tiers.${id} must be a non-negative number`
+    }
+    costs.tiers = value.tiers as PriceBookCosts['tiers']
+  }
+  if (value.addOnCostRatio !== undefined) {
+    if (!isFraction(value.addOnCostRatio)) return 'costs.addOnCostRatio must be between 0 and 1'
+    costs.addOnCostRatio = value.addOnCostRatio
+  }
+  if (value.marginFloor !== undefined) {
+    if (!isFraction(value.marginFloor) || value.marginFloor === 1) return 'costs.marginFloor must be at least 0 and below 1'
+    costs.marginFloor = value.marginFloor
+  }
+  return costs
+}
+
+/**
+ * Validates a new price book version; returns an error message or the input.
+ * Multipliers, discount rules, approval limits and cost ratios are fractions (0.05 = 5%).
+ */
+export function parsePriceBookInput(body: unknown): PriceBookInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: PriceBookInput = {}
+
+  if (body.effectiveFrom !== undefined) {
+    if (typeof body.effectiveFrom !== 'string' || Number.isNaN(Date.parse(body.effectiveFrom))) {
+      return 'effectiveFrom must be an ISO date'
+    }
+    input.effectiveFrom = new Date(body.effectiveFrom).toISOString()
+  }
+
+  if (body.notes !== undefined) {
+    if (typeof body.notes !== 'string') return 'notes must be a string'
+    input.notes = body.notes.trim()
+  }
+
+  if (body.tiers !== undefined) {
+    if (!Array.isArray(body.tiers) || body.tiers.length === 0) return 'tiers must be a non-empty array'
+    const tiers: CPQTier[] = []
+    for (const [index, value] of body.tiers.entries()) {
+      const tier = parseTier(value, index)
+      if (typeof tier === 'string') return tier
+      tiers.push(tier)
+    }
+    if (!hasUniqueIds(tiers)) return 'tier ids must be unique'
+    input.tiers = tiers
+  }
+
+  if (body.addOns !== undefined) {
+    if (!Array.isArray(body.addOns)) return 'addOns must be an array'
+    const addOns: PriceBookAddOn[] = []
+    for (const [index, value] of body.addOns.entries()) {
+      const addOn = parseAddOn(value, index)
+      if (typeof addOn === 'string') return addOn
+      addOns.push(addOn)
+    }
+    if (!hasUniqueIds(addOns)) return 'add-on ids must be unique'
+    input.addOns = addOns
+  }
+
+  if (body.sizePremiumFactor !== undefined) {
+    if (!isNumberAtLeast(body.sizePremiumFactor, 0)) return 'sizePremiumFactor must be a non-negative number'
+    input.sizePremiumFactor = body.sizePremiumFactor
+  }
+
+  if (body.urgencyMultipliers !== undefined) {
+    if (!isObject(body.urgencyMultipliers)) return 'urgencyMultipliers must be an object'
+    const multipliers: Partial<PriceBookRates['urgencyMultipliers']> = {}
+    for (const urgency of URGENCIES) {
+      const value = body.urgencyMultipliers[urgency]
+      if (value === undefined) continue
+      if (!isNumberAtLeast(value, 0)) return `urgencyMultipliers.${urgency} must be a non-negative number`
+      multipliers[urgency] = value
+    }
+    input.urgencyMultipliers = multipliers as PriceBookRates['urgencyMultipliers']
+  }
+
+  if (body.discountRules !== undefined) {
+    if (!isObject(body.discountRules)) return 'discountRules must be an object'
+    const rules: Partial<PriceBookRates['discountRules']> = {}
+    for (const rule of DISCOUNT_RULES) {
+      const value = body.discountRules[rule]
+      if (value === undefined) continue
+      if (!isFraction(value)) return `discountRules.${rule} must be between 0 and 1`
+      rules[rule] = value
+    }
+    input.discountRules = rules as PriceBookRates['discountRules']
+  }
+
+  if (body.approvalLimits !== undefined) {
+    if (!isObject(body.approvalLimits)) return 'approvalLimits must be an object'
+    const limits: Partial<PriceBookRates['approvalLimits']> = {}
+    for (const role of APPROVAL_ROLES) {
+      const value = body.approvalLimits[role]
+      if (value === undefined) continue
+      if (!isFraction(value)) return `approvalLimits.${role} must be between 0 and 1`
+      limits[role] = value
+    }
+    input.approvalLimits = limits as PriceBookRates['approvalLimits']
+  }
+
+  if (body.costs !== undefined) {
+    const costs = parseCosts(body.costs)
+    if (typeof costs === 'string') return costs
+    input.costs = costs
+  }
+
+  return input
+}
+
+/**
+ * Every tier needs a delivery cost, or quotes on it could not check their margin
+ */
+export function checkTierCosts(book: Pick<PriceBookRates, 'tiers' | 'costs'>): string | null {
+  const missing = book.tiers.filter((t) => book.costs.tiers[t.id] === undefined).map((t) => t.id)
+  return missing.length > 0 ? `costs.tiers needs a cost for ${missing.join(', ')}` : null
+}
+
+/**
+ * Saves a new version on top of the latest one (`books` newest first). Urgency
+ * multipliers, discount rules, approval limits and costs merge key by key;
+ * tiers and add-ons replace the whole list. Returns an error message when a
+ * tier of the new version has no cost.
+ */
+export async function createPriceBookVersion(
+  store: PriceBookStore,
+  context: OrgContext,
+  books: PriceBook[],
+  input: PriceBookInput
+): Promise<PriceBook | string> {
+  const now = new Date().toISOString()
+  const base = books[0]
+
+  const book: PriceBook = {
+    id: newPriceBookId(),
+    orgId: context.orgId,
+    version: base.version + 1,
+    effectiveFrom: input.effectiveFrom || now,
+    notes: input.notes || '',
+    tiers: input.tiers || base.tiers,
+    addOns: input.addOns || base.addOns,
+    sizePremiumFactor: input.sizePremiumFactor ?? base.sizePremiumFactor,
+    urgencyMultipliers: { ...base.urgencyMultipliers, ...pick(input.urgencyMultipliers, URGENCIES) },
+    discountRules: { ...base.discountRules, ...pick(input.discountRules, DISCOUNT_RULES) },
+    approvalLimits: { ...base.approvalLimits, ...pick(input.approvalLimits, APPROVAL_ROLES) },
+    costs: {
+      tiers: { ...base.costs.tiers, ...input.costs?.tiers },
+      addOnCostRatio: input.costs?.addOnCostRatio ?? base.costs.addOnCostRatio,
+      marginFloor: input.costs?.marginFloor ?? base.costs.marginFloor
+    },
+    createdAt: now,
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+
+  const invalid = checkTierCosts(book)
+  if (invalid) return invalid
+
+  await store.save(book)
+  return book
+}
+
+function pick<K extends string>(source: Partial<Record<K, number>> | undefined, keys: K[]): Partial<Record<K, number>> {
+  const result: Partial<Record<K, number>> = {}
+  if (!source) return result
+  for (const key of keys) {
+    if (source[key] !== undefined) result[key] = source[key]
+  }
+  return result
+}
@@ -0,0 +1,92 @@
+/**
+ * Price Book Storage
+ * Org-scoped, append-only price book versions; a version is never edited once saved
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import type { PriceBook } from '@prime-growth-os/types'
+import { defaultPriceBook } from '@prime-growth-os/engine'
+
+export interface PriceBookStore {
+  /** Every version of the organization's price book, newest version first */
+  list(orgId: string): Promise<PriceBook[]>
+  get(orgId: string, id: string): Promise<PriceBook | null>
+  /** Insert a new version */
+  save(book: PriceBook): Promise<void>
+}
+
+const newestFirst = (a: PriceBook, b: PriceBook) => b.version - a.version
+
+// A version as stored, where approval limits and costs may be missing or null
+export type StoredPriceBook = Omit<PriceBook, 'approvalLimits' | 'costs'> & {
+  approvalLimits?: PriceBook['approvalLimits'] | null
+  costs?: PriceBook['costs'] | null
+}
+
+/**
+ * Versions saved before approvals and costs existed use the standard ones
+ */
+export function withPriceBookDefaults(book: StoredPriceBook): PriceBook {
+  return {
+    ...book,
+    approvalLimits: book.approvalLimits || defaultPriceBook.approvalLimits,
+    costs: book.costs || defaultPriceBook.costs
+  }
+}
+
+export class MemoryPriceBookStore implements PriceBookStore {
+  private books: Map<string, PriceBook> = new Map()
+
+  async list(orgId: string): Promise<PriceBook[]> {
+    return Array.from(this.books.values())
+      .filter((b) => b.orgId === orgId)
+      .map(withPriceBookDefaults)
+      .sort(newestFirst)
+  }
+
+  async get(orgId: string, id: string): Promise<PriceBook | null> {
+    const book = this.books.get(id)
+    return book && book.orgId === orgId ? withPriceBookDefaults(book) : null
+  }
+
+  async save(book: PriceBook): Promise<void> {
+    this.books.set(book.id, book)
+  }
+}
+
+/**
+ * Single JSON document for local development and single-node deployments
+ */
+export class FilePriceBookStore implements PriceBookStore {
+  constructor(private readonly filePath: string) {}
+
+  async list(orgId: string): Promise<PriceBook[]> {
+    const books = await this.readAll()
+    return books.filter((b) => b.orgId === orgId).sort(newestFirst)
+  }
+
+  async get(orgId: string, id: string): Promise<PriceBook | null> {
+    const books = await this.readAll()
+    return books.find((b) => b.id === id && b.orgId === orgId) || null
+  }
+
+  async save(book: PriceBook): Promise<void> {
+    const books = await this.readAll()
+    await this.writeAll([...books.filter((b) => b.id !== book.id), book])
+  }
+
+  private async readAll(): Promise<PriceBook[]> {
+    try {
+      return (JSON.parse(await fs.readFile(this.filePath, 'utf8')) as PriceBook[]).map(withPriceBookDefaults)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return []
+      throw error
+    }
+  }
+
+  private async writeAll(books: PriceBook[]): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+    await fs.writeFile(this.filePath, JSON.stringify(books, null, 2), 'utf8')
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Supabase Price Book Store
+ * Persists price book versions in the price_books table, always filtered by org_id
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PriceBook } from '@prime-growth-os/types'
+import { withPriceBookDefaults, type PriceBookStore } from './store'
+
+const TABLE = 'price_books'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+// and withPriceBookDefaults fills the JSONB columns older rows left null
+type PriceBookRow = {
+  id: string
+  org_id: string
+  version: number
+  effective_from: string
+  notes: string
+  tiers: PriceBook['tiers']
+  add_ons: PriceBook['addOns']
+  size_premium_factor: number | string
+  urgency_multipliers: PriceBook['urgencyMultipliers']
+  discount_rules: PriceBook['discountRules']
+  approval_limits: PriceBook['approvalLimits'] | null
+  costs: PriceBook['costs'] | null
+  created_at: string
+  created_by: string
+  created_by_name: string
+}
+
+function fromRow(row: PriceBookRow): PriceBook {
+  return withPriceBookDefaults({
+    id: row.id,
+    orgId: row.org_id,
+    version: row.version,
+    effectiveFrom: row.effective_from,
+    notes: row.notes,
+    tiers: row.tiers,
+    addOns: row.add_ons,
+    sizePremiumFactor: Number(row.size_premium_factor),
+    urgencyMultipliers: row.urgency_multipliers,
+    discountRules: row.discount_rules,
+    approvalLimits: row.approval_limits,
+    costs: row.costs,
+    createdAt: row.created_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name
+  })
+}
+
+export class SupabasePriceBookStore implements PriceBookStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<PriceBook[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load price books: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<PriceBook | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load price book: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(book: PriceBook): Promise<void> {
+    const { error } = await this.client.from(TABLE).insert({
+      id: book.id,
+      org_id: book.orgId,
+      version: book.version,
+      effective_from: book.effectiveFrom,
+      notes: book.notes,
+      tiers: book.tiers,
+      add_ons: book.addOns,
+      size_premium_factor: book.sizePremiumFactor,
+      urgency_multipliers: book.urgencyMultipliers,
+      discount_rules: book.discountRules,
+      approval_limits: book.approvalLimits,
+      costs: book.costs,
+      created_at: book.createdAt,
+      created_by: book.createdBy,
+      created_by_name: book.createdByName
+    })
+
+    if (error) {
+      throw new Error(`Failed to save price book: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,539 @@
+/**
+ * Server-side project library
+ * Org-scoped stage-gate projects: checklisted deliverables per phase, gate
+ * reviews signed off by named approvers, blocks with a reason and owner, and
+ * dates and progress derived from the phases (see ./rules)
+ */
+
+import path from 'path'
+import type { GateApprover, PhaseBlock, Project, StageGateDeliverable, StageGatePhase, StageGatePhaseStatus } from '@prime-growth-os/types'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { getQuoteStore } from '@/lib/quotes'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { PHASE_STATUS_LABELS, PROJECT_STATUSES, gateReview, isGateApprover, isPhaseUnlocked, orderPhases, refreshProject } from './rules'
+import { MemoryProjectStore, FileProjectStore, type ProjectStore } from './store'
+import { SupabaseProjectStore } from './supabase-store'
+
+export type { ProjectStore } from './store'
+
+let memoryStore: MemoryProjectStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getProjectStore(): ProjectStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseProjectStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryProjectStore()
+      return memoryStore
+    case 'file':
+      return new FileProjectStore(path.join(process.cwd(), '.data', 'projects.json'))
+  }
+}
+
+// Fields the client may set on create or update; dates, progress and phases are managed here
+export type ProjectInput = Partial<Pick<Project, 'name' | 'client' | 'type' | 'budget' | 'startDate' | 'status' | 'manager' | 'team' | 'quoteId'>>
+
+// A phase as described on create; approvers default to the creator (only owners
+// and admins may name others) and each phase depends on the previous one unless
+// told otherwise
+export type PhaseDraft = {
+  id?: string
+  name: string
+  description?: string
+  duration: number
+  deliverables: string[]
+  approvalRequired?: boolean
+  approvers?: GateApprover[]
+  dependsOn?: string[]
+}
+
+// Changes to one phase; `deliverables` checks items off by ID
+export type PhaseInput = {
+  duration?: number
+  slippageDays?: number
+  approvers?: GateApprover[]
+  deliverables?: Record<string, boolean>
+  status?: StageGatePhaseStatus
+  blocked?: Pick<PhaseBlock, 'reason' | 'owner'> | null
+}
+
+// Architecture projects go through concept, design development and construction documents
+export const DEFAULT_PHASES: PhaseDraft[] = [
+  {
+    name: 'Planificación y Concepto',
+    description: 'Desarrollo del concepto arquitectónico y planificación inicial',
+    duration: 30,
+    deliverables: ['Brief del proyecto', 'Análisis de sitio', 'Conceptos iniciales', 'Presupuesto preliminar']
+  },
+  {
+    name: 'Desarrollo de Diseño',
+    description: 'Diseño detallado y documentación técnica',
+    duration: 45,
+    deliverables: ['Planos arquitectónicos', 'Renders 3D', 'Especificaciones técnicas', 'Planos MEP']
+  },
+  {
+    name: 'Documentación y Entrega',
+    description: 'Finalización de documentos ejecutivos y entrega',
+    duration: 30,
+    deliverables: ['Planos ejecutivos', 'Manual de usuario', 'Certificaciones', 'Entrega final']
+  }
+]
+
+const PROJECT_TYPES: Project['type'][] = ['residencial', 'comercial', 'institucional']
+// Blocking and unblocking go through `blocked`
+const PHASE_INPUT_STATUSES: StageGatePhaseStatus[] = ['en_progreso', 'en_revision', 'completada']
+const TEXT_FIELDS = ['name', 'client', 'manager'] as const
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+/**
+ * Validates the editable fields of a request body; returns an error message or the input
+ */
+export function parseProjectInput(body: unknown, options: { requireName?: boolean } = {}): ProjectInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: ProjectInput = {}
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string') return `${field} must be a string`
+    input[field] = body[field].trim()
+  }
+
+  if (options.requireName && !input.name) return 'name is required'
+
+  if (body.type !== undefined) {
+    if (!PROJECT_TYPES.includes(body.type as Project['type'])) return `type must be one of ${PROJECT_TYPES.join(', ')}`
+    input.type = body.type as Project['type']
+  }
+
+  if (body.status !== undefined) {
+    if (!PROJECT_STATUSES.includes(body.status as Project['status'])) return `status must be one of ${PROJECT_STATUSES.join(', ')}`
+    input.status = body.status as Project['status']
+  }
+
+  if (body.budget !== undefined) {
+    if (typeof body.budget !== 'number' || !Number.isFinite(body.budget) || body.budget < 0) {
+      return 'budget must be a non-negative number'
+    }
+    input.budget = body.budget
+  }
+
+  if (body.startDate !== undefined) {
+    if (typeof body.startDate !== 'string' || !DATE_PATTERN.test(body.startDate) || isNaN(Date.parse(body.startDate))) {
+      return 'startDate must be a date (YYYY-MM-DD)'
+    }
+    input.startDate = body.startDate
+  }
+
+  if (body.team !== undefined) {
+    if (!isStringArray(body.team)) return 'team must be an array of strings'
+    input.team = body.team.map((member: string) => member.trim()).filter(Boolean)
+  }
+
+  if (body.quoteId !== undefined) {
+    if (body.quoteId !== null && (typeof body.quoteId !== 'string' || !body.quoteId)) {
+      return 'quoteId must be a quote ID or null'
+    }
+    input.quoteId = body.quoteId
+  }
+
+  return input
+}
+
+function parseApprovers(value: unknown, field: string): GateApprover[] | string {
+  if (
+    !Array.isArray(value) ||
+    value.some((a) => !a || typeof a.userId !== 'string' || !a.userId || typeof a.name !== 'string')
+  ) {
+    return `${field} must be an array of { userId, name }`
+  }
+  const unique = new Map<string, GateApprover>()
+  value.forEach((a) => unique.set(a.userId, { userId: a.userId, name: a.name.trim() || a.userId }))
+  return Array.from(unique.values())
+}
+
+/**
+ * Validates the phases of a new project; returns an error message or the drafts
+ */
+export function parsePhaseDrafts(value: unknown): PhaseDraft[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'phases must be a non-empty array'
+
+  const drafts: PhaseDraft[] = []
+  for (const [index, phase] of value.entries()) {
+    const field = `phases[${index}]`
+    if (!phase || typeof phase !== 'object') return `${field} must be an object`
+    if (typeof phase.name !== 'string' || !phase.name.trim()) return `${field}.name is required`
+    if (phase.id !== undefined && (typeof phase.id !== 'string' || !phase.id)) return `${field}.id must be a non-empty string`
+    if (phase.description !== undefined && typeof phase.description !== 'string') return `${field}.description must be a string`
+    if (!isPositiveInteger(phase.duration)) return `${field}.duration must be a positive whole number of days`
+    if (!isStringArray(phase.deliverables)) return `${field}.deliverables must be an array of strings`
+    if (phase.approvalRequired !== undefined && typeof phase.approvalRequired !== 'boolean') {
+      return `${field}.approvalRequired must be a boolean`
+    }
+    if (phase.dependsOn !== undefined && !isStringArray(phase.dependsOn)) return `${field}.dependsOn must be an array of phase IDs`
+
+    const draft: PhaseDraft = {
+      id: phase.id,
+      name: phase.name.trim(),
+      description: phase.description,
+      duration: phase.duration,
+      deliverables: phase.deliverables.map((d: string) => d.trim()).filter(Boolean),
+      approvalRequired: phase.approvalRequired,
+      dependsOn: phase.dependsOn
+    }
+    if (phase.approvers !== undefined) {
+      const approvers = parseApprovers(phase.approvers, `${field}.approvers`)
+      if (typeof approvers === 'string') return approvers
+      draft.approvers = approvers
+    }
+    drafts.push(draft)
+  }
+
+  return drafts
+}
+
+/**
+ * Validates the changes to one phase; returns an error message or the input
+ */
+export function parsePhaseInput(body: unknown): PhaseInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: PhaseInput = {}
+
+  if (body.duration !== undefined) {
+    if (!isPositiveInteger(body.duration)) return 'duration must be a positive whole number of days'
+    input.duration = body.duration
+  }
+
+  if (body.slippageDays !== undefined) {
+    if (typeof body.slippageDays !== 'number' || !Number.isInteger(body.slippageDays) || body.slippageDays < 0) {
+      return 'slippageDays must be a non-negative whole number'
+    }
+    input.slippageDays = body.slippageDays
+  }
+
+  if (body.approvers !== undefined) {
+    const approvers = parseApprovers(body.approvers, 'approvers')
+    if (typeof approvers === 'string') return approvers
+    input.approvers = approvers
+  }
+
+  if (body.deliverables !== undefined) {
+    const checks = body.deliverables
+    if (!isObject(checks) || Object.values(checks).some((v) => typeof v !== 'boolean')) {
+      return 'deliverables must map deliverable IDs to true or false'
+    }
+    input.deliverables = checks as Record<string, boolean>
+  }
+
+  if (body.status !== undefined) {
+    if (!PHASE_INPUT_STATUSES.includes(body.status as StageGatePhaseStatus)) {
+      return 'status must be en_progreso, en_revision or completada (use blocked to block a phase)'
+    }
+    input.status = body.status as StageGatePhaseStatus
+  }
+
+  if (body.blocked !== undefined) {
+    const blocked = body.blocked
+    if (blocked === null) {
+      input.blocked = null
+    } else {
+      if (!isObject(blocked)) return 'blocked must be an object or null'
+      if (typeof blocked.reason !== 'string' || !blocked.reason.trim()) return 'blocked.reason is required'
+      if (typeof blocked.owner !== 'string' || !blocked.owner.trim()) return 'blocked.owner is required'
+      input.blocked = { reason: blocked.reason.trim(), owner: blocked.owner.trim() }
+    }
+  }
+
+  return input
+}
+
+function newProjectId(): string {
+  return `proj-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function buildPhases(drafts: PhaseDraft[], context: OrgContext): StageGatePhase[] | string {
+  const phases = drafts.map((draft, index): StageGatePhase => {
+    const id = draft.id || `phase-${index + 1}`
+    const approvalRequired = draft.approvalRequired ?? true
+    return {
+      id,
+      name: draft.name,
+      description: draft.description || '',
+      duration: draft.duration,
+      dependsOn: draft.dependsOn ?? (index > 0 ? [drafts[index - 1].id || `phase-${index}`] : []),
+      deliverables: draft.deliverables.map((name, n): StageGateDeliverable => ({
+        id: `${id}-d${n + 1}`,
+        name,
+        done: false,
+        completedAt: null,
+        completedBy: null,
+        completedByName: null
+      })),
+      approvalRequired,
+      approvers: approvalRequired ? draft.approvers || [{ userId: context.userId, name: context.userName }] : [],
+      reviewRound: 1,
+      signOffs: [],
+      status: 'pendiente',
+      blocked: null,
+      slippageDays: 0,
+      startDate: '',
+      endDate: '',
+      startedAt: null,
+      completedAt: null
+    }
+  })
+
+  if (new Set(phases.map((p) => p.id)).size !== phases.length) return 'Phase IDs must be unique'
+  if (!orderPhases(phases)) return 'Phase dependencies must reference other phases of the project and cannot form a cycle'
+  if (phases.some((p) => p.approvalRequired && p.approvers.length === 0)) return 'Phases with a gate review need at least one approver'
+  return phases
+}
+
+/**
+ * Creates a project from phase drafts (DEFAULT_PHASES unless given). Returns an
+ * error message when the phases are inconsistent.
+ */
+export async function createProject(
+  store: ProjectStore,
+  context: OrgContext,
+  input: ProjectInput,
+  drafts: PhaseDraft[] = DEFAULT_PHASES
+): Promise<Project | string> {
+  const phases = buildPhases(drafts, context)
+  if (typeof phases === 'string') return phases
+
+  const now = new Date().toISOString()
+  const project: Project = {
+    id: newProjectId(),
+    orgId: context.orgId,
+    name: input.name || '',
+    client: input.client || '',
+    type: input.type || 'residencial',
+    budget: input.budget ?? 0,
+    startDate: input.startDate || now.slice(0, 10),
+    endDate: '',
+    status: input.status || 'planificacion',
+    phases,
+    manager: input.manager || context.userName,
+    team: input.team || [],
+    progress: 0,
+    quoteId: input.quoteId ?? null,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+  refreshProject(project)
+
+  await store.save(project)
+  return project
+}
+
+/**
+ * A project bills an accepted quote, and each quote belongs to one project;
+ * returns an error message when the link is not allowed
+ */
+export async function checkQuoteLink(store: ProjectStore, orgId: string, quoteId: string, projectId?: string): Promise<string | null> {
+  const quote = await getQuoteStore().get(orgId, quoteId)
+  if (!quote) return 'Quote not found'
+  if (quote.status !== 'aceptada') return 'Only accepted quotes can be linked to a project'
+
+  const projects = await store.list(orgId)
+  const linked = projects.find((p) => p.quoteId === quoteId && p.id !== projectId)
+  return linked ? `Quote is already linked to ${linked.name}` : null
+}
+
+export function applyProjectInput(project: Project, input: ProjectInput): void {
+  Object.assign(project, input)
+  refreshProject(project)
+  project.updatedAt = new Date().toISOString()
+}
+
+function completePhase(phase: StageGatePhase, at: string): void {
+  phase.status = 'completada'
+  phase.completedAt = at
+}
+
+function startPhase(project: Project, phase: StageGatePhase, at: string): string | null {
+  if (phase.status !== 'pendiente') {
+    return `${PHASE_STATUS_LABELS[phase.status]} phases cannot be started`
+  }
+  if (!isPhaseUnlocked(project, phase)) {
+    const waiting = phase.dependsOn
+      .map((id) => project.phases.find((p) => p.id === id)!)
+      .filter((p) => p.status !== 'completada')
+      .map((p) => p.name)
+    return `${phase.name} unlocks when these gates pass: ${waiting.join(', ')}`
+  }
+  phase.status = 'en_progreso'
+  phase.startedAt = at
+  return null
+}
+
+/**
+ * Closes the phase once every deliverable is checked: phases without a gate
+ * review complete, the rest wait for their approvers in en_revision
+ */
+function submitPhase(phase: StageGatePhase, to: StageGatePhaseStatus, at: string): string | null {
+  if (phase.status !== 'en_progreso') {
+    return `${PHASE_STATUS_LABELS[phase.status]} phases cannot be submitted`
+  }
+  const open = phase.deliverables.filter((d) => !d.done)
+  if (open.length > 0) {
+    return `Complete every deliverable first; pending: ${open.map((d) => d.name).join(', ')}`
+  }
+  if (phase.approvalRequired && to === 'completada') {
+    return `${phase.name} needs the gate review sign-off of ${phase.approvers.map((a) => a.name).join(', ')}`
+  }
+
+  if (phase.approvalRequired) {
+    phase.status = 'en_revision'
+  } else {
+    completePhase(phase, at)
+  }
+  return null
+}
+
+function checkDeliverables(phase: StageGatePhase, checks: Record<string, boolean>, context: OrgContext, at: string): string | null {
+  if (phase.status !== 'en_progreso') {
+    return `Deliverables can only be checked off while the phase is in progress (${PHASE_STATUS_LABELS[phase.status]})`
+  }
+  const unknown = Object.keys(checks).filter((id) => !phase.deliverables.some((d) => d.id === id))
+  if (unknown.length > 0) return `Unknown deliverables: ${unknown.join(', ')}`
+
+  phase.deliverables = phase.deliverables.map((d) => {
+    if (checks[d.id] === undefined || checks[d.id] === d.done) return d
+    return checks[d.id]
+      ? { ...d, done: true, completedAt: at, completedBy: context.userId, completedByName: context.userName }
+      : { ...d, done: false, completedAt: null, completedBy: null, completedByName: null }
+  })
+  return null
+}
+
+function blockPhase(phase: StageGatePhase, block: Pick<PhaseBlock, 'reason' | 'owner'>, context: OrgContext, at: string): string | null {
+  if (phase.status === 'completada') return 'Completed phases cannot be blocked'
+
+  phase.blocked = {
+    ...block,
+    since: phase.blocked?.since || at,
+    by: context.userId,
+    byName: context.userName,
+    previousStatus: phase.blocked?.previousStatus || (phase.status as PhaseBlock['previousStatus'])
+  }
+  phase.status = 'bloqueada'
+  return null
+}
+
+function unblockPhase(phase: StageGatePhase): void {
+  if (!phase.blocked) return
+  phase.status = phase.blocked.previousStatus
+  phase.blocked = null
+}
+
+/**
+ * Applies the changes to one phase in a safe order (unblock, plan, checklist,
+ * status, block) and recalculates the project. Returns an error message for
+ * disallowed changes, leaving the project untouched.
+ */
+export function updatePhase(project: Project, phaseId: string, input: PhaseInput, context: OrgContext): string | null {
+  const draft: Project = structuredClone(project)
+  const phase = draft.phases.find((p) => p.id === phaseId)
+  if (!phase) return 'Phase not found'
+
+  const now = new Date().toISOString()
+
+  if (input.blocked === null) unblockPhase(phase)
+  if (phase.status === 'bloqueada' && (input.deliverables || input.status)) {
+    return `${phase.name} is blocked: ${phase.blocked?.reason} (owner: ${phase.blocked?.owner})`
+  }
+
+  if (input.duration !== undefined) phase.duration = input.duration
+  if (input.slippageDays !== undefined) phase.slippageDays = input.slippageDays
+
+  if (input.approvers !== undefined) {
+    if (phase.status === 'completada') return 'The gate of a completed phase has already passed'
+    // Sign-offs already given count toward the named approvers, so the list is fixed for the round
+    if (phase.status === 'en_revision' || phase.blocked?.previousStatus === 'en_revision') {
+      return `Approvers cannot change while ${phase.name} is under gate review`
+    }
+    if (phase.approvalRequired && input.approvers.length === 0) return 'A gate review needs at least one approver'
+    phase.approvers = input.approvers
+  }
+
+  if (input.deliverables) {
+    const invalid = checkDeliverables(phase, input.deliverables, context, now)
+    if (invalid) return invalid
+  }
+
+  if (input.status === 'en_progreso' && phase.status !== 'en_progreso') {
+    const invalid = startPhase(draft, phase, now)
+    if (invalid) return invalid
+  } else if (input.status === 'en_revision' || input.status === 'completada') {
+    const invalid = submitPhase(phase, input.status, now)
+    if (invalid) return invalid
+  }
+
+  if (input.blocked) {
+    const invalid = blockPhase(phase, input.blocked, context, now)
+    if (invalid) return invalid
+  }
+
+  refreshProject(draft)
+  draft.updatedAt = now
+  Object.assign(project, draft)
+  return null
+}
+
+/**
+ * Records a named approver's decision on the phase's gate review. When every
+ * approver has approved the round, the phase completes and the phases that
+ * depend on it unlock; a rejection sends it back to en_progreso for a new round.
+ * Returns an error message when the gate is not under review or the approver
+ * already decided this round.
+ */
+export function signOffGate(
+  project: Project,
+  phase: StageGatePhase,
+  decision: 'aprobada' | 'rechazada',
+  comments: string,
+  context: OrgContext
+): string | null {
+  if (phase.status !== 'en_revision') {
+    return `${phase.name} is not waiting for a gate review (${PHASE_STATUS_LABELS[phase.status]})`
+  }
+  if (!isGateApprover(phase, context.userId)) {
+    return `${context.userName} is not an approver of this gate`
+  }
+  if (phase.signOffs.some((s) => s.round === phase.reviewRound && s.userId === context.userId)) {
+    return 'You already signed off this review round'
+  }
+
+  const now = new Date().toISOString()
+  phase.signOffs = [
+    ...phase.signOffs,
+    { round: phase.reviewRound, userId: context.userId, name: context.userName, decision, comments, at: now }
+  ]
+
+  if (decision === 'rechazada') {
+    phase.status = 'en_progreso'
+    phase.reviewRound += 1
+  } else if (gateReview(phase).passed) {
+    completePhase(phase, now)
+  }
+
+  refreshProject(project)
+  project.updatedAt = now
+  return null
+}
@@ -0,0 +1,153 @@
+/**
+ * Stage-gate rules
+ * Phase schedule, gate reviews and derived progress, shared by the projects
+ * API and the /stagegate page (no server dependencies)
+ */
+
+import type { GateApprover, GateSignOff, Project, StageGatePhase, StageGatePhaseStatus } from '@prime-growth-os/types'
+
+export const PHASE_STATUSES: StageGatePhaseStatus[] = ['pendiente', 'en_progreso', 'en_revision', 'completada', 'bloqueada']
+
+export const PHASE_STATUS_LABELS: Record<StageGatePhaseStatus, string> = {
+  pendiente: 'Pendiente',
+  en_progreso: 'En progreso',
+  en_revision: 'En revisión de gate',
+  completada: 'Completada',
+  bloqueada: 'Bloqueada'
+}
+
+export const PROJECT_STATUSES: Project['status'][] = ['planificacion', 'diseno', 'construccion', 'entrega', 'completado']
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export function isPhaseStatus(value: unknown): value is StageGatePhaseStatus {
+  return PHASE_STATUSES.includes(value as StageGatePhaseStatus)
+}
+
+function toDay(value: string | Date): number {
+  const date = new Date(value)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+/**
+ * Phases ordered so every phase comes after the ones it depends on, or null
+ * when the dependencies reference an unknown phase or form a cycle
+ */
+export function orderPhases(phases: Pick<StageGatePhase, 'id' | 'dependsOn'>[]): string[] | null {
+  const ids = new Set(phases.map((p) => p.id))
+  if (phases.some((p) => p.dependsOn.some((id) => !ids.has(id) || id === p.id))) return null
+
+  const order: string[] = []
+  const placed = new Set<string>()
+  while (order.length < phases.length) {
+    const ready = phases.filter((p) => !placed.has(p.id) && p.dependsOn.every((id) => placed.has(id)))
+    if (ready.length === 0) return null
+    ready.forEach((p) => {
+      order.push(p.id)
+      placed.add(p.id)
+    })
+  }
+  return order
+}
+
+/**
+ * A phase can start once every phase it depends on has passed its gate
+ */
+export function isPhaseUnlocked(project: Pick<Project, 'phases'>, phase: StageGatePhase): boolean {
+  return phase.dependsOn.every((id) => project.phases.find((p) => p.id === id)?.status === 'completada')
+}
+
+/**
+ * Recalculates phase dates in dependency order. A phase starts when it actually
+ * started, otherwise when its dependencies end (never before the project start,
+ * nor in the past once it is unlocked). It ends when it was completed, otherwise
+ * after its duration plus reported slippage; an open phase past that date is
+ * projected to end today. The project ends with its last phase.
+ */
+export function scheduleProject(project: Project, now: Date = new Date()): void {
+  const today = toDay(now)
+  const projectStart = toDay(project.startDate)
+  const order = orderPhases(project.phases) || project.phases.map((p) => p.id)
+  const ends = new Map<string, number>()
+
+  for (const id of order) {
+    const phase = project.phases.find((p) => p.id === id)!
+    const afterDependencies = Math.max(projectStart, ...phase.dependsOn.map((dep) => ends.get(dep) ?? projectStart))
+
+    let start = afterDependencies
+    if (phase.startedAt) {
+      start = toDay(phase.startedAt)
+    } else if (isPhaseUnlocked(project, phase) && start < today) {
+      start = today
+    }
+
+    let end = start + (phase.duration + phase.slippageDays) * DAY_MS
+    if (phase.completedAt) {
+      end = toDay(phase.completedAt)
+    } else if (end < today && phase.startedAt) {
+      end = today
+    }
+
+    phase.startDate = formatDay(start)
+    phase.endDate = formatDay(end)
+    ends.set(id, end)
+  }
+
+  project.endDate = formatDay(Math.max(projectStart, ...Array.from(ends.values())))
+}
+
+/**
+ * Share of deliverables checked off across all phases (0-100); projects without
+ * deliverables count completed phases instead
+ */
+export function deriveProgress(project: Pick<Project, 'phases'>): number {
+  const deliverables = project.phases.flatMap((p) => p.deliverables)
+  if (deliverables.length > 0) {
+    return Math.round((deliverables.filter((d) => d.done).length / deliverables.length) * 100)
+  }
+  if (project.phases.length === 0) return 0
+  return Math.round((project.phases.filter((p) => p.status === 'completada').length / project.phases.length) * 100)
+}
+
+export type GateReview = {
+  round: number
+  approved: GateApprover[]
+  pending: GateApprover[]
+  rejection: GateSignOff | null
+  passed: boolean
+}
+
+/**
+ * Sign-offs of the current review round against the phase's named approvers
+ */
+export function gateReview(phase: StageGatePhase): GateReview {
+  const current = phase.signOffs.filter((s) => s.round === phase.reviewRound)
+  const approvedIds = new Set(current.filter((s) => s.decision === 'aprobada').map((s) => s.userId))
+
+  return {
+    round: phase.reviewRound,
+    approved: phase.approvers.filter((a) => approvedIds.has(a.userId)),
+    pending: phase.approvers.filter((a) => !current.some((s) => s.userId === a.userId)),
+    rejection: current.find((s) => s.decision === 'rechazada') || null,
+    passed: phase.approvers.length > 0 && phase.approvers.every((a) => approvedIds.has(a.userId))
+  }
+}
+
+export function isGateApprover(phase: StageGatePhase, userId: string): boolean {
+  return phase.approvers.some((a) => a.userId === userId)
+}
+
+/**
+ * Derived fields after any change: phase dates, progress and completion
+ */
+export function refreshProject(project: Project, now: Date = new Date()): void {
+  scheduleProject(project, now)
+  project.progress = deriveProgress(project)
+  if (project.phases.length > 0 && project.phases.every((p) => p.status === 'completada')) {
+    project.status = 'completado'
+  }
+}
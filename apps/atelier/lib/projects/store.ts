@@ -0,0 +1,13 @@
+/**
+ * Project Storage
+ * Org-scoped persistence for stage-gate projects
+ */
+
+import type { Project } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type ProjectStore = OrgStore<Project>
+
+export class MemoryProjectStore extends MemoryOrgStore<Project> {}
+
+export class FileProjectStore extends FileOrgStore<Project> {}
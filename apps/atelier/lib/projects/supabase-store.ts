@@ -0,0 +1,132 @@
+/**
+ * Supabase Project Store
+ * Persists projects in the projects table, always filtered by org_id; phases
+ * (deliverables, approvers, sign-offs and blocks) are a JSONB column on the same row
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Project } from '@prime-growth-os/types'
+import type { ProjectStore } from './store'
+
+const TABLE = 'projects'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+type ProjectRow = {
+  id: string
+  org_id: string
+  name: string
+  client: string
+  type: Project['type']
+  budget: number | string
+  start_date: string
+  end_date: string
+  status: Project['status']
+  phases: Project['phases'] | null
+  manager: string
+  team: string[] | null
+  progress: number | string
+  quote_id: string | null
+  created_at: string
+  updated_at: string
+  created_by: string
+  created_by_name: string
+}
+
+function fromRow(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    name: row.name,
+    client: row.client,
+    type: row.type,
+    budget: Number(row.budget),
+    startDate: row.start_date,
+    endDate: row.end_date,
+    status: row.status,
+    phases: row.phases || [],
+    manager: row.manager,
+    team: row.team || [],
+    progress: Number(row.progress),
+    quoteId: row.quote_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name
+  }
+}
+
+export class SupabaseProjectStore implements ProjectStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<Project[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load projects: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<Project | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load project: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(project: Project): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: project.id,
+      org_id: project.orgId,
+      name: project.name,
+      client: project.client,
+      type: project.type,
+      budget: project.budget,
+      start_date: project.startDate,
+      end_date: project.endDate,
+      status: project.status,
+      phases: project.phases,
+      manager: project.manager,
+      team: project.team,
+      progress: project.progress,
+      quote_id: project.quoteId,
+      created_at: project.createdAt,
+      updated_at: project.updatedAt,
+      created_by: project.createdBy,
+      created_by_name: project.createdByName
+    })
+
+    if (error) {
+      throw new Error(`Failed to save project: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete project: ${error.message}`)
+    }
+  }
+}
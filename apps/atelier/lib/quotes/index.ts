@@ -0,0 +1,419 @@
+/**
+ * Server-side quote library
+ * Org-scoped CPQ quotes against a lead, with a snapshot per version and
+ * timestamped status transitions (borrador → enviada → aceptada/rechazada).
+ * Discounts above the sender's role limit wait in pendiente_aprobacion.
+ */
+
+import path from 'path'
+import type { CPQQuote, Lead, PriceBook, QuoteApproval, QuoteConfiguration, QuoteDiscountConditions, QuoteStatus, QuoteVersion } from '@prime-growth-os/types'
+import { checkMarginFloor } from '@prime-growth-os/engine'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import { transitionLead } from '@/lib/leads'
+import { canTransition } from '@/lib/leads/sla'
+import type { OrgContext } from '@/lib/org-context'
+import { getActivePriceBook, getPriceBookStore } from '@/lib/price-book'
+import { createAdminClient } from '@/lib/supabase/admin'
+import {
+  QUOTE_STATUS_LABELS,
+  canTransitionQuote,
+  discountLimit,
+  isQuoteEditable,
+  isQuoteExpired,
+  openApproval,
+  priceQuote,
+  requiresApproval,
+  validUntilFrom
+} from './rules'
+import { MemoryQuoteStore, FileQuoteStore, type QuoteStore } from './store'
+import { SupabaseQuoteStore } from './supabase-store'
+
+export type { QuoteStore } from './store'
+
+let memoryStore: MemoryQuoteStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getQuoteStore(): QuoteStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseQuoteStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryQuoteStore()
+      return memoryStore
+    case 'file':
+      return new FileQuoteStore(path.join(process.cwd(), '.data', 'quotes.json'))
+  }
+}
+
+// Configuration the client may set on create or revise, plus a note for the version
+export type QuoteInput = Partial<QuoteConfiguration> & { note?: string }
+
+const URGENCIES: QuoteConfiguration['urgency'][] = ['normal', 'expedito', 'urgente']
+type Terms = NonNullable<QuoteDiscountConditions['paymentTerms']>
+type Seasonality = NonNullable<QuoteDiscountConditions['seasonality']>
+
+const PAYMENT_TERMS: Terms[] = ['contado', '30_dias', '60_dias']
+const SEASONALITIES: Seasonality[] = ['alta', 'media', 'baja']
+const MIN_PROJECT_SIZE = 0.5
+const MAX_PROJECT_SIZE = 5
+
+/**
+ * Validates the configurable fields of a request body; returns an error message or the input
+ */
+export function parseQuoteInput(body: unknown): QuoteInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: QuoteInput = {}
+
+  if (body.tier !== undefined) {
+    if (typeof body.tier !== 'string' || !body.tier) return 'tier must be a non-empty string'
+    input.tier = body.tier
+  }
+
+  if (body.customizations !== undefined) {
+    if (!Array.isArray(body.customizations) || body.customizations.some((id: unknown) => typeof id !== 'string')) {
+      return 'customizations must be an array of strings'
+    }
+    input.customizations = Array.from(new Set<string>(body.customizations))
+  }
+
+  if (body.projectSize !== undefined) {
+    if (
+      typeof body.projectSize !== 'number' ||
+      !Number.isFinite(body.projectSize) ||
+      body.projectSize < MIN_PROJECT_SIZE ||
+      body.projectSize > MAX_PROJECT_SIZE
+    ) {
+      return `projectSize must be a number between ${MIN_PROJECT_SIZE} and ${MAX_PROJECT_SIZE}`
+    }
+    input.projectSize = body.projectSize
+  }
+
+  if (body.urgency !== undefined) {
+    if (!URGENCIES.includes(body.urgency as QuoteConfiguration['urgency'])) return `urgency must be one of ${URGENCIES.join(', ')}`
+    input.urgency = body.urgency as QuoteConfiguration['urgency']
+  }
+
+  if (body.discountConditions !== undefined) {
+    const conditions = body.discountConditions
+    if (!isObject(conditions)) return 'discountConditions must be an object'
+    if (conditions.isReturnClient !== undefined && typeof conditions.isReturnClient !== 'boolean') {
+      return 'discountConditions.isReturnClient must be a boolean'
+    }
+    if (
+      conditions.projectCount !== undefined &&
+      (typeof conditions.projectCount !== 'number' || !Number.isInteger(conditions.projectCount) || conditions.projectCount < 0)
+    ) {
+      return 'discountConditions.projectCount must be a non-negative integer'
+    }
+    if (conditions.paymentTerms !== undefined && !PAYMENT_TERMS.includes(conditions.paymentTerms as Terms)) {
+      return `discountConditions.paymentTerms must be one of ${PAYMENT_TERMS.join(', ')}`
+    }
+    if (conditions.seasonality !== undefined && !SEASONALITIES.includes(conditions.seasonality as Seasonality)) {
+      return `discountConditions.seasonality must be one of ${SEASONALITIES.join(', ')}`
+    }
+    input.discountConditions = {
+      isReturnClient: conditions.isReturnClient,
+      projectCount: conditions.projectCount,
+      paymentTerms: conditions.paymentTerms as Terms | undefined,
+      seasonality: conditions.seasonality as Seasonality | undefined
+    }
+  }
+
+  if (body.note !== undefined) {
+    if (typeof body.note !== 'string') return 'note must be a string'
+    input.note = body.note.trim()
+  }
+
+  return input
+}
+
+/**
+ * Checks the tier, its delivery cost and the add-ons against the price book
+ * the quote is priced with
+ */
+export function checkAgainstPriceBook(config: Pick<QuoteConfiguration, 'tier' | 'customizations'>, book: PriceBook): string | null {
+  if (!book.tiers.some((t) => t.id === config.tier)) {
+    return `tier must be one of ${book.tiers.map((t) => t.id).join(', ')} (price book v${book.version})`
+  }
+  if (book.costs.tiers[config.tier] === undefined) {
+    return `Price book v${book.version} has no delivery cost for tier ${config.tier}`
+  }
+  const unknown = config.customizations.filter((id) => !book.addOns.some((a) => a.id === id))
+  if (unknown.length > 0) {
+    return `Unknown customizations for price book v${book.version}: ${unknown.join(', ')}`
+  }
+  return null
+}
+
+/**
+ * The price book a quote is priced with: the version it was issued under, or the
+ * one in effect now when `current` is set (e.g. re-issuing an expired quote at today's prices)
+ */
+export async function priceBookForQuote(
+  quote: Pick<CPQQuote, 'priceBookId'>,
+  context: OrgContext,
+  options: { current?: boolean } = {}
+): Promise<PriceBook> {
+  const store = getPriceBookStore()
+  const issued = !options.current && quote.priceBookId ? await store.get(context.orgId, quote.priceBookId) : null
+  return issued || getActivePriceBook(store, context)
+}
+
+function newQuoteId(): string {
+  return `quote-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function configurationOf(quote: QuoteConfiguration): QuoteConfiguration {
+  return {
+    tier: quote.tier,
+    customizations: [...quote.customizations],
+    projectSize: quote.projectSize,
+    urgency: quote.urgency,
+    discountConditions: { ...quote.discountConditions }
+  }
+}
+
+function snapshot(quote: CPQQuote, context: OrgContext, note: string, at: string): QuoteVersion {
+  return {
+    ...configurationOf(quote),
+    version: quote.version,
+    pricing: quote.pricing,
+    priceBookId: quote.priceBookId,
+    priceBookVersion: quote.priceBookVersion,
+    createdAt: at,
+    createdBy: context.userId,
+    createdByName: context.userName,
+    note
+  }
+}
+
+/**
+ * Prices a new draft with the price book in effect (checked by the caller)
+ */
+export async function createQuote(
+  store: QuoteStore,
+  context: OrgContext,
+  leadId: string,
+  input: QuoteInput & Pick<QuoteConfiguration, 'tier'>,
+  book: PriceBook
+): Promise<CPQQuote> {
+  const now = new Date().toISOString()
+  const config: QuoteConfiguration = {
+    tier: input.tier,
+    customizations: input.customizations || [],
+    projectSize: input.projectSize ?? 1,
+    urgency: input.urgency || 'normal',
+    discountConditions: input.discountConditions || {}
+  }
+  const pricing = priceQuote(config, book)
+
+  const quote: CPQQuote = {
+    id: newQuoteId(),
+    orgId: context.orgId,
+    leadId,
+    ...config,
+    pricing,
+    totalPrice: pricing.totalPrice,
+    priceBookId: book.id,
+    priceBookVersion: book.version,
+    status: 'borrador',
+    // Provisional until the quote is sent
+    validUntil: validUntilFrom(new Date(now)),
+    version: 1,
+    versions: [],
+    statusHistory: [
+      { from: null, to: 'borrador', at: now, by: context.userId, byName: context.userName, version: 1, reason: '' }
+    ],
+    approvals: [],
+    sentAt: null,
+    decidedAt: null,
+    createdBy: context.userId,
+    createdByName: context.userName,
+    createdAt: now,
+    updatedAt: now
+  }
+  quote.versions = [snapshot(quote, context, input.note || '', now)]
+
+  await store.save(quote)
+  return quote
+}
+
+function recordStatus(quote: CPQQuote, to: QuoteStatus, context: OrgContext, reason: string, at: string): void {
+  quote.statusHistory = [
+    ...quote.statusHistory,
+    { from: quote.status, to, at, by: context.userId, byName: context.userName, version: quote.version, reason }
+  ]
+  quote.status = to
+}
+
+/**
+ * Re-prices the quote with the changed configuration as a new version, using
+ * `book` (the quote's own price book unless it is being moved to a newer one).
+ * Earlier versions stay untouched in `versions`; a sent, rejected or pending
+ * quote goes back to draft, withdrawing any open approval request. Returns an
+ * error message when the quote cannot be revised.
+ */
+export function reviseQuote(quote: CPQQuote, input: QuoteInput, context: OrgContext, book: PriceBook): string | null {
+  if (!isQuoteEditable(quote)) {
+    return `${QUOTE_STATUS_LABELS[quote.status]} quotes cannot be revised`
+  }
+
+  const { note, ...changes } = input
+  const config = { ...configurationOf(quote), ...changes }
+  const invalid = checkAgainstPriceBook(config, book)
+  if (invalid) return invalid
+
+  const now = new Date().toISOString()
+  Object.assign(quote, config)
+  quote.pricing = priceQuote(config, book)
+  quote.totalPrice = quote.pricing.totalPrice
+  quote.priceBookId = book.id
+  quote.priceBookVersion = book.version
+  quote.version += 1
+
+  if (quote.status !== 'borrador') {
+    recordStatus(quote, 'borrador', context, `Revisión v${quote.version}`, now)
+    quote.decidedAt = null
+  }
+  quote.approvals = quote.approvals.filter((a) => a.decision !== null)
+
+  quote.validUntil = validUntilFrom(new Date(now))
+  quote.versions = [...quote.versions, snapshot(quote, context, note || '', now)]
+  quote.updatedAt = now
+
+  return null
+}
+
+/**
+ * Moves the quote to a new status. Sending starts the validity window;
+ * an expired quote cannot be accepted. Returns an error message for disallowed moves.
+ */
+export function transitionQuote(
+  quote: CPQQuote,
+  to: QuoteStatus,
+  context: OrgContext,
+  reason: string = ''
+): string | null {
+  if (quote.status === to) return null
+
+  if (to === 'aceptada' && isQuoteExpired(quote)) {
+    return `This quote expired on ${quote.validUntil.slice(0, 10)}; revise it and send it again`
+  }
+
+  if (!canTransitionQuote(quote.status, to)) {
+    return `Cannot move a quote from ${QUOTE_STATUS_LABELS[quote.status]} to ${QUOTE_STATUS_LABELS[to]}`
+  }
+
+  const now = new Date().toISOString()
+  recordStatus(quote, to, context, reason, now)
+
+  if (to === 'enviada') {
+    if (!quote.sentAt) quote.sentAt = now
+    quote.validUntil = validUntilFrom(new Date(now))
+  } else if (to === 'aceptada' || to === 'rechazada') {
+    quote.decidedAt = now
+  }
+  quote.updatedAt = now
+
+  return null
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString('es-MX', { style: 'currency', currency: 'MXN', maximumFractionDigits: 0 })
+}
+
+/**
+ * Sends a draft to the client, or routes it to an approver when its discount is
+ * above the sender's role limit. Quotes priced below the margin floor of their
+ * price book are blocked either way. Returns an error message when it cannot be sent.
+ */
+export function sendQuote(quote: CPQQuote, context: OrgContext, book: PriceBook): string | null {
+  if (quote.status === 'pendiente_aprobacion') {
+    return 'This quote is waiting for discount approval'
+  }
+  if (quote.status !== 'borrador') return transitionQuote(quote, 'enviada', context)
+
+  const floor = checkMarginFloor(quote.totalPrice, quote.pricing.estimatedCost, book)
+  if (floor.belowFloor) {
+    return `Margin of ${Math.round(floor.margin * 100)}% is below the ${Math.round(floor.marginFloor * 100)}% floor; ` +
+      `the minimum price for this scope is ${formatMoney(floor.minimumPrice)}`
+  }
+
+  if (!requiresApproval(quote.pricing, book, context.role)) {
+    return transitionQuote(quote, 'enviada', context)
+  }
+
+  const limit = discountLimit(book, context.role)
+  const invalid = transitionQuote(
+    quote,
+    'pendiente_aprobacion',
+    context,
+    `Descuento de ${quote.pricing.discountPercentage}% sobre el límite de ${limit}% (${context.role})`
+  )
+  if (invalid) return invalid
+
+  const approval: QuoteApproval = {
+    version: quote.version,
+    discountPercentage: quote.pricing.discountPercentage,
+    requestedAt: quote.updatedAt,
+    requestedBy: context.userId,
+    requestedByName: context.userName,
+    requesterRole: context.role,
+    decision: null,
+    decidedAt: null,
+    decidedBy: null,
+    decidedByName: null,
+    reasoning: ''
+  }
+  quote.approvals = [...quote.approvals, approval]
+  return null
+}
+
+/**
+ * Records the approver's decision on the open request: approving sends the quote,
+ * rejecting returns it to draft. The caller checks that the approver's own limit
+ * covers the discount. Returns an error message when nothing is awaiting approval.
+ */
+export function decideApproval(
+  quote: CPQQuote,
+  decision: NonNullable<QuoteApproval['decision']>,
+  reasoning: string,
+  context: OrgContext
+): string | null {
+  const approval = openApproval(quote)
+  if (quote.status !== 'pendiente_aprobacion' || !approval) {
+    return 'This quote is not waiting for approval'
+  }
+
+  const invalid = transitionQuote(quote, decision === 'aprobada' ? 'enviada' : 'borrador', context, reasoning)
+  if (invalid) return invalid
+
+  Object.assign(approval, {
+    decision,
+    decidedAt: quote.updatedAt,
+    decidedBy: context.userId,
+    decidedByName: context.userName,
+    reasoning
+  })
+  return null
+}
+
+/**
+ * Keeps the lead pipeline in step with its quote: sending the first proposal
+ * moves a contacted lead to Propuesta and an accepted quote wins the lead.
+ * Leads further along (or closed) are left alone. Returns whether the lead changed.
+ */
+export function syncLeadWithQuote(lead: Lead, quote: CPQQuote, context: OrgContext): boolean {
+  const target = quote.status === 'enviada' && lead.status === 'contactado'
+    ? 'propuesta'
+    : quote.status === 'aceptada' && canTransition(lead.status, 'ganado')
+    ? 'ganado'
+    : null
+  if (!target) return false
+
+  transitionLead(lead, target, context)
+  lead.updatedAt = new Date().toISOString()
+  return true
+}
@@ -0,0 +1,147 @@
+/**
+ * Proposal document
+ * Print-ready Spanish HTML for one version of a quote; the browser's print
+ * dialog saves it as PDF (same approach as the executive brief)
+ */
+
+import type { CPQQuote, Lead, PriceBookRates, QuoteVersion } from '@prime-growth-os/types'
+import { QUOTE_STATUS_LABELS, deliveryDays } from './rules'
+
+const URGENCY_LABELS: Record<QuoteVersion['urgency'], string> = {
+  normal: 'Normal',
+  expedito: 'Expedito',
+  urgente: 'Urgente'
+}
+
+const PAYMENT_TERMS_LABELS: Record<string, string> = {
+  contado: 'Contado',
+  '30_dias': '30 días',
+  '60_dias': '60 días'
+}
+
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function money(value: number): string {
+  return value.toLocaleString('es-MX', { style: 'currency', currency: 'MXN', maximumFractionDigits: 0 })
+}
+
+function date(value: string): string {
+  return new Date(value).toLocaleDateString('es-MX', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+function row(label: string, value: string, className = ''): string {
+  return `<tr class="${className}"><td>${label}</td><td class="amount">${value}</td></tr>`
+}
+
+/**
+ * Version shown by the proposal: the requested one or the current one
+ */
+export function proposalVersion(quote: CPQQuote, version?: number): QuoteVersion | undefined {
+  return quote.versions.find((v) => v.version === (version ?? quote.version))
+}
+
+/**
+ * Renders one version with the price book it was priced under, so tier features
+ * and add-on names match the prices in the document. The validity shown is the
+ * quote's current window, so older versions are marked as superseded.
+ */
+export function renderQuoteProposal(quote: CPQQuote, lead: Lead | null, snapshot: QuoteVersion, book: PriceBookRates): string {
+  const tier = book.tiers.find((t) => t.id === snapshot.tier)
+  const { pricing } = snapshot
+  const superseded = snapshot.version !== quote.version
+  const client = lead ? escapeHTML(lead.company || lead.contact) : 'Cliente'
+
+  const customizations = snapshot.customizations
+    .map((id) => book.addOns.find((c) => c.id === id) || { id, name: id, price: 0 })
+    .map((c) => `<tr><td>${escapeHTML(c.name)}</td><td class="amount">${money(c.price)}</td></tr>`)
+    .join('')
+
+  const discounts = pricing.appliedDiscounts
+    .map((d) => `<li>${escapeHTML(d)}</li>`)
+    .join('')
+
+  const { discountConditions } = snapshot
+  const paymentTerms = discountConditions.paymentTerms
+    ? PAYMENT_TERMS_LABELS[discountConditions.paymentTerms]
+    : 'Por definir'
+
+  return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Propuesta ${escapeHTML(quote.id)} v${snapshot.version} - ${client}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; line-height: 1.6; color: #1a1a1a; max-width: 800px; margin: 0 auto; padding: 20px; }
+    h1 { color: #111; border-bottom: 3px solid #3b82f6; padding-bottom: 10px; }
+    h2 { color: #333; margin-top: 30px; border-bottom: 1px solid #e5e5e5; padding-bottom: 5px; }
+    .metadata { color: #666; font-size: 14px; }
+    .notice { background: #fef3c7; border: 1px solid #f59e0b; padding: 10px 15px; border-radius: 8px; }
+    table { width: 100%; border-collapse: collapse; margin: 10px 0; }
+    td { border-bottom: 1px solid #eee; padding: 8px 10px; }
+    .amount { text-align: right; white-space: nowrap; }
+    .subtotal td { font-weight: 600; }
+    .discount td { color: #047857; }
+    .total td { font-size: 18px; font-weight: 700; border-top: 2px solid #111; border-bottom: none; }
+    .features { columns: 2; }
+    .terms { background: #fafafa; padding: 15px; border-radius: 8px; font-size: 14px; }
+    @media print { body { font-size: 11pt; } .section { page-break-inside: avoid; } }
+  </style>
+</head>
+<body>
+  <h1>Propuesta de Servicios Arquitectónicos</h1>
+
+  <div class="metadata">
+    <p><strong>Cliente:</strong> ${client}${lead?.contact && lead.company ? ` — Atención: ${escapeHTML(lead.contact)}` : ''}</p>
+    <p><strong>Folio:</strong> ${escapeHTML(quote.id)} · Versión ${snapshot.version} · ${date(snapshot.createdAt)} · Lista de precios v${snapshot.priceBookVersion}</p>
+    <p><strong>Estado:</strong> ${QUOTE_STATUS_LABELS[quote.status]} · <strong>Vigencia:</strong> hasta el ${date(quote.validUntil)}</p>
+  </div>
+${superseded ? `
+  <p class="notice">Esta es la versión ${snapshot.version}; la versión vigente de la cotización es la ${quote.version}.</p>` : ''}
+
+  <div class="section">
+    <h2>Plan ${tier ? escapeHTML(tier.name) : escapeHTML(snapshot.tier)}</h2>
+${tier ? `
+    <p>${escapeHTML(tier.description)}</p>
+    <p>Entrega estimada: <strong>${deliveryDays(tier.deliveryTime, snapshot.urgency)} días</strong> (urgencia ${URGENCY_LABELS[snapshot.urgency].toLowerCase()}) · ${tier.revisions} rondas de revisión · Equipo de ${tier.teamSize}</p>
+    <ul class="features">
+      ${tier.features.map((f) => `<li>${escapeHTML(f)}</li>`).join('\n      ')}
+    </ul>` : ''}
+  </div>
+${customizations ? `
+  <div class="section">
+    <h2>Personalizaciones</h2>
+    <table>${customizations}</table>
+  </div>` : ''}
+
+  <div class="section">
+    <h2>Inversión</h2>
+    <table>
+      ${row('Precio base del plan', money(pricing.basePrice))}
+      ${pricing.customizationCost > 0 ? row('Personalizaciones', money(pricing.customizationCost)) : ''}
+      ${pricing.sizePremium > 0 ? row(`Ajuste por tamaño (×${snapshot.projectSize})`, money(pricing.sizePremium)) : ''}
+      ${pricing.urgencyPremium > 0 ? row(`Ajuste por urgencia (${URGENCY_LABELS[snapshot.urgency]})`, money(pricing.urgencyPremium)) : ''}
+      ${row('Subtotal', money(pricing.subtotal), 'subtotal')}
+      ${pricing.discountAmount > 0 ? row(`Descuento (${pricing.discountPercentage}%)`, `−${money(pricing.discountAmount)}`, 'discount') : ''}
+      ${row('Total', money(pricing.totalPrice), 'total')}
+    </table>
+${discounts ? `
+    <p>Condiciones consideradas en el descuento:</p>
+    <ul>${discounts}</ul>` : ''}
+  </div>
+
+  <div class="section terms">
+    <h2 style="margin-top: 0;">Condiciones</h2>
+    <p>Términos de pago: ${paymentTerms}. Precios en pesos mexicanos, más IVA.</p>
+    <p>Esta propuesta es válida hasta el ${date(quote.validUntil)}. Después de esa fecha los precios y tiempos de entrega deberán confirmarse con una nueva versión.</p>
+${snapshot.note ? `    <p>Notas: ${escapeHTML(snapshot.note)}</p>` : ''}
+  </div>
+</body>
+</html>`
+}
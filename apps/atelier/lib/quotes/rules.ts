@@ -0,0 +1,159 @@
+/**
+ * Quote lifecycle and pricing rules
+ * Shared by the quotes API and the CPQ page (no server dependencies)
+ */
+
+import type {
+  CPQQuote,
+  DiscountApprovalLimits,
+  PriceBookRates,
+  QuoteApproval,
+  QuoteConfiguration,
+  QuotePricing,
+  QuoteStatus,
+  QuoteUrgency
+} from '@prime-growth-os/types'
+import { calculateDiscount, calculateQuotePrice, checkMarginFloor, estimateProjectCost } from '@prime-growth-os/engine'
+
+export const QUOTE_STATUSES: QuoteStatus[] = ['borrador', 'pendiente_aprobacion', 'enviada', 'aceptada', 'rechazada']
+
+export const QUOTE_STATUS_LABELS: Record<QuoteStatus, string> = {
+  borrador: 'Borrador',
+  pendiente_aprobacion: 'Pendiente de aprobación',
+  enviada: 'Enviada',
+  aceptada: 'Aceptada',
+  rechazada: 'Rechazada'
+}
+
+// Days a sent quote stays open for the client
+export const QUOTE_VALIDITY_DAYS = 30
+
+// Drafts are sent, or wait for an approver when the discount is above the
+// sender's limit; the client accepts or rejects a sent quote
+const TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  borrador: ['enviada', 'pendiente_aprobacion'],
+  pendiente_aprobacion: ['enviada', 'borrador'],
+  enviada: ['aceptada', 'rechazada'],
+  aceptada: [],
+  rechazada: []
+}
+
+// Delivery time compression by urgency
+const URGENCY_DELIVERY_FACTOR: Record<QuoteUrgency, number> = {
+  normal: 1,
+  expedito: 0.8,
+  urgente: 0.6
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export function isQuoteStatus(value: unknown): value is QuoteStatus {
+  return QUOTE_STATUSES.includes(value as QuoteStatus)
+}
+
+export function canTransitionQuote(from: QuoteStatus, to: QuoteStatus): boolean {
+  return TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Any quote the client has not accepted can be revised; revising a sent or
+ * rejected quote produces a new draft version that has to be sent again
+ */
+export function isQuoteEditable(quote: CPQQuote): boolean {
+  return quote.status !== 'aceptada'
+}
+
+/**
+ * A sent quote past its validUntil can no longer be accepted
+ */
+export function isQuoteExpired(quote: CPQQuote, now: Date = new Date()): boolean {
+  return quote.status === 'enviada' && new Date(quote.validUntil).getTime() < now.getTime()
+}
+
+export function validUntilFrom(from: Date): string {
+  return new Date(from.getTime() + QUOTE_VALIDITY_DAYS * DAY_MS).toISOString()
+}
+
+export function deliveryDays(baseDeliveryTime: number, urgency: QuoteUrgency): number {
+  return Math.ceil(baseDeliveryTime * URGENCY_DELIVERY_FACTOR[urgency])
+}
+
+/**
+ * List price from calculateQuotePrice, then the calculateDiscount conditions
+ * applied to the subtotal, both with the given price book's rates, and the
+ * margin over the estimated delivery cost
+ */
+export function priceQuote(config: QuoteConfiguration, book: PriceBookRates): QuotePricing {
+  const price = calculateQuotePrice(config.tier, config.customizations, config.projectSize, config.urgency, book)
+  const discount = calculateDiscount(price.totalPrice, config.discountConditions, book)
+  const estimatedCost = estimateProjectCost(config.tier, config.customizations, config.projectSize, book)
+
+  return {
+    basePrice: Math.round(price.basePrice),
+    customizationCost: Math.round(price.customizationCost),
+    sizePremium: Math.round(price.sizePremium),
+    urgencyPremium: Math.round(price.urgencyPremium),
+    subtotal: price.totalPrice,
+    discountPercentage: discount.discountPercentage,
+    discountAmount: discount.discountAmount,
+    appliedDiscounts: discount.appliedDiscounts,
+    totalPrice: discount.finalPrice,
+    estimatedCost,
+    margin: checkMarginFloor(discount.finalPrice, estimatedCost, book).margin
+  }
+}
+
+export type ApprovalRole = keyof DiscountApprovalLimits
+
+/**
+ * Largest discount (in %) the role can give without approval
+ */
+export function discountLimit(book: PriceBookRates, role: ApprovalRole): number {
+  return Math.round((book.approvalLimits[role] ?? 0) * 100 * 100) / 100
+}
+
+export function requiresApproval(pricing: QuotePricing, book: PriceBookRates, role: ApprovalRole): boolean {
+  return pricing.discountPercentage > discountLimit(book, role)
+}
+
+/**
+ * Approvers need a limit that covers the requested discount themselves
+ */
+export function canApproveDiscount(book: PriceBookRates, role: ApprovalRole, discountPercentage: number): boolean {
+  return discountPercentage <= discountLimit(book, role)
+}
+
+export function openApproval(quote: CPQQuote): QuoteApproval | null {
+  return quote.approvals.find((a) => a.decision === null && a.version === quote.version) || null
+}
+
+export type QuoteSummary = {
+  total: number
+  byStatus: Record<QuoteStatus, number>
+  expired: number
+  openValue: number  // Total de cotizaciones enviadas y vigentes
+  acceptanceRate: number | null  // % de aceptadas sobre las decididas
+  avgHoursToSend: number | null  // Del alta al primer envío
+}
+
+export function summarizeQuotes(quotes: CPQQuote[], now: Date = new Date()): QuoteSummary {
+  const byStatus = Object.fromEntries(QUOTE_STATUSES.map((s) => [s, 0])) as Record<QuoteStatus, number>
+  quotes.forEach((q) => byStatus[q.status]++)
+
+  const open = quotes.filter((q) => q.status === 'enviada' && !isQuoteExpired(q, now))
+  const decided = byStatus.aceptada + byStatus.rechazada
+  const sendTimes = quotes
+    .filter((q) => q.sentAt)
+    .map((q) => (new Date(q.sentAt as string).getTime() - new Date(q.createdAt).getTime()) / (1000 * 60 * 60))
+
+  return {
+    total: quotes.length,
+    byStatus,
+    expired: quotes.filter((q) => isQuoteExpired(q, now)).length,
+    openValue: open.reduce((sum, q) => sum + q.totalPrice, 0),
+    acceptanceRate: decided > 0 ? (byStatus.aceptada / decided) * 100 : null,
+    avgHoursToSend: sendTimes.length > 0
+      ? sendTimes.reduce((sum, hours) => sum + hours, 0) / sendTimes.length
+      : null
+  }
+}
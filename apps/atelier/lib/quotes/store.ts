@@ -0,0 +1,40 @@
+/**
+ * Quote Storage
+ * Org-scoped persistence for CPQ quotes and their versions
+ */
+
+import type { CPQQuote } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type QuoteStore = OrgStore<CPQQuote>
+
+type DefaultedField = 'customizations' | 'discountConditions' | 'versions' | 'statusHistory' | 'approvals'
+
+// A quote as stored, where the defaulted fields may be missing or null
+export type StoredQuote = Omit<CPQQuote, DefaultedField> & { [K in DefaultedField]?: CPQQuote[K] | null }
+
+/**
+ * Quotes saved before versions, status history or discount approvals existed start with none
+ */
+export function withQuoteDefaults(quote: StoredQuote): CPQQuote {
+  return {
+    ...quote,
+    customizations: quote.customizations || [],
+    discountConditions: quote.discountConditions || {},
+    versions: quote.versions || [],
+    statusHistory: quote.statusHistory || [],
+    approvals: quote.approvals || []
+  }
+}
+
+export class MemoryQuoteStore extends MemoryOrgStore<CPQQuote> {
+  constructor() {
+    super(withQuoteDefaults)
+  }
+}
+
+export class FileQuoteStore extends FileOrgStore<CPQQuote> {
+  constructor(filePath: string) {
+    super(filePath, withQuoteDefaults)
+  }
+}
@@ -0,0 +1,151 @@
+/**
+ * Supabase Quote Store
+ * Persists quotes in the quotes table, always filtered by org_id; the version
+ * snapshots, status history and discount approvals are JSONB columns on the same row
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CPQQuote } from '@prime-growth-os/types'
+import { withQuoteDefaults, type QuoteStore } from './store'
+
+const TABLE = 'quotes'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+// and withQuoteDefaults fills the JSONB columns older rows left null
+type QuoteRow = {
+  id: string
+  org_id: string
+  lead_id: string
+  tier: string
+  customizations: string[] | null
+  project_size: number | string
+  urgency: CPQQuote['urgency']
+  discount_conditions: CPQQuote['discountConditions'] | null
+  pricing: CPQQuote['pricing']
+  total_price: number | string
+  price_book_id: string
+  price_book_version: number
+  status: CPQQuote['status']
+  valid_until: string
+  version: number
+  versions: CPQQuote['versions'] | null
+  status_history: CPQQuote['statusHistory'] | null
+  approvals: CPQQuote['approvals'] | null
+  sent_at: string | null
+  decided_at: string | null
+  created_by: string
+  created_by_name: string
+  created_at: string
+  updated_at: string
+}
+
+function fromRow(row: QuoteRow): CPQQuote {
+  return withQuoteDefaults({
+    id: row.id,
+    orgId: row.org_id,
+    leadId: row.lead_id,
+    tier: row.tier,
+    customizations: row.customizations,
+    projectSize: Number(row.project_size),
+    urgency: row.urgency,
+    discountConditions: row.discount_conditions,
+    pricing: row.pricing,
+    totalPrice: Number(row.total_price),
+    priceBookId: row.price_book_id,
+    priceBookVersion: row.price_book_version,
+    status: row.status,
+    validUntil: row.valid_until,
+    version: row.version,
+    versions: row.versions,
+    statusHistory: row.status_history,
+    approvals: row.approvals,
+    sentAt: row.sent_at,
+    decidedAt: row.decided_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  })
+}
+
+export class SupabaseQuoteStore implements QuoteStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<CPQQuote[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load quotes: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<CPQQuote | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load quote: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(quote: CPQQuote): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: quote.id,
+      org_id: quote.orgId,
+      lead_id: quote.leadId,
+      tier: quote.tier,
+      customizations: quote.customizations,
+      project_size: quote.projectSize,
+      urgency: quote.urgency,
+      discount_conditions: quote.discountConditions,
+      pricing: quote.pricing,
+      total_price: quote.totalPrice,
+      price_book_id: quote.priceBookId,
+      price_book_version: quote.priceBookVersion,
+      status: quote.status,
+      valid_until: quote.validUntil,
+      version: quote.version,
+      versions: quote.versions,
+      status_history: quote.statusHistory,
+      approvals: quote.approvals,
+      sent_at: quote.sentAt,
+      decided_at: quote.decidedAt,
+      created_by: quote.createdBy,
+      created_by_name: quote.createdByName,
+      created_at: quote.createdAt,
+      updated_at: quote.updatedAt
+    })
+
+    if (error) {
+      throw new Error(`Failed to save quote: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete quote: ${error.message}`)
+    }
+  }
+}
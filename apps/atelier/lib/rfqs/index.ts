@@ -0,0 +1,302 @@
+/**
+ * Server-side RFQ library
+ * Org-scoped requests for quotation: a project line item sent to the vendors
+ * of a category, their responses, and the award, which issues the purchase
+ * order to the winning vendor (comparison and recommendation in ./rules)
+ */
+
+import path from 'path'
+import type { Project, PurchaseOrder, Rfq, RfqAward, RfqResponse, Vendor } from '@prime-growth-os/types'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { addOrder } from '@/lib/vendors'
+import { DEFAULT_RFQ_WEIGHTS, recommendAward, type RfqComparisonRow } from './rules'
+import { MemoryRfqStore, FileRfqStore, type RfqStore } from './store'
+import { SupabaseRfqStore } from './supabase-store'
+
+export type { RfqStore } from './store'
+
+let memoryStore: MemoryRfqStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getRfqStore(): RfqStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseRfqStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryRfqStore()
+      return memoryStore
+    case 'file':
+      return new FileRfqStore(path.join(process.cwd(), '.data', 'rfqs.json'))
+  }
+}
+
+// Fields the client may set on create; only the terms below can change while the RFQ is open
+export type RfqInput = Partial<Pick<
+  Rfq,
+  'projectId' | 'lineItem' | 'category' | 'quantity' | 'neededBy' | 'requiredCertifications' | 'weights' | 'invitedVendorIds'
+>> & { status?: 'cancelada' }
+
+export type ResponseInput = Pick<RfqResponse, 'vendorId' | 'amount' | 'leadTimeDays' | 'notes'>
+
+export type AwardInput = { vendorId: string; rationale: string }
+
+const WEIGHT_KEYS = ['price', 'otif', 'quality', 'certifications'] as const
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const DAY_MS = 1000 * 60 * 60 * 24
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+/**
+ * Validates an RFQ (projectId, lineItem, category, quantity and neededBy on
+ * create); returns an error message or the input
+ */
+export function parseRfqInput(body: unknown, options: { create?: boolean } = {}): RfqInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: RfqInput = {}
+
+  for (const field of ['projectId', 'lineItem', 'category'] as const) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string') return `${field} must be a string`
+    input[field] = body[field].trim()
+  }
+  if (options.create) {
+    if (!input.projectId) return 'projectId is required'
+    if (!input.lineItem) return 'lineItem is required'
+    if (!input.category) return 'category is required'
+  }
+
+  if (body.quantity !== undefined) {
+    if (!isPositiveInteger(body.quantity)) return 'quantity must be a positive whole number'
+    input.quantity = body.quantity
+  } else if (options.create) {
+    return 'quantity is required'
+  }
+
+  if (body.neededBy !== undefined) {
+    if (typeof body.neededBy !== 'string' || !DATE_PATTERN.test(body.neededBy) || isNaN(Date.parse(body.neededBy))) {
+      return 'neededBy must be a date (YYYY-MM-DD)'
+    }
+    input.neededBy = body.neededBy
+  } else if (options.create) {
+    return 'neededBy is required'
+  }
+
+  if (body.requiredCertifications !== undefined) {
+    if (!isStringArray(body.requiredCertifications)) return 'requiredCertifications must be an array of strings'
+    input.requiredCertifications = body.requiredCertifications.map((c: string) => c.trim()).filter(Boolean)
+  }
+
+  if (body.invitedVendorIds !== undefined) {
+    if (!isStringArray(body.invitedVendorIds)) return 'invitedVendorIds must be an array of vendor IDs'
+    input.invitedVendorIds = Array.from(new Set<string>(body.invitedVendorIds))
+  }
+
+  if (body.weights !== undefined) {
+    const weights = body.weights
+    if (!isObject(weights) || WEIGHT_KEYS.some((key) => !isWeight(weights[key]))) {
+      return `weights must give a non-negative number for each of ${WEIGHT_KEYS.join(', ')}`
+    }
+    if (WEIGHT_KEYS.every((key) => weights[key] === 0)) return 'at least one weight must be positive'
+    input.weights = { price: weights.price, otif: weights.otif, quality: weights.quality, certifications: weights.certifications } as Rfq['weights']
+  }
+
+  if (body.status !== undefined) {
+    if (body.status !== 'cancelada') return 'status can only be set to cancelada (award through /award)'
+    input.status = body.status
+  }
+
+  return input
+}
+
+/**
+ * Validates a vendor's response; returns an error message or the input
+ */
+export function parseResponseInput(body: unknown): ResponseInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+  if (typeof body.vendorId !== 'string' || !body.vendorId) return 'vendorId is required'
+  if (typeof body.amount !== 'number' || !Number.isFinite(body.amount) || body.amount <= 0) {
+    return 'amount must be a positive number'
+  }
+  if (typeof body.leadTimeDays !== 'number' || !Number.isInteger(body.leadTimeDays) || body.leadTimeDays < 0) return 'leadTimeDays must be a non-negative whole number'
+  if (body.notes !== undefined && typeof body.notes !== 'string') return 'notes must be a string'
+
+  return { vendorId: body.vendorId, amount: body.amount, leadTimeDays: body.leadTimeDays, notes: (body.notes || '').trim() }
+}
+
+/**
+ * Validates an award; returns an error message or the input
+ */
+export function parseAwardInput(body: unknown): AwardInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+  if (typeof body.vendorId !== 'string' || !body.vendorId) return 'vendorId is required'
+  if (body.rationale !== undefined && typeof body.rationale !== 'string') return 'rationale must be a string'
+  return { vendorId: body.vendorId, rationale: (body.rationale || '').trim() }
+}
+
+/**
+ * Invited vendors must exist and not be inactive; without a list every
+ * active or in-evaluation vendor of the category is invited
+ */
+function resolveInvitations(ids: string[] | undefined, category: string, vendors: Vendor[]): string[] | string {
+  if (!ids) {
+    const invited = vendors.filter((v) => v.category === category && v.status !== 'inactivo').map((v) => v.id)
+    return invited.length > 0 ? invited : `No active vendors in category ${category}`
+  }
+  const unknown = ids.find((id) => !vendors.some((v) => v.id === id && v.status !== 'inactivo'))
+  if (unknown) return `Vendor ${unknown} not found or inactive`
+  return ids
+}
+
+export async function createRfq(
+  store: RfqStore,
+  context: OrgContext,
+  input: RfqInput,
+  vendors: Vendor[]
+): Promise<Rfq | string> {
+  const invitedVendorIds = resolveInvitations(input.invitedVendorIds, input.category || '', vendors)
+  if (typeof invitedVendorIds === 'string') return invitedVendorIds
+
+  const now = new Date().toISOString()
+  const rfq: Rfq = {
+    id: `rfq-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    orgId: context.orgId,
+    projectId: input.projectId || '',
+    lineItem: input.lineItem || '',
+    category: input.category || '',
+    quantity: input.quantity ?? 1,
+    neededBy: input.neededBy || now.slice(0, 10),
+    requiredCertifications: input.requiredCertifications || [],
+    weights: input.weights || DEFAULT_RFQ_WEIGHTS,
+    invitedVendorIds,
+    responses: [],
+    status: 'abierta',
+    award: null,
+    createdAt: now,
+    updatedAt: now,
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+
+  await store.save(rfq)
+  return rfq
+}
+
+/**
+ * Changes the terms of an open RFQ (the project, line item and category are
+ * fixed); returns an error message when it does not apply
+ */
+export function applyRfqInput(rfq: Rfq, input: RfqInput, vendors: Vendor[]): string | null {
+  if (rfq.status !== 'abierta') return `RFQ is ${rfq.status}`
+  if (input.projectId !== undefined || input.lineItem !== undefined || input.category !== undefined) {
+    return 'projectId, lineItem and category cannot change; create a new RFQ'
+  }
+
+  if (input.invitedVendorIds) {
+    const invited = resolveInvitations(input.invitedVendorIds, rfq.category, vendors)
+    if (typeof invited === 'string') return invited
+    const responded = rfq.responses.find((r) => !invited.includes(r.vendorId))
+    if (responded) return `Vendor ${responded.vendorId} already responded and cannot be uninvited`
+    rfq.invitedVendorIds = invited
+  }
+
+  if (input.quantity !== undefined) rfq.quantity = input.quantity
+  if (input.neededBy !== undefined) rfq.neededBy = input.neededBy
+  if (input.requiredCertifications !== undefined) rfq.requiredCertifications = input.requiredCertifications
+  if (input.weights !== undefined) rfq.weights = input.weights
+  if (input.status) rfq.status = input.status
+
+  rfq.updatedAt = new Date().toISOString()
+  return null
+}
+
+/**
+ * Records (or replaces) an invited vendor's response; returns an error
+ * message when it does not apply
+ */
+export function recordResponse(rfq: Rfq, input: ResponseInput, context: OrgContext): string | null {
+  if (rfq.status !== 'abierta') return `RFQ is ${rfq.status}`
+  if (!rfq.invitedVendorIds.includes(input.vendorId)) return 'Vendor was not invited to this RFQ'
+
+  const response: RfqResponse = {
+    ...input,
+    submittedAt: new Date().toISOString(),
+    recordedBy: context.userId,
+    recordedByName: context.userName
+  }
+  rfq.responses = [...rfq.responses.filter((r) => r.vendorId !== input.vendorId), response]
+  rfq.updatedAt = response.submittedAt
+  return null
+}
+
+/**
+ * Awards the RFQ and issues the purchase order on the vendor, so it counts
+ * toward its scorecard. `rows` is the current comparison; going against its
+ * recommendation needs a rationale.
+ * Returns the award or an error message.
+ */
+export function awardRfq(
+  rfq: Rfq,
+  project: Project,
+  vendor: Vendor,
+  input: AwardInput,
+  rows: RfqComparisonRow[],
+  context: OrgContext
+): RfqAward | string {
+  if (rfq.status !== 'abierta') return `RFQ is ${rfq.status}`
+  if (vendor.status === 'inactivo') return 'Cannot award to an inactive vendor'
+
+  const response = rfq.responses.find((r) => r.vendorId === vendor.id)
+  if (!response) return 'Vendor has not responded to this RFQ'
+
+  const recommendation = recommendAward(rows)
+  const followsRecommendation = recommendation?.vendorId === vendor.id
+  if (!followsRecommendation && !input.rationale) {
+    return recommendation
+      ? `rationale is required to award against the recommendation (${recommendation.vendorName})`
+      : 'rationale is required when there is no recommendation'
+  }
+
+  const now = new Date()
+  const order: PurchaseOrder = addOrder(
+    vendor,
+    {
+      projectId: project.id,
+      description: `${rfq.lineItem} (${project.name})`,
+      quotedAmount: response.amount,
+      promisedDate: new Date(now.getTime() + response.leadTimeDays * DAY_MS).toISOString().slice(0, 10),
+      promisedQuantity: rfq.quantity
+    },
+    context
+  )
+
+  const award: RfqAward = {
+    vendorId: vendor.id,
+    vendorName: vendor.name,
+    amount: response.amount,
+    recommendedVendorId: recommendation?.vendorId || null,
+    score: rows.find((row) => row.vendorId === vendor.id)?.total ?? null,
+    rationale: [input.rationale, followsRecommendation ? recommendation?.rationale : null].filter(Boolean).join(' — '),
+    purchaseOrderId: order.id,
+    awardedAt: now.toISOString(),
+    awardedBy: context.userId,
+    awardedByName: context.userName
+  }
+  rfq.award = award
+  rfq.status = 'adjudicada'
+  rfq.updatedAt = award.awardedAt
+  return award
+}
@@ -0,0 +1,149 @@
+/**
+ * RFQ comparison rules
+ * Side-by-side comparison of vendor responses, weighted by price, the
+ * vendor's computed OTIF and quality, and required certifications; shared by
+ * the RFQ API and the /vendors/rfqs page (no server dependencies)
+ */
+
+import type { Rfq, RfqResponse, RfqWeights, Vendor } from '@prime-growth-os/types'
+
+export const RFQ_STATUS_LABELS: Record<Rfq['status'], string> = {
+  abierta: 'Abierta',
+  adjudicada: 'Adjudicada',
+  cancelada: 'Cancelada'
+}
+
+export const DEFAULT_RFQ_WEIGHTS: RfqWeights = {
+  price: 0.4,
+  otif: 0.3,
+  quality: 0.2,
+  certifications: 0.1
+}
+
+// Score for a vendor without delivery history yet: neither rewarded nor punished
+export const NO_HISTORY_SCORE = 50
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export type RfqComparisonRow = {
+  vendorId: string
+  vendorName: string
+  vendorStatus: Vendor['status'] | null
+  response: RfqResponse
+  priceScore: number
+  otifScore: number
+  qualityScore: number
+  certificationScore: number
+  missingCertifications: string[]
+  meetsDeadline: boolean
+  total: number
+  // An active vendor that can deliver by the date the project needs
+  eligible: boolean
+}
+
+export type RfqRecommendation = {
+  vendorId: string
+  vendorName: string
+  total: number
+  rationale: string
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Weights scaled to add up to 1; all-zero weights fall back to the defaults
+ */
+export function normalizeWeights(weights: RfqWeights): RfqWeights {
+  const sum = weights.price + weights.otif + weights.quality + weights.certifications
+  if (sum <= 0) return DEFAULT_RFQ_WEIGHTS
+  return {
+    price: weights.price / sum,
+    otif: weights.otif / sum,
+    quality: weights.quality / sum,
+    certifications: weights.certifications / sum
+  }
+}
+
+/**
+ * One row per response, best weighted total first. Price scores relative to
+ * the lowest bid (100 for the lowest); OTIF and quality come from the vendor
+ * scorecard; certifications score the share of the required ones held.
+ */
+export function compareResponses(rfq: Rfq, vendors: Vendor[], now: Date = new Date()): RfqComparisonRow[] {
+  const weights = normalizeWeights(rfq.weights)
+  const lowest = Math.min(...rfq.responses.map((r) => r.amount))
+  const neededBy = Date.parse(`${rfq.neededBy}T00:00:00Z`)
+  const required = rfq.requiredCertifications.map((c) => c.toLowerCase())
+
+  return rfq.responses
+    .map((response): RfqComparisonRow => {
+      const vendor = vendors.find((v) => v.id === response.vendorId) || null
+      const held = new Set((vendor?.certifications || []).map((c) => c.toLowerCase()))
+      const missingCertifications = rfq.requiredCertifications.filter((c) => !held.has(c.toLowerCase()))
+
+      const priceScore = response.amount > 0 ? (lowest / response.amount) * 100 : 100
+      const otifScore = vendor?.otifScore ?? NO_HISTORY_SCORE
+      const qualityScore = vendor?.qualityRating != null ? (vendor.qualityRating / 5) * 100 : NO_HISTORY_SCORE
+      const certificationScore = required.length > 0
+        ? ((required.length - missingCertifications.length) / required.length) * 100
+        : 100
+      const meetsDeadline = now.getTime() + response.leadTimeDays * DAY_MS <= neededBy + DAY_MS
+
+      return {
+        vendorId: response.vendorId,
+        vendorName: vendor?.name || response.vendorId,
+        vendorStatus: vendor?.status || null,
+        response,
+        priceScore: round1(priceScore),
+        otifScore: round1(otifScore),
+        qualityScore: round1(qualityScore),
+        certificationScore: round1(certificationScore),
+        missingCertifications,
+        meetsDeadline,
+        total: round1(
+          priceScore * weights.price +
+          otifScore * weights.otif +
+          qualityScore * weights.quality +
+          certificationScore * weights.certifications
+        ),
+        eligible: vendor?.status === 'activo' && meetsDeadline
+      }
+    })
+    .sort((a, b) => b.total - a.total)
+}
+
+/**
+ * The best eligible response with the reasons behind it, or null when no
+ * active vendor can deliver in time
+ */
+export function recommendAward(rows: RfqComparisonRow[]): RfqRecommendation | null {
+  const best = rows.find((row) => row.eligible)
+  if (!best) return null
+
+  const reasons = [
+    `puntaje ponderado ${best.total}`,
+    `precio ${best.priceScore}/100 ($${best.response.amount.toLocaleString('es-MX')})`,
+    `OTIF ${best.otifScore}`,
+    `calidad ${best.qualityScore}`,
+    best.missingCertifications.length > 0
+      ? `le falta ${best.missingCertifications.join(', ')}`
+      : 'cumple las certificaciones requeridas',
+    `entrega en ${best.response.leadTimeDays} días`
+  ]
+  const runnerUp = rows.find((row) => row.eligible && row.vendorId !== best.vendorId)
+  if (runnerUp) reasons.push(`siguiente: ${runnerUp.vendorName} con ${runnerUp.total}`)
+
+  const skipped = rows.filter((row) => !row.eligible && row.total > best.total)
+  skipped.forEach((row) => {
+    reasons.push(`${row.vendorName} descartado: ${row.vendorStatus !== 'activo' ? 'proveedor no activo' : 'no entrega a tiempo'}`)
+  })
+
+  return {
+    vendorId: best.vendorId,
+    vendorName: best.vendorName,
+    total: best.total,
+    rationale: `${best.vendorName}: ${reasons.join('; ')}`
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * RFQ Storage
+ * Org-scoped persistence for requests for quotation (RFQs)
+ */
+
+import type { Rfq } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type RfqStore = OrgStore<Rfq>
+
+export class MemoryRfqStore extends MemoryOrgStore<Rfq> {}
+
+export class FileRfqStore extends FileOrgStore<Rfq> {}
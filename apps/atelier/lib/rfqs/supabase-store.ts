@@ -0,0 +1,129 @@
+/**
+ * Supabase RFQ Store
+ * Persists RFQs in the rfqs table, always filtered by org_id; vendor
+ * responses and the award are JSONB columns on the same row
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Rfq } from '@prime-growth-os/types'
+import type { RfqStore } from './store'
+
+const TABLE = 'rfqs'
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+type RfqRow = {
+  id: string
+  org_id: string
+  project_id: string
+  line_item: string
+  category: string
+  quantity: number | string
+  needed_by: string
+  required_certifications: string[] | null
+  weights: Rfq['weights']
+  invited_vendor_ids: string[] | null
+  responses: Rfq['responses'] | null
+  status: Rfq['status']
+  award: Rfq['award']
+  created_at: string
+  updated_at: string
+  created_by: string
+  created_by_name: string
+}
+
+function fromRow(row: RfqRow): Rfq {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    projectId: row.project_id,
+    lineItem: row.line_item,
+    category: row.category,
+    quantity: Number(row.quantity),
+    neededBy: row.needed_by,
+    requiredCertifications: row.required_certifications || [],
+    weights: row.weights,
+    invitedVendorIds: row.invited_vendor_ids || [],
+    responses: row.responses || [],
+    status: row.status,
+    award: row.award || null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name
+  }
+}
+
+export class SupabaseRfqStore implements RfqStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<Rfq[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load RFQs: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<Rfq | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load RFQ: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(rfq: Rfq): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: rfq.id,
+      org_id: rfq.orgId,
+      project_id: rfq.projectId,
+      line_item: rfq.lineItem,
+      category: rfq.category,
+      quantity: rfq.quantity,
+      needed_by: rfq.neededBy,
+      required_certifications: rfq.requiredCertifications,
+      weights: rfq.weights,
+      invited_vendor_ids: rfq.invitedVendorIds,
+      responses: rfq.responses,
+      status: rfq.status,
+      award: rfq.award,
+      created_at: rfq.createdAt,
+      updated_at: rfq.updatedAt,
+      created_by: rfq.createdBy,
+      created_by_name: rfq.createdByName
+    })
+
+    if (error) {
+      throw new Error(`Failed to save RFQ: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete RFQ: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Capacity planning inputs
+ * Turns stage-gate projects into the portfolio ResourceScheduler plans: the
+ * remaining work of each phase, and the manager and team as weekly loads
+ */
+
+import {
+  ResourceScheduler,
+  type CapacityPlan,
+  type PortfolioProject,
+  type StartShift
+} from '@prime-growth-os/sgp'
+import type { Project } from '@prime-growth-os/types'
+import type { PhaseDraft } from '@/lib/projects'
+import { refreshProject } from '@/lib/projects/rules'
+import { DEFAULT_CONSTRAINTS } from './spend-plan'
+
+// Share of a person's week a project takes: architects split across two
+// projects, the manager oversees up to four
+export const TEAM_MEMBER_LOAD = 0.5
+export const MANAGER_LOAD = 0.25
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export type CandidateProject = {
+  startDate: string
+  manager?: string
+  team?: string[]
+  phases: Pick<PhaseDraft, 'name' | 'duration'>[]
+}
+
+function assignments(manager: string | undefined, team: string[] = []) {
+  const loads = new Map<string, number>()
+  if (manager) loads.set(manager, MANAGER_LOAD)
+  team.forEach((member) => loads.set(member, (loads.get(member) || 0) + TEAM_MEMBER_LOAD))
+  return Array.from(loads.entries()).map(([member, load]) => ({ member, load }))
+}
+
+function dayOf(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+/**
+ * Remaining work from today: completed phases are done, started ones run to
+ * their projected end and pending ones take their duration plus slippage.
+ * Projects with a started phase keep their dates; the rest can be shifted.
+ */
+export function portfolioProject(project: Project, now: Date = new Date()): PortfolioProject {
+  refreshProject(project, now)
+  const today = dayOf(now)
+  const started = project.phases.some((p) => p.startedAt)
+  const plannedStart = new Date(`${project.startDate}T00:00:00Z`)
+
+  return {
+    id: project.id,
+    name: project.name,
+    start: started || plannedStart < today ? today : plannedStart,
+    tasks: project.phases.map((phase) => {
+      let durationDays = phase.duration + phase.slippageDays
+      if (phase.status === 'completada') {
+        durationDays = 0
+      } else if (phase.startedAt) {
+        durationDays = Math.max(1, Math.round((new Date(`${phase.endDate}T00:00:00Z`).getTime() - today.getTime()) / DAY_MS))
+      }
+      return { id: phase.id, name: phase.name, durationDays, dependsOn: phase.dependsOn }
+    }),
+    assignments: assignments(project.manager, project.team),
+    movable: !started
+  }
+}
+
+export function isActiveProject(project: Project): boolean {
+  return project.status !== 'completado' && project.phases.some((p) => p.status !== 'completada')
+}
+
+/**
+ * Critical paths, weekly loads and proposed start shifts for the active projects
+ */
+export function planCapacity(projects: Project[], now: Date = new Date()): CapacityPlan {
+  const scheduler = new ResourceScheduler(DEFAULT_CONSTRAINTS)
+  return scheduler.plan(projects.filter(isActiveProject).map((p) => portfolioProject(p, now)), dayOf(now))
+}
+
+/**
+ * Earliest start at which a new project fits the active portfolio, for sales
+ * to quote. Phases run one after another.
+ */
+export function quoteStartDate(candidate: CandidateProject, projects: Project[], now: Date = new Date()): StartShift {
+  const scheduler = new ResourceScheduler(DEFAULT_CONSTRAINTS)
+  const portfolio = projects.filter(isActiveProject).map((p) => portfolioProject(p, now))
+
+  return scheduler.earliestStart(
+    {
+      id: 'candidate',
+      name: 'Nuevo proyecto',
+      start: new Date(`${candidate.startDate}T00:00:00Z`),
+      tasks: candidate.phases.map((phase, index) => ({
+        id: `phase-${index + 1}`,
+        name: phase.name,
+        durationDays: phase.duration,
+        dependsOn: index > 0 ? [`phase-${index}`] : []
+      })),
+      assignments: assignments(candidate.manager, candidate.team),
+      movable: true
+    },
+    portfolio,
+    dayOf(now)
+  )
+}
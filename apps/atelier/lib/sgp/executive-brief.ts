@@ -0,0 +1,408 @@
+/**
+ * Executive brief inputs and assembly
+ * Measures the organization's lead and quote KPIs for a period, scores the
+ * mined funnel's bottlenecks, turns completed experiments into insights and
+ * runs them with the spend plan through ExecutiveNarrativeGenerator
+ */
+
+import {
+  BottleneckDetector,
+  ExecutiveNarrativeGenerator,
+  type Bottleneck,
+  type DateRange,
+  type ExecutiveNarrative,
+  type ExperimentConfig,
+  type Insight,
+  type KPIDefinition,
+  type KPISnapshot,
+  type Recommendation,
+  type SpendPlan,
+  type TimeWindow
+} from '@prime-growth-os/sgp'
+import type { CPQQuote, Lead, Project } from '@prime-growth-os/types'
+import { isObject } from '@/lib/fields'
+import { mineFunnel } from './process-mining'
+import {
+  checkDateRange,
+  generateSpendPlan,
+  parseDateRange,
+  parseSpendPlanRequest,
+  type SpendPlanRequest
+} from './spend-plan'
+
+export type BriefRequest = {
+  period?: { start: string; end: string }
+  // Inputs for the live optimizer run
+  spendPlan?: SpendPlanRequest
+}
+
+// What the server loads for the organization
+export type BriefData = {
+  leads: Lead[]
+  quotes: CPQQuote[]
+  projects: Project[]
+  experiments: ExperimentConfig[]
+}
+
+export type BriefInputs = {
+  period: DateRange
+  kpis: KPISnapshot[]
+  insights: Insight[]
+  recommendations: Recommendation[]
+  bottlenecks: Bottleneck[]
+  spendPlans: SpendPlan[]
+}
+
+export type ExecutiveBrief = {
+  narrative: ExecutiveNarrative
+  bluf: string
+  topActions: Array<{ action: string; impact: number; confidence: number; timeline: string }>
+  sources: { kpis: number; insights: number; recommendations: number; bottlenecks: number; spendPlans: number }
+  // Seeds that replay each spend plan's Monte Carlo run (send back as spendPlan.seed)
+  simulations: Array<{ planId: string; seed: number | null; runs: number | null }>
+}
+
+const RISK_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 }
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Changes smaller than this against the previous period read as stable
+const STABLE_CHANGE_PERCENT = 5
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : undefined)
+
+function within(date: Date | undefined, period: DateRange): boolean {
+  return !!date && date >= period.start && date <= period.end
+}
+
+/**
+ * Checks the period and the optional spend plan inputs; a string is the
+ * first problem found
+ */
+export function parseBriefRequest(body: unknown): BriefRequest | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const periodError = checkDateRange(body.period, 'period')
+  if (periodError) return periodError
+
+  let spendPlan: SpendPlanRequest | undefined
+  if (body.spendPlan !== undefined) {
+    const parsed = parseSpendPlanRequest(body.spendPlan)
+    if (typeof parsed === 'string') return `spendPlan: ${parsed}`
+    spendPlan = parsed
+  }
+
+  return { period: body.period as BriefRequest['period'], spendPlan }
+}
+
+// ============================================================================
+// LEAD & QUOTE KPIs
+// ============================================================================
+
+type Measure = { value: number; sampleSize: number }
+
+type KPIMeasure = {
+  kpi: KPIDefinition
+  // Null when the period has nothing to measure
+  measure: (data: BriefData, period: DateRange) => Measure | null
+}
+
+const decided = (quote: CPQQuote) => quote.status === 'aceptada' || quote.status === 'rechazada'
+
+const leadsCreated = (data: BriefData, period: DateRange) =>
+  data.leads.filter((lead) => within(toDate(lead.createdAt), period))
+
+const quotesDecided = (data: BriefData, period: DateRange) =>
+  data.quotes.filter((quote) => decided(quote) && within(toDate(quote.decidedAt), period))
+
+const quotesSent = (data: BriefData, period: DateRange) =>
+  data.quotes.filter((quote) => within(toDate(quote.sentAt), period))
+
+const share = (part: number, total: number): Measure | null => (total > 0 ? { value: part / total, sampleSize: total } : null)
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+export const BRIEF_KPIS: KPIMeasure[] = [
+  {
+    kpi: {
+      key: 'won_revenue',
+      name: 'Won revenue',
+      category: 'financial',
+      unit: 'MXN',
+      format: 'currency',
+      direction: 'up',
+      dataSource: ['quotes']
+    },
+    measure: (data, period) => {
+      const won = quotesDecided(data, period).filter((quote) => quote.status === 'aceptada')
+      return won.length > 0 ? { value: sum(won.map((quote) => quote.totalPrice)), sampleSize: won.length } : null
+    }
+  },
+  {
+    kpi: {
+      key: 'average_quote_value',
+      name: 'Average quote value',
+      category: 'financial',
+      unit: 'MXN',
+      format: 'currency',
+      direction: 'up',
+      dataSource: ['quotes']
+    },
+    measure: (data, period) => {
+      const sent = quotesSent(data, period)
+      return sent.length > 0 ? { value: sum(sent.map((quote) => quote.totalPrice)) / sent.length, sampleSize: sent.length } : null
+    }
+  },
+  {
+    kpi: {
+      key: 'quote_win_rate',
+      name: 'Quote win rate',
+      category: 'conversion',
+      unit: '%',
+      format: 'percent',
+      direction: 'up',
+      dataSource: ['quotes']
+    },
+    measure: (data, period) => {
+      const quotes = quotesDecided(data, period)
+      return share(quotes.filter((quote) => quote.status === 'aceptada').length, quotes.length)
+    }
+  },
+  {
+    kpi: {
+      key: 'lead_to_quote',
+      name: 'Lead to quote conversion',
+      category: 'conversion',
+      unit: '%',
+      format: 'percent',
+      direction: 'up',
+      dataSource: ['leads', 'quotes']
+    },
+    measure: (data, period) => {
+      const quoted = new Set(data.quotes.map((quote) => quote.leadId))
+      const leads = leadsCreated(data, period)
+      return share(leads.filter((lead) => quoted.has(lead.id)).length, leads.length)
+    }
+  },
+  {
+    kpi: {
+      key: 'leads_created',
+      name: 'New leads',
+      category: 'acquisition',
+      unit: 'leads',
+      format: 'number',
+      direction: 'up',
+      dataSource: ['leads']
+    },
+    measure: (data, period) => {
+      const leads = leadsCreated(data, period)
+      return leads.length > 0 ? { value: leads.length, sampleSize: leads.length } : null
+    }
+  },
+  {
+    kpi: {
+      key: 'pipeline_value',
+      name: 'New pipeline value',
+      category: 'acquisition',
+      unit: 'MXN',
+      format: 'currency',
+      direction: 'up',
+      dataSource: ['leads']
+    },
+    measure: (data, period) => {
+      const leads = leadsCreated(data, period)
+      return leads.length > 0 ? { value: sum(leads.map((lead) => lead.budget)), sampleSize: leads.length } : null
+    }
+  }
+]
+
+function timeWindow(period: DateRange): TimeWindow {
+  const days = (period.end.getTime() - period.start.getTime()) / DAY_MS
+  if (days <= 1) return '24h'
+  if (days <= 7) return '7d'
+  if (days <= 31) return '30d'
+  if (days <= 92) return '90d'
+  return '365d'
+}
+
+/**
+ * Each KPI the period has data for, with its trend against the period of the
+ * same length just before it
+ */
+export function measureKPIs(data: BriefData, period: DateRange): KPISnapshot[] {
+  const length = period.end.getTime() - period.start.getTime()
+  const previous: DateRange = {
+    start: new Date(period.start.getTime() - length - 1),
+    end: new Date(period.start.getTime() - 1)
+  }
+
+  return BRIEF_KPIS.flatMap(({ kpi, measure }) => {
+    const current = measure(data, period)
+    if (!current) return []
+
+    const before = measure(data, previous)
+    const change = before && before.value !== 0
+      ? Math.round(((current.value - before.value) / Math.abs(before.value)) * 1000) / 10
+      : 0
+    const better = kpi.direction === 'down' ? change < 0 : change > 0
+
+    return [{
+      kpi,
+      value: current.value,
+      timestamp: period.end,
+      window: timeWindow(period),
+      trend: Math.abs(change) < STABLE_CHANGE_PERCENT ? 'stable' : better ? 'improving' : 'declining',
+      trendMagnitude: change,
+      sampleSize: current.sampleSize
+    }]
+  })
+}
+
+// ============================================================================
+// EXPERIMENT EVIDENCE
+// ============================================================================
+
+/**
+ * Completed experiments in the period become insights backed by their measured lift
+ */
+export function insightsFromExperiments(experiments: ExperimentConfig[], period: DateRange): Insight[] {
+  return experiments
+    .filter((e) => e.status === 'completed' && e.result && within(e.endDate, period))
+    .map((experiment) => {
+      const result = experiment.result!
+      const metric = experiment.primaryMetric
+      const improved = metric.direction === 'down' ? result.lift < 0 : result.lift > 0
+      const sampleSize = (experiment.observations?.control.exposures || 0) +
+        (experiment.observations?.treatment.exposures || 0)
+
+      const snapshot: KPISnapshot = {
+        kpi: metric,
+        value: result.treatmentMetric,
+        timestamp: result.endDate,
+        window: '30d',
+        trend: result.significant ? (improved ? 'improving' : 'declining') : 'stable',
+        trendMagnitude: result.lift,
+        sampleSize
+      }
+
+      return {
+        id: `insight-${experiment.id}`,
+        title: `${experiment.name || metric.name}: ${result.lift > 0 ? '+' : ''}${result.lift.toFixed(1)}% ${metric.name}`,
+        summary: `Experiment "${experiment.hypothesis}" measured ${result.lift.toFixed(1)}% lift (p=${result.pValue.toFixed(3)}, n=${sampleSize}); decision: ${result.decision.replace('_', ' ')}.`,
+        category: result.significant ? (improved ? 'opportunity' : 'risk') : 'trend',
+        evidence: [{
+          id: `evidence-${experiment.id}`,
+          type: 'metric',
+          title: `${metric.name} control vs treatment`,
+          description: `control ${result.controlMetric.toFixed(3)} vs treatment ${result.treatmentMetric.toFixed(3)}`,
+          kpiSnapshots: [snapshot],
+          confidence: 1 - result.pValue,
+          sources: [],
+          detectedAt: result.endDate,
+          tags: ['experiment', experiment.recommendationId]
+        }],
+        impactEstimate: {
+          customMetrics: {
+            [metric.key]: {
+              baseline: result.controlMetric,
+              target: result.treatmentMetric,
+              delta: result.treatmentMetric - result.controlMetric,
+              deltaPercent: result.lift,
+              unit: metric.unit
+            }
+          },
+          timeToImpact: experiment.duration,
+          sustainabilityMonths: 12
+        },
+        confidence: result.significant ? 'high' : 'low'
+      }
+    })
+}
+
+// ============================================================================
+// ASSEMBLY
+// ============================================================================
+
+/**
+ * Scopes the organization's data to the period: KPIs measured from its leads
+ * and quotes, bottlenecks of the funnel mined up to the period's end, their
+ * fixes as recommendations and the period's completed experiments as insights
+ */
+export function collectBriefInputs(request: BriefRequest, data: BriefData, now: Date = new Date()): BriefInputs {
+  const period = parseDateRange(request.period)
+
+  const kpis = measureKPIs(data, period)
+  const insights = insightsFromExperiments(data.experiments, period)
+    .filter((insight) => !insight.expiresAt || insight.expiresAt >= period.start)
+
+  const mining = mineFunnel(data.leads, data.quotes, data.projects, period.end < now ? period.end : now)
+  const bottlenecks = mining ? new BottleneckDetector().analyzeProcessFlows([mining.flow]) : []
+
+  // Most urgent and confident fixes first
+  const seen = new Set<string>()
+  const recommendations = bottlenecks
+    .flatMap((b) => b.recommendedFixes)
+    .filter((r) => {
+      if (r.status === 'rejected' || seen.has(r.id)) return false
+      seen.add(r.id)
+      return true
+    })
+    .sort((a, b) => a.priority - b.priority || b.confidence - a.confidence)
+
+  const spendPlans = [livePlan({ ...request.spendPlan, period: request.period })]
+
+  return { period, kpis, insights, recommendations, bottlenecks, spendPlans }
+}
+
+// The plan to act on: the guardrail-adjusted one when no plan satisfies every guardrail
+function livePlan(request: SpendPlanRequest): SpendPlan {
+  const { plan, adjustedPlan } = generateSpendPlan(request)
+  return adjustedPlan || plan
+}
+
+/**
+ * SCQA narrative plus BLUF for the assembled inputs
+ */
+export function buildExecutiveBrief(inputs: BriefInputs): ExecutiveBrief {
+  const generator = new ExecutiveNarrativeGenerator()
+  const narrative = generator.generateNarrative(inputs)
+
+  const primary = inputs.recommendations[0]
+  const evidenceCount =
+    inputs.kpis.reduce((sum, k) => sum + k.sampleSize, 0) +
+    inputs.insights.reduce((sum, i) => sum + i.evidence.length, 0)
+
+  const bluf = primary
+    ? generator.generateBLUF({
+        primaryRecommendation: primary,
+        expectedImpact: primary.expectedImpact,
+        timeframe: primary.expectedImpact.timeToImpact,
+        confidence: primary.confidence,
+        topRisk: [...primary.risks].sort((a, b) => RISK_ORDER[a.probability] - RISK_ORDER[b.probability])[0],
+        evidenceCount
+      })
+    : `BOTTOM LINE: No open recommendations for this period. ${narrative.answer}`
+
+  return {
+    narrative,
+    bluf,
+    topActions: inputs.recommendations.slice(0, 5).map((r) => ({
+      action: r.actions[0]?.label || r.title,
+      impact: r.expectedImpact.revenue?.delta || 0,
+      confidence: r.confidence,
+      timeline: `${r.expectedImpact.timeToImpact} days`
+    })),
+    sources: {
+      kpis: inputs.kpis.length,
+      insights: inputs.insights.length,
+      recommendations: inputs.recommendations.length,
+      bottlenecks: inputs.bottlenecks.length,
+      spendPlans: inputs.spendPlans.length
+    },
+    simulations: inputs.spendPlans.map((plan) => ({
+      planId: plan.id,
+      seed: plan.seed ?? null,
+      runs: plan.simulationRuns ?? null
+    }))
+  }
+}
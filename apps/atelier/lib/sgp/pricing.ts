@@ -0,0 +1,41 @@
+/**
+ * Pricing advisor inputs
+ * Turns the organization's decided CPQ quotes into the win/loss outcomes
+ * PricingAdvisor segments and fits
+ */
+
+import type { CPQQuote, Lead } from '@prime-growth-os/types'
+import type { QuoteOutcome } from '@prime-growth-os/sgp'
+import { isQuoteExpired } from '@/lib/quotes/rules'
+
+/**
+ * Accepted quotes are wins; rejected quotes and sent quotes that expired without
+ * an answer are losses. Drafts and open quotes have no outcome yet. The lead
+ * supplies the project type and the client's stated budget.
+ */
+export function quoteOutcomes(quotes: CPQQuote[], leads: Lead[], now: Date = new Date()): QuoteOutcome[] {
+  const leadsById = new Map(leads.map((lead) => [lead.id, lead]))
+  const outcomes: QuoteOutcome[] = []
+
+  for (const quote of quotes) {
+    const won = quote.status === 'aceptada'
+    const lost = quote.status === 'rechazada' || isQuoteExpired(quote, now)
+    const lead = leadsById.get(quote.leadId)
+    if ((!won && !lost) || !lead) continue
+
+    outcomes.push({
+      id: quote.id,
+      clientId: lead.id,
+      projectType: lead.projectType,
+      budget: lead.budget,
+      listPrice: quote.pricing.subtotal,
+      finalPrice: quote.totalPrice,
+      discountPercent: quote.pricing.discountPercentage,
+      customizations: quote.customizations,
+      won,
+      estimatedCost: quote.pricing.estimatedCost
+    })
+  }
+
+  return outcomes
+}
@@ -0,0 +1,182 @@
+/**
+ * Funnel process mining inputs
+ * Turns lead status changes, quote transitions and stage-gate phase changes
+ * into the event log ProcessMiner reads, one case per lead from first contact
+ * to the completed project
+ */
+
+import {
+  ProcessMiner,
+  type ProcessEvent,
+  type ProcessMiningResult,
+  type StageDefinition
+} from '@prime-growth-os/sgp'
+import type { CPQQuote, Lead, Project, StageGatePhase } from '@prime-growth-os/types'
+
+export const FUNNEL_FLOW_ID = 'lead-to-project'
+export const COMPLETION_ACTIVITIES = ['proyecto:completado']
+export const EXIT_ACTIVITIES = ['lead:perdido', 'cotizacion:rechazada']
+
+// A lead or quote untouched for a quarter has been abandoned
+export const STALE_AFTER_DAYS = 90
+
+export const SALES_STAGES: StageDefinition[] = [
+  {
+    id: 'primer-contacto',
+    name: 'Primer contacto',
+    activities: ['lead:nuevo'],
+    waitingActivities: ['lead:nuevo']
+  },
+  {
+    id: 'calificacion',
+    name: 'Calificación',
+    activities: ['lead:contactado']
+  },
+  {
+    id: 'cotizacion',
+    name: 'Cotización',
+    activities: ['lead:propuesta', 'cotizacion:borrador', 'cotizacion:pendiente_aprobacion'],
+    waitingActivities: ['cotizacion:pendiente_aprobacion']
+  },
+  {
+    id: 'negociacion',
+    name: 'Negociación',
+    activities: ['lead:negociacion', 'cotizacion:enviada'],
+    waitingActivities: ['cotizacion:enviada']
+  },
+  {
+    id: 'arranque',
+    name: 'Arranque',
+    activities: ['lead:ganado', 'cotizacion:aceptada'],
+    waitingActivities: ['lead:ganado', 'cotizacion:aceptada']
+  }
+]
+
+const phaseActivity = (phase: StageGatePhase, status: string) => `fase:${phase.name}:${status}`
+
+/**
+ * Sales stages followed by one stage per phase name, in the order projects
+ * list them. Time a phase spends locked, in gate review or blocked is waiting.
+ */
+export function funnelStages(projects: Project[]): StageDefinition[] {
+  const names: string[] = []
+  projects.forEach((project) => project.phases.forEach((phase) => {
+    if (!names.includes(phase.name)) names.push(phase.name)
+  }))
+
+  return [
+    ...SALES_STAGES,
+    ...names.map((name) => ({
+      id: `fase:${name}`,
+      name,
+      activities: ['pendiente', 'en_progreso', 'en_revision', 'bloqueada'].map((s) => `fase:${name}:${s}`),
+      waitingActivities: ['pendiente', 'en_revision', 'bloqueada'].map((s) => `fase:${name}:${s}`)
+    }))
+  ]
+}
+
+/**
+ * A phase's history rebuilt from its timestamps. Submission to the gate is
+ * not recorded, so each review round opens at the last deliverable checked
+ * before its first sign-off (or at that sign-off); only the current block
+ * is known.
+ */
+function phaseEvents(project: Project, phase: StageGatePhase, caseId: string): ProcessEvent[] {
+  const events: ProcessEvent[] = []
+  const push = (status: string, at: string, actor?: string) =>
+    events.push({ caseId, activity: phaseActivity(phase, status), timestamp: new Date(at), actor })
+
+  const dependencies = phase.dependsOn.map((id) => project.phases.find((p) => p.id === id))
+  if (dependencies.every((p) => p?.completedAt)) {
+    const unlockedAt = dependencies.reduce((latest, p) => (p!.completedAt! > latest ? p!.completedAt! : latest), project.createdAt)
+    push('pendiente', unlockedAt)
+  }
+  if (!phase.startedAt) return events
+  push('en_progreso', phase.startedAt)
+
+  const checked = phase.deliverables
+    .filter((d) => d.completedAt)
+    .sort((a, b) => a.completedAt!.localeCompare(b.completedAt!))
+  const rounds = Array.from(new Set(phase.signOffs.map((s) => s.round))).sort((a, b) => a - b)
+  let reopenedAt = phase.startedAt
+
+  for (const round of rounds) {
+    const signOffs = phase.signOffs.filter((s) => s.round === round).sort((a, b) => a.at.localeCompare(b.at))
+    const submitted = checked.filter((d) => d.completedAt! >= reopenedAt && d.completedAt! <= signOffs[0].at).pop()
+    push('en_revision', submitted ? submitted.completedAt! : signOffs[0].at, submitted?.completedByName || undefined)
+
+    const rejection = signOffs.find((s) => s.decision === 'rechazada')
+    if (rejection) {
+      push('en_progreso', rejection.at, rejection.name)
+      reopenedAt = rejection.at
+    }
+  }
+
+  const inReview = phase.status === 'en_revision' || phase.blocked?.previousStatus === 'en_revision'
+  if (inReview && !phase.signOffs.some((s) => s.round === phase.reviewRound)) {
+    const submitted = checked.filter((d) => d.completedAt! >= reopenedAt).pop()
+    if (submitted) push('en_revision', submitted.completedAt!, submitted.completedByName || undefined)
+  }
+
+  if (phase.blocked) push('bloqueada', phase.blocked.since, phase.blocked.byName)
+  return events
+}
+
+/**
+ * The funnel as an event log. A lead is the case; its quotes and the project
+ * billed against an accepted quote join it. Projects without a quote are
+ * their own case, starting at the first phase.
+ */
+export function funnelEventLog(leads: Lead[], quotes: CPQQuote[], projects: Project[]): ProcessEvent[] {
+  const events: ProcessEvent[] = []
+  const quotesById = new Map(quotes.map((quote) => [quote.id, quote]))
+
+  for (const lead of leads) {
+    for (const change of lead.statusHistory) {
+      events.push({ caseId: lead.id, activity: `lead:${change.to}`, timestamp: new Date(change.at), actor: change.byName })
+    }
+  }
+
+  for (const quote of quotes) {
+    for (const change of quote.statusHistory) {
+      events.push({ caseId: quote.leadId, activity: `cotizacion:${change.to}`, timestamp: new Date(change.at), actor: change.byName })
+    }
+  }
+
+  for (const project of projects) {
+    const quote = project.quoteId ? quotesById.get(project.quoteId) : undefined
+    const caseId = quote ? quote.leadId : `proyecto:${project.id}`
+    project.phases.forEach((phase) => events.push(...phaseEvents(project, phase, caseId)))
+
+    if (project.phases.length > 0 && project.phases.every((p) => p.completedAt)) {
+      const completedAt = project.phases.reduce((latest, p) => (p.completedAt! > latest ? p.completedAt! : latest), '')
+      events.push({ caseId, activity: COMPLETION_ACTIVITIES[0], timestamp: new Date(completedAt) })
+    }
+  }
+
+  return events
+}
+
+/**
+ * Mines the organization's lead → quote → project funnel; null while there
+ * is no history to mine
+ */
+export function mineFunnel(
+  leads: Lead[],
+  quotes: CPQQuote[],
+  projects: Project[],
+  now: Date = new Date()
+): ProcessMiningResult | null {
+  const events = funnelEventLog(leads, quotes, projects).filter((e) => e.timestamp <= now)
+  if (events.length === 0) return null
+
+  return new ProcessMiner().mine(events, {
+    flowId: FUNNEL_FLOW_ID,
+    flowName: 'Lead → Cotización → Proyecto',
+    stages: funnelStages(projects),
+    completionActivities: COMPLETION_ACTIVITIES,
+    exitActivities: EXIT_ACTIVITIES,
+    staleAfterDays: STALE_AFTER_DAYS,
+    observedUntil: now
+  })
+}
@@ -0,0 +1,523 @@
+/**
+ * SpendPlan request parsing and defaults
+ * Converts the JSON body of /api/predictor/spendplan into SGP inputs
+ */
+
+import {
+  GuardrailsValidator,
+  RampScheduler,
+  SpendOptimizer,
+  type BindingConstraint,
+  type BusinessConstraints,
+  type ChannelPerformance,
+  type DateRange,
+  type GuardrailViolation,
+  type InfeasibilityCertificate,
+  type MarketingChannel,
+  type OptimizationObjective,
+  type RampSchedule,
+  type ScheduleGranularity,
+  type SpendConstraints,
+  type SpendPlan
+} from '@prime-growth-os/sgp'
+import { isObject, type Fields } from '@/lib/fields'
+
+type SerializedDateRange = { start: string; end: string }
+
+export type SerializedConstraints = Omit<
+  BusinessConstraints,
+  'platformMinimums' | 'platformMaximums'
+> & {
+  platformMinimums?: Record<string, number>
+  platformMaximums?: Record<string, number>
+}
+
+export type SpendPlanRequest = {
+  totalBudget?: number
+  period?: SerializedDateRange
+  current?: Record<string, number>
+  channels?: MarketingChannel[]
+  history?: Array<Omit<ChannelPerformance, 'period'> & { period: SerializedDateRange }>
+  constraints?: Partial<SerializedConstraints>
+  spendConstraints?: {
+    minSpend?: Record<string, number>
+    maxSpend?: Record<string, number>
+    mandatoryChannels?: string[]
+    excludedChannels?: string[]
+  }
+  objective?: OptimizationObjective
+  dayOfMonth?: number
+  marginRate?: number
+  seed?: number  // Replays a stored plan's Monte Carlo run
+}
+
+// Gross margin applied to modeled revenue, same assumption the guardrails use
+export const DEFAULT_MARGIN_RATE = 0.25
+
+const OBJECTIVES: OptimizationObjective[] = [
+  'maximize_roi',
+  'maximize_volume',
+  'minimize_cac',
+  'balanced_growth'
+]
+
+// Sample Cuarzo channel book, used when the client sends neither channels nor
+// current spend; plans built on it are flagged as demo output
+const DEFAULT_CURRENT_SPEND: Record<string, number> = {
+  'Google Ads': 15000,
+  'LinkedIn': 8000,
+  'Facebook': 12000,
+  'SEO': 5000,
+  'Email': 3000,
+  'Referidos': 7000
+}
+
+const DEFAULT_CHANNEL_PROFILES: Record<string, Pick<MarketingChannel, 'type' | 'currentROI' | 'incrementalCAC'>> = {
+  'Google Ads': { type: 'paid', currentROI: 4.2, incrementalCAC: 9500 },
+  'LinkedIn': { type: 'paid', currentROI: 6.1, incrementalCAC: 7800 },
+  'Facebook': { type: 'paid', currentROI: 3.1, incrementalCAC: 11200 },
+  'SEO': { type: 'owned', currentROI: 7.4, incrementalCAC: 4200 },
+  'Email': { type: 'owned', currentROI: 8.0, incrementalCAC: 2600 },
+  'Referidos': { type: 'earned', currentROI: 9.5, incrementalCAC: 3100 }
+}
+
+export const DEFAULT_CONSTRAINTS: BusinessConstraints = {
+  maxDailyCapacity: {
+    cpqProposals: 3,
+    meetings: 4,
+    implementations: 6
+  },
+  maxChannelChangeRate: 0.3,
+  minChannelStability: 7,
+  monthlyPacing: 'linear',
+  platformMinimums: new Map([
+    ['Google Ads', 2000],
+    ['LinkedIn', 2000],
+    ['Facebook', 2000]
+  ]),
+  maxChannelConcentration: 0.5,
+  minActiveChannels: 3,
+  diversityRatio: 0.05
+}
+
+function toId(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+function toMap(record?: Record<string, number>): Map<string, number> | undefined {
+  return record ? new Map(Object.entries(record)) : undefined
+}
+
+/**
+ * Builds a channel definition from its current spend when no profile is supplied
+ */
+function buildChannel(name: string, currentSpend: number): MarketingChannel {
+  const profile = DEFAULT_CHANNEL_PROFILES[name] || { type: 'paid', currentROI: 3, incrementalCAC: 10000 }
+
+  return {
+    id: toId(name),
+    name,
+    ...profile,
+    currentSpend,
+    saturationPoint: currentSpend * 1.8,
+    minEffectiveSpend: currentSpend * 0.25,
+    maxRecommendedSpend: currentSpend * 2.5,
+    attributionModel: 'data_driven'
+  }
+}
+
+/**
+ * Resolves the channels to optimize, preferring the ones sent by the client
+ */
+export function parseChannels(body: SpendPlanRequest): MarketingChannel[] {
+  if (body.channels && body.channels.length > 0) {
+    return body.channels
+  }
+
+  const current = body.current || DEFAULT_CURRENT_SPEND
+  return Object.entries(current).map(([name, spend]) => buildChannel(name, spend))
+}
+
+/**
+ * Current spend by channel name, as the guardrails expect it
+ */
+export function parseCurrentSpend(channels: MarketingChannel[]): Map<string, number> {
+  return new Map(channels.map((channel) => [channel.name, channel.currentSpend]))
+}
+
+export function parseHistory(body: SpendPlanRequest): ChannelPerformance[] {
+  return (body.history || []).map((entry) => ({
+    ...entry,
+    period: parseDateRange(entry.period)
+  }))
+}
+
+export function parseDateRange(range?: SerializedDateRange): DateRange {
+  if (range) {
+    return { start: new Date(range.start), end: new Date(range.end) }
+  }
+
+  // Default to the current calendar month
+  const now = new Date()
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 0)
+  }
+}
+
+export function parseConstraints(body: SpendPlanRequest): BusinessConstraints {
+  const { platformMinimums, platformMaximums, ...rest } = body.constraints || {}
+
+  return {
+    ...DEFAULT_CONSTRAINTS,
+    ...rest,
+    maxDailyCapacity: { ...DEFAULT_CONSTRAINTS.maxDailyCapacity, ...rest.maxDailyCapacity },
+    platformMinimums: toMap(platformMinimums) || DEFAULT_CONSTRAINTS.platformMinimums,
+    platformMaximums: toMap(platformMaximums) || DEFAULT_CONSTRAINTS.platformMaximums
+  }
+}
+
+export function parseSpendConstraints(body: SpendPlanRequest): SpendConstraints {
+  const input = body.spendConstraints || {}
+
+  return {
+    minSpend: toMap(input.minSpend),
+    maxSpend: toMap(input.maxSpend),
+    mandatoryChannels: input.mandatoryChannels,
+    excludedChannels: input.excludedChannels
+  }
+}
+
+export function parseObjective(body: SpendPlanRequest): OptimizationObjective {
+  return body.objective && OBJECTIVES.includes(body.objective) ? body.objective : 'balanced_growth'
+}
+
+/**
+ * Monte Carlo seeds are unsigned 32-bit integers; anything else draws a fresh seed
+ */
+export function parseSeed(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 0xffffffff
+    ? value
+    : undefined
+}
+
+const CHANNEL_TYPES: MarketingChannel['type'][] = ['paid', 'owned', 'earned']
+const ATTRIBUTION_MODELS: MarketingChannel['attributionModel'][] = ['last_touch', 'first_touch', 'linear', 'decay', 'data_driven']
+const PACING: BusinessConstraints['monthlyPacing'][] = ['linear', 'front_loaded', 'back_loaded']
+
+const isAmount = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value >= 0
+const isName = (value: unknown): value is string => typeof value === 'string' && value.trim().length > 0
+
+function checkAmounts(value: unknown, field: string): string | null {
+  if (value === undefined) return null
+  if (!isObject(value)) return `${field} must be an object of amounts by channel`
+  const bad = Object.entries(value).find(([, amount]) => !isAmount(amount))
+  return bad ? `${field}.${bad[0]} must be zero or more` : null
+}
+
+function checkNames(value: unknown, field: string): string | null {
+  if (value === undefined) return null
+  return Array.isArray(value) && value.every(isName) ? null : `${field} must be a list of channel ids`
+}
+
+export function checkDateRange(value: unknown, field: string): string | null {
+  if (value === undefined) return null
+  if (!isObject(value) || typeof value.start !== 'string' || typeof value.end !== 'string') {
+    return `${field} needs start and end dates`
+  }
+  const start = new Date(value.start)
+  const end = new Date(value.end)
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return `${field} has an invalid date`
+  return start <= end ? null : `${field} ends before it starts`
+}
+
+function checkChannel(value: unknown, index: number): string | null {
+  const field = `channels[${index}]`
+  if (!isObject(value)) return `${field} must be an object`
+  if (!isName(value.id) || !isName(value.name)) return `${field} needs an id and a name`
+  if (!CHANNEL_TYPES.includes(value.type as MarketingChannel['type'])) return `${field}.type must be one of: ${CHANNEL_TYPES.join(', ')}`
+  if (!ATTRIBUTION_MODELS.includes(value.attributionModel as MarketingChannel['attributionModel'])) {
+    return `${field}.attributionModel must be one of: ${ATTRIBUTION_MODELS.join(', ')}`
+  }
+  for (const key of ['currentSpend', 'currentROI', 'saturationPoint', 'minEffectiveSpend', 'maxRecommendedSpend', 'incrementalCAC']) {
+    if (!isAmount(value[key])) return `${field}.${key} must be zero or more`
+  }
+  return null
+}
+
+function checkHistory(value: unknown, index: number): string | null {
+  const field = `history[${index}]`
+  if (!isObject(value)) return `${field} must be an object`
+  if (!isName(value.channelId)) return `${field} needs a channelId`
+  for (const key of ['spend', 'impressions', 'clicks', 'leads', 'conversions', 'revenue']) {
+    if (!isAmount(value[key])) return `${field}.${key} must be zero or more`
+  }
+  return checkDateRange(value.period, `${field}.period`) ?? (value.period === undefined ? `${field} needs a period` : null)
+}
+
+function checkConstraints(value: unknown): string | null {
+  if (value === undefined) return null
+  if (!isObject(value)) return 'constraints must be an object'
+
+  if (value.maxDailyCapacity !== undefined) {
+    if (!isObject(value.maxDailyCapacity)) return 'constraints.maxDailyCapacity must be an object'
+    for (const key of ['cpqProposals', 'meetings', 'implementations']) {
+      const capacity = value.maxDailyCapacity[key]
+      if (capacity !== undefined && !isAmount(capacity)) return `constraints.maxDailyCapacity.${key} must be zero or more`
+    }
+  }
+  if (value.maxChannelChangeRate !== undefined && !(isAmount(value.maxChannelChangeRate) && value.maxChannelChangeRate > 0)) {
+    return 'constraints.maxChannelChangeRate must be a positive share'
+  }
+  if (value.minChannelStability !== undefined && !(Number.isInteger(value.minChannelStability) && isAmount(value.minChannelStability))) {
+    return 'constraints.minChannelStability must be a whole number of days'
+  }
+  if (value.monthlyPacing !== undefined && !PACING.includes(value.monthlyPacing as BusinessConstraints['monthlyPacing'])) {
+    return `constraints.monthlyPacing must be one of: ${PACING.join(', ')}`
+  }
+  if (value.weeklySpendTargets !== undefined && !(Array.isArray(value.weeklySpendTargets) && value.weeklySpendTargets.every(isAmount))) {
+    return 'constraints.weeklySpendTargets must be a list of amounts'
+  }
+  if (value.maxChannelConcentration !== undefined && !(isAmount(value.maxChannelConcentration) && value.maxChannelConcentration > 0 && value.maxChannelConcentration <= 1)) {
+    return 'constraints.maxChannelConcentration must be a share between 0 and 1'
+  }
+  if (value.diversityRatio !== undefined && !(isAmount(value.diversityRatio) && value.diversityRatio < 1)) {
+    return 'constraints.diversityRatio must be a share below 1'
+  }
+  if (value.minActiveChannels !== undefined && !(Number.isInteger(value.minActiveChannels) && isAmount(value.minActiveChannels))) {
+    return 'constraints.minActiveChannels must be a whole number'
+  }
+  return checkAmounts(value.platformMinimums, 'constraints.platformMinimums') ??
+    checkAmounts(value.platformMaximums, 'constraints.platformMaximums')
+}
+
+/**
+ * Checks a request body before it reaches the optimizer; a string is the
+ * first problem found
+ */
+export function parseSpendPlanRequest(body: unknown): SpendPlanRequest | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  if (body.totalBudget !== undefined && !(isAmount(body.totalBudget) && body.totalBudget > 0)) {
+    return 'totalBudget must be a positive number'
+  }
+  const periodError = checkDateRange(body.period, 'period')
+  if (periodError) return periodError
+
+  const currentError = checkAmounts(body.current, 'current')
+  if (currentError) return currentError
+  if (isObject(body.current) && Object.keys(body.current).length === 0) return 'current must list at least one channel'
+
+  if (body.channels !== undefined) {
+    if (!Array.isArray(body.channels)) return 'channels must be an array'
+    for (const [index, channel] of body.channels.entries()) {
+      const error = checkChannel(channel, index)
+      if (error) return error
+    }
+    const names = body.channels.map((c: MarketingChannel) => c.name)
+    if (new Set(names).size !== names.length) return 'Channel names must be unique'
+  }
+
+  if (body.history !== undefined) {
+    if (!Array.isArray(body.history)) return 'history must be an array'
+    for (const [index, entry] of body.history.entries()) {
+      const error = checkHistory(entry, index)
+      if (error) return error
+    }
+  }
+
+  const constraintsError = checkConstraints(body.constraints)
+  if (constraintsError) return constraintsError
+
+  const spendConstraints = body.spendConstraints
+  if (spendConstraints !== undefined) {
+    if (!isObject(spendConstraints)) return 'spendConstraints must be an object'
+    const error = checkAmounts(spendConstraints.minSpend, 'spendConstraints.minSpend') ??
+      checkAmounts(spendConstraints.maxSpend, 'spendConstraints.maxSpend') ??
+      checkNames(spendConstraints.mandatoryChannels, 'spendConstraints.mandatoryChannels') ??
+      checkNames(spendConstraints.excludedChannels, 'spendConstraints.excludedChannels')
+    if (error) return error
+  }
+
+  if (body.objective !== undefined && !OBJECTIVES.includes(body.objective as OptimizationObjective)) {
+    return `objective must be one of: ${OBJECTIVES.join(', ')}`
+  }
+  if (body.dayOfMonth !== undefined && !(Number.isInteger(body.dayOfMonth) && isAmount(body.dayOfMonth) && body.dayOfMonth >= 1 && body.dayOfMonth <= 31)) {
+    return 'dayOfMonth must be a day between 1 and 31'
+  }
+  if (body.marginRate !== undefined && !(isAmount(body.marginRate) && body.marginRate <= 1)) {
+    return 'marginRate must be a share between 0 and 1'
+  }
+
+  return {
+    totalBudget: body.totalBudget,
+    period: body.period,
+    current: body.current,
+    channels: body.channels,
+    history: body.history,
+    constraints: body.constraints,
+    spendConstraints: body.spendConstraints,
+    objective: body.objective,
+    dayOfMonth: body.dayOfMonth,
+    marginRate: body.marginRate,
+    seed: parseSeed(body.seed)
+  } as SpendPlanRequest
+}
+
+/**
+ * True when the request carries no channels or current spend of its own, so
+ * the plan runs on the sample Cuarzo channel book
+ */
+export function usesDemoChannels(body: SpendPlanRequest): boolean {
+  return !(body.channels && body.channels.length > 0) && !body.current
+}
+
+/**
+ * Solves the plan with the guardrails as hard constraints. When no plan can
+ * satisfy them, returns the unconstrained plan, the guardrail-adjusted version
+ * of it to act on, and the certificate naming the constraints that clash.
+ * `valid` and `violations` describe the plan to act on.
+ */
+export function generateSpendPlan(body: SpendPlanRequest): {
+  channels: MarketingChannel[]
+  plan: SpendPlan
+  adjustedPlan: SpendPlan | null
+  valid: boolean
+  violations: GuardrailViolation[]
+  binding: BindingConstraint[]
+  unspentBudget: number
+  certificate: InfeasibilityCertificate | null
+  demo: boolean
+} {
+  const channels = parseChannels(body)
+  const currentSpend = parseCurrentSpend(channels)
+  const totalBudget = body.totalBudget || channels.reduce((sum, c) => sum + c.currentSpend, 0)
+  const constraints = parseConstraints(body)
+  const params = {
+    totalBudget,
+    period: parseDateRange(body.period),
+    channels,
+    historicalPerformance: parseHistory(body),
+    constraints: parseSpendConstraints(body),
+    objectives: parseObjective(body),
+    seed: parseSeed(body.seed)
+  }
+
+  const optimizer = new SpendOptimizer()
+  const validator = new GuardrailsValidator(constraints)
+  const dayOfMonth = body.dayOfMonth ?? new Date().getDate()
+  const demo = usesDemoChannels(body)
+  const result = optimizer.optimizeWithinGuardrails({ ...params, guardrails: constraints, currentSpend })
+
+  if (result.feasible) {
+    const { valid, violations } = validator.validateSpendPlan(result.plan, currentSpend, dayOfMonth)
+    return {
+      channels,
+      plan: result.plan,
+      adjustedPlan: null,
+      valid,
+      violations,
+      binding: result.binding,
+      unspentBudget: result.unspentBudget,
+      certificate: null,
+      demo
+    }
+  }
+
+  // Best effort: the unconstrained optimum pulled back to the platform minimums and concentration cap
+  const plan = optimizer.optimizeSpend(params)
+  const adjustedPlan = validator.validateSpendPlan(plan, currentSpend, dayOfMonth).adjustedPlan || null
+  const { valid, violations } = validator.validateSpendPlan(adjustedPlan || plan, currentSpend, dayOfMonth)
+
+  return { channels, plan, adjustedPlan, valid, violations, binding: [], unspentBudget: 0, certificate: result.certificate, demo }
+}
+
+// Longest transition the schedule endpoint lays out, in days
+export const MAX_SCHEDULE_DAYS = 180
+
+const GRANULARITIES: ScheduleGranularity[] = ['day', 'week']
+
+export type RampScheduleRequest = SpendPlanRequest & {
+  target?: Record<string, number>  // Run rates to ramp to instead of the plan's, by channel name
+  startDate?: string
+  granularity?: ScheduleGranularity
+  days?: number
+}
+
+/**
+ * Checks a schedule request: the spend plan fields plus target, startDate,
+ * granularity and days; a string is the first problem found
+ */
+export function parseRampScheduleRequest(body: unknown): RampScheduleRequest | string {
+  const request = parseSpendPlanRequest(body)
+  if (typeof request === 'string') return request
+  const fields = body as Fields
+
+  const targetError = checkAmounts(fields.target, 'target')
+  if (targetError) return targetError
+  if (fields.startDate !== undefined && (typeof fields.startDate !== 'string' || Number.isNaN(new Date(fields.startDate).getTime()))) {
+    return 'startDate must be a valid date'
+  }
+  if (fields.granularity !== undefined && !GRANULARITIES.includes(fields.granularity as ScheduleGranularity)) {
+    return `granularity must be one of: ${GRANULARITIES.join(', ')}`
+  }
+  if (fields.days !== undefined && !(Number.isInteger(fields.days) && isAmount(fields.days) && fields.days >= 1 && fields.days <= MAX_SCHEDULE_DAYS)) {
+    return `days must be an integer between 1 and ${MAX_SCHEDULE_DAYS}`
+  }
+
+  return {
+    ...request,
+    target: fields.target as Record<string, number> | undefined,
+    startDate: fields.startDate as string | undefined,
+    granularity: fields.granularity as ScheduleGranularity | undefined,
+    days: fields.days as number | undefined
+  }
+}
+
+/**
+ * Ramp schedule from current spend to the request's plan, or to explicit
+ * targets for some channels, under the request's guardrails. Transitions
+ * longer than MAX_SCHEDULE_DAYS are refused before any day is laid out.
+ */
+export function generateRampSchedule(body: RampScheduleRequest): RampSchedule | string {
+  const constraints = parseConstraints(body)
+  if (constraints.maxChannelChangeRate <= 0) return 'maxChannelChangeRate must be positive to ramp spend'
+
+  const { channels, plan: solved, adjustedPlan } = generateSpendPlan(body)
+  const plan = adjustedPlan || solved
+  const names = channels.map((c) => c.name)
+  const unknown = Object.keys(body.target || {}).find((name) => !names.includes(name))
+  if (unknown) return `Unknown channel in target: ${unknown}`
+
+  const target: SpendPlan = {
+    ...plan,
+    allocations: plan.allocations.map((a) => {
+      const amount = body.target?.[a.channel.name]
+      if (amount === undefined) return a
+      // Same cost per lead as the plan gives the channel
+      const costPerLead = a.expectedLeads > 0 ? a.recommendedAmount / a.expectedLeads : 0
+      return { ...a, recommendedAmount: amount, expectedLeads: costPerLead > 0 ? amount / costPerLead : 0 }
+    })
+  }
+
+  const scheduler = new RampScheduler(constraints)
+  const currentSpend = parseCurrentSpend(channels)
+  const transitionDays = scheduler.transitionDays(
+    currentSpend,
+    new Map(target.allocations.map((a) => [a.channel.name, a.recommendedAmount]))
+  )
+  if (transitionDays > MAX_SCHEDULE_DAYS) {
+    return `The transition takes ${transitionDays} days; longer than ${MAX_SCHEDULE_DAYS} cannot be scheduled`
+  }
+
+  return scheduler.scheduleFromPlan(target, currentSpend, {
+    start: body.startDate ? new Date(body.startDate) : new Date(),
+    granularity: body.granularity ?? 'day',
+    days: body.days
+  })
+}
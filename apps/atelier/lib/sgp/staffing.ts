@@ -0,0 +1,129 @@
+/**
+ * Funnel staffing inputs
+ * Who works each mined stage, for the queueing model behind bottleneck
+ * scores and hire paybacks, the "add one more" scenario to run and the
+ * fixes to replay in the process simulator
+ */
+
+import type { StageChange, StageStaffing } from '@prime-growth-os/sgp'
+import { isObject } from '@/lib/fields'
+
+// Role named in hire recommendations when the request does not give one
+export const STAGE_ROLES: Record<string, string> = {
+  'primer-contacto': 'sales development rep',
+  calificacion: 'sales executive',
+  cotizacion: 'CPQ specialist',
+  negociacion: 'account executive',
+  arranque: 'project coordinator'
+}
+
+// Simulations run in the request; keep them short
+export const MAX_SIMULATED_WEEKS = 104
+export const MAX_SIMULATION_RUNS = 50
+
+export type StaffingRequest = {
+  staffing: StageStaffing[]
+  scenario: { stageId: string; addServers: number } | null
+}
+
+const isPositive = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value) && value > 0
+const isWholeNumber = (value: unknown, min: number): value is number => Number.isInteger(value) && (value as number) >= min
+
+export function parseStaffingRequest(body: unknown): StaffingRequest | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const items = body.staffing ?? []
+  if (!Array.isArray(items)) return 'staffing must be an array'
+
+  const staffing: StageStaffing[] = []
+  for (const item of items) {
+    if (!item || typeof item.stageId !== 'string' || !item.stageId) return 'Each staffing entry needs a stageId'
+    if (staffing.some((s) => s.stageId === item.stageId)) return `${item.stageId} is staffed twice`
+    if (!Number.isInteger(item.servers) || item.servers < 1) return `${item.stageId}: servers must be a positive integer`
+    if (!isPositive(item.hoursPerDay) || item.hoursPerDay > 24) return `${item.stageId}: hoursPerDay must be between 0 and 24`
+    if (item.skill !== undefined && typeof item.skill !== 'string') return `${item.stageId}: skill must be a string`
+    for (const key of ['productivity', 'serviceHours', 'daysPerMonth'] as const) {
+      if (item[key] !== undefined && !isPositive(item[key])) return `${item.stageId}: ${key} must be a positive number`
+    }
+    if (item.monthlyCostPerServer !== undefined && !(isPositive(item.monthlyCostPerServer) || item.monthlyCostPerServer === 0)) {
+      return `${item.stageId}: monthlyCostPerServer must be zero or more`
+    }
+
+    staffing.push({
+      stageId: item.stageId,
+      servers: item.servers,
+      hoursPerDay: item.hoursPerDay,
+      skill: item.skill?.trim() || STAGE_ROLES[item.stageId],
+      productivity: item.productivity,
+      serviceHours: item.serviceHours,
+      daysPerMonth: item.daysPerMonth,
+      monthlyCostPerServer: item.monthlyCostPerServer
+    })
+  }
+
+  const scenario = body.scenario ?? null
+  if (scenario !== null) {
+    if (!isObject(scenario) || typeof scenario.stageId !== 'string' || !scenario.stageId) return 'scenario.stageId is required'
+    const addServers = scenario.addServers ?? 1
+    if (!isWholeNumber(addServers, 1)) return 'scenario.addServers must be a positive integer'
+    return { staffing, scenario: { stageId: scenario.stageId, addServers } }
+  }
+
+  return { staffing, scenario: null }
+}
+
+export type SimulationRequest = {
+  staffing: StageStaffing[]
+  changes: StageChange[]
+  weeks?: number
+  runs?: number
+  seed?: number
+}
+
+const isRate = (value: unknown) => typeof value === 'number' && value >= 0 && value < 1
+
+/**
+ * Staffing plus the fix to test: people added, faster hands-on work, or new
+ * rework and drop-off rates per stage
+ */
+export function parseSimulationRequest(body: unknown): SimulationRequest | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const base = parseStaffingRequest({ staffing: body.staffing })
+  if (typeof base === 'string') return base
+
+  const changes = body.changes
+  if (!Array.isArray(changes) || changes.length === 0) return 'changes must list at least one stage change'
+  for (const change of changes) {
+    if (!change || typeof change.stageId !== 'string' || !change.stageId) return 'Each change needs a stageId'
+    if (change.addServers !== undefined && (!Number.isInteger(change.addServers) || change.addServers < 0)) {
+      return `${change.stageId}: addServers must be a non-negative integer`
+    }
+    if (change.serviceTimeFactor !== undefined && !isPositive(change.serviceTimeFactor)) {
+      return `${change.stageId}: serviceTimeFactor must be a positive number`
+    }
+    if (change.reworkRate !== undefined && !isRate(change.reworkRate)) return `${change.stageId}: reworkRate must be between 0 and 1`
+    if (change.dropOffRate !== undefined && !isRate(change.dropOffRate)) return `${change.stageId}: dropOffRate must be between 0 and 1`
+  }
+
+  const { weeks, runs, seed } = body
+  if (weeks !== undefined && !isWholeNumber(weeks, 1)) return 'weeks must be a positive integer'
+  if (runs !== undefined && !isWholeNumber(runs, 1)) return 'runs must be a positive integer'
+  if (weeks !== undefined && weeks > MAX_SIMULATED_WEEKS) return `weeks must be at most ${MAX_SIMULATED_WEEKS}`
+  if (runs !== undefined && runs > MAX_SIMULATION_RUNS) return `runs must be at most ${MAX_SIMULATION_RUNS}`
+  if (seed !== undefined && !isWholeNumber(seed, 0)) return 'seed must be a non-negative integer'
+
+  return {
+    staffing: base.staffing,
+    changes: changes.map((c: StageChange) => ({
+      stageId: c.stageId,
+      addServers: c.addServers,
+      serviceTimeFactor: c.serviceTimeFactor,
+      reworkRate: c.reworkRate,
+      dropOffRate: c.dropOffRate
+    })),
+    weeks,
+    runs,
+    seed
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Win probability inputs and scoring
+ * Builds training outcomes from closed leads and decided quotes, trains
+ * WinProbabilityModel and scores the open pipeline, with its model card and drift check
+ */
+
+import {
+  ModelCardManager,
+  WinProbabilityModel,
+  toDriftSnapshots,
+  type DealFeatures,
+  type DealOutcome,
+  type DealScore,
+  type DriftAlert,
+  type ModelCard
+} from '@prime-growth-os/sgp'
+import type { CPQQuote, Lead } from '@prime-growth-os/types'
+import { isQuoteExpired } from '@/lib/quotes/rules'
+
+export type PipelineScores = {
+  trained: boolean
+  reason: string | null
+  card: ModelCard | null
+  report: string | null
+  driftAlerts: DriftAlert[]
+  leads: Record<string, DealScore>
+  quotes: Record<string, DealScore>
+}
+
+const OPEN_QUOTE_STATUSES: CPQQuote['status'][] = ['borrador', 'pendiente_aprobacion', 'enviada']
+
+export function dealFeatures(lead: Lead, quote: CPQQuote | null, observedAt: Date): DealFeatures {
+  return {
+    id: quote ? quote.id : lead.id,
+    source: lead.source,
+    projectType: lead.projectType,
+    budget: lead.budget,
+    slaHours: lead.slaHours,
+    tier: quote?.tier ?? null,
+    totalPrice: quote?.totalPrice ?? null,
+    customizationCount: quote?.customizations.length ?? 0,
+    discountPercent: quote?.pricing.discountPercentage ?? 0,
+    value: quote ? quote.totalPrice : lead.budget,
+    observedAt
+  }
+}
+
+/**
+ * Accepted quotes are wins; rejected and expired quotes are losses. Closed
+ * leads that never had a decided quote count once, on their lead data.
+ */
+export function trainingOutcomes(leads: Lead[], quotes: CPQQuote[], now: Date = new Date()): DealOutcome[] {
+  const leadsById = new Map(leads.map((lead) => [lead.id, lead]))
+  const outcomes: DealOutcome[] = []
+  const quoted = new Set<string>()
+
+  for (const quote of quotes) {
+    const lead = leadsById.get(quote.leadId)
+    const expired = isQuoteExpired(quote, now)
+    if (!lead || (quote.status !== 'aceptada' && quote.status !== 'rechazada' && !expired)) continue
+
+    quoted.add(lead.id)
+    const observedAt = new Date(quote.decidedAt || quote.validUntil)
+    outcomes.push({ ...dealFeatures(lead, quote, observedAt), won: quote.status === 'aceptada' })
+  }
+
+  for (const lead of leads) {
+    if ((lead.status !== 'ganado' && lead.status !== 'perdido') || quoted.has(lead.id)) continue
+    outcomes.push({ ...dealFeatures(lead, null, new Date(lead.statusChangedAt)), won: lead.status === 'ganado' })
+  }
+
+  return outcomes
+}
+
+function latestOpenQuote(quotes: CPQQuote[], now: Date): CPQQuote | null {
+  return quotes
+    .filter((q) => OPEN_QUOTE_STATUSES.includes(q.status) && !isQuoteExpired(q, now))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0] || null
+}
+
+/**
+ * Scores every open lead (with its latest open quote, if any) and every open
+ * quote. Without enough closed deals the model is not trained and `reason` says why.
+ */
+export function scorePipeline(leads: Lead[], quotes: CPQQuote[], now: Date = new Date()): PipelineScores {
+  const outcomes = trainingOutcomes(leads, quotes, now)
+  const model = new WinProbabilityModel()
+  const reason = model.checkTrainingData(outcomes)
+  const empty = { card: null, report: null, driftAlerts: [], leads: {}, quotes: {} }
+  if (reason) return { trained: false, reason, ...empty }
+
+  const summary = model.train(outcomes)
+  const quotesByLead = new Map<string, CPQQuote[]>()
+  for (const quote of quotes) {
+    quotesByLead.set(quote.leadId, [...(quotesByLead.get(quote.leadId) || []), quote])
+  }
+
+  const openDeals: DealFeatures[] = []
+  const leadScores: Record<string, DealScore> = {}
+  const quoteScores: Record<string, DealScore> = {}
+
+  for (const lead of leads) {
+    if (lead.status === 'ganado' || lead.status === 'perdido') continue
+    const leadQuotes = quotesByLead.get(lead.id) || []
+
+    const deal = dealFeatures(lead, latestOpenQuote(leadQuotes, now), now)
+    leadScores[lead.id] = { ...model.score(deal), id: lead.id }
+    openDeals.push(deal)
+
+    for (const quote of leadQuotes) {
+      if (!OPEN_QUOTE_STATUSES.includes(quote.status) || isQuoteExpired(quote, now)) continue
+      quoteScores[quote.id] = model.score(dealFeatures(lead, quote, now))
+    }
+  }
+
+  // The open pipeline goes last, so monitorDrift compares it with the training deals
+  const manager = new ModelCardManager()
+  const card = manager.createWinProbabilityCard(summary)
+  const driftAlerts = manager.monitorDrift(
+    card.id,
+    toDriftSnapshots([...outcomes, ...openDeals]),
+    [...model.getTrainingPredictions(), ...Object.values(leadScores).map((s) => s.probability)]
+  )
+
+  return {
+    trained: true,
+    reason: null,
+    card,
+    report: manager.generateReport(card.id),
+    driftAlerts,
+    leads: leadScores,
+    quotes: quoteScores
+  }
+}
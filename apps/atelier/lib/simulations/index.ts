@@ -0,0 +1,173 @@
+/**
+ * Server-side simulation library
+ * Saved As-Is / To-Be scenarios shared by every member of an organization
+ */
+
+import path from 'path'
+import type { ScenarioType, Simulation, SimulationData } from '@prime-growth-os/types'
+import { getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { MemorySimulationStore, FileSimulationStore, type SimulationStore } from './store'
+import { SupabaseSimulationStore } from './supabase-store'
+
+export type { SimulationStore } from './store'
+
+let memoryStore: MemorySimulationStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getSimulationStore(): SimulationStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseSimulationStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemorySimulationStore()
+      return memoryStore
+    case 'file':
+      return new FileSimulationStore(path.join(process.cwd(), '.data', 'simulations.json'))
+  }
+}
+
+const STEP_FIELDS: Record<keyof SimulationData, string[]> = {
+  step1: ['leadsPerChannel', 'speedToLead', 'showRate', 'appointmentsPerDay'],
+  step2: ['timeToProposal', 'proposalsUnder72h', 'winRate', 'ticketByPackage', 'revisions'],
+  step3: ['activeCapacity', 'otif', 'rework', 'tradesWithPlanB'],
+  step4: ['dso', 'margin', 'advance'],
+  step5: ['budgetByChannel', 'targetLeads', 'maxCapacity']
+}
+
+// Entered as percentages in the wizard
+const PERCENT_FIELDS = ['showRate', 'proposalsUnder72h', 'winRate', 'otif', 'rework', 'margin', 'advance']
+
+const isAmount = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+/**
+ * Checks the wizard payload has every step with non-negative numeric fields,
+ * percentages between 0 and 100
+ */
+export function isSimulationData(value: unknown): value is SimulationData {
+  if (!isObject(value)) return false
+
+  return (Object.keys(STEP_FIELDS) as Array<keyof SimulationData>).every((step) =>
+    STEP_FIELDS[step].every((field) => {
+      const stepValue = value[step]
+      const fieldValue = isObject(stepValue) ? stepValue[field] : undefined
+      if (isObject(fieldValue)) return Object.values(fieldValue).every(isAmount)
+      return isAmount(fieldValue) && (!PERCENT_FIELDS.includes(field) || (fieldValue as number) <= 100)
+    })
+  )
+}
+
+export function isScenarioType(value: unknown): value is ScenarioType {
+  return value === 'baseline' || value === 'tobe'
+}
+
+function newSimulationId(): string {
+  return `sim-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function defaultSimulationName(type: ScenarioType): string {
+  return type === 'baseline' ? 'Cuarzo Hoy (As-Is)' : 'Cuarzo Meta (To-Be)'
+}
+
+export async function createSimulation(
+  store: SimulationStore,
+  context: OrgContext,
+  params: { name?: string; type: ScenarioType; data: SimulationData }
+): Promise<Simulation> {
+  const now = new Date().toISOString()
+  const simulation: Simulation = {
+    id: newSimulationId(),
+    orgId: context.orgId,
+    name: params.name?.trim() || defaultSimulationName(params.type),
+    type: params.type,
+    data: params.data,
+    pairedWith: null,
+    createdBy: context.userId,
+    createdByName: context.userName,
+    createdAt: now,
+    updatedAt: now
+  }
+
+  await store.save(simulation)
+  return simulation
+}
+
+/**
+ * Copies a scenario (unpaired) so it can be edited without touching the original
+ */
+export async function duplicateSimulation(
+  store: SimulationStore,
+  context: OrgContext,
+  source: Simulation
+): Promise<Simulation> {
+  return createSimulation(store, context, {
+    name: `${source.name} (copia)`,
+    type: source.type,
+    data: JSON.parse(JSON.stringify(source.data))
+  })
+}
+
+/**
+ * Reason two scenarios cannot be paired, or null when they can
+ */
+export function validatePair(a: Simulation, b: Simulation): string | null {
+  if (a.id === b.id) return 'A simulation cannot be paired with itself'
+  if (a.type === b.type) return 'Pairs need one baseline and one to-be scenario'
+  return null
+}
+
+async function unpair(store: SimulationStore, simulation: Simulation): Promise<void> {
+  if (!simulation.pairedWith) return
+
+  const partner = await store.get(simulation.orgId, simulation.pairedWith)
+  if (partner && partner.pairedWith === simulation.id) {
+    await store.save({ ...partner, pairedWith: null, updatedAt: new Date().toISOString() })
+  }
+  simulation.pairedWith = null
+}
+
+/**
+ * Links a baseline and a to-be scenario, releasing any previous partners
+ */
+export async function pairSimulations(store: SimulationStore, a: Simulation, b: Simulation): Promise<void> {
+  await unpair(store, a)
+  await unpair(store, b)
+
+  const now = new Date().toISOString()
+  a.pairedWith = b.id
+  b.pairedWith = a.id
+  a.updatedAt = now
+  b.updatedAt = now
+
+  await store.save(a)
+  await store.save(b)
+}
+
+export async function unpairSimulation(store: SimulationStore, simulation: Simulation): Promise<void> {
+  await unpair(store, simulation)
+  simulation.updatedAt = new Date().toISOString()
+  await store.save(simulation)
+}
+
+export async function deleteSimulation(store: SimulationStore, simulation: Simulation): Promise<void> {
+  await unpair(store, simulation)
+  await store.remove(simulation.orgId, simulation.id)
+}
+
+/**
+ * The simulation with its counterpart, ordered as baseline / to-be
+ */
+export async function loadComparison(store: SimulationStore, orgId: string, id: string) {
+  const simulation = await store.get(orgId, id)
+  if (!simulation) return null
+
+  const partner = simulation.pairedWith ? await store.get(orgId, simulation.pairedWith) : null
+
+  return {
+    simulation,
+    baseline: simulation.type === 'baseline' ? simulation : partner,
+    tobe: simulation.type === 'tobe' ? simulation : partner
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * Simulation Storage
+ * Org-scoped persistence for saved As-Is / To-Be scenarios
+ */
+
+import type { Simulation } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type SimulationStore = OrgStore<Simulation>
+
+export class MemorySimulationStore extends MemoryOrgStore<Simulation> {}
+
+export class FileSimulationStore extends FileOrgStore<Simulation> {}
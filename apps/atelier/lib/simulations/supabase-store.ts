@@ -0,0 +1,106 @@
+/**
+ * Supabase Simulation Store
+ * Persists saved scenarios in the simulations table, always filtered by org_id
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Simulation } from '@prime-growth-os/types'
+import type { SimulationStore } from './store'
+
+const TABLE = 'simulations'
+
+type SimulationRow = {
+  id: string
+  org_id: string
+  name: string
+  type: Simulation['type']
+  data: Simulation['data']
+  paired_with: string | null
+  created_by: string
+  created_by_name: string
+  created_at: string
+  updated_at: string
+}
+
+function fromRow(row: SimulationRow): Simulation {
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    name: row.name,
+    type: row.type,
+    data: row.data,
+    pairedWith: row.paired_with,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export class SupabaseSimulationStore implements SimulationStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<Simulation[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load simulations: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<Simulation | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load simulation: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(simulation: Simulation): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: simulation.id,
+      org_id: simulation.orgId,
+      name: simulation.name,
+      type: simulation.type,
+      data: simulation.data,
+      paired_with: simulation.pairedWith,
+      created_by: simulation.createdBy,
+      created_by_name: simulation.createdByName,
+      created_at: simulation.createdAt,
+      updated_at: simulation.updatedAt
+    })
+
+    if (error) {
+      throw new Error(`Failed to save simulation: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete simulation: ${error.message}`)
+    }
+  }
+}
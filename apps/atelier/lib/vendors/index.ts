@@ -0,0 +1,328 @@
+/**
+ * Server-side vendor library
+ * Org-scoped vendors with their purchase orders and delivery records; the
+ * scorecard and the automatic move to evaluation come from ./rules
+ */
+
+import path from 'path'
+import type { DeliveryRecord, PurchaseOrder, Vendor } from '@prime-growth-os/types'
+import { getAuditLogger, getStoreMode } from '@/lib/audit'
+import { isObject } from '@/lib/fields'
+import type { OrgContext } from '@/lib/org-context'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { VENDOR_STATUSES, computeScorecard, deliveredQuantity, refreshVendor } from './rules'
+import { MemoryVendorStore, FileVendorStore, type VendorStore } from './store'
+import { SupabaseVendorStore } from './supabase-store'
+
+export type { VendorStore } from './store'
+
+let memoryStore: MemoryVendorStore | null = null
+
+// Factory function to create the configured store (same backend as the audit log)
+export function getVendorStore(): VendorStore {
+  switch (getStoreMode()) {
+    case 'supabase':
+      return new SupabaseVendorStore(createAdminClient())
+    case 'memory':
+      if (!memoryStore) memoryStore = new MemoryVendorStore()
+      return memoryStore
+    case 'file':
+      return new FileVendorStore(path.join(process.cwd(), '.data', 'vendors.json'))
+  }
+}
+
+// Fields the client may set on create or update; scores and order stats are computed
+export type VendorInput = Partial<Pick<Vendor, 'name' | 'category' | 'contactPerson' | 'email' | 'phone' | 'certifications' | 'status' | 'statusReason'>>
+
+export type OrderInput = Partial<Pick<
+  PurchaseOrder,
+  'projectId' | 'description' | 'quotedAmount' | 'invoicedAmount' | 'promisedDate' | 'promisedQuantity' | 'acknowledgedAt' | 'status'
+>>
+
+export type DeliveryInput = Pick<DeliveryRecord, 'deliveredAt' | 'quantity' | 'defects' | 'notes'>
+
+const TEXT_FIELDS = ['name', 'category', 'contactPerson', 'email', 'phone', 'statusReason'] as const
+const ORDER_STATUSES: PurchaseOrder['status'][] = ['abierta', 'cerrada', 'cancelada']
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+function isDate(value: unknown): value is string {
+  return typeof value === 'string' && DATE_PATTERN.test(value) && !isNaN(Date.parse(value))
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !isNaN(Date.parse(value))
+}
+
+function isAmount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0
+}
+
+/**
+ * Validates the editable fields of a vendor; returns an error message or the input
+ */
+export function parseVendorInput(body: unknown, options: { requireName?: boolean } = {}): VendorInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: VendorInput = {}
+
+  for (const field of TEXT_FIELDS) {
+    if (body[field] === undefined) continue
+    if (typeof body[field] !== 'string') return `${field} must be a string`
+    input[field] = body[field].trim()
+  }
+
+  if (options.requireName && !input.name) return 'name is required'
+
+  if (body.certifications !== undefined) {
+    if (!Array.isArray(body.certifications) || body.certifications.some((c: unknown) => typeof c !== 'string')) {
+      return 'certifications must be an array of strings'
+    }
+    input.certifications = body.certifications.map((c: string) => c.trim()).filter(Boolean)
+  }
+
+  if (body.status !== undefined) {
+    if (!VENDOR_STATUSES.includes(body.status as Vendor['status'])) return `status must be one of ${VENDOR_STATUSES.join(', ')}`
+    input.status = body.status as Vendor['status']
+  }
+
+  return input
+}
+
+/**
+ * Validates a purchase order (all of description, quotedAmount, promisedDate
+ * and promisedQuantity on create); returns an error message or the input
+ */
+export function parseOrderInput(body: unknown, options: { create?: boolean } = {}): OrderInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+
+  const input: OrderInput = {}
+
+  if (body.description !== undefined) {
+    if (typeof body.description !== 'string') return 'description must be a string'
+    input.description = body.description.trim()
+  }
+  if (options.create && !input.description) return 'description is required'
+
+  if (body.projectId !== undefined) {
+    if (typeof body.projectId !== 'string') return 'projectId must be a string'
+    input.projectId = body.projectId || undefined
+  }
+
+  if (body.quotedAmount !== undefined) {
+    if (!isAmount(body.quotedAmount)) return 'quotedAmount must be a non-negative number'
+    input.quotedAmount = body.quotedAmount
+  } else if (options.create) {
+    return 'quotedAmount is required'
+  }
+
+  if (body.invoicedAmount !== undefined) {
+    if (!isAmount(body.invoicedAmount)) return 'invoicedAmount must be a non-negative number'
+    input.invoicedAmount = body.invoicedAmount
+  }
+
+  if (body.promisedDate !== undefined) {
+    if (!isDate(body.promisedDate)) return 'promisedDate must be a date (YYYY-MM-DD)'
+    input.promisedDate = body.promisedDate
+  } else if (options.create) {
+    return 'promisedDate is required'
+  }
+
+  if (body.promisedQuantity !== undefined) {
+    if (!isPositiveInteger(body.promisedQuantity)) return 'promisedQuantity must be a positive whole number'
+    input.promisedQuantity = body.promisedQuantity
+  } else if (options.create) {
+    return 'promisedQuantity is required'
+  }
+
+  if (body.acknowledgedAt !== undefined) {
+    if (!isTimestamp(body.acknowledgedAt)) return 'acknowledgedAt must be a date or timestamp'
+    input.acknowledgedAt = new Date(body.acknowledgedAt).toISOString()
+  }
+
+  if (body.status !== undefined) {
+    if (!ORDER_STATUSES.includes(body.status as PurchaseOrder['status'])) return `status must be one of ${ORDER_STATUSES.join(', ')}`
+    input.status = body.status as PurchaseOrder['status']
+  }
+
+  return input
+}
+
+/**
+ * Validates a delivery record; returns an error message or the input
+ */
+export function parseDeliveryInput(body: unknown): DeliveryInput | string {
+  if (!isObject(body)) return 'Request body must be an object'
+  if (!isDate(body.deliveredAt)) return 'deliveredAt must be a date (YYYY-MM-DD)'
+  if (!isPositiveInteger(body.quantity)) return 'quantity must be a positive whole number'
+
+  const defects = body.defects ?? 0
+  if (typeof defects !== 'number' || !Number.isInteger(defects) || defects < 0) return 'defects must be a non-negative whole number'
+  if (defects > body.quantity) return 'defects cannot exceed the quantity received'
+  if (body.notes !== undefined && typeof body.notes !== 'string') return 'notes must be a string'
+
+  return { deliveredAt: body.deliveredAt, quantity: body.quantity, defects, notes: (body.notes || '').trim() }
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export async function createVendor(store: VendorStore, context: OrgContext, input: VendorInput): Promise<Vendor> {
+  const now = new Date()
+  const at = now.toISOString()
+  const vendor: Vendor = {
+    id: newId('vendor'),
+    orgId: context.orgId,
+    name: input.name || '',
+    category: input.category || '',
+    contactPerson: input.contactPerson || '',
+    email: input.email || '',
+    phone: input.phone || '',
+    otifScore: null,
+    qualityRating: null,
+    costRating: null,
+    responseTime: null,
+    certifications: input.certifications || [],
+    status: input.status || 'activo',
+    statusReason: input.statusReason || '',
+    statusChangedAt: at,
+    lastDelivery: null,
+    totalOrders: 0,
+    averageOrderValue: 0,
+    orders: [],
+    scorecard: computeScorecard([], now),
+    history: [],
+    createdAt: at,
+    updatedAt: at,
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+  refreshVendor(vendor, now)
+
+  await store.save(vendor)
+  return vendor
+}
+
+/**
+ * Applies edits; a manual status change restarts the evaluation period
+ */
+export function applyVendorInput(vendor: Vendor, input: VendorInput): void {
+  const { status, statusReason, ...fields } = input
+  Object.assign(vendor, fields)
+
+  if (status && status !== vendor.status) {
+    vendor.status = status
+    vendor.statusReason = statusReason ?? ''
+    vendor.statusChangedAt = new Date().toISOString()
+  } else if (statusReason !== undefined) {
+    vendor.statusReason = statusReason
+  }
+}
+
+export function addOrder(vendor: Vendor, input: OrderInput, context: OrgContext): PurchaseOrder {
+  const order: PurchaseOrder = {
+    id: newId('po'),
+    projectId: input.projectId,
+    description: input.description || '',
+    quotedAmount: input.quotedAmount ?? 0,
+    invoicedAmount: input.invoicedAmount,
+    promisedDate: input.promisedDate || new Date().toISOString().slice(0, 10),
+    promisedQuantity: input.promisedQuantity ?? 1,
+    issuedAt: new Date().toISOString(),
+    acknowledgedAt: input.acknowledgedAt,
+    status: input.status || 'abierta',
+    deliveries: [],
+    createdBy: context.userId,
+    createdByName: context.userName
+  }
+  vendor.orders.unshift(order)
+  return order
+}
+
+/**
+ * Edits an order; returns an error message when it does not apply
+ */
+export function updateOrder(vendor: Vendor, orderId: string, input: OrderInput): string | null {
+  const order = vendor.orders.find((o) => o.id === orderId)
+  if (!order) return 'Order not found'
+  if (input.acknowledgedAt && input.acknowledgedAt < order.issuedAt) {
+    return 'acknowledgedAt cannot be before the order was issued'
+  }
+  Object.assign(order, input)
+  return null
+}
+
+/**
+ * Records goods received against an order and closes it once the promised
+ * quantity is in; returns an error message when it does not apply
+ */
+export function recordDelivery(vendor: Vendor, orderId: string, input: DeliveryInput, context: OrgContext): string | null {
+  const order = vendor.orders.find((o) => o.id === orderId)
+  if (!order) return 'Order not found'
+  if (order.status === 'cancelada') return 'Cannot record deliveries on a cancelled order'
+  if (input.deliveredAt < order.issuedAt.slice(0, 10)) return 'deliveredAt cannot be before the order was issued'
+
+  order.deliveries.push({
+    id: newId('delivery'),
+    ...input,
+    recordedBy: context.userId,
+    recordedByName: context.userName,
+    recordedAt: new Date().toISOString()
+  })
+  order.deliveries.sort((a, b) => a.deliveredAt.localeCompare(b.deliveredAt))
+  if (order.status === 'abierta' && deliveredQuantity(order) >= order.promisedQuantity) {
+    order.status = 'cerrada'
+  }
+  return null
+}
+
+// Recorded as the author of status changes nobody made by hand
+const SCORECARD_CHECK = { userId: 'system', userName: 'Scorecard check' }
+
+async function logEvaluation(vendor: Vendor, orgId: string, actor: Pick<OrgContext, 'userId' | 'userName'>): Promise<void> {
+  const logger = await getAuditLogger(orgId)
+  logger.logEvent({
+    userId: actor.userId,
+    userName: actor.userName,
+    action: 'modify',
+    entityType: 'vendor',
+    entityId: vendor.id,
+    entityTitle: `${vendor.name} — en evaluación`,
+    reasoning: vendor.statusReason,
+    modifications: {
+      status: vendor.status,
+      scorecard: vendor.scorecard
+    },
+    tags: ['vendor', 'scorecard']
+  })
+  await logger.flush()
+}
+
+/**
+ * Recalculates the scorecard and saves the vendor, logging to the audit trail
+ * when it was moved to evaluation
+ */
+export async function saveVendor(store: VendorStore, vendor: Vendor, context: OrgContext, now: Date = new Date()): Promise<void> {
+  const breaches = refreshVendor(vendor, now)
+  vendor.updatedAt = now.toISOString()
+  await store.save(vendor)
+  if (breaches.length > 0) await logEvaluation(vendor, context.orgId, context)
+}
+
+/**
+ * Recalculates the scorecards for today. Overdue orders count against a
+ * vendor without anyone touching it, so the ones moved to evaluation are
+ * saved and logged here as the scorecard check, not as whoever is reading.
+ */
+export async function refreshVendors(store: VendorStore, vendors: Vendor[], orgId: string, now: Date = new Date()): Promise<void> {
+  for (const vendor of vendors) {
+    if (refreshVendor(vendor, now).length === 0) continue
+    vendor.updatedAt = now.toISOString()
+    await store.save(vendor)
+    await logEvaluation(vendor, orgId, SCORECARD_CHECK)
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Vendor scorecard rules
+ * OTIF, quality, cost and response time computed from purchase orders and
+ * delivery records over a rolling window, shared by the vendors API and the
+ * /vendors page (no server dependencies)
+ */
+
+import type { PurchaseOrder, Vendor, VendorScorecard } from '@prime-growth-os/types'
+
+export const VENDOR_STATUSES: Vendor['status'][] = ['activo', 'inactivo', 'en_evaluacion']
+
+export const VENDOR_STATUS_LABELS: Record<Vendor['status'], string> = {
+  activo: 'Activo',
+  inactivo: 'Inactivo',
+  en_evaluacion: 'En evaluación'
+}
+
+export const ORDER_STATUS_LABELS: Record<PurchaseOrder['status'], string> = {
+  abierta: 'Abierta',
+  cerrada: 'Cerrada',
+  cancelada: 'Cancelada'
+}
+
+// Rolling window of the current scorecard, and months of trend history
+export const SCORECARD_WINDOW_DAYS = 90
+export const TREND_MONTHS = 6
+
+// An active vendor goes to evaluation when a score drops below these, once
+// enough orders are due to judge it
+export const VENDOR_THRESHOLDS = {
+  otifScore: 85,
+  qualityRating: 3,
+  costRating: 3,
+  minOrders: 3
+}
+
+// Each 2.5 points of defect rate or cost overrun (in %) takes one star off
+const POINTS_PER_STAR = 2.5
+
+const DAY_MS = 1000 * 60 * 60 * 24
+const HOUR_MS = 1000 * 60 * 60
+
+function toDay(value: string | Date): number {
+  const date = new Date(value)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10)
+}
+
+function round1(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+function percent(part: number, total: number): number | null {
+  return total > 0 ? round1((part / total) * 100) : null
+}
+
+function stars(penaltyPoints: number): number {
+  return round1(Math.min(5, Math.max(1, 5 - Math.max(0, penaltyPoints) / POINTS_PER_STAR)))
+}
+
+/**
+ * Units received on or before a day (all of them without one)
+ */
+export function deliveredQuantity(order: PurchaseOrder, through?: string | Date): number {
+  const limit = through === undefined ? Infinity : toDay(through)
+  return order.deliveries
+    .filter((d) => toDay(d.deliveredAt) <= limit)
+    .reduce((sum, d) => sum + d.quantity, 0)
+}
+
+/**
+ * On time: something arrived by the promised date. In full: the promised
+ * quantity arrived (by `asOf`). OTIF: the promised quantity arrived by the
+ * promised date.
+ */
+export function orderOutcome(order: PurchaseOrder, asOf: string | Date = new Date()) {
+  const promised = toDay(order.promisedDate)
+  const onTime = order.deliveries.some((d) => toDay(d.deliveredAt) <= promised)
+  const inFull = deliveredQuantity(order, asOf) >= order.promisedQuantity
+  const otif = deliveredQuantity(order, order.promisedDate) >= order.promisedQuantity
+  return { onTime, inFull, otif }
+}
+
+/**
+ * Scorecard for the window ending on `asOf`. OTIF and cost use the orders
+ * promised within the window (an order only counts once it is due); quality
+ * uses the deliveries received within it.
+ */
+export function computeScorecard(
+  orders: PurchaseOrder[],
+  asOf: Date = new Date(),
+  windowDays: number = SCORECARD_WINDOW_DAYS
+): VendorScorecard {
+  const end = toDay(asOf)
+  const start = end - windowDays * DAY_MS
+  const inWindow = (value: string) => {
+    const day = toDay(value)
+    return day > start && day <= end
+  }
+
+  const live = orders.filter((o) => o.status !== 'cancelada')
+  const due = live.filter((o) => inWindow(o.promisedDate))
+  const outcomes = due.map((o) => orderOutcome(o, formatDay(end)))
+
+  const received = live.flatMap((o) => o.deliveries).filter((d) => inWindow(d.deliveredAt))
+  const units = received.reduce((sum, d) => sum + d.quantity, 0)
+  const defectRate = percent(received.reduce((sum, d) => sum + d.defects, 0), units)
+
+  const invoiced = due.filter((o) => o.invoicedAmount !== undefined && o.quotedAmount > 0)
+  const quoted = invoiced.reduce((sum, o) => sum + o.quotedAmount, 0)
+  const costVariance = invoiced.length > 0
+    ? percent(invoiced.reduce((sum, o) => sum + (o.invoicedAmount as number), 0) - quoted, quoted)
+    : null
+
+  const acknowledged = due.filter((o) => o.acknowledgedAt)
+  const responseTime = acknowledged.length > 0
+    ? round1(
+      acknowledged.reduce(
+        (sum, o) => sum + Math.max(0, new Date(o.acknowledgedAt as string).getTime() - new Date(o.issuedAt).getTime()),
+        0
+      ) / acknowledged.length / HOUR_MS
+    )
+    : null
+
+  return {
+    asOf: formatDay(end),
+    windowDays,
+    orders: due.length,
+    onTimeRate: percent(outcomes.filter((o) => o.onTime).length, due.length),
+    inFullRate: percent(outcomes.filter((o) => o.inFull).length, due.length),
+    otifScore: percent(outcomes.filter((o) => o.otif).length, due.length),
+    defectRate,
+    qualityRating: defectRate === null ? null : stars(defectRate),
+    costVariance,
+    costRating: costVariance === null ? null : stars(costVariance),
+    responseTime
+  }
+}
+
+/**
+ * One rolling window per month-end, oldest first; the last one ends today
+ */
+export function scoreHistory(orders: PurchaseOrder[], now: Date = new Date(), months: number = TREND_MONTHS): VendorScorecard[] {
+  const today = new Date(toDay(now))
+  return Array.from({ length: months }, (_, index) => {
+    const monthsBack = months - 1 - index
+    const asOf = monthsBack === 0
+      ? today
+      : new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - monthsBack + 1, 0))
+    return computeScorecard(orders, asOf)
+  })
+}
+
+/**
+ * Thresholds the scorecard breaches, as readable reasons (none while fewer
+ * than VENDOR_THRESHOLDS.minOrders orders are due)
+ */
+export function scorecardBreaches(scorecard: VendorScorecard): string[] {
+  if (scorecard.orders < VENDOR_THRESHOLDS.minOrders) return []
+
+  const breaches: string[] = []
+  if (scorecard.otifScore !== null && scorecard.otifScore < VENDOR_THRESHOLDS.otifScore) {
+    breaches.push(`OTIF ${scorecard.otifScore}% < ${VENDOR_THRESHOLDS.otifScore}%`)
+  }
+  if (scorecard.qualityRating !== null && scorecard.qualityRating < VENDOR_THRESHOLDS.qualityRating) {
+    breaches.push(`calidad ${scorecard.qualityRating} < ${VENDOR_THRESHOLDS.qualityRating} (${scorecard.defectRate}% defectos)`)
+  }
+  if (scorecard.costRating !== null && scorecard.costRating < VENDOR_THRESHOLDS.costRating) {
+    breaches.push(`costo ${scorecard.costRating} < ${VENDOR_THRESHOLDS.costRating} (${scorecard.costVariance}% sobre lo cotizado)`)
+  }
+  return breaches
+}
+
+/**
+ * Recalculates the scorecard, trend and order stats. An active vendor that
+ * breaches a threshold moves to 'en_evaluacion'; only orders promised since
+ * its last status change count, so a reinstated vendor starts a fresh
+ * evaluation. Returns the breaches when the vendor was moved.
+ */
+export function refreshVendor(vendor: Vendor, now: Date = new Date()): string[] {
+  const live = vendor.orders.filter((o) => o.status !== 'cancelada')
+
+  vendor.scorecard = computeScorecard(vendor.orders, now)
+  vendor.history = scoreHistory(vendor.orders, now)
+  vendor.otifScore = vendor.scorecard.otifScore
+  vendor.qualityRating = vendor.scorecard.qualityRating
+  vendor.costRating = vendor.scorecard.costRating
+  vendor.responseTime = vendor.scorecard.responseTime
+  vendor.totalOrders = live.length
+  vendor.averageOrderValue = live.length > 0
+    ? Math.round(live.reduce((sum, o) => sum + o.quotedAmount, 0) / live.length)
+    : 0
+  vendor.lastDelivery = live
+    .flatMap((o) => o.deliveries.map((d) => d.deliveredAt))
+    .reduce<string | null>((latest, day) => (!latest || day > latest ? day : latest), null)
+
+  if (vendor.status !== 'activo') return []
+
+  const since = toDay(vendor.statusChangedAt)
+  const breaches = scorecardBreaches(
+    computeScorecard(vendor.orders.filter((o) => toDay(o.promisedDate) >= since), now)
+  )
+  if (breaches.length > 0) {
+    vendor.status = 'en_evaluacion'
+    vendor.statusReason = `Automático: ${breaches.join('; ')}`
+    vendor.statusChangedAt = now.toISOString()
+  }
+  return breaches
+}
@@ -0,0 +1,13 @@
+/**
+ * Vendor Storage
+ * Org-scoped persistence for vendors and their purchase orders
+ */
+
+import type { Vendor } from '@prime-growth-os/types'
+import { FileOrgStore, MemoryOrgStore, type OrgStore } from '@/lib/org-store'
+
+export type VendorStore = OrgStore<Vendor>
+
+export class MemoryVendorStore extends MemoryOrgStore<Vendor> {}
+
+export class FileVendorStore extends FileOrgStore<Vendor> {}
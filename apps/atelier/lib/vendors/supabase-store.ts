@@ -0,0 +1,154 @@
+/**
+ * Supabase Vendor Store
+ * Persists vendors in the vendors table, always filtered by org_id; purchase
+ * orders and their delivery records are a JSONB column on the same row. The
+ * scores are stored for reporting but recalculated from the orders on read.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Vendor } from '@prime-growth-os/types'
+import { computeScorecard } from './rules'
+import type { VendorStore } from './store'
+
+const TABLE = 'vendors'
+
+const optionalNumber = (value: unknown) => (value === null || value === undefined ? null : Number(value))
+
+// Columns as PostgREST returns them; numeric columns can arrive as strings
+type VendorRow = {
+  id: string
+  org_id: string
+  name: string
+  category: string
+  contact_person: string
+  email: string
+  phone: string
+  otif_score: number | string | null
+  quality_rating: number | string | null
+  cost_rating: number | string | null
+  response_time: number | string | null
+  certifications: string[] | null
+  status: Vendor['status']
+  status_reason: string
+  status_changed_at: string
+  last_delivery: string | null
+  total_orders: number | string
+  average_order_value: number | string
+  orders: Vendor['orders'] | null
+  created_at: string
+  updated_at: string
+  created_by: string
+  created_by_name: string
+}
+
+function fromRow(row: VendorRow): Vendor {
+  const orders = row.orders || []
+  return {
+    id: row.id,
+    orgId: row.org_id,
+    name: row.name,
+    category: row.category,
+    contactPerson: row.contact_person,
+    email: row.email,
+    phone: row.phone,
+    otifScore: optionalNumber(row.otif_score),
+    qualityRating: optionalNumber(row.quality_rating),
+    costRating: optionalNumber(row.cost_rating),
+    responseTime: optionalNumber(row.response_time),
+    certifications: row.certifications || [],
+    status: row.status,
+    statusReason: row.status_reason,
+    statusChangedAt: row.status_changed_at,
+    lastDelivery: row.last_delivery,
+    totalOrders: Number(row.total_orders),
+    averageOrderValue: Number(row.average_order_value),
+    orders,
+    scorecard: computeScorecard(orders),
+    history: [],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    createdBy: row.created_by,
+    createdByName: row.created_by_name
+  }
+}
+
+export class SupabaseVendorStore implements VendorStore {
+  private client: SupabaseClient
+
+  constructor(client: SupabaseClient) {
+    this.client = client
+  }
+
+  async list(orgId: string): Promise<Vendor[]> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      throw new Error(`Failed to load vendors: ${error.message}`)
+    }
+
+    return (data || []).map(fromRow)
+  }
+
+  async get(orgId: string, id: string): Promise<Vendor | null> {
+    const { data, error } = await this.client
+      .from(TABLE)
+      .select('*')
+      .eq('org_id', orgId)
+      .eq('id', id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load vendor: ${error.message}`)
+    }
+
+    return data ? fromRow(data) : null
+  }
+
+  async save(vendor: Vendor): Promise<void> {
+    const { error } = await this.client.from(TABLE).upsert({
+      id: vendor.id,
+      org_id: vendor.orgId,
+      name: vendor.name,
+      category: vendor.category,
+      contact_person: vendor.contactPerson,
+      email: vendor.email,
+      phone: vendor.phone,
+      otif_score: vendor.otifScore,
+      quality_rating: vendor.qualityRating,
+      cost_rating: vendor.costRating,
+      response_time: vendor.responseTime,
+      certifications: vendor.certifications,
+      status: vendor.status,
+      status_reason: vendor.statusReason,
+      status_changed_at: vendor.statusChangedAt,
+      last_delivery: vendor.lastDelivery,
+      total_orders: vendor.totalOrders,
+      average_order_value: vendor.averageOrderValue,
+      orders: vendor.orders,
+      created_at: vendor.createdAt,
+      updated_at: vendor.updatedAt,
+      created_by: vendor.createdBy,
+      created_by_name: vendor.createdByName
+    })
+
+    if (error) {
+      throw new Error(`Failed to save vendor: ${error.message}`)
+    }
+  }
+
+  async remove(orgId: string, id: string): Promise<void> {
+    const { error } = await this.client
+      .from(TABLE)
+      .delete()
+      .eq('org_id', orgId)
+      .eq('id', id)
+
+    if (error) {
+      throw new Error(`Failed to delete vendor: ${error.message}`)
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import { SimulationData } from '@prime-growth-os/types';
+import { defaultPriceBook } from './pricePlan';
+
+/**
+ * Supuestos del modelo de embudo mensual
+ */
+export interface FunnelAssumptions {
+  workingDaysPerMonth: number;
+  proposalRate: number;  // Propuestas por cita realizada (0-1)
+  packageMix: { basic: number; standard: number; premium: number };  // Participación por paquete
+  deliveryDays: { basic: number; standard: number; premium: number };  // Duración de proyecto
+}
+
+export type FunnelStage = 'demand' | 'appointments' | 'delivery';
+
+export interface StageCapacity {
+  stage: FunnelStage;
+  demand: number;
+  capacity: number | null;  // null = sin límite capturado
+  utilization: number | null;
+}
+
+export interface BindingConstraint {
+  stage: FunnelStage;
+  utilization: number | null;
+  lost: number;  // Citas o proyectos que no caben en la capacidad
+  description: string;
+}
+
+export interface FunnelResult {
+  leads: number;
+  appointmentsRequested: number;
+  appointments: number;
+  proposals: number;
+  winsDemanded: number;
+  wins: number;
+  avgTicket: number;
+  revenue: number;
+  marginAmount: number;
+  cashCollected: number;  // Cobrado en el mes: anticipo + saldo con DSO < 30 días
+  receivables: number;  // Cartera en régimen estable: saldo × DSO / 30
+  deliveryCapacity: number;  // Proyectos que se pueden iniciar por mes
+  stages: StageCapacity[];
+  bindingConstraint: BindingConstraint;
+}
+
+export interface FunnelKPIDelta {
+  key: string;
+  name: string;
+  unit: string;
+  format: 'number' | 'currency' | 'percentage';
+  direction: 'up' | 'down';  // Sentido en el que el KPI mejora
+  baseline: number;
+  tobe: number;
+  delta: number;
+  deltaPercent: number | null;  // null cuando el baseline es 0
+}
+
+export interface ScenarioComparison {
+  baseline: FunnelResult;
+  tobe: FunnelResult;
+  kpis: FunnelKPIDelta[];
+}
+
+const tierDelivery = (id: string, fallback: number) =>
+  defaultPriceBook.tiers.find(t => t.id === id)?.deliveryTime ?? fallback;
+
+export const defaultFunnelAssumptions: FunnelAssumptions = {
+  workingDaysPerMonth: 22,
+  proposalRate: 1,
+  packageMix: { basic: 1 / 3, standard: 1 / 3, premium: 1 / 3 },
+  // Core / Signature / Masterpiece
+  deliveryDays: {
+    basic: tierDelivery('core', 45),
+    standard: tierDelivery('signature', 75),
+    premium: tierDelivery('masterpiece', 120)
+  }
+};
+
+const sum = (values: Record<string, number>) => Object.values(values).reduce((a, b) => a + b, 0);
+const pct = (value: number) => Math.max(0, Math.min(100, value)) / 100;
+
+/**
+ * Promedio ponderado por la mezcla de paquetes con precio capturado
+ */
+function weightedByMix(
+  values: { basic: number; standard: number; premium: number },
+  tickets: { basic: number; standard: number; premium: number },
+  mix: FunnelAssumptions['packageMix']
+): number {
+  const packages = (['basic', 'standard', 'premium'] as const).filter(p => tickets[p] > 0);
+  const totalWeight = packages.reduce((total, p) => total + mix[p], 0);
+  if (packages.length === 0 || totalWeight === 0) return 0;
+
+  return packages.reduce((total, p) => total + values[p] * mix[p], 0) / totalWeight;
+}
+
+/**
+ * Proyectos que el equipo puede iniciar por mes (ley de Little: capacidad / duración),
+ * descontando el retrabajo. La capacidad activa se limita por la capacidad máxima.
+ */
+function monthlyDeliveryCapacity(data: SimulationData, assumptions: FunnelAssumptions): number | null {
+  const { activeCapacity, rework } = data.step3;
+  const { maxCapacity } = data.step5;
+
+  const concurrent = activeCapacity > 0 && maxCapacity > 0
+    ? Math.min(activeCapacity, maxCapacity)
+    : activeCapacity || maxCapacity;
+  if (!concurrent) return null;
+
+  const deliveryDays = weightedByMix(assumptions.deliveryDays, data.step2.ticketByPackage, assumptions.packageMix) ||
+    sum(assumptions.deliveryDays) / 3;
+
+  return (concurrent * (1 - pct(rework))) / (deliveryDays / 30);
+}
+
+/**
+ * Calcula el embudo mensual de un escenario:
+ * leads → citas → propuestas → cierres → ingresos → margen → flujo (DSO y anticipo)
+ */
+export function computeFunnel(
+  data: SimulationData,
+  assumptions: FunnelAssumptions = defaultFunnelAssumptions
+): FunnelResult {
+  const leads = sum(data.step1.leadsPerChannel);
+
+  // Agenda: cada lead solicita una cita, limitada por citas por día
+  const appointmentCapacity = data.step1.appointmentsPerDay > 0
+    ? data.step1.appointmentsPerDay * assumptions.workingDaysPerMonth
+    : null;
+  const scheduled = appointmentCapacity !== null ? Math.min(leads, appointmentCapacity) : leads;
+  const appointmentsRequested = leads * pct(data.step1.showRate);
+  const appointments = scheduled * pct(data.step1.showRate);
+
+  const proposals = appointments * assumptions.proposalRate;
+  const winsDemanded = proposals * pct(data.step2.winRate);
+
+  // Entrega: no se pueden cerrar más proyectos de los que el equipo puede iniciar
+  const deliveryCapacity = monthlyDeliveryCapacity(data, assumptions);
+  const wins = deliveryCapacity !== null ? Math.min(winsDemanded, deliveryCapacity) : winsDemanded;
+
+  const avgTicket = weightedByMix(data.step2.ticketByPackage, data.step2.ticketByPackage, assumptions.packageMix);
+  const revenue = wins * avgTicket;
+  const marginAmount = revenue * pct(data.step4.margin);
+
+  // Anticipo al firmar; el saldo se cobra a DSO días
+  const advance = revenue * pct(data.step4.advance);
+  const balance = revenue - advance;
+  const dso = Math.max(0, data.step4.dso);
+  const cashCollected = advance + balance * Math.max(0, 1 - dso / 30);
+  const receivables = balance * (dso / 30);
+
+  const stages: StageCapacity[] = [
+    { stage: 'demand', demand: leads, capacity: null, utilization: null },
+    {
+      stage: 'appointments',
+      demand: leads,
+      capacity: appointmentCapacity,
+      utilization: appointmentCapacity ? leads / appointmentCapacity : null
+    },
+    {
+      stage: 'delivery',
+      demand: winsDemanded,
+      capacity: deliveryCapacity,
+      utilization: deliveryCapacity ? winsDemanded / deliveryCapacity : null
+    }
+  ];
+
+  return {
+    leads,
+    appointmentsRequested,
+    appointments,
+    proposals,
+    winsDemanded,
+    wins,
+    avgTicket,
+    revenue,
+    marginAmount,
+    cashCollected,
+    receivables,
+    deliveryCapacity: deliveryCapacity ?? 0,
+    stages,
+    bindingConstraint: identifyBindingConstraint(stages, appointmentsRequested - appointments, winsDemanded - wins)
+  };
+}
+
+/**
+ * La etapa saturada más cercana a los ingresos limita el embudo (ampliar una etapa
+ * anterior no agrega cierres); si ninguna se satura, el límite es la demanda (leads)
+ */
+function identifyBindingConstraint(
+  stages: StageCapacity[],
+  lostAppointments: number,
+  lostWins: number
+): BindingConstraint {
+  const saturated = [...stages].reverse().find(s => s.utilization !== null && s.utilization > 1);
+
+  if (saturated?.stage === 'appointments') {
+    return {
+      stage: 'appointments',
+      utilization: saturated.utilization,
+      lost: lostAppointments,
+      description: `La agenda está al ${Math.round(saturated.utilization! * 100)}%: se pierden ${Math.round(lostAppointments)} citas por mes por falta de horarios`
+    };
+  }
+
+  if (saturated?.stage === 'delivery') {
+    return {
+      stage: 'delivery',
+      utilization: saturated.utilization,
+      lost: lostWins,
+      description: `La capacidad de entrega está al ${Math.round(saturated.utilization! * 100)}%: ${lostWins.toFixed(1)} proyectos ganables por mes no caben en el equipo`
+    };
+  }
+
+  const busiest = stages
+    .filter(s => s.utilization !== null)
+    .sort((a, b) => b.utilization! - a.utilization!)[0];
+
+  return {
+    stage: 'demand',
+    utilization: busiest?.utilization ?? null,
+    lost: 0,
+    description: busiest
+      ? `El volumen de leads limita el crecimiento; la etapa más cargada (${busiest.stage === 'delivery' ? 'entrega' : 'agenda'}) está al ${Math.round(busiest.utilization! * 100)}%`
+      : 'El volumen de leads limita el crecimiento; no hay capacidades capturadas'
+  };
+}
+
+function toDelta(
+  key: string,
+  name: string,
+  unit: string,
+  format: FunnelKPIDelta['format'],
+  baseline: number,
+  tobe: number,
+  direction: FunnelKPIDelta['direction'] = 'up'
+): FunnelKPIDelta {
+  const delta = tobe - baseline;
+  return {
+    key,
+    name,
+    unit,
+    format,
+    direction,
+    baseline,
+    tobe,
+    delta,
+    deltaPercent: baseline !== 0 ? (delta / Math.abs(baseline)) * 100 : null
+  };
+}
+
+/**
+ * Compara el escenario actual (As-Is) contra la meta (To-Be) con el mismo modelo
+ */
+export function compareScenarios(
+  baselineData: SimulationData,
+  tobeData: SimulationData,
+  assumptions: FunnelAssumptions = defaultFunnelAssumptions
+): ScenarioComparison {
+  const baseline = computeFunnel(baselineData, assumptions);
+  const tobe = computeFunnel(tobeData, assumptions);
+
+  const kpis: FunnelKPIDelta[] = [
+    toDelta('leads', 'Leads', 'leads', 'number', baseline.leads, tobe.leads),
+    toDelta('appointments', 'Citas Realizadas', 'citas', 'number', baseline.appointments, tobe.appointments),
+    toDelta('proposals', 'Propuestas', 'propuestas', 'number', baseline.proposals, tobe.proposals),
+    toDelta('wins', 'Proyectos Ganados', 'proyectos', 'number', baseline.wins, tobe.wins),
+    toDelta('revenue', 'Ingresos Mensuales', 'MXN', 'currency', baseline.revenue, tobe.revenue),
+    toDelta('margin', 'Margen Neto', 'MXN', 'currency', baseline.marginAmount, tobe.marginAmount),
+    toDelta('marginRate', 'Margen Neto %', '%', 'percentage', baselineData.step4.margin, tobeData.step4.margin),
+    toDelta('cashCollected', 'Cobranza del Mes', 'MXN', 'currency', baseline.cashCollected, tobe.cashCollected),
+    toDelta('receivables', 'Cuentas por Cobrar', 'MXN', 'currency', baseline.receivables, tobe.receivables, 'down'),
+    toDelta('dso', 'DSO', 'días', 'number', baselineData.step4.dso, tobeData.step4.dso, 'down'),
+    toDelta('deliveryCapacity', 'Capacidad de Inicio', 'proyectos/mes', 'number', baseline.deliveryCapacity, tobe.deliveryCapacity),
+    toDelta('winRate', 'Win Rate', '%', 'percentage', baselineData.step2.winRate, tobeData.step2.winRate),
+    toDelta('otif', 'OTIF', '%', 'percentage', baselineData.step3.otif, tobeData.step3.otif),
+    toDelta('speedToLead', 'Speed-to-Lead', 'min', 'number', baselineData.step1.speedToLead, tobeData.step1.speedToLead, 'down')
+  ];
+
+  return { baseline, tobe, kpis };
+}
@@ -1,2 +1,4 @@
 export * from './optimizeSpend';
-export * from './pricePlan';
\ No newline at end of file
+export * from './pricePlan';
+export * from './funnel';
+export * from './sensitivity';
\ No newline at end of file
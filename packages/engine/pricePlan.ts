@@ -1,9 +1,9 @@
-import { CPQTier } from '@prime-growth-os/types';
+import { CPQTier, PriceBookRates, QuoteDiscountConditions, QuoteUrgency } from '@prime-growth-os/types';
 
 /**
  * Configuración de planes de pricing para arquitectura
  */
-export const pricingTiers: CPQTier[] = [
+const defaultTiers: CPQTier[] = [
   {
     id: 'core',
     name: 'Core',
@@ -67,13 +67,72 @@ export const pricingTiers: CPQTier[] = [
 ];
 
 /**
- * Calcula el precio de una cotización basado en el tier y customizaciones
+ * Personalizaciones cotizables sobre cualquier tier
+ */
+const defaultAddOns = [
+  { id: 'renders_adicionales', name: 'Renders Adicionales', price: 8500 },
+  { id: 'recorrido_virtual', name: 'Recorrido Virtual VR', price: 25000 },
+  { id: 'modelado_avanzado', name: 'Modelado BIM Avanzado', price: 35000 },
+  { id: 'certificacion_leed', name: 'Certificación LEED', price: 45000 },
+  { id: 'diseño_paisajismo', name: 'Diseño de Paisajismo', price: 28000 },
+  { id: 'mobiliario_personalizado', name: 'Mobiliario Personalizado', price: 40000 },
+  { id: 'consultoria_feng_shui', name: 'Consultoría Feng Shui', price: 15000 },
+  { id: 'automatizacion_hogar', name: 'Automatización del Hogar', price: 55000 },
+  { id: 'sistema_seguridad', name: 'Sistema de Seguridad', price: 32000 },
+  { id: 'paneles_solares', name: 'Integración Paneles Solares', price: 18000 }
+];
+
+/**
+ * Lista de precios estándar; cada organización parte de ella al crear su
+ * primera versión de lista de precios
+ */
+export const defaultPriceBook: PriceBookRates = {
+  tiers: defaultTiers,
+  addOns: defaultAddOns,
+  sizePremiumFactor: 0.7,
+  urgencyMultipliers: {
+    normal: 0,
+    expedito: 0.25, // +25%
+    urgente: 0.5    // +50%
+  },
+  discountRules: {
+    returnClient: 0.05,
+    volumePerProject: 0.03,
+    volumeMax: 0.15,
+    cashPayment: 0.08,
+    lowSeason: 0.10,
+    highSeasonSurcharge: 0.05, // en temporada alta resta del descuento
+    maxDiscount: 0.25
+  },
+  approvalLimits: {
+    viewer: 0,
+    editor: 0.10,
+    admin: 0.20,
+    owner: 0.25
+  },
+  costs: {
+    tiers: {
+      core: 51000,
+      signature: 111000,
+      masterpiece: 210000
+    },
+    addOnCostRatio: 0.5,
+    marginFloor: 0.2
+  }
+};
+
+const percent = (fraction: number) => Math.round(fraction * 100 * 100) / 100;
+
+/**
+ * Calcula el precio de una cotización basado en el tier y customizaciones,
+ * con las tarifas de la lista de precios indicada
  */
 export function calculateQuotePrice(
   tierId: string,
   customizations: string[] = [],
   projectSize: number = 1, // multiplicador por tamaño de proyecto
-  urgency: 'normal' | 'expedito' | 'urgente' = 'normal'
+  urgency: QuoteUrgency = 'normal',
+  priceBook: PriceBookRates = defaultPriceBook
 ): {
   basePrice: number;
   customizationCost: number;
@@ -82,7 +141,7 @@ export function calculateQuotePrice(
   totalPrice: number;
   tier: CPQTier | null;
 } {
-  const tier = pricingTiers.find(t => t.id === tierId) || null;
+  const tier = priceBook.tiers.find(t => t.id === tierId) || null;
 
   if (!tier) {
     return {
@@ -97,34 +156,15 @@ export function calculateQuotePrice(
 
   const basePrice = tier.basePrice;
 
-  // Costos de customizaciones
-  const customizationPricing: Record<string, number> = {
-    'renders_adicionales': 8500,
-    'recorrido_virtual': 25000,
-    'modelado_avanzado': 35000,
-    'certificacion_leed': 45000,
-    'diseño_paisajismo': 28000,
-    'mobiliario_personalizado': 40000,
-    'consultoria_feng_shui': 15000,
-    'automatizacion_hogar': 55000,
-    'sistema_seguridad': 32000,
-    'paneles_solares': 18000
-  };
-
   const customizationCost = customizations.reduce((total, custom) => {
-    return total + (customizationPricing[custom] || 0);
+    return total + (priceBook.addOns.find(c => c.id === custom)?.price || 0);
   }, 0);
 
   // Premium por tamaño (para proyectos grandes)
-  const sizePremium = projectSize > 1 ? basePrice * (projectSize - 1) * 0.7 : 0;
+  const sizePremium = projectSize > 1 ? basePrice * (projectSize - 1) * priceBook.sizePremiumFactor : 0;
 
   // Premium por urgencia
-  const urgencyMultipliers = {
-    'normal': 0,
-    'expedito': 0.25, // +25%
-    'urgente': 0.5    // +50%
-  };
-  const urgencyPremium = basePrice * urgencyMultipliers[urgency];
+  const urgencyPremium = basePrice * (priceBook.urgencyMultipliers[urgency] || 0);
 
   const totalPrice = basePrice + customizationCost + sizePremium + urgencyPremium;
 
@@ -145,12 +185,15 @@ export function recommendTier(
   projectType: 'residencial' | 'comercial' | 'institucional',
   budget: number,
   timeline: number, // días disponibles
-  requirements: string[] = []
+  requirements: string[] = [],
+  priceBook: PriceBookRates = defaultPriceBook
 ): {
   recommendedTier: string;
   alternatives: string[];
   reasoning: string[];
 } {
+  const { tiers } = priceBook;
+  const byPrice = [...tiers].sort((a, b) => a.basePrice - b.basePrice);
   const reasoning: string[] = [];
   let recommendedTier = 'core';
   const alternatives: string[] = [];
@@ -163,26 +206,30 @@ export function recommendTier(
     recommendedTier = budget > 200000 ? 'masterpiece' : 'signature';
     reasoning.push('Proyectos comerciales se benefician de diseño diferenciado');
   } else {
-    // residencial
-    if (budget > 300000) {
-      recommendedTier = 'masterpiece';
-      reasoning.push('Presupuesto permite experiencia premium completa');
-    } else if (budget > 150000) {
-      recommendedTier = 'signature';
-      reasoning.push('Presupuesto adecuado para solución integral');
-    } else {
-      recommendedTier = 'core';
-      reasoning.push('Solución optimizada para presupuesto disponible');
-    }
+    // residencial: el tier más completo cuyo precio base cubre el presupuesto (con 15% de holgura)
+    const affordable = byPrice.filter(t => t.basePrice * 0.85 < budget);
+    recommendedTier = (affordable[affordable.length - 1] || byPrice[0]).id;
+    reasoning.push(
+      affordable.length === tiers.length
+        ? 'Presupuesto permite experiencia premium completa'
+        : affordable.length > 1
+        ? 'Presupuesto adecuado para solución integral'
+        : 'Solución optimizada para presupuesto disponible'
+    );
+  }
+
+  // Tiers que no existen en esta lista de precios
+  if (!tiers.some(t => t.id === recommendedTier)) {
+    recommendedTier = byPrice[byPrice.length - 1].id;
   }
 
   // Análisis por timeline
-  const selectedTier = pricingTiers.find(t => t.id === recommendedTier);
+  const selectedTier = tiers.find(t => t.id === recommendedTier);
   if (selectedTier && timeline < selectedTier.deliveryTime) {
     reasoning.push(`Timeline requiere optimización: ${timeline} días vs ${selectedTier.deliveryTime} días estándar`);
 
     // Buscar tier más rápido
-    const fasterTiers = pricingTiers.filter(t => t.deliveryTime <= timeline);
+    const fasterTiers = tiers.filter(t => t.deliveryTime <= timeline);
     if (fasterTiers.length > 0) {
       recommendedTier = fasterTiers[fasterTiers.length - 1].id; // El más completo que cumpla timeline
       reasoning.push(`Ajustado a tier ${recommendedTier} para cumplir timeline`);
@@ -190,7 +237,7 @@ export function recommendTier(
   }
 
   // Generar alternativas
-  pricingTiers.forEach(tier => {
+  tiers.forEach(tier => {
     if (tier.id !== recommendedTier) {
       if (tier.basePrice <= budget * 1.2) { // Dentro del 20% del presupuesto
         alternatives.push(tier.id);
@@ -206,55 +253,56 @@ export function recommendTier(
 }
 
 /**
- * Calcula descuentos basados en volumen o condiciones especiales
+ * Calcula descuentos basados en volumen o condiciones especiales, con las
+ * reglas de descuento de la lista de precios indicada
  */
 export function calculateDiscount(
   basePrice: number,
-  conditions: {
-    isReturnClient?: boolean;
-    projectCount?: number;
-    paymentTerms?: 'contado' | '30_dias' | '60_dias';
-    seasonality?: 'alta' | 'media' | 'baja';
-  }
+  conditions: QuoteDiscountConditions,
+  priceBook: PriceBookRates = defaultPriceBook
 ): {
   discountPercentage: number;
   discountAmount: number;
   finalPrice: number;
   appliedDiscounts: string[];
 } {
+  const rules = priceBook.discountRules;
   let totalDiscount = 0;
   const appliedDiscounts: string[] = [];
 
   // Descuento por cliente recurrente
   if (conditions.isReturnClient) {
-    totalDiscount += 0.05; // 5%
-    appliedDiscounts.push('Cliente recurrente: 5%');
+    totalDiscount += rules.returnClient;
+    appliedDiscounts.push(`Cliente recurrente: ${percent(rules.returnClient)}%`);
   }
 
   // Descuento por volumen
   if (conditions.projectCount && conditions.projectCount > 1) {
-    const volumeDiscount = Math.min(0.15, conditions.projectCount * 0.03); // Máximo 15%
+    const volumeDiscount = Math.min(rules.volumeMax, conditions.projectCount * rules.volumePerProject);
     totalDiscount += volumeDiscount;
-    appliedDiscounts.push(`Volumen (${conditions.projectCount} proyectos): ${Math.round(volumeDiscount * 100)}%`);
+    appliedDiscounts.push(`Volumen (${conditions.projectCount} proyectos): ${percent(volumeDiscount)}%`);
   }
 
   // Descuento por pronto pago
   if (conditions.paymentTerms === 'contado') {
-    totalDiscount += 0.08; // 8%
-    appliedDiscounts.push('Pago de contado: 8%');
+    totalDiscount += rules.cashPayment;
+    appliedDiscounts.push(`Pago de contado: ${percent(rules.cashPayment)}%`);
   }
 
   // Ajuste por temporada
   if (conditions.seasonality === 'baja') {
-    totalDiscount += 0.10; // 10% en temporada baja
-    appliedDiscounts.push('Temporada baja: 10%');
+    totalDiscount += rules.lowSeason;
+    appliedDiscounts.push(`Temporada baja: ${percent(rules.lowSeason)}%`);
   } else if (conditions.seasonality === 'alta') {
-    totalDiscount -= 0.05; // -5% en temporada alta (incremento)
-    appliedDiscounts.push('Temporada alta: -5%');
+    totalDiscount -= rules.highSeasonSurcharge;
+    appliedDiscounts.push(`Temporada alta: -${percent(rules.highSeasonSurcharge)}%`);
   }
 
   // Limitar descuento máximo
-  totalDiscount = Math.max(0, Math.min(0.25, totalDiscount)); // Entre 0% y 25%
+  if (totalDiscount > rules.maxDiscount) {
+    appliedDiscounts.push(`Descuento limitado al máximo de ${percent(rules.maxDiscount)}%`);
+  }
+  totalDiscount = Math.max(0, Math.min(rules.maxDiscount, totalDiscount));
 
   const discountAmount = basePrice * totalDiscount;
   const finalPrice = basePrice - discountAmount;
@@ -265,4 +313,51 @@ export function calculateDiscount(
     finalPrice: Math.round(finalPrice),
     appliedDiscounts
   };
-}
\ No newline at end of file
+}
+/**
+ * Estima el costo de entrega del proyecto: costo del tier escalado por tamaño
+ * más la fracción de costo de cada personalización. Un tier sin costo en la
+ * lista de precios es un error, no un costo cero.
+ */
+export function estimateProjectCost(
+  tierId: string,
+  customizations: string[] = [],
+  projectSize: number = 1,
+  priceBook: PriceBookRates = defaultPriceBook
+): number {
+  const cost = priceBook.costs.tiers[tierId];
+  if (cost === undefined) {
+    throw new Error(`La lista de precios no tiene costo de entrega para el tier ${tierId}`);
+  }
+
+  const tierCost = cost * projectSize;
+  const addOnCost = customizations.reduce((total, custom) => {
+    return total + (priceBook.addOns.find(c => c.id === custom)?.price || 0) * priceBook.costs.addOnCostRatio;
+  }, 0);
+
+  return Math.round(tierCost + addOnCost);
+}
+
+/**
+ * Verifica el margen de una cotización contra el piso de la lista de precios
+ */
+export function checkMarginFloor(
+  finalPrice: number,
+  estimatedCost: number,
+  priceBook: PriceBookRates = defaultPriceBook
+): {
+  margin: number;
+  marginFloor: number;
+  minimumPrice: number;
+  belowFloor: boolean;
+} {
+  const { marginFloor } = priceBook.costs;
+  const margin = finalPrice > 0 ? (finalPrice - estimatedCost) / finalPrice : -1;
+
+  return {
+    margin: Math.round(margin * 10000) / 10000,
+    marginFloor,
+    minimumPrice: Math.ceil(estimatedCost / (1 - marginFloor)),
+    belowFloor: margin < marginFloor
+  };
+}
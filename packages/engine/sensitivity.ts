@@ -0,0 +1,228 @@
+import { SimulationData } from '@prime-growth-os/types';
+import {
+  computeFunnel,
+  defaultFunnelAssumptions,
+  FunnelAssumptions,
+  FunnelResult,
+  FunnelStage
+} from './funnel';
+
+/**
+ * Palanca operativa del simulador (ruta dentro de SimulationData)
+ */
+export interface SensitivityInput {
+  path: string;  // p. ej. 'step2.winRate' o 'step5.budgetByChannel.meta'
+  label: string;
+  unit: string;
+}
+
+export interface SensitivityOutcome {
+  value: number;
+  revenue: number;
+  margin: number;
+  receivables: number;
+}
+
+// Métrica del tornado; DSO y anticipo solo mueven las cuentas por cobrar (tiempo de cobro)
+export type SensitivityMetric = 'revenue' | 'margin' | 'receivables';
+
+export interface SensitivityResult {
+  path: string;
+  label: string;
+  unit: string;
+  baseValue: number;
+  low: SensitivityOutcome;   // Entrada -X%
+  high: SensitivityOutcome;  // Entrada +X%
+  revenueSwing: number;  // |ingresos(high) - ingresos(low)|
+  marginSwing: number;
+  receivablesSwing: number;
+}
+
+export interface SensitivityAnalysis {
+  perturbation: number;
+  baseline: { revenue: number; margin: number; receivables: number };
+  rankBy: SensitivityMetric;
+  results: SensitivityResult[];  // Ordenados de mayor a menor impacto
+}
+
+export interface LeverImpact {
+  path: string;
+  label: string;
+  points: number;
+  before: FunnelResult;
+  after: FunnelResult;
+  delta: {
+    appointments: number;
+    proposals: number;
+    wins: number;
+    revenue: number;
+    margin: number;
+    cashCollected: number;
+  };
+  bindingConstraint: FunnelStage;  // Restricción después del cambio
+}
+
+const CHANNELS = [
+  { key: 'meta', label: 'Meta Ads' },
+  { key: 'google', label: 'Google Ads' },
+  { key: 'referral', label: 'Referidos' },
+  { key: 'organic', label: 'Orgánico' }
+];
+
+/**
+ * Entradas de los pasos 1-5 que se perturban en el análisis: solo las que
+ * computeFunnel lee
+ */
+export const sensitivityInputs: SensitivityInput[] = [
+  ...CHANNELS.map(c => ({ path: `step1.leadsPerChannel.${c.key}`, label: `Leads ${c.label}`, unit: 'leads' })),
+  { path: 'step1.showRate', label: 'Show Rate', unit: '%' },
+  { path: 'step1.appointmentsPerDay', label: 'Citas por Día', unit: 'citas' },
+  { path: 'step2.winRate', label: 'Win Rate', unit: '%' },
+  { path: 'step2.ticketByPackage.basic', label: 'Ticket Core', unit: 'MXN' },
+  { path: 'step2.ticketByPackage.standard', label: 'Ticket Signature', unit: 'MXN' },
+  { path: 'step2.ticketByPackage.premium', label: 'Ticket Masterpiece', unit: 'MXN' },
+  { path: 'step3.activeCapacity', label: 'Capacidad Activa', unit: 'proyectos' },
+  { path: 'step3.rework', label: 'Retrabajo', unit: '%' },
+  { path: 'step4.dso', label: 'DSO', unit: 'días' },
+  { path: 'step4.margin', label: 'Margen', unit: '%' },
+  { path: 'step4.advance', label: 'Anticipo', unit: '%' },
+  ...CHANNELS.map(c => ({ path: `step5.budgetByChannel.${c.key}`, label: `Presupuesto ${c.label}`, unit: 'MXN' })),
+  { path: 'step5.maxCapacity', label: 'Capacidad Máxima', unit: 'proyectos' }
+];
+
+/**
+ * Entradas capturadas que el embudo todavía no modela (no tienen curva de
+ * respuesta sobre citas, propuestas ni cierres), por eso no entran al tornado
+ */
+export const unmodeledInputs: SensitivityInput[] = [
+  { path: 'step1.speedToLead', label: 'Speed-to-Lead', unit: 'min' },
+  { path: 'step2.timeToProposal', label: 'Tiempo a Propuesta', unit: 'días' },
+  { path: 'step2.proposalsUnder72h', label: 'Propuestas ≤72h', unit: '%' },
+  { path: 'step2.revisions', label: 'Revisiones', unit: 'rondas' },
+  { path: 'step3.otif', label: 'OTIF', unit: '%' },
+  { path: 'step3.tradesWithPlanB', label: 'Oficios con Plan B', unit: 'oficios' }
+];
+
+const PERCENT_FIELDS = ['step1.showRate', 'step2.proposalsUnder72h', 'step2.winRate', 'step3.otif', 'step3.rework', 'step4.margin', 'step4.advance'];
+
+// Nodo de SimulationData recorrido por ruta
+type DataNode = Record<string, unknown>;
+
+const isNode = (value: unknown): value is DataNode => !!value && typeof value === 'object';
+
+function getPath(data: SimulationData, path: string): number {
+  const value = path.split('.').reduce<unknown>((node, key) => (isNode(node) ? node[key] : undefined), data);
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Copia de la simulación con un campo reemplazado. Los porcentajes se limitan a 0-100.
+ * Un cambio de presupuesto en un canal mueve sus leads en la misma proporción
+ * (costo por lead constante).
+ */
+function withValue(data: SimulationData, path: string, value: number): SimulationData {
+  const copy: SimulationData = JSON.parse(JSON.stringify(data));
+  const keys = path.split('.');
+  const parent = keys.slice(0, -1).reduce<unknown>((node, key) => (isNode(node) ? node[key] : undefined), copy);
+  if (!isNode(parent)) return copy;
+  const field = keys[keys.length - 1];
+
+  const bounded = PERCENT_FIELDS.includes(path) ? Math.max(0, Math.min(100, value)) : Math.max(0, value);
+  const current = parent[field];
+  const previous = typeof current === 'number' ? current : 0;
+  parent[field] = bounded;
+
+  if (keys[0] === 'step5' && keys[1] === 'budgetByChannel' && previous > 0) {
+    copy.step1.leadsPerChannel[field as keyof SimulationData['step1']['leadsPerChannel']] *= bounded / previous;
+  }
+
+  return copy;
+}
+
+/**
+ * Perturba cada entrada ±X% (relativo) y ordena por el cambio en ingresos,
+ * margen o cuentas por cobrar (la única que mueven DSO y anticipo)
+ */
+export function analyzeSensitivity(
+  data: SimulationData,
+  options: {
+    perturbation?: number;  // 0.1 = ±10%
+    rankBy?: SensitivityMetric;
+    inputs?: SensitivityInput[];
+    assumptions?: FunnelAssumptions;
+  } = {}
+): SensitivityAnalysis {
+  const {
+    perturbation = 0.1,
+    rankBy = 'revenue',
+    inputs = sensitivityInputs,
+    assumptions = defaultFunnelAssumptions
+  } = options;
+
+  const base = computeFunnel(data, assumptions);
+
+  const outcome = (value: number, path: string): SensitivityOutcome => {
+    const funnel = computeFunnel(withValue(data, path, value), assumptions);
+    return { value, revenue: funnel.revenue, margin: funnel.marginAmount, receivables: funnel.receivables };
+  };
+
+  const results = inputs.map(input => {
+    const baseValue = getPath(data, input.path);
+    const low = outcome(baseValue * (1 - perturbation), input.path);
+    const high = outcome(baseValue * (1 + perturbation), input.path);
+
+    return {
+      ...input,
+      baseValue,
+      low,
+      high,
+      revenueSwing: Math.abs(high.revenue - low.revenue),
+      marginSwing: Math.abs(high.margin - low.margin),
+      receivablesSwing: Math.abs(high.receivables - low.receivables)
+    };
+  });
+
+  const swings: Record<SensitivityMetric, (r: SensitivityResult) => number> = {
+    revenue: r => r.revenueSwing,
+    margin: r => r.marginSwing,
+    receivables: r => r.receivablesSwing
+  };
+  const swing = swings[rankBy];
+
+  return {
+    perturbation,
+    baseline: { revenue: base.revenue, margin: base.marginAmount, receivables: base.receivables },
+    rankBy,
+    results: results.sort((a, b) => swing(b) - swing(a))
+  };
+}
+
+/**
+ * Lo que compra un cambio absoluto en una palanca, p. ej. +1 punto de win rate
+ */
+export function leverImpact(
+  data: SimulationData,
+  path: string,
+  points: number = 1,
+  assumptions: FunnelAssumptions = defaultFunnelAssumptions
+): LeverImpact {
+  const before = computeFunnel(data, assumptions);
+  const after = computeFunnel(withValue(data, path, getPath(data, path) + points), assumptions);
+
+  return {
+    path,
+    label: [...sensitivityInputs, ...unmodeledInputs].find(i => i.path === path)?.label || path,
+    points,
+    before,
+    after,
+    delta: {
+      appointments: after.appointments - before.appointments,
+      proposals: after.proposals - before.proposals,
+      wins: after.wins - before.wins,
+      revenue: after.revenue - before.revenue,
+      margin: after.marginAmount - before.marginAmount,
+      cashCollected: after.cashCollected - before.cashCollected
+    },
+    bindingConstraint: after.bindingConstraint.stage
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Audit Storage
+ * Pluggable persistence and hash chaining for the audit log
+ */
+
+import { createHash } from 'crypto';
+import type { AuditEntry } from './audit';
+import { appendFileLine, readFileIfExists, serializeFileWrite, writeFileAtomic } from './file-store';
+
+// ============================================================================
+// STORE CONTRACT
+// ============================================================================
+
+export interface AuditStore {
+  /** Load persisted entries in chronological order */
+  load(since?: Date): Promise<AuditEntry[]>;
+  /**
+   * Append a single, already hashed entry. Stores shared by several writers
+   * reject with AuditChainConflictError when entry.previousHash is no longer
+   * the tail of the chain.
+   */
+  append(entry: AuditEntry): Promise<void>;
+  /** Remove entries older than the cutoff, returns how many were removed */
+  prune(before: Date): Promise<number>;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  brokenAt?: string;  // ID of the first entry whose hash does not match
+  reason?: string;
+}
+
+// Previous hash of the very first entry in a chain
+export const AUDIT_GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * Another writer extended the chain first; reload the tail and re-chain the entry
+ */
+export class AuditChainConflictError extends Error {
+  constructor(public readonly entryId: string) {
+    super(`Audit entry ${entryId} does not extend the current tail of the chain`);
+    this.name = 'AuditChainConflictError';
+  }
+}
+
+// ============================================================================
+// HASH CHAIN
+// ============================================================================
+
+/**
+ * Deterministic serialization: sorted keys, dates as ISO strings, no undefined
+ */
+function canonicalize(value: unknown): unknown {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((result, key) => {
+        const field = (value as Record<string, unknown>)[key];
+        if (field !== undefined) result[key] = canonicalize(field);
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * SHA-256 over the entry content plus the previous entry's hash
+ */
+export function hashAuditEntry(entry: AuditEntry, previousHash: string): string {
+  const content: Partial<AuditEntry> = { ...entry };
+  delete content.hash;
+  delete content.previousHash;
+
+  return createHash('sha256')
+    .update(previousHash)
+    .update(JSON.stringify(canonicalize(content)))
+    .digest('hex');
+}
+
+/**
+ * Recompute the chain and report the first entry that was altered, removed or reordered.
+ * Retention pruning drops the head of the chain, so the first entry's previousHash is trusted as anchor.
+ */
+export function verifyAuditChain(entries: AuditEntry[]): AuditChainVerification {
+  let expectedPrevious = entries[0]?.previousHash || AUDIT_GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+
+    if (entry.previousHash !== expectedPrevious) {
+      return { valid: false, checked: i, brokenAt: entry.id, reason: 'Chain link does not match previous entry' };
+    }
+
+    if (entry.hash !== hashAuditEntry(entry, expectedPrevious)) {
+      return { valid: false, checked: i, brokenAt: entry.id, reason: 'Entry content does not match its hash' };
+    }
+
+    expectedPrevious = entry.hash;
+  }
+
+  return { valid: true, checked: entries.length };
+}
+
+/**
+ * An entry after a JSON round trip, dates as ISO strings
+ */
+export type StoredAuditEntry = Omit<AuditEntry, 'timestamp' | 'deferredUntil'> & {
+  timestamp: string;
+  deferredUntil?: string;
+};
+
+/**
+ * Restore Date fields after a JSON round trip
+ */
+export function reviveAuditEntry(raw: StoredAuditEntry): AuditEntry {
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+    deferredUntil: raw.deferredUntil ? new Date(raw.deferredUntil) : undefined
+  };
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+/**
+ * Process-local store, the previous AuditLogger behaviour
+ */
+export class MemoryAuditStore implements AuditStore {
+  private entries: AuditEntry[] = [];
+
+  async load(since?: Date): Promise<AuditEntry[]> {
+    return this.entries.filter(e => !since || e.timestamp >= since);
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(entry);
+  }
+
+  async prune(before: Date): Promise<number> {
+    const kept = this.entries.filter(e => e.timestamp >= before);
+    const removed = this.entries.length - kept.length;
+    this.entries = kept;
+    return removed;
+  }
+}
+
+// ============================================================================
+// FILE STORE
+// ============================================================================
+
+/**
+ * Append-only JSON Lines file for local development and single-node deployments.
+ * With an orgId the store reads and prunes only that organization's chain.
+ */
+export class FileAuditStore implements AuditStore {
+  constructor(
+    private readonly filePath: string,
+    private readonly orgId?: string
+  ) {}
+
+  async load(since?: Date): Promise<AuditEntry[]> {
+    return (await this.loadAll())
+      .filter(e => !this.orgId || e.orgId === this.orgId)
+      .filter(e => !since || e.timestamp >= since);
+  }
+
+  append(entry: AuditEntry): Promise<void> {
+    return serializeFileWrite(this.filePath, () => appendFileLine(this.filePath, JSON.stringify(entry)));
+  }
+
+  prune(before: Date): Promise<number> {
+    return serializeFileWrite(this.filePath, () => this.rewrite(before));
+  }
+
+  private async rewrite(before: Date): Promise<number> {
+    const entries = await this.loadAll();
+    const kept = entries.filter(e => e.timestamp >= before || (this.orgId !== undefined && e.orgId !== this.orgId));
+    const removed = entries.length - kept.length;
+
+    if (removed > 0) {
+      const content = kept.map(e => JSON.stringify(e)).join('\n');
+      await writeFileAtomic(this.filePath, kept.length > 0 ? content + '\n' : '');
+    }
+
+    return removed;
+  }
+
+  private async loadAll(): Promise<AuditEntry[]> {
+    const content = await readFileIfExists(this.filePath);
+
+    return content
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => reviveAuditEntry(JSON.parse(line) as StoredAuditEntry));
+  }
+}
@@ -9,6 +9,15 @@ import type {
   ExperimentDesign,
   ExperimentResult
 } from './types';
+import {
+  AUDIT_GENESIS_HASH,
+  AuditChainConflictError,
+  MemoryAuditStore,
+  hashAuditEntry,
+  verifyAuditChain,
+  type AuditChainVerification,
+  type AuditStore
+} from './audit-store';
 
 // ============================================================================
 // AUDIT TYPES
@@ -25,11 +34,12 @@ export type AuditAction =
 
 export interface AuditEntry {
   id: string;
+  orgId?: string;  // Organization whose chain the entry belongs to
   timestamp: Date;
   userId: string;
   userName: string;
   action: AuditAction;
-  entityType: 'recommendation' | 'experiment' | 'spend_plan' | 'contract';
+  entityType: 'recommendation' | 'experiment' | 'spend_plan' | 'contract' | 'quote' | 'project' | 'vendor' | 'rfq';
   entityId: string;
   entityTitle: string;
 
@@ -49,6 +59,10 @@ export interface AuditEntry {
   ipAddress?: string;
   userAgent?: string;
   tags?: string[];
+
+  // Tamper evidence
+  previousHash?: string;
+  hash?: string;
 }
 
 export interface AuditSummary {
@@ -65,6 +79,12 @@ export interface AuditSummary {
   };
 }
 
+// Conflicting appends retried before the write fails
+const MAX_APPEND_ATTEMPTS = 5;
+
+// Entries past retention are deleted from the store at most this often, after a write
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 // ============================================================================
 // AUDIT LOGGER
 // ============================================================================
@@ -73,13 +93,56 @@ export class AuditLogger {
   private entries: AuditEntry[] = [];
   private readonly retentionDays: number;
   private readonly autoExport: boolean;
+  private readonly store: AuditStore;
+  private readonly orgId?: string;
+  private hydration: Promise<void> | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private unwritten: AuditEntry[] = [];  // Logged but not yet in the store, in chain order
+  private writeError: unknown = null;
+  private lastPruned = 0;
 
   constructor(config?: {
     retentionDays?: number;
     autoExport?: boolean;
+    store?: AuditStore;
+    orgId?: string;  // Stamped on every entry; the store should hold only this organization's chain
   }) {
     this.retentionDays = config?.retentionDays || Number(process.env.AUDIT_RETENTION_DAYS) || 365;
     this.autoExport = config?.autoExport || false;
+    this.store = config?.store || new MemoryAuditStore();
+    this.orgId = config?.orgId;
+  }
+
+  /**
+   * Load the persisted history within retention once, without touching the store.
+   * Await this before logging so new entries chain onto the stored history.
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = (async () => {
+        // Entries logged before hydration are written first so nothing is lost
+        await this.pendingWrites;
+
+        this.relink(await this.store.load(this.getRetentionCutoff()));
+      })().catch(error => {
+        this.hydration = null;
+        throw error;
+      });
+    }
+    return this.hydration;
+  }
+
+  /**
+   * Wait until every logged entry has been written to the store.
+   * Rejects with the first persistence error since the last flush; entries
+   * that failed to persist are dropped from the chain.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) throw error;
   }
 
   /**
@@ -113,14 +176,43 @@ export class AuditLogger {
       tags: this.extractTags(params.recommendation)
     };
 
-    this.entries.push(entry);
-    this.cleanOldEntries();
+    return this.record(entry);
+  }
 
-    if (this.autoExport) {
-      this.exportToStorage(entry);
-    }
+  /**
+   * Log an event that is not tied to a Recommendation object (API and UI actions)
+   */
+  logEvent(params: {
+    userId: string;
+    userName: string;
+    action: AuditAction;
+    entityType: AuditEntry['entityType'];
+    entityId: string;
+    entityTitle: string;
+    reasoning?: string;
+    modifications?: Record<string, any>;
+    expectedImpact?: ImpactEstimate;
+    actualImpact?: ImpactEstimate;
+    tags?: string[];
+  }): AuditEntry {
+    const entry: AuditEntry = {
+      id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date(),
+      userId: params.userId,
+      userName: params.userName,
+      action: params.action,
+      entityType: params.entityType,
+      entityId: params.entityId,
+      entityTitle: params.entityTitle,
+      reasoning: params.reasoning,
+      modifications: params.modifications,
+      expectedImpact: params.expectedImpact,
+      actualImpact: params.actualImpact,
+      sessionId: this.getSessionId(),
+      tags: params.tags
+    };
 
-    return entry;
+    return this.record(entry);
   }
 
   /**
@@ -143,7 +235,7 @@ export class AuditLogger {
       action: params.action,
       entityType: 'experiment',
       entityId: params.recommendationId,
-      entityTitle: params.experiment.hypothesis,
+      entityTitle: isResult ? (params.experiment as ExperimentResult).design.hypothesis : (params.experiment as ExperimentDesign).hypothesis,
       sessionId: this.getSessionId(),
       tags: ['experiment']
     };
@@ -157,8 +249,22 @@ export class AuditLogger {
       };
     }
 
-    this.entries.push(entry);
-    return entry;
+    return this.record(entry);
+  }
+
+  /**
+   * Most recent entries first
+   */
+  getEntries(limit?: number): AuditEntry[] {
+    const sorted = [...this.entries].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    return limit ? sorted.slice(0, limit) : sorted;
+  }
+
+  /**
+   * Recompute the hash chain over the retained history
+   */
+  verifyIntegrity(): AuditChainVerification {
+    return verifyAuditChain(this.entries);
   }
 
   /**
@@ -332,11 +438,98 @@ export class AuditLogger {
   // ============================================================================
 
   /**
-   * Clean entries older than retention period
+   * Chain, keep and persist a new entry
    */
-  private cleanOldEntries(): void {
+  private record(entry: AuditEntry): AuditEntry {
+    if (this.orgId) entry.orgId = this.orgId;
+    this.chain(entry, this.entries[this.entries.length - 1]?.hash || AUDIT_GENESIS_HASH);
+
+    this.entries.push(entry);
+    this.unwritten.push(entry);
+    this.cleanOldEntries();
+
+    // Writes are serialized so the store keeps chain order; failures surface in flush()
+    this.pendingWrites = this.pendingWrites
+      .then(() => this.persist(entry))
+      .then(() => this.pruneExpired(), error => {
+        this.writeError = this.writeError || error;
+      });
+
+    if (this.autoExport) {
+      this.exportToStorage(entry);
+    }
+
+    return entry;
+  }
+
+  private chain(entry: AuditEntry, previousHash: string): void {
+    entry.previousHash = previousHash;
+    entry.hash = hashAuditEntry(entry, previousHash);
+  }
+
+  /**
+   * Append an entry, re-chaining it onto the stored tail when another writer
+   * got there first. An entry that cannot be written leaves the chain and the
+   * entries after it are linked to its predecessor.
+   */
+  private async persist(entry: AuditEntry): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.store.append(entry);
+        this.unwritten = this.unwritten.filter(e => e !== entry);
+        return;
+      } catch (error) {
+        if (!(error instanceof AuditChainConflictError) || attempt >= MAX_APPEND_ATTEMPTS) {
+          const written = this.entries.filter(e => !this.unwritten.includes(e));
+          this.unwritten = this.unwritten.filter(e => e !== entry);
+          this.relink(written);
+          throw error;
+        }
+
+        this.relink(await this.store.load(this.getRetentionCutoff()));
+      }
+    }
+  }
+
+  /**
+   * Delete entries past retention from the store. Runs on the write path so
+   * reads never delete; a failure leaves the entry written and is retried
+   * after the next write.
+   */
+  private async pruneExpired(): Promise<void> {
+    if (Date.now() - this.lastPruned < PRUNE_INTERVAL_MS) return;
+
+    try {
+      await this.store.prune(this.getRetentionCutoff());
+      this.lastPruned = Date.now();
+    } catch (error) {
+      console.warn('[Audit] Failed to prune entries past retention', error);
+    }
+  }
+
+  /**
+   * Chain the unwritten entries, in order, after the written history
+   */
+  private relink(written: AuditEntry[]): void {
+    let previousHash = written[written.length - 1]?.hash || AUDIT_GENESIS_HASH;
+    for (const entry of this.unwritten) {
+      this.chain(entry, previousHash);
+      previousHash = entry.hash!;
+    }
+    this.entries = [...written, ...this.unwritten];
+  }
+
+  private getRetentionCutoff(): Date {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - this.retentionDays);
+    return cutoffDate;
+  }
+
+  /**
+   * Clean entries older than retention period
+   */
+  private cleanOldEntries(): void {
+    const cutoffDate = this.getRetentionCutoff();
 
     this.entries = this.entries.filter(e => e.timestamp > cutoffDate);
   }
@@ -515,9 +708,9 @@ export class AuditLogger {
 
 let auditLogger: AuditLogger | null = null;
 
-export function getAuditLogger(): AuditLogger {
+export function getAuditLogger(store?: AuditStore): AuditLogger {
   if (!auditLogger) {
-    auditLogger = new AuditLogger();
+    auditLogger = new AuditLogger({ store });
   }
   return auditLogger;
 }
@@ -9,6 +9,8 @@ import type {
   Insight,
   Action,
   Recommendation,
+  ImpactEstimate,
+  RiskFactor,
   Bottleneck,
   SpendPlan,
   DateRange,
@@ -167,7 +169,9 @@ NEXT STEPS:
 
     // Lead with health status
     let opening: string;
-    if (healthScore > 80) {
+    if (kpis.length === 0) {
+      opening = 'No KPI snapshots were reported for this period.';
+    } else if (healthScore > 80) {
       opening = 'The business is performing strongly across key metrics.';
     } else if (healthScore > 60) {
       opening = 'Business performance shows mixed signals requiring attention.';
@@ -255,8 +259,13 @@ NEXT STEPS:
    * Generates the Answer section (Recommendation with trade-offs)
    */
   private generateAnswer(recommendations: Recommendation[], spendPlans?: SpendPlan[]): string {
+    const spendShift = spendPlans && spendPlans.length > 0
+      ? this.describeSpendShift(spendPlans[0])
+      : '';
+
     if (recommendations.length === 0) {
-      return 'Continue monitoring while gathering more data for informed decision-making. Set triggers for action at defined thresholds. Review again in 7 days with additional context.';
+      const monitoring = 'Continue monitoring while gathering more data for informed decision-making. Set triggers for action at defined thresholds. Review again in 7 days with additional context.';
+      return spendShift ? `${spendShift} ${monitoring}` : monitoring;
     }
 
     // Get top recommendation
@@ -267,13 +276,8 @@ NEXT STEPS:
     let recommendation = `Implement "${topRec.title}" to ${impact}.`;
 
     // Add spend reallocation if available
-    if (spendPlans && spendPlans.length > 0) {
-      const plan = spendPlans[0];
-      const topShift = plan.allocations.sort((a, b) =>
-        Math.abs(b.recommendedPercent - b.currentPercent) -
-        Math.abs(a.recommendedPercent - a.currentPercent)
-      )[0];
-      recommendation += ` Reallocate ${Math.abs(topShift.recommendedPercent - topShift.currentPercent).toFixed(0)}% of marketing spend to ${topShift.channel.name}.`;
+    if (spendShift) {
+      recommendation += ` ${spendShift}`;
     }
 
     // Add trade-offs
@@ -284,6 +288,27 @@ NEXT STEPS:
     return recommendation + tradeoff;
   }
 
+  /**
+   * Describes the largest channel shift in a spend plan and what it is expected to return
+   */
+  private describeSpendShift(plan: SpendPlan): string {
+    const topShift = [...plan.allocations].sort((a, b) =>
+      Math.abs(b.recommendedPercent - b.currentPercent) -
+      Math.abs(a.recommendedPercent - a.currentPercent)
+    )[0];
+    if (!topShift) return '';
+
+    const shift = topShift.recommendedPercent - topShift.currentPercent;
+    const { leads, revenue, roi } = plan.expectedOutcome;
+    const outcome = `The $${Math.round(plan.totalBudget / 1000)}K plan is expected to yield ${Math.round(leads)} leads and $${Math.round(revenue / 1000)}K revenue (${roi.toFixed(1)}x ROI).`;
+
+    if (Math.abs(shift) < 0.5) {
+      return `Hold the current channel mix. ${outcome}`;
+    }
+
+    return `${shift > 0 ? 'Reallocate' : 'Pull back'} ${Math.abs(shift).toFixed(0)}% of marketing spend ${shift > 0 ? 'to' : 'from'} ${topShift.channel.name}. ${outcome}`;
+  }
+
   /**
    * Prioritizes actions across all recommendations
    */
@@ -0,0 +1,103 @@
+/**
+ * Experiment Storage
+ * Pluggable persistence for ExperimentManager
+ */
+
+import type { ExperimentConfig } from './experiments';
+import { readFileIfExists, serializeFileWrite, writeFileAtomic } from './file-store';
+import type { ExperimentResult } from './types';
+
+// ============================================================================
+// STORE CONTRACT
+// ============================================================================
+
+export interface ExperimentStore {
+  /** Load every persisted experiment */
+  load(): Promise<ExperimentConfig[]>;
+  /** Insert or replace an experiment by ID */
+  save(experiment: ExperimentConfig): Promise<void>;
+}
+
+/**
+ * An experiment after a JSON round trip, dates as ISO strings
+ */
+export type StoredExperiment = Omit<ExperimentConfig, 'startDate' | 'endDate' | 'result'> & {
+  startDate?: string;
+  endDate?: string;
+  result?: Omit<ExperimentResult, 'startDate' | 'endDate'> & { startDate: string; endDate: string };
+};
+
+/**
+ * Restore Date fields after a JSON round trip
+ */
+export function reviveExperiment(raw: StoredExperiment): ExperimentConfig {
+  const toDate = (value?: string) => (value ? new Date(value) : undefined);
+
+  return {
+    ...raw,
+    startDate: toDate(raw.startDate),
+    endDate: toDate(raw.endDate),
+    result: raw.result
+      ? { ...raw.result, startDate: new Date(raw.result.startDate), endDate: new Date(raw.result.endDate) }
+      : undefined
+  };
+}
+
+// ============================================================================
+// MEMORY STORE
+// ============================================================================
+
+export class MemoryExperimentStore implements ExperimentStore {
+  private experiments: Map<string, ExperimentConfig> = new Map();
+
+  async load(): Promise<ExperimentConfig[]> {
+    return Array.from(this.experiments.values());
+  }
+
+  async save(experiment: ExperimentConfig): Promise<void> {
+    this.experiments.set(experiment.id, experiment);
+  }
+}
+
+// ============================================================================
+// FILE STORE
+// ============================================================================
+
+/**
+ * Single JSON document for local development and single-node deployments,
+ * replaced atomically on every save. With an orgId the store reads only that organization's experiments and
+ * stamps it on the ones it saves.
+ */
+export class FileExperimentStore implements ExperimentStore {
+  constructor(
+    private readonly filePath: string,
+    private readonly orgId?: string
+  ) {}
+
+  async load(): Promise<ExperimentConfig[]> {
+    return (await this.loadAll()).filter(e => !this.orgId || e.orgId === this.orgId);
+  }
+
+  save(experiment: ExperimentConfig): Promise<void> {
+    return serializeFileWrite(this.filePath, () => this.write(experiment));
+  }
+
+  private async write(experiment: ExperimentConfig): Promise<void> {
+    const experiments = await this.loadAll();
+    const stored = this.orgId ? { ...experiment, orgId: this.orgId } : experiment;
+    const index = experiments.findIndex(e => e.id === experiment.id && e.orgId === stored.orgId);
+
+    if (index >= 0) {
+      experiments[index] = stored;
+    } else {
+      experiments.push(stored);
+    }
+
+    await writeFileAtomic(this.filePath, JSON.stringify(experiments, null, 2));
+  }
+
+  private async loadAll(): Promise<ExperimentConfig[]> {
+    const content = await readFileIfExists(this.filePath);
+    return content ? (JSON.parse(content) as StoredExperiment[]).map(reviveExperiment) : [];
+  }
+}
@@ -11,16 +11,40 @@ import type {
   ImpactEstimate
 } from './types';
 
-import { getAuditLogger } from './audit';
+import { getAuditLogger, type AuditLogger } from './audit';
+import { MemoryExperimentStore, type ExperimentStore } from './experiment-store';
 
 // ============================================================================
 // EXPERIMENT TYPES
 // ============================================================================
 
+export interface GroupObservation {
+  exposures: number;    // Units assigned to the group (leads, visitors, proposals)
+  conversions: number;  // Units that hit the primary metric
+}
+
+export interface ExperimentObservations {
+  control: GroupObservation;
+  treatment: GroupObservation;
+}
+
+export interface SignificanceTest {
+  controlRate: number;
+  treatmentRate: number;
+  lift: number;  // % change of treatment over control
+  zScore: number;
+  pValue: number;  // Two-tailed
+  significant: boolean;
+}
+
 export interface ExperimentConfig {
   id: string;
+  orgId?: string;  // Set by stores scoped to an organization
+  name?: string;
   recommendationId: string;
+  recommendationTitle?: string;
   hypothesis: string;
+  createdBy?: { userId: string; userName: string };
 
   // Metrics
   primaryMetric: KPIDefinition;
@@ -55,7 +79,9 @@ export interface ExperimentConfig {
   pausedReason?: string;
 
   // Results
+  observations?: ExperimentObservations;
   result?: ExperimentResult;
+  significance?: SignificanceTest;
   learnings?: string[];
 }
 
@@ -105,7 +131,50 @@ export interface ExperimentProgress {
 
 export class ExperimentManager {
   private experiments: Map<string, ExperimentConfig> = new Map();
-  private readonly auditLogger = getAuditLogger();
+  private readonly auditLogger: AuditLogger;
+  private readonly store: ExperimentStore;
+  private hydration: Promise<void> | null = null;
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private writeError: unknown = null;
+
+  constructor(config?: {
+    store?: ExperimentStore;
+    auditLogger?: AuditLogger;
+  }) {
+    this.store = config?.store || new MemoryExperimentStore();
+    this.auditLogger = config?.auditLogger || getAuditLogger();
+  }
+
+  /**
+   * Load persisted experiments once
+   */
+  hydrate(): Promise<void> {
+    if (!this.hydration) {
+      this.hydration = (async () => {
+        await this.pendingWrites;
+        const persisted = await this.store.load();
+        this.experiments = new Map(persisted.map(e => [e.id, e]));
+      })().catch(error => {
+        this.hydration = null;
+        throw error;
+      });
+    }
+    return this.hydration;
+  }
+
+  /**
+   * Wait until experiments and their audit entries are written.
+   * Rejects with the first persistence error since the last flush.
+   */
+  async flush(): Promise<void> {
+    await this.pendingWrites;
+
+    const error = this.writeError;
+    this.writeError = null;
+    if (error) throw error;
+
+    await this.auditLogger.flush();
+  }
 
   /**
    * Create experiment from recommendation
@@ -120,12 +189,35 @@ export class ExperimentManager {
       throw new Error('Recommendation is not testable or lacks experiment design');
     }
 
-    const design = recommendation.testDesign;
+    return this.createFromDesign({
+      recommendationId: recommendation.id,
+      recommendationTitle: recommendation.title,
+      design: recommendation.testDesign
+    }, userId, userName);
+  }
+
+  /**
+   * Create experiment from a design when only the recommendation reference is at hand
+   */
+  createFromDesign(
+    params: {
+      recommendationId: string;
+      recommendationTitle?: string;
+      name?: string;
+      design: ExperimentDesign;
+    },
+    userId: string,
+    userName: string
+  ): ExperimentConfig {
+    const { design } = params;
 
     const experiment: ExperimentConfig = {
       id: `exp-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      recommendationId: recommendation.id,
+      name: params.name || params.recommendationTitle || design.hypothesis,
+      recommendationId: params.recommendationId,
+      recommendationTitle: params.recommendationTitle,
       hypothesis: design.hypothesis,
+      createdBy: { userId, userName },
 
       // Metrics
       primaryMetric: design.metric,
@@ -152,38 +244,79 @@ export class ExperimentManager {
       ],
 
       // Status
-      status: 'designed'
+      status: 'designed',
+      observations: {
+        control: { exposures: 0, conversions: 0 },
+        treatment: { exposures: 0, conversions: 0 }
+      }
     };
 
     this.experiments.set(experiment.id, experiment);
+    this.persist(experiment);
+
+    return experiment;
+  }
+
+  /**
+   * Start an experiment
+   */
+  startExperiment(experimentId: string, userId: string, userName: string): ExperimentConfig {
+    const experiment = this.experiments.get(experimentId);
+    if (!experiment) throw new Error('Experiment not found');
+
+    if (experiment.status !== 'designed') {
+      throw new Error(`Cannot start experiment in status ${experiment.status}`);
+    }
+
+    experiment.status = 'running';
+    experiment.startDate = new Date();
 
-    // Log creation
+    this.experiments.set(experimentId, experiment);
+    this.persist(experiment);
+
+    // Log start against the originating recommendation
     this.auditLogger.logExperiment({
       userId,
       userName,
       action: 'experiment_start',
-      experiment: design,
-      recommendationId: recommendation.id
+      experiment: this.toDesign(experiment),
+      recommendationId: experiment.recommendationId
     });
 
     return experiment;
   }
 
   /**
-   * Start an experiment
+   * Add observed counts for a running experiment (cumulative)
    */
-  startExperiment(experimentId: string): ExperimentConfig {
+  recordObservations(experimentId: string, observed: ExperimentObservations): ExperimentConfig {
     const experiment = this.experiments.get(experimentId);
     if (!experiment) throw new Error('Experiment not found');
 
-    if (experiment.status !== 'designed') {
-      throw new Error(`Cannot start experiment in status ${experiment.status}`);
+    if (experiment.status !== 'running') {
+      throw new Error('Experiment is not running');
     }
 
-    experiment.status = 'running';
-    experiment.startDate = new Date();
+    this.validateObservations(observed);
+
+    const current = experiment.observations || {
+      control: { exposures: 0, conversions: 0 },
+      treatment: { exposures: 0, conversions: 0 }
+    };
+
+    experiment.observations = {
+      control: {
+        exposures: current.control.exposures + observed.control.exposures,
+        conversions: current.control.conversions + observed.control.conversions
+      },
+      treatment: {
+        exposures: current.treatment.exposures + observed.treatment.exposures,
+        conversions: current.treatment.conversions + observed.treatment.conversions
+      }
+    };
 
     this.experiments.set(experimentId, experiment);
+    this.persist(experiment);
     return experiment;
   }
 
@@ -202,11 +335,14 @@ export class ExperimentManager {
       ? (Date.now() - experiment.startDate.getTime()) / (1000 * 60 * 60 * 24)
       : 0;
 
-    // Simulate progress (in production, would query actual data)
-    const currentSampleSize = Math.min(
-      experiment.sampleSize,
-      Math.floor(daysSinceStart * experiment.sampleSize / experiment.duration)
-    );
+    const control = experiment.observations?.control || { exposures: 0, conversions: 0 };
+    const treatment = experiment.observations?.treatment || { exposures: 0, conversions: 0 };
+    const currentSampleSize = control.exposures + treatment.exposures;
+
+    // Interim test once both arms have enough data to be meaningful
+    const interim = control.exposures > 50 && treatment.exposures > 50
+      ? this.testSignificance(control, treatment, experiment.confidenceLevel)
+      : undefined;
 
     const progress: ExperimentProgress = {
       experiment,
@@ -215,20 +351,19 @@ export class ExperimentManager {
       currentDuration: daysSinceStart,
       durationProgress: (daysSinceStart / experiment.duration) * 100,
 
-      // Simulate interim metrics
-      interimMetrics: currentSampleSize > 100 ? {
-        control: 100,
-        treatment: 115,
-        lift: 15,
-        pValue: 0.03,
-        significant: currentSampleSize > experiment.minSampleSize
+      interimMetrics: interim ? {
+        control: interim.controlRate,
+        treatment: interim.treatmentRate,
+        lift: interim.lift,
+        pValue: interim.pValue,
+        significant: interim.significant && currentSampleSize >= experiment.minSampleSize
       } : undefined,
 
-      // Data quality checks
+      // Data quality checks on the recorded counts
       dataQuality: {
-        missingData: Math.random() * 5,  // 0-5% missing
-        outliers: Math.floor(Math.random() * 10),
-        imbalance: 0.48 + Math.random() * 0.04  // 48-52% split
+        missingData: 0,
+        outliers: 0,
+        imbalance: currentSampleSize > 0 ? control.exposures / currentSampleSize : 0.5
       },
 
       estimatedCompletion: new Date(
@@ -239,10 +374,12 @@ export class ExperimentManager {
     };
 
     // Check for early stop conditions
-    if (progress.interimMetrics) {
-      if (progress.interimMetrics.pValue < 0.001 && currentSampleSize > experiment.minSampleSize) {
-        progress.earlyStopReason = 'success';
-      } else if (progress.interimMetrics.lift < 1 && daysSinceStart > experiment.minDuration) {
+    if (interim) {
+      const improving = this.isImprovement(experiment, interim.lift);
+
+      if (interim.pValue < 0.001 && currentSampleSize > experiment.minSampleSize) {
+        progress.earlyStopReason = improving ? 'success' : 'harm';
+      } else if (Math.abs(interim.lift) < 1 && daysSinceStart > experiment.minDuration) {
         progress.earlyStopReason = 'futility';
       }
     }
@@ -251,16 +388,15 @@ export class ExperimentManager {
   }
 
   /**
-   * Complete an experiment with results
+   * Complete an experiment from observed counts.
+   * Lift, p-value and significance are computed here, never taken from the caller.
    */
   completeExperiment(
     experimentId: string,
     results: {
-      controlMetric: number;
-      treatmentMetric: number;
-      pValue: number;
-      decision: 'roll_out' | 'iterate' | 'abandon';
-      learnings: string[];
+      observed?: ExperimentObservations;  // Final totals; defaults to the recorded observations
+      decision?: 'roll_out' | 'iterate' | 'abandon';
+      learnings?: string[];
     },
     userId: string,
     userName: string
@@ -272,39 +408,39 @@ export class ExperimentManager {
       throw new Error(`Cannot complete experiment in status ${experiment.status}`);
     }
 
-    const lift = ((results.treatmentMetric - results.controlMetric) / results.controlMetric) * 100;
-    const significant = results.pValue < (1 - experiment.confidenceLevel);
+    const observed = results.observed || experiment.observations;
+    if (!observed) throw new Error('Experiment has no observations');
+    this.validateObservations(observed);
+
+    if (observed.control.exposures === 0 || observed.treatment.exposures === 0) {
+      throw new Error('Both control and treatment need at least one exposure');
+    }
+
+    const significance = this.testSignificance(observed.control, observed.treatment, experiment.confidenceLevel);
+    const decision = results.decision || this.recommendDecision(experiment, significance);
 
     const result: ExperimentResult = {
-      design: {
-        hypothesis: experiment.hypothesis,
-        metric: experiment.primaryMetric,
-        targetDelta: experiment.minimumDetectableEffect,
-        sampleSize: experiment.sampleSize,
-        duration: experiment.duration,
-        controlGroup: experiment.controlGroup,
-        treatmentGroup: experiment.treatmentGroup,
-        successThreshold: experiment.minimumDetectableEffect,
-        statisticalPower: experiment.statisticalPower,
-        confidenceLevel: experiment.confidenceLevel
-      },
+      design: this.toDesign(experiment),
       startDate: experiment.startDate!,
       endDate: new Date(),
-      controlMetric: results.controlMetric,
-      treatmentMetric: results.treatmentMetric,
-      lift,
-      pValue: results.pValue,
-      significant,
-      decision: results.decision,
-      learnings: results.learnings
+      controlMetric: significance.controlRate,
+      treatmentMetric: significance.treatmentRate,
+      lift: significance.lift,
+      pValue: significance.pValue,
+      significant: significance.significant,
+      decision,
+      learnings: results.learnings || []
     };
 
     experiment.status = 'completed';
     experiment.endDate = result.endDate;
+    experiment.observations = observed;
+    experiment.significance = significance;
     experiment.result = result;
-    experiment.learnings = results.learnings;
+    experiment.learnings = result.learnings;
 
     this.experiments.set(experimentId, experiment);
+    this.persist(experiment);
 
     // Log completion
     this.auditLogger.logExperiment({
@@ -321,6 +457,34 @@ export class ExperimentManager {
     return result;
   }
 
+  /**
+   * Two-proportion z-test (pooled variance, two-tailed)
+   */
+  testSignificance(
+    control: GroupObservation,
+    treatment: GroupObservation,
+    confidenceLevel: number = 0.95
+  ): SignificanceTest {
+    const controlRate = control.exposures > 0 ? control.conversions / control.exposures : 0;
+    const treatmentRate = treatment.exposures > 0 ? treatment.conversions / treatment.exposures : 0;
+    const lift = controlRate > 0 ? ((treatmentRate - controlRate) / controlRate) * 100 : 0;
+
+    const pooled = (control.conversions + treatment.conversions) / (control.exposures + treatment.exposures);
+    const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / control.exposures + 1 / treatment.exposures));
+
+    const zScore = standardError > 0 ? (treatmentRate - controlRate) / standardError : 0;
+    const pValue = standardError > 0 ? 2 * (1 - this.normalCdf(Math.abs(zScore))) : 1;
+
+    return {
+      controlRate,
+      treatmentRate,
+      lift,
+      zScore,
+      pValue,
+      significant: pValue < (1 - confidenceLevel)
+    };
+  }
+
   /**
    * Calculate required sample size
    */
@@ -370,6 +534,13 @@ export class ExperimentManager {
     };
   }
 
+  /**
+   * Get a single experiment
+   */
+  getExperiment(experimentId: string): ExperimentConfig | undefined {
+    return this.experiments.get(experimentId);
+  }
+
   /**
    * Get all experiments by status
    */
@@ -434,10 +605,87 @@ export class ExperimentManager {
     return { average, median, byDecision };
   }
 
+  /**
+   * Share of completed experiments that shipped a significant improvement
+   */
+  calculateBattingAverage(): { completed: number; successful: number; rate: number } {
+    const completed = Array.from(this.experiments.values())
+      .filter(e => e.status === 'completed' && e.result);
+    const successful = completed.filter(e => this.isSuccess(e, e.result!)).length;
+
+    return {
+      completed: completed.length,
+      successful,
+      rate: completed.length > 0 ? successful / completed.length : 0
+    };
+  }
+
   // ============================================================================
   // PRIVATE HELPERS
   // ============================================================================
 
+  /**
+   * Queue a write to the store, serialized to keep the latest state last;
+   * failures surface in flush()
+   */
+  private persist(experiment: ExperimentConfig): void {
+    this.pendingWrites = this.pendingWrites
+      .then(() => this.store.save(experiment))
+      .catch(error => {
+        this.writeError = this.writeError || error;
+      });
+  }
+
+  private validateObservations(observed: ExperimentObservations): void {
+    for (const group of [observed.control, observed.treatment]) {
+      if (
+        !Number.isFinite(group.exposures) || !Number.isFinite(group.conversions) ||
+        group.exposures < 0 || group.conversions < 0 || group.conversions > group.exposures
+      ) {
+        throw new Error('Observations need non-negative counts with conversions <= exposures');
+      }
+    }
+  }
+
+  /**
+   * Lift in the direction the primary metric should move
+   */
+  private isImprovement(experiment: ExperimentConfig, lift: number): boolean {
+    return experiment.primaryMetric.direction === 'down' ? lift < 0 : lift > 0;
+  }
+
+  private isSuccess(experiment: ExperimentConfig, result: ExperimentResult): boolean {
+    return result.significant &&
+      this.isImprovement(experiment, result.lift) &&
+      result.decision === 'roll_out';
+  }
+
+  /**
+   * Default decision when the caller does not override it
+   */
+  private recommendDecision(
+    experiment: ExperimentConfig,
+    significance: SignificanceTest
+  ): ExperimentResult['decision'] {
+    if (!significance.significant) return 'iterate';
+    return this.isImprovement(experiment, significance.lift) ? 'roll_out' : 'abandon';
+  }
+
+  private toDesign(experiment: ExperimentConfig): ExperimentDesign {
+    return {
+      hypothesis: experiment.hypothesis,
+      metric: experiment.primaryMetric,
+      targetDelta: experiment.minimumDetectableEffect,
+      sampleSize: experiment.sampleSize,
+      duration: experiment.duration,
+      controlGroup: experiment.controlGroup,
+      treatmentGroup: experiment.treatmentGroup,
+      successThreshold: experiment.minimumDetectableEffect,
+      statisticalPower: experiment.statisticalPower,
+      confidenceLevel: experiment.confidenceLevel
+    };
+  }
+
   /**
    * Check if experiment can be stopped early
    */
@@ -466,10 +714,8 @@ export class ExperimentManager {
     experiment: ExperimentConfig,
     result: ExperimentResult
   ): void {
-    // Success = significant positive lift and rolled out
-    const success = result.significant &&
-                   result.lift > 0 &&
-                   result.decision === 'roll_out';
+    // Success = significant improvement and rolled out
+    const success = this.isSuccess(experiment, result);
 
     // This would update a persistent store in production
     console.log(`Experiment ${experiment.id}: ${success ? 'SUCCESS' : 'FAILURE'}`);
@@ -490,6 +736,17 @@ export class ExperimentManager {
     return Math.sqrt(2) * this.inverseErf(1 - 2 * p);
   }
 
+  /**
+   * Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation)
+   */
+  private normalCdf(z: number): number {
+    const x = Math.abs(z) / Math.SQRT2;
+    const t = 1 / (1 + 0.3275911 * x);
+    const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+
+    return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+  }
+
   /**
    * Inverse error function approximation
    */
@@ -0,0 +1,54 @@
+/**
+ * File Storage
+ * Shared plumbing for the JSON file stores of the audit log, experiments and
+ * org-scoped records: one write queue per file, reads that treat a missing
+ * file as empty, and atomic replacement
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Writes are serialized per file, across every store instance in the process
+const fileWrites = new Map<string, Promise<unknown>>();
+
+/**
+ * Run the write once every earlier write to the same file has settled.
+ * A failed write rejects its own caller and does not block the next one.
+ */
+export function serializeFileWrite<T>(filePath: string, write: () => Promise<T>): Promise<T> {
+  const next = (fileWrites.get(filePath) || Promise.resolve())
+    .catch(() => undefined)
+    .then(write);
+  fileWrites.set(filePath, next);
+  return next;
+}
+
+/**
+ * File content, or an empty string when the file does not exist yet
+ */
+export async function readFileIfExists(filePath: string): Promise<string> {
+  try {
+    return await fs.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') return '';
+    throw error;
+  }
+}
+
+/**
+ * Replace the file through a temporary file and a rename, so readers never see a partial document
+ */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const temporary = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, content, 'utf8');
+  await fs.rename(temporary, filePath);
+}
+
+/**
+ * Append to the file, creating it and its directory on first use
+ */
+export async function appendFileLine(filePath: string, line: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.appendFile(filePath, line + '\n', 'utf8');
+}
@@ -0,0 +1,226 @@
+/**
+ * Forecast Models
+ * Exponential smoothing family used by ForecastEngine: Holt-Winters (additive and
+ * multiplicative), damped-trend Holt and an OLS linear trend fallback
+ */
+
+// ============================================================================
+// MODEL CONTRACT
+// ============================================================================
+
+export interface FittedForecastModel {
+  name: string;
+  params: Record<string, number>;
+  residuals: number[];  // One-step-ahead in-sample errors (actual - predicted)
+  /** Point forecasts for the next `steps` periods */
+  forecast(steps: number): number[];
+}
+
+export interface ForecastModel {
+  name: string;
+  label: string;
+  /** Observations needed to fit and produce at least one residual */
+  minObservations(seasonLength: number | null): number;
+  /** Fit on the series; null when the model does not apply (e.g. no season) */
+  fit(values: number[], seasonLength: number | null): FittedForecastModel | null;
+}
+
+const ALPHA_GRID = [0.1, 0.2, 0.4, 0.6, 0.8];
+const BETA_GRID = [0.01, 0.05, 0.1, 0.2];
+const GAMMA_GRID = [0.05, 0.1, 0.2, 0.4];
+const PHI_GRID = [0.8, 0.9, 0.95, 0.98];
+
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const sse = (residuals: number[]) => residuals.reduce((sum, r) => sum + r * r, 0);
+
+/**
+ * Grid search over smoothing parameters, keeping the lowest in-sample SSE
+ */
+function bestFit(candidates: Array<FittedForecastModel | null>): FittedForecastModel | null {
+  let best: FittedForecastModel | null = null;
+  let bestError = Infinity;
+
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const error = sse(candidate.residuals);
+    if (Number.isFinite(error) && error < bestError) {
+      best = candidate;
+      bestError = error;
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// HOLT-WINTERS
+// ============================================================================
+
+type Seasonality = 'additive' | 'multiplicative';
+
+function fitHoltWinters(
+  values: number[],
+  m: number,
+  seasonality: Seasonality,
+  alpha: number,
+  beta: number,
+  gamma: number
+): FittedForecastModel | null {
+  const multiplicative = seasonality === 'multiplicative';
+
+  // Initial components from the first two seasons
+  const firstSeason = mean(values.slice(0, m));
+  const secondSeason = mean(values.slice(m, 2 * m));
+  if (multiplicative && firstSeason <= 0) return null;
+
+  let level = firstSeason;
+  let trend = (secondSeason - firstSeason) / m;
+  const seasonal = values.slice(0, m).map(v => (multiplicative ? v / firstSeason : v - firstSeason));
+  const residuals: number[] = [];
+
+  for (let t = m; t < values.length; t++) {
+    const s = seasonal[t - m];
+    const predicted = multiplicative ? (level + trend) * s : level + trend + s;
+    residuals.push(values[t] - predicted);
+
+    const previousLevel = level;
+    level = multiplicative
+      ? alpha * (values[t] / s) + (1 - alpha) * (level + trend)
+      : alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonal.push(multiplicative
+      ? gamma * (values[t] / level) + (1 - gamma) * s
+      : gamma * (values[t] - level) + (1 - gamma) * s);
+  }
+
+  const n = values.length;
+
+  return {
+    name: `holt_winters_${seasonality}`,
+    params: { alpha, beta, gamma, seasonLength: m },
+    residuals,
+    forecast: (steps: number) => Array.from({ length: steps }, (_, i) => {
+      const h = i + 1;
+      const s = seasonal[n - m + ((h - 1) % m)];
+      return multiplicative ? (level + h * trend) * s : level + h * trend + s;
+    })
+  };
+}
+
+function holtWintersModel(seasonality: Seasonality): ForecastModel {
+  return {
+    name: `holt_winters_${seasonality}`,
+    label: `Holt-Winters ${seasonality}`,
+    minObservations: (seasonLength) => (seasonLength ? 2 * seasonLength + 1 : Infinity),
+    fit(values, seasonLength) {
+      if (!seasonLength || seasonLength < 2 || values.length < 2 * seasonLength + 1) return null;
+      if (seasonality === 'multiplicative' && values.some(v => v <= 0)) return null;
+
+      const candidates: Array<FittedForecastModel | null> = [];
+      for (const alpha of ALPHA_GRID) {
+        for (const beta of BETA_GRID) {
+          for (const gamma of GAMMA_GRID) {
+            candidates.push(fitHoltWinters(values, seasonLength, seasonality, alpha, beta, gamma));
+          }
+        }
+      }
+      return bestFit(candidates);
+    }
+  };
+}
+
+// ============================================================================
+// DAMPED TREND (HOLT)
+// ============================================================================
+
+function fitDampedTrend(values: number[], alpha: number, beta: number, phi: number): FittedForecastModel {
+  let level = values[0];
+  let trend = values[1] - values[0];
+  const residuals: number[] = [];
+
+  for (let t = 1; t < values.length; t++) {
+    const predicted = level + phi * trend;
+    residuals.push(values[t] - predicted);
+
+    const previousLevel = level;
+    level = alpha * values[t] + (1 - alpha) * (level + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+  }
+
+  return {
+    name: 'damped_trend',
+    params: { alpha, beta, phi },
+    residuals,
+    forecast: (steps: number) => {
+      const points: number[] = [];
+      let damping = 0;
+      for (let h = 1; h <= steps; h++) {
+        damping += Math.pow(phi, h);
+        points.push(level + damping * trend);
+      }
+      return points;
+    }
+  };
+}
+
+export const dampedTrendModel: ForecastModel = {
+  name: 'damped_trend',
+  label: 'Damped trend',
+  minObservations: () => 3,
+  fit(values) {
+    if (values.length < 3) return null;
+
+    const candidates: FittedForecastModel[] = [];
+    for (const alpha of ALPHA_GRID) {
+      for (const beta of BETA_GRID) {
+        for (const phi of PHI_GRID) {
+          candidates.push(fitDampedTrend(values, alpha, beta, phi));
+        }
+      }
+    }
+    return bestFit(candidates);
+  }
+};
+
+// ============================================================================
+// LINEAR TREND
+// ============================================================================
+
+export const linearTrendModel: ForecastModel = {
+  name: 'linear_trend',
+  label: 'Linear trend',
+  minObservations: () => 3,
+  fit(values) {
+    if (values.length < 3) return null;
+
+    // Ordinary least squares on the time index
+    const n = values.length;
+    const xMean = (n - 1) / 2;
+    const yMean = mean(values);
+    let numerator = 0;
+    let denominator = 0;
+    values.forEach((y, x) => {
+      numerator += (x - xMean) * (y - yMean);
+      denominator += (x - xMean) * (x - xMean);
+    });
+    const slope = denominator === 0 ? 0 : numerator / denominator;
+    const intercept = yMean - slope * xMean;
+
+    return {
+      name: 'linear_trend',
+      params: { slope, intercept },
+      residuals: values.map((y, x) => y - (intercept + slope * x)),
+      forecast: (steps: number) => Array.from({ length: steps }, (_, i) => intercept + slope * (n + i))
+    };
+  }
+};
+
+export const holtWintersAdditiveModel = holtWintersModel('additive');
+export const holtWintersMultiplicativeModel = holtWintersModel('multiplicative');
+
+export const defaultForecastModels: ForecastModel[] = [
+  holtWintersAdditiveModel,
+  holtWintersMultiplicativeModel,
+  dampedTrendModel,
+  linearTrendModel
+];
@@ -1,14 +1,14 @@
 /**
  * Forecast Engine with Confidence Bands
- * Wall Street-grade financial projections with uncertainty quantification
+ * Pluggable exponential smoothing models, chosen or blended per metric by
+ * rolling-origin backtesting, with Monte Carlo uncertainty bands
  */
 
-import type {
-  KPISnapshot,
-  TimeWindow,
-  DateRange,
-  MetricDelta
-} from './types';
+import type { KPISnapshot } from './types';
+import { defaultForecastModels } from './forecast-models';
+import type { FittedForecastModel, ForecastModel } from './forecast-models';
+import { createRandom } from './random';
+import type { RandomSource } from './random';
 
 // ============================================================================
 // FORECAST TYPES
@@ -35,6 +35,31 @@ export interface ForecastScenario {
   competitionFactor: number;  // Competition impact (0-1, lower is worse)
 }
 
+export interface SeriesPoint {
+  timestamp: Date;
+  value: number;
+}
+
+export type ModelSelection = 'best' | 'weighted';
+
+export interface ForecastOptions {
+  seasonLength?: number | null;  // Periods per season; inferred from cadence when omitted
+  selection?: ModelSelection;  // Single best model or inverse-sMAPE weighted ensemble
+  backtestOrigins?: number;  // Max rolling origins evaluated per model
+  seed?: number;  // Replays the Monte Carlo bands of a stored forecast
+}
+
+export interface ModelEvaluation {
+  name: string;
+  label: string;
+  mape: number | null;  // % (null when every actual in the holdout is 0)
+  smape: number | null;  // % (null when the model could not be backtested)
+  origins: number;
+  weight: number;  // Share of the final forecast (0-1)
+  params: Record<string, number>;  // Smoothing parameters fitted on the full series
+  skippedReason?: string;
+}
+
 export interface ForecastResult {
   metric: string;
   historical: ForecastPoint[];
@@ -43,8 +68,16 @@ export interface ForecastResult {
   scenarios: Map<string, ForecastPoint[]>;
   confidence: number;  // Overall forecast confidence (0-1)
   methodology: string;
+  models: ModelEvaluation[];
+  selection: ModelSelection | 'naive';  // naive = too little history to backtest
+  seasonLength: number | null;
+  stepDays: number;  // Cadence of the series (1 = daily, 7 = weekly, ~30 = monthly)
+  seed: number;  // PRNG seed of the Monte Carlo bands
+  simulationRuns: number;
 }
 
+const DAY_MS = 1000 * 60 * 60 * 24;
+
 // ============================================================================
 // FORECAST ENGINE
 // ============================================================================
@@ -52,113 +85,323 @@ export interface ForecastResult {
 export class ForecastEngine {
   private readonly FORECAST_HORIZON_DAYS = Number(process.env.FORECAST_HORIZON_DAYS) || 90;
   private readonly MONTE_CARLO_RUNS = 1000;
+  private readonly BACKTEST_ORIGINS = 8;
+  private models: ForecastModel[];
+
+  constructor(models: ForecastModel[] = defaultForecastModels) {
+    this.models = [...models];
+  }
+
+  /**
+   * Add a model to the candidate set (replaces one with the same name)
+   */
+  registerModel(model: ForecastModel): void {
+    this.models = [...this.models.filter(m => m.name !== model.name), model];
+  }
+
+  getModels(): ForecastModel[] {
+    return [...this.models];
+  }
 
   /**
-   * Generate forecast with confidence bands
+   * Generate forecast with confidence bands from KPI snapshots
    */
   generateForecast(
     historical: KPISnapshot[],
     metricName: string,
-    horizonDays?: number
+    horizonDays?: number,
+    options: ForecastOptions = {}
   ): ForecastResult {
-    const horizon = horizonDays || this.FORECAST_HORIZON_DAYS;
-
-    // Convert historical data to forecast points
-    const historicalPoints = this.convertToForecastPoints(historical);
-
-    // Generate base forecast using ensemble method
-    const baseForecast = this.generateBaseForecast(historicalPoints, horizon);
+    return this.forecastSeries(
+      historical.map(h => ({ timestamp: h.timestamp, value: h.value })),
+      metricName,
+      horizonDays,
+      options
+    );
+  }
 
-    // Generate scenarios
-    const scenarios = this.generateScenarios(baseForecast, historical);
+  /**
+   * Generate forecast with confidence bands for any dated series
+   */
+  forecastSeries(
+    series: SeriesPoint[],
+    metricName: string,
+    horizonDays?: number,
+    options: ForecastOptions = {}
+  ): ForecastResult {
+    if (series.length === 0) {
+      throw new Error(`Cannot forecast ${metricName}: the series is empty`);
+    }
 
-    // Calculate confidence bands using Monte Carlo
-    const projectedWithConfidence = this.addConfidenceBands(baseForecast, historical);
+    const sorted = [...series].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const values = sorted.map(p => p.value);
+    const horizon = horizonDays || this.FORECAST_HORIZON_DAYS;
 
-    // Find today's position
-    const todayIndex = historicalPoints.length - 1;
+    // Steps follow the cadence of the data, not calendar days
+    const stepDays = this.inferStepDays(sorted);
+    const steps = Math.max(1, Math.round(horizon / stepDays));
+    const seasonLength = options.seasonLength !== undefined
+      ? options.seasonLength
+      : this.inferSeasonLength(stepDays);
+    const selection = options.selection || 'weighted';
+
+    const evaluations = this.backtest(values, seasonLength, steps, options.backtestOrigins || this.BACKTEST_ORIGINS);
+    const ranked = evaluations.filter(e => e.smape !== null);
+
+    let point: number[];
+    let sigma: number;
+    let appliedSelection: ForecastResult['selection'] = selection;
+
+    if (ranked.length === 0) {
+      // Too short to backtest: carry the last value forward
+      point = Array(steps).fill(values[values.length - 1]);
+      sigma = Math.abs(values[values.length - 1]) * this.calculateVolatility(values);
+      appliedSelection = 'naive';
+    } else {
+      this.assignWeights(ranked, selection);
+      ({ point, sigma } = this.combine(values, seasonLength, steps, evaluations));
+    }
 
-    // Calculate overall confidence
-    const confidence = this.calculateForecastConfidence(historical);
+    const lastDate = sorted[sorted.length - 1].timestamp;
+    const baseForecast = this.toForecastPoints(point, lastDate, stepDays);
+    const random = createRandom(options.seed);
+    const projected = this.addConfidenceBands(baseForecast, sigma, random);
+    const bestSmape = ranked.length > 0 ? Math.min(...ranked.map(e => e.smape!)) : null;
 
     return {
       metric: metricName,
-      historical: historicalPoints,
-      projected: projectedWithConfidence,
-      todayIndex,
-      scenarios,
-      confidence,
-      methodology: 'Ensemble (ARIMA + ETS + Linear) with Monte Carlo confidence bands'
+      historical: this.convertToForecastPoints(sorted),
+      projected,
+      todayIndex: sorted.length - 1,
+      scenarios: this.generateScenarios(projected),
+      confidence: this.calculateForecastConfidence(sorted, bestSmape),
+      methodology: this.describeMethodology(evaluations, appliedSelection, seasonLength, steps, sorted.length, random.seed),
+      models: evaluations,
+      selection: appliedSelection,
+      seasonLength,
+      stepDays,
+      seed: random.seed,
+      simulationRuns: this.MONTE_CARLO_RUNS
     };
   }
 
   /**
-   * Convert KPI snapshots to forecast points
+   * Rolling-origin backtest: refit each model on every origin and score the
+   * next `horizon` steps. All models share the same origins so scores compare.
    */
-  private convertToForecastPoints(snapshots: KPISnapshot[]): ForecastPoint[] {
-    return snapshots.map(snapshot => ({
-      date: snapshot.timestamp,
-      value: snapshot.value,
+  backtest(
+    values: number[],
+    seasonLength: number | null,
+    horizon: number,
+    maxOrigins: number = this.BACKTEST_ORIGINS
+  ): ModelEvaluation[] {
+    const n = values.length;
+    const candidates = this.models.filter(m => m.minObservations(seasonLength) < n);
+    const firstOrigin = Math.max(...candidates.map(m => m.minObservations(seasonLength)));
+    const origins: number[] = [];
+    for (let t = n - 1; t >= firstOrigin && origins.length < maxOrigins; t--) {
+      origins.unshift(t);
+    }
+
+    return this.models.map(model => {
+      const evaluation: ModelEvaluation = {
+        name: model.name,
+        label: model.label,
+        mape: null,
+        smape: null,
+        origins: 0,
+        weight: 0,
+        params: {}
+      };
+
+      if (!candidates.includes(model)) {
+        const needed = model.minObservations(seasonLength);
+        evaluation.skippedReason = Number.isFinite(needed)
+          ? `needs more than ${needed} observations, got ${n}`
+          : 'series has no seasonal period';
+        return evaluation;
+      }
+
+      const apes: number[] = [];
+      const sapes: number[] = [];
+      for (const origin of origins) {
+        const fitted = model.fit(values.slice(0, origin), seasonLength);
+        if (!fitted) continue;
+
+        const actuals = values.slice(origin, origin + horizon);
+        const predicted = fitted.forecast(actuals.length);
+        actuals.forEach((actual, i) => {
+          const error = Math.abs(actual - predicted[i]);
+          if (actual !== 0) apes.push((error / Math.abs(actual)) * 100);
+          const scale = Math.abs(actual) + Math.abs(predicted[i]);
+          sapes.push(scale === 0 ? 0 : (200 * error) / scale);
+        });
+        evaluation.origins++;
+      }
+
+      if (sapes.length === 0) {
+        evaluation.skippedReason = 'could not be fitted on the backtest origins';
+        return evaluation;
+      }
+
+      evaluation.mape = apes.length > 0 ? apes.reduce((a, b) => a + b, 0) / apes.length : null;
+      evaluation.smape = sapes.reduce((a, b) => a + b, 0) / sapes.length;
+      return evaluation;
+    });
+  }
+
+  /**
+   * best: all weight on the lowest sMAPE; weighted: proportional to 1 / sMAPE
+   */
+  private assignWeights(ranked: ModelEvaluation[], selection: ModelSelection): void {
+    if (selection === 'best') {
+      const best = ranked.reduce((a, b) => (b.smape! < a.smape! ? b : a));
+      best.weight = 1;
+      return;
+    }
+
+    const inverse = ranked.map(e => 1 / Math.max(e.smape!, 0.01));
+    const total = inverse.reduce((a, b) => a + b, 0);
+    ranked.forEach((e, i) => {
+      e.weight = inverse[i] / total;
+    });
+  }
+
+  /**
+   * Refit the weighted models on the full series and blend their forecasts.
+   * Residual spread is the weighted mean of each model's one-step variance.
+   */
+  private combine(
+    values: number[],
+    seasonLength: number | null,
+    steps: number,
+    evaluations: ModelEvaluation[]
+  ): { point: number[]; sigma: number } {
+    const fits: Array<{ evaluation: ModelEvaluation; fitted: FittedForecastModel }> = [];
+
+    for (const evaluation of evaluations) {
+      if (evaluation.weight === 0) continue;
+      const model = this.models.find(m => m.name === evaluation.name)!;
+      const fitted = model.fit(values, seasonLength);
+      if (!fitted) {
+        evaluation.weight = 0;
+        continue;
+      }
+      evaluation.params = fitted.params;
+      fits.push({ evaluation, fitted });
+    }
+
+    const totalWeight = fits.reduce((sum, f) => sum + f.evaluation.weight, 0);
+    const point = Array(steps).fill(0);
+    let variance = 0;
+
+    for (const { evaluation, fitted } of fits) {
+      evaluation.weight = evaluation.weight / totalWeight;
+      fitted.forecast(steps).forEach((value, i) => {
+        point[i] += value * evaluation.weight;
+      });
+      const residuals = fitted.residuals;
+      variance += evaluation.weight * (residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+    }
+
+    return { point, sigma: Math.sqrt(variance) };
+  }
+
+  /**
+   * Convert series points to forecast points
+   */
+  private convertToForecastPoints(series: SeriesPoint[]): ForecastPoint[] {
+    return series.map(point => ({
+      date: point.timestamp,
+      value: point.value,
       confidence: {
-        p5: snapshot.value * 0.95,   // Historical data has tight confidence
-        p25: snapshot.value * 0.975,
-        p50: snapshot.value,
-        p75: snapshot.value * 1.025,
-        p95: snapshot.value * 1.05
+        p5: point.value * 0.95,   // Historical data has tight confidence
+        p25: point.value * 0.975,
+        p50: point.value,
+        p75: point.value * 1.025,
+        p95: point.value * 1.05
       }
     }));
   }
 
   /**
-   * Generate base forecast using ensemble method
+   * Date the point forecasts one step apart after the last observation
    */
-  private generateBaseForecast(
-    historical: ForecastPoint[],
-    horizonDays: number
-  ): ForecastPoint[] {
-    const lastDate = historical[historical.length - 1].date;
-    const values = historical.map(h => h.value);
-
-    // Simple ensemble: Linear trend + Seasonality + Noise
-    const trend = this.calculateTrend(values);
-    const seasonality = this.calculateSeasonality(values);
-    const volatility = this.calculateVolatility(values);
-
-    const forecast: ForecastPoint[] = [];
-
-    for (let day = 1; day <= horizonDays; day++) {
-      const forecastDate = new Date(lastDate);
-      forecastDate.setDate(forecastDate.getDate() + day);
-
-      // Base forecast = trend + seasonal component
-      const trendValue = values[values.length - 1] + (trend * day);
-      const seasonalFactor = seasonality[day % seasonality.length];
-      const baseValue = trendValue * seasonalFactor;
-
-      // Initial confidence (will be refined with Monte Carlo)
-      forecast.push({
-        date: forecastDate,
-        value: baseValue,
-        confidence: {
-          p5: baseValue * (1 - volatility * 2),
-          p25: baseValue * (1 - volatility),
-          p50: baseValue,
-          p75: baseValue * (1 + volatility),
-          p95: baseValue * (1 + volatility * 2)
-        }
-      });
+  private toForecastPoints(values: number[], lastDate: Date, stepDays: number): ForecastPoint[] {
+    const monthly = stepDays >= 28 && stepDays <= 31;
+
+    return values.map((value, i) => {
+      const date = new Date(lastDate);
+      if (monthly) date.setMonth(date.getMonth() + i + 1);
+      else date.setDate(date.getDate() + (i + 1) * stepDays);
+
+      return {
+        date,
+        value,
+        confidence: { p5: value, p25: value, p50: value, p75: value, p95: value }
+      };
+    });
+  }
+
+  /**
+   * Median spacing between observations, in whole days
+   */
+  private inferStepDays(series: SeriesPoint[]): number {
+    if (series.length < 2) return 1;
+
+    const gaps = series
+      .slice(1)
+      .map((p, i) => (p.timestamp.getTime() - series[i].timestamp.getTime()) / DAY_MS)
+      .sort((a, b) => a - b);
+
+    return Math.max(1, Math.round(gaps[Math.floor(gaps.length / 2)]));
+  }
+
+  /**
+   * Weekly cycle for daily data, yearly cycle for weekly/monthly/quarterly data
+   */
+  private inferSeasonLength(stepDays: number): number | null {
+    if (stepDays <= 1) return 7;
+    if (stepDays === 7) return 52;
+    if (stepDays >= 28 && stepDays <= 31) return 12;
+    if (stepDays >= 89 && stepDays <= 92) return 4;
+    return null;
+  }
+
+  private describeMethodology(
+    evaluations: ModelEvaluation[],
+    selection: ForecastResult['selection'],
+    seasonLength: number | null,
+    steps: number,
+    observations: number,
+    seed: number
+  ): string {
+    const used = evaluations.filter(e => e.weight > 0);
+    const origins = Math.max(0, ...evaluations.map(e => e.origins));
+    const season = seasonLength ? `season length ${seasonLength}` : 'no seasonal period';
+    const bands = `P5-P95 from ${this.MONTE_CARLO_RUNS} Monte Carlo paths of in-sample residuals (seed ${seed})`;
+
+    if (selection === 'naive') {
+      return `Naive last-value forecast: ${observations} observations are too few to backtest any model; P5-P95 from ${this.MONTE_CARLO_RUNS} Monte Carlo paths scaled by historical volatility (seed ${seed})`;
     }
 
-    return forecast;
+    const chosen = selection === 'best'
+      ? `Best backtested model: ${used[0].label} (sMAPE ${used[0].smape!.toFixed(1)}%)`
+      : `Weighted ensemble of ${used.map(e => `${e.label} (sMAPE ${e.smape!.toFixed(1)}%, w=${e.weight.toFixed(2)})`).join(' + ')}`;
+    const skipped = evaluations.filter(e => e.skippedReason).map(e => e.label);
+
+    return [
+      `${chosen}, selected by rolling-origin backtest over ${origins} origins (${steps}-step horizon, ${season})`,
+      skipped.length > 0 ? `not evaluated: ${skipped.join(', ')}` : null,
+      bands,
+      'scenarios apply fixed growth/execution multipliers to the median'
+    ].filter(Boolean).join('; ');
   }
 
   /**
    * Generate scenarios (conservative, base, optimistic)
    */
-  private generateScenarios(
-    baseForecast: ForecastPoint[],
-    historical: KPISnapshot[]
-  ): Map<string, ForecastPoint[]> {
+  private generateScenarios(baseForecast: ForecastPoint[]): Map<string, ForecastPoint[]> {
     const scenarios = new Map<string, ForecastPoint[]>();
 
     // Define scenario parameters
@@ -222,25 +465,19 @@ export class ForecastEngine {
   }
 
   /**
-   * Add confidence bands using Monte Carlo simulation
+   * Add confidence bands using Monte Carlo simulation: each path accumulates
+   * normally distributed one-step errors with the models' residual spread
    */
-  private addConfidenceBands(
-    forecast: ForecastPoint[],
-    historical: KPISnapshot[]
-  ): ForecastPoint[] {
-    const volatility = this.calculateVolatility(historical.map(h => h.value));
+  private addConfidenceBands(forecast: ForecastPoint[], sigma: number, random: RandomSource): ForecastPoint[] {
     const results: number[][] = [];
 
-    // Run Monte Carlo simulations
     for (let run = 0; run < this.MONTE_CARLO_RUNS; run++) {
       const simResults: number[] = [];
+      let drift = 0;
 
       for (let i = 0; i < forecast.length; i++) {
-        // Add increasing uncertainty over time
-        const uncertaintyFactor = 1 + (i / forecast.length) * 0.5;
-        const randomWalk = this.generateRandomWalk(volatility * uncertaintyFactor);
-
-        simResults.push(forecast[i].value * (1 + randomWalk));
+        drift += random.normal() * sigma;
+        simResults.push(forecast[i].value + drift);
       }
 
       results.push(simResults);
@@ -248,71 +485,21 @@ export class ForecastEngine {
 
     // Calculate percentiles from simulation results
     return forecast.map((point, index) => {
-      const dayResults = results.map(run => run[index]).sort((a, b) => a - b);
+      const stepResults = results.map(run => run[index]).sort((a, b) => a - b);
 
       return {
         ...point,
         confidence: {
-          p5: dayResults[Math.floor(this.MONTE_CARLO_RUNS * 0.05)],
-          p25: dayResults[Math.floor(this.MONTE_CARLO_RUNS * 0.25)],
-          p50: dayResults[Math.floor(this.MONTE_CARLO_RUNS * 0.50)],
-          p75: dayResults[Math.floor(this.MONTE_CARLO_RUNS * 0.75)],
-          p95: dayResults[Math.floor(this.MONTE_CARLO_RUNS * 0.95)]
+          p5: stepResults[Math.floor(this.MONTE_CARLO_RUNS * 0.05)],
+          p25: stepResults[Math.floor(this.MONTE_CARLO_RUNS * 0.25)],
+          p50: stepResults[Math.floor(this.MONTE_CARLO_RUNS * 0.50)],
+          p75: stepResults[Math.floor(this.MONTE_CARLO_RUNS * 0.75)],
+          p95: stepResults[Math.floor(this.MONTE_CARLO_RUNS * 0.95)]
         }
       };
     });
   }
 
-  /**
-   * Calculate linear trend
-   */
-  private calculateTrend(values: number[]): number {
-    if (values.length < 2) return 0;
-
-    // Simple linear regression
-    const n = values.length;
-    const x = Array.from({ length: n }, (_, i) => i);
-    const sumX = x.reduce((a, b) => a + b, 0);
-    const sumY = values.reduce((a, b) => a + b, 0);
-    const sumXY = x.reduce((sum, xi, i) => sum + xi * values[i], 0);
-    const sumX2 = x.reduce((sum, xi) => sum + xi * xi, 0);
-
-    const slope = (n * sumXY - sumX * sumY) / (n * sumX2 - sumX * sumX);
-
-    return slope;
-  }
-
-  /**
-   * Calculate seasonality pattern
-   */
-  private calculateSeasonality(values: number[], periodLength: number = 7): number[] {
-    if (values.length < periodLength * 2) {
-      // Not enough data for seasonality
-      return Array(periodLength).fill(1);
-    }
-
-    const seasonal: number[] = Array(periodLength).fill(0);
-    const counts: number[] = Array(periodLength).fill(0);
-
-    // Detrend first
-    const trend = this.calculateTrend(values);
-    const detrended = values.map((v, i) => v - trend * i);
-
-    // Calculate average for each period position
-    detrended.forEach((value, index) => {
-      const position = index % periodLength;
-      seasonal[position] += value;
-      counts[position]++;
-    });
-
-    // Normalize
-    const avgValue = values.reduce((a, b) => a + b, 0) / values.length;
-    return seasonal.map((sum, i) => {
-      const avg = sum / counts[i];
-      return 1 + (avg / avgValue);  // Return as multiplier
-    });
-  }
-
   /**
    * Calculate historical volatility
    */
@@ -322,8 +509,9 @@ export class ForecastEngine {
     // Calculate returns
     const returns: number[] = [];
     for (let i = 1; i < values.length; i++) {
-      returns.push((values[i] - values[i - 1]) / values[i - 1]);
+      if (values[i - 1] !== 0) returns.push((values[i] - values[i - 1]) / values[i - 1]);
     }
+    if (returns.length === 0) return 0.1;
 
     // Calculate standard deviation of returns
     const mean = returns.reduce((a, b) => a + b, 0) / returns.length;
@@ -333,36 +521,27 @@ export class ForecastEngine {
   }
 
   /**
-   * Generate random walk for Monte Carlo
+   * Calculate forecast confidence from data quality and backtest accuracy
    */
-  private generateRandomWalk(volatility: number): number {
-    // Box-Muller transform for normal distribution
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-
-    return z0 * volatility;
-  }
-
-  /**
-   * Calculate forecast confidence based on data quality
-   */
-  private calculateForecastConfidence(historical: KPISnapshot[]): number {
+  private calculateForecastConfidence(series: SeriesPoint[], bestSmape: number | null): number {
     let confidence = 0.5;  // Base confidence
 
     // More data points increase confidence
-    if (historical.length > 90) confidence += 0.2;
-    else if (historical.length > 30) confidence += 0.1;
-
-    // Consistent trend increases confidence
-    const values = historical.map(h => h.value);
-    const volatility = this.calculateVolatility(values);
-    if (volatility < 0.1) confidence += 0.2;
-    else if (volatility < 0.2) confidence += 0.1;
+    if (series.length > 90) confidence += 0.2;
+    else if (series.length > 30) confidence += 0.1;
+
+    // Out-of-sample accuracy replaces the volatility heuristic when available
+    if (bestSmape !== null) {
+      if (bestSmape < 5) confidence += 0.2;
+      else if (bestSmape < 15) confidence += 0.1;
+      else if (bestSmape > 30) confidence -= 0.2;
+    } else {
+      confidence -= 0.2;
+    }
 
     // Recent data freshness
-    const lastDataPoint = historical[historical.length - 1];
-    const daysSinceLastData = (Date.now() - lastDataPoint.timestamp.getTime()) / (1000 * 60 * 60 * 24);
+    const lastDataPoint = series[series.length - 1];
+    const daysSinceLastData = (Date.now() - lastDataPoint.timestamp.getTime()) / DAY_MS;
     if (daysSinceLastData < 1) confidence += 0.1;
     else if (daysSinceLastData > 7) confidence -= 0.1;
 
@@ -5,6 +5,7 @@
 
 import type {
   BusinessConstraints,
+  DateRange,
   GuardrailViolation,
   SpendPlan,
   MarketingChannel,
@@ -12,6 +13,14 @@ import type {
   Recommendation,
   Bottleneck
 } from './types';
+import { createRandom } from './random';
+import type { RandomSource } from './random';
+
+// Share of leads that become a CPQ proposal and a sales meeting
+const LEAD_TO_PROPOSAL_RATE = 0.5;
+const LEAD_TO_MEETING_RATE = 0.3;
+const DAYS_PER_MONTH = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // ============================================================================
 // GUARDRAILS VALIDATOR
@@ -66,6 +75,30 @@ export class GuardrailsValidator {
     return { valid, violations, adjustedPlan };
   }
 
+  /**
+   * Monthly leads the CPQ and sales teams can take before proposals or
+   * meetings exceed their daily capacity, and which of the two runs out first
+   */
+  leadsCeiling(): { leads: number; constraint: string; limit: number } {
+    const { maxDailyCapacity } = this.constraints;
+    const byProposals = maxDailyCapacity.cpqProposals * DAYS_PER_MONTH / LEAD_TO_PROPOSAL_RATE;
+    const byMeetings = maxDailyCapacity.meetings * DAYS_PER_MONTH / LEAD_TO_MEETING_RATE;
+
+    return byProposals <= byMeetings
+      ? { leads: byProposals, constraint: 'CPQ proposals per day', limit: maxDailyCapacity.cpqProposals }
+      : { leads: byMeetings, constraint: 'Meetings per day', limit: maxDailyCapacity.meetings };
+  }
+
+  /**
+   * Largest change from current spend a channel can make over a period, as a
+   * share of that spend: one ramp step of maxChannelChangeRate every
+   * minChannelStability days, the first on the period's first day
+   */
+  maxChangeOverPeriod(period: DateRange): number {
+    const days = Math.max(1, Math.round((period.end.getTime() - period.start.getTime()) / DAY_MS) + 1);
+    return this.constraints.maxChannelChangeRate * Math.ceil(days / this.rampHoldDays());
+  }
+
   /**
    * Validates recommendations against capacity
    */
@@ -116,8 +149,8 @@ export class GuardrailsValidator {
     const { maxDailyCapacity } = this.constraints;
 
     // Estimate daily load from spend plan
-    const estimatedProposals = plan.expected.leads * 0.5;  // 50% lead to proposal
-    const dailyProposals = estimatedProposals / 30;  // Monthly to daily
+    const estimatedProposals = plan.expectedOutcome.leads * LEAD_TO_PROPOSAL_RATE;
+    const dailyProposals = estimatedProposals / DAYS_PER_MONTH;
 
     if (dailyProposals > maxDailyCapacity.cpqProposals) {
       violations.push({
@@ -131,8 +164,8 @@ export class GuardrailsValidator {
     }
 
     // Check meeting capacity
-    const estimatedMeetings = plan.expected.leads * 0.3;  // 30% lead to meeting
-    const dailyMeetings = estimatedMeetings / 30;
+    const estimatedMeetings = plan.expectedOutcome.leads * LEAD_TO_MEETING_RATE;
+    const dailyMeetings = estimatedMeetings / DAYS_PER_MONTH;
 
     if (dailyMeetings > maxDailyCapacity.meetings) {
       violations.push({
@@ -157,21 +190,23 @@ export class GuardrailsValidator {
   ): GuardrailViolation[] {
     const violations: GuardrailViolation[] = [];
     const { maxChannelChangeRate } = this.constraints;
+    const allowed = this.maxChangeOverPeriod(plan.period);
 
-    for (const [channel, newSpend] of Object.entries(plan.allocation)) {
+    for (const [channel, newSpend] of Object.entries(this.getAllocationMap(plan))) {
       const current = currentSpend.get(channel) || 0;
       if (current === 0) continue;  // Skip new channels
 
       const changeRate = Math.abs((newSpend - current) / current);
 
-      if (changeRate > maxChannelChangeRate) {
+      if (changeRate > allowed) {
+        const steps = Math.ceil(changeRate / maxChannelChangeRate);
         violations.push({
           type: 'ramp_rate',
-          constraint: `${channel} daily change rate`,
+          constraint: `${channel} change over the period`,
           current: changeRate,
-          limit: maxChannelChangeRate,
+          limit: allowed,
           severity: 'warning',
-          suggestion: `Phase the ${channel} change over ${Math.ceil(changeRate / maxChannelChangeRate)} days`
+          suggestion: `Phase the ${channel} change over ${steps} ramp steps (${(steps - 1) * this.rampHoldDays() + 1} days)`
         });
       }
     }
@@ -189,7 +224,7 @@ export class GuardrailsValidator {
     const violations: GuardrailViolation[] = [];
     const { monthlyPacing, weeklySpendTargets } = this.constraints;
 
-    const totalBudget = Object.values(plan.allocation).reduce((sum, v) => sum + v, 0);
+    const totalBudget = Object.values(this.getAllocationMap(plan)).reduce((sum, v) => sum + v, 0);
     const expectedSpend = this.calculateExpectedSpend(totalBudget, dayOfMonth, monthlyPacing);
     const actualSpend = this.calculateActualSpend(plan, dayOfMonth);
 
@@ -218,7 +253,7 @@ export class GuardrailsValidator {
     const violations: GuardrailViolation[] = [];
     const { platformMinimums, platformMaximums } = this.constraints;
 
-    for (const [channel, spend] of Object.entries(plan.allocation)) {
+    for (const [channel, spend] of Object.entries(this.getAllocationMap(plan))) {
       const min = platformMinimums.get(channel);
       if (min && spend < min && spend > 0) {
         violations.push({
@@ -254,8 +289,8 @@ export class GuardrailsValidator {
     const violations: GuardrailViolation[] = [];
     const { maxChannelConcentration, minActiveChannels, diversityRatio } = this.constraints;
 
-    const totalBudget = Object.values(plan.allocation).reduce((sum, v) => sum + v, 0);
-    const activeChannels = Object.values(plan.allocation).filter(v => v > 0).length;
+    const totalBudget = Object.values(this.getAllocationMap(plan)).reduce((sum, v) => sum + v, 0);
+    const activeChannels = Object.values(this.getAllocationMap(plan)).filter(v => v > 0).length;
 
     // Check minimum active channels
     if (activeChannels < minActiveChannels) {
@@ -270,7 +305,7 @@ export class GuardrailsValidator {
     }
 
     // Check maximum concentration
-    for (const [channel, spend] of Object.entries(plan.allocation)) {
+    for (const [channel, spend] of Object.entries(this.getAllocationMap(plan))) {
       const concentration = spend / totalBudget;
       if (concentration > maxChannelConcentration) {
         violations.push({
@@ -294,32 +329,64 @@ export class GuardrailsValidator {
     originalPlan: SpendPlan,
     violations: GuardrailViolation[]
   ): SpendPlan {
-    const adjusted = { ...originalPlan };
-    const allocation = { ...originalPlan.allocation };
+    const { platformMinimums, maxChannelConcentration } = this.constraints;
 
     // Fix platform minimums first (highest priority)
-    const platformViolations = violations.filter(v => v.type === 'platform' && v.constraint.includes('minimum'));
-    for (const violation of platformViolations) {
-      const channel = violation.constraint.split(' ')[0];
-      allocation[channel] = violation.limit;
-    }
+    const hasMinimumViolations = violations.some(v => v.type === 'platform' && v.constraint.endsWith('minimum spend'));
+    let allocations = originalPlan.allocations.map(allocation => {
+      const min = platformMinimums.get(allocation.channel.name);
+      const amount = hasMinimumViolations && min && allocation.recommendedAmount > 0 && allocation.recommendedAmount < min
+        ? min
+        : allocation.recommendedAmount;
+      return { ...allocation, recommendedAmount: amount };
+    });
 
     // Fix concentration issues
-    const totalBudget = Object.values(allocation).reduce((sum, v) => sum + v, 0);
-    const maxConcentration = this.constraints.maxChannelConcentration;
+    const totalBudget = allocations.reduce((sum, a) => sum + a.recommendedAmount, 0);
+    const maxAllowed = totalBudget * maxChannelConcentration;
 
-    for (const [channel, spend] of Object.entries(allocation)) {
-      const maxAllowed = totalBudget * maxConcentration;
-      if (spend > maxAllowed) {
-        allocation[channel] = maxAllowed;
-      }
-    }
+    allocations = allocations.map(allocation => allocation.recommendedAmount > maxAllowed
+      ? { ...allocation, recommendedAmount: maxAllowed }
+      : allocation
+    );
 
-    // Recalculate expected outcomes
-    adjusted.allocation = allocation;
-    adjusted.expected = this.recalculateExpectedOutcomes(allocation);
+    // Recalculate expected outcomes; intervals replay the original plan's seed
+    const random = createRandom(originalPlan.seed);
+    const runs = originalPlan.simulationRuns || 1000;
+    const adjustedAllocations = this.recalculateConfidenceIntervals(
+      this.recalculateAllocations(originalPlan, allocations),
+      random,
+      runs
+    );
 
-    return adjusted;
+    return {
+      ...originalPlan,
+      id: `${originalPlan.id}-adjusted`,
+      name: `${originalPlan.name} (guardrail-adjusted)`,
+      allocations: adjustedAllocations,
+      expectedOutcome: this.recalculateExpectedOutcomes(originalPlan, adjustedAllocations),
+      simulationRuns: runs,
+      seed: random.seed,
+      constraints: [...originalPlan.constraints, 'Platform minimums and channel concentration limits enforced by guardrails']
+    };
+  }
+
+  /**
+   * Helper: Days each ramp level is held before the next step
+   */
+  private rampHoldDays(): number {
+    return Math.max(1, Math.round(this.constraints.minChannelStability));
+  }
+
+  /**
+   * Helper: Map channel name to recommended spend
+   */
+  private getAllocationMap(plan: SpendPlan): Record<string, number> {
+    const allocation: Record<string, number> = {};
+    for (const a of plan.allocations) {
+      allocation[a.channel.name] = a.recommendedAmount;
+    }
+    return allocation;
   }
 
   /**
@@ -352,7 +419,7 @@ export class GuardrailsValidator {
    * Helper: Calculate actual spend to date
    */
   private calculateActualSpend(plan: SpendPlan, dayOfMonth: number): number {
-    const dailySpend = Object.values(plan.allocation).reduce((sum, v) => sum + v, 0) / 30;
+    const dailySpend = Object.values(this.getAllocationMap(plan)).reduce((sum, v) => sum + v, 0) / 30;
     return dailySpend * dayOfMonth;
   }
 
@@ -458,24 +525,88 @@ export class GuardrailsValidator {
   }
 
   /**
-   * Helper: Recalculate expected outcomes after adjustment
+   * Helper: Rescale per-channel outcomes after an adjustment
+   */
+  private recalculateAllocations(
+    originalPlan: SpendPlan,
+    adjusted: SpendAllocation[]
+  ): SpendAllocation[] {
+    const totalSpend = adjusted.reduce((sum, a) => sum + a.recommendedAmount, 0);
+
+    return adjusted.map(allocation => {
+      const original = originalPlan.allocations.find(a => a.channel.id === allocation.channel.id);
+      const originalAmount = original?.recommendedAmount || 0;
+
+      // Simplified recalculation - scale each channel linearly around its original point
+      const scale = originalAmount > 0 ? allocation.recommendedAmount / originalAmount : 0;
+      const expectedLeads = originalAmount > 0
+        ? original!.expectedLeads * scale
+        : allocation.recommendedAmount / 500;  // $500 CPL estimate
+      const conversionRate = original && original.expectedLeads > 0
+        ? original.expectedConversions / original.expectedLeads
+        : 0.1;
+
+      return {
+        ...allocation,
+        recommendedPercent: totalSpend > 0 ? (allocation.recommendedAmount / totalSpend) * 100 : 0,
+        expectedLeads,
+        expectedConversions: expectedLeads * conversionRate
+      };
+    });
+  }
+
+  /**
+   * Helper: Re-run the ROI Monte Carlo (±20% uniform variation, 95% interval)
+   * for the adjusted amounts
    */
-  private recalculateExpectedOutcomes(allocation: Record<string, number>): SpendPlan['expected'] {
-    // Simplified recalculation - in production would use full model
-    const totalSpend = Object.values(allocation).reduce((sum, v) => sum + v, 0);
-    const avgConversionRate = 0.1;
-    const avgDealValue = 50000;
+  private recalculateConfidenceIntervals(
+    allocations: SpendAllocation[],
+    random: RandomSource,
+    runs: number
+  ): SpendAllocation[] {
+    const draws: number[][] = allocations.map(() => []);
+
+    for (let run = 0; run < runs; run++) {
+      allocations.forEach((allocation, index) => {
+        draws[index].push(allocation.expectedROI * (1 + (random.next() - 0.5) * 0.4));
+      });
+    }
+
+    return allocations.map((allocation, index) => {
+      const sorted = draws[index].sort((a, b) => a - b);
+      return {
+        ...allocation,
+        confidenceInterval: {
+          lower: sorted[Math.floor(runs * 0.025)],
+          upper: sorted[Math.floor(runs * 0.975)]
+        }
+      };
+    });
+  }
 
-    const leads = totalSpend / 500;  // $500 CPL estimate
-    const wins = leads * avgConversionRate;
-    const revenue = wins * avgDealValue;
-    const margin = revenue * 0.25;
+  /**
+   * Helper: Recalculate expected outcomes after adjustment
+   */
+  private recalculateExpectedOutcomes(
+    originalPlan: SpendPlan,
+    allocations: SpendAllocation[]
+  ): SpendPlan['expectedOutcome'] {
+    const totalSpend = allocations.reduce((sum, a) => sum + a.recommendedAmount, 0);
+    const leads = allocations.reduce((sum, a) => sum + a.expectedLeads, 0);
+    const conversions = allocations.reduce((sum, a) => sum + a.expectedConversions, 0);
+
+    // Keep the revenue-per-conversion the original plan was built with
+    const originalConversions = originalPlan.allocations.reduce((sum, a) => sum + a.expectedConversions, 0);
+    const avgDealValue = originalConversions > 0
+      ? originalPlan.expectedOutcome.revenue / originalConversions
+      : 50000;
+    const revenue = conversions * avgDealValue;
 
     return {
       leads: Math.round(leads),
-      wins: Math.round(wins),
-      revenueMx: revenue,
-      marginMx: margin
+      conversions: Math.round(conversions),
+      revenue,
+      roi: totalSpend > 0 ? revenue / totalSpend : 0
     };
   }
 }
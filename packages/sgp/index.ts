@@ -0,0 +1,21 @@
+export * from './types';
+export * from './random';
+export * from './spend-optimizer';
+export * from './guardrails';
+export * from './ramp-schedule';
+export * from './audit';
+export * from './audit-store';
+export * from './experiments';
+export * from './experiment-store';
+export * from './file-store';
+export * from './executive-narrative';
+export * from './forecast';
+export * from './forecast-models';
+export * from './bottleneck-detector';
+export * from './process-mining';
+export * from './queueing';
+export * from './process-simulator';
+export * from './pricing-advisor';
+export * from './win-probability';
+export * from './resource-scheduler';
+export * from './model-cards';
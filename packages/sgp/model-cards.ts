@@ -4,6 +4,7 @@
  */
 
 import type { KPISnapshot, Recommendation } from './types';
+import type { WinModelSummary } from './win-probability';
 
 // ============================================================================
 // CARD TYPES
@@ -396,6 +397,100 @@ export class ModelCardManager {
     return card;
   }
 
+  /**
+   * Create model card for the win probability model from its training summary
+   */
+  createWinProbabilityCard(summary: WinModelSummary): ModelCard {
+    const card: ModelCard = {
+      id: 'sgp-win-probability-v1',
+      name: 'Deal Win Probability',
+      version: '1.0.0',
+      type: 'classification',
+      description: 'Scores open leads and quotes by their probability of closing, fitted on the organization\'s won and lost deals',
+
+      architecture: {
+        algorithm: 'L2-regularized logistic regression (batch gradient descent)',
+        parameters: summary.coefficients,
+        hyperparameters: summary.hyperparameters,
+        features: summary.features,
+        outputShape: 'win_probability + top_feature_contributions[3]'
+      },
+
+      performance: {
+        metrics: { ...summary.metrics },
+        baseline: { ...summary.baseline },
+        benchmark: summary.evaluation === 'holdout'
+          ? `Training win rate on the ${summary.evaluationSize} most recent deals (holdout)`
+          : 'Training win rate (in-sample; too few deals for a holdout)',
+        evaluationDate: summary.trainedAt
+      },
+
+      training: {
+        dataset: 'Closed leads and decided CPQ quotes',
+        datasetSize: summary.trainingSize,
+        trainingDate: summary.trainedAt,
+        trainingDuration: 0,
+        infrastructure: 'In-process (retrained on request)',
+        cost: 0
+      },
+
+      limitations: {
+        known: [
+          'Linear in log-odds; interactions between features are not modeled',
+          'Categories not seen in training (new sources, tiers) score as average',
+          `Trained on ${summary.trainingSize} deals with a ${(summary.positiveRate * 100).toFixed(0)}% win rate`
+        ],
+        dataConstraints: [
+          'Requires at least 20 closed deals with 5 wins and 5 losses',
+          'Lost quotes are assumed lost at their quoted price'
+        ],
+        performanceConstraints: [
+          'Probabilities are less reliable for segments with few closed deals'
+        ],
+        ethicalConsiderations: [
+          'Should prioritize follow-up, not decide which clients are served',
+          'May reinforce historical source and segment biases'
+        ]
+      },
+
+      drift: {
+        lastChecked: summary.trainedAt,
+        dataDrift: 0,
+        conceptDrift: 0,
+        predictionDrift: 0,
+        alerts: []
+      },
+
+      usage: {
+        intendedUse: [
+          'Ordering the lead pipeline by expected value',
+          'Flagging open quotes unlikely to close'
+        ],
+        notIntendedFor: [
+          'Automatic lead disqualification',
+          'Sales compensation or individual evaluation'
+        ],
+        requirements: [
+          'Lead source, budget, project type and SLA',
+          'Quote tier, price, discount and customizations when quoted'
+        ],
+        apiEndpoint: '/api/leads/scores'
+      },
+
+      governance: {
+        owner: 'Sales Operations',
+        reviewers: ['Sales', 'Data Science'],
+        approvalDate: summary.trainedAt,
+        nextReviewDate: new Date(summary.trainedAt.getTime() + 90 * 24 * 60 * 60 * 1000),
+        riskLevel: 'medium',
+        compliance: ['GDPR-compliant']
+      }
+    };
+
+    this.cards.set(card.id, card);
+    return card;
+  }
+
   /**
    * Monitor model drift
    */
@@ -740,5 +835,4 @@ ${card.lineage.transformations.map(t => `- ${t}`).join('\n')}
 // EXPORTS
 // ============================================================================
 
-export { ModelCardManager, DataCardManager };
 export default ModelCardManager;
\ No newline at end of file
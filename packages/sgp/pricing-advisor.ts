@@ -0,0 +1,519 @@
+/**
+ * Pricing & Scope Advisor
+ * Segments decided quotes by project type and client budget, estimates price
+ * elasticity and willingness-to-pay from win/loss outcomes, and turns them into
+ * a PricingStrategy (price point and customization bundles) per segment
+ */
+
+import type {
+  Action,
+  ImpactEstimate,
+  Insight,
+  PricingSegment,
+  PricingStrategy,
+  Recommendation,
+  RiskFactor
+} from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface QuoteOutcome {
+  id: string;
+  clientId?: string;
+  projectType: string;
+  budget: number;  // Client's stated budget
+  listPrice: number;  // Before discounts
+  finalPrice: number;  // Price the client decided on
+  discountPercent: number;  // 0-100
+  customizations: string[];
+  won: boolean;
+  estimatedCost?: number;  // Delivery cost estimate, when the quote has one
+}
+
+export interface BudgetBand {
+  id: string;
+  label: string;
+  min: number;
+  max: number;  // Exclusive; Infinity for the open-ended band
+}
+
+export interface BundleSuggestion {
+  components: string[];
+  support: number;  // Quotes that included every component
+  attachRate: number;  // Share of the segment's quotes with the bundle (0-1)
+  winRate: number;  // Win rate of those quotes (0-1)
+  lift: number;  // winRate / segment win rate
+}
+
+export interface PriceResponse {
+  intercept: number;
+  slope: number;  // Log-odds of winning per unit of ln(price / basePrice)
+  fitted: boolean;  // False when outcomes show no price sensitivity to fit
+}
+
+export interface SegmentPricingAnalysis {
+  strategy: PricingStrategy;
+  sampleSize: number;
+  winRate: number;
+  response: PriceResponse;
+  bundles: BundleSuggestion[];
+  recommendation: Recommendation | null;
+}
+
+export interface PricingAdvice {
+  analyses: SegmentPricingAnalysis[];
+  recommendations: Recommendation[];
+  insufficient: Array<{ segmentId: string; name: string; sampleSize: number }>;
+  totalQuotes: number;
+}
+
+export interface PricingAdvisorOptions {
+  budgetBands?: BudgetBand[];
+  minSegmentSize?: number;  // Decided quotes needed to analyze a segment
+  minBundleSupport?: number;  // Quotes a bundle needs to be suggested
+  maxPriceChange?: number;  // Largest recommended move from the current price (fraction)
+}
+
+// MXN bands matching the studio's tiers (Core, Signature, Masterpiece)
+export const DEFAULT_BUDGET_BANDS: BudgetBand[] = [
+  { id: 'hasta-150k', label: 'Up to $150K', min: 0, max: 150000 },
+  { id: '150k-400k', label: '$150K-$400K', min: 150000, max: 400000 },
+  { id: 'mas-400k', label: 'Over $400K', min: 400000, max: Infinity }
+];
+
+const DEFAULT_OPTIONS: Required<PricingAdvisorOptions> = {
+  budgetBands: DEFAULT_BUDGET_BANDS,
+  minSegmentSize: 8,
+  minBundleSupport: 3,
+  maxPriceChange: 0.15
+};
+
+// Price changes smaller than this are not worth a recommendation
+const MATERIAL_PRICE_CHANGE = 0.03;
+const RIDGE_PENALTY = 0.5;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const logit = (p: number) => Math.log(p / (1 - p));
+const mean = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function quantile(values: number[], q: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+// ============================================================================
+// PRICE RESPONSE
+// ============================================================================
+
+/**
+ * Logistic win probability on ln(price / basePrice), fitted by Newton-Raphson
+ * with a small ridge penalty so fully separated samples still converge
+ */
+export function fitPriceResponse(outcomes: QuoteOutcome[], basePrice: number): PriceResponse {
+  const wins = outcomes.filter(o => o.won).length;
+  const losses = outcomes.length - wins;
+  if (wins < 2 || losses < 2) {
+    const rate = (wins + 0.5) / (outcomes.length + 1);
+    return { intercept: logit(rate), slope: 0, fitted: false };
+  }
+
+  const xs = outcomes.map(o => Math.log(o.finalPrice / basePrice));
+  const ys = outcomes.map(o => (o.won ? 1 : 0));
+  let a = 0;
+  let b = 0;
+
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let gA = 0, gB = -RIDGE_PENALTY * b;
+    let hAA = 1e-6, hAB = 0, hBB = RIDGE_PENALTY;
+
+    for (let i = 0; i < xs.length; i++) {
+      const p = sigmoid(a + b * xs[i]);
+      const w = p * (1 - p);
+      gA += ys[i] - p;
+      gB += (ys[i] - p) * xs[i];
+      hAA += w;
+      hAB += w * xs[i];
+      hBB += w * xs[i] * xs[i];
+    }
+
+    const det = hAA * hBB - hAB * hAB;
+    if (det <= 0) break;
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a += stepA;
+    b += stepB;
+    if (Math.abs(stepA) + Math.abs(stepB) < 1e-8) break;
+  }
+
+  // A non-negative slope means higher prices did not lose more deals in this sample
+  if (b >= 0) return { intercept: logit(wins / outcomes.length), slope: 0, fitted: false };
+  return { intercept: a, slope: b, fitted: true };
+}
+
+export function winProbability(response: PriceResponse, price: number, basePrice: number): number {
+  return sigmoid(response.intercept + response.slope * Math.log(price / basePrice));
+}
+
+/**
+ * Point elasticity of win probability at the base price: % change in wins per % change in price
+ */
+export function priceElasticity(response: PriceResponse): number {
+  return response.slope * (1 - sigmoid(response.intercept));
+}
+
+/**
+ * Reads the win curve as the share of clients willing to pay at least a price:
+ * p10 is the price 90% of them accept. Without a fitted curve, the clients'
+ * stated budgets stand in for willingness-to-pay.
+ */
+export function estimateWillingnessToPay(
+  outcomes: QuoteOutcome[],
+  response: PriceResponse,
+  basePrice: number
+): PricingSegment['willingnessToPay'] {
+  if (!response.fitted) {
+    const budgets = outcomes.map(o => o.budget).filter(b => b > 0);
+    const values = budgets.length > 0 ? budgets : outcomes.map(o => o.finalPrice);
+    return {
+      p10: Math.round(quantile(values, 0.1)),
+      p50: Math.round(quantile(values, 0.5)),
+      p90: Math.round(quantile(values, 0.9))
+    };
+  }
+
+  const priceAt = (acceptance: number) => {
+    const ratio = Math.exp((logit(acceptance) - response.intercept) / response.slope);
+    return Math.round(basePrice * Math.min(4, Math.max(0.25, ratio)));
+  };
+  return { p10: priceAt(0.9), p50: priceAt(0.5), p90: priceAt(0.1) };
+}
+
+// ============================================================================
+// BUNDLES
+// ============================================================================
+
+/**
+ * Customization pairs and triples quoted together often, ranked by how much
+ * more often quotes with them were won
+ */
+export function suggestBundles(outcomes: QuoteOutcome[], minSupport: number, limit = 3): BundleSuggestion[] {
+  if (outcomes.length === 0) return [];
+  const segmentWinRate = outcomes.filter(o => o.won).length / outcomes.length;
+  const combos = new Map<string, { components: string[]; quotes: QuoteOutcome[] }>();
+
+  for (const outcome of outcomes) {
+    const items = Array.from(new Set(outcome.customizations)).sort();
+    for (let i = 0; i < items.length; i++) {
+      for (let j = i + 1; j < items.length; j++) {
+        const sets = [[items[i], items[j]], ...items.slice(j + 1).map(k => [items[i], items[j], k])];
+        for (const components of sets) {
+          const key = components.join('+');
+          const combo = combos.get(key) || { components, quotes: [] };
+          combo.quotes.push(outcome);
+          combos.set(key, combo);
+        }
+      }
+    }
+  }
+
+  const suggestions: BundleSuggestion[] = [];
+  for (const { components, quotes } of combos.values()) {
+    if (quotes.length < minSupport) continue;
+    const winRate = quotes.filter(o => o.won).length / quotes.length;
+    const lift = segmentWinRate > 0 ? winRate / segmentWinRate : 0;
+    if (lift < 1) continue;
+    suggestions.push({
+      components,
+      support: quotes.length,
+      attachRate: round(quotes.length / outcomes.length, 3),
+      winRate: round(winRate, 3),
+      lift: round(lift, 2)
+    });
+  }
+
+  // Of two overlapping bundles, keep the better ranked one
+  const overlaps = (a: BundleSuggestion, b: BundleSuggestion) =>
+    a.components.every(c => b.components.includes(c)) || b.components.every(c => a.components.includes(c));
+
+  return suggestions
+    .sort((a, b) => b.lift * b.support - a.lift * a.support || a.components.length - b.components.length)
+    .filter((s, index, all) => !all.slice(0, index).some(prior => overlaps(prior, s)))
+    .slice(0, limit);
+}
+
+// ============================================================================
+// PRICING ADVISOR
+// ============================================================================
+
+export class PricingAdvisor {
+  private options: Required<PricingAdvisorOptions>;
+
+  constructor(options: PricingAdvisorOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Analyzes every project type × budget band with enough decided quotes
+   */
+  advise(outcomes: QuoteOutcome[]): PricingAdvice {
+    const groups = new Map<string, { projectType: string; band: BudgetBand; outcomes: QuoteOutcome[] }>();
+
+    for (const outcome of outcomes) {
+      if (!(outcome.finalPrice > 0)) continue;
+      const band = this.bandFor(outcome.budget);
+      const key = `${outcome.projectType}:${band.id}`;
+      const group = groups.get(key) || { projectType: outcome.projectType, band, outcomes: [] };
+      group.outcomes.push(outcome);
+      groups.set(key, group);
+    }
+
+    const analyses: SegmentPricingAnalysis[] = [];
+    const insufficient: PricingAdvice['insufficient'] = [];
+
+    for (const group of groups.values()) {
+      if (group.outcomes.length < this.options.minSegmentSize) {
+        insufficient.push({
+          segmentId: `${group.projectType}-${group.band.id}`,
+          name: `${group.projectType} · ${group.band.label}`,
+          sampleSize: group.outcomes.length
+        });
+        continue;
+      }
+      analyses.push(this.analyzeSegment(group.projectType, group.band, group.outcomes));
+    }
+
+    analyses.sort((a, b) => b.strategy.segment.avgDealSize * b.sampleSize - a.strategy.segment.avgDealSize * a.sampleSize);
+
+    return {
+      analyses,
+      recommendations: analyses
+        .map(a => a.recommendation)
+        .filter((r): r is Recommendation => r !== null),
+      insufficient,
+      totalQuotes: outcomes.length
+    };
+  }
+
+  /**
+   * Fits the segment's win curve and picks the price in ±maxPriceChange that
+   * maximizes expected margin (expected revenue when costs are unknown)
+   */
+  analyzeSegment(projectType: string, band: BudgetBand, outcomes: QuoteOutcome[]): SegmentPricingAnalysis {
+    const won = outcomes.filter(o => o.won);
+    const winRate = won.length / outcomes.length;
+    const basePrice = Math.round(quantile(outcomes.map(o => o.finalPrice), 0.5));
+    const response = fitPriceResponse(outcomes, basePrice);
+    const costs = outcomes.map(o => o.estimatedCost).filter((c): c is number => typeof c === 'number' && c > 0);
+    const cost = costs.length > 0 ? quantile(costs, 0.5) : null;
+
+    const expectedValue = (price: number) =>
+      winProbability(response, price, basePrice) * (cost === null ? price : price - cost);
+
+    let recommendedPrice = basePrice;
+    if (response.fitted) {
+      let best = expectedValue(basePrice);
+      const steps = Math.round(this.options.maxPriceChange * 100);
+      for (let step = -steps; step <= steps; step++) {
+        const price = basePrice * (1 + step / 100);
+        const value = expectedValue(price);
+        if (value > best) {
+          best = value;
+          recommendedPrice = price;
+        }
+      }
+      recommendedPrice = Math.round(recommendedPrice / 100) * 100;
+    }
+
+    const elasticity = priceElasticity(response);
+    const segment: PricingSegment = {
+      id: `${projectType}-${band.id}`,
+      name: `${projectType} · ${band.label}`,
+      characteristics: {
+        projectType,
+        budgetBand: band.label,
+        budgetMin: band.min,
+        budgetMax: Number.isFinite(band.max) ? band.max : null,
+        winRate: round(winRate, 3),
+        avgDiscountPercent: round(mean(outcomes.map(o => o.discountPercent)), 1)
+      },
+      size: new Set(outcomes.map(o => o.clientId || o.id)).size,
+      avgDealSize: Math.round(mean((won.length > 0 ? won : outcomes).map(o => o.finalPrice))),
+      priceElasticity: round(elasticity, 3),
+      willingnessToPay: estimateWillingnessToPay(outcomes, response, basePrice)
+    };
+
+    const baseWin = winProbability(response, basePrice, basePrice);
+    const newWin = winProbability(response, recommendedPrice, basePrice);
+    const marginAt = (price: number) => (cost === null ? 0 : (price - cost) / price);
+    const bundles = suggestBundles(outcomes, this.options.minBundleSupport);
+
+    const strategy: PricingStrategy = {
+      id: `pricing-${segment.id}`,
+      segment,
+      basePrice,
+      recommendedPrice,
+      pricingModel: this.pricingModel(response, elasticity, basePrice, recommendedPrice, segment),
+      bundleComponents: bundles[0]?.components,
+      expectedImpact: {
+        volumeChange: round((newWin / baseWin - 1) * 100, 1),
+        revenueChange: round(((recommendedPrice * newWin) / (basePrice * baseWin) - 1) * 100, 1),
+        marginChange: round((marginAt(recommendedPrice) - marginAt(basePrice)) * 100, 1)
+      }
+    };
+
+    const analysis: SegmentPricingAnalysis = {
+      strategy,
+      sampleSize: outcomes.length,
+      winRate: round(winRate, 3),
+      response,
+      bundles,
+      recommendation: null
+    };
+    analysis.recommendation = this.createRecommendation(analysis, outcomes);
+    return analysis;
+  }
+
+  private bandFor(budget: number): BudgetBand {
+    const bands = this.options.budgetBands;
+    return bands.find(b => budget >= b.min && budget < b.max) || bands[bands.length - 1];
+  }
+
+  private pricingModel(
+    response: PriceResponse,
+    elasticity: number,
+    basePrice: number,
+    recommendedPrice: number,
+    segment: PricingSegment
+  ): PricingStrategy['pricingModel'] {
+    if (!response.fitted) return 'fixed';
+    if (elasticity < -1) return 'competitive';
+    if (recommendedPrice > basePrice || segment.willingnessToPay.p50 > basePrice) return 'value_based';
+    return 'fixed';
+  }
+
+  /**
+   * Recommendation for segments with a material price move or a bundle worth packaging
+   */
+  private createRecommendation(analysis: SegmentPricingAnalysis, outcomes: QuoteOutcome[]): Recommendation | null {
+    const { strategy, bundles, response, sampleSize } = analysis;
+    const { segment, basePrice, recommendedPrice, expectedImpact } = strategy;
+    const priceChange = (recommendedPrice - basePrice) / basePrice;
+    const materialPrice = Math.abs(priceChange) >= MATERIAL_PRICE_CHANGE;
+    const bundle = bundles.find(b => b.lift >= 1.1);
+    if (!materialPrice && !bundle) return null;
+
+    const wonRevenue = outcomes.filter(o => o.won).reduce((sum, o) => sum + o.finalPrice, 0);
+    const revenueDelta = Math.round(wonRevenue * (expectedImpact.revenueChange / 100));
+    const changeLabel = `${priceChange > 0 ? '+' : ''}${Math.round(priceChange * 100)}%`;
+
+    const impactEstimate: ImpactEstimate = {
+      revenue: {
+        baseline: Math.round(wonRevenue),
+        target: Math.round(wonRevenue) + revenueDelta,
+        delta: revenueDelta,
+        deltaPercent: expectedImpact.revenueChange,
+        unit: 'MXN'
+      },
+      timeToImpact: 30,
+      sustainabilityMonths: 6
+    };
+    if (expectedImpact.marginChange !== 0) {
+      impactEstimate.margin = {
+        baseline: 0,
+        target: expectedImpact.marginChange,
+        delta: expectedImpact.marginChange,
+        deltaPercent: 0,
+        unit: 'pp'
+      };
+    }
+
+    const actions: Action[] = [];
+    if (materialPrice) {
+      actions.push({
+        id: 'act-price',
+        label: `Move ${segment.name} quotes to $${recommendedPrice.toLocaleString('en-US')}`,
+        description: `Publish a price book version that prices this segment ${changeLabel} from the current median of $${basePrice.toLocaleString('en-US')}`,
+        type: 'experimental',
+        automatable: false,
+        estimatedEffort: 4,
+        href: '/cpq'
+      });
+    }
+    if (bundle) {
+      actions.push({
+        id: 'act-bundle',
+        label: `Package ${bundle.components.join(' + ')}`,
+        description: `Offer these customizations as one add-on; quotes that included them won ${Math.round(bundle.winRate * 100)}% of the time (${bundle.lift}× the segment)`,
+        type: 'planned',
+        automatable: false,
+        estimatedEffort: 8,
+        href: '/cpq'
+      });
+    }
+
+    const risks: RiskFactor[] = [{
+      description: 'Win/loss history also reflects scope, timing and competition, not only price',
+      probability: 'medium',
+      impact: 'medium',
+      mitigation: 'Run the new price as an experiment on part of the segment before publishing it'
+    }];
+    if (priceChange > 0) {
+      risks.push({
+        description: `Fewer wins: expected volume change of ${expectedImpact.volumeChange}%`,
+        probability: segment.priceElasticity < -1 ? 'high' : 'medium',
+        impact: 'medium',
+        mitigation: 'Keep the approval limits on discounts so the increase is not given back'
+      });
+    }
+
+    const summaryParts = [
+      materialPrice
+        ? `Price ${segment.name} at $${recommendedPrice.toLocaleString('en-US')} (${changeLabel}) for an expected ${expectedImpact.revenueChange > 0 ? '+' : ''}${expectedImpact.revenueChange}% in won revenue.`
+        : '',
+      bundle ? `Bundle ${bundle.components.join(' + ')}.` : ''
+    ];
+
+    return {
+      id: `rec-pricing-${segment.id}`,
+      title: `Pricing for ${segment.name}`,
+      executiveSummary: summaryParts.filter(Boolean).join(' '),
+      rationale: response.fitted
+        ? `Across ${sampleSize} decided quotes the win rate is ${Math.round(analysis.winRate * 100)}% with a price elasticity of ${segment.priceElasticity}; willingness-to-pay runs from $${segment.willingnessToPay.p10.toLocaleString('en-US')} (p10) to $${segment.willingnessToPay.p90.toLocaleString('en-US')} (p90).`
+        : `Across ${sampleSize} decided quotes the win rate is ${Math.round(analysis.winRate * 100)}%; outcomes show no measurable price sensitivity, so only bundling is recommended.`,
+      insight: {} as Insight,  // Would link to actual insight
+      expectedImpact: impactEstimate,
+      confidence: round(Math.min(0.85, 0.4 + sampleSize / 100 + (response.fitted ? 0.1 : 0)), 2),
+      confidenceFactors: [
+        `${sampleSize} decided quotes in the segment`,
+        response.fitted ? 'Win curve fitted on observed prices' : 'No price variation to fit a win curve'
+      ],
+      actions,
+      successCriteria: [
+        `Won revenue in ${segment.name} up ${Math.max(expectedImpact.revenueChange, 0)}% over the next ${sampleSize} quotes`,
+        `Win rate stays above ${Math.round(analysis.winRate * 100 * (1 + Math.min(expectedImpact.volumeChange, 0) / 100))}%`
+      ],
+      risks,
+      assumptions: [
+        'Segment mix and scope stay comparable to the quotes analyzed',
+        'Lost quotes were lost at the price shown on the quote'
+      ],
+      status: 'proposed',
+      priority: Math.abs(expectedImpact.revenueChange) >= 10 ? 2 : 3,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      testable: true
+    };
+  }
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default PricingAdvisor;
@@ -0,0 +1,351 @@
+/**
+ * Process Miner
+ * Derives a ProcessFlow from a timestamped event log (case, activity, time,
+ * actor): how long cases spend in each stage and how much of it is waiting,
+ * which stages they loop back into and where they leave, so the
+ * BottleneckDetector scores what actually happens instead of estimates
+ */
+
+import type { ProcessFlow, ProcessStage } from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface ProcessEvent {
+  caseId: string;
+  activity: string;
+  timestamp: Date;
+  actor?: string;
+}
+
+export interface StageDefinition {
+  id: string;
+  name: string;
+  activities: string[];  // Activities that put a case in this stage
+  waitingActivities?: string[];  // Of those, the ones spent waiting (on a client, an approval, a free slot)
+}
+
+export interface ProcessMiningOptions {
+  flowId?: string;
+  flowName?: string;
+  stages?: StageDefinition[];  // Defaults to one stage per activity, in the order cases reach them
+  completionActivities?: string[];  // The case finished the process
+  exitActivities?: string[];  // The case left the process (lost, rejected, cancelled)
+  staleAfterDays?: number;  // Open cases idle this long count as dropped at their last stage
+  observedUntil?: Date;  // End of the observation window; defaults to the latest event
+}
+
+export interface StageMetrics {
+  stageId: string;
+  name: string;
+  cases: number;  // Cases that entered the stage
+  measuredCases: number;  // Cases that left it, so their time there is known
+  reworkCases: number;  // Came back to the stage or repeated an activity in it
+  droppedCases: number;  // Left the process from this stage
+  actors: string[];
+}
+
+export interface ProcessVariant {
+  path: string[];  // Stage IDs in visiting order, consecutive repeats collapsed
+  cases: number;
+}
+
+export interface ProcessMiningResult {
+  flow: ProcessFlow;
+  stages: StageMetrics[];
+  variants: ProcessVariant[];  // Most frequent first
+  cases: number;
+  completedCases: number;
+  droppedCases: number;
+  openCases: number;
+  observedFrom: Date;
+  observedUntil: Date;
+  unmappedActivities: string[];  // Outside every stage and terminal list; ignored
+  warnings: string[];
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_VARIANTS = 10;
+
+interface StageVisit {
+  stageId: string;
+  activity: string;
+  start: number;
+  end: number | null;  // null while the case is still in the stage
+}
+
+interface StageAccumulator {
+  definition: StageDefinition;
+  cases: Set<string>;
+  totals: number[];  // Days in the stage per measured case
+  waits: number[];
+  reworkCases: Set<string>;
+  droppedCases: Set<string>;
+  actors: Set<string>;
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// ============================================================================
+// PROCESS MINER
+// ============================================================================
+
+export class ProcessMiner {
+  private readonly DEFAULT_STALE_DAYS = 60;
+
+  /**
+   * Mines the event log. The time between two consecutive events of a case
+   * belongs to the stage of the earlier one, so parallel work is attributed
+   * to whichever activity was logged last.
+   */
+  mine(events: ProcessEvent[], options: ProcessMiningOptions = {}): ProcessMiningResult {
+    if (events.length === 0) {
+      throw new Error('Cannot mine a process: the event log is empty');
+    }
+
+    const completion = new Set(options.completionActivities || []);
+    const exits = new Set(options.exitActivities || []);
+    const cases = this.groupCases(events);
+    const definitions = options.stages || this.discoverStages(cases, completion, exits);
+
+    const stageOf = new Map<string, StageDefinition>();
+    for (const definition of definitions) {
+      for (const activity of definition.activities) stageOf.set(activity, definition);
+    }
+
+    const timestamps = events.map(e => e.timestamp.getTime());
+    const observedFrom = Math.min(...timestamps);
+    const observedUntil = options.observedUntil?.getTime() ?? Math.max(...timestamps);
+    const staleMs = (options.staleAfterDays ?? this.DEFAULT_STALE_DAYS) * DAY_MS;
+
+    const accumulators = new Map<string, StageAccumulator>(definitions.map(definition => [definition.id, {
+      definition,
+      cases: new Set<string>(),
+      totals: [],
+      waits: [],
+      reworkCases: new Set<string>(),
+      droppedCases: new Set<string>(),
+      actors: new Set<string>()
+    }]));
+
+    const unmapped = new Set<string>();
+    const variantCounts = new Map<string, number>();
+    const cycleTimes: number[] = [];
+    let completedCases = 0;
+    let droppedCases = 0;
+    let openCases = 0;
+
+    for (const [caseId, caseEvents] of cases) {
+      const visits = this.visitsOf(caseEvents, stageOf, completion, exits, unmapped);
+      const last = caseEvents[caseEvents.length - 1];
+      const lastVisit = visits[visits.length - 1];
+
+      for (const event of caseEvents) {
+        const stage = stageOf.get(event.activity);
+        if (stage && event.actor) accumulators.get(stage.id)!.actors.add(event.actor);
+      }
+
+      // Time per stage, only for stages the case has left
+      const byStage = new Map<string, StageVisit[]>();
+      for (const visit of visits) {
+        byStage.set(visit.stageId, [...(byStage.get(visit.stageId) || []), visit]);
+      }
+
+      for (const [stageId, stageVisits] of byStage) {
+        const accumulator = accumulators.get(stageId)!;
+        const waiting = new Set(accumulator.definition.waitingActivities || []);
+        accumulator.cases.add(caseId);
+
+        if (this.isRework(visits, stageId)) accumulator.reworkCases.add(caseId);
+
+        if (stageVisits.every(v => v.end !== null)) {
+          const days = (visit: StageVisit) => (visit.end! - visit.start) / DAY_MS;
+          accumulator.totals.push(stageVisits.reduce((sum, v) => sum + days(v), 0));
+          accumulator.waits.push(stageVisits.filter(v => waiting.has(v.activity)).reduce((sum, v) => sum + days(v), 0));
+        }
+      }
+
+      // Outcome: finished, left (explicitly or by going stale) or still open
+      const idle = observedUntil - last.timestamp.getTime();
+      if (completion.has(last.activity)) {
+        completedCases++;
+        cycleTimes.push((last.timestamp.getTime() - caseEvents[0].timestamp.getTime()) / DAY_MS);
+      } else if (exits.has(last.activity) || (lastVisit && idle > staleMs)) {
+        droppedCases++;
+        if (lastVisit) accumulators.get(lastVisit.stageId)!.droppedCases.add(caseId);
+      } else {
+        openCases++;
+      }
+
+      const path = visits
+        .map(v => v.stageId)
+        .filter((stageId, i, all) => i === 0 || all[i - 1] !== stageId);
+      if (path.length > 0) {
+        const key = path.join('>');
+        variantCounts.set(key, (variantCounts.get(key) || 0) + 1);
+      }
+    }
+
+    const warnings: string[] = [];
+    const stages: ProcessStage[] = [];
+    const metrics: StageMetrics[] = [];
+
+    for (const accumulator of accumulators.values()) {
+      const { definition } = accumulator;
+      const entered = accumulator.cases.size;
+
+      metrics.push({
+        stageId: definition.id,
+        name: definition.name,
+        cases: entered,
+        measuredCases: accumulator.totals.length,
+        reworkCases: accumulator.reworkCases.size,
+        droppedCases: accumulator.droppedCases.size,
+        actors: Array.from(accumulator.actors).sort()
+      });
+
+      if (accumulator.totals.length === 0) {
+        if (entered > 0) warnings.push(`${definition.name}: no case has left this stage yet, so its duration is unknown`);
+        continue;
+      }
+
+      stages.push({
+        id: definition.id,
+        name: definition.name,
+        avgDuration: round(mean(accumulator.totals), 2),
+        maxDuration: round(Math.max(...accumulator.totals), 2),
+        minDuration: round(Math.min(...accumulator.totals), 2),
+        bottleneckScore: 0,  // Scored by the BottleneckDetector
+        waitTime: round(mean(accumulator.waits), 2),
+        reworkRate: round(accumulator.reworkCases.size / entered, 3),
+        dropOffRate: round(accumulator.droppedCases.size / entered, 3)
+      });
+    }
+
+    let avgCycleTime: number;
+    if (cycleTimes.length > 0) {
+      avgCycleTime = mean(cycleTimes);
+    } else {
+      avgCycleTime = stages.reduce((sum, s) => sum + s.avgDuration, 0);
+      warnings.push('No case has completed the process; cycle time is the sum of the stage averages');
+    }
+
+    // Cases per 30 days over the window, counting at least one month
+    const windowDays = Math.max(30, (observedUntil - observedFrom) / DAY_MS);
+
+    return {
+      flow: {
+        id: options.flowId || 'mined-process',
+        name: options.flowName || 'Mined process',
+        stages,
+        avgCycleTime: round(avgCycleTime, 2),
+        volumePerMonth: round(cases.size / (windowDays / 30), 2)
+      },
+      stages: metrics,
+      variants: Array.from(variantCounts.entries())
+        .map(([key, count]) => ({ path: key.split('>'), cases: count }))
+        .sort((a, b) => b.cases - a.cases)
+        .slice(0, MAX_VARIANTS),
+      cases: cases.size,
+      completedCases,
+      droppedCases,
+      openCases,
+      observedFrom: new Date(observedFrom),
+      observedUntil: new Date(observedUntil),
+      unmappedActivities: Array.from(unmapped).sort(),
+      warnings
+    };
+  }
+
+  /**
+   * Events per case in time order (log order breaks ties)
+   */
+  private groupCases(events: ProcessEvent[]): Map<string, ProcessEvent[]> {
+    const indexed = events.map((event, order) => ({ event, order }));
+    indexed.sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime() || a.order - b.order);
+
+    const cases = new Map<string, ProcessEvent[]>();
+    for (const { event } of indexed) {
+      cases.set(event.caseId, [...(cases.get(event.caseId) || []), event]);
+    }
+    return cases;
+  }
+
+  /**
+   * One stage per activity, ordered by how early in their case it tends to appear
+   */
+  private discoverStages(
+    cases: Map<string, ProcessEvent[]>,
+    completion: Set<string>,
+    exits: Set<string>
+  ): StageDefinition[] {
+    const positions = new Map<string, number[]>();
+
+    for (const caseEvents of cases.values()) {
+      const seen = new Set<string>();
+      caseEvents.forEach((event, index) => {
+        if (completion.has(event.activity) || exits.has(event.activity) || seen.has(event.activity)) return;
+        seen.add(event.activity);
+        positions.set(event.activity, [...(positions.get(event.activity) || []), index / caseEvents.length]);
+      });
+    }
+
+    return Array.from(positions.entries())
+      .sort((a, b) => mean(a[1]) - mean(b[1]))
+      .map(([activity]) => ({ id: activity, name: activity, activities: [activity] }));
+  }
+
+  /**
+   * Splits a case into one visit per mapped event; each lasts until the next
+   * event of the case. Terminal activities only close the preceding visit.
+   */
+  private visitsOf(
+    caseEvents: ProcessEvent[],
+    stageOf: Map<string, StageDefinition>,
+    completion: Set<string>,
+    exits: Set<string>,
+    unmapped: Set<string>
+  ): StageVisit[] {
+    const visits: StageVisit[] = [];
+
+    caseEvents.forEach((event, index) => {
+      const stage = stageOf.get(event.activity);
+      if (!stage) {
+        if (!completion.has(event.activity) && !exits.has(event.activity)) unmapped.add(event.activity);
+        return;
+      }
+
+      const next = caseEvents[index + 1];
+      visits.push({
+        stageId: stage.id,
+        activity: event.activity,
+        start: event.timestamp.getTime(),
+        end: next ? next.timestamp.getTime() : null
+      });
+    });
+
+    return visits;
+  }
+
+  /**
+   * A case reworks a stage when it comes back after leaving it, or repeats
+   * an activity while in it (a second review round, a revised draft)
+   */
+  private isRework(visits: StageVisit[], stageId: string): boolean {
+    let runs = 0;
+    const activities = new Set<string>();
+
+    for (let i = 0; i < visits.length; i++) {
+      if (visits[i].stageId !== stageId) continue;
+      if (i === 0 || visits[i - 1].stageId !== stageId) runs++;
+      if (activities.has(visits[i].activity)) return true;
+      activities.add(visits[i].activity);
+    }
+
+    return runs > 1;
+  }
+}
+
+export default ProcessMiner;
@@ -0,0 +1,521 @@
+/**
+ * Process Simulator
+ * Discrete-event replay of a ProcessFlow: cases arrive at random, queue for
+ * each stage's people, loop back for rework and drop off, over a number of
+ * simulated weeks. Reports throughput, WIP, cycle-time percentiles and where
+ * queues build up, and compares a proposed fix against the current setup.
+ */
+
+import type { ProcessFlow, ProcessStage } from './types';
+import { createRandom } from './random';
+import type { RandomSource } from './random';
+import { QueueingModel, DEFAULT_DAYS_PER_MONTH, type StageStaffing } from './queueing';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface StageChange {
+  stageId: string;
+  addServers?: number;  // People added to the stage
+  serviceTimeFactor?: number;  // Hands-on time multiplier; 0.7 = 30% faster
+  reworkRate?: number;  // New rework rate (0-1)
+  dropOffRate?: number;  // New drop-off rate (0-1)
+}
+
+export interface SimulationOptions {
+  weeks?: number;  // Measured weeks
+  warmupWeeks?: number;  // Simulated first and discarded, so the pipeline is loaded when measuring starts
+  runs?: number;  // Independent replications
+  seed?: number;  // Replays a stored simulation
+  staffing?: StageStaffing[];  // Stages without staffing get the detector's default of two people
+  changes?: StageChange[];
+  volumePerMonth?: number;  // Overrides the flow's arrivals
+}
+
+export interface DistributionSummary {
+  mean: number;
+  p50: number;
+  p80: number;
+  p95: number;
+}
+
+export interface StageSimulation {
+  stageId: string;
+  name: string;
+  servers: number;
+  utilization: number;  // Share of the servers' time spent on cases
+  avgQueueLength: number;  // Time-weighted cases waiting
+  maxQueueLength: number;
+  waitDays: DistributionSummary;  // Time in queue per service
+  entered: number;  // Cases per run
+  reworked: number;  // Passes sent back to the queue, per run
+  dropped: number;  // Cases per run that left from this stage
+}
+
+export interface SimulationResult {
+  flowId: string;
+  weeks: number;
+  runs: number;
+  seed: number;
+  arrivals: number;  // Per run
+  completed: number;
+  dropped: number;
+  throughputPerWeek: number;
+  wip: {
+    average: number;
+    max: number;
+    weekly: number[];  // Cases in process at the end of each measured week, averaged over runs
+  };
+  cycleTime: DistributionSummary;  // Days from arrival to completion
+  stages: StageSimulation[];
+  constraintStageId: string | null;  // Stage with the longest average queue wait
+}
+
+export interface SimulationComparison {
+  changes: StageChange[];
+  baseline: SimulationResult;
+  proposal: SimulationResult;
+  delta: {
+    throughputPerWeek: number;
+    cycleTimeP50: number;
+    cycleTimeP95: number;
+    averageWip: number;
+  };
+}
+
+// ============================================================================
+// ENGINE STATE
+// ============================================================================
+
+interface SimStage {
+  stage: ProcessStage;
+  servers: number;
+  handsOnDays: number;  // Mean time a case holds a server
+  delayDays: number;  // Mean processing time that needs nobody (client review, signatures)
+  shape: { min: number; mode: number; max: number };  // Triangular, normalized to mean 1
+  reworkRate: number;
+  dropOffRate: number;
+}
+
+interface SimCase {
+  id: number;
+  arrivedAt: number;
+  stage: number;
+  enqueuedAt: number;
+  loops: number;
+}
+
+type ScheduledEvent =
+  | { time: number; kind: 'arrival' }
+  | { time: number; kind: 'week-end' }
+  | { time: number; kind: 'service-end' | 'delay-end'; item: SimCase };
+
+type SimEvent = ScheduledEvent & { seq: number };  // seq breaks ties in scheduling order
+
+interface RunStats {
+  arrivals: number;
+  completed: number;
+  dropped: number;
+  cycleTimes: number[];
+  wipArea: number;
+  wipMax: number;
+  weeklyWip: number[];
+  stages: {
+    queueArea: number;
+    busyArea: number;
+    maxQueue: number;
+    waits: number[];
+    entered: number;
+    reworked: number;
+    dropped: number;
+  }[];
+}
+
+const DAYS_PER_WEEK = 7;
+const CALENDAR_DAYS_PER_MONTH = 30;
+const DEFAULT_SERVERS = 2;
+const DEFAULT_HOURS_PER_DAY = 8;
+const MAX_REWORK_LOOPS = 3;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+function summarize(values: number[]): DistributionSummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (share: number) => sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * share))] : 0;
+  return { mean: round(mean(sorted), 2), p50: round(at(0.5), 2), p80: round(at(0.8), 2), p95: round(at(0.95), 2) };
+}
+
+/**
+ * Binary min-heap of pending events, by time and then scheduling order
+ */
+class EventQueue {
+  private heap: SimEvent[] = [];
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  push(event: SimEvent): void {
+    this.heap.push(event);
+    let i = this.heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(this.heap[i], this.heap[parent])) break;
+      [this.heap[i], this.heap[parent]] = [this.heap[parent], this.heap[i]];
+      i = parent;
+    }
+  }
+
+  pop(): SimEvent {
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.heap.length && this.before(this.heap[left], this.heap[smallest])) smallest = left;
+        if (right < this.heap.length && this.before(this.heap[right], this.heap[smallest])) smallest = right;
+        if (smallest === i) break;
+        [this.heap[i], this.heap[smallest]] = [this.heap[smallest], this.heap[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private before(a: SimEvent, b: SimEvent): boolean {
+    return a.time < b.time || (a.time === b.time && a.seq < b.seq);
+  }
+}
+
+// ============================================================================
+// PROCESS SIMULATOR
+// ============================================================================
+
+export class ProcessSimulator {
+  private readonly DEFAULT_WEEKS = 26;
+  private readonly DEFAULT_WARMUP_WEEKS = 4;
+  private readonly DEFAULT_RUNS = 20;
+  private readonly MAX_WEEKS = 260;
+  private readonly MAX_RUNS = 200;
+
+  private readonly queueing = new QueueingModel();
+
+  /**
+   * Simulates the flow as it is, or with `options.changes` applied
+   */
+  simulate(flow: ProcessFlow, options: SimulationOptions = {}): SimulationResult {
+    const weeks = options.weeks ?? this.DEFAULT_WEEKS;
+    const warmupWeeks = options.warmupWeeks ?? this.DEFAULT_WARMUP_WEEKS;
+    const runs = options.runs ?? this.DEFAULT_RUNS;
+
+    if (flow.stages.length === 0) {
+      throw new Error(`${flow.name} has no stages to simulate`);
+    }
+    if (!Number.isInteger(weeks) || weeks < 1 || weeks > this.MAX_WEEKS) {
+      throw new Error(`weeks must be an integer between 1 and ${this.MAX_WEEKS}`);
+    }
+    if (!Number.isInteger(warmupWeeks) || warmupWeeks < 0) {
+      throw new Error('warmupWeeks must be a non-negative integer');
+    }
+    if (!Number.isInteger(runs) || runs < 1 || runs > this.MAX_RUNS) {
+      throw new Error(`runs must be an integer between 1 and ${this.MAX_RUNS}`);
+    }
+
+    const stages = this.buildStages(flow, options.staffing || [], options.changes || []);
+    const volumePerMonth = options.volumePerMonth ?? flow.volumePerMonth;
+    const random = createRandom(options.seed);
+
+    const results: RunStats[] = [];
+    for (let run = 0; run < runs; run++) {
+      // Arrivals get their own stream so a change to the stages leaves them untouched
+      const arrivals = createRandom(Math.floor(random.next() * 4294967296));
+      const process = createRandom(Math.floor(random.next() * 4294967296));
+      results.push(this.run(stages, volumePerMonth, warmupWeeks, weeks, arrivals, process));
+    }
+
+    return this.aggregate(flow, stages, results, weeks, random.seed);
+  }
+
+  /**
+   * Current setup against the proposed changes on the same seed, so both
+   * sides see the same arrivals
+   */
+  compare(flow: ProcessFlow, changes: StageChange[], options: Omit<SimulationOptions, 'changes'> = {}): SimulationComparison {
+    const baseline = this.simulate(flow, { ...options, changes: [] });
+    const proposal = this.simulate(flow, { ...options, changes, seed: baseline.seed });
+
+    return {
+      changes,
+      baseline,
+      proposal,
+      delta: {
+        throughputPerWeek: round(proposal.throughputPerWeek - baseline.throughputPerWeek, 2),
+        cycleTimeP50: round(proposal.cycleTime.p50 - baseline.cycleTime.p50, 2),
+        cycleTimeP95: round(proposal.cycleTime.p95 - baseline.cycleTime.p95, 2),
+        averageWip: round(proposal.wip.average - baseline.wip.average, 2)
+      }
+    };
+  }
+
+  /**
+   * Stage parameters. Hands-on time per case comes from the queueing model
+   * fitted to the stage's observed wait; the rest of its processing time is
+   * a delay that holds no server. Min/avg/max give the triangular shape.
+   */
+  private buildStages(flow: ProcessFlow, staffing: StageStaffing[], changes: StageChange[]): SimStage[] {
+    for (const change of changes) {
+      if (!flow.stages.some(s => s.id === change.stageId)) {
+        throw new Error(`Stage ${change.stageId} is not part of ${flow.name}`);
+      }
+      if (change.addServers !== undefined && (!Number.isInteger(change.addServers) || change.addServers < 0)) {
+        throw new Error(`${change.stageId}: addServers must be a non-negative integer`);
+      }
+      if (change.serviceTimeFactor !== undefined && !(change.serviceTimeFactor > 0)) {
+        throw new Error(`${change.stageId}: serviceTimeFactor must be positive`);
+      }
+      for (const rate of [change.reworkRate, change.dropOffRate]) {
+        if (rate !== undefined && !(rate >= 0 && rate < 1)) {
+          throw new Error(`${change.stageId}: rates must be between 0 and 1`);
+        }
+      }
+    }
+
+    return flow.stages.map(stage => {
+      const change = changes.find(c => c.stageId === stage.id);
+      const staff = staffing.find(s => s.stageId === stage.id)
+        || { stageId: stage.id, servers: DEFAULT_SERVERS, hoursPerDay: DEFAULT_HOURS_PER_DAY };
+      const estimate = this.queueing.estimate(stage, flow, staff);
+
+      const daysPerMonth = staff.daysPerMonth ?? DEFAULT_DAYS_PER_MONTH;
+      const handsOnDays = (estimate.serviceHours / staff.hoursPerDay) * (CALENDAR_DAYS_PER_MONTH / daysPerMonth);
+      const processingDays = Math.max(0, stage.avgDuration - stage.waitTime);
+
+      return {
+        stage,
+        servers: staff.servers + (change?.addServers ?? 0),
+        handsOnDays: handsOnDays * (change?.serviceTimeFactor ?? 1),
+        delayDays: Math.max(0, processingDays - handsOnDays),
+        shape: this.triangularShape(stage),
+        reworkRate: change?.reworkRate ?? stage.reworkRate,
+        dropOffRate: change?.dropOffRate ?? stage.dropOffRate
+      };
+    });
+  }
+
+  /**
+   * Triangular distribution with the stage's min and max whose mean matches
+   * its average where possible, scaled to mean 1
+   */
+  private triangularShape(stage: ProcessStage): SimStage['shape'] {
+    const min = Math.max(0, Math.min(stage.minDuration, stage.avgDuration));
+    const max = Math.max(stage.maxDuration, stage.avgDuration);
+    if (max <= min) return { min: 1, mode: 1, max: 1 };
+
+    const mode = Math.min(max, Math.max(min, 3 * stage.avgDuration - min - max));
+    const scale = (min + mode + max) / 3;
+    return { min: min / scale, mode: mode / scale, max: max / scale };
+  }
+
+  private sampleTriangular(shape: SimStage['shape'], random: RandomSource): number {
+    const { min, mode, max } = shape;
+    if (max === min) return mode;
+    const u = random.next();
+    const split = (mode - min) / (max - min);
+    return u < split
+      ? min + Math.sqrt(u * (max - min) * (mode - min))
+      : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+  }
+
+  /**
+   * One replication. Time is in calendar days; measuring starts after the
+   * warm-up and every integral is taken over the measured window only.
+   */
+  private run(
+    stages: SimStage[],
+    volumePerMonth: number,
+    warmupWeeks: number,
+    weeks: number,
+    arrivals: RandomSource,
+    random: RandomSource
+  ): RunStats {
+    const measureFrom = warmupWeeks * DAYS_PER_WEEK;
+    const horizon = measureFrom + weeks * DAYS_PER_WEEK;
+    const arrivalRate = volumePerMonth / CALENDAR_DAYS_PER_MONTH;  // Cases per day
+
+    const stats: RunStats = {
+      arrivals: 0,
+      completed: 0,
+      dropped: 0,
+      cycleTimes: [],
+      wipArea: 0,
+      wipMax: 0,
+      weeklyWip: [],
+      stages: stages.map(() => ({ queueArea: 0, busyArea: 0, maxQueue: 0, waits: [], entered: 0, reworked: 0, dropped: 0 }))
+    };
+
+    const queues: SimCase[][] = stages.map(() => []);
+    const busy = stages.map(() => 0);
+    const events = new EventQueue();
+    let seq = 0;
+    let nextId = 0;
+    let wip = 0;
+    let now = 0;
+
+    const schedule = (event: ScheduledEvent) => events.push({ ...event, seq: seq++ });
+    const interarrival = () => -Math.log(1 - arrivals.next()) / arrivalRate;
+    const measuring = () => now >= measureFrom;
+
+    const advance = (time: number) => {
+      const from = Math.max(now, measureFrom);
+      const to = Math.min(time, horizon);
+      if (to > from) {
+        const dt = to - from;
+        stats.wipArea += wip * dt;
+        stages.forEach((_, i) => {
+          stats.stages[i].queueArea += queues[i].length * dt;
+          stats.stages[i].busyArea += busy[i] * dt;
+        });
+      }
+      now = time;
+    };
+
+    const startService = (index: number) => {
+      const stage = stages[index];
+      while (busy[index] < stage.servers && queues[index].length > 0) {
+        const item = queues[index].shift()!;
+        busy[index]++;
+        if (measuring()) stats.stages[index].waits.push(now - item.enqueuedAt);
+        schedule({ time: now + stage.handsOnDays * this.sampleTriangular(stage.shape, random), kind: 'service-end', item });
+      }
+    };
+
+    const enqueue = (item: SimCase, index: number) => {
+      item.stage = index;
+      item.enqueuedAt = now;
+      queues[index].push(item);
+      if (measuring()) {
+        stats.stages[index].maxQueue = Math.max(stats.stages[index].maxQueue, queues[index].length);
+      }
+      startService(index);
+    };
+
+    if (arrivalRate > 0) schedule({ time: interarrival(), kind: 'arrival' });
+    for (let week = 1; week <= weeks; week++) {
+      schedule({ time: measureFrom + week * DAYS_PER_WEEK, kind: 'week-end' });
+    }
+
+    while (events.size > 0) {
+      const event = events.pop();
+      if (event.time > horizon) break;
+      advance(event.time);
+
+      if (event.kind === 'week-end') {
+        stats.weeklyWip.push(wip);
+        continue;
+      }
+
+      if (event.kind === 'arrival') {
+        wip++;
+        if (measuring()) {
+          stats.arrivals++;
+          stats.stages[0].entered++;
+          stats.wipMax = Math.max(stats.wipMax, wip);
+        }
+        enqueue({ id: nextId++, arrivedAt: now, stage: 0, enqueuedAt: now, loops: 0 }, 0);
+        schedule({ time: now + interarrival(), kind: 'arrival' });
+        continue;
+      }
+
+      const { item } = event;
+      const index = item.stage;
+      const stage = stages[index];
+
+      if (event.kind === 'service-end') {
+        busy[index]--;
+        if (item.loops < MAX_REWORK_LOOPS && random.next() < stage.reworkRate) {
+          item.loops++;
+          if (measuring()) stats.stages[index].reworked++;
+          enqueue(item, index);
+        } else {
+          const delay = stage.delayDays * this.sampleTriangular(stage.shape, random);
+          schedule({ time: now + delay, kind: 'delay-end', item });
+        }
+        startService(index);
+        continue;
+      }
+
+      // Leaving the stage: drop off, move on or finish
+      if (random.next() < stage.dropOffRate) {
+        wip--;
+        if (measuring()) {
+          stats.dropped++;
+          stats.stages[index].dropped++;
+        }
+      } else if (index + 1 < stages.length) {
+        item.loops = 0;
+        if (measuring()) stats.stages[index + 1].entered++;
+        enqueue(item, index + 1);
+      } else {
+        wip--;
+        if (measuring()) {
+          stats.completed++;
+          stats.cycleTimes.push(now - item.arrivedAt);
+        }
+      }
+    }
+
+    return stats;
+  }
+
+  private aggregate(flow: ProcessFlow, stages: SimStage[], results: RunStats[], weeks: number, seed: number): SimulationResult {
+    const windowDays = weeks * DAYS_PER_WEEK;
+    const perRun = (pick: (r: RunStats) => number) => round(mean(results.map(pick)), 2);
+
+    const stageResults: StageSimulation[] = stages.map((simStage, i) => {
+      const waits = results.flatMap(r => r.stages[i].waits);
+      return {
+        stageId: simStage.stage.id,
+        name: simStage.stage.name,
+        servers: simStage.servers,
+        utilization: round(mean(results.map(r => r.stages[i].busyArea / (windowDays * simStage.servers))), 3),
+        avgQueueLength: round(mean(results.map(r => r.stages[i].queueArea / windowDays)), 2),
+        maxQueueLength: Math.max(...results.map(r => r.stages[i].maxQueue)),
+        waitDays: summarize(waits),
+        entered: perRun(r => r.stages[i].entered),
+        reworked: perRun(r => r.stages[i].reworked),
+        dropped: perRun(r => r.stages[i].dropped)
+      };
+    });
+
+    const constraint = stageResults
+      .filter(s => s.waitDays.mean > 0)
+      .sort((a, b) => b.waitDays.mean - a.waitDays.mean)[0];
+
+    return {
+      flowId: flow.id,
+      weeks,
+      runs: results.length,
+      seed,
+      arrivals: perRun(r => r.arrivals),
+      completed: perRun(r => r.completed),
+      dropped: perRun(r => r.dropped),
+      throughputPerWeek: perRun(r => r.completed / weeks),
+      wip: {
+        average: perRun(r => r.wipArea / windowDays),
+        max: Math.max(...results.map(r => r.wipMax)),
+        weekly: Array.from({ length: weeks }, (_, week) => round(mean(results.map(r => r.weeklyWip[week] ?? 0)), 1))
+      },
+      cycleTime: summarize(results.flatMap(r => r.cycleTimes)),
+      stages: stageResults,
+      constraintStageId: constraint ? constraint.stageId : null
+    };
+  }
+}
+
+export default ProcessSimulator;
@@ -0,0 +1,200 @@
+/**
+ * Queueing Model
+ * Per-stage capacity from who actually staffs it: M/M/c waiting time and
+ * utilization from the Erlang C formula, corrected for non-exponential
+ * arrivals and service with the Kingman (Allen-Cunneen) G/G/c approximation
+ */
+
+import type { ProcessFlow, ProcessStage } from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface StageStaffing {
+  stageId: string;
+  servers: number;  // People working the stage's queue in parallel
+  hoursPerDay: number;  // Hours each of them gives the stage per working day
+  skill?: string;  // Role that staffs it (e.g. 'CPQ specialist')
+  productivity?: number;  // Pace against serviceHours; 1.2 = 20% faster
+  serviceHours?: number;  // Hands-on hours per case at standard pace; calibrated from the observed wait when missing
+  daysPerMonth?: number;  // Working days per month
+  monthlyCostPerServer?: number;  // Fully loaded monthly cost of one person
+}
+
+export interface QueueModelOptions {
+  arrivalCv?: number;  // Coefficient of variation of inter-arrival times; 1 = Poisson
+  serviceCv?: number;  // Of service times; defaults to the stage's range / 4 over its mean
+}
+
+export interface QueueEstimate {
+  stageId: string;
+  servers: number;
+  model: 'M/M/c' | 'G/G/c';
+  arrivalsPerMonth: number;  // Cases entering the stage, rework included
+  serviceHours: number;  // Hands-on hours per case at the staffed productivity
+  utilization: number;  // Offered load over capacity; 1 or more never clears
+  stable: boolean;
+  probabilityOfWaiting: number;  // Share of cases that find every server busy
+  queueLength: number;  // Cases waiting on average (Lq); Infinity when unstable
+  waitDays: number | null;  // Calendar days in queue (Wq); null when unstable
+}
+
+export interface StaffingScenario {
+  stageId: string;
+  stageName: string;
+  skill?: string;
+  addedServers: number;
+  before: QueueEstimate;
+  after: QueueEstimate;
+  waitDaysSaved: number;  // Capped at the stage's observed wait
+  costOfDelayBefore: number;  // Per month
+  costOfDelayAfter: number;
+  monthlySavings: number;
+  monthlyCost: number;  // Of the added people
+  paybackMonths: number | null;  // null when the savings never cover the cost
+}
+
+export const DEFAULT_DAYS_PER_MONTH = 22;
+const CALENDAR_DAYS_PER_MONTH = 30;
+
+const CALIBRATION_STEPS = 60;
+
+interface Queue {
+  servers: number;
+  arrivalsPerMonth: number;
+  hoursPerDay: number;
+  daysPerMonth: number;
+  variability: number;  // Kingman factor (ca² + cs²) / 2; 1 for M/M/c
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// ============================================================================
+// QUEUEING MODEL
+// ============================================================================
+
+export class QueueingModel {
+  /**
+   * Waiting time and utilization of a stage. Arrivals are the flow's monthly
+   * volume plus the cases that loop back for rework; each server works
+   * hoursPerDay over daysPerMonth. Without serviceHours, the hands-on effort
+   * per case is the one at which today's staffing reproduces the stage's
+   * observed wait, never more than its processing days at full time.
+   */
+  estimate(
+    stage: ProcessStage,
+    flow: ProcessFlow,
+    staffing: StageStaffing,
+    options: QueueModelOptions = {}
+  ): QueueEstimate {
+    if (!Number.isInteger(staffing.servers) || staffing.servers < 1) {
+      throw new Error(`${stage.name}: servers must be a positive integer`);
+    }
+    if (staffing.hoursPerDay <= 0 || staffing.hoursPerDay > 24) {
+      throw new Error(`${stage.name}: hoursPerDay must be between 0 and 24`);
+    }
+
+    const arrivalCv = options.arrivalCv ?? 1;
+    const serviceCv = options.serviceCv ?? this.serviceCv(stage);
+    const queue: Queue = {
+      servers: staffing.servers,
+      arrivalsPerMonth: flow.volumePerMonth * (1 + stage.reworkRate),
+      hoursPerDay: staffing.hoursPerDay,
+      daysPerMonth: staffing.daysPerMonth ?? DEFAULT_DAYS_PER_MONTH,
+      variability: (arrivalCv ** 2 + serviceCv ** 2) / 2
+    };
+
+    const serviceHours = staffing.serviceHours !== undefined
+      ? staffing.serviceHours / (staffing.productivity ?? 1)
+      : this.calibrateServiceHours(stage, queue);
+    const { utilization, probabilityOfWaiting, queueLength, waitDays } = this.solve(queue, serviceHours);
+
+    return {
+      stageId: stage.id,
+      servers: queue.servers,
+      model: arrivalCv === 1 && serviceCv === 1 ? 'M/M/c' : 'G/G/c',
+      arrivalsPerMonth: round(queue.arrivalsPerMonth, 2),
+      serviceHours: round(serviceHours, 2),
+      utilization: round(utilization, 4),
+      stable: waitDays !== null,
+      probabilityOfWaiting: round(probabilityOfWaiting, 4),
+      queueLength: Number.isFinite(queueLength) ? round(queueLength, 3) : queueLength,
+      waitDays: waitDays === null ? null : round(waitDays, 2)
+    };
+  }
+
+  /**
+   * Erlang C for the queue, scaled by the Kingman variability factor, with
+   * Little's Law on the working-hour clock turned back into calendar days
+   */
+  private solve(queue: Queue, serviceHours: number) {
+    const hoursPerMonth = queue.hoursPerDay * queue.daysPerMonth;
+    const offeredLoad = (queue.arrivalsPerMonth * serviceHours) / hoursPerMonth;  // Busy servers needed (Erlangs)
+    const utilization = offeredLoad / queue.servers;
+
+    if (queue.arrivalsPerMonth === 0 || serviceHours === 0) {
+      return { utilization: 0, probabilityOfWaiting: 0, queueLength: 0, waitDays: 0 };
+    }
+    if (utilization >= 1) {
+      return { utilization, probabilityOfWaiting: 1, queueLength: Infinity, waitDays: null };
+    }
+
+    const probabilityOfWaiting = this.erlangC(queue.servers, offeredLoad);
+    const queueLength = probabilityOfWaiting * (utilization / (1 - utilization)) * queue.variability;
+    const waitHours = queueLength / (queue.arrivalsPerMonth / hoursPerMonth);
+    const waitDays = (waitHours / queue.hoursPerDay) * (CALENDAR_DAYS_PER_MONTH / queue.daysPerMonth);
+
+    return { utilization, probabilityOfWaiting, queueLength, waitDays };
+  }
+
+  /**
+   * Effort per case at which the queue waits as long as the stage does today.
+   * Waiting grows with effort, so bisection finds it; a wait the stage's
+   * processing time cannot explain leaves the effort at that ceiling.
+   */
+  private calibrateServiceHours(stage: ProcessStage, queue: Queue): number {
+    const processingDays = Math.max(0, stage.avgDuration - stage.waitTime);
+    const ceiling = processingDays * queue.hoursPerDay;
+    if (ceiling === 0 || queue.arrivalsPerMonth === 0) return 0;
+
+    const saturation = (queue.servers * queue.hoursPerDay * queue.daysPerMonth) / queue.arrivalsPerMonth;
+    let low = 0;
+    let high = Math.min(ceiling, saturation * (1 - 1e-6));
+    if ((this.solve(queue, high).waitDays ?? Infinity) <= stage.waitTime) return high;
+
+    for (let i = 0; i < CALIBRATION_STEPS; i++) {
+      const mid = (low + high) / 2;
+      if ((this.solve(queue, mid).waitDays ?? Infinity) < stage.waitTime) low = mid;
+      else high = mid;
+    }
+    return (low + high) / 2;
+  }
+
+  /**
+   * Erlang C: probability that an arrival waits with c servers and an
+   * offered load of a Erlangs (a < c). Terms are built iteratively so
+   * large staffs do not overflow the factorials.
+   */
+  private erlangC(servers: number, offeredLoad: number): number {
+    let term = 1;  // a^k / k!
+    let sum = 0;
+    for (let k = 0; k < servers; k++) {
+      sum += term;
+      term *= offeredLoad / (k + 1);
+    }
+    const waiting = term / (1 - offeredLoad / servers);
+    return waiting / (sum + waiting);
+  }
+
+  /**
+   * Service variability from the observed range, treating it as about four
+   * standard deviations
+   */
+  private serviceCv(stage: ProcessStage): number {
+    if (stage.avgDuration <= 0) return 1;
+    return (stage.maxDuration - stage.minDuration) / 4 / stage.avgDuration;
+  }
+}
+
+export default QueueingModel;
@@ -0,0 +1,334 @@
+/**
+ * Ramp Schedule
+ * Turns a spend reallocation into a dated transition media buyers can run:
+ * each channel moves at most maxChannelChangeRate of its current spend per
+ * step and holds every level for minChannelStability days, and each day's
+ * spend follows the month's pacing profile or weekly targets
+ */
+
+import type { BusinessConstraints, SpendPlan } from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export type ScheduleGranularity = 'day' | 'week';
+
+export interface RampScheduleOptions {
+  start: Date;  // First day of the transition
+  granularity?: ScheduleGranularity;
+  days?: number;  // Horizon; defaults to the rest of the start month, never shorter than the transition
+}
+
+export interface RampStep {
+  channel: string;
+  date: Date;
+  from: number;  // Monthly run rate before the step
+  to: number;
+}
+
+export interface ChannelPeriodSpend {
+  channel: string;
+  runRate: number;  // Monthly run rate at the end of the period
+  spend: number;
+  leads: number;
+  steps: RampStep[];  // Changes that take effect in the period
+}
+
+export interface SchedulePeriod {
+  start: Date;
+  end: Date;
+  channels: ChannelPeriodSpend[];
+  spend: number;
+  leads: number;
+}
+
+export interface RampSchedule {
+  granularity: ScheduleGranularity;
+  start: Date;
+  end: Date;
+  transitionDays: number;  // Days until every channel runs at its target
+  steps: RampStep[];
+  periods: SchedulePeriod[];
+  totals: { spend: number; leads: number };
+}
+
+// Share of the month's budget spent in its first half, as the pacing guardrail reads it
+const FIRST_HALF_SHARE: Record<BusinessConstraints['monthlyPacing'], number> = {
+  linear: 0.5,
+  front_loaded: 0.6,
+  back_loaded: 0.4
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// ============================================================================
+// RAMP SCHEDULER
+// ============================================================================
+
+export class RampScheduler {
+  private constraints: BusinessConstraints;
+
+  constructor(constraints: BusinessConstraints) {
+    this.constraints = constraints;
+  }
+
+  /**
+   * Schedule from current spend to a plan's allocations. Leads follow each
+   * channel's cost per lead in the plan; channels the plan leaves unfunded
+   * use the plan's blended cost per lead.
+   */
+  scheduleFromPlan(plan: SpendPlan, currentSpend: Map<string, number>, options: RampScheduleOptions): RampSchedule {
+    const spend = plan.allocations.reduce((sum, a) => sum + a.recommendedAmount, 0);
+    const leads = plan.allocations.reduce((sum, a) => sum + a.expectedLeads, 0);
+    const blendedCostPerLead = leads > 0 ? spend / leads : Infinity;
+
+    return this.schedule({
+      currentSpend,
+      targetSpend: new Map(plan.allocations.map(a => [a.channel.name, a.recommendedAmount])),
+      costPerLead: new Map(plan.allocations.map(a => [
+        a.channel.name,
+        a.recommendedAmount > 0 && a.expectedLeads > 0 ? a.recommendedAmount / a.expectedLeads : blendedCostPerLead
+      ])),
+      ...options
+    });
+  }
+
+  /**
+   * Days until every channel runs at its target, from the number of steps
+   * each one needs; cheap enough to check before building a schedule
+   */
+  transitionDays(currentSpend: Map<string, number>, targetSpend: Map<string, number>): number {
+    const hold = this.holdDays();
+    return this.channels(currentSpend, targetSpend).reduce((longest, channel) => {
+      const count = this.stepCount(currentSpend.get(channel) || 0, this.target(channel, currentSpend, targetSpend));
+      return count > 0 ? Math.max(longest, (count - 1) * hold + 1) : longest;
+    }, 0);
+  }
+
+  /**
+   * Day-by-day transition between monthly run rates, by channel name.
+   * Channels with spend today step toward their target by at most
+   * maxChannelChangeRate of that spend, the first step on the start day and
+   * each next one after minChannelStability days; new channels launch at
+   * their target. Each day spends the run rate times that day's share of its
+   * month.
+   */
+  schedule(params: RampScheduleOptions & {
+    currentSpend: Map<string, number>;
+    targetSpend: Map<string, number>;
+    costPerLead: Map<string, number>;
+  }): RampSchedule {
+    const { currentSpend, targetSpend, costPerLead, granularity = 'day' } = params;
+    if (this.constraints.maxChannelChangeRate <= 0) {
+      throw new Error('maxChannelChangeRate must be positive to ramp spend');
+    }
+
+    const start = new Date(Date.UTC(params.start.getUTCFullYear(), params.start.getUTCMonth(), params.start.getUTCDate()));
+    const hold = this.holdDays();
+    const channels = this.channels(currentSpend, targetSpend);
+    const transitionDays = this.transitionDays(currentSpend, targetSpend);
+
+    const restOfMonth = this.daysInMonth(start) - start.getUTCDate() + 1;
+    let days = Math.max(params.days ?? restOfMonth, transitionDays, 1);
+    if (granularity === 'week') days = Math.ceil(days / 7) * 7;
+
+    const stepsByChannel = new Map(channels.map(channel => [
+      channel,
+      this.channelSteps(channel, currentSpend.get(channel) || 0, this.target(channel, currentSpend, targetSpend), start, hold)
+    ]));
+    const runRates = new Map(channels.map(channel => [channel, currentSpend.get(channel) || 0]));
+    const taken = new Map(channels.map(channel => [channel, 0]));
+
+    const daily: SchedulePeriod[] = [];
+    for (let day = 0; day < days; day++) {
+      const date = new Date(start.getTime() + day * DAY_MS);
+      const share = this.dailyShare(date);
+
+      const row = channels.map(channel => {
+        // Steps are in date order, so each day only looks at the next one
+        const steps = stepsByChannel.get(channel)!;
+        const today: RampStep[] = [];
+        let next = taken.get(channel)!;
+        while (next < steps.length && steps[next].date.getTime() === date.getTime()) {
+          today.push(steps[next]);
+          runRates.set(channel, steps[next].to);
+          next++;
+        }
+        taken.set(channel, next);
+
+        const runRate = runRates.get(channel)!;
+        const spend = runRate * share;
+        const cpl = costPerLead.get(channel);
+        return {
+          channel,
+          runRate,
+          spend,
+          leads: cpl && Number.isFinite(cpl) ? spend / cpl : 0,
+          steps: today
+        };
+      });
+
+      daily.push({
+        start: date,
+        end: date,
+        channels: row,
+        spend: row.reduce((sum, c) => sum + c.spend, 0),
+        leads: row.reduce((sum, c) => sum + c.leads, 0)
+      });
+    }
+
+    const periods = granularity === 'week' ? this.byWeek(daily) : daily;
+
+    return {
+      granularity,
+      start,
+      end: daily[daily.length - 1].end,
+      transitionDays,
+      steps: channels.flatMap(channel => stepsByChannel.get(channel)!),
+      periods: periods.map(period => ({
+        ...period,
+        channels: period.channels.map(c => ({
+          ...c,
+          runRate: round(c.runRate, 2),
+          spend: round(c.spend, 2),
+          leads: round(c.leads, 2)
+        })),
+        spend: round(period.spend, 2),
+        leads: round(period.leads, 2)
+      })),
+      totals: {
+        spend: round(daily.reduce((sum, d) => sum + d.spend, 0), 2),
+        leads: round(daily.reduce((sum, d) => sum + d.leads, 0), 2)
+      }
+    };
+  }
+
+  /**
+   * One row per period and channel, with the step taken in it if any
+   */
+  toCSV(schedule: RampSchedule): string {
+    const headers = [
+      'Period Start',
+      'Period End',
+      'Channel',
+      'Monthly Run Rate',
+      'Spend',
+      'Expected Leads',
+      'Change'
+    ];
+
+    const rows = schedule.periods.flatMap(period => period.channels.map(channel => [
+      isoDate(period.start),
+      isoDate(period.end),
+      channel.channel,
+      channel.runRate.toFixed(2),
+      channel.spend.toFixed(2),
+      channel.leads.toFixed(2),
+      channel.steps.map(s => `${isoDate(s.date)}: ${Math.round(s.from)} -> ${Math.round(s.to)}`).join('; ')
+    ]));
+
+    return [
+      headers.join(','),
+      ...rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+    ].join('\n');
+  }
+
+  /**
+   * Steps from current to target, each at most maxChannelChangeRate of the
+   * current run rate, held minChannelStability days apart
+   */
+  private channelSteps(channel: string, current: number, target: number, start: Date, hold: number): RampStep[] {
+    const count = this.stepCount(current, target);
+    const maxStep = (target > current ? 1 : -1) * current * this.constraints.maxChannelChangeRate;
+
+    return Array.from({ length: count }, (_, i) => ({
+      channel,
+      date: new Date(start.getTime() + i * hold * DAY_MS),
+      from: current + i * maxStep,
+      to: i === count - 1 ? target : current + (i + 1) * maxStep
+    }));
+  }
+
+  /**
+   * Full steps of maxChannelChangeRate until the gap to the target is under
+   * half a cent; a new channel launches in one step
+   */
+  private stepCount(current: number, target: number): number {
+    const gap = Math.abs(target - current);
+    if (gap < 0.005) return 0;
+    if (current === 0) return 1;
+    return Math.floor((gap - 0.005) / (current * this.constraints.maxChannelChangeRate)) + 1;
+  }
+
+  private channels(currentSpend: Map<string, number>, targetSpend: Map<string, number>): string[] {
+    return Array.from(new Set([...currentSpend.keys(), ...targetSpend.keys()]));
+  }
+
+  private target(channel: string, currentSpend: Map<string, number>, targetSpend: Map<string, number>): number {
+    return targetSpend.get(channel) ?? currentSpend.get(channel) ?? 0;
+  }
+
+  private holdDays(): number {
+    return Math.max(1, Math.round(this.constraints.minChannelStability));
+  }
+
+  /**
+   * Share of its month's budget a day spends. Weekly targets, when given,
+   * weight each week of the month (the last target covers any later week);
+   * otherwise the pacing profile splits the month into halves.
+   */
+  private dailyShare(date: Date): number {
+    const days = this.daysInMonth(date);
+    const dayOfMonth = date.getUTCDate();
+    const { monthlyPacing, weeklySpendTargets } = this.constraints;
+
+    if (weeklySpendTargets && weeklySpendTargets.length > 0) {
+      const weight = (day: number) => weeklySpendTargets[Math.min(Math.floor((day - 1) / 7), weeklySpendTargets.length - 1)];
+      let total = 0;
+      for (let day = 1; day <= days; day++) total += weight(day);
+      return total > 0 ? weight(dayOfMonth) / total : 1 / days;
+    }
+
+    const firstHalfDays = Math.floor(days / 2);
+    const firstHalfShare = FIRST_HALF_SHARE[monthlyPacing];
+    return dayOfMonth <= firstHalfDays
+      ? firstHalfShare / firstHalfDays
+      : (1 - firstHalfShare) / (days - firstHalfDays);
+  }
+
+  private daysInMonth(date: Date): number {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+  }
+
+  /**
+   * Seven-day periods from the start day; run rates are the ones in force
+   * at the end of each week
+   */
+  private byWeek(daily: SchedulePeriod[]): SchedulePeriod[] {
+    const weeks: SchedulePeriod[] = [];
+    for (let i = 0; i < daily.length; i += 7) {
+      const days = daily.slice(i, i + 7);
+      const last = days[days.length - 1];
+      weeks.push({
+        start: days[0].start,
+        end: last.end,
+        channels: last.channels.map((channel, index) => ({
+          channel: channel.channel,
+          runRate: channel.runRate,
+          spend: days.reduce((sum, d) => sum + d.channels[index].spend, 0),
+          leads: days.reduce((sum, d) => sum + d.channels[index].leads, 0),
+          steps: days.flatMap(d => d.channels[index].steps)
+        })),
+        spend: days.reduce((sum, d) => sum + d.spend, 0),
+        leads: days.reduce((sum, d) => sum + d.leads, 0)
+      });
+    }
+    return weeks;
+  }
+}
+
+export default RampScheduler;
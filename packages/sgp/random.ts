@@ -0,0 +1,65 @@
+/**
+ * Seeded Random Source
+ * Deterministic PRNG shared by the Monte Carlo engines, so the same inputs and
+ * seed reproduce the same plan, intervals and forecast bands
+ */
+
+// ============================================================================
+// RANDOM SOURCE
+// ============================================================================
+
+export interface RandomSource {
+  readonly seed: number;
+  /** Uniform in [0, 1) */
+  next(): number;
+  /** Standard normal (mean 0, sd 1) */
+  normal(): number;
+}
+
+/**
+ * Mulberry32: small, fast 32-bit generator with good statistical quality for simulation
+ */
+export class SeededRandom implements RandomSource {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  normal(): number {
+    // Box-Muller transform; 1 - u keeps the log argument in (0, 1]
+    const u1 = 1 - this.next();
+    const u2 = this.next();
+    return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+}
+
+/**
+ * New 32-bit seed for runs that were not given one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Random source for a run: replays `seed` when given, otherwise draws a fresh one
+ */
+export function createRandom(seed?: number): RandomSource {
+  return new SeededRandom(seed ?? generateSeed());
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default SeededRandom;
@@ -0,0 +1,405 @@
+/**
+ * Resource Scheduler
+ * Critical path per project and week-by-week capacity across the portfolio:
+ * flags over-allocated people and weeks above the concurrent project limit,
+ * and shifts the start of projects that have not started so capacity holds
+ */
+
+import type { BusinessConstraints } from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface ScheduleTask {
+  id: string;
+  name: string;
+  durationDays: number;  // Remaining work; 0 for finished tasks
+  dependsOn: string[];
+}
+
+export interface ProjectAssignment {
+  member: string;
+  load: number;  // Share of the person's week the project takes (1 = full time)
+}
+
+export interface PortfolioProject {
+  id: string;
+  name: string;
+  start: Date;  // Earliest date the remaining work can start
+  tasks: ScheduleTask[];
+  assignments: ProjectAssignment[];
+  movable: boolean;  // Not started yet, so its start can be shifted
+}
+
+export interface TaskTiming {
+  id: string;
+  name: string;
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  projectId: string;
+  name: string;
+  start: Date;
+  finish: Date;
+  durationDays: number;
+  path: string[];  // Task IDs with zero slack, in order
+  tasks: TaskTiming[];
+}
+
+export interface MemberWeekLoad {
+  member: string;
+  weekStart: Date;
+  load: number;
+  capacity: number;
+  projects: string[];
+}
+
+export interface PortfolioWeek {
+  weekStart: Date;
+  activeProjects: string[];
+  capacity: number;  // Concurrent projects allowed
+}
+
+export interface StartShift {
+  projectId: string;
+  name: string;
+  requestedStart: Date;
+  proposedStart: Date;
+  shiftWeeks: number;
+  finish: Date;
+  feasible: boolean;  // False when no start within the search window fits
+  reason: string;
+}
+
+export interface CapacityLoad {
+  weeks: PortfolioWeek[];
+  members: MemberWeekLoad[];
+  overAllocations: MemberWeekLoad[];
+  portfolioOverloads: PortfolioWeek[];
+}
+
+export interface CapacityPlan {
+  generatedAt: Date;
+  criticalPaths: CriticalPathResult[];
+  requested: CapacityLoad;  // Every project at its requested start
+  shifts: StartShift[];  // Movable projects only
+  scheduled: CapacityLoad;  // After the proposed shifts
+  feasible: boolean;
+}
+
+export interface ResourceSchedulerOptions {
+  memberCapacity?: number;  // Weekly load a person can carry
+  maxShiftWeeks?: number;  // How far a start is searched forward
+}
+
+const DEFAULT_OPTIONS: Required<ResourceSchedulerOptions> = {
+  memberCapacity: 1,
+  maxShiftWeeks: 52
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const WEEK_MS = DAY_MS * 7;
+const EPSILON = 1e-9;
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+/**
+ * Monday 00:00 UTC of the date's week
+ */
+export function weekStartOf(date: Date): Date {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  const offset = (new Date(day).getUTCDay() + 6) % 7;
+  return new Date(day - offset * DAY_MS);
+}
+
+// ============================================================================
+// CRITICAL PATH
+// ============================================================================
+
+/**
+ * Forward and backward pass over the task network (CPM). Tasks depending on
+ * unknown IDs are treated as free; a dependency cycle throws.
+ */
+export function computeCriticalPath(project: Pick<PortfolioProject, 'id' | 'name' | 'start' | 'tasks'>): CriticalPathResult {
+  const ids = new Set(project.tasks.map(t => t.id));
+  const deps = new Map(project.tasks.map(t => [t.id, t.dependsOn.filter(id => ids.has(id))]));
+
+  const order: ScheduleTask[] = [];
+  const placed = new Set<string>();
+  while (order.length < project.tasks.length) {
+    const ready = project.tasks.filter(t => !placed.has(t.id) && deps.get(t.id)!.every(id => placed.has(id)));
+    if (ready.length === 0) {
+      throw new Error(`Task dependencies of ${project.name} form a cycle`);
+    }
+    ready.forEach(t => {
+      order.push(t);
+      placed.add(t.id);
+    });
+  }
+
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+  for (const task of order) {
+    const es = Math.max(0, ...deps.get(task.id)!.map(id => earlyFinish.get(id)!));
+    earlyStart.set(task.id, es);
+    earlyFinish.set(task.id, es + Math.max(0, task.durationDays));
+  }
+  const durationDays = Math.max(0, ...Array.from(earlyFinish.values()));
+
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+  for (const task of [...order].reverse()) {
+    const successors = order.filter(t => deps.get(t.id)!.includes(task.id));
+    const lf = Math.min(durationDays, ...successors.map(t => lateStart.get(t.id)!));
+    lateFinish.set(task.id, lf);
+    lateStart.set(task.id, lf - Math.max(0, task.durationDays));
+  }
+
+  const tasks: TaskTiming[] = order.map(task => {
+    const slackDays = lateStart.get(task.id)! - earlyStart.get(task.id)!;
+    return {
+      id: task.id,
+      name: task.name,
+      earlyStart: addDays(project.start, earlyStart.get(task.id)!),
+      earlyFinish: addDays(project.start, earlyFinish.get(task.id)!),
+      lateStart: addDays(project.start, lateStart.get(task.id)!),
+      lateFinish: addDays(project.start, lateFinish.get(task.id)!),
+      slackDays,
+      critical: slackDays <= EPSILON && task.durationDays > 0
+    };
+  });
+
+  return {
+    projectId: project.id,
+    name: project.name,
+    start: project.start,
+    finish: addDays(project.start, durationDays),
+    durationDays,
+    path: tasks.filter(t => t.critical).sort((a, b) => a.earlyStart.getTime() - b.earlyStart.getTime()).map(t => t.id),
+    tasks
+  };
+}
+
+// ============================================================================
+// RESOURCE SCHEDULER
+// ============================================================================
+
+interface ActiveWindow {
+  project: PortfolioProject;
+  start: Date;
+  finish: Date;
+}
+
+export class ResourceScheduler {
+  private maxConcurrentProjects: number;
+  private options: Required<ResourceSchedulerOptions>;
+
+  constructor(constraints: Pick<BusinessConstraints, 'maxDailyCapacity'>, options: ResourceSchedulerOptions = {}) {
+    this.maxConcurrentProjects = constraints.maxDailyCapacity.implementations;
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Critical paths and weekly loads with every project at its requested start,
+   * then movable projects placed one by one (earliest requested first) at the
+   * first weekly shift that keeps every person and the portfolio within capacity
+   */
+  plan(projects: PortfolioProject[], now: Date = new Date()): CapacityPlan {
+    const { criticalPaths, requestedWindows, scheduledWindows, shifts } = this.schedule(projects, now);
+    const scheduled = this.measure(scheduledWindows, now);
+
+    return {
+      generatedAt: now,
+      criticalPaths,
+      requested: this.measure(requestedWindows, now),
+      shifts,
+      scheduled,
+      feasible: scheduled.overAllocations.length === 0 && scheduled.portfolioOverloads.length === 0
+    };
+  }
+
+  /**
+   * Earliest start on or after the candidate's start at which a new project fits
+   * the portfolio (with its own proposed shifts applied), e.g. to quote a
+   * realistic start date
+   */
+  earliestStart(candidate: PortfolioProject, projects: PortfolioProject[], now: Date = new Date()): StartShift {
+    const { scheduledWindows } = this.schedule(projects, now);
+    return this.shiftFor(candidate, computeCriticalPath(candidate).durationDays, scheduledWindows, now);
+  }
+
+  private schedule(projects: PortfolioProject[], now: Date): {
+    criticalPaths: CriticalPathResult[];
+    requestedWindows: ActiveWindow[];
+    scheduledWindows: ActiveWindow[];
+    shifts: StartShift[];
+  } {
+    const criticalPaths = projects.map(p => computeCriticalPath(p));
+    const durations = new Map(criticalPaths.map(cp => [cp.projectId, cp.durationDays]));
+    const windowAt = (project: PortfolioProject, start: Date): ActiveWindow => ({
+      project,
+      start,
+      finish: addDays(start, durations.get(project.id)!)
+    });
+
+    const scheduledWindows = projects.filter(p => !p.movable).map(p => windowAt(p, p.start));
+    const shifts: StartShift[] = [];
+    const movable = projects
+      .filter(p => p.movable)
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+    for (const project of movable) {
+      const shift = this.shiftFor(project, durations.get(project.id)!, scheduledWindows, now);
+      scheduledWindows.push(windowAt(project, shift.proposedStart));
+      shifts.push(shift);
+    }
+
+    return {
+      criticalPaths,
+      requestedWindows: projects.map(p => windowAt(p, p.start)),
+      scheduledWindows,
+      shifts
+    };
+  }
+
+  private shiftFor(project: PortfolioProject, durationDays: number, windows: ActiveWindow[], now: Date): StartShift {
+    const placement = this.place(project, durationDays, windows, now);
+    return {
+      projectId: project.id,
+      name: project.name,
+      requestedStart: project.start,
+      proposedStart: placement.start,
+      shiftWeeks: placement.shiftWeeks,
+      finish: addDays(placement.start, durationDays),
+      feasible: placement.feasible,
+      reason: placement.reason
+    };
+  }
+
+  private place(
+    project: PortfolioProject,
+    durationDays: number,
+    windows: ActiveWindow[],
+    now: Date
+  ): { start: Date; shiftWeeks: number; feasible: boolean; reason: string } {
+    const requested = project.start.getTime() < now.getTime() ? now : project.start;
+    let lastConflict = '';
+
+    for (let shiftWeeks = 0; shiftWeeks <= this.options.maxShiftWeeks; shiftWeeks++) {
+      const start = addDays(requested, shiftWeeks * 7);
+      const conflict = this.conflictFor({ project, start, finish: addDays(start, durationDays) }, windows);
+      if (!conflict) {
+        return {
+          start,
+          shiftWeeks,
+          feasible: true,
+          reason: shiftWeeks === 0
+            ? 'Fits current capacity at the requested start'
+            : `Shifted ${shiftWeeks} week${shiftWeeks === 1 ? '' : 's'}: ${lastConflict}`
+        };
+      }
+      if (shiftWeeks === 0) lastConflict = conflict;
+    }
+
+    return {
+      start: requested,
+      shiftWeeks: 0,
+      feasible: false,
+      reason: `No start within ${this.options.maxShiftWeeks} weeks fits: ${lastConflict}`
+    };
+  }
+
+  /**
+   * First capacity the window would break, week by week, or null when it fits
+   */
+  private conflictFor(window: ActiveWindow, windows: ActiveWindow[]): string | null {
+    for (const weekStart of this.weeksOf(window)) {
+      const active = windows.filter(w => this.overlaps(w, weekStart));
+      const label = weekStart.toISOString().slice(0, 10);
+
+      if (active.length + 1 > this.maxConcurrentProjects) {
+        return `week of ${label} already has ${active.length} concurrent projects (limit ${this.maxConcurrentProjects})`;
+      }
+
+      for (const assignment of window.project.assignments) {
+        const load = this.loadOf(assignment.member, active);
+        if (load + assignment.load > this.options.memberCapacity + EPSILON) {
+          return `${assignment.member} is at ${Math.round(load * 100)}% in the week of ${label}`;
+        }
+      }
+    }
+    return null;
+  }
+
+  private measure(windows: ActiveWindow[], now: Date): CapacityLoad {
+    const active = windows.filter(w => w.finish.getTime() > w.start.getTime());
+    if (active.length === 0) {
+      return { weeks: [], members: [], overAllocations: [], portfolioOverloads: [] };
+    }
+
+    const first = weekStartOf(new Date(Math.min(now.getTime(), ...active.map(w => w.start.getTime()))));
+    const last = Math.max(...active.map(w => w.finish.getTime()));
+    const weeks: PortfolioWeek[] = [];
+    const members: MemberWeekLoad[] = [];
+
+    for (let week = first.getTime(); week < last; week += WEEK_MS) {
+      const weekStart = new Date(week);
+      const running = active.filter(w => this.overlaps(w, weekStart));
+      if (running.length === 0) continue;
+
+      weeks.push({
+        weekStart,
+        activeProjects: running.map(w => w.project.id),
+        capacity: this.maxConcurrentProjects
+      });
+
+      const names = new Set(running.flatMap(w => w.project.assignments.map(a => a.member)));
+      for (const member of names) {
+        members.push({
+          member,
+          weekStart,
+          load: Math.round(this.loadOf(member, running) * 100) / 100,
+          capacity: this.options.memberCapacity,
+          projects: running.filter(w => w.project.assignments.some(a => a.member === member)).map(w => w.project.id)
+        });
+      }
+    }
+
+    return {
+      weeks,
+      members,
+      overAllocations: members.filter(m => m.load > m.capacity + EPSILON),
+      portfolioOverloads: weeks.filter(w => w.activeProjects.length > w.capacity)
+    };
+  }
+
+  private loadOf(member: string, windows: ActiveWindow[]): number {
+    return windows.reduce(
+      (sum, w) => sum + w.project.assignments.filter(a => a.member === member).reduce((s, a) => s + a.load, 0),
+      0
+    );
+  }
+
+  private overlaps(window: ActiveWindow, weekStart: Date): boolean {
+    return window.start.getTime() < weekStart.getTime() + WEEK_MS && window.finish.getTime() > weekStart.getTime();
+  }
+
+  private weeksOf(window: ActiveWindow): Date[] {
+    const weeks: Date[] = [];
+    for (let week = weekStartOf(window.start).getTime(); week < window.finish.getTime(); week += WEEK_MS) {
+      weeks.push(new Date(week));
+    }
+    return weeks;
+  }
+}
+
+export default ResourceScheduler;
@@ -8,8 +8,15 @@ import type {
   SpendAllocation,
   SpendPlan,
   DateRange,
-  KPISnapshot
+  KPISnapshot,
+  BusinessConstraints,
+  GuardrailViolation
 } from './types';
+import { GuardrailsValidator } from './guardrails';
+import { createRandom } from './random';
+import type { RandomSource } from './random';
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits;
 
 // ============================================================================
 // SPEND OPTIMIZATION ENGINE
@@ -20,6 +27,9 @@ export type ResponseCurveMode = 'hill' | 'exponential';
 export class SpendOptimizer {
   private readonly MONTE_CARLO_RUNS = 1000;
   private readonly CONFIDENCE_LEVEL = 0.95;
+  private readonly ALLOCATION_STEPS = 200;  // Increments the budget is split into
+  private readonly BUDGET_SEARCH_STEPS = 40;
+  private readonly BINDING_TOLERANCE = 0.001;  // Share of spend within which a limit counts as binding
   private readonly responseCurveMode: ResponseCurveMode;
 
   constructor(mode?: ResponseCurveMode) {
@@ -36,8 +46,10 @@ export class SpendOptimizer {
     historicalPerformance: ChannelPerformance[];
     constraints?: SpendConstraints;
     objectives?: OptimizationObjective;
+    seed?: number;  // Replays the Monte Carlo of a stored plan; a fresh seed is drawn when omitted
   }): SpendPlan {
     const { totalBudget, period, channels, historicalPerformance, constraints = {}, objectives = 'maximize_roi' } = params;
+    const random = createRandom(params.seed);
 
     // Calculate channel efficiency curves
     const efficiencyCurves = this.calculateEfficiencyCurves(channels, historicalPerformance);
@@ -62,7 +74,7 @@ export class SpendOptimizer {
     }
 
     // Run Monte Carlo simulation for confidence intervals
-    const simulationResults = this.runMonteCarloSimulation(allocations, efficiencyCurves);
+    const simulationResults = this.runMonteCarloSimulation(allocations, efficiencyCurves, random);
 
     // Add confidence intervals to allocations
     allocations = this.addConfidenceIntervals(allocations, simulationResults);
@@ -83,7 +95,478 @@ export class SpendOptimizer {
       expectedOutcome,
       constraints: appliedConstraints,
       assumptions,
-      simulationRuns: this.MONTE_CARLO_RUNS
+      simulationRuns: this.MONTE_CARLO_RUNS,
+      seed: random.seed
+    };
+  }
+
+  /**
+   * Best plan that treats the business guardrails as hard constraints, or a
+   * certificate naming the constraints no plan can satisfy together. Each
+   * channel with spend today moves at most the ramp steps the period allows
+   * (maxChannelChangeRate every minChannelStability days) from it,
+   * every funded channel sits between its platform minimum and maximum and
+   * under the concentration cap with at least diversityRatio of the spend,
+   * minActiveChannels stay funded, and the leads produced fit the CPQ and
+   * meeting capacity. The whole budget is placed unless the leads ceiling or
+   * the channels' upper bounds stop it; what is left shows as unspent.
+   */
+  optimizeWithinGuardrails(params: {
+    totalBudget: number;
+    period: DateRange;
+    channels: MarketingChannel[];
+    historicalPerformance: ChannelPerformance[];
+    guardrails: BusinessConstraints;
+    currentSpend: Map<string, number>;  // By channel name, as the guardrails read it
+    constraints?: SpendConstraints;
+    objectives?: OptimizationObjective;
+    seed?: number;
+  }): ConstrainedSpendResult {
+    const {
+      totalBudget, period, channels, historicalPerformance, guardrails, currentSpend,
+      constraints = {}, objectives = 'maximize_roi'
+    } = params;
+
+    const curves = this.calculateEfficiencyCurves(channels, historicalPerformance);
+    const validator = new GuardrailsValidator(guardrails);
+    const ceiling = validator.leadsCeiling();
+    const maxChange = validator.maxChangeOverPeriod(period);
+    const bounds = channels.map(channel =>
+      this.channelBounds(channel, currentSpend.get(channel.name) || 0, maxChange, guardrails, constraints)
+    );
+
+    const conflicts = bounds.flatMap(b => b.conflicts);
+    if (conflicts.length > 0) return { feasible: false, certificate: this.certify(conflicts) };
+
+    const solve = (total: number) => this.allocateWithinBounds(bounds, total, curves, guardrails, objectives);
+    const fitting = (result: BoundedAllocation) => (result.ok && result.leads <= ceiling.leads ? result : null);
+    const capacityBinding = (leads: number): BindingConstraint => ({
+      type: 'capacity',
+      constraint: ceiling.constraint,
+      value: round(leads, 1),
+      limit: round(ceiling.leads, 1),
+      suggestion: `Raise ${ceiling.constraint.toLowerCase()} above ${ceiling.limit} or cut spend in lead-heavy channels; the team takes ${Math.floor(ceiling.leads)} leads a month`
+    });
+
+    // Cheapest spend that keeps the forced channels and enough others funded
+    const optionalFloors = bounds
+      .filter(b => !b.forced && !b.excluded)
+      .map(b => b.floor.limit)
+      .sort((a, b) => a - b);
+    const forced = bounds.filter(b => b.forced);
+    const forcedFloors = forced.reduce((sum, b) => sum + b.floor.limit, 0);
+    const lowest = forcedFloors +
+      optionalFloors.slice(0, Math.max(0, guardrails.minActiveChannels - forced.length)).reduce((sum, f) => sum + f, 0);
+
+    if (forcedFloors > totalBudget) {
+      return {
+        feasible: false,
+        certificate: this.certify([
+          {
+            type: 'budget',
+            constraint: 'Total budget',
+            value: round(forcedFloors, 2),
+            limit: round(totalBudget, 2),
+            suggestion: `Raise the budget to ${Math.ceil(forcedFloors)} or relax the floors below`
+          },
+          ...forced.filter(b => b.floor.limit > 0).map(b => this.toBinding(b.floor, b.channel.name, b.floor.limit))
+        ])
+      };
+    }
+
+    const atBudget = solve(totalBudget);
+    let best = fitting(atBudget);
+    let total = totalBudget;
+    if (!best) {
+      // Largest total that fits: scan down from the budget, then bisect the last gap
+      const floorTotal = Math.min(lowest, totalBudget);
+      const gap = (totalBudget - floorTotal) / this.BUDGET_SEARCH_STEPS;
+      for (let step = 1; step <= this.BUDGET_SEARCH_STEPS && !best; step++) {
+        total = totalBudget - gap * step;
+        best = fitting(solve(total));
+      }
+
+      if (!best) {
+        const atFloor = solve(floorTotal);
+        const binding = [
+          ...(atBudget.ok ? [capacityBinding(atBudget.leads)] : atBudget.binding),
+          ...(atFloor.ok ? [capacityBinding(atFloor.leads), ...this.floorBindings(atFloor)] : atFloor.binding)
+        ];
+        return { feasible: false, certificate: this.certify(binding) };
+      }
+
+      let high = total + gap;
+      for (let step = 0; step < this.BUDGET_SEARCH_STEPS; step++) {
+        const mid = (total + high) / 2;
+        const result = fitting(solve(mid));
+        if (result) {
+          best = result;
+          total = mid;
+        } else {
+          high = mid;
+        }
+      }
+    }
+
+    const random = createRandom(params.seed);
+    let allocations = this.finalizeAllocations(
+      best.slots.map(slot => ({
+        ...this.initializeAllocation(slot.bounds.channel, totalBudget, constraints),
+        recommendedAmount: slot.amount
+      })),
+      totalBudget,
+      curves
+    );
+    allocations = this.addConfidenceIntervals(allocations, this.runMonteCarloSimulation(allocations, curves, random));
+
+    const binding = this.optimumBindings(best);
+    if (best.leads >= ceiling.leads * (1 - this.BINDING_TOLERANCE)) binding.push(capacityBinding(best.leads));
+
+    return {
+      feasible: true,
+      plan: {
+        id: `spend-plan-${Date.now()}`,
+        name: `Guardrail-constrained ${objectives.replace('_', ' ')} plan`,
+        totalBudget,
+        period,
+        allocations,
+        expectedOutcome: this.calculateExpectedOutcomes(allocations),
+        constraints: [
+          ...this.documentConstraints(constraints).filter(c => !c.startsWith('No external constraints')),
+          ...this.documentGuardrails(guardrails, ceiling, maxChange)
+        ],
+        assumptions: this.documentAssumptions(channels, historicalPerformance),
+        simulationRuns: this.MONTE_CARLO_RUNS,
+        seed: random.seed
+      },
+      binding,
+      unspentBudget: round(totalBudget - total, 2)
+    };
+  }
+
+  /**
+   * A channel's spend range when funded. Channels with spend today cannot
+   * drop below the ramp-down limit, so they stay funded; excluded channels
+   * get nothing. Ranges that are empty before the budget is even split are
+   * conflicts.
+   */
+  private channelBounds(
+    channel: MarketingChannel,
+    current: number,
+    rate: number,  // Largest change over the period, as a share of current spend
+    guardrails: BusinessConstraints,
+    constraints: SpendConstraints
+  ): ChannelBounds {
+    const { name } = channel;
+    const floors: SpendLimit[] = [{ type: 'platform', constraint: `${name} minimum spend`, limit: 0, suggestion: '' }];
+    const caps: SpendLimit[] = [{ type: 'budget', constraint: 'Total budget', limit: Infinity, suggestion: '' }];
+
+    if (current > 0 && rate < 1) {
+      floors.push({
+        type: 'ramp_rate',
+        constraint: `${name} ramp-down limit`,
+        limit: current * (1 - rate),
+        suggestion: `Step ${name} down over several periods or raise maxChannelChangeRate above ${guardrails.maxChannelChangeRate}`
+      });
+    }
+    if (current > 0) {
+      caps.push({
+        type: 'ramp_rate',
+        constraint: `${name} ramp-up limit`,
+        limit: current * (1 + rate),
+        suggestion: `Ramp ${name} up over several periods or raise maxChannelChangeRate above ${guardrails.maxChannelChangeRate}`
+      });
+    }
+
+    const platformMin = guardrails.platformMinimums.get(name);
+    if (platformMin) {
+      floors.push({
+        type: 'platform',
+        constraint: `${name} minimum spend`,
+        limit: platformMin,
+        suggestion: `Fund ${name} with at least ${platformMin} or pause it`
+      });
+    }
+    const platformMax = guardrails.platformMaximums?.get(name);
+    if (platformMax !== undefined) {
+      caps.push({
+        type: 'platform',
+        constraint: `${name} maximum spend`,
+        limit: platformMax,
+        suggestion: `Raise the ${name} platform maximum above ${platformMax} or fund more channels`
+      });
+    }
+
+    const minSpend = constraints.minSpend?.get(channel.id);
+    if (minSpend) {
+      floors.push({
+        type: 'platform',
+        constraint: `${name} spend floor`,
+        limit: minSpend,
+        suggestion: `Lower the ${name} spend floor of ${minSpend}`
+      });
+    }
+    const maxSpend = constraints.maxSpend?.get(channel.id);
+    if (maxSpend !== undefined) {
+      caps.push({
+        type: 'platform',
+        constraint: `${name} spend limit`,
+        limit: maxSpend,
+        suggestion: `Raise the ${name} spend limit above ${maxSpend}`
+      });
+    }
+
+    const floor = floors.reduce((a, b) => (b.limit > a.limit ? b : a));
+    const cap = caps.reduce((a, b) => (b.limit < a.limit ? b : a));
+    const forced = (current > 0 && rate < 1) || !!constraints.mandatoryChannels?.includes(channel.id);
+    const excluded = !!constraints.excludedChannels?.includes(channel.id);
+
+    const conflicts: BindingConstraint[] = [];
+    if (forced && excluded) {
+      conflicts.push(this.toBinding(floor, name, 0), {
+        type: 'platform',
+        constraint: `${name} exclusion`,
+        channel: name,
+        value: round(floor.limit, 2),
+        limit: 0,
+        suggestion: `Keep ${name} in the plan this period; exclusion only takes it to ${Math.round(floor.limit)}`
+      });
+    } else if (forced && floor.limit > cap.limit) {
+      conflicts.push(this.toBinding(floor, name, cap.limit), this.toBinding(cap, name, floor.limit));
+    }
+
+    return { channel, current, floor, cap, forced, excluded, conflicts };
+  }
+
+  /**
+   * Splits a fixed total across the channels by marginal value: forced
+   * channels start at their floor, the best others are switched on until
+   * minActiveChannels run, and each increment goes where it returns most,
+   * including switching on another channel at its floor. Concentration and
+   * diversity floors scale with the total.
+   */
+  private allocateWithinBounds(
+    bounds: ChannelBounds[],
+    total: number,
+    curves: Map<string, EfficiencyCurve>,
+    guardrails: BusinessConstraints,
+    objective: OptimizationObjective
+  ): BoundedAllocation {
+    const tolerance = Math.max(total * 1e-6, 0.01);
+    const share = total * guardrails.maxChannelConcentration;
+    const diversityFloor = total * guardrails.diversityRatio;
+    const byVolume = objective === 'maximize_volume' || objective === 'minimize_cac';
+
+    const slots: AllocationSlot[] = bounds.map(b => ({
+      bounds: b,
+      floor: diversityFloor > b.floor.limit
+        ? {
+            type: 'diversity',
+            constraint: `${b.channel.name} diversity ratio`,
+            limit: diversityFloor,
+            suggestion: `Lower diversityRatio below ${guardrails.diversityRatio}`
+          }
+        : b.floor,
+      cap: share < b.cap.limit
+        ? {
+            type: 'diversity',
+            constraint: `${b.channel.name} concentration`,
+            limit: share,
+            suggestion: `Fund more channels or raise maxChannelConcentration above ${guardrails.maxChannelConcentration}`
+          }
+        : b.cap,
+      amount: 0,
+      active: false,
+      activatedForDiversity: false
+    }));
+
+    const value = (slot: AllocationSlot, spend: number) => {
+      if (spend <= 0) return 0;
+      const curve = curves.get(slot.bounds.channel.id)!;
+      return byVolume ? this.calculateExpectedLeads(spend, curve) : this.calculateReturn(spend, curve);
+    };
+
+    const binding: BindingConstraint[] = [];
+    for (const slot of slots.filter(s => s.bounds.forced)) {
+      if (slot.floor.limit > slot.cap.limit + tolerance) {
+        const name = slot.bounds.channel.name;
+        binding.push(this.toBinding(slot.floor, name, slot.cap.limit), this.toBinding(slot.cap, name, slot.floor.limit));
+      }
+      slot.active = true;
+      slot.amount = slot.floor.limit;
+    }
+    if (binding.length > 0) return { ok: false, binding };
+
+    const step = total / this.ALLOCATION_STEPS;
+    const eligible = (slot: AllocationSlot) =>
+      !slot.bounds.excluded && slot.floor.limit <= slot.cap.limit + tolerance && slot.cap.limit > tolerance;
+    const opening = (slot: AllocationSlot) => Math.max(slot.floor.limit, Math.min(step, slot.cap.limit));
+
+    const missing = guardrails.minActiveChannels - slots.filter(s => s.active).length;
+    if (missing > 0) {
+      const candidates = slots
+        .filter(s => !s.active && eligible(s))
+        .sort((a, b) => value(b, opening(b)) / opening(b) - value(a, opening(a)) / opening(a));
+      if (candidates.length < missing) {
+        return {
+          ok: false,
+          binding: [{
+            type: 'diversity',
+            constraint: 'Minimum active channels',
+            value: slots.filter(s => s.active).length + candidates.length,
+            limit: guardrails.minActiveChannels,
+            suggestion: `Make more channels eligible or lower minActiveChannels to ${slots.filter(s => s.active).length + candidates.length}`
+          }]
+        };
+      }
+      for (const slot of candidates.slice(0, missing)) {
+        slot.active = true;
+        slot.activatedForDiversity = true;
+        slot.amount = opening(slot);
+      }
+    }
+
+    let remaining = total - slots.reduce((sum, s) => sum + s.amount, 0);
+    if (remaining < -tolerance) {
+      return {
+        ok: false,
+        binding: [
+          {
+            type: 'budget',
+            constraint: 'Total budget',
+            value: round(total - remaining, 2),
+            limit: round(total, 2),
+            suggestion: `Raise the budget to ${Math.ceil(total - remaining)} or relax the floors below`
+          },
+          ...slots.filter(s => s.active && s.amount > 0).map(s => this.toBinding(s.floor, s.bounds.channel.name, s.amount))
+        ]
+      };
+    }
+
+    while (remaining > tolerance) {
+      let best: AllocationSlot | null = null;
+      let bestGain = -Infinity;
+      let bestDelta = 0;
+
+      for (const slot of slots) {
+        if (!eligible(slot)) continue;
+
+        let delta: number;
+        let gain: number;
+        if (slot.active) {
+          delta = Math.min(step, slot.cap.limit - slot.amount, remaining);
+          if (delta <= tolerance) continue;
+          gain = (value(slot, slot.amount + delta) - value(slot, slot.amount)) / delta;
+        } else {
+          delta = Math.max(slot.floor.limit, Math.min(step, remaining));
+          if (delta > remaining + tolerance || delta > slot.cap.limit + tolerance) continue;
+          gain = value(slot, delta) / delta;
+        }
+
+        if (gain > bestGain) {
+          best = slot;
+          bestGain = gain;
+          bestDelta = delta;
+        }
+      }
+
+      if (!best) {
+        return {
+          ok: false,
+          binding: [
+            {
+              type: 'budget',
+              constraint: 'Total budget',
+              value: round(total - remaining, 2),
+              limit: round(total, 2),
+              suggestion: `Only ${Math.floor(total - remaining)} of the budget can be placed; relax the upper bounds below or spend less`
+            },
+            ...slots
+              .filter(s => eligible(s) && (!s.active || s.amount >= s.cap.limit - tolerance))
+              .map(s => this.toBinding(s.cap, s.bounds.channel.name, s.amount))
+          ]
+        };
+      }
+
+      best.active = true;
+      best.amount += bestDelta;
+      remaining -= bestDelta;
+    }
+
+    const leads = slots.reduce((sum, s) => sum + (s.amount > 0 ? this.calculateExpectedLeads(s.amount, curves.get(s.bounds.channel.id)!) : 0), 0);
+    return { ok: true, slots, leads };
+  }
+
+  /**
+   * Constraints the chosen plan sits on: channels at a floor or cap above
+   * zero, and channels funded only to reach minActiveChannels
+   */
+  private optimumBindings(allocation: FeasibleAllocation): BindingConstraint[] {
+    const total = allocation.slots.reduce((sum, s) => sum + s.amount, 0);
+    const tolerance = total * this.BINDING_TOLERANCE;
+    const binding: BindingConstraint[] = [];
+
+    for (const slot of allocation.slots) {
+      if (!slot.active) continue;
+      const name = slot.bounds.channel.name;
+      if (slot.amount >= slot.cap.limit - tolerance && Number.isFinite(slot.cap.limit)) {
+        binding.push(this.toBinding(slot.cap, name, slot.amount));
+      } else if (slot.floor.limit > 0 && slot.amount <= slot.floor.limit + tolerance) {
+        binding.push(this.toBinding(slot.floor, name, slot.amount));
+      }
+    }
+
+    const forDiversity = allocation.slots.filter(s => s.activatedForDiversity).length;
+    if (forDiversity > 0) {
+      binding.push({
+        type: 'diversity',
+        constraint: 'Minimum active channels',
+        value: allocation.slots.filter(s => s.active).length,
+        limit: allocation.slots.filter(s => s.active).length,
+        suggestion: `${forDiversity} channel(s) are funded only to keep the mix diversified`
+      });
+    }
+
+    return binding;
+  }
+
+  /**
+   * Floors the cheapest feasible mix sits on, for a certificate that blames
+   * capacity: lead volume that cannot be cut without breaking them
+   */
+  private floorBindings(allocation: FeasibleAllocation): BindingConstraint[] {
+    return allocation.slots
+      .filter(s => s.active && s.floor.limit > 0)
+      .map(s => this.toBinding(s.floor, s.bounds.channel.name, s.amount));
+  }
+
+  /**
+   * A channel limit as the plan meets it at the given spend
+   */
+  private toBinding(limit: SpendLimit, channel: string, value: number): BindingConstraint {
+    return {
+      type: limit.type,
+      constraint: limit.constraint,
+      channel,
+      value: round(value, 2),
+      limit: round(limit.limit, 2),
+      suggestion: limit.suggestion
+    };
+  }
+
+  /**
+   * Certificate from the constraints that failed, each named once
+   */
+  private certify(failed: BindingConstraint[]): InfeasibilityCertificate {
+    const binding = failed.filter((b, index) =>
+      failed.findIndex(other => other.constraint === b.constraint) === index
+    );
+
+    return {
+      reason: binding
+        .map(b => `${b.constraint} (${Math.round(b.value)} against a limit of ${Math.round(b.limit)})`)
+        .join('; '),
+      binding
     };
   }
 
@@ -322,7 +805,8 @@ export class SpendOptimizer {
    */
   private runMonteCarloSimulation(
     allocations: SpendAllocation[],
-    curves: Map<string, EfficiencyCurve>
+    curves: Map<string, EfficiencyCurve>,
+    random: RandomSource
   ): SimulationResults {
     const results: number[][] = [];
 
@@ -332,8 +816,8 @@ export class SpendOptimizer {
       for (const allocation of allocations) {
         const curve = curves.get(allocation.channel.id)!;
 
-        // Add random variation (±20% normal distribution)
-        const variation = 1 + (Math.random() - 0.5) * 0.4;
+        // Add random variation (±20% uniform)
+        const variation = 1 + (random.next() - 0.5) * 0.4;
         const simulatedROI = this.calculateExpectedROI(allocation.recommendedAmount, curve) * variation;
 
         runResults.push(simulatedROI);
@@ -451,6 +935,7 @@ export class SpendOptimizer {
    * Helper: Calculate expected ROI at spend level
    */
   private calculateExpectedROI(spend: number, curve: EfficiencyCurve): number {
+    if (spend <= 0) return 0;  // Unfunded channels in a constrained plan
     const returns = this.calculateReturn(spend, curve);
     return returns / spend;
   }
@@ -606,6 +1091,23 @@ export class SpendOptimizer {
 
     return applied;
   }
+
+  /**
+   * Document the guardrails a constrained plan was solved under
+   */
+  private documentGuardrails(
+    guardrails: BusinessConstraints,
+    ceiling: { leads: number; constraint: string },
+    maxChange: number
+  ): string[] {
+    return [
+      `Channels move at most ${Math.round(maxChange * 100)}% from current spend (${Math.round(guardrails.maxChannelChangeRate * 100)}% every ${Math.max(1, Math.round(guardrails.minChannelStability))} days)`,
+      `Platform minimums and maximums enforced for funded channels`,
+      `No channel above ${Math.round(guardrails.maxChannelConcentration * 100)}% of spend or below ${Math.round(guardrails.diversityRatio * 100)}% when funded`,
+      `At least ${guardrails.minActiveChannels} active channels`,
+      `At most ${Math.floor(ceiling.leads)} leads a month (${ceiling.constraint.toLowerCase()})`
+    ];
+  }
 }
 
 // ============================================================================
@@ -648,6 +1150,63 @@ export type OptimizationObjective =
   | 'minimize_cac'
   | 'balanced_growth';
 
+export interface BindingConstraint {
+  type: GuardrailViolation['type'] | 'budget';
+  constraint: string;
+  channel?: string;
+  value: number;  // Spend, leads or count the plan needs or sits at
+  limit: number;
+  suggestion: string;  // How to relax it
+}
+
+export interface InfeasibilityCertificate {
+  reason: string;
+  binding: BindingConstraint[];  // Constraints that cannot hold together
+}
+
+export type ConstrainedSpendResult =
+  | {
+      feasible: true;
+      plan: SpendPlan;
+      binding: BindingConstraint[];  // Limits the plan sits on
+      unspentBudget: number;  // Left over when the leads ceiling or channel caps stop allocation
+    }
+  | { feasible: false; certificate: InfeasibilityCertificate };
+
+interface SpendLimit {
+  type: BindingConstraint['type'];
+  constraint: string;
+  limit: number;
+  suggestion: string;
+}
+
+interface ChannelBounds {
+  channel: MarketingChannel;
+  current: number;
+  floor: SpendLimit;  // Tightest lower bound when funded
+  cap: SpendLimit;  // Tightest upper bound before concentration
+  forced: boolean;  // Cannot go unfunded
+  excluded: boolean;
+  conflicts: BindingConstraint[];
+}
+
+interface AllocationSlot {
+  bounds: ChannelBounds;
+  floor: SpendLimit;  // With the diversity floor for this total
+  cap: SpendLimit;  // With the concentration cap for this total
+  amount: number;
+  active: boolean;
+  activatedForDiversity: boolean;
+}
+
+interface FeasibleAllocation {
+  ok: true;
+  slots: AllocationSlot[];
+  leads: number;
+}
+
+type BoundedAllocation = FeasibleAllocation | { ok: false; binding: BindingConstraint[] };
+
 interface SimulationResults {
   results: number[][];
   runs: number;
@@ -239,6 +239,7 @@ export interface SpendPlan {
   constraints: string[];  // Business rules applied
   assumptions: string[];
   simulationRuns?: number;  // If Monte Carlo was used
+  seed?: number;  // PRNG seed of the Monte Carlo run; reproduces the plan exactly
 }
 
 // ============================================================================
@@ -395,8 +396,8 @@ export interface BusinessConstraints {
   };
 
   // Channel change constraints
-  maxChannelChangeRate: number;  // Max % change per day (e.g., 0.3 = 30%)
-  minChannelStability: number;   // Days before allowing major changes
+  maxChannelChangeRate: number;  // Max change per ramp step, as a share of current spend (e.g., 0.3 = 30%)
+  minChannelStability: number;   // Days a ramp level holds before the next step
 
   // Pacing constraints
   monthlyPacing: 'linear' | 'front_loaded' | 'back_loaded';
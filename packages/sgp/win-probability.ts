@@ -0,0 +1,398 @@
+/**
+ * Win Probability Model
+ * L2-regularized logistic regression fitted on won/lost deals (leads and their
+ * quotes); scores open deals with the features that moved each score most
+ */
+
+import type { KPIDefinition, KPISnapshot } from './types';
+
+// ============================================================================
+// INPUTS & OUTPUTS
+// ============================================================================
+
+export interface DealFeatures {
+  id: string;
+  source: string;
+  projectType: string;
+  budget: number;
+  slaHours: number;
+  // Quote fields; absent while the lead has no quote
+  tier?: string | null;
+  totalPrice?: number | null;
+  customizationCount?: number;
+  discountPercent?: number;
+  value: number;  // Amount the expected value is based on (quote total or lead budget)
+  observedAt?: Date;  // When the outcome (or the score) applies; orders the holdout split
+}
+
+export interface DealOutcome extends DealFeatures {
+  won: boolean;
+}
+
+export interface FeatureContribution {
+  feature: string;
+  label: string;
+  contribution: number;  // Log-odds vs the average training deal
+  direction: 'up' | 'down';
+}
+
+export interface DealScore {
+  id: string;
+  probability: number;  // 0-1
+  expectedValue: number;  // probability × value
+  topFeatures: FeatureContribution[];
+}
+
+export interface WinModelMetrics {
+  accuracy: number;
+  auc: number;
+  brierScore: number;
+  logLoss: number;
+}
+
+export interface WinModelSummary {
+  trainedAt: Date;
+  trainingSize: number;
+  positiveRate: number;
+  evaluation: 'holdout' | 'in_sample';
+  evaluationSize: number;
+  metrics: WinModelMetrics;
+  baseline: WinModelMetrics;  // Predicting the training win rate for every deal
+  features: string[];
+  coefficients: Record<string, number>;
+  hyperparameters: { l2: number; learningRate: number; iterations: number };
+}
+
+export interface WinModelOptions {
+  l2?: number;
+  learningRate?: number;
+  iterations?: number;
+  holdoutFraction?: number;  // Most recent share of outcomes kept for evaluation
+  minExamples?: number;
+  minPerClass?: number;
+}
+
+const DEFAULT_OPTIONS: Required<WinModelOptions> = {
+  l2: 0.05,
+  learningRate: 0.3,
+  iterations: 400,
+  holdoutFraction: 0.2,
+  minExamples: 20,
+  minPerClass: 5
+};
+
+// Below this many outcomes the holdout would be too small to mean anything
+const MIN_HOLDOUT_EXAMPLES = 30;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+const clampProbability = (p: number) => Math.min(1 - 1e-6, Math.max(1e-6, p));
+const round = (value: number, digits = 4) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// ============================================================================
+// FEATURE ENCODING
+// ============================================================================
+
+type NumericFeature = { key: string; label: string; value: (deal: DealFeatures) => number };
+
+const NUMERIC_FEATURES: NumericFeature[] = [
+  { key: 'budget', label: 'Presupuesto', value: d => Math.log1p(Math.max(0, d.budget)) },
+  { key: 'sla_hours', label: 'SLA de primer contacto', value: d => d.slaHours },
+  { key: 'has_quote', label: 'Tiene cotización', value: d => (d.tier ? 1 : 0) },
+  {
+    key: 'price_to_budget',
+    label: 'Precio vs presupuesto',
+    value: d => (d.tier && d.totalPrice && d.budget > 0 ? Math.log(d.totalPrice / d.budget) : 0)
+  },
+  { key: 'customizations', label: 'Personalizaciones', value: d => d.customizationCount || 0 },
+  { key: 'discount', label: 'Descuento', value: d => (d.discountPercent || 0) / 100 }
+];
+
+const CATEGORICAL_FEATURES: Array<{ key: string; label: string; value: (deal: DealFeatures) => string | null }> = [
+  { key: 'source', label: 'Fuente', value: d => d.source || null },
+  { key: 'project_type', label: 'Tipo de proyecto', value: d => d.projectType || null },
+  { key: 'tier', label: 'Plan', value: d => d.tier || null }
+];
+
+interface Encoder {
+  columns: Array<{ key: string; label: string; encode: (deal: DealFeatures) => number }>;
+  means: number[];
+  scales: number[];
+}
+
+/**
+ * Numeric features plus one column per category seen in training, standardized
+ * on the training set so coefficients are comparable
+ */
+function buildEncoder(deals: DealFeatures[]): Encoder {
+  const columns: Encoder['columns'] = NUMERIC_FEATURES.map(f => ({ key: f.key, label: f.label, encode: f.value }));
+
+  for (const feature of CATEGORICAL_FEATURES) {
+    const values = Array.from(new Set(deals.map(feature.value).filter((v): v is string => v !== null))).sort();
+    for (const value of values) {
+      columns.push({
+        key: `${feature.key}=${value}`,
+        label: `${feature.label}: ${value}`,
+        encode: d => (feature.value(d) === value ? 1 : 0)
+      });
+    }
+  }
+
+  const raw = deals.map(d => columns.map(c => c.encode(d)));
+  const means = columns.map((_, j) => raw.reduce((sum, row) => sum + row[j], 0) / raw.length);
+  const scales = columns.map((_, j) => {
+    const variance = raw.reduce((sum, row) => sum + (row[j] - means[j]) ** 2, 0) / raw.length;
+    return variance > 1e-12 ? Math.sqrt(variance) : 1;
+  });
+
+  return { columns, means, scales };
+}
+
+function encode(encoder: Encoder, deal: DealFeatures): number[] {
+  return encoder.columns.map((c, j) => (c.encode(deal) - encoder.means[j]) / encoder.scales[j]);
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * Rank-based AUC (probability a random win scores above a random loss)
+ */
+function areaUnderCurve(probabilities: number[], labels: boolean[]): number {
+  const positives = labels.filter(Boolean).length;
+  const negatives = labels.length - positives;
+  if (positives === 0 || negatives === 0) return 0.5;
+
+  const order = probabilities.map((p, i) => ({ p, won: labels[i] })).sort((a, b) => a.p - b.p);
+  let rankSum = 0;
+  let i = 0;
+  while (i < order.length) {
+    let j = i;
+    while (j + 1 < order.length && order[j + 1].p === order[i].p) j++;
+    const averageRank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) if (order[k].won) rankSum += averageRank;
+    i = j + 1;
+  }
+  return (rankSum - (positives * (positives + 1)) / 2) / (positives * negatives);
+}
+
+export function evaluatePredictions(probabilities: number[], labels: boolean[]): WinModelMetrics {
+  const n = labels.length;
+  let correct = 0, brier = 0, logLoss = 0;
+  probabilities.forEach((p, i) => {
+    const y = labels[i] ? 1 : 0;
+    if ((p >= 0.5 ? 1 : 0) === y) correct++;
+    brier += (p - y) ** 2;
+    const q = clampProbability(p);
+    logLoss -= y * Math.log(q) + (1 - y) * Math.log(1 - q);
+  });
+
+  return {
+    accuracy: round(correct / n),
+    auc: round(areaUnderCurve(probabilities, labels)),
+    brierScore: round(brier / n),
+    logLoss: round(logLoss / n)
+  };
+}
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+interface FittedWeights {
+  encoder: Encoder;
+  intercept: number;
+  weights: number[];
+}
+
+export class WinProbabilityModel {
+  private options: Required<WinModelOptions>;
+  private fitted: FittedWeights | null = null;
+  private summary: WinModelSummary | null = null;
+  private trainingPredictions: number[] = [];
+
+  constructor(options: WinModelOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  /**
+   * Why a training set cannot be used, or null when it can
+   */
+  checkTrainingData(outcomes: DealOutcome[]): string | null {
+    const wins = outcomes.filter(o => o.won).length;
+    const losses = outcomes.length - wins;
+    if (outcomes.length < this.options.minExamples) {
+      return `Se necesitan al menos ${this.options.minExamples} oportunidades cerradas (hay ${outcomes.length})`;
+    }
+    if (wins < this.options.minPerClass || losses < this.options.minPerClass) {
+      return `Se necesitan al menos ${this.options.minPerClass} ganadas y ${this.options.minPerClass} perdidas (hay ${wins} y ${losses})`;
+    }
+    return null;
+  }
+
+  /**
+   * Evaluates on the most recent outcomes, then refits on all of them
+   */
+  train(outcomes: DealOutcome[]): WinModelSummary {
+    const invalid = this.checkTrainingData(outcomes);
+    if (invalid) throw new Error(invalid);
+
+    const ordered = [...outcomes].sort(
+      (a, b) => (a.observedAt?.getTime() ?? 0) - (b.observedAt?.getTime() ?? 0)
+    );
+    const holdoutSize = ordered.length >= MIN_HOLDOUT_EXAMPLES
+      ? Math.max(1, Math.round(ordered.length * this.options.holdoutFraction))
+      : 0;
+
+    const trainSet = holdoutSize > 0 ? ordered.slice(0, -holdoutSize) : ordered;
+    const evalSet = holdoutSize > 0 ? ordered.slice(-holdoutSize) : ordered;
+    const trainRate = trainSet.filter(o => o.won).length / trainSet.length;
+    const evalLabels = evalSet.map(o => o.won);
+
+    const candidate = this.fit(trainSet);
+    const metrics = evaluatePredictions(evalSet.map(o => this.predict(candidate, o)), evalLabels);
+    const baseline = evaluatePredictions(evalSet.map(() => trainRate), evalLabels);
+
+    this.fitted = holdoutSize > 0 ? this.fit(ordered) : candidate;
+    this.trainingPredictions = ordered.map(o => this.predict(this.fitted as FittedWeights, o));
+
+    const { encoder, weights, intercept } = this.fitted;
+    this.summary = {
+      trainedAt: new Date(),
+      trainingSize: ordered.length,
+      positiveRate: round(ordered.filter(o => o.won).length / ordered.length),
+      evaluation: holdoutSize > 0 ? 'holdout' : 'in_sample',
+      evaluationSize: evalSet.length,
+      metrics,
+      baseline,
+      features: encoder.columns.map(c => c.key),
+      coefficients: {
+        intercept: round(intercept),
+        ...Object.fromEntries(encoder.columns.map((c, j) => [c.key, round(weights[j])]))
+      },
+      hyperparameters: {
+        l2: this.options.l2,
+        learningRate: this.options.learningRate,
+        iterations: this.options.iterations
+      }
+    };
+    return this.summary;
+  }
+
+  isTrained(): boolean {
+    return this.fitted !== null;
+  }
+
+  getSummary(): WinModelSummary | null {
+    return this.summary;
+  }
+
+  /**
+   * In-sample probabilities in outcome order; the reference distribution for drift checks
+   */
+  getTrainingPredictions(): number[] {
+    return [...this.trainingPredictions];
+  }
+
+  /**
+   * Probability, expected value and the `top` features that moved the score
+   * most relative to the average training deal
+   */
+  score(deal: DealFeatures, top = 3): DealScore {
+    if (!this.fitted) throw new Error('Model is not trained');
+    const { encoder, weights, intercept } = this.fitted;
+    const x = encode(encoder, deal);
+    const probability = sigmoid(intercept + x.reduce((sum, value, j) => sum + value * weights[j], 0));
+
+    const topFeatures = encoder.columns
+      .map((column, j) => ({ column, contribution: weights[j] * x[j] }))
+      .filter(({ contribution }) => Math.abs(contribution) > 1e-3)
+      .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution))
+      .slice(0, top)
+      .map(({ column, contribution }): FeatureContribution => ({
+        feature: column.key,
+        label: column.label,
+        contribution: round(contribution, 3),
+        direction: contribution > 0 ? 'up' : 'down'
+      }));
+
+    return {
+      id: deal.id,
+      probability: round(probability),
+      expectedValue: Math.round(probability * deal.value),
+      topFeatures
+    };
+  }
+
+  /**
+   * Batch gradient descent on the penalized log-loss
+   */
+  private fit(outcomes: DealOutcome[]): FittedWeights {
+    const encoder = buildEncoder(outcomes);
+    const xs = outcomes.map(o => encode(encoder, o));
+    const ys = outcomes.map(o => (o.won ? 1 : 0));
+    const n = xs.length;
+    const d = encoder.columns.length;
+    const rate = ys.reduce<number>((sum, y) => sum + y, 0) / n;
+
+    let intercept = Math.log(rate / (1 - rate));
+    const weights = new Array(d).fill(0);
+    const { l2, learningRate, iterations } = this.options;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      let gradIntercept = 0;
+      const grad = weights.map(w => l2 * w);
+      for (let i = 0; i < n; i++) {
+        const error = sigmoid(intercept + xs[i].reduce((sum, value, j) => sum + value * weights[j], 0)) - ys[i];
+        gradIntercept += error / n;
+        for (let j = 0; j < d; j++) grad[j] += (error * xs[i][j]) / n;
+      }
+      intercept -= learningRate * gradIntercept;
+      for (let j = 0; j < d; j++) weights[j] -= learningRate * grad[j];
+    }
+
+    return { encoder, intercept, weights };
+  }
+
+  private predict(fitted: FittedWeights, deal: DealFeatures): number {
+    const x = encode(fitted.encoder, deal);
+    return sigmoid(fitted.intercept + x.reduce((sum, value, j) => sum + value * fitted.weights[j], 0));
+  }
+}
+
+// ============================================================================
+// DRIFT INPUTS
+// ============================================================================
+
+const DEAL_BUDGET_KPI: KPIDefinition = {
+  key: 'deal_budget',
+  name: 'Presupuesto por oportunidad',
+  category: 'conversion',
+  unit: 'MXN',
+  format: 'currency',
+  direction: 'up',
+  dataSource: ['leads']
+};
+
+/**
+ * Deal budgets as KPI snapshots in time order, the data series ModelCardManager.monitorDrift compares
+ */
+export function toDriftSnapshots(deals: DealFeatures[]): KPISnapshot[] {
+  return [...deals]
+    .sort((a, b) => (a.observedAt?.getTime() ?? 0) - (b.observedAt?.getTime() ?? 0))
+    .map(deal => ({
+      kpi: DEAL_BUDGET_KPI,
+      value: deal.budget,
+      timestamp: deal.observedAt || new Date(),
+      window: '30d',
+      trend: 'stable',
+      trendMagnitude: 0,
+      sampleSize: 1
+    }));
+}
+
+// ============================================================================
+// EXPORTS
+// ============================================================================
+
+export default WinProbabilityModel;
@@ -12,8 +12,19 @@ export interface KPI {
 }
 
 // Lead Management Types
+export type LeadStatus = 'nuevo' | 'contactado' | 'propuesta' | 'negociacion' | 'ganado' | 'perdido';
+
+export interface LeadStatusChange {
+  from: LeadStatus | null;  // null = alta del lead
+  to: LeadStatus;
+  at: string;
+  by: string;
+  byName: string;
+}
+
 export interface Lead {
   id: string;
+  orgId: string;
   company: string;
   contact: string;
   email: string;
@@ -22,10 +33,14 @@ export interface Lead {
   budget: number;
   timeline: string;
   source: string;
-  status: 'nuevo' | 'contactado' | 'propuesta' | 'negociacion' | 'ganado' | 'perdido';
+  status: LeadStatus;
   createdAt: string;
-  lastContact: string;
-  slaHours: number;
+  updatedAt: string;
+  lastContact: string;  // Último contacto; igual a createdAt mientras no se contacte
+  firstContactAt: string | null;  // Para el SLA de primer contacto
+  statusChangedAt: string;
+  statusHistory: LeadStatusChange[];
+  slaHours: number;  // Horas para el primer contacto
   priority: 'alta' | 'media' | 'baja';
   notes: string;
 }
@@ -42,60 +57,350 @@ export interface CPQTier {
   teamSize: number;
 }
 
-export interface CPQQuote {
+export interface PriceBookAddOn {
   id: string;
-  leadId: string;
+  name: string;
+  price: number;
+}
+
+// Fracciones (0.05 = 5%)
+export interface DiscountRules {
+  returnClient: number;
+  volumePerProject: number;
+  volumeMax: number;
+  cashPayment: number;
+  lowSeason: number;
+  highSeasonSurcharge: number;
+  maxDiscount: number;
+}
+
+// Costos estimados de entrega para el piso de margen
+export interface PriceBookCosts {
+  tiers: Record<string, number>;  // Costo por tier para un proyecto de tamaño 1 (MXN)
+  addOnCostRatio: number;  // Costo de las personalizaciones como fracción de su precio
+  marginFloor: number;  // Margen mínimo sobre el precio final
+}
+
+// Descuento máximo (fracción) que cada rol de membresía puede otorgar sin aprobación
+export interface DiscountApprovalLimits {
+  viewer: number;
+  editor: number;
+  admin: number;
+  owner: number;
+}
+
+// Tarifas que leen calculateQuotePrice, recommendTier y calculateDiscount
+export interface PriceBookRates {
+  tiers: CPQTier[];
+  addOns: PriceBookAddOn[];
+  sizePremiumFactor: number;  // Fracción del precio base por unidad de tamaño adicional
+  urgencyMultipliers: Record<QuoteUrgency, number>;
+  discountRules: DiscountRules;
+  approvalLimits: DiscountApprovalLimits;
+  costs: PriceBookCosts;
+}
+
+// Versión inmutable de la lista de precios de una organización
+export interface PriceBook extends PriceBookRates {
+  id: string;
+  orgId: string;
+  version: number;
+  effectiveFrom: string;
+  notes: string;
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+}
+
+export type QuoteStatus = 'borrador' | 'pendiente_aprobacion' | 'enviada' | 'aceptada' | 'rechazada';
+export type QuoteUrgency = 'normal' | 'expedito' | 'urgente';
+
+export interface QuoteDiscountConditions {
+  isReturnClient?: boolean;
+  projectCount?: number;
+  paymentTerms?: 'contado' | '30_dias' | '60_dias';
+  seasonality?: 'alta' | 'media' | 'baja';
+}
+
+// Desglose de calculateQuotePrice + calculateDiscount
+export interface QuotePricing {
+  basePrice: number;
+  customizationCost: number;
+  sizePremium: number;
+  urgencyPremium: number;
+  subtotal: number;
+  discountPercentage: number;
+  discountAmount: number;
+  appliedDiscounts: string[];
+  totalPrice: number;
+  estimatedCost: number;
+  margin: number;  // (total - costo) / total
+}
+
+export interface QuoteStatusChange {
+  from: QuoteStatus | null;  // null = alta de la cotización
+  to: QuoteStatus;
+  at: string;
+  by: string;
+  byName: string;
+  version: number;
+  reason: string;
+}
+
+// Solicitud de aprobación de un descuento fuera del límite del rol
+export interface QuoteApproval {
+  version: number;
+  discountPercentage: number;
+  requestedAt: string;
+  requestedBy: string;
+  requestedByName: string;
+  requesterRole: keyof DiscountApprovalLimits;
+  decision: 'aprobada' | 'rechazada' | null;  // null = pendiente
+  decidedAt: string | null;
+  decidedBy: string | null;
+  decidedByName: string | null;
+  reasoning: string;
+}
+
+// Configuración cotizable de una versión
+export interface QuoteConfiguration {
   tier: string;
   customizations: string[];
+  projectSize: number;
+  urgency: QuoteUrgency;
+  discountConditions: QuoteDiscountConditions;
+}
+
+// Foto inmutable de cada versión de la cotización
+export interface QuoteVersion extends QuoteConfiguration {
+  version: number;
+  pricing: QuotePricing;
+  priceBookId: string;  // Lista de precios con la que se cotizó
+  priceBookVersion: number;
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+  note: string;
+}
+
+export interface CPQQuote extends QuoteConfiguration {
+  id: string;
+  orgId: string;
+  leadId: string;
   totalPrice: number;
+  pricing: QuotePricing;
+  priceBookId: string;
+  priceBookVersion: number;
   createdAt: string;
-  status: 'borrador' | 'enviada' | 'aceptada' | 'rechazada';
+  updatedAt: string;
+  status: QuoteStatus;
   validUntil: string;
+  version: number;  // Versión vigente
+  versions: QuoteVersion[];
+  statusHistory: QuoteStatusChange[];
+  approvals: QuoteApproval[];
+  sentAt: string | null;  // Primer envío, para el tiempo de respuesta
+  decidedAt: string | null;
+  createdBy: string;
+  createdByName: string;
 }
 
 // Stage Gate Types
+export type StageGatePhaseStatus = 'pendiente' | 'en_progreso' | 'en_revision' | 'completada' | 'bloqueada';
+
+export interface StageGateDeliverable {
+  id: string;
+  name: string;
+  done: boolean;
+  completedAt: string | null;
+  completedBy: string | null;
+  completedByName: string | null;
+}
+
+export interface GateApprover {
+  userId: string;
+  name: string;
+}
+
+export interface GateSignOff {
+  round: number;  // Revisión del gate a la que pertenece
+  userId: string;
+  name: string;
+  decision: 'aprobada' | 'rechazada';
+  comments: string;
+  at: string;
+}
+
+export interface PhaseBlock {
+  reason: string;
+  owner: string;  // Responsable de desbloquear
+  since: string;
+  by: string;
+  byName: string;
+  previousStatus: Exclude<StageGatePhaseStatus, 'bloqueada'>;
+}
+
 export interface StageGatePhase {
   id: string;
   name: string;
   description: string;
-  duration: number;
-  deliverables: string[];
+  duration: number;  // Días planeados
+  dependsOn: string[];  // Fases que deben pasar su gate antes de iniciar
+  deliverables: StageGateDeliverable[];
   approvalRequired: boolean;
-  status: 'pendiente' | 'en_progreso' | 'completada' | 'bloqueada';
+  approvers: GateApprover[];
+  reviewRound: number;
+  signOffs: GateSignOff[];
+  status: StageGatePhaseStatus;
+  blocked: PhaseBlock | null;
+  slippageDays: number;  // Retraso reportado sobre la duración
+  startDate: string;  // Calculadas a partir de dependencias, duración y retraso
+  endDate: string;
+  startedAt: string | null;
+  completedAt: string | null;
 }
 
 export interface Project {
   id: string;
+  orgId: string;
   name: string;
   client: string;
   type: 'residencial' | 'comercial' | 'institucional';
   budget: number;
   startDate: string;
-  endDate: string;
+  endDate: string;  // Fin de la última fase
   status: 'planificacion' | 'diseno' | 'construccion' | 'entrega' | 'completado';
   phases: StageGatePhase[];
   manager: string;
   team: string[];
-  progress: number;
+  progress: number;  // % de entregables completados
+  quoteId: string | null;  // Cotización aceptada que se factura por hitos de fase
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  createdByName: string;
 }
 
 // Vendor Types
+export interface DeliveryRecord {
+  id: string;
+  deliveredAt: string;  // Fecha de recepción (YYYY-MM-DD)
+  quantity: number;
+  defects: number;  // Unidades rechazadas en recepción
+  notes: string;
+  recordedBy: string;
+  recordedByName: string;
+  recordedAt: string;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  projectId?: string;
+  description: string;
+  quotedAmount: number;  // Monto cotizado por el proveedor
+  invoicedAmount?: number;  // Monto facturado, cuando llega la factura
+  promisedDate: string;  // YYYY-MM-DD
+  promisedQuantity: number;
+  issuedAt: string;
+  acknowledgedAt?: string;  // Confirmación del proveedor, para el tiempo de respuesta
+  status: 'abierta' | 'cerrada' | 'cancelada';
+  deliveries: DeliveryRecord[];
+  createdBy: string;
+  createdByName: string;
+}
+
+// Indicadores de una ventana móvil; null mientras no hay datos suficientes
+export interface VendorScorecard {
+  asOf: string;  // Fin de la ventana (YYYY-MM-DD)
+  windowDays: number;
+  orders: number;  // Órdenes con fecha prometida dentro de la ventana
+  onTimeRate: number | null;
+  inFullRate: number | null;
+  otifScore: number | null;
+  defectRate: number | null;
+  qualityRating: number | null;
+  costVariance: number | null;  // (facturado - cotizado) / cotizado
+  costRating: number | null;
+  responseTime: number | null;  // Horas promedio entre emisión y confirmación
+}
+
 export interface Vendor {
   id: string;
+  orgId: string;
   name: string;
   category: string;
   contactPerson: string;
   email: string;
   phone: string;
-  otifScore: number; // On Time In Full score
-  qualityRating: number;
-  costRating: number;
-  responseTime: number;
+  otifScore: number | null; // On Time In Full score
+  qualityRating: number | null;
+  costRating: number | null;
+  responseTime: number | null;
   certifications: string[];
   status: 'activo' | 'inactivo' | 'en_evaluacion';
-  lastDelivery: string;
+  statusReason: string;  // Por qué quedó en evaluación o inactivo
+  statusChangedAt: string;  // Solo las órdenes prometidas desde aquí cuentan para volver a evaluación
+  lastDelivery: string | null;
   totalOrders: number;
   averageOrderValue: number;
+  orders: PurchaseOrder[];
+  scorecard: VendorScorecard;
+  history: VendorScorecard[];  // Una ventana por mes, la más antigua primero
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  createdByName: string;
+}
+
+// Solicitud de cotización (RFQ) a varios proveedores de una categoría
+export interface RfqWeights {
+  price: number;
+  otif: number;
+  quality: number;
+  certifications: number;
+}
+
+export interface RfqResponse {
+  vendorId: string;
+  amount: number;  // Total cotizado (MXN)
+  leadTimeDays: number;
+  notes: string;
+  submittedAt: string;
+  recordedBy: string;
+  recordedByName: string;
+}
+
+export interface RfqAward {
+  vendorId: string;
+  vendorName: string;
+  amount: number;
+  recommendedVendorId: string | null;  // Recomendación ponderada al momento de adjudicar
+  score: number | null;
+  rationale: string;
+  purchaseOrderId: string;  // Orden emitida al proveedor ganador
+  awardedAt: string;
+  awardedBy: string;
+  awardedByName: string;
+}
+
+export interface Rfq {
+  id: string;
+  orgId: string;
+  projectId: string;
+  lineItem: string;  // Partida del proyecto que se cotiza
+  category: string;  // Vendor.category invitada
+  quantity: number;
+  neededBy: string;  // YYYY-MM-DD
+  requiredCertifications: string[];
+  weights: RfqWeights;
+  invitedVendorIds: string[];
+  responses: RfqResponse[];
+  status: 'abierta' | 'adjudicada' | 'cancelada';
+  award: RfqAward | null;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: string;
+  createdByName: string;
 }
 
 // Finance Types
@@ -109,14 +414,54 @@ export interface FinanceMetric {
   category: 'revenue' | 'margin' | 'cash_flow' | 'efficiency';
 }
 
+// Origen de un movimiento: anticipo o hito de una cotización aceptada, orden de compra, gasto fijo o captura manual
+export interface CashFlowSource {
+  kind: 'anticipo' | 'hito' | 'orden_compra' | 'gasto_fijo' | 'manual';
+  refId: string;  // ID del hito, la orden o el gasto fijo ('' en manual)
+}
+
 export interface CashFlowItem {
   id: string;
-  date: string;
+  date: string;  // YYYY-MM-DD; en programados, la fecha esperada de cobro o pago
   description: string;
-  amount: number;
+  amount: number;  // Negativo en gastos
   type: 'income' | 'expense';
   category: string;
   projectId?: string;
+  status: 'registrado' | 'programado';
+  source: CashFlowSource;
+  invoiceDate?: string;  // Programados: cuándo se factura (el cobro llega DSO días después)
+}
+
+// Movimiento real capturado en el libro de caja
+export interface CashEntry extends CashFlowItem {
+  orgId: string;
+  status: 'registrado';
+  createdAt: string;
+  createdBy: string;
+  createdByName: string;
+}
+
+export interface OverheadItem {
+  id: string;
+  description: string;
+  category: string;
+  amount: number;  // Positivo; se registra como gasto
+  frequency: 'semanal' | 'quincenal' | 'mensual';
+  startDate: string;  // Primera fecha de pago (YYYY-MM-DD)
+}
+
+export interface FinanceSettings {
+  orgId: string;
+  openingBalance: number;  // Saldo en bancos a la fecha de corte
+  openingDate: string;  // YYYY-MM-DD
+  advancePercentage: number;  // % de anticipo al aceptar una cotización
+  defaultDsoDays: number;  // Días de cobranza mientras no hay historial
+  targetDsoDays: number;
+  vendorPaymentDays: number;  // Plazo de pago a proveedores desde la entrega
+  overhead: OverheadItem[];
+  updatedAt: string;
+  updatedBy: string;
 }
 
 // Case Study Types
@@ -139,6 +484,61 @@ export interface CaseStudy {
   featured: boolean;
 }
 
+// Simulation Types
+export type ChannelValues = {
+  meta: number;
+  google: number;
+  referral: number;
+  organic: number;
+};
+
+export interface SimulationData {
+  step1: {
+    leadsPerChannel: ChannelValues;
+    speedToLead: number;
+    showRate: number;
+    appointmentsPerDay: number;
+  };
+  step2: {
+    timeToProposal: number;
+    proposalsUnder72h: number;
+    winRate: number;
+    ticketByPackage: { basic: number; standard: number; premium: number };
+    revisions: number;
+  };
+  step3: {
+    activeCapacity: number;
+    otif: number;
+    rework: number;
+    tradesWithPlanB: number;
+  };
+  step4: {
+    dso: number;
+    margin: number;
+    advance: number;
+  };
+  step5: {
+    budgetByChannel: ChannelValues;
+    targetLeads: number;
+    maxCapacity: number;
+  };
+}
+
+export type ScenarioType = 'baseline' | 'tobe';
+
+export interface Simulation {
+  id: string;
+  orgId: string;
+  name: string;
+  type: ScenarioType;
+  data: SimulationData;
+  pairedWith: string | null;  // Counterpart scenario (baseline <-> to-be)
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Optimization Types
 export interface OptimizationInput {
   channels: string[];